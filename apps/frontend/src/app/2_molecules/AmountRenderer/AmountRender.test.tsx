@@ -4,6 +4,8 @@ import React from 'react';
 
 import 'jest-canvas-mock';
 
+import { TokenAmount } from '@sovryn/utils';
+
 import { BITCOIN, BTC_RENDER_PRECISION } from '../../../constants/currencies';
 import { AmountRenderer } from './AmountRenderer';
 
@@ -20,6 +22,18 @@ jest.mock('../../../contexts/NotificationContext', () => {
 });
 
 describe('AmountRenderer', () => {
+  it('renders token amount in units of its asset', () => {
+    render(
+      <AmountRenderer
+        value={TokenAmount.fromWei({ symbol: 'WBTC', decimals: 8 }, 150000000)}
+        suffix="WBTC"
+      />,
+    );
+
+    const value = screen.getByText(/1.5 WBTC/);
+    expect(value).toBeInTheDocument();
+  });
+
   it('renders with value more than 1', () => {
     render(<AmountRenderer value={1.234} />);
 
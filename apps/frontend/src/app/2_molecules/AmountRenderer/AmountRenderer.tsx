@@ -4,6 +4,7 @@ import classNames from 'classnames';
 import { t } from 'i18next';
 import { nanoid } from 'nanoid';
 import CountUp from 'react-countup';
+import { useTranslation } from 'react-i18next';
 
 import {
   Icon,
@@ -12,7 +13,7 @@ import {
   Tooltip,
   TooltipTrigger,
 } from '@sovryn/ui';
-import { Decimal, Decimalish } from '@sovryn/utils';
+import { Decimal, Decimalish, TokenAmount } from '@sovryn/utils';
 
 import { useNotificationContext } from '../../../contexts/NotificationContext';
 import { translations } from '../../../locales/i18n';
@@ -20,6 +21,7 @@ import {
   formatValue,
   getDecimalPartLength,
   getLocaleSeparators,
+  getNumberLocale,
   decimalic,
 } from '../../../utils/math';
 import {
@@ -27,10 +29,9 @@ import {
   isValueBetweenZeroAndOne,
 } from './AmountRenderer.utils';
 
-const { decimal, thousand } = getLocaleSeparators();
-
 type AmountRendererProps = {
-  value: Decimalish;
+  // TokenAmount is rendered in units of its asset, so decimals and asIf are ignored.
+  value: Decimalish | TokenAmount;
   precision?: number;
   className?: string;
   suffix?: string;
@@ -60,7 +61,9 @@ export const AmountRenderer: FC<AmountRendererProps> = ({
 }) => {
   const adjustedValue = useMemo(
     () =>
-      !value || value === 0 || value === '0'
+      value instanceof TokenAmount
+        ? value.toDecimal()
+        : !value || value === 0 || value === '0'
         ? Decimal.ZERO
         : asIf
         ? Decimal.from(value)
@@ -70,6 +73,13 @@ export const AmountRenderer: FC<AmountRendererProps> = ({
 
   const { addNotification } = useNotificationContext();
 
+  // separators follow the i18n language, also when it's changed
+  const { i18n } = useTranslation();
+  const { decimal, thousand } = useMemo(
+    () => getLocaleSeparators(getNumberLocale(i18n.language)),
+    [i18n.language],
+  );
+
   const copyAddress = useCallback(async () => {
     await navigator.clipboard.writeText(String(adjustedValue));
 
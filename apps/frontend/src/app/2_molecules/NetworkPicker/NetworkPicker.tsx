@@ -1,55 +1,72 @@
-import React, { FC, useMemo } from 'react';
+import React, { FC, useMemo, useReducer } from 'react';
 
 import classNames from 'classnames';
+import { t } from 'i18next';
 
 import { Dropdown, Menu, MenuItem } from '@sovryn/ui';
 
 import { APP_CHAIN_LIST } from '../../../config/chains';
 
 import { useChainStore } from '../../../hooks/useChainStore';
+import { translations } from '../../../locales/i18n';
 import { getChainById } from '../../../utils/chain';
 import styles from './NetworkPicker.module.css';
+import { CustomRpcDialog } from './components/CustomRpcDialog/CustomRpcDialog';
 
 type NetworkPickerProps = {
   className?: string;
 };
 export const NetworkPicker: FC<NetworkPickerProps> = ({ className }) => {
   const { currentChainId, setCurrentChainId } = useChainStore();
+  const [isCustomRpcOpen, toggleCustomRpc] = useReducer(v => !v, false);
   const selectedChain = useMemo(
     () => getChainById(currentChainId),
     [currentChainId],
   );
   return (
-    <Dropdown
-      text={
-        <>
-          <img
-            src={selectedChain?.icon}
-            className="w-5 h-5 opacity-50"
-            alt={selectedChain?.label}
-          />
-        </>
-      }
-      closeOnClick
-      className={classNames('h-8 min-w-0', className)}
-      dropdownClassName="z-[10000000]"
-    >
-      <Menu>
-        {APP_CHAIN_LIST.map(item => (
+    <>
+      <Dropdown
+        text={
+          <>
+            <img
+              src={selectedChain?.icon}
+              className="w-5 h-5 opacity-50"
+              alt={selectedChain?.label}
+            />
+          </>
+        }
+        closeOnClick
+        className={classNames('h-8 min-w-0', className)}
+        dropdownClassName="z-[10000000]"
+      >
+        <Menu>
+          {APP_CHAIN_LIST.map(item => (
+            <MenuItem
+              key={item.id}
+              text={
+                <span className={styles.itemContent}>
+                  <img
+                    src={item.icon}
+                    className={styles.icon}
+                    alt={item.label}
+                  />{' '}
+                  {item.label}
+                </span>
+              }
+              isActive={item.id === currentChainId}
+              onClick={setCurrentChainId.bind(null, item.id)}
+              className={styles.menuItem}
+            />
+          ))}
           <MenuItem
-            key={item.id}
-            text={
-              <span className={styles.itemContent}>
-                <img src={item.icon} className={styles.icon} alt={item.label} />{' '}
-                {item.label}
-              </span>
-            }
-            isActive={item.id === currentChainId}
-            onClick={setCurrentChainId.bind(null, item.id)}
+            text={t(translations.customRpcDialog.menuItem)}
+            onClick={toggleCustomRpc}
             className={styles.menuItem}
+            dataAttribute="network-picker-custom-rpc"
           />
-        ))}
-      </Menu>
-    </Dropdown>
+        </Menu>
+      </Dropdown>
+      <CustomRpcDialog isOpen={isCustomRpcOpen} onClose={toggleCustomRpc} />
+    </>
   );
 };
@@ -0,0 +1,124 @@
+import React, { FC, useCallback, useEffect, useState } from 'react';
+
+import { providers } from 'ethers';
+import { t } from 'i18next';
+
+import { chainIdToNumber } from '@sovryn/ethers-provider';
+import {
+  Button,
+  ButtonStyle,
+  Dialog,
+  DialogBody,
+  DialogHeader,
+  DialogSize,
+  FormGroup,
+  Input,
+  Paragraph,
+  ParagraphStyle,
+} from '@sovryn/ui';
+
+import { useChainStore } from '../../../../../hooks/useChainStore';
+import { useCustomRpcStore } from '../../../../../hooks/useCustomRpcStore';
+import { translations } from '../../../../../locales/i18n';
+import { getChainLabel } from '../../../../../utils/chain';
+
+type CustomRpcDialogProps = {
+  isOpen: boolean;
+  onClose: () => void;
+};
+
+export const CustomRpcDialog: FC<CustomRpcDialogProps> = ({
+  isOpen,
+  onClose,
+}) => {
+  const { currentChainId } = useChainStore();
+  const { customRpc, setCustomRpc } = useCustomRpcStore();
+
+  const [url, setUrl] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setUrl(customRpc[currentChainId] ?? '');
+      setError('');
+    }
+  }, [currentChainId, customRpc, isOpen]);
+
+  const handleSave = useCallback(async () => {
+    setLoading(true);
+    setError('');
+
+    try {
+      // make sure the node is reachable and serves the selected network before using it
+      const network = await new providers.StaticJsonRpcProvider(
+        url,
+      ).getNetwork();
+
+      if (network.chainId !== chainIdToNumber(currentChainId)) {
+        setError(t(translations.customRpcDialog.wrongNetwork));
+        return;
+      }
+
+      setCustomRpc(currentChainId, url);
+      onClose();
+    } catch (e) {
+      setError(t(translations.customRpcDialog.unreachable));
+    } finally {
+      setLoading(false);
+    }
+  }, [currentChainId, onClose, setCustomRpc, url]);
+
+  const handleReset = useCallback(() => {
+    setCustomRpc(currentChainId, undefined);
+    onClose();
+  }, [currentChainId, onClose, setCustomRpc]);
+
+  return (
+    <Dialog isOpen={isOpen} width={DialogSize.sm}>
+      <DialogHeader
+        onClose={onClose}
+        title={t(translations.customRpcDialog.title, {
+          network: getChainLabel(currentChainId),
+        })}
+      />
+      <DialogBody className="p-6">
+        <Paragraph style={ParagraphStyle.tall}>
+          {t(translations.customRpcDialog.description)}
+        </Paragraph>
+
+        <FormGroup
+          className="mt-6 mb-4"
+          label={t(translations.customRpcDialog.inputLabel)}
+          errorLabel={error}
+        >
+          <Input
+            value={url}
+            onChangeText={setUrl}
+            placeholder="https://"
+            dataAttribute="custom-rpc-url"
+          />
+        </FormGroup>
+
+        <div className="mt-8 flex flex-row gap-4">
+          <Button
+            onClick={handleReset}
+            text={t(translations.customRpcDialog.reset)}
+            style={ButtonStyle.secondary}
+            disabled={!customRpc[currentChainId]}
+            className="w-full"
+            dataAttribute="custom-rpc-reset"
+          />
+          <Button
+            onClick={handleSave}
+            text={t(translations.common.buttons.save)}
+            disabled={!url || loading}
+            loading={loading}
+            className="w-full"
+            dataAttribute="custom-rpc-save"
+          />
+        </div>
+      </DialogBody>
+    </Dialog>
+  );
+};
@@ -50,7 +50,7 @@ export const getMaxDrawdown = async (
     collateralAmount.toHexString(),
     margin.toHexString(),
   );
-  return Decimal.fromBigNumberString(amount);
+  return Decimal.fromBigNumberString(amount.toString());
 };
 
 export const getBorrowAmount = async (
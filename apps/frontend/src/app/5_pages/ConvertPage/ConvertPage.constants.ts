@@ -1,3 +1,5 @@
+import { providers } from 'ethers';
+
 import { getProvider } from '@sovryn/ethers-provider';
 import { ChainIds } from '@sovryn/ethers-provider';
 import { SmartRouter, smartRoutes } from '@sovryn/sdk';
@@ -19,10 +21,21 @@ export const SWAP_ROUTES = [
   smartRoutes.zeroRedemptionSwapRoute,
 ];
 
-export const SMART_ROUTER_RSK = new SmartRouter(
-  getProvider(RSK_CHAIN_ID),
-  SWAP_ROUTES,
-);
+let smartRouterRsk: { provider: providers.Provider; router: SmartRouter };
+
+// Router is rebuilt when the RSK provider is replaced, e.g. after custom RPC is set.
+export const getSmartRouterRsk = () => {
+  const provider = getProvider(RSK_CHAIN_ID);
+
+  if (smartRouterRsk?.provider !== provider) {
+    smartRouterRsk = {
+      provider,
+      router: new SmartRouter(provider, SWAP_ROUTES),
+    };
+  }
+
+  return smartRouterRsk.router;
+};
 
 export const SMART_ROUTER_STABLECOINS = [
   COMMON_SYMBOLS.ZUSD,
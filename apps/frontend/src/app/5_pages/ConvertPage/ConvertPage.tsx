@@ -7,8 +7,7 @@ import { useSearchParams } from 'react-router-dom';
 
 import { getAssetData } from '@sovryn/contracts';
 import { ChainId } from '@sovryn/ethers-provider';
-import { getProvider } from '@sovryn/ethers-provider';
-import { SwapRoute } from '@sovryn/sdk';
+import { SwapPathQuote, SwapQuote, SwapRoute } from '@sovryn/sdk';
 import { SmartRouter } from '@sovryn/sdk';
 import {
   Accordion,
@@ -17,6 +16,7 @@ import {
   Button,
   ButtonStyle,
   ButtonType,
+  Checkbox,
   ErrorBadge,
   ErrorLevel,
   Heading,
@@ -28,6 +28,8 @@ import {
   SelectOption,
   SimpleTable,
   SimpleTableRow,
+  TabType,
+  Tabs,
   TooltipTrigger,
 } from '@sovryn/ui';
 import { Decimal } from '@sovryn/utils';
@@ -40,9 +42,12 @@ import { getTokenDisplayName } from '../../../constants/tokens';
 import { useAccount } from '../../../hooks/useAccount';
 import { useAssetBalance } from '../../../hooks/useAssetBalance';
 import { useCurrentChain } from '../../../hooks/useChainStore';
+import { useProvider } from '../../../hooks/useProvider';
 import { useWeiAmountInput } from '../../../hooks/useWeiAmountInput';
 import { translations } from '../../../locales/i18n';
 import { COMMON_SYMBOLS, listAssetsOfChain } from '../../../utils/asset';
+import { isBobChain } from '../../../utils/chain';
+import { getSovrynErrorMessage } from '../../../utils/errors';
 import { removeTrailingZerosFromString } from '../../../utils/helpers';
 import { decimalic, fromWei } from '../../../utils/math';
 import { FIXED_MYNT_RATE, FIXED_RATE_ROUTES } from './ConvertPage.constants';
@@ -51,6 +56,8 @@ import {
   SMART_ROUTER_STABLECOINS,
   SWAP_ROUTES,
 } from './ConvertPage.constants';
+import { LimitOrderForm } from './components/LimitOrderForm/LimitOrderForm';
+import { LimitOrdersTable } from './components/LimitOrdersTable/LimitOrdersTable';
 import { useConversionMaintenance } from './hooks/useConversionMaintenance';
 import { useGetMaximumAvailableAmount } from './hooks/useGetMaximumAvailableAmount';
 import { useHandleConversion } from './hooks/useHandleConversion';
@@ -63,11 +70,36 @@ const MYNT_TOKEN = 'MYNT';
 const ConvertPage: FC = () => {
   const currentChainId = useCurrentChain();
 
-  const [hasQuoteError, setHasQuoteError] = useState(false);
+  const [quoteError, setQuoteError] = useState<string>();
+  const [tabIndex, setTabIndex] = useState(0);
+
+  // limit orders are placed on ambient pools, which are only deployed on bob
+  const isLimitOrderTab = useMemo(
+    () => isBobChain(currentChainId) && tabIndex === 1,
+    [currentChainId, tabIndex],
+  );
+
+  const tabs = useMemo(
+    () => [
+      {
+        label: t(pageTranslations.tabs.market),
+        activeClassName: 'text-primary-20',
+        dataAttribute: 'convert-market',
+      },
+      {
+        label: t(pageTranslations.tabs.limit),
+        activeClassName: 'text-primary-20',
+        dataAttribute: 'convert-limit',
+      },
+    ],
+    [],
+  );
+
+  const provider = useProvider(currentChainId);
 
   const smartRouter = useMemo(
-    () => new SmartRouter(getProvider(currentChainId), SWAP_ROUTES),
-    [currentChainId],
+    () => new SmartRouter(provider, SWAP_ROUTES),
+    [provider],
   );
 
   const tokensToOptions = useCallback(
@@ -103,6 +135,7 @@ const ConvertPage: FC = () => {
   const { balance: myntBalance } = useAssetBalance(MYNT_TOKEN);
 
   const [slippageTolerance, setSlippageTolerance] = useState('0.5');
+  const [useDexBalance, setUseDexBalance] = useState(false);
 
   const [priceInQuote, setPriceQuote] = useState(false);
   const hasMyntBalance = useMemo(() => myntBalance.gt(0), [myntBalance]);
@@ -110,6 +143,8 @@ const ConvertPage: FC = () => {
 
   const [quote, setQuote] = useState('');
   const [route, setRoute] = useState<SwapRoute | undefined>();
+  const [path, setPath] = useState<SwapPathQuote | undefined>();
+  const [quoteDetails, setQuoteDetails] = useState<SwapQuote | undefined>();
 
   const defaultSourceToken = useMemo(() => {
     if (fromToken) {
@@ -155,7 +190,7 @@ const ConvertPage: FC = () => {
         currentChainId,
       );
       smartRouter
-        .getDestination(currentChainId, sourceTokenDetails.address)
+        .getPathDestinations(currentChainId, sourceTokenDetails.address)
         .then(tokens => {
           tokensToOptions(tokens, currentChainId, setDestinationTokenOptions);
         });
@@ -193,20 +228,35 @@ const ConvertPage: FC = () => {
     [route],
   );
 
+  // only swaps in ambient pools can be settled with the dex balance
+  const canUseDexBalance = useMemo(
+    () => !path && route?.name === 'Ambient',
+    [path, route],
+  );
+
   const minimumReceived = useMemo(() => {
-    if (!quote || !slippageTolerance || !route) {
+    const routes = path?.legs.map(leg => leg.route) ?? (route ? [route] : []);
+
+    if (!quote || !slippageTolerance || routes.length === 0) {
       return '';
     }
 
-    if (FIXED_RATE_ROUTES.includes(route.name)) {
+    // slippage is applied to every leg of the path, except fixed rate routes
+    const slippageLegs = routes.filter(
+      item => !FIXED_RATE_ROUTES.includes(item.name),
+    ).length;
+
+    if (slippageLegs === 0) {
       return quote;
     }
 
-    return Decimal.from(quote)
-      .mul(100 - Number(slippageTolerance))
-      .div(100)
-      .toString();
-  }, [quote, route, slippageTolerance]);
+    let value = Decimal.from(quote);
+    for (let i = 0; i < slippageLegs; i++) {
+      value = value.mul(100 - Number(slippageTolerance)).div(100);
+    }
+
+    return value.toString();
+  }, [path, quote, route, slippageTolerance]);
 
   const priceToken = useMemo<string>(() => {
     if (!destinationToken) {
@@ -249,15 +299,28 @@ const ConvertPage: FC = () => {
     quote,
   ]);
 
+  // quotes are cached per block by the router, so they are refreshed on every new block
+  const [block, setBlock] = useState<number>();
+  useEffect(() => smartRouter.onBlock(setBlock), [smartRouter]);
+
   useEffect(() => {
-    (async () => {
-      setQuote('');
-      setRoute(undefined);
+    setQuote('');
+    setRoute(undefined);
+    setPath(undefined);
+    setQuoteDetails(undefined);
+  }, [sourceToken, destinationToken, weiAmount, currentChainId]);
+
+  useEffect(() => {
+    // quote of previous inputs or block may resolve after the current one, it is ignored
+    let cancelled = false;
 
+    (async () => {
       if (!sourceToken || !destinationToken || weiAmount.lte(0)) {
         return;
       }
 
+      // error of the direct routes explains the failure better than the missing path
+      let directQuoteError: unknown;
       try {
         const [sourceTokenDetails, destinationTokenDetails] = await Promise.all(
           [
@@ -266,24 +329,66 @@ const ConvertPage: FC = () => {
           ],
         );
 
-        const result = await smartRouter.getBestQuote(
-          currentChainId,
-          sourceTokenDetails.address,
-          destinationTokenDetails.address,
-          weiAmount,
-        );
+        const result = await smartRouter
+          .getBestQuote(
+            currentChainId,
+            sourceTokenDetails.address,
+            destinationTokenDetails.address,
+            weiAmount,
+          )
+          .catch(error => {
+            directQuoteError = error;
+            return undefined;
+          });
+
+        // there is no route swapping the pair directly, compose a path from multiple routes
+        const pathResult = result
+          ? undefined
+          : await smartRouter.getBestPathQuote(
+              currentChainId,
+              sourceTokenDetails.address,
+              destinationTokenDetails.address,
+              weiAmount,
+            );
+
+        if (cancelled) {
+          return;
+        }
+
+        setRoute(result?.route);
+        setPath(pathResult);
+        setQuoteDetails(result?.details);
 
-        setRoute(result.route);
         const quote = removeTrailingZerosFromString(
-          fromWei(result.quote.toString()),
+          fromWei((result?.quote ?? pathResult?.quote)!.toString()),
         );
         setQuote(quote);
-        setHasQuoteError(false);
-      } catch {
-        setHasQuoteError(true);
+        setQuoteError(undefined);
+      } catch (error) {
+        if (cancelled) {
+          return;
+        }
+
+        setQuoteError(
+          getSovrynErrorMessage(
+            directQuoteError ?? error,
+            t(pageTranslations.form.quoteError),
+          ),
+        );
       }
     })();
-  }, [sourceToken, destinationToken, weiAmount, currentChainId, smartRouter]);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    sourceToken,
+    destinationToken,
+    weiAmount,
+    currentChainId,
+    smartRouter,
+    block,
+  ]);
 
   const onMaximumAmountClick = useCallback(
     () => setAmount(maximumAmountToConvert.toString()),
@@ -294,13 +399,13 @@ const ConvertPage: FC = () => {
     if (destinationToken) {
       setDestinationToken(sourceToken);
       setSourceToken(destinationToken);
-      setHasQuoteError(false);
+      setQuoteError(undefined);
       setAmount('');
     }
     if (destinationToken) {
       setDestinationToken(sourceToken);
       setSourceToken(destinationToken);
-      setHasQuoteError(false);
+      setQuoteError(undefined);
       setAmount('');
     }
   }, [destinationToken, setAmount, sourceToken]);
@@ -308,7 +413,7 @@ const ConvertPage: FC = () => {
   const onSourceTokenChange = useCallback(
     (value: string) => {
       setSourceToken(value);
-      setHasQuoteError(false);
+      setQuoteError(undefined);
       setAmount('');
     },
     [setAmount],
@@ -316,7 +421,7 @@ const ConvertPage: FC = () => {
 
   const onDestinationTokenChange = useCallback((value: string) => {
     setDestinationToken(value);
-    setHasQuoteError(false);
+    setQuoteError(undefined);
   }, []);
 
   const getAssetRenderer = useCallback(
@@ -331,19 +436,23 @@ const ConvertPage: FC = () => {
     [currentChainId],
   );
 
-  const { handleSubmit } = useHandleConversion(
+  const { handleSubmit, isSimulating, simulationError } = useHandleConversion(
     sourceToken,
     destinationToken,
     weiAmount,
     route,
     slippageTolerance,
     onTransactionSuccess,
+    path,
+    smartRouter,
+    canUseDexBalance && useDexBalance,
   );
 
   const isInMaintenance = useConversionMaintenance(
     sourceToken,
     destinationToken,
     route,
+    path,
   );
 
   const isSubmitDisabled = useMemo(
@@ -354,7 +463,7 @@ const ConvertPage: FC = () => {
       Number(amount) <= 0 ||
       Number(amount) > Number(maximumAmountToConvert) ||
       !destinationToken ||
-      !route,
+      (!route && !path),
     [
       isInMaintenance,
       account,
@@ -362,6 +471,7 @@ const ConvertPage: FC = () => {
       maximumAmountToConvert,
       destinationToken,
       route,
+      path,
     ],
   );
 
@@ -428,7 +538,7 @@ const ConvertPage: FC = () => {
 
   useEffect(() => {
     if (!account) {
-      setHasQuoteError(false);
+      setQuoteError(undefined);
       setAmount('');
     }
   }, [account, setAmount]);
@@ -450,176 +560,248 @@ const ConvertPage: FC = () => {
         </Paragraph>
 
         <div className="mt-12 w-full p-0 sm:border sm:border-gray-50 sm:rounded sm:w-[28rem] sm:p-6 sm:bg-gray-90">
-          <div className="bg-gray-80 rounded p-6">
-            <div className="w-full flex flex-row justify-between items-center">
-              <Paragraph size={ParagraphSize.base} className="font-medium">
-                {t(pageTranslations.form.convertFrom)}
-              </Paragraph>
-
-              <MaxButton
-                onClick={onMaximumAmountClick}
-                value={maximumAmountToConvert}
-                token={sourceToken}
-                dataAttribute="convert-from-max"
-                chainId={currentChainId}
-              />
-            </div>
-
-            <div className="w-full flex flex-row justify-between items-center gap-3 mt-3.5">
-              <AmountInput
-                value={amount}
-                onChangeText={setAmount}
-                label={t(commonTranslations.amount)}
-                min={0}
-                invalid={!isValidAmount}
-                disabled={!account}
-                className="w-full flex-grow-0 flex-shrink"
-                dataAttribute="convert-from-amount"
-                placeholder="0"
-              />
-
-              <Select
-                value={sourceToken}
-                onChange={onSourceTokenChange}
-                options={sourceTokenOptions}
-                labelRenderer={() => getAssetRenderer(sourceToken)}
-                className="min-w-[6.7rem]"
-                menuClassName="max-h-[10rem] sm:max-h-[20rem]"
-                dataAttribute="convert-from-asset"
-              />
-            </div>
-
-            {!isValidAmount && (
-              <ErrorBadge
-                level={ErrorLevel.Critical}
-                message={t(pageTranslations.form.invalidAmountError)}
-                dataAttribute="convert-from-amount-error"
-              />
-            )}
-          </div>
+          {isBobChain(currentChainId) && (
+            <Tabs
+              type={TabType.secondary}
+              items={tabs}
+              onChange={setTabIndex}
+              index={tabIndex}
+              className="mb-6"
+            />
+          )}
 
-          <div className="flex justify-center rounded-full -mt-3.5">
-            <button
-              className="w-11 h-11 rounded-full bg-gray-90 flex justify-center items-center"
-              onClick={onSwitchClick}
-              {...applyDataAttr('convert-swap-asset')}
-            >
-              <Icon
-                icon={IconNames.PENDING}
-                className="text-gray-50 rotate-90"
-                size={24}
-              />
-            </button>
-          </div>
+          {isLimitOrderTab ? (
+            <LimitOrderForm />
+          ) : (
+            <>
+              <div className="bg-gray-80 rounded p-6">
+                <div className="w-full flex flex-row justify-between items-center">
+                  <Paragraph size={ParagraphSize.base} className="font-medium">
+                    {t(pageTranslations.form.convertFrom)}
+                  </Paragraph>
+
+                  <MaxButton
+                    onClick={onMaximumAmountClick}
+                    value={maximumAmountToConvert}
+                    token={sourceToken}
+                    dataAttribute="convert-from-max"
+                    chainId={currentChainId}
+                  />
+                </div>
+
+                <div className="w-full flex flex-row justify-between items-center gap-3 mt-3.5">
+                  <AmountInput
+                    value={amount}
+                    onChangeText={setAmount}
+                    label={t(commonTranslations.amount)}
+                    min={0}
+                    invalid={!isValidAmount}
+                    disabled={!account}
+                    className="w-full flex-grow-0 flex-shrink"
+                    dataAttribute="convert-from-amount"
+                    placeholder="0"
+                  />
 
-          <div className="bg-gray-80 rounded p-6 -mt-3.5">
-            <Paragraph size={ParagraphSize.base} className="font-medium">
-              {t(pageTranslations.form.convertTo)}
-            </Paragraph>
-
-            <div className="w-full flex flex-row justify-between items-center gap-3 mt-3.5">
-              <AmountInput
-                value={renderDestinationAmount}
-                label={t(commonTranslations.amount)}
-                readOnly
-                placeholder={t(commonTranslations.na)}
-                className="w-full flex-grow-0 flex-shrink"
-                dataAttribute="convert-to-amount"
-              />
-              <Select
-                value={destinationToken}
-                onChange={onDestinationTokenChange}
-                options={destinationTokenOptions}
-                className="min-w-[6.7rem]"
-                menuClassName="max-h-[10rem] sm:max-h-[20rem]"
-                dataAttribute="convert-to-asset"
-              />
-            </div>
-          </div>
+                  <Select
+                    value={sourceToken}
+                    onChange={onSourceTokenChange}
+                    options={sourceTokenOptions}
+                    labelRenderer={() => getAssetRenderer(sourceToken)}
+                    className="min-w-[6.7rem]"
+                    menuClassName="max-h-[10rem] sm:max-h-[20rem]"
+                    dataAttribute="convert-from-asset"
+                  />
+                </div>
 
-          {
-            sourceToken && destinationToken && quote ? (
-              <>
-                <Accordion
-                  className="mt-4 mb-3 text-xs"
-                  label={t(translations.common.advancedSettings)}
-                  open={showAdvancedSettings}
-                  onClick={() => setShowAdvancedSettings(!showAdvancedSettings)}
-                  dataAttribute="convert-settings"
+                {!isValidAmount && (
+                  <ErrorBadge
+                    level={ErrorLevel.Critical}
+                    message={t(pageTranslations.form.invalidAmountError)}
+                    dataAttribute="convert-from-amount-error"
+                  />
+                )}
+              </div>
+
+              <div className="flex justify-center rounded-full -mt-3.5">
+                <button
+                  className="w-11 h-11 rounded-full bg-gray-90 flex justify-center items-center"
+                  onClick={onSwitchClick}
+                  {...applyDataAttr('convert-swap-asset')}
                 >
-                  <div className="mt-2 mb-4">
-                    <AmountInput
-                      value={slippageTolerance}
-                      onChange={e => setSlippageTolerance(e.target.value)}
-                      label={t(pageTranslations.slippageTolerance)}
-                      className="max-w-none w-full"
-                      unit="%"
-                      step="0.01"
-                      decimalPrecision={2}
-                      placeholder="0"
-                      max="100"
-                    />
-                  </div>
-                </Accordion>
-
-                <SimpleTable className="mt-3">
-                  <SimpleTableRow
-                    label={t(pageTranslations.minimumReceived)}
-                    valueClassName="text-primary-10"
-                    value={
-                      <AmountRenderer
-                        value={minimumReceived}
-                        suffix={getTokenDisplayName(destinationToken)}
-                        precision={TOKEN_RENDER_PRECISION}
-                      />
-                    }
+                  <Icon
+                    icon={IconNames.PENDING}
+                    className="text-gray-50 rotate-90"
+                    size={24}
                   />
-                  <SimpleTableRow
-                    label={t(pageTranslations.maximumPrice)}
-                    valueClassName="text-primary-10"
-                    className="cursor-pointer"
-                    onClick={togglePriceQuote}
-                    value={renderPriceAmount}
+                </button>
+              </div>
+
+              <div className="bg-gray-80 rounded p-6 -mt-3.5">
+                <Paragraph size={ParagraphSize.base} className="font-medium">
+                  {t(pageTranslations.form.convertTo)}
+                </Paragraph>
+
+                <div className="w-full flex flex-row justify-between items-center gap-3 mt-3.5">
+                  <AmountInput
+                    value={renderDestinationAmount}
+                    label={t(commonTranslations.amount)}
+                    readOnly
+                    placeholder={t(commonTranslations.na)}
+                    className="w-full flex-grow-0 flex-shrink"
+                    dataAttribute="convert-to-amount"
                   />
-                </SimpleTable>
-              </>
-            ) : null
-            // <SimpleTable className="mt-3">
-            //   <SimpleTableRow
-            //     label={t(pageTranslations.price)}
-            //     valueClassName="text-primary-10"
-            //     className="cursor-pointer"
-            //     value={renderPriceAmount}
-            //     onClick={() => setPriceQuote(value => !value)}
-            //   />
-            // </SimpleTable>
-          }
-
-          {hasQuoteError && (
-            <ErrorBadge
-              level={ErrorLevel.Critical}
-              message={t(pageTranslations.form.quoteError)}
-              dataAttribute="convert-quote-error"
-            />
-          )}
+                  <Select
+                    value={destinationToken}
+                    onChange={onDestinationTokenChange}
+                    options={destinationTokenOptions}
+                    className="min-w-[6.7rem]"
+                    menuClassName="max-h-[10rem] sm:max-h-[20rem]"
+                    dataAttribute="convert-to-asset"
+                  />
+                </div>
+              </div>
+
+              {
+                sourceToken && destinationToken && quote ? (
+                  <>
+                    <Accordion
+                      className="mt-4 mb-3 text-xs"
+                      label={t(translations.common.advancedSettings)}
+                      open={showAdvancedSettings}
+                      onClick={() =>
+                        setShowAdvancedSettings(!showAdvancedSettings)
+                      }
+                      dataAttribute="convert-settings"
+                    >
+                      <div className="mt-2 mb-4">
+                        <AmountInput
+                          value={slippageTolerance}
+                          onChange={e => setSlippageTolerance(e.target.value)}
+                          label={t(pageTranslations.slippageTolerance)}
+                          className="max-w-none w-full"
+                          unit="%"
+                          step="0.01"
+                          decimalPrecision={2}
+                          placeholder="0"
+                          max="100"
+                        />
+                        {canUseDexBalance && (
+                          <Checkbox
+                            containerClassName="mt-4"
+                            checked={useDexBalance}
+                            onChangeValue={setUseDexBalance}
+                            label={t(pageTranslations.useDexBalance)}
+                            dataAttribute="convert-use-dex-balance"
+                          />
+                        )}
+                      </div>
+                    </Accordion>
+
+                    <SimpleTable className="mt-3">
+                      <SimpleTableRow
+                        label={t(pageTranslations.minimumReceived)}
+                        valueClassName="text-primary-10"
+                        value={
+                          <AmountRenderer
+                            value={minimumReceived}
+                            suffix={getTokenDisplayName(destinationToken)}
+                            precision={TOKEN_RENDER_PRECISION}
+                          />
+                        }
+                      />
+                      <SimpleTableRow
+                        label={t(pageTranslations.maximumPrice)}
+                        valueClassName="text-primary-10"
+                        className="cursor-pointer"
+                        onClick={togglePriceQuote}
+                        value={renderPriceAmount}
+                      />
+                      {quoteDetails && (
+                        <>
+                          <SimpleTableRow
+                            label={t(pageTranslations.priceImpact)}
+                            valueClassName="text-primary-10"
+                            value={
+                              <AmountRenderer
+                                value={quoteDetails.priceImpact.toString()}
+                                suffix="%"
+                                precision={2}
+                              />
+                            }
+                          />
+                          <SimpleTableRow
+                            label={t(pageTranslations.fees)}
+                            valueClassName="text-primary-10"
+                            value={
+                              <AmountRenderer
+                                value={fromWei(
+                                  quoteDetails.protocolFee.add(
+                                    quoteDetails.lpFee,
+                                  ),
+                                )}
+                                suffix={getTokenDisplayName(destinationToken)}
+                                precision={TOKEN_RENDER_PRECISION}
+                              />
+                            }
+                          />
+                        </>
+                      )}
+                    </SimpleTable>
+                  </>
+                ) : null
+                // <SimpleTable className="mt-3">
+                //   <SimpleTableRow
+                //     label={t(pageTranslations.price)}
+                //     valueClassName="text-primary-10"
+                //     className="cursor-pointer"
+                //     value={renderPriceAmount}
+                //     onClick={() => setPriceQuote(value => !value)}
+                //   />
+                // </SimpleTable>
+              }
+
+              {quoteError && (
+                <ErrorBadge
+                  level={ErrorLevel.Critical}
+                  message={quoteError}
+                  dataAttribute="convert-quote-error"
+                />
+              )}
+
+              {simulationError && (
+                <ErrorBadge
+                  level={ErrorLevel.Critical}
+                  message={simulationError}
+                  dataAttribute="convert-simulation-error"
+                />
+              )}
+
+              <Button
+                type={ButtonType.reset}
+                style={ButtonStyle.primary}
+                text={t(commonTranslations.buttons.confirm)}
+                className="w-full mt-8"
+                disabled={isSubmitDisabled}
+                loading={isSimulating}
+                onClick={handleSubmit}
+                dataAttribute="convert-confirm"
+              />
 
-          <Button
-            type={ButtonType.reset}
-            style={ButtonStyle.primary}
-            text={t(commonTranslations.buttons.confirm)}
-            className="w-full mt-8"
-            disabled={isSubmitDisabled}
-            onClick={handleSubmit}
-            dataAttribute="convert-confirm"
-          />
-
-          {isInMaintenance && (
-            <ErrorBadge
-              level={ErrorLevel.Warning}
-              message={t(translations.maintenanceMode.featureDisabled)}
-            />
+              {isInMaintenance && (
+                <ErrorBadge
+                  level={ErrorLevel.Warning}
+                  message={t(translations.maintenanceMode.featureDisabled)}
+                />
+              )}
+            </>
           )}
         </div>
+
+        {isLimitOrderTab && account && (
+          <div className="w-full sm:w-[56rem]">
+            <LimitOrdersTable />
+          </div>
+        )}
       </div>
     </>
   );
@@ -0,0 +1,37 @@
+export enum LimitOrderStatus {
+  open = 'open',
+  filled = 'filled',
+}
+
+export type LimitOrder = {
+  id: string;
+  base: string;
+  quote: string;
+  poolIdx: number;
+  // bid orders sell the base token of the pool, ask orders sell the quote token
+  isBid: boolean;
+  bidTick: number;
+  askTick: number;
+  // pivot of the knockout range when the order was placed, needed to claim the filled order
+  pivotTime: number;
+  liquidity: string;
+  status: LimitOrderStatus;
+  timestamp: number;
+};
+
+export type IndexerLimitOrder = {
+  chainId: string;
+  base: string;
+  quote: string;
+  poolIdx: number;
+  user: string;
+  isBid: boolean;
+  bidTick: number;
+  askTick: number;
+  pivotTime: number;
+  crossTime: number;
+  concLiq: number;
+  claimableLiq: number;
+  timeFirstMint: number;
+  limitOrderId: string;
+};
@@ -1,11 +1,21 @@
 import { JsonRpcSigner } from '@ethersproject/providers';
 
-import { Contract } from 'ethers';
+import { BigNumber, Contract } from 'ethers';
+import { reactLocalStorage } from 'reactjs-localstorage';
 
 import { getContract } from '@sovryn/contracts';
+import { ChainId } from '@sovryn/ethers-provider';
+import { bigNumToFloat, floatToBigNum, tickToPrice } from '@sovryn/sdex';
 import { SwapRoute } from '@sovryn/sdk';
+import { Price } from '@sovryn/utils';
 
 import { getRskChainId } from '../../../utils/chain';
+import { roundDownTick, roundUpTick } from '../BobAmmPage/ambient-utils';
+import {
+  IndexerLimitOrder,
+  LimitOrder,
+  LimitOrderStatus,
+} from './ConvertPage.types';
 
 export const getRouteContract = async (
   route: SwapRoute,
@@ -29,3 +39,106 @@ export const getRouteContract = async (
 
   return new Contract(address, abi, signer);
 };
+
+// knockout tick of the order selling at the limit price or better.
+// Limit price is the amount of buy token for one sell token, the pool price is the amount of base token for one quote token.
+export const getKnockoutTick = (
+  price: Price,
+  sellBase: boolean,
+  gridSize: number,
+) => {
+  if (sellBase) {
+    // range below the limit is knocked out when the price falls to its lower tick
+    return roundDownTick(price.invert().toTick(), gridSize) - gridSize;
+  }
+  // range above the limit is knocked out when the price rises to its upper tick
+  return roundUpTick(price.toTick(), gridSize) + gridSize;
+};
+
+// amounts of the order in wei, the order sells one token and receives the other when it is filled
+export const getLimitOrderAmounts = (order: LimitOrder) => {
+  const liquidity = bigNumToFloat(BigNumber.from(order.liquidity));
+  const sqrtLower = Math.sqrt(tickToPrice(order.bidTick));
+  const sqrtUpper = Math.sqrt(tickToPrice(order.askTick));
+
+  const base = floatToBigNum(liquidity * (sqrtUpper - sqrtLower));
+  const quote = floatToBigNum(liquidity * (1 / sqrtLower - 1 / sqrtUpper));
+
+  return order.isBid ? { sell: base, buy: quote } : { sell: quote, buy: base };
+};
+
+export const getLimitOrderId = (
+  order: Pick<
+    LimitOrder,
+    'base' | 'quote' | 'poolIdx' | 'isBid' | 'bidTick' | 'askTick' | 'pivotTime'
+  >,
+) =>
+  [
+    order.base,
+    order.quote,
+    order.poolIdx,
+    order.isBid ? 'bid' : 'ask',
+    order.bidTick,
+    order.askTick,
+    order.pivotTime,
+  ]
+    .join('-')
+    .toLowerCase();
+
+// indexer keeps liquidity of the filled orders as claimable until they are claimed
+export const fromIndexerLimitOrder = (order: IndexerLimitOrder): LimitOrder => {
+  const status =
+    order.claimableLiq > 0 ? LimitOrderStatus.filled : LimitOrderStatus.open;
+
+  return {
+    id: getLimitOrderId(order),
+    base: order.base,
+    quote: order.quote,
+    poolIdx: order.poolIdx,
+    isBid: order.isBid,
+    bidTick: order.bidTick,
+    askTick: order.askTick,
+    pivotTime: order.pivotTime,
+    liquidity: floatToBigNum(
+      status === LimitOrderStatus.filled ? order.claimableLiq : order.concLiq,
+    ).toString(),
+    status,
+    timestamp: order.timeFirstMint,
+  };
+};
+
+// orders placed in the app are kept locally, so they can be listed from the chain if the indexer is not available
+const limitOrdersKey = (chainId: ChainId, account: string) =>
+  `limit-orders-${chainId}-${account.toLowerCase()}`;
+
+export const getStoredLimitOrders = (
+  chainId: ChainId,
+  account: string,
+): LimitOrder[] =>
+  reactLocalStorage.getObject(
+    limitOrdersKey(chainId, account),
+    [],
+    true,
+  ) as LimitOrder[];
+
+export const storeLimitOrder = (
+  chainId: ChainId,
+  account: string,
+  order: LimitOrder,
+) =>
+  reactLocalStorage.setObject(limitOrdersKey(chainId, account), [
+    ...getStoredLimitOrders(chainId, account).filter(
+      item => item.id !== order.id,
+    ),
+    order,
+  ]);
+
+export const removeStoredLimitOrder = (
+  chainId: ChainId,
+  account: string,
+  id: string,
+) =>
+  reactLocalStorage.setObject(
+    limitOrdersKey(chainId, account),
+    getStoredLimitOrders(chainId, account).filter(item => item.id !== id),
+  );
@@ -0,0 +1,329 @@
+import React, { FC, useCallback, useEffect, useMemo, useState } from 'react';
+
+import { t } from 'i18next';
+
+import {
+  AmountInput,
+  Button,
+  ButtonStyle,
+  ButtonType,
+  ErrorBadge,
+  ErrorLevel,
+  Paragraph,
+  ParagraphSize,
+  Select,
+  SimpleTable,
+  SimpleTableRow,
+} from '@sovryn/ui';
+import { Decimal } from '@sovryn/utils';
+
+import { AmountRenderer } from '../../../../2_molecules/AmountRenderer/AmountRenderer';
+import { AssetRenderer } from '../../../../2_molecules/AssetRenderer/AssetRenderer';
+import { MaxButton } from '../../../../2_molecules/MaxButton/MaxButton';
+import { TOKEN_RENDER_PRECISION } from '../../../../../constants/currencies';
+import { getTokenDisplayName } from '../../../../../constants/tokens';
+import { useCrocContext } from '../../../../../contexts/CrocContext';
+import { useCacheCall } from '../../../../../hooks';
+import { useAccount } from '../../../../../hooks/useAccount';
+import { useAssetBalance } from '../../../../../hooks/useAssetBalance';
+import { useCurrentChain } from '../../../../../hooks/useChainStore';
+import { translations } from '../../../../../locales/i18n';
+import { findAsset } from '../../../../../utils/asset';
+import { decimalic } from '../../../../../utils/math';
+import { AmbientLiquidityPoolDictionary } from '../../../MarketMakingPage/components/AmbientMarketMaking/utils/AmbientLiquidityPoolDictionary';
+import { useHandleLimitOrder } from '../../hooks/useHandleLimitOrder';
+
+const commonTranslations = translations.common;
+const pageTranslations = translations.convertPage.limitOrder;
+
+export const LimitOrderForm: FC = () => {
+  const chainId = useCurrentChain();
+  const { account } = useAccount();
+  const { croc } = useCrocContext();
+
+  const pools = useMemo(
+    () => AmbientLiquidityPoolDictionary.list(chainId),
+    [chainId],
+  );
+
+  const [sellToken, setSellToken] = useState(pools[0]?.base ?? '');
+  const [buyToken, setBuyToken] = useState(pools[0]?.quote ?? '');
+  const [amount, setAmount] = useState('');
+  const [price, setPrice] = useState('');
+  const [isPriceInvalid, setIsPriceInvalid] = useState(false);
+
+  const renderOption = useCallback(
+    (asset: string) => ({
+      value: asset,
+      label: (
+        <AssetRenderer
+          showAssetLogo
+          asset={asset}
+          chainId={chainId}
+          assetClassName="font-medium"
+        />
+      ),
+    }),
+    [chainId],
+  );
+
+  const sellOptions = useMemo(
+    () =>
+      Array.from(new Set(pools.flatMap(pool => [pool.base, pool.quote]))).map(
+        renderOption,
+      ),
+    [pools, renderOption],
+  );
+
+  // only tokens sharing a pool with the sell token can be bought
+  const buyOptions = useMemo(
+    () =>
+      pools
+        .filter(pool => pool.base === sellToken || pool.quote === sellToken)
+        .map(pool => (pool.base === sellToken ? pool.quote : pool.base))
+        .map(renderOption),
+    [pools, renderOption, sellToken],
+  );
+
+  useEffect(() => {
+    if (!buyOptions.some(option => option.value === buyToken)) {
+      setBuyToken(buyOptions[0]?.value ?? '');
+    }
+  }, [buyOptions, buyToken]);
+
+  const pool = useMemo(() => {
+    const ambientPool = AmbientLiquidityPoolDictionary.get(
+      sellToken,
+      buyToken,
+      chainId,
+    );
+
+    if (!croc || !ambientPool) {
+      return;
+    }
+
+    return croc.pool(
+      findAsset(sellToken, chainId).address,
+      findAsset(buyToken, chainId).address,
+      ambientPool.poolIndex,
+    );
+  }, [buyToken, chainId, croc, sellToken]);
+
+  // amount of buy token for one sell token
+  const { value: marketPrice } = useCacheCall(
+    `limit-order/${sellToken}/${buyToken}/displayPrice`,
+    chainId,
+    async () => (pool ? pool.displayPrice() : 0),
+    [pool],
+    0,
+  );
+
+  const { balance } = useAssetBalance(sellToken, chainId);
+
+  const isValidAmount = useMemo(
+    () => decimalic(amount).lte(balance),
+    [amount, balance],
+  );
+
+  const receiveAmount = useMemo(
+    () => decimalic(amount).mul(decimalic(price)),
+    [amount, price],
+  );
+
+  const onComplete = useCallback(() => setAmount(''), []);
+
+  const { getKnockoutHandle, placeOrder } = useHandleLimitOrder(onComplete);
+
+  // order must be placed outside of the market price, otherwise it would be filled right away
+  useEffect(() => {
+    setIsPriceInvalid(false);
+
+    if (decimalic(amount).lte(0) || decimalic(price).lte(0)) {
+      return;
+    }
+
+    getKnockoutHandle(
+      sellToken,
+      buyToken,
+      Decimal.from(amount),
+      Decimal.from(price),
+    )
+      .then(handle => handle?.willMintFail())
+      .then(willFail => setIsPriceInvalid(!!willFail))
+      .catch(() => setIsPriceInvalid(true));
+  }, [amount, buyToken, getKnockoutHandle, price, sellToken]);
+
+  const onSellTokenChange = useCallback((value: string) => {
+    setSellToken(value);
+    setAmount('');
+    setPrice('');
+  }, []);
+
+  const onBuyTokenChange = useCallback((value: string) => {
+    setBuyToken(value);
+    setPrice('');
+  }, []);
+
+  const onMarketPriceClick = useCallback(
+    () => setPrice(Decimal.from(marketPrice).toString(TOKEN_RENDER_PRECISION)),
+    [marketPrice],
+  );
+
+  const handleSubmit = useCallback(
+    () =>
+      placeOrder(
+        sellToken,
+        buyToken,
+        Decimal.from(amount),
+        Decimal.from(price),
+      ),
+    [amount, buyToken, placeOrder, price, sellToken],
+  );
+
+  const isSubmitDisabled = useMemo(
+    () =>
+      !account ||
+      !pool ||
+      decimalic(amount).lte(0) ||
+      decimalic(price).lte(0) ||
+      !isValidAmount ||
+      isPriceInvalid,
+    [account, amount, isPriceInvalid, isValidAmount, pool, price],
+  );
+
+  return (
+    <>
+      <div className="bg-gray-80 rounded p-6">
+        <div className="w-full flex flex-row justify-between items-center">
+          <Paragraph size={ParagraphSize.base} className="font-medium">
+            {t(pageTranslations.form.sell)}
+          </Paragraph>
+
+          <MaxButton
+            onClick={() => setAmount(balance.toString())}
+            value={balance}
+            token={sellToken}
+            dataAttribute="limit-order-sell-max"
+            chainId={chainId}
+          />
+        </div>
+
+        <div className="w-full flex flex-row justify-between items-center gap-3 mt-3.5">
+          <AmountInput
+            value={amount}
+            onChangeText={setAmount}
+            label={t(commonTranslations.amount)}
+            min={0}
+            invalid={!isValidAmount}
+            disabled={!account}
+            className="w-full flex-grow-0 flex-shrink"
+            dataAttribute="limit-order-sell-amount"
+            placeholder="0"
+          />
+
+          <Select
+            value={sellToken}
+            onChange={onSellTokenChange}
+            options={sellOptions}
+            className="min-w-[6.7rem]"
+            menuClassName="max-h-[10rem] sm:max-h-[20rem]"
+            dataAttribute="limit-order-sell-asset"
+          />
+        </div>
+
+        {!isValidAmount && (
+          <ErrorBadge
+            level={ErrorLevel.Critical}
+            message={t(translations.convertPage.form.invalidAmountError)}
+            dataAttribute="limit-order-sell-amount-error"
+          />
+        )}
+      </div>
+
+      <div className="bg-gray-80 rounded p-6 mt-3">
+        <div className="w-full flex flex-row justify-between items-center">
+          <Paragraph size={ParagraphSize.base} className="font-medium">
+            {t(pageTranslations.form.buy)}
+          </Paragraph>
+
+          <button
+            className="text-xs text-primary-20"
+            onClick={onMarketPriceClick}
+            disabled={!marketPrice}
+          >
+            {t(pageTranslations.form.useMarketPrice)}
+          </button>
+        </div>
+
+        <div className="w-full flex flex-row justify-between items-center gap-3 mt-3.5">
+          <AmountInput
+            value={price}
+            onChangeText={setPrice}
+            label={t(pageTranslations.form.limitPrice)}
+            min={0}
+            invalid={isPriceInvalid}
+            disabled={!account}
+            unit={`${getTokenDisplayName(buyToken)}/${getTokenDisplayName(
+              sellToken,
+            )}`}
+            className="w-full flex-grow-0 flex-shrink"
+            dataAttribute="limit-order-price"
+            placeholder="0"
+          />
+
+          <Select
+            value={buyToken}
+            onChange={onBuyTokenChange}
+            options={buyOptions}
+            className="min-w-[6.7rem]"
+            menuClassName="max-h-[10rem] sm:max-h-[20rem]"
+            dataAttribute="limit-order-buy-asset"
+          />
+        </div>
+
+        {isPriceInvalid && (
+          <ErrorBadge
+            level={ErrorLevel.Critical}
+            message={t(pageTranslations.form.invalidPriceError)}
+            dataAttribute="limit-order-price-error"
+          />
+        )}
+      </div>
+
+      <SimpleTable className="mt-3">
+        <SimpleTableRow
+          label={t(pageTranslations.form.marketPrice)}
+          valueClassName="text-primary-10"
+          value={
+            <AmountRenderer
+              value={marketPrice}
+              suffix={getTokenDisplayName(buyToken)}
+              precision={TOKEN_RENDER_PRECISION}
+            />
+          }
+        />
+        <SimpleTableRow
+          label={t(pageTranslations.form.receive)}
+          valueClassName="text-primary-10"
+          value={
+            <AmountRenderer
+              value={receiveAmount}
+              suffix={getTokenDisplayName(buyToken)}
+              precision={TOKEN_RENDER_PRECISION}
+            />
+          }
+        />
+      </SimpleTable>
+
+      <Button
+        type={ButtonType.reset}
+        style={ButtonStyle.primary}
+        text={t(pageTranslations.form.placeOrder)}
+        className="w-full mt-8"
+        disabled={isSubmitDisabled}
+        onClick={handleSubmit}
+        dataAttribute="limit-order-confirm"
+      />
+    </>
+  );
+};
@@ -0,0 +1,123 @@
+import React from 'react';
+
+import { t } from 'i18next';
+
+import { Button, ButtonSize, ButtonStyle } from '@sovryn/ui';
+import { Price, TokenAmount } from '@sovryn/utils';
+
+import { AmountRenderer } from '../../../../2_molecules/AmountRenderer/AmountRenderer';
+import { TOKEN_RENDER_PRECISION } from '../../../../../constants/currencies';
+import { getCurrentChain } from '../../../../../hooks/useChainStore';
+import { translations } from '../../../../../locales/i18n';
+import { findAssetByAddress } from '../../../../../utils/asset';
+import { dateFormat } from '../../../../../utils/helpers';
+import { LimitOrder, LimitOrderStatus } from '../../ConvertPage.types';
+import { getLimitOrderAmounts } from '../../ConvertPage.utils';
+
+const tableTranslations = translations.convertPage.limitOrder.table;
+
+const getOrderAmounts = (order: LimitOrder) => {
+  const chainId = getCurrentChain();
+  const [sellToken, buyToken] = order.isBid
+    ? [order.base, order.quote]
+    : [order.quote, order.base];
+  const sellAsset = findAssetByAddress(sellToken, chainId);
+  const buyAsset = findAssetByAddress(buyToken, chainId);
+
+  if (!sellAsset || !buyAsset) {
+    return;
+  }
+
+  const { sell, buy } = getLimitOrderAmounts(order);
+
+  return {
+    sell: TokenAmount.fromWei(sellAsset, sell),
+    buy: TokenAmount.fromWei(buyAsset, buy),
+  };
+};
+
+const renderAmount = (order: LimitOrder, sell: boolean) => {
+  const amounts = getOrderAmounts(order);
+  if (!amounts) {
+    return t(translations.common.na);
+  }
+
+  const amount = sell ? amounts.sell : amounts.buy;
+  return (
+    <AmountRenderer
+      value={amount.toDecimal()}
+      suffix={amount.asset.symbol}
+      precision={TOKEN_RENDER_PRECISION}
+    />
+  );
+};
+
+const renderPrice = (order: LimitOrder) => {
+  const amounts = getOrderAmounts(order);
+  if (!amounts || amounts.sell.isZero()) {
+    return t(translations.common.na);
+  }
+
+  return (
+    <AmountRenderer
+      value={Price.fromAmounts(amounts.sell, amounts.buy).toDecimal()}
+      suffix={`${amounts.buy.asset.symbol}/${amounts.sell.asset.symbol}`}
+      precision={TOKEN_RENDER_PRECISION}
+    />
+  );
+};
+
+export const COLUMNS_CONFIG = (
+  onCancel: (order: LimitOrder) => void,
+  onClaim: (order: LimitOrder) => void,
+) => [
+  {
+    id: 'timestamp',
+    title: t(translations.common.tables.columnTitles.timestamp),
+    cellRenderer: (order: LimitOrder) => <>{dateFormat(order.timestamp)}</>,
+  },
+  {
+    id: 'sell',
+    title: t(tableTranslations.sell),
+    cellRenderer: (order: LimitOrder) => renderAmount(order, true),
+  },
+  {
+    id: 'buy',
+    title: t(tableTranslations.buy),
+    cellRenderer: (order: LimitOrder) => renderAmount(order, false),
+  },
+  {
+    id: 'price',
+    title: t(tableTranslations.price),
+    cellRenderer: renderPrice,
+  },
+  {
+    id: 'status',
+    title: t(tableTranslations.status),
+    cellRenderer: (order: LimitOrder) => (
+      <>{t(translations.convertPage.limitOrder.status[order.status])}</>
+    ),
+  },
+  {
+    id: 'actions',
+    title: ' ',
+    cellRenderer: (order: LimitOrder) =>
+      order.status === LimitOrderStatus.open ? (
+        <Button
+          style={ButtonStyle.secondary}
+          size={ButtonSize.small}
+          text={t(tableTranslations.cancel)}
+          onClick={() => onCancel(order)}
+          dataAttribute="limit-order-cancel"
+        />
+      ) : (
+        <Button
+          style={ButtonStyle.primary}
+          size={ButtonSize.small}
+          text={t(tableTranslations.claim)}
+          onClick={() => onClaim(order)}
+          dataAttribute="limit-order-claim"
+        />
+      ),
+  },
+];
@@ -0,0 +1,37 @@
+import React, { FC, useMemo } from 'react';
+
+import { t } from 'i18next';
+
+import { Paragraph, ParagraphSize, Table, noop } from '@sovryn/ui';
+
+import { translations } from '../../../../../locales/i18n';
+import { useGetLimitOrders } from '../../hooks/useGetLimitOrders';
+import { useHandleLimitOrder } from '../../hooks/useHandleLimitOrder';
+import { COLUMNS_CONFIG } from './LimitOrdersTable.constants';
+
+export const LimitOrdersTable: FC = () => {
+  const { orders, isLoading } = useGetLimitOrders();
+  const { cancelOrder, claimOrder } = useHandleLimitOrder(noop);
+
+  const columns = useMemo(
+    () => COLUMNS_CONFIG(cancelOrder, claimOrder),
+    [cancelOrder, claimOrder],
+  );
+
+  return (
+    <div className="mt-6 w-full">
+      <Paragraph size={ParagraphSize.base} className="font-medium mb-3">
+        {t(translations.convertPage.limitOrder.table.title)}
+      </Paragraph>
+      <Table
+        columns={columns}
+        rows={orders}
+        rowKey={order => order.id}
+        isLoading={isLoading}
+        className="bg-gray-80 text-gray-10 lg:px-6 lg:py-4"
+        noData={t(translations.convertPage.limitOrder.table.noOrders)}
+        dataAttribute="limit-orders-table"
+      />
+    </div>
+  );
+};
@@ -1,6 +1,6 @@
 import { useMemo } from 'react';
 
-import { SwapRoute } from '@sovryn/sdk';
+import { SwapPathQuote, SwapRoute } from '@sovryn/sdk';
 
 import { useMaintenance } from '../../../../hooks/useMaintenance';
 import { COMMON_SYMBOLS } from '../../../../utils/asset';
@@ -9,6 +9,7 @@ export const useConversionMaintenance = (
   sourceToken: string,
   destinationToken: string,
   route?: SwapRoute,
+  path?: SwapPathQuote,
 ) => {
   const { checkMaintenance, States } = useMaintenance();
 
@@ -30,10 +31,19 @@ export const useConversionMaintenance = (
   return useMemo(() => {
     let isLocked = convertLocked;
 
-    isLocked = isLocked || (route?.name === 'AMM' && srcSOVLocked);
-    isLocked = isLocked || (route?.name === 'MocIntegration' && srcMocLocked);
-    isLocked = isLocked || (route?.name === 'MyntBasset' && srcMyntLocked);
-    isLocked = isLocked || (route?.name === 'ZeroRedemption' && srcSOVLocked);
+    const routeNames = path
+      ? path.legs.map(leg => leg.route.name)
+      : [route?.name];
+
+    isLocked =
+      isLocked ||
+      routeNames.some(
+        name =>
+          (name === 'AMM' && srcSOVLocked) ||
+          (name === 'MocIntegration' && srcMocLocked) ||
+          (name === 'MyntBasset' && srcMyntLocked) ||
+          (name === 'ZeroRedemption' && srcSOVLocked),
+      );
 
     isLocked =
       isLocked ||
@@ -57,6 +67,7 @@ export const useConversionMaintenance = (
     convertLocked,
     destinationToken,
     dllrLocked,
+    path,
     route?.name,
     sourceToken,
     srcBNBSRBTCLocked,
@@ -0,0 +1,95 @@
+import axios from 'axios';
+
+import { ChainId } from '@sovryn/ethers-provider';
+import { CrocEnv } from '@sovryn/sdex';
+
+import { useCrocContext } from '../../../../contexts/CrocContext';
+import { useCacheCall } from '../../../../hooks';
+import { useAccount } from '../../../../hooks/useAccount';
+import { useBlockNumber } from '../../../../hooks/useBlockNumber';
+import { useCurrentChain } from '../../../../hooks/useChainStore';
+import { isBobChain } from '../../../../utils/chain';
+import { getIndexerUri } from '../../../../utils/indexer';
+import {
+  IndexerLimitOrder,
+  LimitOrder,
+  LimitOrderStatus,
+} from '../ConvertPage.types';
+import {
+  fromIndexerLimitOrder,
+  getStoredLimitOrders,
+} from '../ConvertPage.utils';
+
+// reads orders placed in the app from the chain, used when the indexer is not available
+const queryStoredLimitOrders = async (
+  croc: CrocEnv,
+  chainId: ChainId,
+  account: string,
+) => {
+  const orders = await Promise.all(
+    getStoredLimitOrders(chainId, account).map(async order => {
+      const position = croc.positions(
+        order.base,
+        order.quote,
+        account,
+        order.poolIdx,
+      );
+
+      // range gets a new pivot once it is knocked out, so the order with the old pivot was filled
+      const pivotTime = await position.queryKnockoutPivot(
+        order.isBid,
+        order.bidTick,
+        order.askTick,
+      );
+      if (pivotTime !== order.pivotTime) {
+        return { ...order, status: LimitOrderStatus.filled };
+      }
+
+      const { liq } = await position.queryKnockoutLivePos(
+        order.isBid,
+        order.bidTick,
+        order.askTick,
+      );
+
+      return liq.gt(0)
+        ? { ...order, liquidity: liq.toString(), status: LimitOrderStatus.open }
+        : undefined;
+    }),
+  );
+
+  return orders.filter(order => order !== undefined) as LimitOrder[];
+};
+
+export const useGetLimitOrders = () => {
+  const { croc } = useCrocContext();
+  const chainId = useCurrentChain();
+  const { account } = useAccount();
+  const { value: blockNumber } = useBlockNumber(chainId);
+
+  const { value: orders, loading } = useCacheCall(
+    `limit-orders/${account}`,
+    chainId,
+    async () => {
+      if (!account || !croc || !isBobChain(chainId)) {
+        return [];
+      }
+
+      return axios
+        .get<{ data: IndexerLimitOrder[] }>(
+          `${getIndexerUri(chainId)}/user_limit_orders?${new URLSearchParams({
+            user: account,
+            chainId,
+          })}`,
+        )
+        .then(({ data }) => data.data.map(fromIndexerLimitOrder))
+        .catch(() => queryStoredLimitOrders(croc, chainId, account));
+    },
+    [account, blockNumber, chainId, croc],
+    [] as LimitOrder[],
+  );
+
+  return {
+    orders,
+    isLoading: loading,
+  };
+};
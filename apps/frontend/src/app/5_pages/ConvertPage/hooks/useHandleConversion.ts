@@ -1,10 +1,17 @@
-import { useCallback } from 'react';
+import { useCallback, useState } from 'react';
 
 import { BigNumber, ethers } from 'ethers';
 import { t } from 'i18next';
 
 import { getAssetData, getProtocolContract } from '@sovryn/contracts';
-import { SwapRoute } from '@sovryn/sdk';
+import { getProvider } from '@sovryn/ethers-provider';
+import {
+  SmartRouter,
+  SwapPathQuote,
+  SwapRoute,
+  TypedDataTransactionRequest,
+  simulateSwap,
+} from '@sovryn/sdk';
 
 import {
   Transaction,
@@ -12,11 +19,16 @@ import {
 } from '../../../3_organisms/TransactionStepDialog/TransactionStepDialog.types';
 import { isSignTransactionDataRequest } from '../../../3_organisms/TransactionStepDialog/helpers';
 import { GAS_LIMIT } from '../../../../constants/gasLimits';
-import { getTokenDisplayName } from '../../../../constants/tokens';
+import {
+  getTokenDisplayName,
+  getTokenDisplayNameByAddress,
+} from '../../../../constants/tokens';
 import { useTransactionContext } from '../../../../contexts/TransactionContext';
 import { useAccount } from '../../../../hooks/useAccount';
 import { useCurrentChain } from '../../../../hooks/useChainStore';
 import { translations } from '../../../../locales/i18n';
+import { getSovrynErrorMessage } from '../../../../utils/errors';
+import { getSwapSimulator } from '../../../../utils/simulator/simulateSwap';
 import {
   DEFAULT_SIGNATURE,
   EMPTY_PERMIT_TRANSFER_FROM,
@@ -32,12 +44,19 @@ export const useHandleConversion = (
   route: SwapRoute | undefined,
   slippageTolerance: string,
   onComplete: () => void,
+  path?: SwapPathQuote,
+  smartRouter?: SmartRouter,
+  // settle the swap with the dex balance, supported by the ambient route
+  surplus = false,
 ) => {
   const currentChainId = useCurrentChain();
   const { account, signer } = useAccount();
 
   const { setTransactions, setIsOpen, setTitle } = useTransactionContext();
 
+  const [isSimulating, setIsSimulating] = useState(false);
+  const [simulationError, setSimulationError] = useState<string>();
+
   const getMassetManager = useCallback(async () => {
     const { address: massetManagerAddress, abi: massetManagerAbi } =
       await getProtocolContract('massetManager', currentChainId);
@@ -126,7 +145,114 @@ export const useHandleConversion = (
     onComplete,
   ]);
 
+  const getPathTransactions = useCallback(async () => {
+    if (!path || !smartRouter || !signer) {
+      return [];
+    }
+
+    const slippage = Number(slippageTolerance) * 100;
+    const steps = await smartRouter.buildPathTransactions(path, account, {
+      slippage,
+    });
+
+    const transactions: Transaction[] = [];
+    let legPermit:
+      | { index: number; request: TypedDataTransactionRequest }
+      | undefined;
+
+    for (const step of steps) {
+      const asset = getTokenDisplayNameByAddress(
+        step.leg.entry,
+        currentChainId,
+      );
+
+      if (step.type === 'permit') {
+        legPermit = { index: transactions.length, request: step.request };
+        transactions.push(
+          await prepareTypedDataTransaction(
+            step.request,
+            signer,
+            currentChainId,
+          ),
+        );
+      } else if (step.type === 'approve') {
+        transactions.push({
+          title: t(translations.convertPage.txDialog.approve, { asset }),
+          request: {
+            type: TransactionType.signTransactionData,
+            signer: signer,
+            to: step.request.to!,
+            data: step.request.data!,
+            gasLimit: step.request.gasLimit ?? GAS_LIMIT.APPROVE,
+          },
+        });
+      } else {
+        const permit = legPermit;
+        legPermit = undefined;
+
+        const txData = await step.build({
+          typedDataValue: permit
+            ? permit.request.typedData.values
+            : EMPTY_PERMIT_TRANSFER_FROM,
+          typedDataSignature: DEFAULT_SIGNATURE,
+        });
+
+        const isLastLeg = step.leg === path.legs[path.legs.length - 1];
+
+        transactions.push({
+          title: t(translations.convertPage.txDialog.convert, { asset }),
+          request: {
+            type: TransactionType.signTransactionData,
+            signer: signer,
+            to: txData.to!,
+            data: txData.data!,
+            value: txData.value,
+            gasLimit: txData?.gasLimit ?? GAS_LIMIT.CONVERT,
+            gasPrice: txData?.gasPrice?.toString(),
+          },
+          onComplete: isLastLeg ? onComplete : undefined,
+          updateHandler: permitHandler(async (req, res) => {
+            if (permit && isSignTransactionDataRequest(req)) {
+              const { data } = await step.build({
+                typedDataValue: permit.request.typedData.values,
+                typedDataSignature: res as string,
+              });
+              req.data = data!;
+            }
+            return req;
+          }, permit?.index),
+        });
+      }
+    }
+
+    return transactions;
+  }, [
+    account,
+    currentChainId,
+    onComplete,
+    path,
+    signer,
+    slippageTolerance,
+    smartRouter,
+  ]);
+
   const handleSubmit = useCallback(async () => {
+    setSimulationError(undefined);
+
+    // multi-hop paths are not simulated, legs spend output of the previous ones which
+    // simulators can't carry over between separate transactions
+    if (path && signer) {
+      setTransactions(await getPathTransactions());
+      setTitle(
+        t(translations.convertPage.txDialog.convertTitle, {
+          from: getTokenDisplayName(sourceToken),
+          to: getTokenDisplayName(destinationToken),
+        }),
+      );
+      setIsOpen(true);
+      return;
+    }
+
     if (!route || !signer) {
       return;
     }
@@ -136,6 +262,31 @@ export const useHandleConversion = (
       getAssetData(destinationToken, currentChainId),
     ]);
 
+    if (process.env.REACT_APP_SIMULATE_TX === 'true') {
+      setIsSimulating(true);
+      const simulation = await simulateSwap(
+        getProvider(currentChainId),
+        route,
+        sourceTokenDetails.address,
+        destinationTokenDetails.address,
+        weiAmount,
+        account,
+        { slippage: Number(slippageTolerance) * 100, surplus },
+        getSwapSimulator(currentChainId),
+      ).finally(() => setIsSimulating(false));
+
+      // don't ask user to sign transactions which are known to fail
+      if (!simulation.success) {
+        setSimulationError(
+          getSovrynErrorMessage(
+            simulation.error,
+            t(translations.convertPage.form.simulationError),
+          ),
+        );
+        return;
+      }
+    }
+
     const transactions: Transaction[] = [];
 
     const permitTxData = await route.permit(
@@ -187,6 +338,7 @@ export const useHandleConversion = (
           : EMPTY_PERMIT_TRANSFER_FROM,
         typedDataSignature: DEFAULT_SIGNATURE,
         slippage: Number(slippageTolerance) * 100,
+        surplus,
       },
     );
 
@@ -217,6 +369,7 @@ export const useHandleConversion = (
                   typedDataValue: permitTxData.typedData.values,
                   typedDataSignature: res as string,
                   slippage: Number(slippageTolerance) * 100,
+                  surplus,
                 },
               );
               req.data = data!;
@@ -239,7 +392,9 @@ export const useHandleConversion = (
     account,
     currentChainId,
     destinationToken,
+    getPathTransactions,
     onComplete,
+    path,
     route,
     setIsOpen,
     setTitle,
@@ -247,11 +402,14 @@ export const useHandleConversion = (
     signer,
     slippageTolerance,
     sourceToken,
+    surplus,
     weiAmount,
   ]);
 
   return {
     handleSubmit,
+    isSimulating,
+    simulationError,
     getDepositTokenTransactions,
     getWithdrawTokensTransactions,
   };
@@ -0,0 +1,307 @@
+import { useCallback } from 'react';
+
+import { BigNumber } from 'ethers';
+import { t } from 'i18next';
+import { nanoid } from 'nanoid';
+
+import { CrocKnockoutParams } from '@sovryn/sdex';
+import { NotificationType } from '@sovryn/ui';
+import { Decimal, Price, TokenAmount } from '@sovryn/utils';
+
+import {
+  Transaction,
+  TransactionType,
+} from '../../../3_organisms/TransactionStepDialog/TransactionStepDialog.types';
+import { GAS_LIMIT } from '../../../../constants/gasLimits';
+import { getTokenDisplayName } from '../../../../constants/tokens';
+import { useCrocContext } from '../../../../contexts/CrocContext';
+import { useNotificationContext } from '../../../../contexts/NotificationContext';
+import { useTransactionContext } from '../../../../contexts/TransactionContext';
+import { useAccount } from '../../../../hooks/useAccount';
+import { useCurrentChain } from '../../../../hooks/useChainStore';
+import { translations } from '../../../../locales/i18n';
+import { findAsset, findAssetByAddress } from '../../../../utils/asset';
+import { prepareApproveTransaction } from '../../../../utils/transactions';
+import { AmbientLiquidityPoolDictionary } from '../../MarketMakingPage/components/AmbientMarketMaking/utils/AmbientLiquidityPoolDictionary';
+import { LimitOrder, LimitOrderStatus } from '../ConvertPage.types';
+import {
+  getKnockoutTick,
+  getLimitOrderId,
+  removeStoredLimitOrder,
+  storeLimitOrder,
+} from '../ConvertPage.utils';
+
+const limitTranslations = translations.convertPage.limitOrder;
+
+const toRequest = (params: CrocKnockoutParams, gasLimit: number) => ({
+  type: TransactionType.signTransaction as const,
+  contract: params.contract,
+  fnName: 'userCmd',
+  args: [params.path, params.calldata],
+  value: params.txArgs?.value ?? 0,
+  gasLimit,
+});
+
+export const useHandleLimitOrder = (onComplete: () => void) => {
+  const chainId = useCurrentChain();
+  const { account, signer } = useAccount();
+  const { croc } = useCrocContext();
+
+  const { setTransactions, setIsOpen, setTitle } = useTransactionContext();
+  const { addNotification } = useNotificationContext();
+
+  // knockout handle of the order selling the amount of sell token at the limit price or better
+  const getKnockoutHandle = useCallback(
+    async (
+      sellToken: string,
+      buyToken: string,
+      amount: Decimal,
+      price: Decimal,
+    ) => {
+      if (!croc) {
+        return;
+      }
+
+      const pool = AmbientLiquidityPoolDictionary.get(
+        sellToken,
+        buyToken,
+        chainId,
+      );
+      const sellAsset = findAsset(sellToken, chainId);
+      const buyAsset = findAsset(buyToken, chainId);
+
+      if (!pool || !sellAsset || !buyAsset) {
+        return;
+      }
+
+      const { gridSize } = (await croc.context).chain;
+      const sellBase =
+        pool.baseAddress.toLowerCase() === sellAsset.address.toLowerCase();
+
+      return croc
+        .sell(
+          sellAsset.address,
+          TokenAmount.from(sellAsset, amount).toWei(),
+          pool.poolIndex,
+        )
+        .atLimit(
+          buyAsset.address,
+          getKnockoutTick(
+            new Price(sellAsset, buyAsset, price),
+            sellBase,
+            gridSize,
+          ),
+        );
+    },
+    [chainId, croc],
+  );
+
+  const placeOrder = useCallback(
+    async (
+      sellToken: string,
+      buyToken: string,
+      amount: Decimal,
+      price: Decimal,
+    ) => {
+      const handle = await getKnockoutHandle(
+        sellToken,
+        buyToken,
+        amount,
+        price,
+      );
+
+      if (!handle || !croc || !signer) {
+        return;
+      }
+
+      const transactions: Transaction[] = [];
+      const sellAsset = findAsset(sellToken, chainId);
+      const weiAmount = await handle.qty;
+
+      if (!sellAsset.isNative) {
+        const approve = await prepareApproveTransaction({
+          token: sellToken,
+          chain: chainId,
+          spender: (await croc.context).dex.address,
+          amount: weiAmount,
+          signer,
+        });
+        if (approve) {
+          transactions.push(approve);
+        }
+      }
+
+      // order is kept locally with the pivot of its range, so it can be claimed without the indexer
+      const rememberOrder = async () => {
+        const [bidTick, askTick] = await handle.ticks();
+        const position = croc.positions(
+          handle.baseToken.tokenAddr,
+          handle.quoteToken.tokenAddr,
+          account,
+          handle.poolIndex,
+        );
+        const [pivotTime, { liq }] = await Promise.all([
+          position.queryKnockoutPivot(handle.sellBase, bidTick, askTick),
+          position.queryKnockoutLivePos(handle.sellBase, bidTick, askTick),
+        ]);
+
+        const order = {
+          base: handle.baseToken.tokenAddr,
+          quote: handle.quoteToken.tokenAddr,
+          poolIdx: handle.poolIndex,
+          isBid: handle.sellBase,
+          bidTick,
+          askTick,
+          pivotTime,
+        };
+
+        storeLimitOrder(chainId, account, {
+          ...order,
+          id: getLimitOrderId(order),
+          liquidity: liq.toString(),
+          status: LimitOrderStatus.open,
+          timestamp: Math.floor(Date.now() / 1000),
+        });
+      };
+
+      transactions.push({
+        title: t(limitTranslations.txDialog.place),
+        request: toRequest(
+          await handle.mintParams(),
+          GAS_LIMIT.LIMIT_ORDER_PLACE,
+        ),
+        onComplete: () => {
+          // the order is placed, but it won't be listed until it's stored
+          rememberOrder().catch(() =>
+            addNotification({
+              type: NotificationType.error,
+              title: t(limitTranslations.storeError),
+              content: '',
+              dismissible: true,
+              id: nanoid(),
+            }),
+          );
+          onComplete();
+        },
+      });
+
+      setTransactions(transactions);
+      setTitle(
+        t(limitTranslations.txDialog.placeTitle, {
+          from: getTokenDisplayName(sellToken),
+          to: getTokenDisplayName(buyToken),
+        }),
+      );
+      setIsOpen(true);
+    },
+    [
+      account,
+      addNotification,
+      chainId,
+      croc,
+      getKnockoutHandle,
+      onComplete,
+      setIsOpen,
+      setTitle,
+      setTransactions,
+      signer,
+    ],
+  );
+
+  // handle of the existing order, its amount is not used by cancel and claim commands
+  const getOrderHandle = useCallback(
+    (order: LimitOrder) => {
+      if (!croc) {
+        return;
+      }
+
+      const [sellToken, buyToken] = order.isBid
+        ? [order.base, order.quote]
+        : [order.quote, order.base];
+
+      return croc
+        .sell(sellToken, 0, order.poolIdx)
+        .atLimit(buyToken, order.isBid ? order.bidTick : order.askTick);
+    },
+    [croc],
+  );
+
+  const getOrderTitle = useCallback(
+    (order: LimitOrder) => {
+      const [sellToken, buyToken] = order.isBid
+        ? [order.base, order.quote]
+        : [order.quote, order.base];
+
+      return {
+        from: findAssetByAddress(sellToken, chainId)?.symbol,
+        to: findAssetByAddress(buyToken, chainId)?.symbol,
+      };
+    },
+    [chainId],
+  );
+
+  const submitOrderAction = useCallback(
+    (order: LimitOrder, title: string, transaction: Transaction) => {
+      setTransactions([
+        {
+          ...transaction,
+          onComplete: () => {
+            removeStoredLimitOrder(chainId, account, order.id);
+            onComplete();
+          },
+        },
+      ]);
+      setTitle(title);
+      setIsOpen(true);
+    },
+    [account, chainId, onComplete, setIsOpen, setTitle, setTransactions],
+  );
+
+  const cancelOrder = useCallback(
+    async (order: LimitOrder) => {
+      const handle = getOrderHandle(order);
+      if (!handle) {
+        return;
+      }
+
+      const title = t(
+        limitTranslations.txDialog.cancelTitle,
+        getOrderTitle(order),
+      );
+
+      submitOrderAction(order, title, {
+        title: t(limitTranslations.txDialog.cancel),
+        request: toRequest(
+          await handle.burnLiqParams(BigNumber.from(order.liquidity)),
+          GAS_LIMIT.LIMIT_ORDER_CANCEL,
+        ),
+      });
+    },
+    [getOrderHandle, getOrderTitle, submitOrderAction],
+  );
+
+  const claimOrder = useCallback(
+    async (order: LimitOrder) => {
+      const handle = getOrderHandle(order);
+      if (!handle) {
+        return;
+      }
+
+      const title = t(
+        limitTranslations.txDialog.claimTitle,
+        getOrderTitle(order),
+      );
+
+      submitOrderAction(order, title, {
+        title: t(limitTranslations.txDialog.claim),
+        request: toRequest(
+          await handle.recoverPostParams(order.pivotTime),
+          GAS_LIMIT.LIMIT_ORDER_CLAIM,
+        ),
+      });
+    },
+    [getOrderHandle, getOrderTitle, submitOrderAction],
+  );
+
+  return { getKnockoutHandle, placeOrder, cancelOrder, claimOrder };
+};
@@ -7,9 +7,11 @@ import { HelperButton } from '@sovryn/ui';
 import { AmountRenderer } from '../../../../../../2_molecules/AmountRenderer/AmountRenderer';
 import { TransactionIdRenderer } from '../../../../../../2_molecules/TransactionIdRenderer/TransactionIdRenderer';
 import { translations } from '../../../../../../../locales/i18n';
+import { PoolPositionType } from '../../../../MarketMakingPage.types';
 import { AmbientPosition } from '../../AmbientMarketMaking.types';
 import { AmbientLiquidityPool } from '../../utils/AmbientLiquidityPool';
 import { AmbientPoolPositionClaimFees } from './components/AmbientPoolPositionClaimFees/AmbientPoolPositionClaimFees';
+import { AmbientPoolPositionReposition } from './components/AmbientPoolPositionReposition/AmbientPoolPositionReposition';
 import { AmbientPoolPositionWithdraw } from './components/AmbientPoolPositionWithdraw/AmbientPoolPositionWithdraw';
 import { AmbientPositionBalance } from './components/AmbientPositionBalance/AmbientPositionBalance';
 import { AmbientPositionPrices } from './components/AmbientPositionPrices/AmbientPositionPrices';
@@ -82,6 +84,13 @@ export const COLUMNS_CONFIG = (pool: AmbientLiquidityPool) => [
             className="mr-4"
           />
         )}
+        {position.positionType === PoolPositionType.concentrated && (
+          <AmbientPoolPositionReposition
+            pool={pool}
+            position={position}
+            className="mr-4"
+          />
+        )}
         <AmbientPoolPositionWithdraw pool={pool} position={position} />
       </div>
     ),
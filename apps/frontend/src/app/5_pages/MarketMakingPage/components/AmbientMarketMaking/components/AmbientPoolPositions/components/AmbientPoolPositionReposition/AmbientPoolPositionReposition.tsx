@@ -0,0 +1,73 @@
+import React, { FC, useCallback, useMemo, useState } from 'react';
+
+import { t } from 'i18next';
+
+import { ButtonSize, ButtonStyle, Button } from '@sovryn/ui';
+
+import { useCacheCall } from '../../../../../../../../../hooks';
+import { useCurrentChain } from '../../../../../../../../../hooks/useChainStore';
+import { useMaintenance } from '../../../../../../../../../hooks/useMaintenance';
+import { translations } from '../../../../../../../../../locales/i18n';
+import { useGetPool } from '../../../../../../hooks/useGetPool';
+import { BobRepositionModal } from '../../../../../BobRepositionModal/BobRepositionModal';
+import { AmbientPosition } from '../../../../AmbientMarketMaking.types';
+import { AmbientLiquidityPool } from '../../../../utils/AmbientLiquidityPool';
+
+type AmbientPoolPositionRepositionProps = {
+  pool: AmbientLiquidityPool;
+  position: AmbientPosition;
+  className?: string;
+};
+
+export const AmbientPoolPositionReposition: FC<
+  AmbientPoolPositionRepositionProps
+> = ({ pool, position, className }) => {
+  const chainId = useCurrentChain();
+  const { pool: crocPool } = useGetPool(pool.base, pool.quote);
+  const { checkMaintenance, States } = useMaintenance();
+  const repositionLocked = checkMaintenance(States.BOB_WITHDRAW_LIQUIDITY);
+
+  const [isOpen, setIsOpen] = useState(false);
+  const toggleModal = useCallback(
+    () => setIsOpen(prevIsOpen => !prevIsOpen),
+    [],
+  );
+
+  const { value: spotTick } = useCacheCall(
+    `pool/${pool.base}/${pool.quote}/spotTick`,
+    chainId,
+    async () => crocPool?.spotTick(),
+    [crocPool],
+  );
+
+  // only positions which went out of range are earning nothing and can be repositioned
+  const isOutOfRange = useMemo(
+    () =>
+      spotTick !== undefined &&
+      (spotTick < position.bidTick || spotTick >= position.askTick),
+    [position.askTick, position.bidTick, spotTick],
+  );
+
+  if (!isOutOfRange) {
+    return null;
+  }
+
+  return (
+    <>
+      <Button
+        style={ButtonStyle.secondary}
+        size={ButtonSize.small}
+        text={t(translations.bobMarketMakingPage.repositionModal.reposition)}
+        onClick={() => setIsOpen(true)}
+        className={className}
+        disabled={repositionLocked}
+      />
+      <BobRepositionModal
+        isOpen={isOpen}
+        onClose={toggleModal}
+        pool={pool}
+        position={position}
+      />
+    </>
+  );
+};
@@ -1,6 +1,6 @@
 import React, { FC, useMemo } from 'react';
 
-import { MIN_TICK, MAX_TICK, tickToPrice, toDisplayPrice } from '@sovryn/sdex';
+import { MIN_TICK, MAX_TICK, tickToDisplayPrice } from '@sovryn/sdex';
 
 import { AmountRenderer } from '../../../../../../../../2_molecules/AmountRenderer/AmountRenderer';
 import { PoolPositionType } from '../../../../../../MarketMakingPage.types';
@@ -32,6 +32,22 @@ export const AmbientPositionPrices: FC<AmbientPositionPricesProps> = ({
     poolTokens?.tokenB,
   );
 
+  const [askPrice, bidPrice] = useMemo(() => {
+    const base = { symbol: pool.base, decimals: baseTokenDecimals };
+    const quote = { symbol: pool.quote, decimals: quoteTokenDecimals };
+
+    return [position.askTick, position.bidTick].map(tick =>
+      tickToDisplayPrice(tick, base, quote, true).toDecimal(),
+    );
+  }, [
+    baseTokenDecimals,
+    pool.base,
+    pool.quote,
+    position.askTick,
+    position.bidTick,
+    quoteTokenDecimals,
+  ]);
+
   if (isAmbient) {
     return (
       <>
@@ -43,24 +59,8 @@ export const AmbientPositionPrices: FC<AmbientPositionPricesProps> = ({
 
   return (
     <div className="inline-flex flex-col">
-      <AmountRenderer
-        value={toDisplayPrice(
-          tickToPrice(position.askTick),
-          baseTokenDecimals,
-          quoteTokenDecimals,
-          true,
-        )}
-        suffix={pool.quote}
-      />
-      <AmountRenderer
-        value={toDisplayPrice(
-          tickToPrice(position.bidTick),
-          baseTokenDecimals,
-          quoteTokenDecimals,
-          true,
-        )}
-        suffix={pool.quote}
-      />
+      <AmountRenderer value={askPrice} suffix={pool.quote} />
+      <AmountRenderer value={bidPrice} suffix={pool.quote} />
     </div>
   );
 };
@@ -1,8 +1,14 @@
+import { providers } from 'ethers';
+
 import { useCacheCall } from '../../../../../../../../hooks';
 import { useCurrentChain } from '../../../../../../../../hooks/useChainStore';
 import { useGetPool } from '../../../../../hooks/useGetPool';
 
-export const usePoolSpotPrice = (assetA: string, assetB: string) => {
+export const usePoolSpotPrice = (
+  assetA: string,
+  assetB: string,
+  blockTag?: providers.BlockTag,
+) => {
   const chainId = useCurrentChain();
   const { pool } = useGetPool(assetA, assetB);
 
@@ -14,9 +20,10 @@ export const usePoolSpotPrice = (assetA: string, assetB: string) => {
         return;
       }
 
-      return await pool.spotPrice();
+      return await pool.spotPrice(blockTag);
     },
     [pool],
     0,
+    { blockTag },
   );
 };
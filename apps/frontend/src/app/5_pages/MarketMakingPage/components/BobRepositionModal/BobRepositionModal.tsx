@@ -0,0 +1,187 @@
+import React, { FC, useCallback, useMemo } from 'react';
+
+import { t } from 'i18next';
+
+import { tickToDisplayPrice } from '@sovryn/sdex';
+import {
+  Button,
+  ButtonStyle,
+  ButtonType,
+  Dialog,
+  DialogBody,
+  DialogHeader,
+  ErrorBadge,
+  ErrorLevel,
+  SimpleTable,
+  SimpleTableRow,
+} from '@sovryn/ui';
+
+import { AmountRenderer } from '../../../../2_molecules/AmountRenderer/AmountRenderer';
+import { CurrentStatistics } from '../../../../2_molecules/CurrentStatistics/CurrentStatistics';
+import { useMaintenance } from '../../../../../hooks/useMaintenance';
+import { translations } from '../../../../../locales/i18n';
+import { useGetPool } from '../../hooks/useGetPool';
+import { AmbientPosition } from '../AmbientMarketMaking/AmbientMarketMaking.types';
+import { AmbientLiquidityPool } from '../AmbientMarketMaking/utils/AmbientLiquidityPool';
+import { DEFAULT_SLIPPAGE } from '../BobDepositModal/BobDepositModal.constants';
+import { useGetTokenDecimals } from '../BobWIthdrawModal/hooks/useGetTokenDecimals';
+import { useGetRepositionPreview } from './hooks/useGetRepositionPreview';
+import { useHandleSubmit } from './hooks/useHandleSubmit';
+
+type BobRepositionModalProps = {
+  isOpen: boolean;
+  onClose: () => void;
+  pool: AmbientLiquidityPool;
+  position: AmbientPosition;
+};
+
+const pageTranslations = translations.bobMarketMakingPage.repositionModal;
+
+export const BobRepositionModal: FC<BobRepositionModalProps> = ({
+  isOpen,
+  onClose,
+  pool,
+  position,
+}) => {
+  const { base, quote } = useMemo(() => pool, [pool]);
+  const { poolTokens } = useGetPool(base, quote);
+
+  const { baseTokenDecimals, quoteTokenDecimals } = useGetTokenDecimals(
+    poolTokens?.tokenA,
+    poolTokens?.tokenB,
+  );
+  const { checkMaintenance, States } = useMaintenance();
+  const repositionLocked = checkMaintenance(States.BOB_WITHDRAW_LIQUIDITY);
+
+  const { reposition, preview, isError } = useGetRepositionPreview(
+    pool,
+    position,
+    isOpen,
+  );
+
+  const handleSubmit = useHandleSubmit(reposition, onClose);
+
+  const renderRange = useCallback(
+    (lowerTick: number, upperTick: number) => {
+      const baseAsset = { symbol: base, decimals: baseTokenDecimals };
+      const quoteAsset = { symbol: quote, decimals: quoteTokenDecimals };
+      const [minPrice, maxPrice] = [lowerTick, upperTick].map(tick =>
+        tickToDisplayPrice(tick, baseAsset, quoteAsset, true).toDecimal(),
+      );
+
+      return (
+        <>
+          <AmountRenderer value={minPrice} /> -{' '}
+          <AmountRenderer value={maxPrice} suffix={quote} />
+        </>
+      );
+    },
+    [base, baseTokenDecimals, quote, quoteTokenDecimals],
+  );
+
+  const [sellToken, buyToken] = useMemo(
+    () => (preview?.sellBase ? [base, quote] : [quote, base]),
+    [base, preview?.sellBase, quote],
+  );
+
+  return (
+    <>
+      <Dialog disableFocusTrap isOpen={isOpen}>
+        <DialogHeader title={t(pageTranslations.title)} onClose={onClose} />
+        <DialogBody>
+          <div className="bg-gray-90 p-4 rounded">
+            <CurrentStatistics
+              symbol={base}
+              symbol2={quote}
+              className="flex justify-between"
+            />
+          </div>
+
+          <SimpleTable className="mt-6">
+            <SimpleTableRow
+              label={t(pageTranslations.currentRange)}
+              value={renderRange(position.bidTick, position.askTick)}
+            />
+            <SimpleTableRow
+              label={t(pageTranslations.newRange)}
+              value={
+                preview ? renderRange(preview.range[0], preview.range[1]) : '-'
+              }
+            />
+          </SimpleTable>
+
+          <SimpleTable className="mt-6">
+            <SimpleTableRow
+              label={t(pageTranslations.currentCollateral)}
+              value={
+                <AmountRenderer
+                  value={preview?.collateral ?? 0}
+                  suffix={sellToken}
+                />
+              }
+            />
+            <SimpleTableRow
+              label={t(pageTranslations.convertedCollateral)}
+              value={
+                <AmountRenderer
+                  value={preview?.convertedPercent ?? 0}
+                  suffix="%"
+                  precision={2}
+                />
+              }
+            />
+            <SimpleTableRow
+              label={t(pageTranslations.swap)}
+              value={
+                <>
+                  <AmountRenderer
+                    value={preview?.swapInput ?? 0}
+                    suffix={sellToken}
+                  />{' '}
+                  →{' '}
+                  <AmountRenderer
+                    value={preview?.swapOutput ?? 0}
+                    suffix={buyToken}
+                  />
+                </>
+              }
+            />
+          </SimpleTable>
+
+          <SimpleTable className="mt-6">
+            <SimpleTableRow
+              label={t(pageTranslations.newBalance, { token: base })}
+              value={<AmountRenderer value={preview?.balanceBase ?? 0} />}
+            />
+            <SimpleTableRow
+              label={t(pageTranslations.newBalance, { token: quote })}
+              value={<AmountRenderer value={preview?.balanceQuote ?? 0} />}
+            />
+            <SimpleTableRow
+              label={t(pageTranslations.slippage)}
+              value={<AmountRenderer value={DEFAULT_SLIPPAGE} suffix="%" />}
+            />
+          </SimpleTable>
+
+          {isError && (
+            <ErrorBadge
+              level={ErrorLevel.Critical}
+              message={t(pageTranslations.previewError)}
+              dataAttribute="reposition-preview-error"
+            />
+          )}
+
+          <Button
+            type={ButtonType.submit}
+            style={ButtonStyle.primary}
+            text={t(translations.common.buttons.confirm)}
+            className="w-full mt-6"
+            onClick={handleSubmit}
+            dataAttribute="reposition-confirm-button"
+            disabled={repositionLocked || !reposition}
+          />
+        </DialogBody>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,125 @@
+import { useEffect, useMemo, useState } from 'react';
+
+import { CrocReposition } from '@sovryn/sdex';
+
+import { useCrocContext } from '../../../../../../contexts/CrocContext';
+import { useIsMounted } from '../../../../../../hooks/useIsMounted';
+import { roundDownTick } from '../../../../BobAmmPage/ambient-utils';
+import { useGetPool } from '../../../hooks/useGetPool';
+import { AmbientPosition } from '../../AmbientMarketMaking/AmbientMarketMaking.types';
+import { AmbientLiquidityPool } from '../../AmbientMarketMaking/utils/AmbientLiquidityPool';
+import { DEFAULT_SLIPPAGE } from '../../BobDepositModal/BobDepositModal.constants';
+
+export type RepositionPreview = {
+  range: [number, number];
+  sellBase: boolean;
+  swapInput: number;
+  swapOutput: number;
+  balanceBase: number;
+  balanceQuote: number;
+  collateral: number;
+  convertedPercent: number;
+};
+
+export const useGetRepositionPreview = (
+  pool: AmbientLiquidityPool,
+  position: AmbientPosition,
+  isOpen: boolean,
+) => {
+  const isMounted = useIsMounted();
+  const { croc } = useCrocContext();
+  const { pool: crocPool } = useGetPool(pool.base, pool.quote);
+
+  const [reposition, setReposition] = useState<CrocReposition>();
+  const [preview, setPreview] = useState<RepositionPreview>();
+  const [isError, setIsError] = useState(false);
+
+  useEffect(() => {
+    const getPreview = async () => {
+      if (!croc || !crocPool || !isOpen) {
+        return;
+      }
+
+      setIsError(false);
+
+      try {
+        const [{ gridSize }, spotTick, { liq }] = await Promise.all([
+          (await crocPool.context).chain,
+          crocPool.spotTick(),
+          croc
+            .positions(
+              position.base,
+              position.quote,
+              position.user,
+              pool.poolIndex,
+            )
+            .queryRangePos(position.bidTick, position.askTick),
+        ]);
+
+        // new range keeps the width of the position and is centered around the current price
+        const width = position.askTick - position.bidTick;
+        const lowerTick = roundDownTick(spotTick - width / 2, gridSize);
+        const range: [number, number] = [lowerTick, lowerTick + width];
+
+        const result = new CrocReposition(
+          crocPool,
+          {
+            burn: [position.bidTick, position.askTick],
+            mint: range,
+            liquidity: liq,
+          },
+          { impact: DEFAULT_SLIPPAGE / 100 },
+        );
+
+        const sellBase = spotTick >= position.askTick;
+        const sellToken = sellBase ? crocPool.baseToken : crocPool.quoteToken;
+
+        const [
+          [balanceBase, balanceQuote],
+          swapInput,
+          swapOutput,
+          collateral,
+          converted,
+        ] = await Promise.all([
+          result.postBalance(),
+          result.swapInput(),
+          result.swapOutput(),
+          result.currentCollateral(),
+          result.convertCollateral(),
+        ]);
+        const collateralDisplay = await sellToken.toDisplay(collateral);
+
+        if (!isMounted()) {
+          return;
+        }
+
+        setReposition(result);
+        setPreview({
+          range,
+          sellBase,
+          swapInput: parseFloat(swapInput),
+          swapOutput: parseFloat(swapOutput),
+          balanceBase,
+          balanceQuote,
+          collateral: parseFloat(collateralDisplay),
+          convertedPercent: collateral.isZero()
+            ? 0
+            : converted.mul(10000).div(collateral).toNumber() / 100,
+        });
+      } catch {
+        if (isMounted()) {
+          setReposition(undefined);
+          setPreview(undefined);
+          setIsError(true);
+        }
+      }
+    };
+
+    getPreview();
+  }, [croc, crocPool, isMounted, isOpen, pool.poolIndex, position]);
+
+  return useMemo(
+    () => ({ reposition, preview, isError }),
+    [isError, preview, reposition],
+  );
+};
@@ -0,0 +1,50 @@
+import { useCallback } from 'react';
+
+import { t } from 'i18next';
+
+import { CrocReposition } from '@sovryn/sdex';
+
+import {
+  Transaction,
+  TransactionType,
+} from '../../../../../3_organisms/TransactionStepDialog/TransactionStepDialog.types';
+import { GAS_LIMIT } from '../../../../../../constants/gasLimits';
+import { useTransactionContext } from '../../../../../../contexts/TransactionContext';
+import { translations } from '../../../../../../locales/i18n';
+
+export const useHandleSubmit = (
+  reposition: CrocReposition | undefined,
+  onComplete: () => void,
+) => {
+  const { setTransactions, setIsOpen, setTitle } = useTransactionContext();
+
+  const onSubmit = useCallback(async () => {
+    if (!reposition) {
+      return;
+    }
+
+    const transactions: Transaction[] = [];
+
+    // burn of the old range, swap and mint of the new range are settled in one transaction
+    const { contract, path, calldata } = await reposition.rebalParams();
+
+    transactions.push({
+      title: t(translations.bobMarketMakingPage.repositionModal.reposition),
+      request: {
+        type: TransactionType.signTransaction,
+        contract,
+        fnName: 'userCmd',
+        args: [path, calldata],
+        value: 0,
+        gasLimit: GAS_LIMIT.MARKET_MAKING_REPOSITION,
+      },
+      onComplete,
+    });
+
+    setTransactions(transactions);
+    setTitle(t(translations.bobMarketMakingPage.repositionModal.title));
+    setIsOpen(true);
+  }, [onComplete, reposition, setIsOpen, setTitle, setTransactions]);
+
+  return onSubmit;
+};
@@ -6,6 +6,7 @@ import {
   Button,
   ButtonStyle,
   ButtonType,
+  Checkbox,
   Dialog,
   DialogBody,
   DialogHeader,
@@ -67,6 +68,8 @@ export const BobWithdrawModal: FC<BobWithdrawModalProps> = ({
   const { spotPrice: price } = useGetPoolInfo(pool.base, pool.quote);
   const [sqrtPrice, setSqrtPrice] = useState(0);
   const [withdrawLiquidity, setWithdrawLiquidity] = useState(Decimal.ZERO);
+  // withdrawn tokens can be kept in the dex balance to save gas on the next deposit or swap
+  const [toDexBalance, setToDexBalance] = useState(false);
   const { poolTokens } = useGetPool(pool.base, pool.quote);
   const { baseTokenDecimals, quoteTokenDecimals } = useGetTokenDecimals(
     poolTokens?.tokenA,
@@ -132,6 +135,7 @@ export const BobWithdrawModal: FC<BobWithdrawModalProps> = ({
   const handleSubmit = useHandleSubmit(
     withdraw,
     isFullWithdrawal,
+    toDexBalance,
     pool,
     position,
     onClose,
@@ -304,6 +308,14 @@ export const BobWithdrawModal: FC<BobWithdrawModalProps> = ({
           pool={pool}
         />
 
+        <div className="mt-6">
+          <Checkbox
+            checked={toDexBalance}
+            onChangeValue={setToDexBalance}
+            label={t(pageTranslations.toDexBalance)}
+          />
+        </div>
+
         <Button
           type={ButtonType.submit}
           style={ButtonStyle.primary}
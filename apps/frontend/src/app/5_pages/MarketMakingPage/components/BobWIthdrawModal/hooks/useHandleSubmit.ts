@@ -23,6 +23,7 @@ import { DEFAULT_SLIPPAGE } from '../../BobDepositModal/BobDepositModal.constant
 export const useHandleSubmit = (
   withdrawAmount: BigNumber,
   isFullWithdrawal: boolean,
+  toDexBalance: boolean,
   pool: AmbientLiquidityPool,
   position: AmbientPosition,
   onComplete: () => void,
@@ -67,6 +68,7 @@ export const useHandleSubmit = (
         if (isFullWithdrawal && !ambientPool?.lpTokenAddress) {
           calldata = await crocPool.burnAmbientAll([price.min, price.max], {
             lpConduit: ambientPool?.lpTokenAddress,
+            surplus: toDexBalance,
           });
         } else {
           calldata = await crocPool.burnAmbientLiq(
@@ -74,6 +76,7 @@ export const useHandleSubmit = (
             [price.min, price.max],
             {
               lpConduit: ambientPool?.lpTokenAddress,
+              surplus: toDexBalance,
             },
           );
         }
@@ -82,6 +85,7 @@ export const useHandleSubmit = (
           withdrawAmount,
           [position.bidTick, position.askTick],
           [price.min, price.max],
+          { surplus: toDexBalance },
         );
       } else {
         console.debug('Unsupported position type for removal');
@@ -115,6 +119,7 @@ export const useHandleSubmit = (
     setTitle,
     withdrawAmount,
     isFullWithdrawal,
+    toDexBalance,
     position,
     onComplete,
     chainId,
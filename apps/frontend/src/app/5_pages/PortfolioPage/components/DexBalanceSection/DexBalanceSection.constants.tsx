@@ -0,0 +1,68 @@
+import React from 'react';
+
+import { t } from 'i18next';
+
+import { Button, ButtonSize, ButtonStyle } from '@sovryn/ui';
+
+import { AmountRenderer } from '../../../../2_molecules/AmountRenderer/AmountRenderer';
+import { AssetRenderer } from '../../../../2_molecules/AssetRenderer/AssetRenderer';
+import { TOKEN_RENDER_PRECISION } from '../../../../../constants/currencies';
+import { getCurrentChain } from '../../../../../hooks/useChainStore';
+import { translations } from '../../../../../locales/i18n';
+import { DexBalance, DexBalanceAction } from './DexBalanceSection.types';
+
+const sectionTranslations = translations.portfolioPage.dexBalanceSection;
+
+// nothing can be withdrawn or transferred without a balance
+const isActionDisabled = (item: DexBalance, action: DexBalanceAction) =>
+  action !== DexBalanceAction.deposit && item.balance.lte(0);
+
+export const COLUMNS_CONFIG = (
+  onAction: (item: DexBalance, action: DexBalanceAction) => void,
+) => [
+  {
+    id: 'asset',
+    title: t(sectionTranslations.asset),
+    cellRenderer: (item: DexBalance) => (
+      <AssetRenderer
+        asset={item.token}
+        chainId={getCurrentChain()}
+        showAssetLogo
+      />
+    ),
+  },
+  {
+    id: 'balance',
+    title: t(sectionTranslations.balance),
+    cellRenderer: (item: DexBalance) => (
+      <AmountRenderer
+        value={item.balance}
+        suffix={item.token}
+        precision={TOKEN_RENDER_PRECISION}
+      />
+    ),
+  },
+  {
+    id: 'actions',
+    title: ' ',
+    cellRenderer: (item: DexBalance) => (
+      <div className="flex justify-end gap-2">
+        {Object.values(DexBalanceAction).map(action => (
+          <Button
+            key={action}
+            style={
+              action === DexBalanceAction.deposit
+                ? ButtonStyle.primary
+                : ButtonStyle.secondary
+            }
+            size={ButtonSize.small}
+            text={t(sectionTranslations.actions[action])}
+            onClick={() => onAction(item, action)}
+            disabled={isActionDisabled(item, action)}
+            dataAttribute={`dex-balance-${action}`}
+          />
+        ))}
+      </div>
+    ),
+  },
+];
@@ -0,0 +1,73 @@
+import React, { FC, useCallback, useMemo, useState } from 'react';
+
+import { t } from 'i18next';
+
+import { Paragraph, ParagraphSize, Table } from '@sovryn/ui';
+import { Decimal } from '@sovryn/utils';
+
+import { useCurrentChain } from '../../../../../hooks/useChainStore';
+import { translations } from '../../../../../locales/i18n';
+import { getAvailableTokens } from '../AssetSection/AssetSection.constants';
+import { COLUMNS_CONFIG } from './DexBalanceSection.constants';
+import { DexBalance, DexBalanceAction } from './DexBalanceSection.types';
+import { DexBalanceModal } from './components/DexBalanceModal/DexBalanceModal';
+import { useGetDexBalances } from './hooks/useGetDexBalances';
+
+const sectionTranslations = translations.portfolioPage.dexBalanceSection;
+
+export const DexBalanceSection: FC = () => {
+  const chainId = useCurrentChain();
+  const tokens = useMemo(() => getAvailableTokens(chainId), [chainId]);
+  const { balances, isLoading } = useGetDexBalances(tokens);
+
+  const [selected, setSelected] = useState<{
+    token: string;
+    action: DexBalanceAction;
+  }>();
+
+  // balance of the selected token is kept up to date while the modal is open
+  const selectedBalance = useMemo(
+    () =>
+      balances.find(item => item.token === selected?.token)?.balance ??
+      Decimal.ZERO,
+    [balances, selected?.token],
+  );
+
+  const handleAction = useCallback(
+    (item: DexBalance, action: DexBalanceAction) =>
+      setSelected({ token: item.token, action }),
+    [],
+  );
+  const handleClose = useCallback(() => setSelected(undefined), []);
+
+  const columns = useMemo(() => COLUMNS_CONFIG(handleAction), [handleAction]);
+
+  return (
+    <div className="flex flex-col">
+      <Paragraph size={ParagraphSize.base} className="font-medium">
+        {t(sectionTranslations.title)}
+      </Paragraph>
+      <Paragraph className="text-gray-30 mt-1 mb-4">
+        {t(sectionTranslations.description)}
+      </Paragraph>
+      <Table
+        columns={columns}
+        rows={balances}
+        rowKey={item => item.token}
+        isLoading={isLoading && balances.length === 0}
+        className="bg-gray-80 text-gray-10 lg:px-6 lg:py-4"
+        noData={t(sectionTranslations.noData)}
+        dataAttribute="dex-balance-table"
+      />
+      {selected && (
+        <DexBalanceModal
+          isOpen
+          token={selected.token}
+          dexBalance={selectedBalance}
+          action={selected.action}
+          onClose={handleClose}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,12 @@
+import { Decimal } from '@sovryn/utils';
+
+export enum DexBalanceAction {
+  deposit = 'deposit',
+  withdraw = 'withdraw',
+  transfer = 'transfer',
+}
+
+export type DexBalance = {
+  token: string;
+  balance: Decimal;
+};
@@ -0,0 +1,188 @@
+import React, { FC, useCallback, useMemo, useState } from 'react';
+
+import { utils } from 'ethers';
+import { t } from 'i18next';
+
+import {
+  AmountInput,
+  Button,
+  ButtonStyle,
+  ButtonType,
+  Dialog,
+  DialogBody,
+  DialogHeader,
+  ErrorBadge,
+  ErrorLevel,
+  Input,
+  Paragraph,
+  SimpleTable,
+  SimpleTableRow,
+} from '@sovryn/ui';
+import { Decimal } from '@sovryn/utils';
+
+import { AmountRenderer } from '../../../../../../2_molecules/AmountRenderer/AmountRenderer';
+import { MaxButton } from '../../../../../../2_molecules/MaxButton/MaxButton';
+import { TOKEN_RENDER_PRECISION } from '../../../../../../../constants/currencies';
+import { useAssetBalance } from '../../../../../../../hooks/useAssetBalance';
+import { useCurrentChain } from '../../../../../../../hooks/useChainStore';
+import { translations } from '../../../../../../../locales/i18n';
+import { decimalic } from '../../../../../../../utils/math';
+import { DexBalanceAction } from '../../DexBalanceSection.types';
+import { useHandleSubmit } from './hooks/useHandleSubmit';
+
+const modalTranslations = translations.portfolioPage.dexBalanceSection.modal;
+
+type DexBalanceModalProps = {
+  isOpen: boolean;
+  token: string;
+  dexBalance: Decimal;
+  action: DexBalanceAction;
+  onClose: () => void;
+};
+
+export const DexBalanceModal: FC<DexBalanceModalProps> = ({
+  isOpen,
+  token,
+  dexBalance,
+  action,
+  onClose,
+}) => {
+  const chainId = useCurrentChain();
+  const { balance: walletBalance } = useAssetBalance(token, chainId);
+
+  const [amount, setAmount] = useState('');
+  const [recipient, setRecipient] = useState('');
+
+  const isTransfer = action === DexBalanceAction.transfer;
+  const value = useMemo(() => decimalic(amount), [amount]);
+
+  // deposits are paid from the wallet, the other actions from the dex balance
+  const maxAmount = useMemo(
+    () => (action === DexBalanceAction.deposit ? walletBalance : dexBalance),
+    [action, dexBalance, walletBalance],
+  );
+
+  const isValidAmount = useMemo(() => value.lte(maxAmount), [maxAmount, value]);
+
+  const isValidRecipient = useMemo(
+    () => !isTransfer || recipient === '' || utils.isAddress(recipient),
+    [isTransfer, recipient],
+  );
+
+  const isSubmitDisabled = useMemo(
+    () =>
+      value.lte(0) ||
+      !isValidAmount ||
+      !isValidRecipient ||
+      (isTransfer && recipient === ''),
+    [isTransfer, isValidAmount, isValidRecipient, recipient, value],
+  );
+
+  const handleMaxClick = useCallback(
+    () => setAmount(maxAmount.toString()),
+    [maxAmount],
+  );
+
+  const handleSubmit = useHandleSubmit(
+    token,
+    action,
+    value,
+    recipient,
+    onClose,
+  );
+
+  return (
+    <Dialog disableFocusTrap isOpen={isOpen}>
+      <DialogHeader
+        title={t(modalTranslations.title[action])}
+        onClose={onClose}
+      />
+      <DialogBody>
+        <div className="w-full flex flex-row justify-end items-center">
+          <MaxButton
+            onClick={handleMaxClick}
+            value={maxAmount}
+            token={token}
+            chainId={chainId}
+            dataAttribute="dex-balance-max"
+          />
+        </div>
+
+        <AmountInput
+          value={amount}
+          onChangeText={setAmount}
+          label={t(translations.common.amount)}
+          min={0}
+          invalid={!isValidAmount}
+          unit={token}
+          className="w-full max-w-full mt-3"
+          dataAttribute="dex-balance-amount"
+          placeholder="0"
+        />
+
+        {!isValidAmount && (
+          <ErrorBadge
+            level={ErrorLevel.Critical}
+            message={t(modalTranslations.invalidAmount)}
+            dataAttribute="dex-balance-amount-error"
+          />
+        )}
+
+        {isTransfer && (
+          <>
+            <Paragraph className="font-medium mt-6">
+              {t(modalTranslations.recipient)}
+            </Paragraph>
+            <Input
+              value={recipient}
+              onChangeText={setRecipient}
+              className="mt-3 max-w-full"
+              invalid={!isValidRecipient}
+              dataAttribute="dex-balance-recipient"
+            />
+            {!isValidRecipient && (
+              <ErrorBadge
+                level={ErrorLevel.Critical}
+                message={t(modalTranslations.invalidRecipient)}
+                dataAttribute="dex-balance-recipient-error"
+              />
+            )}
+          </>
+        )}
+
+        <SimpleTable className="mt-6">
+          <SimpleTableRow
+            label={t(modalTranslations.walletBalance)}
+            value={
+              <AmountRenderer
+                value={walletBalance}
+                suffix={token}
+                precision={TOKEN_RENDER_PRECISION}
+              />
+            }
+          />
+          <SimpleTableRow
+            label={t(modalTranslations.dexBalance)}
+            value={
+              <AmountRenderer
+                value={dexBalance}
+                suffix={token}
+                precision={TOKEN_RENDER_PRECISION}
+              />
+            }
+          />
+        </SimpleTable>
+
+        <Button
+          type={ButtonType.submit}
+          style={ButtonStyle.primary}
+          text={t(translations.common.buttons.confirm)}
+          className="w-full mt-6"
+          onClick={handleSubmit}
+          disabled={isSubmitDisabled}
+          dataAttribute="dex-balance-confirm"
+        />
+      </DialogBody>
+    </Dialog>
+  );
+};
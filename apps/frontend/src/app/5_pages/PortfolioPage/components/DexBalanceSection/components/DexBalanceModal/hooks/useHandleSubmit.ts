@@ -0,0 +1,105 @@
+import { useCallback } from 'react';
+
+import { t } from 'i18next';
+
+import { Decimal } from '@sovryn/utils';
+
+import {
+  Transaction,
+  TransactionType,
+} from '../../../../../../../3_organisms/TransactionStepDialog/TransactionStepDialog.types';
+import { GAS_LIMIT } from '../../../../../../../../constants/gasLimits';
+import { useCrocContext } from '../../../../../../../../contexts/CrocContext';
+import { useTransactionContext } from '../../../../../../../../contexts/TransactionContext';
+import { useAccount } from '../../../../../../../../hooks/useAccount';
+import { useCurrentChain } from '../../../../../../../../hooks/useChainStore';
+import { translations } from '../../../../../../../../locales/i18n';
+import { findAsset } from '../../../../../../../../utils/asset';
+import { prepareApproveTransaction } from '../../../../../../../../utils/transactions';
+import { DexBalanceAction } from '../../../DexBalanceSection.types';
+
+const modalTranslations = translations.portfolioPage.dexBalanceSection.modal;
+
+const GAS_LIMITS = {
+  [DexBalanceAction.deposit]: GAS_LIMIT.DEX_BALANCE_DEPOSIT,
+  [DexBalanceAction.withdraw]: GAS_LIMIT.DEX_BALANCE_WITHDRAW,
+  [DexBalanceAction.transfer]: GAS_LIMIT.DEX_BALANCE_TRANSFER,
+};
+
+export const useHandleSubmit = (
+  token: string,
+  action: DexBalanceAction,
+  amount: Decimal,
+  recipient: string,
+  onComplete: () => void,
+) => {
+  const chainId = useCurrentChain();
+  const { account, signer } = useAccount();
+  const { croc } = useCrocContext();
+  const { setTransactions, setIsOpen, setTitle } = useTransactionContext();
+
+  const onSubmit = useCallback(async () => {
+    if (!croc || !signer) {
+      return;
+    }
+
+    const asset = findAsset(token, chainId);
+    const tokenView = croc.token(asset.address);
+    const qty = amount.toString();
+
+    const transactions: Transaction[] = [];
+
+    if (action === DexBalanceAction.deposit && !asset.isNative) {
+      const approve = await prepareApproveTransaction({
+        token,
+        chain: chainId,
+        spender: (await croc.context).dex.address,
+        amount: await tokenView.normQty(qty),
+        signer,
+      });
+      if (approve) {
+        transactions.push(approve);
+      }
+    }
+
+    // deposits and withdrawals always go from and to the wallet of the account
+    const params =
+      action === DexBalanceAction.deposit
+        ? await tokenView.depositParams(qty, account)
+        : action === DexBalanceAction.withdraw
+        ? await tokenView.withdrawParams(qty, account)
+        : await tokenView.transferParams(qty, recipient);
+
+    transactions.push({
+      title: t(modalTranslations.tx[action], { token }),
+      request: {
+        type: TransactionType.signTransaction,
+        contract: params.contract,
+        fnName: 'userCmd',
+        args: [params.path, params.calldata],
+        value: params.txArgs?.value ?? 0,
+        gasLimit: GAS_LIMITS[action],
+      },
+      onComplete,
+    });
+
+    setTransactions(transactions);
+    setTitle(t(modalTranslations.title[action]));
+    setIsOpen(true);
+  }, [
+    account,
+    action,
+    amount,
+    chainId,
+    croc,
+    onComplete,
+    recipient,
+    setIsOpen,
+    setTitle,
+    setTransactions,
+    signer,
+    token,
+  ]);
+
+  return onSubmit;
+};
@@ -0,0 +1,38 @@
+import { Decimal } from '@sovryn/utils';
+
+import { useCrocContext } from '../../../../../../contexts/CrocContext';
+import { useCacheCall } from '../../../../../../hooks';
+import { useAccount } from '../../../../../../hooks/useAccount';
+import { useCurrentChain } from '../../../../../../hooks/useChainStore';
+import { findAsset } from '../../../../../../utils/asset';
+import { DexBalance } from '../DexBalanceSection.types';
+
+// surplus collateral the account holds in the dex, refreshed with every block
+export const useGetDexBalances = (tokens: string[]) => {
+  const chainId = useCurrentChain();
+  const { account } = useAccount();
+  const { croc } = useCrocContext();
+
+  const { value, loading } = useCacheCall<DexBalance[]>(
+    `dex-balances/${account}/${tokens.join(',')}`,
+    chainId,
+    async () => {
+      if (!croc || !account) {
+        return [];
+      }
+
+      return Promise.all(
+        tokens.map(async token => {
+          const balance = await croc
+            .token(findAsset(token, chainId).address)
+            .balanceDisplay(account);
+          return { token, balance: Decimal.from(balance) };
+        }),
+      );
+    },
+    [account, croc, tokens],
+    [],
+  );
+
+  return { balances: value, isLoading: loading };
+};
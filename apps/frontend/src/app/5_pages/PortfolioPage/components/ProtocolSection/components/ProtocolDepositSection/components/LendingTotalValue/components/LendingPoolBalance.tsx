@@ -11,7 +11,7 @@ import {
   fromWei,
   toWei,
 } from '../../../../../../../../../../utils/math';
-import { SMART_ROUTER_RSK } from '../../../../../../../../ConvertPage/ConvertPage.constants';
+import { getSmartRouterRsk } from '../../../../../../../../ConvertPage/ConvertPage.constants';
 import { useGetAssetBalanceOf } from '../../../../../../../../LendPage/components/LendFrame/components/LendFrameBalance/hooks/useGetAssetBalanceOf';
 import { getAssetData } from '@sovryn/contracts';
 import { COMMON_SYMBOLS } from '../../../../../../../../../../utils/asset';
@@ -49,7 +49,7 @@ export const LendingPoolBalance: FC<LendingPoolBalanceProps> = ({
           ],
         );
 
-        const result = await SMART_ROUTER_RSK.getBestQuote(
+        const result = await getSmartRouterRsk().getBestQuote(
           RSK_CHAIN_ID,
           sourceTokenDetails.address,
           destinationTokenDetails.address,
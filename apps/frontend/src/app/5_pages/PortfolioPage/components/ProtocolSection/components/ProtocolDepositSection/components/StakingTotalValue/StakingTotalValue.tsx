@@ -12,7 +12,7 @@ import { useCurrentChain } from '../../../../../../../../../hooks/useChainStore'
 import { COMMON_SYMBOLS } from '../../../../../../../../../utils/asset';
 import { removeTrailingZerosFromString } from '../../../../../../../../../utils/helpers';
 import { decimalic, fromWei } from '../../../../../../../../../utils/math';
-import { SMART_ROUTER_RSK } from '../../../../../../../ConvertPage/ConvertPage.constants';
+import { getSmartRouterRsk } from '../../../../../../../ConvertPage/ConvertPage.constants';
 import { useGetStakingBalanceOf } from '../../../../../../../StakePage/hooks/useGetStakingBalanceOf';
 import {
   ProtocolSectionProps,
@@ -58,7 +58,7 @@ export const StakingTotalValue: FC<ProtocolSectionProps> = ({
           ],
         );
 
-        const result = await SMART_ROUTER_RSK.getBestQuote(
+        const result = await getSmartRouterRsk().getBestQuote(
           RSK_CHAIN_ID,
           sourceTokenDetails.address,
           destinationTokenDetails.address,
@@ -1,3 +1,4 @@
+import { loadContractOverrides } from '@sovryn/contracts';
 import setup, { Chain, ChainIds } from '@sovryn/ethers-provider';
 import { ChainId } from '@sovryn/ethers-provider';
 
@@ -42,6 +43,10 @@ export const APP_CHAIN_LIST: ChainWithLogo[] = [
           publicRpcUrl: RSK.publicRpc[Environments.Mainnet],
           rpcUrl: RSK.rpc[Environments.Mainnet],
           blockExplorerUrl: RSK.explorer[Environments.Mainnet],
+          batching: {
+            dedupe: true,
+            multicall: RSK.multicall[Environments.Mainnet],
+          },
           icon: rskLogo,
         },
         {
@@ -50,6 +55,7 @@ export const APP_CHAIN_LIST: ChainWithLogo[] = [
           token: 'ETH',
           publicRpcUrl: BOB.publicRpc[Environments.Mainnet],
           rpcUrl: BOB.rpc[Environments.Mainnet],
+          wsUrl: BOB.ws[Environments.Mainnet],
           blockExplorerUrl: BOB.explorer[Environments.Mainnet],
           icon: bobLogo,
         },
@@ -62,6 +68,10 @@ export const APP_CHAIN_LIST: ChainWithLogo[] = [
           publicRpcUrl: RSK.publicRpc[Environments.Testnet],
           rpcUrl: RSK.rpc[Environments.Testnet],
           blockExplorerUrl: RSK.explorer[Environments.Testnet],
+          batching: {
+            dedupe: true,
+            multicall: RSK.multicall[Environments.Testnet],
+          },
           icon: rskLogo,
         },
         {
@@ -70,6 +80,7 @@ export const APP_CHAIN_LIST: ChainWithLogo[] = [
           token: 'tETH',
           publicRpcUrl: BOB.publicRpc[Environments.Testnet],
           rpcUrl: BOB.rpc[Environments.Testnet],
+          wsUrl: BOB.ws[Environments.Testnet],
           blockExplorerUrl: BOB.explorer[Environments.Testnet],
           icon: bobLogo,
         },
@@ -94,4 +105,9 @@ export const APP_CHAIN_LIST: ChainWithLogo[] = [
       ]),
 ];
 
-setup(APP_CHAIN_LIST);
+export const chainConfig = setup(APP_CHAIN_LIST);
+
+// Point contracts to another deployment (e.g. local fork), overrides must be loaded before contracts are resolved.
+if (process.env.REACT_APP_CONTRACT_OVERRIDES) {
+  loadContractOverrides(process.env.REACT_APP_CONTRACT_OVERRIDES);
+}
@@ -32,6 +32,13 @@ export const GAS_LIMIT = {
   MARKET_MAKING_ADD_LIQUIDITY: 550_000,
   MARKET_MAKING_REMOVE_LIQUIDITY: 650_000,
   MARKET_MAKING_CLAIM_FEES: 650_000,
+  MARKET_MAKING_REPOSITION: 1_000_000,
+  LIMIT_ORDER_PLACE: 550_000,
+  LIMIT_ORDER_CANCEL: 650_000,
+  LIMIT_ORDER_CLAIM: 650_000,
+  DEX_BALANCE_DEPOSIT: 250_000,
+  DEX_BALANCE_WITHDRAW: 250_000,
+  DEX_BALANCE_TRANSFER: 250_000,
   CLAIM_VESTED_SOV_REWARDS: 6_000_000,
   WITHDRAW_MARKET_MAKING_LIQUIDITY: 6_000_000,
 };
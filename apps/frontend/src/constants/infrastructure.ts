@@ -30,3 +30,5 @@ export const AMM_SERVICE = {
 };
 
 export const ESTIMATOR_URI = process.env.REACT_APP_ESTIMATOR_URI;
+
+export const TOKEN_LIST_URL = process.env.REACT_APP_TOKEN_LIST_URL;
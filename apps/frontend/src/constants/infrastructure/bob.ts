@@ -8,6 +8,10 @@ const rpc = {
 export const BOB = {
   rpc,
   publicRpc: rpc,
+  ws: {
+    [Environments.Mainnet]: 'wss://rpc.gobob.xyz',
+    [Environments.Testnet]: 'wss://testnet.rpc.gobob.xyz',
+  },
   explorer: {
     [Environments.Mainnet]: 'https://explorer.gobob.xyz',
     [Environments.Testnet]: 'https://testnet-explorer.gobob.xyz',
@@ -1,3 +1,5 @@
+import { contracts } from '@sovryn/contracts';
+
 import { Environments } from '../../types/global';
 
 export const RSK = {
@@ -9,6 +11,11 @@ export const RSK = {
     [Environments.Mainnet]: 'https://mainnet.sovryn.app/rpc',
     [Environments.Testnet]: 'https://testnet.sovryn.app/rpc',
   },
+  // Multicall2 of the contracts registry, used by the provider to aggregate eth_calls
+  multicall: {
+    [Environments.Mainnet]: contracts.protocol.rsk?.multiCall?.address,
+    [Environments.Testnet]: contracts.protocol.rskTestnet?.multiCall?.address,
+  },
   explorer: {
     [Environments.Mainnet]: 'https://explorer.rsk.co',
     [Environments.Testnet]: 'https://explorer.testnet.rsk.co',
@@ -7,11 +7,11 @@ import React, {
   useState,
 } from 'react';
 
-import { getProvider } from '@sovryn/ethers-provider';
 import { CrocEnv } from '@sovryn/sdex';
 
 import { useAccount } from '../hooks/useAccount';
 import { useCurrentChain } from '../hooks/useChainStore';
+import { useProvider } from '../hooks/useProvider';
 import { isBobChain } from '../utils/chain';
 
 type CrocContextValue = {
@@ -29,13 +29,15 @@ export const useCrocContext = () => useContext(CrocContext) as CrocContextValue;
 export const CrocContextProvider: FC<PropsWithChildren> = ({ children }) => {
   const chainId = useCurrentChain();
   const { account, signer } = useAccount();
+  const provider = useProvider(chainId);
   const [croc, setCroc] = useState(defaultContextValue.croc);
 
   useEffect(() => {
-    if (!croc && account && isBobChain(chainId)) {
-      setCroc(new CrocEnv(getProvider(chainId), signer));
+    // env is rebuilt when the provider is replaced, e.g. after custom RPC is set
+    if (account && isBobChain(chainId)) {
+      setCroc(new CrocEnv(provider, signer));
     }
-  }, [croc, signer, account, chainId]);
+  }, [provider, signer, account, chainId]);
 
   return (
     <CrocContext.Provider value={{ croc }}>{children}</CrocContext.Provider>
@@ -1,7 +1,11 @@
 import { Dispatch, SetStateAction, useMemo, useState } from 'react';
 
+import { TokenAmount, TokenAmountAsset } from '@sovryn/utils';
+
 type AmountInput<T> = [T, Dispatch<SetStateAction<T>>, T];
 
+type TokenAmountInput = [string, Dispatch<SetStateAction<string>>, TokenAmount];
+
 export const useAmountInput = <T = string>(initialValue: T): AmountInput<T> => {
   const [value, setValue] = useState(initialValue);
   const amount: T = useMemo(() => {
@@ -28,3 +32,25 @@ export const useAmountInput = <T = string>(initialValue: T): AmountInput<T> => {
 
   return [value, setValue, amount];
 };
+
+// Same as useAmountInput, but the amount is TokenAmount truncated to decimals of the asset.
+export const useTokenAmountInput = (
+  asset: TokenAmountAsset,
+  initialValue: string | TokenAmount = '',
+): TokenAmountInput => {
+  const [value, setValue, amount] = useAmountInput(
+    initialValue instanceof TokenAmount
+      ? initialValue.toString()
+      : initialValue,
+  );
+
+  const tokenAmount = useMemo(() => {
+    try {
+      return TokenAmount.from(asset, amount);
+    } catch (error) {
+      return TokenAmount.zero(asset);
+    }
+  }, [amount, asset]);
+
+  return [value, setValue, tokenAmount];
+};
@@ -5,6 +5,7 @@ import { Subscription } from 'zen-observable-ts';
 
 import { getAssetData } from '@sovryn/contracts';
 import { ChainId, getProvider } from '@sovryn/ethers-provider';
+import { getCallOverrides } from '@sovryn/sdk';
 import { Decimal } from '@sovryn/utils';
 
 import { RSK_CHAIN_ID } from '../config/chains';
@@ -12,8 +13,10 @@ import { RSK_CHAIN_ID } from '../config/chains';
 import {
   CacheCallOptions,
   idHash,
+  isPastBlock,
   observeCall,
   startCall,
+  withBlockTag,
 } from '../store/rxjs/provider-cache';
 import { fromWei, decimalic } from '../utils/math';
 import { useBlockNumber } from './useBlockNumber';
@@ -66,15 +69,18 @@ export const useAssetBalance = (
     const runAsync = async () => {
       const tokenDetails = await getAssetData(asset, chainId);
 
-      const hashedArgs = idHash([
-        'balance',
-        chainId,
-        tokenDetails.address,
-        tokenDetails.address === constants.AddressZero
-          ? 'nativeBalance'
-          : 'balanceOf',
-        account,
-      ]);
+      const hashedArgs = withBlockTag(
+        idHash([
+          'balance',
+          chainId,
+          tokenDetails.address,
+          tokenDetails.address === constants.AddressZero
+            ? 'nativeBalance'
+            : 'balanceOf',
+          account,
+        ]),
+        options?.blockTag,
+      );
 
       if (hashedArgs === state.hashedArgs || state.loading) {
         return;
@@ -107,17 +113,19 @@ export const useAssetBalance = (
       const callback = tokenDetails.isNative
         ? () =>
             getProvider(chainId)
-              .getBalance(account)
+              .getBalance(account, options?.blockTag)
               .then(result => result.toString())
         : () =>
             tokenDetails
               .contract(getProvider(chainId))
-              .balanceOf(account)
+              .balanceOf(account, getCallOverrides(options))
               .then(result => result.toString());
 
       startCall(hashedArgs, callback, {
         ...options,
-        blockNumber: options?.blockNumber || block,
+        blockNumber: isPastBlock(options?.blockTag)
+          ? 0
+          : options?.blockNumber || block,
       });
     };
 
@@ -1,6 +1,10 @@
 import { useEffect, useMemo, useState } from 'react';
 
-import { ChainId, getProvider } from '@sovryn/ethers-provider';
+import {
+  ChainId,
+  getProvider,
+  getSubscriptionProvider,
+} from '@sovryn/ethers-provider';
 
 import {
   CacheCallOptions,
@@ -8,7 +12,7 @@ import {
   observeCall,
   startCall,
 } from '../store/rxjs/provider-cache';
-import { getRskChainId } from '../utils/chain';
+import { getChainById, getRskChainId } from '../utils/chain';
 import { useIsMounted } from './useIsMounted';
 
 const DEFAULT_BLOCK_TTL = 30 * 1000; // 30 seconds
@@ -48,6 +52,27 @@ export const useBlockNumber = (
     };
   }, [chainId, isMounted, options]);
 
+  // chains with websocket push new blocks as they come instead of waiting for cache to expire,
+  // cached value is replaced only once per block even when many components listen
+  useEffect(() => {
+    if (!getChainById(chainId)?.wsUrl) {
+      return;
+    }
+
+    const provider = getSubscriptionProvider(chainId);
+    const onBlock = (blockNumber: number) =>
+      startCall(`${chainId}_blockNumber`, () => Promise.resolve(blockNumber), {
+        ...options,
+        blockNumber,
+      });
+
+    provider.on('block', onBlock);
+
+    return () => {
+      provider.off('block', onBlock);
+    };
+  }, [chainId, options]);
+
   return useMemo(
     () => ({ ...state, value: state.value === null ? 0 : state.value }),
     [state],
@@ -1,13 +1,17 @@
 import { DependencyList, useEffect, useMemo, useState } from 'react';
 
+import { CallOverrides } from 'ethers';
 import { Subscription } from 'rxjs';
 
 import { ChainId } from '@sovryn/ethers-provider';
+import { getCallOverrides } from '@sovryn/sdk';
 
 import {
   CacheCallOptions,
+  isPastBlock,
   observeCall,
   startCall,
+  withBlockTag,
 } from '../store/rxjs/provider-cache';
 import { useBlockNumber } from './useBlockNumber';
 import { useIsMounted } from './useIsMounted';
@@ -21,7 +25,7 @@ type State<T> = {
 export const useCacheCall = <T>(
   key: string,
   chain: ChainId,
-  callback: () => Promise<T>,
+  callback: (overrides: CallOverrides) => Promise<T>,
   deps?: DependencyList,
   defaultValue?: T,
   options?: Partial<CacheCallOptions>,
@@ -41,8 +45,9 @@ export const useCacheCall = <T>(
     }
 
     let sub: Subscription;
+    const id = withBlockTag(`call:${chain}:${key}`, options?.blockTag);
 
-    sub = observeCall(`call:${chain}:${key}`).subscribe(e => {
+    sub = observeCall(id).subscribe(e => {
       if (isMounted()) {
         setState({
           ...e.result,
@@ -51,9 +56,11 @@ export const useCacheCall = <T>(
       }
     });
 
-    startCall(`call:${chain}:${key}`, callback, {
+    startCall(id, () => callback(getCallOverrides(options)), {
       ...options,
-      blockNumber: options?.blockNumber || block,
+      blockNumber: isPastBlock(options?.blockTag)
+        ? 0
+        : options?.blockNumber || block,
     });
 
     return () => {
@@ -62,7 +69,7 @@ export const useCacheCall = <T>(
       }
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [block, key, JSON.stringify(deps)]);
+  }, [block, key, options?.blockTag, JSON.stringify(deps)]);
 
   // eslint-disable-next-line react-hooks/exhaustive-deps
   return useMemo(() => state, [JSON.stringify(state)]);
@@ -6,6 +6,10 @@ import {
   useState,
 } from 'react';
 
+import { CallOverrides, providers } from 'ethers';
+
+import { getCallOverrides } from '@sovryn/sdk';
+
 type State<T> = {
   value: T | null;
   loading: boolean;
@@ -15,11 +19,13 @@ type State<T> = {
 type Result<T> = [T, () => Promise<T | null>, boolean, Error | null];
 
 export const useCall = <T>(
-  callback: () => Promise<T>,
+  callback: (overrides: CallOverrides) => Promise<T>,
   deps?: DependencyList,
   defaultValue?: T,
+  blockTag?: providers.BlockTag,
 ): Result<T> => {
   const callbackRef = useRef(callback);
+  const blockTagRef = useRef(blockTag);
   const [state, setState] = useState<State<T>>({
     value: defaultValue ?? null,
     loading: false,
@@ -28,13 +34,16 @@ export const useCall = <T>(
 
   useEffect(() => {
     callbackRef.current = callback;
+    blockTagRef.current = blockTag;
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [deps]);
+  }, [deps, blockTag]);
 
   const handleCall = useCallback(async () => {
     setState(state => ({ ...state, loading: true, error: null }));
     try {
-      const result = await callbackRef.current();
+      const result = await callbackRef.current(
+        getCallOverrides({ blockTag: blockTagRef.current }),
+      );
       setState({ loading: false, value: result, error: null });
       return result;
     } catch (error) {
@@ -0,0 +1,52 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+
+import { ChainId } from '@sovryn/ethers-provider';
+
+import { chainConfig } from '../config/chains';
+
+import { getChainById } from '../utils/chain';
+
+type CustomRpcStore = {
+  // user defined RPC urls used instead of default ones
+  customRpc: Partial<Record<ChainId, string>>;
+  setCustomRpc: (chainId: ChainId, url?: string) => void;
+};
+
+// Reconfigure provider of the chain, default RPCs are restored when url is not given.
+const applyCustomRpc = (chainId: ChainId, url?: string) => {
+  const chain = getChainById(chainId);
+  if (chain) {
+    chainConfig.updateChain({ ...chain, rpcUrl: url || chain.rpcUrl });
+  }
+};
+
+export const useCustomRpcStore = create<CustomRpcStore>()(
+  persist(
+    set => ({
+      customRpc: {},
+      setCustomRpc: (chainId: ChainId, url?: string) => {
+        applyCustomRpc(chainId, url);
+        set(state => ({ customRpc: { ...state.customRpc, [chainId]: url } }));
+      },
+    }),
+    {
+      name: 'custom-rpc-storage',
+      storage: createJSONStorage(() => localStorage),
+      onRehydrateStorage: () => {
+        return (s, e) => {
+          // default RPCs stay in use if stored ones can't be read
+          if (e) {
+            return;
+          }
+          Object.entries(s?.customRpc ?? {}).forEach(([chainId, url]) =>
+            applyCustomRpc(chainId, url),
+          );
+        };
+      },
+    },
+  ),
+);
+
+export const useCustomRpc = (chainId: ChainId): string | undefined =>
+  useCustomRpcStore(state => state.customRpc[chainId]);
@@ -1,31 +1,15 @@
 import { useMemo } from 'react';
 
-import { formatUnits } from 'ethers/lib/utils';
-
-import { ChainId, ChainIds, getProvider } from '@sovryn/ethers-provider';
-import { toDisplayPrice } from '@sovryn/sdex';
-import { SmartRouter } from '@sovryn/sdk';
+import { ChainId } from '@sovryn/ethers-provider';
 import { Decimal } from '@sovryn/utils';
 
-import {
-  SWAP_ROUTES,
-  SMART_ROUTER_STABLECOINS,
-} from '../app/5_pages/ConvertPage/ConvertPage.constants';
 import { COMMON_SYMBOLS } from '../utils/asset';
 import { isRskChain } from '../utils/chain';
-import { fromWei, toWei } from '../utils/math';
+import { getPriceOracle } from '../utils/prices';
 import { useCacheCall } from './useCacheCall';
 import { useCurrentChain } from './useChainStore';
 import { useTokenDetailsByAsset } from './useTokenDetailsByAsset';
 
-const STABLECOINS: Partial<Record<ChainIds, string[]>> = {
-  [ChainIds.MAINNET]: ['USDT', 'USDC', 'DAI'],
-  [ChainIds.BOB_MAINNET]: ['DLLR', 'USDT', 'USDC', 'DAI'],
-  [ChainIds.BOB_TESTNET]: ['DLLR', 'USDT', 'USDC', 'DAI'],
-  [ChainIds.RSK_MAINNET]: ['DLLR', 'XUSD', 'ZUSD', 'DOC', 'RUSDT'],
-  [ChainIds.RSK_TESTNET]: ['DLLR', 'XUSD', 'ZUSD', 'DOC', 'RUSDT'],
-};
-
 export function useDollarValue(
   asset: string,
   weiAmount: string,
@@ -34,108 +18,39 @@ export function useDollarValue(
   const currentChainId = useCurrentChain();
   const chain = chainId || currentChainId;
 
-  const destination = useMemo(
-    () => (STABLECOINS[chain]?.[0] ?? COMMON_SYMBOLS.DLLR).toUpperCase(),
-    [chain],
-  );
-
   const entry = useMemo(() => {
-    if (isRskChain(chain)) {
-      if (asset.toUpperCase() === COMMON_SYMBOLS.ZUSD) {
-        return COMMON_SYMBOLS.XUSD;
-      } else if (asset.toLocaleLowerCase() === 'weth') {
-        return COMMON_SYMBOLS.ETH;
-      }
+    if (isRskChain(chain) && asset.toLowerCase() === 'weth') {
+      return COMMON_SYMBOLS.ETH;
     }
     return asset.toUpperCase();
   }, [asset, chain]);
 
   const assetDetails = useTokenDetailsByAsset(entry, chain);
-  const destinationDetails = useTokenDetailsByAsset(destination, chain);
 
   const { value: usdPrice, loading } = useCacheCall(
     `dollarValue/${chain}/${entry}`,
     chain,
     async () => {
-      if (
-        entry === destination ||
-        (STABLECOINS[chain]?.includes(entry) &&
-          STABLECOINS[chain]?.includes(destination))
-      ) {
-        return formatUnits('1', assetDetails?.decimals || 18);
-      }
-
-      if (
-        !assetDetails?.address ||
-        !destinationDetails?.address ||
-        SMART_ROUTER_STABLECOINS.includes(entry)
-      ) {
+      if (!assetDetails?.address) {
         return '0';
       }
 
-      const smartRouter = new SmartRouter(getProvider(chain), SWAP_ROUTES);
-      // todo: use correct router for chain
-      const result = await smartRouter.getBestQuote(
-        chain,
-        assetDetails?.address,
-        destinationDetails?.address,
-        toWei('0.01'),
-      );
-
-      return toWei(
-        toDisplayPrice(
-          Decimal.fromBigNumberString(result.quote.toString()).toNumber(),
-          assetDetails?.decimals || 18,
-          destinationDetails?.decimals || 18,
-        ),
-      )
-        .mul(100)
-        .toString();
+      return getPriceOracle(chain)
+        .getUsdPrice(chain, assetDetails.address)
+        .then(price => price.toBigNumber().toString())
+        .catch(() => '0');
     },
-    [
-      weiAmount,
-      assetDetails?.address,
-      destinationDetails?.address,
-      assetDetails,
-      destinationDetails,
-      chain,
-    ],
+    [assetDetails?.address, chain],
     '0',
   );
 
-  const usdValue = useMemo(() => {
-    if (
-      entry === destination ||
-      (STABLECOINS[chain]?.includes(entry) &&
-        STABLECOINS[chain]?.includes(destination))
-    ) {
-      const amount = Number(fromWei(weiAmount, assetDetails?.decimals || 18));
-
-      return toDisplayPrice(
-        amount,
-        destinationDetails?.decimals || 18,
-        assetDetails?.decimals || 18,
-      ).toString();
-    } else {
-      const amount = Decimal.fromBigNumberString(weiAmount)
-        .mul(fromWei(usdPrice))
-        .toNumber();
-
-      return toDisplayPrice(
-        amount,
-        destinationDetails?.decimals || 18,
-        assetDetails?.decimals || 18,
-      ).toString();
-    }
-  }, [
-    entry,
-    destination,
-    chain,
-    weiAmount,
-    usdPrice,
-    assetDetails?.decimals,
-    destinationDetails?.decimals,
-  ]);
+  const usdValue = useMemo(
+    () =>
+      Decimal.fromBigNumberString(weiAmount || '0')
+        .mul(Decimal.fromBigNumberString(usdPrice))
+        .toString(),
+    [weiAmount, usdPrice],
+  );
 
   return {
     loading,
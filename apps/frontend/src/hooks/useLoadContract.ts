@@ -3,12 +3,13 @@ import { useEffect, useMemo, useState } from 'react';
 import { ContractInterface, ethers } from 'ethers';
 
 import { ContractGroup, getContract } from '@sovryn/contracts';
-import { ChainId, getProvider } from '@sovryn/ethers-provider';
+import { ChainId } from '@sovryn/ethers-provider';
 
 import { RSK_CHAIN_ID } from '../config/chains';
 
 import { useAccount } from './useAccount';
 import { useIsMounted } from './useIsMounted';
+import { useProvider } from './useProvider';
 
 export const useLoadContract = (
   contractName: string,
@@ -22,7 +23,7 @@ export const useLoadContract = (
   const [address, setAddress] = useState<string | undefined>(undefined);
   const [abi, setAbi] = useState<ContractInterface | undefined>(undefined);
 
-  const provider = useMemo(() => getProvider(chain), [chain]);
+  const provider = useProvider(chain);
 
   useEffect(() => {
     getContract(contractName, group, chain)
@@ -11,8 +11,10 @@ import { RSK_CHAIN_ID } from '../config/chains';
 import {
   CacheCallOptions,
   idHash,
+  isPastBlock,
   observeCall,
   startCall,
+  withBlockTag,
 } from '../store/rxjs/provider-cache';
 import { findNativeAsset } from '../utils/asset';
 import { fromWei, decimalic } from '../utils/math';
@@ -65,13 +67,16 @@ export const useNativeAssetBalance = (
     const runAsync = async () => {
       const tokenDetails = findNativeAsset(chainId);
 
-      const hashedArgs = idHash([
-        'balance',
-        chainId,
-        constants.AddressZero,
-        'balanceOf',
-        account,
-      ]);
+      const hashedArgs = withBlockTag(
+        idHash([
+          'balance',
+          chainId,
+          constants.AddressZero,
+          'balanceOf',
+          account,
+        ]),
+        options?.blockTag,
+      );
 
       if (hashedArgs === state.hashedArgs || state.loading) {
         return;
@@ -103,12 +108,14 @@ export const useNativeAssetBalance = (
 
       const callback = () =>
         getProvider(chainId)
-          .getBalance(account)
+          .getBalance(account, options?.blockTag)
           .then(result => result.toString());
 
       startCall(hashedArgs, callback, {
         ...options,
-        blockNumber: options?.blockNumber || block,
+        blockNumber: isPastBlock(options?.blockTag)
+          ? 0
+          : options?.blockNumber || block,
       });
     };
 
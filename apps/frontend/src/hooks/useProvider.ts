@@ -0,0 +1,25 @@
+import { useEffect, useState } from 'react';
+
+import { ChainId, getProvider, observeProvider } from '@sovryn/ethers-provider';
+
+import { RSK_CHAIN_ID } from '../config/chains';
+
+// Provider of the chain, replaced when the chain's connection options change (e.g. custom RPC is set).
+// Objects built from the provider should be rebuilt when it changes, the old one stops polling.
+export const useProvider = (chainId: ChainId = RSK_CHAIN_ID) => {
+  const [provider, setProvider] = useState(() => getProvider(chainId));
+
+  useEffect(() => {
+    setProvider(getProvider(chainId));
+
+    const sub = observeProvider(chainId).subscribe(next => {
+      if (next) {
+        setProvider(next);
+      }
+    });
+
+    return () => sub.unsubscribe();
+  }, [chainId]);
+
+  return provider;
+};
@@ -26,6 +26,9 @@ import './locales/i18n';
 import { router } from './router';
 import './styles/tailwindcss/index.css';
 import { rskClient } from './utils/clients';
+import { loadTokenLists } from './utils/tokenList';
+
+loadTokenLists();
 
 const root = ReactDOM.createRoot(
   document.getElementById('root') as HTMLElement,
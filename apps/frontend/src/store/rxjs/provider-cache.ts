@@ -1,3 +1,4 @@
+import { providers } from 'ethers';
 import { hashMessage } from 'ethers/lib/utils';
 import {
   BehaviorSubject,
@@ -36,6 +37,8 @@ export type CacheCallOptions = {
   fallbackToPreviousResult: boolean;
   // if given block number is higher than current block number, data is considered expired
   blockNumber: number;
+  // block the call reads state at, latest block if not set
+  blockTag: providers.BlockTag;
 };
 
 const INITIAL_STATE: SubjectMap = {};
@@ -44,8 +47,16 @@ const TINY_TTL = 1000 * 30; // 30 seconds
 
 const store = new BehaviorSubject<SubjectMap>(INITIAL_STATE);
 
+// state of a past block never changes, so such calls don't expire
+export const isPastBlock = (blockTag?: providers.BlockTag) =>
+  blockTag !== undefined && blockTag !== 'latest' && blockTag !== 'pending';
+
+// calls reading different blocks are cached separately
+export const withBlockTag = (id: string, blockTag?: providers.BlockTag) =>
+  blockTag !== undefined ? `${id}@${blockTag}` : id;
+
 const mergeOptions = (options: Partial<CacheCallOptions>) => ({
-  ttl: options.ttl ?? DEFAULT_TTL,
+  ttl: options.ttl ?? (isPastBlock(options.blockTag) ? Infinity : DEFAULT_TTL),
   blockNumber: options.blockNumber ?? 0,
   force: options.force ?? false,
   fallbackToPreviousResult: options.fallbackToPreviousResult ?? true,
@@ -1,27 +1,22 @@
-import { contracts } from '@sovryn/contracts';
-import {
-  ChainId,
-  ChainIds,
-  getNetworkByChainId,
-} from '@sovryn/ethers-provider';
+import { listAssets } from '@sovryn/contracts';
+import { ChainId, ChainIds } from '@sovryn/ethers-provider';
 
 import { RSK_CHAIN_ID } from '../config/chains';
 
 export const findAsset = (asset: string, chainId: ChainId) =>
-  contracts.assets[getNetworkByChainId(chainId)]?.find(
+  listAssets(chainId).find(
     item => item.symbol.toLowerCase() === asset.toLowerCase(),
   )!;
 
 export const findAssetByAddress = (address: string, chainId: ChainId) =>
-  contracts.assets[getNetworkByChainId(chainId)]?.find(
+  listAssets(chainId).find(
     item => item.address.toLowerCase() === address.toLowerCase(),
   )!;
 
 export const findNativeAsset = (chainId: ChainId) =>
-  contracts.assets[getNetworkByChainId(chainId)]?.find(item => item.isNative)!;
+  listAssets(chainId).find(item => item.isNative)!;
 
-export const listAssetsOfChain = (chainId: ChainId) =>
-  contracts.assets[getNetworkByChainId(chainId)] || [];
+export const listAssetsOfChain = (chainId: ChainId) => listAssets(chainId);
 
 export const COMMON_SYMBOLS = {
   BTC: 'BTC',
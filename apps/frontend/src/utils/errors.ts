@@ -0,0 +1,20 @@
+import { t } from 'i18next';
+
+import { SovrynError } from '@sovryn/sdk';
+
+import { translations } from '../locales/i18n';
+
+const isSovrynError = (error: unknown): error is SovrynError =>
+  error instanceof Error && error.name === 'SovrynError';
+
+// Translated message for errors thrown by the SDK, or fallback if error has no known code.
+export const getSovrynErrorMessage = (error: unknown, fallback: string) => {
+  if (isSovrynError(error) && error.code in translations.sovrynErrors) {
+    return t(
+      translations.sovrynErrors[
+        error.code as keyof typeof translations.sovrynErrors
+      ],
+    );
+  }
+  return fallback;
+};
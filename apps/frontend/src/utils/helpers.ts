@@ -8,7 +8,7 @@ import resolveConfig from 'tailwindcss/resolveConfig';
 import { EIP1193Provider } from '@sovryn/onboard-common';
 import tailwindConfig from '@sovryn/tailwindcss-config';
 import { Decimalish } from '@sovryn/utils';
-import { Decimal } from '@sovryn/utils';
+import { Decimal, Percent } from '@sovryn/utils';
 
 import { RSK_CHAIN_ID } from '../config/chains';
 
@@ -177,7 +177,7 @@ export const calculateCollateralRatio = (
   collateral: Decimalish,
   debt: Decimalish,
   price: Decimalish,
-) => decimalic(collateral).mul(price).div(debt).mul(100);
+) => Percent.fromRatio(decimalic(collateral).mul(price).div(debt)).toPercent();
 
 export const removeTrailingZerosFromString = (value: string) =>
   value.includes('.') ? value.replace(/\.?0+$/, '') : value;
@@ -2,6 +2,7 @@ import { isBigNumberish } from '@ethersproject/bignumber/lib/bignumber';
 
 import { BigNumberish, BigNumber } from 'ethers';
 import { formatUnits, parseUnits } from 'ethers/lib/utils';
+import i18next from 'i18next';
 
 import { Decimal, Decimalish } from '@sovryn/utils';
 
@@ -88,24 +89,29 @@ export const fromWeiFixed = (
   unitName: BigNumberish = DEFAULT_UNIT,
 ): string => Number(fromWei(value, unitName)).toFixed(decimals);
 
-// todo: refactor to make sure it handles really big bignumber
+// Locale of the i18n language, region of the browser locale is kept if it's the same language.
+export const getNumberLocale = (
+  language: string = i18next.language || navigator.language,
+) =>
+  navigator.language?.split('-')[0] === language.split('-')[0]
+    ? navigator.language
+    : language;
+
 export const formatValue = (
   value: Decimalish,
   precision: number = 0,
   roundUp: boolean = false,
 ) =>
-  decimalic(value)
-    .toNumber()
-    .toLocaleString(navigator.language, {
-      maximumFractionDigits: precision,
-      // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-      //@ts-ignore
-      roundingMode: roundUp ? 'ceil' : 'trunc', // This is an experimental feature with the default value of 'trunc', see https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Intl/NumberFormat/NumberFormat for more information
-    });
-
-export const formatCompactValue = (value: number, precision: number = 0) =>
-  value.toLocaleString(navigator.language, {
-    maximumFractionDigits: precision,
+  decimalic(value).format({
+    locale: getNumberLocale(),
+    precision,
+    rounding: roundUp ? 'ceil' : 'down',
+  });
+
+export const formatCompactValue = (value: Decimalish, precision: number = 0) =>
+  decimalic(value).format({
+    locale: getNumberLocale(),
+    precision,
     notation: 'compact',
   });
 
@@ -119,12 +125,10 @@ export const parseUnitValue = (unitName: BigNumberish): number => {
   return Number(unitName);
 };
 
-export const getLocaleSeparators = () => {
-  const number = 1200.4;
+export const getLocaleSeparators = (locale: string = getNumberLocale()) => {
+  const number = 1234567.8;
 
-  const formattedValue = new Intl.NumberFormat(
-    navigator.language,
-  ).formatToParts(number);
+  const formattedValue = new Intl.NumberFormat(locale).formatToParts(number);
 
   return {
     decimal:
@@ -0,0 +1,20 @@
+import { providers } from 'ethers';
+
+import { ChainId, getProvider } from '@sovryn/ethers-provider';
+import { PriceOracle } from '@sovryn/sdk';
+
+const oracles = new Map<
+  ChainId,
+  { provider: providers.Provider; oracle: PriceOracle }
+>();
+
+// Price oracle is shared per chain, so prices are cached across components.
+// It's rebuilt when the provider of the chain is replaced, e.g. after custom RPC is set.
+export const getPriceOracle = (chainId: ChainId) => {
+  const provider = getProvider(chainId);
+
+  if (oracles.get(chainId)?.provider !== provider) {
+    oracles.set(chainId, { provider, oracle: new PriceOracle(provider) });
+  }
+  return oracles.get(chainId)!.oracle;
+};
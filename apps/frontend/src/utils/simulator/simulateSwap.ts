@@ -0,0 +1,41 @@
+import { BigNumber } from 'ethers';
+
+import { ChainId, ChainIds, getProvider } from '@sovryn/ethers-provider';
+import { TransactionSimulator, localSimulator } from '@sovryn/sdk';
+
+import { ESTIMATOR_URI } from '../../constants/infrastructure';
+import { simulateTx } from './simulateTx';
+import { TxTuple } from './types';
+
+// Runs swap bundles through the external estimator, which supports up to two transactions.
+const estimatorSimulator: TransactionSimulator = async (
+  chainId,
+  transactions,
+) => {
+  const response = await simulateTx(
+    chainId as ChainIds,
+    transactions.map(tx => ({
+      to: tx.to,
+      from: tx.from,
+      input: tx.data,
+      gas: tx.gasLimit ? tx.gasLimit.toNumber() : 0,
+      gas_price: '0',
+      value: tx.value.toString(),
+    })) as TxTuple,
+  );
+
+  return response.map(({ transaction }) => ({
+    simulated: true,
+    status: transaction.status,
+    gasUsed: BigNumber.from(transaction.gas_used),
+    logs: (transaction.transaction_info.logs ?? []).map(log => log.raw),
+    error:
+      transaction.error_message ??
+      transaction.error_info?.error_message ??
+      undefined,
+  }));
+};
+
+// Estimator is not available on every environment, calls against the node are used instead.
+export const getSwapSimulator = (chainId: ChainId): TransactionSimulator =>
+  ESTIMATOR_URI ? estimatorSimulator : localSimulator(getProvider(chainId));
@@ -0,0 +1,15 @@
+import { loadTokenList } from '@sovryn/contracts';
+
+import { BOB_CHAIN_ID } from '../config/chains';
+
+import { TOKEN_LIST_URL } from '../constants/infrastructure';
+
+// Merge tokens of the configured token list into the asset registry, so new BOB tokens don't require a release.
+// Invalid tokens of the list are skipped and the bundled assets stay in use if the list fails to load.
+export const loadTokenLists = () => {
+  if (!TOKEN_LIST_URL) {
+    return;
+  }
+
+  loadTokenList(TOKEN_LIST_URL, BOB_CHAIN_ID).catch(() => {});
+};
@@ -0,0 +1,279 @@
+/**
+ * Generates typed contract interfaces (TypeChain ethers-v5 style) from the JSON ABIs in src/abis, and the
+ * ProtocolContracts map of their bindings from the protocol registry in src/contracts/protocol.
+ * Run `yarn generate:types` after adding or updating an ABI.
+ */
+const fs = require('fs');
+const path = require('path');
+
+const ABI_DIR = path.resolve(__dirname, '../src/abis');
+const PROTOCOL_DIR = path.resolve(__dirname, '../src/contracts/protocol');
+const OUT_DIR = path.resolve(__dirname, '../src/typechain');
+
+const HEADER = `/* Autogenerated file. Do not edit manually. */
+/* eslint-disable */
+`;
+
+const RESERVED = ['default', 'delete', 'function', 'in', 'new', 'overrides'];
+
+const toTypeName = file => {
+  const name = path.basename(file, '.json');
+  return name.charAt(0).toUpperCase() + name.slice(1);
+};
+
+const paramName = (param, index) => {
+  const name = param.name || `arg${index}`;
+  return RESERVED.includes(name) ? `${name}_` : name;
+};
+
+const splitArray = type => {
+  const match = type.match(/^(.*)\[(\d*)\]$/);
+  return match ? match[1] : undefined;
+};
+
+const arrayOf = type => (type.includes(' ') ? `(${type})[]` : `${type}[]`);
+
+const structType = (components, mapper) =>
+  `{ ${components
+    .map(
+      (component, index) =>
+        `${paramName(component, index)}: ${mapper(component)}`,
+    )
+    .join('; ')} }`;
+
+const inputType = param => {
+  const item = splitArray(param.type);
+  if (item !== undefined) {
+    return arrayOf(inputType({ ...param, type: item }));
+  }
+  if (param.type === 'tuple') {
+    return structType(param.components, inputType);
+  }
+  if (/^u?int/.test(param.type)) {
+    return 'BigNumberish';
+  }
+  if (/^bytes/.test(param.type)) {
+    return 'BytesLike';
+  }
+  if (param.type === 'bool') {
+    return 'boolean';
+  }
+  return 'string';
+};
+
+// Output tuples are arrays with named members, same as ethers returns them.
+const outputTuple = (params, mapper) =>
+  `[${params.map(mapper).join(', ')}]` +
+  (params.some(param => param.name)
+    ? ` & ${structType(
+        params.filter(param => param.name),
+        mapper,
+      )}`
+    : '');
+
+const outputType = param => {
+  const item = splitArray(param.type);
+  if (item !== undefined) {
+    return arrayOf(outputType({ ...param, type: item }));
+  }
+  if (param.type === 'tuple') {
+    return outputTuple(param.components, outputType);
+  }
+  // ethers decodes integers up to 48 bits as numbers
+  const int = param.type.match(/^u?int(\d*)$/);
+  if (int) {
+    return Number(int[1] || 256) <= 48 ? 'number' : 'BigNumber';
+  }
+  if (param.type === 'bool') {
+    return 'boolean';
+  }
+  return 'string';
+};
+
+const signature = fn => `${fn.name}(${fn.inputs.map(formatParam).join(',')})`;
+
+const formatParam = param => {
+  if (param.type.startsWith('tuple')) {
+    return `(${param.components.map(formatParam).join(',')})${param.type.slice(
+      5,
+    )}`;
+  }
+  return param.type;
+};
+
+const isView = fn =>
+  fn.stateMutability === 'view' ||
+  fn.stateMutability === 'pure' ||
+  fn.constant === true;
+
+const isPayable = fn => fn.stateMutability === 'payable' || fn.payable === true;
+
+const overridesType = fn =>
+  isView(fn)
+    ? 'CallOverrides'
+    : isPayable(fn)
+    ? 'PayableOverrides & { from?: string }'
+    : 'Overrides & { from?: string }';
+
+const args = (fn, overrides) =>
+  [
+    ...fn.inputs.map(
+      (input, index) => `${paramName(input, index)}: ${inputType(input)}`,
+    ),
+    `overrides?: ${overrides}`,
+  ].join(', ');
+
+const callResult = fn => {
+  const outputs = fn.outputs || [];
+  if (outputs.length === 0) {
+    return 'void';
+  }
+  if (outputs.length === 1) {
+    return outputType(outputs[0]);
+  }
+  return outputTuple(outputs, outputType);
+};
+
+const method = (key, fn, overrides, result) =>
+  `    ${key.includes('(') ? `'${key}'` : key}(${args(
+    fn,
+    overrides,
+  )}): Promise<${result}>;`;
+
+// Overloaded functions are only available by their full signature.
+const functionKeys = functions => {
+  const counts = functions.reduce((acc, fn) => {
+    acc[fn.name] = (acc[fn.name] || 0) + 1;
+    return acc;
+  }, {});
+
+  return functions.map(fn => ({
+    key: counts[fn.name] > 1 ? signature(fn) : fn.name,
+    fn,
+  }));
+};
+
+const section = (name, keys, overrides, result) =>
+  `  ${name}: {\n${keys
+    .map(({ key, fn }) => method(key, fn, overrides(fn), result(fn)))
+    .join('\n')}\n  };`;
+
+const generate = (typeName, abi) => {
+  const keys = functionKeys(abi.filter(item => item.type === 'function'));
+  const bareKeys = keys.filter(({ key }) => !key.includes('('));
+
+  const direct = bareKeys
+    .map(({ key, fn }) =>
+      method(
+        key,
+        fn,
+        overridesType(fn),
+        isView(fn) ? callResult(fn) : 'ContractTransaction',
+      ).slice(2),
+    )
+    .join('\n');
+
+  return `${HEADER}import type {
+  BigNumber,
+  BigNumberish,
+  BytesLike,
+  CallOverrides,
+  Contract,
+  ContractTransaction,
+  Overrides,
+  PayableOverrides,
+  PopulatedTransaction,
+} from 'ethers';
+
+export interface ${typeName} extends Contract {
+${section('functions', keys, overridesType, fn =>
+  isView(fn)
+    ? outputTuple(fn.outputs || [], outputType)
+    : 'ContractTransaction',
+)}
+
+${section('callStatic', keys, () => 'CallOverrides', callResult)}
+
+${section('estimateGas', keys, overridesType, () => 'BigNumber')}
+
+${section(
+  'populateTransaction',
+  keys,
+  overridesType,
+  () => 'PopulatedTransaction',
+)}
+
+${direct}
+}
+`;
+};
+
+// Registry entries of the protocol contracts with their ABI file, e.g. `staking: { address, getAbi: ... 'staking.json' }`.
+const PROTOCOL_ENTRY =
+  /(\w+):\s*{[^{}]*?import\(\s*'\.\.\/\.\.\/abis\/([\w-]+)\.json'\s*\)/g;
+
+// Bindings of the protocol registry keys, keys with different ABIs on different networks get a union.
+const generateProtocolContracts = typeNames => {
+  const bindings = {};
+
+  fs.readdirSync(PROTOCOL_DIR)
+    .filter(file => file.endsWith('.ts'))
+    .sort()
+    .forEach(file => {
+      const source = fs.readFileSync(path.join(PROTOCOL_DIR, file), 'utf8');
+      for (const [, key, abi] of source.matchAll(PROTOCOL_ENTRY)) {
+        const typeName = toTypeName(abi);
+        if (!typeNames.includes(typeName)) {
+          throw new Error(`ABI ${abi}.json of ${key} in ${file} not found`);
+        }
+        bindings[key] = [...new Set([...(bindings[key] || []), typeName])];
+      }
+    });
+
+  const keys = Object.keys(bindings).sort();
+  const imports = [...new Set(keys.flatMap(key => bindings[key]))].sort();
+
+  return `${HEADER}${imports
+    .map(typeName => `import type { ${typeName} } from './${typeName}';`)
+    .join('\n')}
+
+// Bindings of protocol contracts by their registry key, generated from contracts/protocol.
+export type ProtocolContracts = {
+${keys.map(key => `  ${key}: ${bindings[key].sort().join(' | ')};`).join('\n')}
+};
+`;
+};
+
+const files = fs
+  .readdirSync(ABI_DIR)
+  .filter(file => file.endsWith('.json'))
+  .sort();
+
+fs.mkdirSync(OUT_DIR, { recursive: true });
+
+const typeNames = files.map(file => {
+  const json = JSON.parse(fs.readFileSync(path.join(ABI_DIR, file), 'utf8'));
+  const abi = Array.isArray(json) ? json : json.abi;
+  const typeName = toTypeName(file);
+
+  fs.writeFileSync(
+    path.join(OUT_DIR, `${typeName}.ts`),
+    generate(typeName, abi),
+  );
+
+  return typeName;
+});
+
+fs.writeFileSync(
+  path.join(OUT_DIR, 'ProtocolContracts.ts'),
+  generateProtocolContracts(typeNames),
+);
+
+fs.writeFileSync(
+  path.join(OUT_DIR, 'index.ts'),
+  `${HEADER}${[...typeNames, 'ProtocolContracts']
+    .map(typeName => `export type { ${typeName} } from './${typeName}';`)
+    .join('\n')}\n`,
+);
+
+console.log(`Generated ${typeNames.length} contract types in ${OUT_DIR}`);
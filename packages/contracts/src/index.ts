@@ -1,3 +1,4 @@
 export * from './contracts';
 export * from './types';
+export * from './typechain';
 export * from './utils';
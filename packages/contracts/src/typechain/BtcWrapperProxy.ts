@@ -0,0 +1,354 @@
+/* Autogenerated file. Do not edit manually. */
+
+/* eslint-disable */
+import type {
+  BigNumber,
+  BigNumberish,
+  BytesLike,
+  CallOverrides,
+  Contract,
+  ContractTransaction,
+  Overrides,
+  PayableOverrides,
+  PopulatedTransaction,
+} from 'ethers';
+
+export interface BtcWrapperProxy extends Contract {
+  functions: {
+    acceptOwnership(
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    liquidityMiningContract(overrides?: CallOverrides): Promise<[string]>;
+    newOwner(overrides?: CallOverrides): Promise<[string]>;
+    onlyOwnerCanUpdateRegistry(overrides?: CallOverrides): Promise<[boolean]>;
+    owner(overrides?: CallOverrides): Promise<[string]>;
+    prevRegistry(overrides?: CallOverrides): Promise<[string]>;
+    registry(overrides?: CallOverrides): Promise<[string]>;
+    restoreRegistry(
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    restrictRegistryUpdate(
+      _onlyOwnerCanUpdateRegistry: boolean,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    sovrynSwapNetworkAddress(overrides?: CallOverrides): Promise<[string]>;
+    transferOwnership(
+      _newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    updateRegistry(
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    wrbtcTokenAddress(overrides?: CallOverrides): Promise<[string]>;
+    addLiquidityToV2(
+      _liquidityPoolConverterAddress: string,
+      _reserveAddress: string,
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    addLiquidityToV1(
+      _liquidityPoolConverterAddress: string,
+      _reserveTokens: string[],
+      _reserveAmounts: BigNumberish[],
+      _minReturn: BigNumberish,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    removeLiquidityFromV2(
+      _liquidityPoolConverterAddress: string,
+      _reserveAddress: string,
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    removeLiquidityFromV1(
+      _liquidityPoolConverterAddress: string,
+      _amount: BigNumberish,
+      _reserveTokens: string[],
+      _reserveMinReturnAmounts: BigNumberish[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    convertByPath(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    withdraw(
+      token: string,
+      to: string,
+      amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+  };
+
+  callStatic: {
+    acceptOwnership(overrides?: CallOverrides): Promise<void>;
+    liquidityMiningContract(overrides?: CallOverrides): Promise<string>;
+    newOwner(overrides?: CallOverrides): Promise<string>;
+    onlyOwnerCanUpdateRegistry(overrides?: CallOverrides): Promise<boolean>;
+    owner(overrides?: CallOverrides): Promise<string>;
+    prevRegistry(overrides?: CallOverrides): Promise<string>;
+    registry(overrides?: CallOverrides): Promise<string>;
+    restoreRegistry(overrides?: CallOverrides): Promise<void>;
+    restrictRegistryUpdate(
+      _onlyOwnerCanUpdateRegistry: boolean,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    sovrynSwapNetworkAddress(overrides?: CallOverrides): Promise<string>;
+    transferOwnership(
+      _newOwner: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    updateRegistry(overrides?: CallOverrides): Promise<void>;
+    wrbtcTokenAddress(overrides?: CallOverrides): Promise<string>;
+    addLiquidityToV2(
+      _liquidityPoolConverterAddress: string,
+      _reserveAddress: string,
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    addLiquidityToV1(
+      _liquidityPoolConverterAddress: string,
+      _reserveTokens: string[],
+      _reserveAmounts: BigNumberish[],
+      _minReturn: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    removeLiquidityFromV2(
+      _liquidityPoolConverterAddress: string,
+      _reserveAddress: string,
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    removeLiquidityFromV1(
+      _liquidityPoolConverterAddress: string,
+      _amount: BigNumberish,
+      _reserveTokens: string[],
+      _reserveMinReturnAmounts: BigNumberish[],
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    convertByPath(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    withdraw(
+      token: string,
+      to: string,
+      amount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+  };
+
+  estimateGas: {
+    acceptOwnership(
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    liquidityMiningContract(overrides?: CallOverrides): Promise<BigNumber>;
+    newOwner(overrides?: CallOverrides): Promise<BigNumber>;
+    onlyOwnerCanUpdateRegistry(overrides?: CallOverrides): Promise<BigNumber>;
+    owner(overrides?: CallOverrides): Promise<BigNumber>;
+    prevRegistry(overrides?: CallOverrides): Promise<BigNumber>;
+    registry(overrides?: CallOverrides): Promise<BigNumber>;
+    restoreRegistry(
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    restrictRegistryUpdate(
+      _onlyOwnerCanUpdateRegistry: boolean,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    sovrynSwapNetworkAddress(overrides?: CallOverrides): Promise<BigNumber>;
+    transferOwnership(
+      _newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    updateRegistry(
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    wrbtcTokenAddress(overrides?: CallOverrides): Promise<BigNumber>;
+    addLiquidityToV2(
+      _liquidityPoolConverterAddress: string,
+      _reserveAddress: string,
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<BigNumber>;
+    addLiquidityToV1(
+      _liquidityPoolConverterAddress: string,
+      _reserveTokens: string[],
+      _reserveAmounts: BigNumberish[],
+      _minReturn: BigNumberish,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<BigNumber>;
+    removeLiquidityFromV2(
+      _liquidityPoolConverterAddress: string,
+      _reserveAddress: string,
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    removeLiquidityFromV1(
+      _liquidityPoolConverterAddress: string,
+      _amount: BigNumberish,
+      _reserveTokens: string[],
+      _reserveMinReturnAmounts: BigNumberish[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    convertByPath(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<BigNumber>;
+    withdraw(
+      token: string,
+      to: string,
+      amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    acceptOwnership(
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    liquidityMiningContract(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    newOwner(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    onlyOwnerCanUpdateRegistry(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    owner(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    prevRegistry(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    registry(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    restoreRegistry(
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    restrictRegistryUpdate(
+      _onlyOwnerCanUpdateRegistry: boolean,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    sovrynSwapNetworkAddress(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    transferOwnership(
+      _newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    updateRegistry(
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    wrbtcTokenAddress(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    addLiquidityToV2(
+      _liquidityPoolConverterAddress: string,
+      _reserveAddress: string,
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    addLiquidityToV1(
+      _liquidityPoolConverterAddress: string,
+      _reserveTokens: string[],
+      _reserveAmounts: BigNumberish[],
+      _minReturn: BigNumberish,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    removeLiquidityFromV2(
+      _liquidityPoolConverterAddress: string,
+      _reserveAddress: string,
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    removeLiquidityFromV1(
+      _liquidityPoolConverterAddress: string,
+      _amount: BigNumberish,
+      _reserveTokens: string[],
+      _reserveMinReturnAmounts: BigNumberish[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    convertByPath(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    withdraw(
+      token: string,
+      to: string,
+      amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+  };
+
+  acceptOwnership(
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  liquidityMiningContract(overrides?: CallOverrides): Promise<string>;
+  newOwner(overrides?: CallOverrides): Promise<string>;
+  onlyOwnerCanUpdateRegistry(overrides?: CallOverrides): Promise<boolean>;
+  owner(overrides?: CallOverrides): Promise<string>;
+  prevRegistry(overrides?: CallOverrides): Promise<string>;
+  registry(overrides?: CallOverrides): Promise<string>;
+  restoreRegistry(
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  restrictRegistryUpdate(
+    _onlyOwnerCanUpdateRegistry: boolean,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  sovrynSwapNetworkAddress(overrides?: CallOverrides): Promise<string>;
+  transferOwnership(
+    _newOwner: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  updateRegistry(
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  wrbtcTokenAddress(overrides?: CallOverrides): Promise<string>;
+  addLiquidityToV2(
+    _liquidityPoolConverterAddress: string,
+    _reserveAddress: string,
+    _amount: BigNumberish,
+    _minReturn: BigNumberish,
+    overrides?: PayableOverrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  addLiquidityToV1(
+    _liquidityPoolConverterAddress: string,
+    _reserveTokens: string[],
+    _reserveAmounts: BigNumberish[],
+    _minReturn: BigNumberish,
+    overrides?: PayableOverrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  removeLiquidityFromV2(
+    _liquidityPoolConverterAddress: string,
+    _reserveAddress: string,
+    _amount: BigNumberish,
+    _minReturn: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  removeLiquidityFromV1(
+    _liquidityPoolConverterAddress: string,
+    _amount: BigNumberish,
+    _reserveTokens: string[],
+    _reserveMinReturnAmounts: BigNumberish[],
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  convertByPath(
+    _path: string[],
+    _amount: BigNumberish,
+    _minReturn: BigNumberish,
+    overrides?: PayableOverrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  withdraw(
+    token: string,
+    to: string,
+    amount: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+}
@@ -0,0 +1,212 @@
+/* Autogenerated file. Do not edit manually. */
+
+/* eslint-disable */
+import type {
+  BigNumber,
+  BigNumberish,
+  BytesLike,
+  CallOverrides,
+  Contract,
+  ContractTransaction,
+  Overrides,
+  PayableOverrides,
+  PopulatedTransaction,
+} from 'ethers';
+
+export interface Erc20 extends Contract {
+  functions: {
+    allowance(
+      _owner: string,
+      _spender: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    approve(
+      _spender: string,
+      _value: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    balanceOf(_owner: string, overrides?: CallOverrides): Promise<[BigNumber]>;
+    burn(
+      _who: string,
+      _value: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    decimals(overrides?: CallOverrides): Promise<[number]>;
+    mint(
+      _to: string,
+      _value: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    name(overrides?: CallOverrides): Promise<[string]>;
+    symbol(overrides?: CallOverrides): Promise<[string]>;
+    totalSupply(overrides?: CallOverrides): Promise<[BigNumber]>;
+    transfer(
+      _to: string,
+      _value: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    transferFrom(
+      _from: string,
+      _to: string,
+      _value: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+  };
+
+  callStatic: {
+    allowance(
+      _owner: string,
+      _spender: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    approve(
+      _spender: string,
+      _value: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<boolean>;
+    balanceOf(_owner: string, overrides?: CallOverrides): Promise<BigNumber>;
+    burn(
+      _who: string,
+      _value: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    decimals(overrides?: CallOverrides): Promise<number>;
+    mint(
+      _to: string,
+      _value: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    name(overrides?: CallOverrides): Promise<string>;
+    symbol(overrides?: CallOverrides): Promise<string>;
+    totalSupply(overrides?: CallOverrides): Promise<BigNumber>;
+    transfer(
+      _to: string,
+      _value: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<boolean>;
+    transferFrom(
+      _from: string,
+      _to: string,
+      _value: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<boolean>;
+  };
+
+  estimateGas: {
+    allowance(
+      _owner: string,
+      _spender: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    approve(
+      _spender: string,
+      _value: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    balanceOf(_owner: string, overrides?: CallOverrides): Promise<BigNumber>;
+    burn(
+      _who: string,
+      _value: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    decimals(overrides?: CallOverrides): Promise<BigNumber>;
+    mint(
+      _to: string,
+      _value: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    name(overrides?: CallOverrides): Promise<BigNumber>;
+    symbol(overrides?: CallOverrides): Promise<BigNumber>;
+    totalSupply(overrides?: CallOverrides): Promise<BigNumber>;
+    transfer(
+      _to: string,
+      _value: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    transferFrom(
+      _from: string,
+      _to: string,
+      _value: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    allowance(
+      _owner: string,
+      _spender: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    approve(
+      _spender: string,
+      _value: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    balanceOf(
+      _owner: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    burn(
+      _who: string,
+      _value: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    decimals(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    mint(
+      _to: string,
+      _value: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    name(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    symbol(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    totalSupply(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    transfer(
+      _to: string,
+      _value: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    transferFrom(
+      _from: string,
+      _to: string,
+      _value: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+  };
+
+  allowance(
+    _owner: string,
+    _spender: string,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  approve(
+    _spender: string,
+    _value: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  balanceOf(_owner: string, overrides?: CallOverrides): Promise<BigNumber>;
+  burn(
+    _who: string,
+    _value: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  decimals(overrides?: CallOverrides): Promise<number>;
+  mint(
+    _to: string,
+    _value: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  name(overrides?: CallOverrides): Promise<string>;
+  symbol(overrides?: CallOverrides): Promise<string>;
+  totalSupply(overrides?: CallOverrides): Promise<BigNumber>;
+  transfer(
+    _to: string,
+    _value: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  transferFrom(
+    _from: string,
+    _to: string,
+    _value: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+}
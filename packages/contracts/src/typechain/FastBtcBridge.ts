@@ -0,0 +1,940 @@
+/* Autogenerated file. Do not edit manually. */
+
+/* eslint-disable */
+import type {
+  BigNumber,
+  BigNumberish,
+  BytesLike,
+  CallOverrides,
+  Contract,
+  ContractTransaction,
+  Overrides,
+  PayableOverrides,
+  PopulatedTransaction,
+} from 'ethers';
+
+export interface FastBtcBridge extends Contract {
+  functions: {
+    DYNAMIC_FEE_DIVISOR(overrides?: CallOverrides): Promise<[BigNumber]>;
+    MAXIMUM_VALID_NONCE(overrides?: CallOverrides): Promise<[number]>;
+    MAX_BASE_FEE_SATOSHI(overrides?: CallOverrides): Promise<[BigNumber]>;
+    SATOSHI_DIVISOR(overrides?: CallOverrides): Promise<[BigNumber]>;
+    accessControl(overrides?: CallOverrides): Promise<[string]>;
+    encodeBridgeUserData(
+      rskAddress: string,
+      btcAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    addFeeStructure(
+      feeStructureIndex: BigNumberish,
+      newBaseFeeSatoshi: BigNumberish,
+      newDynamicFee: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    baseFeeSatoshi(overrides?: CallOverrides): Promise<[number]>;
+    btcAddressValidator(overrides?: CallOverrides): Promise<[string]>;
+    calculateCurrentFeeSatoshi(
+      amountSatoshi: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    calculateCurrentFeeWei(
+      amountWei: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    currentFeeStructureIndex(overrides?: CallOverrides): Promise<[number]>;
+    dynamicFee(overrides?: CallOverrides): Promise<[number]>;
+    federators(
+      overrides?: CallOverrides,
+    ): Promise<[string[]] & { addresses: string[] }>;
+    feeStructures(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<
+      [number, number] & { baseFeeSatoshi: number; dynamicFee: number }
+    >;
+    freeze(
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    frozen(overrides?: CallOverrides): Promise<[boolean]>;
+    getNextNonce(
+      btcAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<[number]>;
+    getTransfer(
+      btcAddress: string,
+      nonce: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<
+      [
+        [string, number, number, number, number, number, string] & {
+          rskAddress: string;
+          status: number;
+          nonce: number;
+          feeStructureIndex: number;
+          blockNumber: number;
+          totalAmountSatoshi: number;
+          btcAddress: string;
+        },
+      ] & {
+        transfer: [string, number, number, number, number, number, string] & {
+          rskAddress: string;
+          status: number;
+          nonce: number;
+          feeStructureIndex: number;
+          blockNumber: number;
+          totalAmountSatoshi: number;
+          btcAddress: string;
+        };
+      }
+    >;
+    getTransferBatchUpdateHash(
+      transferIds: BytesLike[],
+      newStatus: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[string]>;
+    getTransferBatchUpdateHashWithTxHash(
+      bitcoinTxHash: BytesLike,
+      transferIds: BytesLike[],
+      newStatus: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[string]>;
+    getTransferByTransferId(
+      transferId: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<
+      [
+        [string, number, number, number, number, number, string] & {
+          rskAddress: string;
+          status: number;
+          nonce: number;
+          feeStructureIndex: number;
+          blockNumber: number;
+          totalAmountSatoshi: number;
+          btcAddress: string;
+        },
+      ] & {
+        transfer: [string, number, number, number, number, number, string] & {
+          rskAddress: string;
+          status: number;
+          nonce: number;
+          feeStructureIndex: number;
+          blockNumber: number;
+          totalAmountSatoshi: number;
+          btcAddress: string;
+        };
+      }
+    >;
+    getTransferId(
+      btcAddress: string,
+      nonce: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[string]>;
+    getTransfers(
+      btcAddresses: string[],
+      nonces: BigNumberish[],
+      overrides?: CallOverrides,
+    ): Promise<
+      [
+        ([string, number, number, number, number, number, string] & {
+          rskAddress: string;
+          status: number;
+          nonce: number;
+          feeStructureIndex: number;
+          blockNumber: number;
+          totalAmountSatoshi: number;
+          btcAddress: string;
+        })[],
+      ] & {
+        ret: ([string, number, number, number, number, number, string] & {
+          rskAddress: string;
+          status: number;
+          nonce: number;
+          feeStructureIndex: number;
+          blockNumber: number;
+          totalAmountSatoshi: number;
+          btcAddress: string;
+        })[];
+      }
+    >;
+    getTransfersByTransferId(
+      transferIds: BytesLike[],
+      overrides?: CallOverrides,
+    ): Promise<
+      [
+        ([string, number, number, number, number, number, string] & {
+          rskAddress: string;
+          status: number;
+          nonce: number;
+          feeStructureIndex: number;
+          blockNumber: number;
+          totalAmountSatoshi: number;
+          btcAddress: string;
+        })[],
+      ] & {
+        ret: ([string, number, number, number, number, number, string] & {
+          rskAddress: string;
+          status: number;
+          nonce: number;
+          feeStructureIndex: number;
+          blockNumber: number;
+          totalAmountSatoshi: number;
+          btcAddress: string;
+        })[];
+      }
+    >;
+    isValidBtcAddress(
+      btcAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<[boolean]>;
+    markTransfersAsMined(
+      transferIds: BytesLike[],
+      signatures: BytesLike[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    markTransfersAsSending(
+      bitcoinTxHash: BytesLike,
+      transferIds: BytesLike[],
+      signatures: BytesLike[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    maxTransferSatoshi(overrides?: CallOverrides): Promise<[number]>;
+    minTransferSatoshi(overrides?: CallOverrides): Promise<[number]>;
+    nextNonces(arg0: string, overrides?: CallOverrides): Promise<[number]>;
+    pause(
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    paused(overrides?: CallOverrides): Promise<[boolean]>;
+    refundTransfers(
+      transferIds: BytesLike[],
+      signatures: BytesLike[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setBtcAddressValidator(
+      newBtcAddressValidator: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setCurrentFeeStructure(
+      feeStructureIndex: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setMaxTransferSatoshi(
+      newMaxTransferSatoshi: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setMinTransferSatoshi(
+      newMinTransferSatoshi: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    transferToBtc(
+      btcAddress: string,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    transfers(
+      arg0: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<
+      [string, number, number, number, number, number, string] & {
+        rskAddress: string;
+        status: number;
+        nonce: number;
+        feeStructureIndex: number;
+        blockNumber: number;
+        totalAmountSatoshi: number;
+        btcAddress: string;
+      }
+    >;
+    unfreeze(
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    unpause(
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    withdrawRbtc(
+      amount: BigNumberish,
+      receiver: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    withdrawTokens(
+      token: string,
+      amount: BigNumberish,
+      receiver: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+  };
+
+  callStatic: {
+    DYNAMIC_FEE_DIVISOR(overrides?: CallOverrides): Promise<BigNumber>;
+    MAXIMUM_VALID_NONCE(overrides?: CallOverrides): Promise<number>;
+    MAX_BASE_FEE_SATOSHI(overrides?: CallOverrides): Promise<BigNumber>;
+    SATOSHI_DIVISOR(overrides?: CallOverrides): Promise<BigNumber>;
+    accessControl(overrides?: CallOverrides): Promise<string>;
+    encodeBridgeUserData(
+      rskAddress: string,
+      btcAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<string>;
+    addFeeStructure(
+      feeStructureIndex: BigNumberish,
+      newBaseFeeSatoshi: BigNumberish,
+      newDynamicFee: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    baseFeeSatoshi(overrides?: CallOverrides): Promise<number>;
+    btcAddressValidator(overrides?: CallOverrides): Promise<string>;
+    calculateCurrentFeeSatoshi(
+      amountSatoshi: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    calculateCurrentFeeWei(
+      amountWei: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    currentFeeStructureIndex(overrides?: CallOverrides): Promise<number>;
+    dynamicFee(overrides?: CallOverrides): Promise<number>;
+    federators(overrides?: CallOverrides): Promise<string[]>;
+    feeStructures(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<
+      [number, number] & { baseFeeSatoshi: number; dynamicFee: number }
+    >;
+    freeze(overrides?: CallOverrides): Promise<void>;
+    frozen(overrides?: CallOverrides): Promise<boolean>;
+    getNextNonce(
+      btcAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<number>;
+    getTransfer(
+      btcAddress: string,
+      nonce: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<
+      [string, number, number, number, number, number, string] & {
+        rskAddress: string;
+        status: number;
+        nonce: number;
+        feeStructureIndex: number;
+        blockNumber: number;
+        totalAmountSatoshi: number;
+        btcAddress: string;
+      }
+    >;
+    getTransferBatchUpdateHash(
+      transferIds: BytesLike[],
+      newStatus: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<string>;
+    getTransferBatchUpdateHashWithTxHash(
+      bitcoinTxHash: BytesLike,
+      transferIds: BytesLike[],
+      newStatus: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<string>;
+    getTransferByTransferId(
+      transferId: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<
+      [string, number, number, number, number, number, string] & {
+        rskAddress: string;
+        status: number;
+        nonce: number;
+        feeStructureIndex: number;
+        blockNumber: number;
+        totalAmountSatoshi: number;
+        btcAddress: string;
+      }
+    >;
+    getTransferId(
+      btcAddress: string,
+      nonce: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<string>;
+    getTransfers(
+      btcAddresses: string[],
+      nonces: BigNumberish[],
+      overrides?: CallOverrides,
+    ): Promise<
+      ([string, number, number, number, number, number, string] & {
+        rskAddress: string;
+        status: number;
+        nonce: number;
+        feeStructureIndex: number;
+        blockNumber: number;
+        totalAmountSatoshi: number;
+        btcAddress: string;
+      })[]
+    >;
+    getTransfersByTransferId(
+      transferIds: BytesLike[],
+      overrides?: CallOverrides,
+    ): Promise<
+      ([string, number, number, number, number, number, string] & {
+        rskAddress: string;
+        status: number;
+        nonce: number;
+        feeStructureIndex: number;
+        blockNumber: number;
+        totalAmountSatoshi: number;
+        btcAddress: string;
+      })[]
+    >;
+    isValidBtcAddress(
+      btcAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<boolean>;
+    markTransfersAsMined(
+      transferIds: BytesLike[],
+      signatures: BytesLike[],
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    markTransfersAsSending(
+      bitcoinTxHash: BytesLike,
+      transferIds: BytesLike[],
+      signatures: BytesLike[],
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    maxTransferSatoshi(overrides?: CallOverrides): Promise<number>;
+    minTransferSatoshi(overrides?: CallOverrides): Promise<number>;
+    nextNonces(arg0: string, overrides?: CallOverrides): Promise<number>;
+    pause(overrides?: CallOverrides): Promise<void>;
+    paused(overrides?: CallOverrides): Promise<boolean>;
+    refundTransfers(
+      transferIds: BytesLike[],
+      signatures: BytesLike[],
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setBtcAddressValidator(
+      newBtcAddressValidator: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setCurrentFeeStructure(
+      feeStructureIndex: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setMaxTransferSatoshi(
+      newMaxTransferSatoshi: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setMinTransferSatoshi(
+      newMinTransferSatoshi: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    transferToBtc(btcAddress: string, overrides?: CallOverrides): Promise<void>;
+    transfers(
+      arg0: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<
+      [string, number, number, number, number, number, string] & {
+        rskAddress: string;
+        status: number;
+        nonce: number;
+        feeStructureIndex: number;
+        blockNumber: number;
+        totalAmountSatoshi: number;
+        btcAddress: string;
+      }
+    >;
+    unfreeze(overrides?: CallOverrides): Promise<void>;
+    unpause(overrides?: CallOverrides): Promise<void>;
+    withdrawRbtc(
+      amount: BigNumberish,
+      receiver: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    withdrawTokens(
+      token: string,
+      amount: BigNumberish,
+      receiver: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+  };
+
+  estimateGas: {
+    DYNAMIC_FEE_DIVISOR(overrides?: CallOverrides): Promise<BigNumber>;
+    MAXIMUM_VALID_NONCE(overrides?: CallOverrides): Promise<BigNumber>;
+    MAX_BASE_FEE_SATOSHI(overrides?: CallOverrides): Promise<BigNumber>;
+    SATOSHI_DIVISOR(overrides?: CallOverrides): Promise<BigNumber>;
+    accessControl(overrides?: CallOverrides): Promise<BigNumber>;
+    encodeBridgeUserData(
+      rskAddress: string,
+      btcAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    addFeeStructure(
+      feeStructureIndex: BigNumberish,
+      newBaseFeeSatoshi: BigNumberish,
+      newDynamicFee: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    baseFeeSatoshi(overrides?: CallOverrides): Promise<BigNumber>;
+    btcAddressValidator(overrides?: CallOverrides): Promise<BigNumber>;
+    calculateCurrentFeeSatoshi(
+      amountSatoshi: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    calculateCurrentFeeWei(
+      amountWei: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    currentFeeStructureIndex(overrides?: CallOverrides): Promise<BigNumber>;
+    dynamicFee(overrides?: CallOverrides): Promise<BigNumber>;
+    federators(overrides?: CallOverrides): Promise<BigNumber>;
+    feeStructures(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    freeze(overrides?: Overrides & { from?: string }): Promise<BigNumber>;
+    frozen(overrides?: CallOverrides): Promise<BigNumber>;
+    getNextNonce(
+      btcAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getTransfer(
+      btcAddress: string,
+      nonce: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getTransferBatchUpdateHash(
+      transferIds: BytesLike[],
+      newStatus: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getTransferBatchUpdateHashWithTxHash(
+      bitcoinTxHash: BytesLike,
+      transferIds: BytesLike[],
+      newStatus: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getTransferByTransferId(
+      transferId: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getTransferId(
+      btcAddress: string,
+      nonce: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getTransfers(
+      btcAddresses: string[],
+      nonces: BigNumberish[],
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getTransfersByTransferId(
+      transferIds: BytesLike[],
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    isValidBtcAddress(
+      btcAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    markTransfersAsMined(
+      transferIds: BytesLike[],
+      signatures: BytesLike[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    markTransfersAsSending(
+      bitcoinTxHash: BytesLike,
+      transferIds: BytesLike[],
+      signatures: BytesLike[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    maxTransferSatoshi(overrides?: CallOverrides): Promise<BigNumber>;
+    minTransferSatoshi(overrides?: CallOverrides): Promise<BigNumber>;
+    nextNonces(arg0: string, overrides?: CallOverrides): Promise<BigNumber>;
+    pause(overrides?: Overrides & { from?: string }): Promise<BigNumber>;
+    paused(overrides?: CallOverrides): Promise<BigNumber>;
+    refundTransfers(
+      transferIds: BytesLike[],
+      signatures: BytesLike[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setBtcAddressValidator(
+      newBtcAddressValidator: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setCurrentFeeStructure(
+      feeStructureIndex: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setMaxTransferSatoshi(
+      newMaxTransferSatoshi: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setMinTransferSatoshi(
+      newMinTransferSatoshi: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    transferToBtc(
+      btcAddress: string,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<BigNumber>;
+    transfers(arg0: BytesLike, overrides?: CallOverrides): Promise<BigNumber>;
+    unfreeze(overrides?: Overrides & { from?: string }): Promise<BigNumber>;
+    unpause(overrides?: Overrides & { from?: string }): Promise<BigNumber>;
+    withdrawRbtc(
+      amount: BigNumberish,
+      receiver: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    withdrawTokens(
+      token: string,
+      amount: BigNumberish,
+      receiver: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    DYNAMIC_FEE_DIVISOR(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    MAXIMUM_VALID_NONCE(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    MAX_BASE_FEE_SATOSHI(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    SATOSHI_DIVISOR(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    accessControl(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    encodeBridgeUserData(
+      rskAddress: string,
+      btcAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    addFeeStructure(
+      feeStructureIndex: BigNumberish,
+      newBaseFeeSatoshi: BigNumberish,
+      newDynamicFee: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    baseFeeSatoshi(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    btcAddressValidator(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    calculateCurrentFeeSatoshi(
+      amountSatoshi: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    calculateCurrentFeeWei(
+      amountWei: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    currentFeeStructureIndex(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    dynamicFee(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    federators(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    feeStructures(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    freeze(
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    frozen(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    getNextNonce(
+      btcAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getTransfer(
+      btcAddress: string,
+      nonce: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getTransferBatchUpdateHash(
+      transferIds: BytesLike[],
+      newStatus: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getTransferBatchUpdateHashWithTxHash(
+      bitcoinTxHash: BytesLike,
+      transferIds: BytesLike[],
+      newStatus: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getTransferByTransferId(
+      transferId: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getTransferId(
+      btcAddress: string,
+      nonce: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getTransfers(
+      btcAddresses: string[],
+      nonces: BigNumberish[],
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getTransfersByTransferId(
+      transferIds: BytesLike[],
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    isValidBtcAddress(
+      btcAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    markTransfersAsMined(
+      transferIds: BytesLike[],
+      signatures: BytesLike[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    markTransfersAsSending(
+      bitcoinTxHash: BytesLike,
+      transferIds: BytesLike[],
+      signatures: BytesLike[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    maxTransferSatoshi(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    minTransferSatoshi(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    nextNonces(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    pause(
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    paused(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    refundTransfers(
+      transferIds: BytesLike[],
+      signatures: BytesLike[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setBtcAddressValidator(
+      newBtcAddressValidator: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setCurrentFeeStructure(
+      feeStructureIndex: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setMaxTransferSatoshi(
+      newMaxTransferSatoshi: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setMinTransferSatoshi(
+      newMinTransferSatoshi: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    transferToBtc(
+      btcAddress: string,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    transfers(
+      arg0: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    unfreeze(
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    unpause(
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    withdrawRbtc(
+      amount: BigNumberish,
+      receiver: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    withdrawTokens(
+      token: string,
+      amount: BigNumberish,
+      receiver: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+  };
+
+  DYNAMIC_FEE_DIVISOR(overrides?: CallOverrides): Promise<BigNumber>;
+  MAXIMUM_VALID_NONCE(overrides?: CallOverrides): Promise<number>;
+  MAX_BASE_FEE_SATOSHI(overrides?: CallOverrides): Promise<BigNumber>;
+  SATOSHI_DIVISOR(overrides?: CallOverrides): Promise<BigNumber>;
+  accessControl(overrides?: CallOverrides): Promise<string>;
+  encodeBridgeUserData(
+    rskAddress: string,
+    btcAddress: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  addFeeStructure(
+    feeStructureIndex: BigNumberish,
+    newBaseFeeSatoshi: BigNumberish,
+    newDynamicFee: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  baseFeeSatoshi(overrides?: CallOverrides): Promise<number>;
+  btcAddressValidator(overrides?: CallOverrides): Promise<string>;
+  calculateCurrentFeeSatoshi(
+    amountSatoshi: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  calculateCurrentFeeWei(
+    amountWei: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  currentFeeStructureIndex(overrides?: CallOverrides): Promise<number>;
+  dynamicFee(overrides?: CallOverrides): Promise<number>;
+  federators(overrides?: CallOverrides): Promise<string[]>;
+  feeStructures(
+    arg0: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<[number, number] & { baseFeeSatoshi: number; dynamicFee: number }>;
+  freeze(
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  frozen(overrides?: CallOverrides): Promise<boolean>;
+  getNextNonce(btcAddress: string, overrides?: CallOverrides): Promise<number>;
+  getTransfer(
+    btcAddress: string,
+    nonce: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<
+    [string, number, number, number, number, number, string] & {
+      rskAddress: string;
+      status: number;
+      nonce: number;
+      feeStructureIndex: number;
+      blockNumber: number;
+      totalAmountSatoshi: number;
+      btcAddress: string;
+    }
+  >;
+  getTransferBatchUpdateHash(
+    transferIds: BytesLike[],
+    newStatus: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<string>;
+  getTransferBatchUpdateHashWithTxHash(
+    bitcoinTxHash: BytesLike,
+    transferIds: BytesLike[],
+    newStatus: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<string>;
+  getTransferByTransferId(
+    transferId: BytesLike,
+    overrides?: CallOverrides,
+  ): Promise<
+    [string, number, number, number, number, number, string] & {
+      rskAddress: string;
+      status: number;
+      nonce: number;
+      feeStructureIndex: number;
+      blockNumber: number;
+      totalAmountSatoshi: number;
+      btcAddress: string;
+    }
+  >;
+  getTransferId(
+    btcAddress: string,
+    nonce: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<string>;
+  getTransfers(
+    btcAddresses: string[],
+    nonces: BigNumberish[],
+    overrides?: CallOverrides,
+  ): Promise<
+    ([string, number, number, number, number, number, string] & {
+      rskAddress: string;
+      status: number;
+      nonce: number;
+      feeStructureIndex: number;
+      blockNumber: number;
+      totalAmountSatoshi: number;
+      btcAddress: string;
+    })[]
+  >;
+  getTransfersByTransferId(
+    transferIds: BytesLike[],
+    overrides?: CallOverrides,
+  ): Promise<
+    ([string, number, number, number, number, number, string] & {
+      rskAddress: string;
+      status: number;
+      nonce: number;
+      feeStructureIndex: number;
+      blockNumber: number;
+      totalAmountSatoshi: number;
+      btcAddress: string;
+    })[]
+  >;
+  isValidBtcAddress(
+    btcAddress: string,
+    overrides?: CallOverrides,
+  ): Promise<boolean>;
+  markTransfersAsMined(
+    transferIds: BytesLike[],
+    signatures: BytesLike[],
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  markTransfersAsSending(
+    bitcoinTxHash: BytesLike,
+    transferIds: BytesLike[],
+    signatures: BytesLike[],
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  maxTransferSatoshi(overrides?: CallOverrides): Promise<number>;
+  minTransferSatoshi(overrides?: CallOverrides): Promise<number>;
+  nextNonces(arg0: string, overrides?: CallOverrides): Promise<number>;
+  pause(
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  paused(overrides?: CallOverrides): Promise<boolean>;
+  refundTransfers(
+    transferIds: BytesLike[],
+    signatures: BytesLike[],
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setBtcAddressValidator(
+    newBtcAddressValidator: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setCurrentFeeStructure(
+    feeStructureIndex: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setMaxTransferSatoshi(
+    newMaxTransferSatoshi: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setMinTransferSatoshi(
+    newMinTransferSatoshi: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  transferToBtc(
+    btcAddress: string,
+    overrides?: PayableOverrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  transfers(
+    arg0: BytesLike,
+    overrides?: CallOverrides,
+  ): Promise<
+    [string, number, number, number, number, number, string] & {
+      rskAddress: string;
+      status: number;
+      nonce: number;
+      feeStructureIndex: number;
+      blockNumber: number;
+      totalAmountSatoshi: number;
+      btcAddress: string;
+    }
+  >;
+  unfreeze(
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  unpause(
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  withdrawRbtc(
+    amount: BigNumberish,
+    receiver: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  withdrawTokens(
+    token: string,
+    amount: BigNumberish,
+    receiver: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+}
@@ -0,0 +1,420 @@
+/* Autogenerated file. Do not edit manually. */
+
+/* eslint-disable */
+import type {
+  BigNumber,
+  BigNumberish,
+  BytesLike,
+  CallOverrides,
+  Contract,
+  ContractTransaction,
+  Overrides,
+  PayableOverrides,
+  PopulatedTransaction,
+} from 'ethers';
+
+export interface FastBtcMultisig extends Contract {
+  functions: {
+    MAX_OWNER_COUNT(overrides?: CallOverrides): Promise<[BigNumber]>;
+    addOwner(
+      owner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    changeRequirement(
+      _required: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    confirmTransaction(
+      transactionId: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    confirmations(
+      arg0: BigNumberish,
+      arg1: string,
+      overrides?: CallOverrides,
+    ): Promise<[boolean]>;
+    executeTransaction(
+      transactionId: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    getConfirmationCount(
+      transactionId: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber] & { count: BigNumber }>;
+    getConfirmations(
+      transactionId: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[string[]] & { _confirmations: string[] }>;
+    getOwners(overrides?: CallOverrides): Promise<[string[]]>;
+    getTransactionCount(
+      pending: boolean,
+      executed: boolean,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber] & { count: BigNumber }>;
+    getTransactionIds(
+      from: BigNumberish,
+      to: BigNumberish,
+      pending: boolean,
+      executed: boolean,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber[]] & { _transactionIds: BigNumber[] }>;
+    isConfirmed(
+      transactionId: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[boolean]>;
+    isOwner(arg0: string, overrides?: CallOverrides): Promise<[boolean]>;
+    owners(arg0: BigNumberish, overrides?: CallOverrides): Promise<[string]>;
+    removeOwner(
+      owner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    replaceOwner(
+      owner: string,
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    required(overrides?: CallOverrides): Promise<[BigNumber]>;
+    revokeConfirmation(
+      transactionId: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    submitTransaction(
+      destination: string,
+      value: BigNumberish,
+      data: BytesLike,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    transactionCount(overrides?: CallOverrides): Promise<[BigNumber]>;
+    transactions(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<
+      [string, BigNumber, string, boolean] & {
+        destination: string;
+        value: BigNumber;
+        data: string;
+        executed: boolean;
+      }
+    >;
+  };
+
+  callStatic: {
+    MAX_OWNER_COUNT(overrides?: CallOverrides): Promise<BigNumber>;
+    addOwner(owner: string, overrides?: CallOverrides): Promise<void>;
+    changeRequirement(
+      _required: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    confirmTransaction(
+      transactionId: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    confirmations(
+      arg0: BigNumberish,
+      arg1: string,
+      overrides?: CallOverrides,
+    ): Promise<boolean>;
+    executeTransaction(
+      transactionId: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    getConfirmationCount(
+      transactionId: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getConfirmations(
+      transactionId: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<string[]>;
+    getOwners(overrides?: CallOverrides): Promise<string[]>;
+    getTransactionCount(
+      pending: boolean,
+      executed: boolean,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getTransactionIds(
+      from: BigNumberish,
+      to: BigNumberish,
+      pending: boolean,
+      executed: boolean,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber[]>;
+    isConfirmed(
+      transactionId: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<boolean>;
+    isOwner(arg0: string, overrides?: CallOverrides): Promise<boolean>;
+    owners(arg0: BigNumberish, overrides?: CallOverrides): Promise<string>;
+    removeOwner(owner: string, overrides?: CallOverrides): Promise<void>;
+    replaceOwner(
+      owner: string,
+      newOwner: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    required(overrides?: CallOverrides): Promise<BigNumber>;
+    revokeConfirmation(
+      transactionId: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    submitTransaction(
+      destination: string,
+      value: BigNumberish,
+      data: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    transactionCount(overrides?: CallOverrides): Promise<BigNumber>;
+    transactions(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<
+      [string, BigNumber, string, boolean] & {
+        destination: string;
+        value: BigNumber;
+        data: string;
+        executed: boolean;
+      }
+    >;
+  };
+
+  estimateGas: {
+    MAX_OWNER_COUNT(overrides?: CallOverrides): Promise<BigNumber>;
+    addOwner(
+      owner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    changeRequirement(
+      _required: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    confirmTransaction(
+      transactionId: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    confirmations(
+      arg0: BigNumberish,
+      arg1: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    executeTransaction(
+      transactionId: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    getConfirmationCount(
+      transactionId: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getConfirmations(
+      transactionId: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getOwners(overrides?: CallOverrides): Promise<BigNumber>;
+    getTransactionCount(
+      pending: boolean,
+      executed: boolean,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getTransactionIds(
+      from: BigNumberish,
+      to: BigNumberish,
+      pending: boolean,
+      executed: boolean,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    isConfirmed(
+      transactionId: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    isOwner(arg0: string, overrides?: CallOverrides): Promise<BigNumber>;
+    owners(arg0: BigNumberish, overrides?: CallOverrides): Promise<BigNumber>;
+    removeOwner(
+      owner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    replaceOwner(
+      owner: string,
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    required(overrides?: CallOverrides): Promise<BigNumber>;
+    revokeConfirmation(
+      transactionId: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    submitTransaction(
+      destination: string,
+      value: BigNumberish,
+      data: BytesLike,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    transactionCount(overrides?: CallOverrides): Promise<BigNumber>;
+    transactions(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    MAX_OWNER_COUNT(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    addOwner(
+      owner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    changeRequirement(
+      _required: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    confirmTransaction(
+      transactionId: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    confirmations(
+      arg0: BigNumberish,
+      arg1: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    executeTransaction(
+      transactionId: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    getConfirmationCount(
+      transactionId: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getConfirmations(
+      transactionId: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getOwners(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    getTransactionCount(
+      pending: boolean,
+      executed: boolean,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getTransactionIds(
+      from: BigNumberish,
+      to: BigNumberish,
+      pending: boolean,
+      executed: boolean,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    isConfirmed(
+      transactionId: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    isOwner(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    owners(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    removeOwner(
+      owner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    replaceOwner(
+      owner: string,
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    required(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    revokeConfirmation(
+      transactionId: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    submitTransaction(
+      destination: string,
+      value: BigNumberish,
+      data: BytesLike,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    transactionCount(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    transactions(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+  };
+
+  MAX_OWNER_COUNT(overrides?: CallOverrides): Promise<BigNumber>;
+  addOwner(
+    owner: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  changeRequirement(
+    _required: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  confirmTransaction(
+    transactionId: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  confirmations(
+    arg0: BigNumberish,
+    arg1: string,
+    overrides?: CallOverrides,
+  ): Promise<boolean>;
+  executeTransaction(
+    transactionId: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  getConfirmationCount(
+    transactionId: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  getConfirmations(
+    transactionId: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<string[]>;
+  getOwners(overrides?: CallOverrides): Promise<string[]>;
+  getTransactionCount(
+    pending: boolean,
+    executed: boolean,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  getTransactionIds(
+    from: BigNumberish,
+    to: BigNumberish,
+    pending: boolean,
+    executed: boolean,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber[]>;
+  isConfirmed(
+    transactionId: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<boolean>;
+  isOwner(arg0: string, overrides?: CallOverrides): Promise<boolean>;
+  owners(arg0: BigNumberish, overrides?: CallOverrides): Promise<string>;
+  removeOwner(
+    owner: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  replaceOwner(
+    owner: string,
+    newOwner: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  required(overrides?: CallOverrides): Promise<BigNumber>;
+  revokeConfirmation(
+    transactionId: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  submitTransaction(
+    destination: string,
+    value: BigNumberish,
+    data: BytesLike,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  transactionCount(overrides?: CallOverrides): Promise<BigNumber>;
+  transactions(
+    arg0: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<
+    [string, BigNumber, string, boolean] & {
+      destination: string;
+      value: BigNumber;
+      data: string;
+      executed: boolean;
+    }
+  >;
+}
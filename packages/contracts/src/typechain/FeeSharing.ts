@@ -0,0 +1,668 @@
+/* Autogenerated file. Do not edit manually. */
+
+/* eslint-disable */
+import type {
+  BigNumber,
+  BigNumberish,
+  BytesLike,
+  CallOverrides,
+  Contract,
+  ContractTransaction,
+  Overrides,
+  PayableOverrides,
+  PopulatedTransaction,
+} from 'ethers';
+
+export interface FeeSharing extends Contract {
+  functions: {
+    RBTC_DUMMY_ADDRESS_FOR_CHECKPOINT(
+      overrides?: CallOverrides,
+    ): Promise<[string]>;
+    addWhitelistedConverterAddress(
+      converterAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    claimAllCollectedFees(
+      _nonRbtcTokensRegularWithdraw: string[],
+      _rbtcTokensRegularWithdraw: string[],
+      _tokensWithSkippedCheckpoints: {
+        tokenAddress: string;
+        fromCheckpoint: BigNumberish;
+      }[],
+      _maxCheckpoints: BigNumberish,
+      _receiver: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    getAccumulatedFees(
+      _user: string,
+      _token: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    getAccumulatedFeesForCheckpointsRange(
+      _user: string,
+      _token: string,
+      _startFrom: BigNumberish,
+      _maxCheckpoints: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    getAccumulatedRBTCFeeBalances(
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    getAllUserFeesPerMaxCheckpoints(
+      _user: string,
+      _token: string,
+      _startFrom: BigNumberish,
+      _maxCheckpoints: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber[]] & { fees: BigNumber[] }>;
+    getNextPositiveUserCheckpoint(
+      _user: string,
+      _token: string,
+      _startFrom: BigNumberish,
+      _maxCheckpoints: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, boolean, boolean] & {
+        checkpointNum: BigNumber;
+        hasSkippedCheckpoints: boolean;
+        hasFees: boolean;
+      }
+    >;
+    getWhitelistedConverterList(
+      overrides?: CallOverrides,
+    ): Promise<[string[]] & { converterList: string[] }>;
+    isFunctionExecuted(
+      arg0: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<[boolean]>;
+    isOwner(overrides?: CallOverrides): Promise<[boolean]>;
+    lastFeeWithdrawalTime(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    numTokenCheckpoints(
+      _token: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    owner(overrides?: CallOverrides): Promise<[string]>;
+    processedCheckpoints(
+      arg0: string,
+      arg1: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    protocol(overrides?: CallOverrides): Promise<[string]>;
+    recoverIncorrectAllocatedFees(
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    removeWhitelistedConverterAddress(
+      converterAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    staking(overrides?: CallOverrides): Promise<[string]>;
+    tokenCheckpoints(
+      arg0: string,
+      arg1: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<
+      [number, number, BigNumber, BigNumber] & {
+        blockNumber: number;
+        timestamp: number;
+        totalWeightedStake: BigNumber;
+        numTokens: BigNumber;
+      }
+    >;
+    totalTokenCheckpoints(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    transferRBTC(
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    transferTokens(
+      _token: string,
+      _amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    unprocessedAmount(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    withdraw(
+      _token: string,
+      _maxCheckpoints: BigNumberish,
+      _receiver: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    withdrawFees(
+      _tokens: string[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    withdrawFeesAMM(
+      _converters: string[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    withdrawWRBTC(
+      receiver: string,
+      wrbtcAmount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+  };
+
+  callStatic: {
+    RBTC_DUMMY_ADDRESS_FOR_CHECKPOINT(
+      overrides?: CallOverrides,
+    ): Promise<string>;
+    addWhitelistedConverterAddress(
+      converterAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    claimAllCollectedFees(
+      _nonRbtcTokensRegularWithdraw: string[],
+      _rbtcTokensRegularWithdraw: string[],
+      _tokensWithSkippedCheckpoints: {
+        tokenAddress: string;
+        fromCheckpoint: BigNumberish;
+      }[],
+      _maxCheckpoints: BigNumberish,
+      _receiver: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    getAccumulatedFees(
+      _user: string,
+      _token: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getAccumulatedFeesForCheckpointsRange(
+      _user: string,
+      _token: string,
+      _startFrom: BigNumberish,
+      _maxCheckpoints: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getAccumulatedRBTCFeeBalances(
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getAllUserFeesPerMaxCheckpoints(
+      _user: string,
+      _token: string,
+      _startFrom: BigNumberish,
+      _maxCheckpoints: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber[]>;
+    getNextPositiveUserCheckpoint(
+      _user: string,
+      _token: string,
+      _startFrom: BigNumberish,
+      _maxCheckpoints: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, boolean, boolean] & {
+        checkpointNum: BigNumber;
+        hasSkippedCheckpoints: boolean;
+        hasFees: boolean;
+      }
+    >;
+    getWhitelistedConverterList(overrides?: CallOverrides): Promise<string[]>;
+    isFunctionExecuted(
+      arg0: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<boolean>;
+    isOwner(overrides?: CallOverrides): Promise<boolean>;
+    lastFeeWithdrawalTime(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    numTokenCheckpoints(
+      _token: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    owner(overrides?: CallOverrides): Promise<string>;
+    processedCheckpoints(
+      arg0: string,
+      arg1: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    protocol(overrides?: CallOverrides): Promise<string>;
+    recoverIncorrectAllocatedFees(overrides?: CallOverrides): Promise<void>;
+    removeWhitelistedConverterAddress(
+      converterAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    staking(overrides?: CallOverrides): Promise<string>;
+    tokenCheckpoints(
+      arg0: string,
+      arg1: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<
+      [number, number, BigNumber, BigNumber] & {
+        blockNumber: number;
+        timestamp: number;
+        totalWeightedStake: BigNumber;
+        numTokens: BigNumber;
+      }
+    >;
+    totalTokenCheckpoints(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    transferRBTC(overrides?: CallOverrides): Promise<void>;
+    transferTokens(
+      _token: string,
+      _amount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    unprocessedAmount(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    withdraw(
+      _token: string,
+      _maxCheckpoints: BigNumberish,
+      _receiver: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    withdrawFees(_tokens: string[], overrides?: CallOverrides): Promise<void>;
+    withdrawFeesAMM(
+      _converters: string[],
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    withdrawWRBTC(
+      receiver: string,
+      wrbtcAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+  };
+
+  estimateGas: {
+    RBTC_DUMMY_ADDRESS_FOR_CHECKPOINT(
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    addWhitelistedConverterAddress(
+      converterAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    claimAllCollectedFees(
+      _nonRbtcTokensRegularWithdraw: string[],
+      _rbtcTokensRegularWithdraw: string[],
+      _tokensWithSkippedCheckpoints: {
+        tokenAddress: string;
+        fromCheckpoint: BigNumberish;
+      }[],
+      _maxCheckpoints: BigNumberish,
+      _receiver: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    getAccumulatedFees(
+      _user: string,
+      _token: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getAccumulatedFeesForCheckpointsRange(
+      _user: string,
+      _token: string,
+      _startFrom: BigNumberish,
+      _maxCheckpoints: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getAccumulatedRBTCFeeBalances(
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getAllUserFeesPerMaxCheckpoints(
+      _user: string,
+      _token: string,
+      _startFrom: BigNumberish,
+      _maxCheckpoints: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getNextPositiveUserCheckpoint(
+      _user: string,
+      _token: string,
+      _startFrom: BigNumberish,
+      _maxCheckpoints: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getWhitelistedConverterList(overrides?: CallOverrides): Promise<BigNumber>;
+    isFunctionExecuted(
+      arg0: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    isOwner(overrides?: CallOverrides): Promise<BigNumber>;
+    lastFeeWithdrawalTime(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    numTokenCheckpoints(
+      _token: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    owner(overrides?: CallOverrides): Promise<BigNumber>;
+    processedCheckpoints(
+      arg0: string,
+      arg1: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    protocol(overrides?: CallOverrides): Promise<BigNumber>;
+    recoverIncorrectAllocatedFees(
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    removeWhitelistedConverterAddress(
+      converterAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    staking(overrides?: CallOverrides): Promise<BigNumber>;
+    tokenCheckpoints(
+      arg0: string,
+      arg1: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    totalTokenCheckpoints(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    transferRBTC(
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<BigNumber>;
+    transferTokens(
+      _token: string,
+      _amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    unprocessedAmount(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    withdraw(
+      _token: string,
+      _maxCheckpoints: BigNumberish,
+      _receiver: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    withdrawFees(
+      _tokens: string[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    withdrawFeesAMM(
+      _converters: string[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    withdrawWRBTC(
+      receiver: string,
+      wrbtcAmount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    RBTC_DUMMY_ADDRESS_FOR_CHECKPOINT(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    addWhitelistedConverterAddress(
+      converterAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    claimAllCollectedFees(
+      _nonRbtcTokensRegularWithdraw: string[],
+      _rbtcTokensRegularWithdraw: string[],
+      _tokensWithSkippedCheckpoints: {
+        tokenAddress: string;
+        fromCheckpoint: BigNumberish;
+      }[],
+      _maxCheckpoints: BigNumberish,
+      _receiver: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    getAccumulatedFees(
+      _user: string,
+      _token: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getAccumulatedFeesForCheckpointsRange(
+      _user: string,
+      _token: string,
+      _startFrom: BigNumberish,
+      _maxCheckpoints: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getAccumulatedRBTCFeeBalances(
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getAllUserFeesPerMaxCheckpoints(
+      _user: string,
+      _token: string,
+      _startFrom: BigNumberish,
+      _maxCheckpoints: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getNextPositiveUserCheckpoint(
+      _user: string,
+      _token: string,
+      _startFrom: BigNumberish,
+      _maxCheckpoints: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getWhitelistedConverterList(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    isFunctionExecuted(
+      arg0: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    isOwner(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    lastFeeWithdrawalTime(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    numTokenCheckpoints(
+      _token: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    owner(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    processedCheckpoints(
+      arg0: string,
+      arg1: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    protocol(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    recoverIncorrectAllocatedFees(
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    removeWhitelistedConverterAddress(
+      converterAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    staking(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    tokenCheckpoints(
+      arg0: string,
+      arg1: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    totalTokenCheckpoints(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    transferRBTC(
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    transferTokens(
+      _token: string,
+      _amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    unprocessedAmount(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    withdraw(
+      _token: string,
+      _maxCheckpoints: BigNumberish,
+      _receiver: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    withdrawFees(
+      _tokens: string[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    withdrawFeesAMM(
+      _converters: string[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    withdrawWRBTC(
+      receiver: string,
+      wrbtcAmount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+  };
+
+  RBTC_DUMMY_ADDRESS_FOR_CHECKPOINT(overrides?: CallOverrides): Promise<string>;
+  addWhitelistedConverterAddress(
+    converterAddress: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  claimAllCollectedFees(
+    _nonRbtcTokensRegularWithdraw: string[],
+    _rbtcTokensRegularWithdraw: string[],
+    _tokensWithSkippedCheckpoints: {
+      tokenAddress: string;
+      fromCheckpoint: BigNumberish;
+    }[],
+    _maxCheckpoints: BigNumberish,
+    _receiver: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  getAccumulatedFees(
+    _user: string,
+    _token: string,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  getAccumulatedFeesForCheckpointsRange(
+    _user: string,
+    _token: string,
+    _startFrom: BigNumberish,
+    _maxCheckpoints: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  getAccumulatedRBTCFeeBalances(
+    _user: string,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  getAllUserFeesPerMaxCheckpoints(
+    _user: string,
+    _token: string,
+    _startFrom: BigNumberish,
+    _maxCheckpoints: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber[]>;
+  getNextPositiveUserCheckpoint(
+    _user: string,
+    _token: string,
+    _startFrom: BigNumberish,
+    _maxCheckpoints: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<
+    [BigNumber, boolean, boolean] & {
+      checkpointNum: BigNumber;
+      hasSkippedCheckpoints: boolean;
+      hasFees: boolean;
+    }
+  >;
+  getWhitelistedConverterList(overrides?: CallOverrides): Promise<string[]>;
+  isFunctionExecuted(
+    arg0: BytesLike,
+    overrides?: CallOverrides,
+  ): Promise<boolean>;
+  isOwner(overrides?: CallOverrides): Promise<boolean>;
+  lastFeeWithdrawalTime(
+    arg0: string,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  numTokenCheckpoints(
+    _token: string,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  owner(overrides?: CallOverrides): Promise<string>;
+  processedCheckpoints(
+    arg0: string,
+    arg1: string,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  protocol(overrides?: CallOverrides): Promise<string>;
+  recoverIncorrectAllocatedFees(
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  removeWhitelistedConverterAddress(
+    converterAddress: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  staking(overrides?: CallOverrides): Promise<string>;
+  tokenCheckpoints(
+    arg0: string,
+    arg1: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<
+    [number, number, BigNumber, BigNumber] & {
+      blockNumber: number;
+      timestamp: number;
+      totalWeightedStake: BigNumber;
+      numTokens: BigNumber;
+    }
+  >;
+  totalTokenCheckpoints(
+    arg0: string,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  transferOwnership(
+    newOwner: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  transferRBTC(
+    overrides?: PayableOverrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  transferTokens(
+    _token: string,
+    _amount: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  unprocessedAmount(
+    arg0: string,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  withdraw(
+    _token: string,
+    _maxCheckpoints: BigNumberish,
+    _receiver: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  withdrawFees(
+    _tokens: string[],
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  withdrawFeesAMM(
+    _converters: string[],
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  withdrawWRBTC(
+    receiver: string,
+    wrbtcAmount: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+}
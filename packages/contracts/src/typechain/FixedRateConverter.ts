@@ -0,0 +1,128 @@
+/* Autogenerated file. Do not edit manually. */
+
+/* eslint-disable */
+import type {
+  BigNumber,
+  BigNumberish,
+  BytesLike,
+  CallOverrides,
+  Contract,
+  ContractTransaction,
+  Overrides,
+  PayableOverrides,
+  PopulatedTransaction,
+} from 'ethers';
+
+export interface FixedRateConverter extends Contract {
+  functions: {
+    admin(overrides?: CallOverrides): Promise<[string]>;
+    conversionFixedRate(overrides?: CallOverrides): Promise<[BigNumber]>;
+    convert(
+      _myntAmount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    convertAmount(
+      _myntAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    convertMax(overrides?: CallOverrides): Promise<[BigNumber]>;
+    myntContractAddress(overrides?: CallOverrides): Promise<[string]>;
+    setAdmin(
+      _newAdmin: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    sovContractAddress(overrides?: CallOverrides): Promise<[string]>;
+    withdrawSov(
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+  };
+
+  callStatic: {
+    admin(overrides?: CallOverrides): Promise<string>;
+    conversionFixedRate(overrides?: CallOverrides): Promise<BigNumber>;
+    convert(
+      _myntAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    convertAmount(
+      _myntAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    convertMax(overrides?: CallOverrides): Promise<BigNumber>;
+    myntContractAddress(overrides?: CallOverrides): Promise<string>;
+    setAdmin(_newAdmin: string, overrides?: CallOverrides): Promise<void>;
+    sovContractAddress(overrides?: CallOverrides): Promise<string>;
+    withdrawSov(overrides?: CallOverrides): Promise<void>;
+  };
+
+  estimateGas: {
+    admin(overrides?: CallOverrides): Promise<BigNumber>;
+    conversionFixedRate(overrides?: CallOverrides): Promise<BigNumber>;
+    convert(
+      _myntAmount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    convertAmount(
+      _myntAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    convertMax(overrides?: CallOverrides): Promise<BigNumber>;
+    myntContractAddress(overrides?: CallOverrides): Promise<BigNumber>;
+    setAdmin(
+      _newAdmin: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    sovContractAddress(overrides?: CallOverrides): Promise<BigNumber>;
+    withdrawSov(overrides?: Overrides & { from?: string }): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    admin(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    conversionFixedRate(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    convert(
+      _myntAmount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    convertAmount(
+      _myntAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    convertMax(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    myntContractAddress(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    setAdmin(
+      _newAdmin: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    sovContractAddress(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    withdrawSov(
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+  };
+
+  admin(overrides?: CallOverrides): Promise<string>;
+  conversionFixedRate(overrides?: CallOverrides): Promise<BigNumber>;
+  convert(
+    _myntAmount: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  convertAmount(
+    _myntAmount: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  convertMax(overrides?: CallOverrides): Promise<BigNumber>;
+  myntContractAddress(overrides?: CallOverrides): Promise<string>;
+  setAdmin(
+    _newAdmin: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  sovContractAddress(overrides?: CallOverrides): Promise<string>;
+  withdrawSov(
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+}
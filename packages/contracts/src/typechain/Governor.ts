@@ -0,0 +1,559 @@
+/* Autogenerated file. Do not edit manually. */
+
+/* eslint-disable */
+import type {
+  BigNumber,
+  BigNumberish,
+  BytesLike,
+  CallOverrides,
+  Contract,
+  ContractTransaction,
+  Overrides,
+  PayableOverrides,
+  PopulatedTransaction,
+} from 'ethers';
+
+export interface Governor extends Contract {
+  functions: {
+    BALLOT_TYPEHASH(overrides?: CallOverrides): Promise<[string]>;
+    DOMAIN_TYPEHASH(overrides?: CallOverrides): Promise<[string]>;
+    NAME(overrides?: CallOverrides): Promise<[string]>;
+    __abdicate(
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    __acceptAdmin(
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    __executeSetTimelockPendingAdmin(
+      newPendingAdmin: string,
+      eta: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    __queueSetTimelockPendingAdmin(
+      newPendingAdmin: string,
+      eta: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    cancel(
+      proposalId: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    castVote(
+      proposalId: BigNumberish,
+      support: boolean,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    castVoteBySig(
+      proposalId: BigNumberish,
+      support: boolean,
+      v: BigNumberish,
+      r: BytesLike,
+      s: BytesLike,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    execute(
+      proposalId: BigNumberish,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    getActions(
+      proposalId: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<
+      [string[], BigNumber[], string[], string[]] & {
+        targets: string[];
+        values: BigNumber[];
+        signatures: string[];
+        calldatas: string[];
+      }
+    >;
+    getReceipt(
+      proposalId: BigNumberish,
+      voter: string,
+      overrides?: CallOverrides,
+    ): Promise<
+      [
+        [boolean, boolean, BigNumber] & {
+          hasVoted: boolean;
+          support: boolean;
+          votes: BigNumber;
+        },
+      ]
+    >;
+    guardian(overrides?: CallOverrides): Promise<[string]>;
+    latestProposalIds(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    majorityPercentageVotes(overrides?: CallOverrides): Promise<[BigNumber]>;
+    proposalCount(overrides?: CallOverrides): Promise<[BigNumber]>;
+    proposalMaxOperations(overrides?: CallOverrides): Promise<[BigNumber]>;
+    proposalThreshold(overrides?: CallOverrides): Promise<[BigNumber]>;
+    proposals(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<
+      [
+        BigNumber,
+        number,
+        number,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        boolean,
+        boolean,
+        string,
+      ] & {
+        id: BigNumber;
+        startBlock: number;
+        endBlock: number;
+        forVotes: BigNumber;
+        againstVotes: BigNumber;
+        quorum: BigNumber;
+        majorityPercentage: BigNumber;
+        eta: BigNumber;
+        startTime: BigNumber;
+        canceled: boolean;
+        executed: boolean;
+        proposer: string;
+      }
+    >;
+    propose(
+      targets: string[],
+      values: BigNumberish[],
+      signatures: string[],
+      calldatas: BytesLike[],
+      description: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    queue(
+      proposalId: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    quorumPercentageVotes(overrides?: CallOverrides): Promise<[BigNumber]>;
+    quorumVotes(overrides?: CallOverrides): Promise<[BigNumber]>;
+    staking(overrides?: CallOverrides): Promise<[string]>;
+    state(
+      proposalId: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[number]>;
+    timelock(overrides?: CallOverrides): Promise<[string]>;
+    votingDelay(overrides?: CallOverrides): Promise<[BigNumber]>;
+    votingPeriod(overrides?: CallOverrides): Promise<[BigNumber]>;
+  };
+
+  callStatic: {
+    BALLOT_TYPEHASH(overrides?: CallOverrides): Promise<string>;
+    DOMAIN_TYPEHASH(overrides?: CallOverrides): Promise<string>;
+    NAME(overrides?: CallOverrides): Promise<string>;
+    __abdicate(overrides?: CallOverrides): Promise<void>;
+    __acceptAdmin(overrides?: CallOverrides): Promise<void>;
+    __executeSetTimelockPendingAdmin(
+      newPendingAdmin: string,
+      eta: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    __queueSetTimelockPendingAdmin(
+      newPendingAdmin: string,
+      eta: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    cancel(proposalId: BigNumberish, overrides?: CallOverrides): Promise<void>;
+    castVote(
+      proposalId: BigNumberish,
+      support: boolean,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    castVoteBySig(
+      proposalId: BigNumberish,
+      support: boolean,
+      v: BigNumberish,
+      r: BytesLike,
+      s: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    execute(proposalId: BigNumberish, overrides?: CallOverrides): Promise<void>;
+    getActions(
+      proposalId: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<
+      [string[], BigNumber[], string[], string[]] & {
+        targets: string[];
+        values: BigNumber[];
+        signatures: string[];
+        calldatas: string[];
+      }
+    >;
+    getReceipt(
+      proposalId: BigNumberish,
+      voter: string,
+      overrides?: CallOverrides,
+    ): Promise<
+      [boolean, boolean, BigNumber] & {
+        hasVoted: boolean;
+        support: boolean;
+        votes: BigNumber;
+      }
+    >;
+    guardian(overrides?: CallOverrides): Promise<string>;
+    latestProposalIds(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    majorityPercentageVotes(overrides?: CallOverrides): Promise<BigNumber>;
+    proposalCount(overrides?: CallOverrides): Promise<BigNumber>;
+    proposalMaxOperations(overrides?: CallOverrides): Promise<BigNumber>;
+    proposalThreshold(overrides?: CallOverrides): Promise<BigNumber>;
+    proposals(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<
+      [
+        BigNumber,
+        number,
+        number,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        boolean,
+        boolean,
+        string,
+      ] & {
+        id: BigNumber;
+        startBlock: number;
+        endBlock: number;
+        forVotes: BigNumber;
+        againstVotes: BigNumber;
+        quorum: BigNumber;
+        majorityPercentage: BigNumber;
+        eta: BigNumber;
+        startTime: BigNumber;
+        canceled: boolean;
+        executed: boolean;
+        proposer: string;
+      }
+    >;
+    propose(
+      targets: string[],
+      values: BigNumberish[],
+      signatures: string[],
+      calldatas: BytesLike[],
+      description: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    queue(proposalId: BigNumberish, overrides?: CallOverrides): Promise<void>;
+    quorumPercentageVotes(overrides?: CallOverrides): Promise<BigNumber>;
+    quorumVotes(overrides?: CallOverrides): Promise<BigNumber>;
+    staking(overrides?: CallOverrides): Promise<string>;
+    state(proposalId: BigNumberish, overrides?: CallOverrides): Promise<number>;
+    timelock(overrides?: CallOverrides): Promise<string>;
+    votingDelay(overrides?: CallOverrides): Promise<BigNumber>;
+    votingPeriod(overrides?: CallOverrides): Promise<BigNumber>;
+  };
+
+  estimateGas: {
+    BALLOT_TYPEHASH(overrides?: CallOverrides): Promise<BigNumber>;
+    DOMAIN_TYPEHASH(overrides?: CallOverrides): Promise<BigNumber>;
+    NAME(overrides?: CallOverrides): Promise<BigNumber>;
+    __abdicate(overrides?: Overrides & { from?: string }): Promise<BigNumber>;
+    __acceptAdmin(
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    __executeSetTimelockPendingAdmin(
+      newPendingAdmin: string,
+      eta: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    __queueSetTimelockPendingAdmin(
+      newPendingAdmin: string,
+      eta: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    cancel(
+      proposalId: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    castVote(
+      proposalId: BigNumberish,
+      support: boolean,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    castVoteBySig(
+      proposalId: BigNumberish,
+      support: boolean,
+      v: BigNumberish,
+      r: BytesLike,
+      s: BytesLike,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    execute(
+      proposalId: BigNumberish,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<BigNumber>;
+    getActions(
+      proposalId: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getReceipt(
+      proposalId: BigNumberish,
+      voter: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    guardian(overrides?: CallOverrides): Promise<BigNumber>;
+    latestProposalIds(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    majorityPercentageVotes(overrides?: CallOverrides): Promise<BigNumber>;
+    proposalCount(overrides?: CallOverrides): Promise<BigNumber>;
+    proposalMaxOperations(overrides?: CallOverrides): Promise<BigNumber>;
+    proposalThreshold(overrides?: CallOverrides): Promise<BigNumber>;
+    proposals(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    propose(
+      targets: string[],
+      values: BigNumberish[],
+      signatures: string[],
+      calldatas: BytesLike[],
+      description: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    queue(
+      proposalId: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    quorumPercentageVotes(overrides?: CallOverrides): Promise<BigNumber>;
+    quorumVotes(overrides?: CallOverrides): Promise<BigNumber>;
+    staking(overrides?: CallOverrides): Promise<BigNumber>;
+    state(
+      proposalId: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    timelock(overrides?: CallOverrides): Promise<BigNumber>;
+    votingDelay(overrides?: CallOverrides): Promise<BigNumber>;
+    votingPeriod(overrides?: CallOverrides): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    BALLOT_TYPEHASH(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    DOMAIN_TYPEHASH(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    NAME(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    __abdicate(
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    __acceptAdmin(
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    __executeSetTimelockPendingAdmin(
+      newPendingAdmin: string,
+      eta: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    __queueSetTimelockPendingAdmin(
+      newPendingAdmin: string,
+      eta: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    cancel(
+      proposalId: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    castVote(
+      proposalId: BigNumberish,
+      support: boolean,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    castVoteBySig(
+      proposalId: BigNumberish,
+      support: boolean,
+      v: BigNumberish,
+      r: BytesLike,
+      s: BytesLike,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    execute(
+      proposalId: BigNumberish,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    getActions(
+      proposalId: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getReceipt(
+      proposalId: BigNumberish,
+      voter: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    guardian(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    latestProposalIds(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    majorityPercentageVotes(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    proposalCount(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    proposalMaxOperations(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    proposalThreshold(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    proposals(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    propose(
+      targets: string[],
+      values: BigNumberish[],
+      signatures: string[],
+      calldatas: BytesLike[],
+      description: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    queue(
+      proposalId: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    quorumPercentageVotes(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    quorumVotes(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    staking(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    state(
+      proposalId: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    timelock(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    votingDelay(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    votingPeriod(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+  };
+
+  BALLOT_TYPEHASH(overrides?: CallOverrides): Promise<string>;
+  DOMAIN_TYPEHASH(overrides?: CallOverrides): Promise<string>;
+  NAME(overrides?: CallOverrides): Promise<string>;
+  __abdicate(
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  __acceptAdmin(
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  __executeSetTimelockPendingAdmin(
+    newPendingAdmin: string,
+    eta: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  __queueSetTimelockPendingAdmin(
+    newPendingAdmin: string,
+    eta: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  cancel(
+    proposalId: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  castVote(
+    proposalId: BigNumberish,
+    support: boolean,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  castVoteBySig(
+    proposalId: BigNumberish,
+    support: boolean,
+    v: BigNumberish,
+    r: BytesLike,
+    s: BytesLike,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  execute(
+    proposalId: BigNumberish,
+    overrides?: PayableOverrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  getActions(
+    proposalId: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<
+    [string[], BigNumber[], string[], string[]] & {
+      targets: string[];
+      values: BigNumber[];
+      signatures: string[];
+      calldatas: string[];
+    }
+  >;
+  getReceipt(
+    proposalId: BigNumberish,
+    voter: string,
+    overrides?: CallOverrides,
+  ): Promise<
+    [boolean, boolean, BigNumber] & {
+      hasVoted: boolean;
+      support: boolean;
+      votes: BigNumber;
+    }
+  >;
+  guardian(overrides?: CallOverrides): Promise<string>;
+  latestProposalIds(
+    arg0: string,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  majorityPercentageVotes(overrides?: CallOverrides): Promise<BigNumber>;
+  proposalCount(overrides?: CallOverrides): Promise<BigNumber>;
+  proposalMaxOperations(overrides?: CallOverrides): Promise<BigNumber>;
+  proposalThreshold(overrides?: CallOverrides): Promise<BigNumber>;
+  proposals(
+    arg0: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<
+    [
+      BigNumber,
+      number,
+      number,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      boolean,
+      boolean,
+      string,
+    ] & {
+      id: BigNumber;
+      startBlock: number;
+      endBlock: number;
+      forVotes: BigNumber;
+      againstVotes: BigNumber;
+      quorum: BigNumber;
+      majorityPercentage: BigNumber;
+      eta: BigNumber;
+      startTime: BigNumber;
+      canceled: boolean;
+      executed: boolean;
+      proposer: string;
+    }
+  >;
+  propose(
+    targets: string[],
+    values: BigNumberish[],
+    signatures: string[],
+    calldatas: BytesLike[],
+    description: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  queue(
+    proposalId: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  quorumPercentageVotes(overrides?: CallOverrides): Promise<BigNumber>;
+  quorumVotes(overrides?: CallOverrides): Promise<BigNumber>;
+  staking(overrides?: CallOverrides): Promise<string>;
+  state(proposalId: BigNumberish, overrides?: CallOverrides): Promise<number>;
+  timelock(overrides?: CallOverrides): Promise<string>;
+  votingDelay(overrides?: CallOverrides): Promise<BigNumber>;
+  votingPeriod(overrides?: CallOverrides): Promise<BigNumber>;
+}
@@ -0,0 +1,1082 @@
+/* Autogenerated file. Do not edit manually. */
+
+/* eslint-disable */
+import type {
+  BigNumber,
+  BigNumberish,
+  BytesLike,
+  CallOverrides,
+  Contract,
+  ContractTransaction,
+  Overrides,
+  PayableOverrides,
+  PopulatedTransaction,
+} from 'ethers';
+
+export interface LiquidityMining extends Contract {
+  functions: {
+    BONUS_BLOCK_MULTIPLIER(overrides?: CallOverrides): Promise<[BigNumber]>;
+    PRECISION(overrides?: CallOverrides): Promise<[BigNumber]>;
+    SECONDS_PER_BLOCK(overrides?: CallOverrides): Promise<[BigNumber]>;
+    SOV(overrides?: CallOverrides): Promise<[string]>;
+    add(
+      _poolToken: string,
+      _allocationPoint: BigNumberish,
+      _withUpdate: boolean,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    addAdmin(
+      _admin: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    admins(arg0: string, overrides?: CallOverrides): Promise<[boolean]>;
+    bonusEndBlock(overrides?: CallOverrides): Promise<[BigNumber]>;
+    calcUnlockedImmediatelyPercent(
+      _poolToken: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    claimReward(
+      _poolToken: string,
+      _user: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    claimRewardFromAllPools(
+      _user: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    deposit(
+      _poolToken: string,
+      _amount: BigNumberish,
+      _user: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    emergencyWithdraw(
+      _poolToken: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    endBlock(overrides?: CallOverrides): Promise<[BigNumber]>;
+    getEstimatedReward(
+      _poolToken: string,
+      _amount: BigNumberish,
+      _duration: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    getMissedBalance(overrides?: CallOverrides): Promise<[BigNumber]>;
+    getPoolId(
+      _poolToken: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    getPoolInfo(
+      _poolToken: string,
+      overrides?: CallOverrides,
+    ): Promise<
+      [
+        [string, BigNumber, BigNumber, BigNumber] & {
+          poolToken: string;
+          allocationPoint: BigNumber;
+          lastRewardBlock: BigNumber;
+          accumulatedRewardPerShare: BigNumber;
+        },
+      ]
+    >;
+    getPoolInfoList(
+      overrides?: CallOverrides,
+    ): Promise<
+      [
+        ([string, BigNumber, BigNumber, BigNumber] & {
+          poolToken: string;
+          allocationPoint: BigNumber;
+          lastRewardBlock: BigNumber;
+          accumulatedRewardPerShare: BigNumber;
+        })[],
+      ]
+    >;
+    getPoolLength(overrides?: CallOverrides): Promise<[BigNumber]>;
+    getUserAccumulatedReward(
+      _poolToken: string,
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    getUserAccumulatedRewardList(
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber[]]>;
+    getUserAccumulatedRewardToBePaidLiquid(
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    getUserAccumulatedRewardToBeVested(
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    getUserBalanceList(
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber[][]]>;
+    getUserInfo(
+      _poolToken: string,
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<
+      [
+        [BigNumber, BigNumber, BigNumber] & {
+          amount: BigNumber;
+          rewardDebt: BigNumber;
+          accumulatedReward: BigNumber;
+        },
+      ]
+    >;
+    getUserInfoList(
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<
+      [
+        ([BigNumber, BigNumber, BigNumber] & {
+          amount: BigNumber;
+          rewardDebt: BigNumber;
+          accumulatedReward: BigNumber;
+        })[],
+      ]
+    >;
+    getUserPoolTokenBalance(
+      _poolToken: string,
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    initialize(
+      _SOV: string,
+      _rewardTokensPerBlock: BigNumberish,
+      _startDelayBlocks: BigNumberish,
+      _numberOfBonusBlocks: BigNumberish,
+      _wrapper: string,
+      _lockedSOV: string,
+      _unlockedImmediatelyPercent: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    isOwner(overrides?: CallOverrides): Promise<[boolean]>;
+    lockedSOV(overrides?: CallOverrides): Promise<[string]>;
+    onTokensDeposited(
+      _user: string,
+      _amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    owner(overrides?: CallOverrides): Promise<[string]>;
+    poolInfoList(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<
+      [string, BigNumber, BigNumber, BigNumber] & {
+        poolToken: string;
+        allocationPoint: BigNumber;
+        lastRewardBlock: BigNumber;
+        accumulatedRewardPerShare: BigNumber;
+      }
+    >;
+    poolTokensUnlockedImmediatelyPercent(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    removeAdmin(
+      _admin: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    rewardTokensPerBlock(overrides?: CallOverrides): Promise<[BigNumber]>;
+    setLockedSOV(
+      _lockedSOV: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setPoolTokenUnlockedImmediatelyPercent(
+      _poolToken: string,
+      _poolTokenUnlockedImmediatelyPercent: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setUnlockedImmediatelyPercent(
+      _unlockedImmediatelyPercent: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setWrapper(
+      _wrapper: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    startBlock(overrides?: CallOverrides): Promise<[BigNumber]>;
+    stopMining(
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    totalAllocationPoint(overrides?: CallOverrides): Promise<[BigNumber]>;
+    totalUsersBalance(overrides?: CallOverrides): Promise<[BigNumber]>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    transferSOV(
+      _receiver: string,
+      _amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    unlockedImmediatelyPercent(overrides?: CallOverrides): Promise<[BigNumber]>;
+    update(
+      _poolToken: string,
+      _allocationPoint: BigNumberish,
+      _updateAllFlag: boolean,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    updateAllPools(
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    updatePool(
+      _poolToken: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    updateTokens(
+      _poolTokens: string[],
+      _allocationPoints: BigNumberish[],
+      _updateAllFlag: boolean,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    userInfoMap(
+      arg0: BigNumberish,
+      arg1: string,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, BigNumber, BigNumber] & {
+        amount: BigNumber;
+        rewardDebt: BigNumber;
+        accumulatedReward: BigNumber;
+      }
+    >;
+    withdraw(
+      _poolToken: string,
+      _amount: BigNumberish,
+      _user: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    wrapper(overrides?: CallOverrides): Promise<[string]>;
+  };
+
+  callStatic: {
+    BONUS_BLOCK_MULTIPLIER(overrides?: CallOverrides): Promise<BigNumber>;
+    PRECISION(overrides?: CallOverrides): Promise<BigNumber>;
+    SECONDS_PER_BLOCK(overrides?: CallOverrides): Promise<BigNumber>;
+    SOV(overrides?: CallOverrides): Promise<string>;
+    add(
+      _poolToken: string,
+      _allocationPoint: BigNumberish,
+      _withUpdate: boolean,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    addAdmin(_admin: string, overrides?: CallOverrides): Promise<void>;
+    admins(arg0: string, overrides?: CallOverrides): Promise<boolean>;
+    bonusEndBlock(overrides?: CallOverrides): Promise<BigNumber>;
+    calcUnlockedImmediatelyPercent(
+      _poolToken: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    claimReward(
+      _poolToken: string,
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    claimRewardFromAllPools(
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    deposit(
+      _poolToken: string,
+      _amount: BigNumberish,
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    emergencyWithdraw(
+      _poolToken: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    endBlock(overrides?: CallOverrides): Promise<BigNumber>;
+    getEstimatedReward(
+      _poolToken: string,
+      _amount: BigNumberish,
+      _duration: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getMissedBalance(overrides?: CallOverrides): Promise<BigNumber>;
+    getPoolId(
+      _poolToken: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getPoolInfo(
+      _poolToken: string,
+      overrides?: CallOverrides,
+    ): Promise<
+      [string, BigNumber, BigNumber, BigNumber] & {
+        poolToken: string;
+        allocationPoint: BigNumber;
+        lastRewardBlock: BigNumber;
+        accumulatedRewardPerShare: BigNumber;
+      }
+    >;
+    getPoolInfoList(
+      overrides?: CallOverrides,
+    ): Promise<
+      ([string, BigNumber, BigNumber, BigNumber] & {
+        poolToken: string;
+        allocationPoint: BigNumber;
+        lastRewardBlock: BigNumber;
+        accumulatedRewardPerShare: BigNumber;
+      })[]
+    >;
+    getPoolLength(overrides?: CallOverrides): Promise<BigNumber>;
+    getUserAccumulatedReward(
+      _poolToken: string,
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getUserAccumulatedRewardList(
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber[]>;
+    getUserAccumulatedRewardToBePaidLiquid(
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getUserAccumulatedRewardToBeVested(
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getUserBalanceList(
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber[][]>;
+    getUserInfo(
+      _poolToken: string,
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, BigNumber, BigNumber] & {
+        amount: BigNumber;
+        rewardDebt: BigNumber;
+        accumulatedReward: BigNumber;
+      }
+    >;
+    getUserInfoList(
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<
+      ([BigNumber, BigNumber, BigNumber] & {
+        amount: BigNumber;
+        rewardDebt: BigNumber;
+        accumulatedReward: BigNumber;
+      })[]
+    >;
+    getUserPoolTokenBalance(
+      _poolToken: string,
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    initialize(
+      _SOV: string,
+      _rewardTokensPerBlock: BigNumberish,
+      _startDelayBlocks: BigNumberish,
+      _numberOfBonusBlocks: BigNumberish,
+      _wrapper: string,
+      _lockedSOV: string,
+      _unlockedImmediatelyPercent: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    isOwner(overrides?: CallOverrides): Promise<boolean>;
+    lockedSOV(overrides?: CallOverrides): Promise<string>;
+    onTokensDeposited(
+      _user: string,
+      _amount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    owner(overrides?: CallOverrides): Promise<string>;
+    poolInfoList(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<
+      [string, BigNumber, BigNumber, BigNumber] & {
+        poolToken: string;
+        allocationPoint: BigNumber;
+        lastRewardBlock: BigNumber;
+        accumulatedRewardPerShare: BigNumber;
+      }
+    >;
+    poolTokensUnlockedImmediatelyPercent(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    removeAdmin(_admin: string, overrides?: CallOverrides): Promise<void>;
+    rewardTokensPerBlock(overrides?: CallOverrides): Promise<BigNumber>;
+    setLockedSOV(_lockedSOV: string, overrides?: CallOverrides): Promise<void>;
+    setPoolTokenUnlockedImmediatelyPercent(
+      _poolToken: string,
+      _poolTokenUnlockedImmediatelyPercent: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setUnlockedImmediatelyPercent(
+      _unlockedImmediatelyPercent: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setWrapper(_wrapper: string, overrides?: CallOverrides): Promise<void>;
+    startBlock(overrides?: CallOverrides): Promise<BigNumber>;
+    stopMining(overrides?: CallOverrides): Promise<void>;
+    totalAllocationPoint(overrides?: CallOverrides): Promise<BigNumber>;
+    totalUsersBalance(overrides?: CallOverrides): Promise<BigNumber>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    transferSOV(
+      _receiver: string,
+      _amount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    unlockedImmediatelyPercent(overrides?: CallOverrides): Promise<BigNumber>;
+    update(
+      _poolToken: string,
+      _allocationPoint: BigNumberish,
+      _updateAllFlag: boolean,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    updateAllPools(overrides?: CallOverrides): Promise<void>;
+    updatePool(_poolToken: string, overrides?: CallOverrides): Promise<void>;
+    updateTokens(
+      _poolTokens: string[],
+      _allocationPoints: BigNumberish[],
+      _updateAllFlag: boolean,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    userInfoMap(
+      arg0: BigNumberish,
+      arg1: string,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, BigNumber, BigNumber] & {
+        amount: BigNumber;
+        rewardDebt: BigNumber;
+        accumulatedReward: BigNumber;
+      }
+    >;
+    withdraw(
+      _poolToken: string,
+      _amount: BigNumberish,
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    wrapper(overrides?: CallOverrides): Promise<string>;
+  };
+
+  estimateGas: {
+    BONUS_BLOCK_MULTIPLIER(overrides?: CallOverrides): Promise<BigNumber>;
+    PRECISION(overrides?: CallOverrides): Promise<BigNumber>;
+    SECONDS_PER_BLOCK(overrides?: CallOverrides): Promise<BigNumber>;
+    SOV(overrides?: CallOverrides): Promise<BigNumber>;
+    add(
+      _poolToken: string,
+      _allocationPoint: BigNumberish,
+      _withUpdate: boolean,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    addAdmin(
+      _admin: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    admins(arg0: string, overrides?: CallOverrides): Promise<BigNumber>;
+    bonusEndBlock(overrides?: CallOverrides): Promise<BigNumber>;
+    calcUnlockedImmediatelyPercent(
+      _poolToken: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    claimReward(
+      _poolToken: string,
+      _user: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    claimRewardFromAllPools(
+      _user: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    deposit(
+      _poolToken: string,
+      _amount: BigNumberish,
+      _user: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    emergencyWithdraw(
+      _poolToken: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    endBlock(overrides?: CallOverrides): Promise<BigNumber>;
+    getEstimatedReward(
+      _poolToken: string,
+      _amount: BigNumberish,
+      _duration: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getMissedBalance(overrides?: CallOverrides): Promise<BigNumber>;
+    getPoolId(
+      _poolToken: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getPoolInfo(
+      _poolToken: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getPoolInfoList(overrides?: CallOverrides): Promise<BigNumber>;
+    getPoolLength(overrides?: CallOverrides): Promise<BigNumber>;
+    getUserAccumulatedReward(
+      _poolToken: string,
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getUserAccumulatedRewardList(
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getUserAccumulatedRewardToBePaidLiquid(
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getUserAccumulatedRewardToBeVested(
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getUserBalanceList(
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getUserInfo(
+      _poolToken: string,
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getUserInfoList(
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getUserPoolTokenBalance(
+      _poolToken: string,
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    initialize(
+      _SOV: string,
+      _rewardTokensPerBlock: BigNumberish,
+      _startDelayBlocks: BigNumberish,
+      _numberOfBonusBlocks: BigNumberish,
+      _wrapper: string,
+      _lockedSOV: string,
+      _unlockedImmediatelyPercent: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    isOwner(overrides?: CallOverrides): Promise<BigNumber>;
+    lockedSOV(overrides?: CallOverrides): Promise<BigNumber>;
+    onTokensDeposited(
+      _user: string,
+      _amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    owner(overrides?: CallOverrides): Promise<BigNumber>;
+    poolInfoList(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    poolTokensUnlockedImmediatelyPercent(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    removeAdmin(
+      _admin: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    rewardTokensPerBlock(overrides?: CallOverrides): Promise<BigNumber>;
+    setLockedSOV(
+      _lockedSOV: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setPoolTokenUnlockedImmediatelyPercent(
+      _poolToken: string,
+      _poolTokenUnlockedImmediatelyPercent: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setUnlockedImmediatelyPercent(
+      _unlockedImmediatelyPercent: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setWrapper(
+      _wrapper: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    startBlock(overrides?: CallOverrides): Promise<BigNumber>;
+    stopMining(overrides?: Overrides & { from?: string }): Promise<BigNumber>;
+    totalAllocationPoint(overrides?: CallOverrides): Promise<BigNumber>;
+    totalUsersBalance(overrides?: CallOverrides): Promise<BigNumber>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    transferSOV(
+      _receiver: string,
+      _amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    unlockedImmediatelyPercent(overrides?: CallOverrides): Promise<BigNumber>;
+    update(
+      _poolToken: string,
+      _allocationPoint: BigNumberish,
+      _updateAllFlag: boolean,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    updateAllPools(
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    updatePool(
+      _poolToken: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    updateTokens(
+      _poolTokens: string[],
+      _allocationPoints: BigNumberish[],
+      _updateAllFlag: boolean,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    userInfoMap(
+      arg0: BigNumberish,
+      arg1: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    withdraw(
+      _poolToken: string,
+      _amount: BigNumberish,
+      _user: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    wrapper(overrides?: CallOverrides): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    BONUS_BLOCK_MULTIPLIER(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    PRECISION(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    SECONDS_PER_BLOCK(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    SOV(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    add(
+      _poolToken: string,
+      _allocationPoint: BigNumberish,
+      _withUpdate: boolean,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    addAdmin(
+      _admin: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    admins(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    bonusEndBlock(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    calcUnlockedImmediatelyPercent(
+      _poolToken: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    claimReward(
+      _poolToken: string,
+      _user: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    claimRewardFromAllPools(
+      _user: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    deposit(
+      _poolToken: string,
+      _amount: BigNumberish,
+      _user: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    emergencyWithdraw(
+      _poolToken: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    endBlock(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    getEstimatedReward(
+      _poolToken: string,
+      _amount: BigNumberish,
+      _duration: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getMissedBalance(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    getPoolId(
+      _poolToken: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getPoolInfo(
+      _poolToken: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getPoolInfoList(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    getPoolLength(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    getUserAccumulatedReward(
+      _poolToken: string,
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getUserAccumulatedRewardList(
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getUserAccumulatedRewardToBePaidLiquid(
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getUserAccumulatedRewardToBeVested(
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getUserBalanceList(
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getUserInfo(
+      _poolToken: string,
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getUserInfoList(
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getUserPoolTokenBalance(
+      _poolToken: string,
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    initialize(
+      _SOV: string,
+      _rewardTokensPerBlock: BigNumberish,
+      _startDelayBlocks: BigNumberish,
+      _numberOfBonusBlocks: BigNumberish,
+      _wrapper: string,
+      _lockedSOV: string,
+      _unlockedImmediatelyPercent: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    isOwner(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    lockedSOV(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    onTokensDeposited(
+      _user: string,
+      _amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    owner(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    poolInfoList(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    poolTokensUnlockedImmediatelyPercent(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    removeAdmin(
+      _admin: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    rewardTokensPerBlock(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    setLockedSOV(
+      _lockedSOV: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setPoolTokenUnlockedImmediatelyPercent(
+      _poolToken: string,
+      _poolTokenUnlockedImmediatelyPercent: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setUnlockedImmediatelyPercent(
+      _unlockedImmediatelyPercent: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setWrapper(
+      _wrapper: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    startBlock(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    stopMining(
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    totalAllocationPoint(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    totalUsersBalance(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    transferSOV(
+      _receiver: string,
+      _amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    unlockedImmediatelyPercent(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    update(
+      _poolToken: string,
+      _allocationPoint: BigNumberish,
+      _updateAllFlag: boolean,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    updateAllPools(
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    updatePool(
+      _poolToken: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    updateTokens(
+      _poolTokens: string[],
+      _allocationPoints: BigNumberish[],
+      _updateAllFlag: boolean,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    userInfoMap(
+      arg0: BigNumberish,
+      arg1: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    withdraw(
+      _poolToken: string,
+      _amount: BigNumberish,
+      _user: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    wrapper(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+  };
+
+  BONUS_BLOCK_MULTIPLIER(overrides?: CallOverrides): Promise<BigNumber>;
+  PRECISION(overrides?: CallOverrides): Promise<BigNumber>;
+  SECONDS_PER_BLOCK(overrides?: CallOverrides): Promise<BigNumber>;
+  SOV(overrides?: CallOverrides): Promise<string>;
+  add(
+    _poolToken: string,
+    _allocationPoint: BigNumberish,
+    _withUpdate: boolean,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  addAdmin(
+    _admin: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  admins(arg0: string, overrides?: CallOverrides): Promise<boolean>;
+  bonusEndBlock(overrides?: CallOverrides): Promise<BigNumber>;
+  calcUnlockedImmediatelyPercent(
+    _poolToken: string,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  claimReward(
+    _poolToken: string,
+    _user: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  claimRewardFromAllPools(
+    _user: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  deposit(
+    _poolToken: string,
+    _amount: BigNumberish,
+    _user: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  emergencyWithdraw(
+    _poolToken: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  endBlock(overrides?: CallOverrides): Promise<BigNumber>;
+  getEstimatedReward(
+    _poolToken: string,
+    _amount: BigNumberish,
+    _duration: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  getMissedBalance(overrides?: CallOverrides): Promise<BigNumber>;
+  getPoolId(_poolToken: string, overrides?: CallOverrides): Promise<BigNumber>;
+  getPoolInfo(
+    _poolToken: string,
+    overrides?: CallOverrides,
+  ): Promise<
+    [string, BigNumber, BigNumber, BigNumber] & {
+      poolToken: string;
+      allocationPoint: BigNumber;
+      lastRewardBlock: BigNumber;
+      accumulatedRewardPerShare: BigNumber;
+    }
+  >;
+  getPoolInfoList(
+    overrides?: CallOverrides,
+  ): Promise<
+    ([string, BigNumber, BigNumber, BigNumber] & {
+      poolToken: string;
+      allocationPoint: BigNumber;
+      lastRewardBlock: BigNumber;
+      accumulatedRewardPerShare: BigNumber;
+    })[]
+  >;
+  getPoolLength(overrides?: CallOverrides): Promise<BigNumber>;
+  getUserAccumulatedReward(
+    _poolToken: string,
+    _user: string,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  getUserAccumulatedRewardList(
+    _user: string,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber[]>;
+  getUserAccumulatedRewardToBePaidLiquid(
+    _user: string,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  getUserAccumulatedRewardToBeVested(
+    _user: string,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  getUserBalanceList(
+    _user: string,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber[][]>;
+  getUserInfo(
+    _poolToken: string,
+    _user: string,
+    overrides?: CallOverrides,
+  ): Promise<
+    [BigNumber, BigNumber, BigNumber] & {
+      amount: BigNumber;
+      rewardDebt: BigNumber;
+      accumulatedReward: BigNumber;
+    }
+  >;
+  getUserInfoList(
+    _user: string,
+    overrides?: CallOverrides,
+  ): Promise<
+    ([BigNumber, BigNumber, BigNumber] & {
+      amount: BigNumber;
+      rewardDebt: BigNumber;
+      accumulatedReward: BigNumber;
+    })[]
+  >;
+  getUserPoolTokenBalance(
+    _poolToken: string,
+    _user: string,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  initialize(
+    _SOV: string,
+    _rewardTokensPerBlock: BigNumberish,
+    _startDelayBlocks: BigNumberish,
+    _numberOfBonusBlocks: BigNumberish,
+    _wrapper: string,
+    _lockedSOV: string,
+    _unlockedImmediatelyPercent: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  isOwner(overrides?: CallOverrides): Promise<boolean>;
+  lockedSOV(overrides?: CallOverrides): Promise<string>;
+  onTokensDeposited(
+    _user: string,
+    _amount: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  owner(overrides?: CallOverrides): Promise<string>;
+  poolInfoList(
+    arg0: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<
+    [string, BigNumber, BigNumber, BigNumber] & {
+      poolToken: string;
+      allocationPoint: BigNumber;
+      lastRewardBlock: BigNumber;
+      accumulatedRewardPerShare: BigNumber;
+    }
+  >;
+  poolTokensUnlockedImmediatelyPercent(
+    arg0: string,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  removeAdmin(
+    _admin: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  rewardTokensPerBlock(overrides?: CallOverrides): Promise<BigNumber>;
+  setLockedSOV(
+    _lockedSOV: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setPoolTokenUnlockedImmediatelyPercent(
+    _poolToken: string,
+    _poolTokenUnlockedImmediatelyPercent: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setUnlockedImmediatelyPercent(
+    _unlockedImmediatelyPercent: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setWrapper(
+    _wrapper: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  startBlock(overrides?: CallOverrides): Promise<BigNumber>;
+  stopMining(
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  totalAllocationPoint(overrides?: CallOverrides): Promise<BigNumber>;
+  totalUsersBalance(overrides?: CallOverrides): Promise<BigNumber>;
+  transferOwnership(
+    newOwner: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  transferSOV(
+    _receiver: string,
+    _amount: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  unlockedImmediatelyPercent(overrides?: CallOverrides): Promise<BigNumber>;
+  update(
+    _poolToken: string,
+    _allocationPoint: BigNumberish,
+    _updateAllFlag: boolean,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  updateAllPools(
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  updatePool(
+    _poolToken: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  updateTokens(
+    _poolTokens: string[],
+    _allocationPoints: BigNumberish[],
+    _updateAllFlag: boolean,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  userInfoMap(
+    arg0: BigNumberish,
+    arg1: string,
+    overrides?: CallOverrides,
+  ): Promise<
+    [BigNumber, BigNumber, BigNumber] & {
+      amount: BigNumber;
+      rewardDebt: BigNumber;
+      accumulatedReward: BigNumber;
+    }
+  >;
+  withdraw(
+    _poolToken: string,
+    _amount: BigNumberish,
+    _user: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  wrapper(overrides?: CallOverrides): Promise<string>;
+}
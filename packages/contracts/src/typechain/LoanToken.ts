@@ -0,0 +1,1014 @@
+/* Autogenerated file. Do not edit manually. */
+
+/* eslint-disable */
+import type {
+  BigNumber,
+  BigNumberish,
+  BytesLike,
+  CallOverrides,
+  Contract,
+  ContractTransaction,
+  Overrides,
+  PayableOverrides,
+  PopulatedTransaction,
+} from 'ethers';
+
+export interface LoanToken extends Contract {
+  functions: {
+    TINY_AMOUNT(overrides?: CallOverrides): Promise<[BigNumber]>;
+    VERSION(overrides?: CallOverrides): Promise<[BigNumber]>;
+    admin(overrides?: CallOverrides): Promise<[string]>;
+    allowance(
+      _owner: string,
+      _spender: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    approve(
+      _spender: string,
+      _value: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    assetBalanceOf(
+      _owner: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    avgBorrowInterestRate(overrides?: CallOverrides): Promise<[BigNumber]>;
+    balanceOf(_owner: string, overrides?: CallOverrides): Promise<[BigNumber]>;
+    baseRate(overrides?: CallOverrides): Promise<[BigNumber]>;
+    borrow(
+      loanId: BytesLike,
+      withdrawAmount: BigNumberish,
+      initialLoanDuration: BigNumberish,
+      collateralTokenSent: BigNumberish,
+      collateralTokenAddress: string,
+      borrower: string,
+      receiver: string,
+      arg7: BytesLike,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    borrowInterestRate(overrides?: CallOverrides): Promise<[BigNumber]>;
+    'burn(address,uint256,bool)'(
+      receiver: string,
+      burnAmount: BigNumberish,
+      useLM: boolean,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    'burn(address,uint256)'(
+      receiver: string,
+      burnAmount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    calculateSupplyInterestRate(
+      assetBorrow: BigNumberish,
+      assetSupply: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    checkPause(
+      funcId: string,
+      overrides?: CallOverrides,
+    ): Promise<[boolean] & { isPaused: boolean }>;
+    checkPriceDivergence(
+      loanTokenSent: BigNumberish,
+      collateralTokenAddress: string,
+      minEntryPrice: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[]>;
+    checkpointPrice(
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber] & { price: BigNumber }>;
+    checkpointSupply(overrides?: CallOverrides): Promise<[BigNumber]>;
+    decimals(overrides?: CallOverrides): Promise<[number]>;
+    earlyAccessToken(overrides?: CallOverrides): Promise<[string]>;
+    getBorrowAmountForDeposit(
+      depositAmount: BigNumberish,
+      initialLoanDuration: BigNumberish,
+      collateralTokenAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber] & { borrowAmount: BigNumber }>;
+    getDepositAmountForBorrow(
+      borrowAmount: BigNumberish,
+      initialLoanDuration: BigNumberish,
+      collateralTokenAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber] & { depositAmount: BigNumber }>;
+    getEstimatedMarginDetails(
+      leverageAmount: BigNumberish,
+      loanTokenSent: BigNumberish,
+      collateralTokenSent: BigNumberish,
+      collateralTokenAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, BigNumber, BigNumber] & {
+        principal: BigNumber;
+        collateral: BigNumber;
+        interestRate: BigNumber;
+      }
+    >;
+    getLiquidityMiningAddress(overrides?: CallOverrides): Promise<[string]>;
+    getListFunctionSignatures(
+      overrides?: CallOverrides,
+    ): Promise<
+      [string[], string] & { functionSignatures: string[]; moduleName: string }
+    >;
+    getMaxEscrowAmount(
+      leverageAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber] & { maxEscrowAmount: BigNumber }>;
+    initialPrice(overrides?: CallOverrides): Promise<[BigNumber]>;
+    isOwner(overrides?: CallOverrides): Promise<[boolean]>;
+    kinkLevel(overrides?: CallOverrides): Promise<[BigNumber]>;
+    liquidityMiningAddress(overrides?: CallOverrides): Promise<[string]>;
+    loanParamsIds(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[string]>;
+    loanTokenAddress(overrides?: CallOverrides): Promise<[string]>;
+    lowUtilBaseRate(overrides?: CallOverrides): Promise<[BigNumber]>;
+    lowUtilRateMultiplier(overrides?: CallOverrides): Promise<[BigNumber]>;
+    marginTrade(
+      loanId: BytesLike,
+      leverageAmount: BigNumberish,
+      loanTokenSent: BigNumberish,
+      collateralTokenSent: BigNumberish,
+      collateralTokenAddress: string,
+      trader: string,
+      minEntryPrice: BigNumberish,
+      loanDataBytes: BytesLike,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    marginTradeAffiliate(
+      loanId: BytesLike,
+      leverageAmount: BigNumberish,
+      loanTokenSent: BigNumberish,
+      collateralTokenSent: BigNumberish,
+      collateralTokenAddress: string,
+      trader: string,
+      minEntryPrice: BigNumberish,
+      affiliateReferrer: string,
+      loanDataBytes: BytesLike,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    marketLiquidity(overrides?: CallOverrides): Promise<[BigNumber]>;
+    maxScaleRate(overrides?: CallOverrides): Promise<[BigNumber]>;
+    'mint(address,uint256)'(
+      receiver: string,
+      depositAmount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    'mint(address,uint256,bool)'(
+      receiver: string,
+      depositAmount: BigNumberish,
+      useLM: boolean,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    name(overrides?: CallOverrides): Promise<[string]>;
+    nextBorrowInterestRate(
+      borrowAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    nextSupplyInterestRate(
+      supplyAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    owner(overrides?: CallOverrides): Promise<[string]>;
+    pauser(overrides?: CallOverrides): Promise<[string]>;
+    profitOf(user: string, overrides?: CallOverrides): Promise<[BigNumber]>;
+    rateMultiplier(overrides?: CallOverrides): Promise<[BigNumber]>;
+    setLiquidityMiningAddress(
+      LMAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    sovrynContractAddress(overrides?: CallOverrides): Promise<[string]>;
+    stringToBytes32(
+      source: string,
+      overrides?: CallOverrides,
+    ): Promise<[string] & { result: string }>;
+    supplyInterestRate(overrides?: CallOverrides): Promise<[BigNumber]>;
+    symbol(overrides?: CallOverrides): Promise<[string]>;
+    targetLevel(overrides?: CallOverrides): Promise<[BigNumber]>;
+    target_(overrides?: CallOverrides): Promise<[string]>;
+    tokenPrice(
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber] & { price: BigNumber }>;
+    totalAssetBorrow(overrides?: CallOverrides): Promise<[BigNumber]>;
+    totalAssetSupply(overrides?: CallOverrides): Promise<[BigNumber]>;
+    totalSupply(overrides?: CallOverrides): Promise<[BigNumber]>;
+    totalSupplyInterestRate(
+      assetSupply: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    transactionLimit(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    transfer(
+      _to: string,
+      _value: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    transferFrom(
+      _from: string,
+      _to: string,
+      _value: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    withdrawRBTCTo(
+      _receiverAddress: string,
+      _amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    wrbtcTokenAddress(overrides?: CallOverrides): Promise<[string]>;
+  };
+
+  callStatic: {
+    TINY_AMOUNT(overrides?: CallOverrides): Promise<BigNumber>;
+    VERSION(overrides?: CallOverrides): Promise<BigNumber>;
+    admin(overrides?: CallOverrides): Promise<string>;
+    allowance(
+      _owner: string,
+      _spender: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    approve(
+      _spender: string,
+      _value: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<boolean>;
+    assetBalanceOf(
+      _owner: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    avgBorrowInterestRate(overrides?: CallOverrides): Promise<BigNumber>;
+    balanceOf(_owner: string, overrides?: CallOverrides): Promise<BigNumber>;
+    baseRate(overrides?: CallOverrides): Promise<BigNumber>;
+    borrow(
+      loanId: BytesLike,
+      withdrawAmount: BigNumberish,
+      initialLoanDuration: BigNumberish,
+      collateralTokenSent: BigNumberish,
+      collateralTokenAddress: string,
+      borrower: string,
+      receiver: string,
+      arg7: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber, BigNumber]>;
+    borrowInterestRate(overrides?: CallOverrides): Promise<BigNumber>;
+    'burn(address,uint256,bool)'(
+      receiver: string,
+      burnAmount: BigNumberish,
+      useLM: boolean,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    'burn(address,uint256)'(
+      receiver: string,
+      burnAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    calculateSupplyInterestRate(
+      assetBorrow: BigNumberish,
+      assetSupply: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    checkPause(funcId: string, overrides?: CallOverrides): Promise<boolean>;
+    checkPriceDivergence(
+      loanTokenSent: BigNumberish,
+      collateralTokenAddress: string,
+      minEntryPrice: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    checkpointPrice(
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    checkpointSupply(overrides?: CallOverrides): Promise<BigNumber>;
+    decimals(overrides?: CallOverrides): Promise<number>;
+    earlyAccessToken(overrides?: CallOverrides): Promise<string>;
+    getBorrowAmountForDeposit(
+      depositAmount: BigNumberish,
+      initialLoanDuration: BigNumberish,
+      collateralTokenAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getDepositAmountForBorrow(
+      borrowAmount: BigNumberish,
+      initialLoanDuration: BigNumberish,
+      collateralTokenAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getEstimatedMarginDetails(
+      leverageAmount: BigNumberish,
+      loanTokenSent: BigNumberish,
+      collateralTokenSent: BigNumberish,
+      collateralTokenAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, BigNumber, BigNumber] & {
+        principal: BigNumber;
+        collateral: BigNumber;
+        interestRate: BigNumber;
+      }
+    >;
+    getLiquidityMiningAddress(overrides?: CallOverrides): Promise<string>;
+    getListFunctionSignatures(
+      overrides?: CallOverrides,
+    ): Promise<
+      [string[], string] & { functionSignatures: string[]; moduleName: string }
+    >;
+    getMaxEscrowAmount(
+      leverageAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    initialPrice(overrides?: CallOverrides): Promise<BigNumber>;
+    isOwner(overrides?: CallOverrides): Promise<boolean>;
+    kinkLevel(overrides?: CallOverrides): Promise<BigNumber>;
+    liquidityMiningAddress(overrides?: CallOverrides): Promise<string>;
+    loanParamsIds(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<string>;
+    loanTokenAddress(overrides?: CallOverrides): Promise<string>;
+    lowUtilBaseRate(overrides?: CallOverrides): Promise<BigNumber>;
+    lowUtilRateMultiplier(overrides?: CallOverrides): Promise<BigNumber>;
+    marginTrade(
+      loanId: BytesLike,
+      leverageAmount: BigNumberish,
+      loanTokenSent: BigNumberish,
+      collateralTokenSent: BigNumberish,
+      collateralTokenAddress: string,
+      trader: string,
+      minEntryPrice: BigNumberish,
+      loanDataBytes: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber, BigNumber]>;
+    marginTradeAffiliate(
+      loanId: BytesLike,
+      leverageAmount: BigNumberish,
+      loanTokenSent: BigNumberish,
+      collateralTokenSent: BigNumberish,
+      collateralTokenAddress: string,
+      trader: string,
+      minEntryPrice: BigNumberish,
+      affiliateReferrer: string,
+      loanDataBytes: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber, BigNumber]>;
+    marketLiquidity(overrides?: CallOverrides): Promise<BigNumber>;
+    maxScaleRate(overrides?: CallOverrides): Promise<BigNumber>;
+    'mint(address,uint256)'(
+      receiver: string,
+      depositAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    'mint(address,uint256,bool)'(
+      receiver: string,
+      depositAmount: BigNumberish,
+      useLM: boolean,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    name(overrides?: CallOverrides): Promise<string>;
+    nextBorrowInterestRate(
+      borrowAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    nextSupplyInterestRate(
+      supplyAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    owner(overrides?: CallOverrides): Promise<string>;
+    pauser(overrides?: CallOverrides): Promise<string>;
+    profitOf(user: string, overrides?: CallOverrides): Promise<BigNumber>;
+    rateMultiplier(overrides?: CallOverrides): Promise<BigNumber>;
+    setLiquidityMiningAddress(
+      LMAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    sovrynContractAddress(overrides?: CallOverrides): Promise<string>;
+    stringToBytes32(source: string, overrides?: CallOverrides): Promise<string>;
+    supplyInterestRate(overrides?: CallOverrides): Promise<BigNumber>;
+    symbol(overrides?: CallOverrides): Promise<string>;
+    targetLevel(overrides?: CallOverrides): Promise<BigNumber>;
+    target_(overrides?: CallOverrides): Promise<string>;
+    tokenPrice(overrides?: CallOverrides): Promise<BigNumber>;
+    totalAssetBorrow(overrides?: CallOverrides): Promise<BigNumber>;
+    totalAssetSupply(overrides?: CallOverrides): Promise<BigNumber>;
+    totalSupply(overrides?: CallOverrides): Promise<BigNumber>;
+    totalSupplyInterestRate(
+      assetSupply: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    transactionLimit(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    transfer(
+      _to: string,
+      _value: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<boolean>;
+    transferFrom(
+      _from: string,
+      _to: string,
+      _value: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<boolean>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    withdrawRBTCTo(
+      _receiverAddress: string,
+      _amount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    wrbtcTokenAddress(overrides?: CallOverrides): Promise<string>;
+  };
+
+  estimateGas: {
+    TINY_AMOUNT(overrides?: CallOverrides): Promise<BigNumber>;
+    VERSION(overrides?: CallOverrides): Promise<BigNumber>;
+    admin(overrides?: CallOverrides): Promise<BigNumber>;
+    allowance(
+      _owner: string,
+      _spender: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    approve(
+      _spender: string,
+      _value: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    assetBalanceOf(
+      _owner: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    avgBorrowInterestRate(overrides?: CallOverrides): Promise<BigNumber>;
+    balanceOf(_owner: string, overrides?: CallOverrides): Promise<BigNumber>;
+    baseRate(overrides?: CallOverrides): Promise<BigNumber>;
+    borrow(
+      loanId: BytesLike,
+      withdrawAmount: BigNumberish,
+      initialLoanDuration: BigNumberish,
+      collateralTokenSent: BigNumberish,
+      collateralTokenAddress: string,
+      borrower: string,
+      receiver: string,
+      arg7: BytesLike,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<BigNumber>;
+    borrowInterestRate(overrides?: CallOverrides): Promise<BigNumber>;
+    'burn(address,uint256,bool)'(
+      receiver: string,
+      burnAmount: BigNumberish,
+      useLM: boolean,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    'burn(address,uint256)'(
+      receiver: string,
+      burnAmount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    calculateSupplyInterestRate(
+      assetBorrow: BigNumberish,
+      assetSupply: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    checkPause(funcId: string, overrides?: CallOverrides): Promise<BigNumber>;
+    checkPriceDivergence(
+      loanTokenSent: BigNumberish,
+      collateralTokenAddress: string,
+      minEntryPrice: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    checkpointPrice(
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    checkpointSupply(overrides?: CallOverrides): Promise<BigNumber>;
+    decimals(overrides?: CallOverrides): Promise<BigNumber>;
+    earlyAccessToken(overrides?: CallOverrides): Promise<BigNumber>;
+    getBorrowAmountForDeposit(
+      depositAmount: BigNumberish,
+      initialLoanDuration: BigNumberish,
+      collateralTokenAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getDepositAmountForBorrow(
+      borrowAmount: BigNumberish,
+      initialLoanDuration: BigNumberish,
+      collateralTokenAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getEstimatedMarginDetails(
+      leverageAmount: BigNumberish,
+      loanTokenSent: BigNumberish,
+      collateralTokenSent: BigNumberish,
+      collateralTokenAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getLiquidityMiningAddress(overrides?: CallOverrides): Promise<BigNumber>;
+    getListFunctionSignatures(overrides?: CallOverrides): Promise<BigNumber>;
+    getMaxEscrowAmount(
+      leverageAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    initialPrice(overrides?: CallOverrides): Promise<BigNumber>;
+    isOwner(overrides?: CallOverrides): Promise<BigNumber>;
+    kinkLevel(overrides?: CallOverrides): Promise<BigNumber>;
+    liquidityMiningAddress(overrides?: CallOverrides): Promise<BigNumber>;
+    loanParamsIds(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    loanTokenAddress(overrides?: CallOverrides): Promise<BigNumber>;
+    lowUtilBaseRate(overrides?: CallOverrides): Promise<BigNumber>;
+    lowUtilRateMultiplier(overrides?: CallOverrides): Promise<BigNumber>;
+    marginTrade(
+      loanId: BytesLike,
+      leverageAmount: BigNumberish,
+      loanTokenSent: BigNumberish,
+      collateralTokenSent: BigNumberish,
+      collateralTokenAddress: string,
+      trader: string,
+      minEntryPrice: BigNumberish,
+      loanDataBytes: BytesLike,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<BigNumber>;
+    marginTradeAffiliate(
+      loanId: BytesLike,
+      leverageAmount: BigNumberish,
+      loanTokenSent: BigNumberish,
+      collateralTokenSent: BigNumberish,
+      collateralTokenAddress: string,
+      trader: string,
+      minEntryPrice: BigNumberish,
+      affiliateReferrer: string,
+      loanDataBytes: BytesLike,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<BigNumber>;
+    marketLiquidity(overrides?: CallOverrides): Promise<BigNumber>;
+    maxScaleRate(overrides?: CallOverrides): Promise<BigNumber>;
+    'mint(address,uint256)'(
+      receiver: string,
+      depositAmount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    'mint(address,uint256,bool)'(
+      receiver: string,
+      depositAmount: BigNumberish,
+      useLM: boolean,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    name(overrides?: CallOverrides): Promise<BigNumber>;
+    nextBorrowInterestRate(
+      borrowAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    nextSupplyInterestRate(
+      supplyAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    owner(overrides?: CallOverrides): Promise<BigNumber>;
+    pauser(overrides?: CallOverrides): Promise<BigNumber>;
+    profitOf(user: string, overrides?: CallOverrides): Promise<BigNumber>;
+    rateMultiplier(overrides?: CallOverrides): Promise<BigNumber>;
+    setLiquidityMiningAddress(
+      LMAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    sovrynContractAddress(overrides?: CallOverrides): Promise<BigNumber>;
+    stringToBytes32(
+      source: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    supplyInterestRate(overrides?: CallOverrides): Promise<BigNumber>;
+    symbol(overrides?: CallOverrides): Promise<BigNumber>;
+    targetLevel(overrides?: CallOverrides): Promise<BigNumber>;
+    target_(overrides?: CallOverrides): Promise<BigNumber>;
+    tokenPrice(overrides?: CallOverrides): Promise<BigNumber>;
+    totalAssetBorrow(overrides?: CallOverrides): Promise<BigNumber>;
+    totalAssetSupply(overrides?: CallOverrides): Promise<BigNumber>;
+    totalSupply(overrides?: CallOverrides): Promise<BigNumber>;
+    totalSupplyInterestRate(
+      assetSupply: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    transactionLimit(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    transfer(
+      _to: string,
+      _value: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    transferFrom(
+      _from: string,
+      _to: string,
+      _value: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    withdrawRBTCTo(
+      _receiverAddress: string,
+      _amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    wrbtcTokenAddress(overrides?: CallOverrides): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    TINY_AMOUNT(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    VERSION(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    admin(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    allowance(
+      _owner: string,
+      _spender: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    approve(
+      _spender: string,
+      _value: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    assetBalanceOf(
+      _owner: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    avgBorrowInterestRate(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    balanceOf(
+      _owner: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    baseRate(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    borrow(
+      loanId: BytesLike,
+      withdrawAmount: BigNumberish,
+      initialLoanDuration: BigNumberish,
+      collateralTokenSent: BigNumberish,
+      collateralTokenAddress: string,
+      borrower: string,
+      receiver: string,
+      arg7: BytesLike,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    borrowInterestRate(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    'burn(address,uint256,bool)'(
+      receiver: string,
+      burnAmount: BigNumberish,
+      useLM: boolean,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    'burn(address,uint256)'(
+      receiver: string,
+      burnAmount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    calculateSupplyInterestRate(
+      assetBorrow: BigNumberish,
+      assetSupply: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    checkPause(
+      funcId: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    checkPriceDivergence(
+      loanTokenSent: BigNumberish,
+      collateralTokenAddress: string,
+      minEntryPrice: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    checkpointPrice(
+      _user: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    checkpointSupply(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    decimals(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    earlyAccessToken(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    getBorrowAmountForDeposit(
+      depositAmount: BigNumberish,
+      initialLoanDuration: BigNumberish,
+      collateralTokenAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getDepositAmountForBorrow(
+      borrowAmount: BigNumberish,
+      initialLoanDuration: BigNumberish,
+      collateralTokenAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getEstimatedMarginDetails(
+      leverageAmount: BigNumberish,
+      loanTokenSent: BigNumberish,
+      collateralTokenSent: BigNumberish,
+      collateralTokenAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getLiquidityMiningAddress(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getListFunctionSignatures(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getMaxEscrowAmount(
+      leverageAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    initialPrice(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    isOwner(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    kinkLevel(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    liquidityMiningAddress(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    loanParamsIds(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    loanTokenAddress(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    lowUtilBaseRate(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    lowUtilRateMultiplier(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    marginTrade(
+      loanId: BytesLike,
+      leverageAmount: BigNumberish,
+      loanTokenSent: BigNumberish,
+      collateralTokenSent: BigNumberish,
+      collateralTokenAddress: string,
+      trader: string,
+      minEntryPrice: BigNumberish,
+      loanDataBytes: BytesLike,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    marginTradeAffiliate(
+      loanId: BytesLike,
+      leverageAmount: BigNumberish,
+      loanTokenSent: BigNumberish,
+      collateralTokenSent: BigNumberish,
+      collateralTokenAddress: string,
+      trader: string,
+      minEntryPrice: BigNumberish,
+      affiliateReferrer: string,
+      loanDataBytes: BytesLike,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    marketLiquidity(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    maxScaleRate(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    'mint(address,uint256)'(
+      receiver: string,
+      depositAmount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    'mint(address,uint256,bool)'(
+      receiver: string,
+      depositAmount: BigNumberish,
+      useLM: boolean,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    name(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    nextBorrowInterestRate(
+      borrowAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    nextSupplyInterestRate(
+      supplyAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    owner(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    pauser(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    profitOf(
+      user: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    rateMultiplier(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    setLiquidityMiningAddress(
+      LMAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    sovrynContractAddress(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    stringToBytes32(
+      source: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    supplyInterestRate(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    symbol(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    targetLevel(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    target_(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    tokenPrice(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    totalAssetBorrow(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    totalAssetSupply(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    totalSupply(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    totalSupplyInterestRate(
+      assetSupply: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    transactionLimit(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    transfer(
+      _to: string,
+      _value: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    transferFrom(
+      _from: string,
+      _to: string,
+      _value: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    withdrawRBTCTo(
+      _receiverAddress: string,
+      _amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    wrbtcTokenAddress(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+  };
+
+  TINY_AMOUNT(overrides?: CallOverrides): Promise<BigNumber>;
+  VERSION(overrides?: CallOverrides): Promise<BigNumber>;
+  admin(overrides?: CallOverrides): Promise<string>;
+  allowance(
+    _owner: string,
+    _spender: string,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  approve(
+    _spender: string,
+    _value: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  assetBalanceOf(_owner: string, overrides?: CallOverrides): Promise<BigNumber>;
+  avgBorrowInterestRate(overrides?: CallOverrides): Promise<BigNumber>;
+  balanceOf(_owner: string, overrides?: CallOverrides): Promise<BigNumber>;
+  baseRate(overrides?: CallOverrides): Promise<BigNumber>;
+  borrow(
+    loanId: BytesLike,
+    withdrawAmount: BigNumberish,
+    initialLoanDuration: BigNumberish,
+    collateralTokenSent: BigNumberish,
+    collateralTokenAddress: string,
+    borrower: string,
+    receiver: string,
+    arg7: BytesLike,
+    overrides?: PayableOverrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  borrowInterestRate(overrides?: CallOverrides): Promise<BigNumber>;
+  calculateSupplyInterestRate(
+    assetBorrow: BigNumberish,
+    assetSupply: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  checkPause(funcId: string, overrides?: CallOverrides): Promise<boolean>;
+  checkPriceDivergence(
+    loanTokenSent: BigNumberish,
+    collateralTokenAddress: string,
+    minEntryPrice: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<void>;
+  checkpointPrice(_user: string, overrides?: CallOverrides): Promise<BigNumber>;
+  checkpointSupply(overrides?: CallOverrides): Promise<BigNumber>;
+  decimals(overrides?: CallOverrides): Promise<number>;
+  earlyAccessToken(overrides?: CallOverrides): Promise<string>;
+  getBorrowAmountForDeposit(
+    depositAmount: BigNumberish,
+    initialLoanDuration: BigNumberish,
+    collateralTokenAddress: string,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  getDepositAmountForBorrow(
+    borrowAmount: BigNumberish,
+    initialLoanDuration: BigNumberish,
+    collateralTokenAddress: string,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  getEstimatedMarginDetails(
+    leverageAmount: BigNumberish,
+    loanTokenSent: BigNumberish,
+    collateralTokenSent: BigNumberish,
+    collateralTokenAddress: string,
+    overrides?: CallOverrides,
+  ): Promise<
+    [BigNumber, BigNumber, BigNumber] & {
+      principal: BigNumber;
+      collateral: BigNumber;
+      interestRate: BigNumber;
+    }
+  >;
+  getLiquidityMiningAddress(overrides?: CallOverrides): Promise<string>;
+  getListFunctionSignatures(
+    overrides?: CallOverrides,
+  ): Promise<
+    [string[], string] & { functionSignatures: string[]; moduleName: string }
+  >;
+  getMaxEscrowAmount(
+    leverageAmount: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  initialPrice(overrides?: CallOverrides): Promise<BigNumber>;
+  isOwner(overrides?: CallOverrides): Promise<boolean>;
+  kinkLevel(overrides?: CallOverrides): Promise<BigNumber>;
+  liquidityMiningAddress(overrides?: CallOverrides): Promise<string>;
+  loanParamsIds(arg0: BigNumberish, overrides?: CallOverrides): Promise<string>;
+  loanTokenAddress(overrides?: CallOverrides): Promise<string>;
+  lowUtilBaseRate(overrides?: CallOverrides): Promise<BigNumber>;
+  lowUtilRateMultiplier(overrides?: CallOverrides): Promise<BigNumber>;
+  marginTrade(
+    loanId: BytesLike,
+    leverageAmount: BigNumberish,
+    loanTokenSent: BigNumberish,
+    collateralTokenSent: BigNumberish,
+    collateralTokenAddress: string,
+    trader: string,
+    minEntryPrice: BigNumberish,
+    loanDataBytes: BytesLike,
+    overrides?: PayableOverrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  marginTradeAffiliate(
+    loanId: BytesLike,
+    leverageAmount: BigNumberish,
+    loanTokenSent: BigNumberish,
+    collateralTokenSent: BigNumberish,
+    collateralTokenAddress: string,
+    trader: string,
+    minEntryPrice: BigNumberish,
+    affiliateReferrer: string,
+    loanDataBytes: BytesLike,
+    overrides?: PayableOverrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  marketLiquidity(overrides?: CallOverrides): Promise<BigNumber>;
+  maxScaleRate(overrides?: CallOverrides): Promise<BigNumber>;
+  name(overrides?: CallOverrides): Promise<string>;
+  nextBorrowInterestRate(
+    borrowAmount: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  nextSupplyInterestRate(
+    supplyAmount: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  owner(overrides?: CallOverrides): Promise<string>;
+  pauser(overrides?: CallOverrides): Promise<string>;
+  profitOf(user: string, overrides?: CallOverrides): Promise<BigNumber>;
+  rateMultiplier(overrides?: CallOverrides): Promise<BigNumber>;
+  setLiquidityMiningAddress(
+    LMAddress: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  sovrynContractAddress(overrides?: CallOverrides): Promise<string>;
+  stringToBytes32(source: string, overrides?: CallOverrides): Promise<string>;
+  supplyInterestRate(overrides?: CallOverrides): Promise<BigNumber>;
+  symbol(overrides?: CallOverrides): Promise<string>;
+  targetLevel(overrides?: CallOverrides): Promise<BigNumber>;
+  target_(overrides?: CallOverrides): Promise<string>;
+  tokenPrice(overrides?: CallOverrides): Promise<BigNumber>;
+  totalAssetBorrow(overrides?: CallOverrides): Promise<BigNumber>;
+  totalAssetSupply(overrides?: CallOverrides): Promise<BigNumber>;
+  totalSupply(overrides?: CallOverrides): Promise<BigNumber>;
+  totalSupplyInterestRate(
+    assetSupply: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  transactionLimit(arg0: string, overrides?: CallOverrides): Promise<BigNumber>;
+  transfer(
+    _to: string,
+    _value: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  transferFrom(
+    _from: string,
+    _to: string,
+    _value: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  transferOwnership(
+    newOwner: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  withdrawRBTCTo(
+    _receiverAddress: string,
+    _amount: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  wrbtcTokenAddress(overrides?: CallOverrides): Promise<string>;
+}
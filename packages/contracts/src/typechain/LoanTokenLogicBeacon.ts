@@ -0,0 +1,258 @@
+/* Autogenerated file. Do not edit manually. */
+
+/* eslint-disable */
+import type {
+  BigNumber,
+  BigNumberish,
+  BytesLike,
+  CallOverrides,
+  Contract,
+  ContractTransaction,
+  Overrides,
+  PayableOverrides,
+  PopulatedTransaction,
+} from 'ethers';
+
+export interface LoanTokenLogicBeacon extends Contract {
+  functions: {
+    activeModuleIndex(
+      arg0: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    getActiveFuncSignatureList(
+      moduleName: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<[string[]] & { signatureList: string[] }>;
+    getModuleUpgradeLogLength(
+      moduleName: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    getTarget(sig: BytesLike, overrides?: CallOverrides): Promise<[string]>;
+    isOwner(overrides?: CallOverrides): Promise<[boolean]>;
+    moduleUpgradeLog(
+      arg0: BytesLike,
+      arg1: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<
+      [string, BigNumber] & {
+        implementation: string;
+        updateTimestamp: BigNumber;
+      }
+    >;
+    owner(overrides?: CallOverrides): Promise<[string]>;
+    pause(
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    paused(overrides?: CallOverrides): Promise<[boolean]>;
+    pauser(overrides?: CallOverrides): Promise<[string]>;
+    registerLoanTokenModule(
+      loanTokenModuleAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    rollback(
+      moduleName: BytesLike,
+      index: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setPauser(
+      newPauser: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    unpause(
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+  };
+
+  callStatic: {
+    activeModuleIndex(
+      arg0: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getActiveFuncSignatureList(
+      moduleName: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<string[]>;
+    getModuleUpgradeLogLength(
+      moduleName: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getTarget(sig: BytesLike, overrides?: CallOverrides): Promise<string>;
+    isOwner(overrides?: CallOverrides): Promise<boolean>;
+    moduleUpgradeLog(
+      arg0: BytesLike,
+      arg1: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<
+      [string, BigNumber] & {
+        implementation: string;
+        updateTimestamp: BigNumber;
+      }
+    >;
+    owner(overrides?: CallOverrides): Promise<string>;
+    pause(overrides?: CallOverrides): Promise<void>;
+    paused(overrides?: CallOverrides): Promise<boolean>;
+    pauser(overrides?: CallOverrides): Promise<string>;
+    registerLoanTokenModule(
+      loanTokenModuleAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    rollback(
+      moduleName: BytesLike,
+      index: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setPauser(newPauser: string, overrides?: CallOverrides): Promise<void>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    unpause(overrides?: CallOverrides): Promise<void>;
+  };
+
+  estimateGas: {
+    activeModuleIndex(
+      arg0: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getActiveFuncSignatureList(
+      moduleName: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getModuleUpgradeLogLength(
+      moduleName: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getTarget(sig: BytesLike, overrides?: CallOverrides): Promise<BigNumber>;
+    isOwner(overrides?: CallOverrides): Promise<BigNumber>;
+    moduleUpgradeLog(
+      arg0: BytesLike,
+      arg1: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    owner(overrides?: CallOverrides): Promise<BigNumber>;
+    pause(overrides?: Overrides & { from?: string }): Promise<BigNumber>;
+    paused(overrides?: CallOverrides): Promise<BigNumber>;
+    pauser(overrides?: CallOverrides): Promise<BigNumber>;
+    registerLoanTokenModule(
+      loanTokenModuleAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    rollback(
+      moduleName: BytesLike,
+      index: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setPauser(
+      newPauser: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    unpause(overrides?: Overrides & { from?: string }): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    activeModuleIndex(
+      arg0: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getActiveFuncSignatureList(
+      moduleName: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getModuleUpgradeLogLength(
+      moduleName: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getTarget(
+      sig: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    isOwner(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    moduleUpgradeLog(
+      arg0: BytesLike,
+      arg1: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    owner(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    pause(
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    paused(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    pauser(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    registerLoanTokenModule(
+      loanTokenModuleAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    rollback(
+      moduleName: BytesLike,
+      index: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setPauser(
+      newPauser: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    unpause(
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+  };
+
+  activeModuleIndex(
+    arg0: BytesLike,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  getActiveFuncSignatureList(
+    moduleName: BytesLike,
+    overrides?: CallOverrides,
+  ): Promise<string[]>;
+  getModuleUpgradeLogLength(
+    moduleName: BytesLike,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  getTarget(sig: BytesLike, overrides?: CallOverrides): Promise<string>;
+  isOwner(overrides?: CallOverrides): Promise<boolean>;
+  moduleUpgradeLog(
+    arg0: BytesLike,
+    arg1: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<
+    [string, BigNumber] & { implementation: string; updateTimestamp: BigNumber }
+  >;
+  owner(overrides?: CallOverrides): Promise<string>;
+  pause(
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  paused(overrides?: CallOverrides): Promise<boolean>;
+  pauser(overrides?: CallOverrides): Promise<string>;
+  registerLoanTokenModule(
+    loanTokenModuleAddress: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  rollback(
+    moduleName: BytesLike,
+    index: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setPauser(
+    newPauser: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  transferOwnership(
+    newOwner: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  unpause(
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+}
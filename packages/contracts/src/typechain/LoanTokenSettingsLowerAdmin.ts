@@ -0,0 +1,656 @@
+/* Autogenerated file. Do not edit manually. */
+
+/* eslint-disable */
+import type {
+  BigNumber,
+  BigNumberish,
+  BytesLike,
+  CallOverrides,
+  Contract,
+  ContractTransaction,
+  Overrides,
+  PayableOverrides,
+  PopulatedTransaction,
+} from 'ethers';
+
+export interface LoanTokenSettingsLowerAdmin extends Contract {
+  functions: {
+    TINY_AMOUNT(overrides?: CallOverrides): Promise<[BigNumber]>;
+    VERSION(overrides?: CallOverrides): Promise<[BigNumber]>;
+    admin(overrides?: CallOverrides): Promise<[string]>;
+    allowance(
+      _owner: string,
+      _spender: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    approve(
+      _spender: string,
+      _value: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    balanceOf(_owner: string, overrides?: CallOverrides): Promise<[BigNumber]>;
+    baseRate(overrides?: CallOverrides): Promise<[BigNumber]>;
+    changeLoanTokenNameAndSymbol(
+      _name: string,
+      _symbol: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    checkPause(
+      funcId: string,
+      overrides?: CallOverrides,
+    ): Promise<[boolean] & { isPaused: boolean }>;
+    checkpointSupply(overrides?: CallOverrides): Promise<[BigNumber]>;
+    decimals(overrides?: CallOverrides): Promise<[number]>;
+    disableLoanParams(
+      collateralTokens: string[],
+      isTorqueLoans: boolean[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    earlyAccessToken(overrides?: CallOverrides): Promise<[string]>;
+    getLiquidityMiningAddress(overrides?: CallOverrides): Promise<[string]>;
+    getListFunctionSignatures(
+      overrides?: CallOverrides,
+    ): Promise<
+      [string[], string] & { functionSignatures: string[]; moduleName: string }
+    >;
+    getStakingContractAddress(overrides?: CallOverrides): Promise<[string]>;
+    initialPrice(overrides?: CallOverrides): Promise<[BigNumber]>;
+    isOwner(overrides?: CallOverrides): Promise<[boolean]>;
+    kinkLevel(overrides?: CallOverrides): Promise<[BigNumber]>;
+    liquidityMiningAddress(overrides?: CallOverrides): Promise<[string]>;
+    loanParamsIds(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[string]>;
+    loanTokenAddress(overrides?: CallOverrides): Promise<[string]>;
+    lowUtilBaseRate(overrides?: CallOverrides): Promise<[BigNumber]>;
+    lowUtilRateMultiplier(overrides?: CallOverrides): Promise<[BigNumber]>;
+    maxScaleRate(overrides?: CallOverrides): Promise<[BigNumber]>;
+    name(overrides?: CallOverrides): Promise<[string]>;
+    owner(overrides?: CallOverrides): Promise<[string]>;
+    pauser(overrides?: CallOverrides): Promise<[string]>;
+    rateMultiplier(overrides?: CallOverrides): Promise<[BigNumber]>;
+    setAdmin(
+      _admin: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setDemandCurve(
+      _baseRate: BigNumberish,
+      _rateMultiplier: BigNumberish,
+      _lowUtilBaseRate: BigNumberish,
+      _lowUtilRateMultiplier: BigNumberish,
+      _targetLevel: BigNumberish,
+      _kinkLevel: BigNumberish,
+      _maxScaleRate: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setLiquidityMiningAddress(
+      LMAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setPauser(
+      _pauser: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setStakingContractAddress(
+      _stakingContractAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setTransactionLimits(
+      addresses: string[],
+      limits: BigNumberish[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setupLoanParams(
+      loanParamsList: {
+        id: BytesLike;
+        active: boolean;
+        owner: string;
+        loanToken: string;
+        collateralToken: string;
+        minInitialMargin: BigNumberish;
+        maintenanceMargin: BigNumberish;
+        maxLoanTerm: BigNumberish;
+      }[],
+      areTorqueLoans: boolean,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    sovrynContractAddress(overrides?: CallOverrides): Promise<[string]>;
+    stakingContractAddress(overrides?: CallOverrides): Promise<[string]>;
+    stringToBytes32(
+      source: string,
+      overrides?: CallOverrides,
+    ): Promise<[string] & { result: string }>;
+    symbol(overrides?: CallOverrides): Promise<[string]>;
+    targetLevel(overrides?: CallOverrides): Promise<[BigNumber]>;
+    target_(overrides?: CallOverrides): Promise<[string]>;
+    toggleFunctionPause(
+      funcId: string,
+      isPaused: boolean,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    totalSupply(overrides?: CallOverrides): Promise<[BigNumber]>;
+    transactionLimit(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    withdrawRBTCTo(
+      _receiverAddress: string,
+      _amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    wrbtcTokenAddress(overrides?: CallOverrides): Promise<[string]>;
+  };
+
+  callStatic: {
+    TINY_AMOUNT(overrides?: CallOverrides): Promise<BigNumber>;
+    VERSION(overrides?: CallOverrides): Promise<BigNumber>;
+    admin(overrides?: CallOverrides): Promise<string>;
+    allowance(
+      _owner: string,
+      _spender: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    approve(
+      _spender: string,
+      _value: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<boolean>;
+    balanceOf(_owner: string, overrides?: CallOverrides): Promise<BigNumber>;
+    baseRate(overrides?: CallOverrides): Promise<BigNumber>;
+    changeLoanTokenNameAndSymbol(
+      _name: string,
+      _symbol: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    checkPause(funcId: string, overrides?: CallOverrides): Promise<boolean>;
+    checkpointSupply(overrides?: CallOverrides): Promise<BigNumber>;
+    decimals(overrides?: CallOverrides): Promise<number>;
+    disableLoanParams(
+      collateralTokens: string[],
+      isTorqueLoans: boolean[],
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    earlyAccessToken(overrides?: CallOverrides): Promise<string>;
+    getLiquidityMiningAddress(overrides?: CallOverrides): Promise<string>;
+    getListFunctionSignatures(
+      overrides?: CallOverrides,
+    ): Promise<
+      [string[], string] & { functionSignatures: string[]; moduleName: string }
+    >;
+    getStakingContractAddress(overrides?: CallOverrides): Promise<string>;
+    initialPrice(overrides?: CallOverrides): Promise<BigNumber>;
+    isOwner(overrides?: CallOverrides): Promise<boolean>;
+    kinkLevel(overrides?: CallOverrides): Promise<BigNumber>;
+    liquidityMiningAddress(overrides?: CallOverrides): Promise<string>;
+    loanParamsIds(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<string>;
+    loanTokenAddress(overrides?: CallOverrides): Promise<string>;
+    lowUtilBaseRate(overrides?: CallOverrides): Promise<BigNumber>;
+    lowUtilRateMultiplier(overrides?: CallOverrides): Promise<BigNumber>;
+    maxScaleRate(overrides?: CallOverrides): Promise<BigNumber>;
+    name(overrides?: CallOverrides): Promise<string>;
+    owner(overrides?: CallOverrides): Promise<string>;
+    pauser(overrides?: CallOverrides): Promise<string>;
+    rateMultiplier(overrides?: CallOverrides): Promise<BigNumber>;
+    setAdmin(_admin: string, overrides?: CallOverrides): Promise<void>;
+    setDemandCurve(
+      _baseRate: BigNumberish,
+      _rateMultiplier: BigNumberish,
+      _lowUtilBaseRate: BigNumberish,
+      _lowUtilRateMultiplier: BigNumberish,
+      _targetLevel: BigNumberish,
+      _kinkLevel: BigNumberish,
+      _maxScaleRate: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setLiquidityMiningAddress(
+      LMAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setPauser(_pauser: string, overrides?: CallOverrides): Promise<void>;
+    setStakingContractAddress(
+      _stakingContractAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setTransactionLimits(
+      addresses: string[],
+      limits: BigNumberish[],
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setupLoanParams(
+      loanParamsList: {
+        id: BytesLike;
+        active: boolean;
+        owner: string;
+        loanToken: string;
+        collateralToken: string;
+        minInitialMargin: BigNumberish;
+        maintenanceMargin: BigNumberish;
+        maxLoanTerm: BigNumberish;
+      }[],
+      areTorqueLoans: boolean,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    sovrynContractAddress(overrides?: CallOverrides): Promise<string>;
+    stakingContractAddress(overrides?: CallOverrides): Promise<string>;
+    stringToBytes32(source: string, overrides?: CallOverrides): Promise<string>;
+    symbol(overrides?: CallOverrides): Promise<string>;
+    targetLevel(overrides?: CallOverrides): Promise<BigNumber>;
+    target_(overrides?: CallOverrides): Promise<string>;
+    toggleFunctionPause(
+      funcId: string,
+      isPaused: boolean,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    totalSupply(overrides?: CallOverrides): Promise<BigNumber>;
+    transactionLimit(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    withdrawRBTCTo(
+      _receiverAddress: string,
+      _amount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    wrbtcTokenAddress(overrides?: CallOverrides): Promise<string>;
+  };
+
+  estimateGas: {
+    TINY_AMOUNT(overrides?: CallOverrides): Promise<BigNumber>;
+    VERSION(overrides?: CallOverrides): Promise<BigNumber>;
+    admin(overrides?: CallOverrides): Promise<BigNumber>;
+    allowance(
+      _owner: string,
+      _spender: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    approve(
+      _spender: string,
+      _value: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    balanceOf(_owner: string, overrides?: CallOverrides): Promise<BigNumber>;
+    baseRate(overrides?: CallOverrides): Promise<BigNumber>;
+    changeLoanTokenNameAndSymbol(
+      _name: string,
+      _symbol: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    checkPause(funcId: string, overrides?: CallOverrides): Promise<BigNumber>;
+    checkpointSupply(overrides?: CallOverrides): Promise<BigNumber>;
+    decimals(overrides?: CallOverrides): Promise<BigNumber>;
+    disableLoanParams(
+      collateralTokens: string[],
+      isTorqueLoans: boolean[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    earlyAccessToken(overrides?: CallOverrides): Promise<BigNumber>;
+    getLiquidityMiningAddress(overrides?: CallOverrides): Promise<BigNumber>;
+    getListFunctionSignatures(overrides?: CallOverrides): Promise<BigNumber>;
+    getStakingContractAddress(overrides?: CallOverrides): Promise<BigNumber>;
+    initialPrice(overrides?: CallOverrides): Promise<BigNumber>;
+    isOwner(overrides?: CallOverrides): Promise<BigNumber>;
+    kinkLevel(overrides?: CallOverrides): Promise<BigNumber>;
+    liquidityMiningAddress(overrides?: CallOverrides): Promise<BigNumber>;
+    loanParamsIds(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    loanTokenAddress(overrides?: CallOverrides): Promise<BigNumber>;
+    lowUtilBaseRate(overrides?: CallOverrides): Promise<BigNumber>;
+    lowUtilRateMultiplier(overrides?: CallOverrides): Promise<BigNumber>;
+    maxScaleRate(overrides?: CallOverrides): Promise<BigNumber>;
+    name(overrides?: CallOverrides): Promise<BigNumber>;
+    owner(overrides?: CallOverrides): Promise<BigNumber>;
+    pauser(overrides?: CallOverrides): Promise<BigNumber>;
+    rateMultiplier(overrides?: CallOverrides): Promise<BigNumber>;
+    setAdmin(
+      _admin: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setDemandCurve(
+      _baseRate: BigNumberish,
+      _rateMultiplier: BigNumberish,
+      _lowUtilBaseRate: BigNumberish,
+      _lowUtilRateMultiplier: BigNumberish,
+      _targetLevel: BigNumberish,
+      _kinkLevel: BigNumberish,
+      _maxScaleRate: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setLiquidityMiningAddress(
+      LMAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setPauser(
+      _pauser: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setStakingContractAddress(
+      _stakingContractAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setTransactionLimits(
+      addresses: string[],
+      limits: BigNumberish[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setupLoanParams(
+      loanParamsList: {
+        id: BytesLike;
+        active: boolean;
+        owner: string;
+        loanToken: string;
+        collateralToken: string;
+        minInitialMargin: BigNumberish;
+        maintenanceMargin: BigNumberish;
+        maxLoanTerm: BigNumberish;
+      }[],
+      areTorqueLoans: boolean,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    sovrynContractAddress(overrides?: CallOverrides): Promise<BigNumber>;
+    stakingContractAddress(overrides?: CallOverrides): Promise<BigNumber>;
+    stringToBytes32(
+      source: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    symbol(overrides?: CallOverrides): Promise<BigNumber>;
+    targetLevel(overrides?: CallOverrides): Promise<BigNumber>;
+    target_(overrides?: CallOverrides): Promise<BigNumber>;
+    toggleFunctionPause(
+      funcId: string,
+      isPaused: boolean,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    totalSupply(overrides?: CallOverrides): Promise<BigNumber>;
+    transactionLimit(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    withdrawRBTCTo(
+      _receiverAddress: string,
+      _amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    wrbtcTokenAddress(overrides?: CallOverrides): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    TINY_AMOUNT(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    VERSION(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    admin(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    allowance(
+      _owner: string,
+      _spender: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    approve(
+      _spender: string,
+      _value: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    balanceOf(
+      _owner: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    baseRate(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    changeLoanTokenNameAndSymbol(
+      _name: string,
+      _symbol: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    checkPause(
+      funcId: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    checkpointSupply(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    decimals(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    disableLoanParams(
+      collateralTokens: string[],
+      isTorqueLoans: boolean[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    earlyAccessToken(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    getLiquidityMiningAddress(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getListFunctionSignatures(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getStakingContractAddress(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    initialPrice(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    isOwner(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    kinkLevel(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    liquidityMiningAddress(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    loanParamsIds(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    loanTokenAddress(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    lowUtilBaseRate(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    lowUtilRateMultiplier(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    maxScaleRate(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    name(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    owner(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    pauser(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    rateMultiplier(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    setAdmin(
+      _admin: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setDemandCurve(
+      _baseRate: BigNumberish,
+      _rateMultiplier: BigNumberish,
+      _lowUtilBaseRate: BigNumberish,
+      _lowUtilRateMultiplier: BigNumberish,
+      _targetLevel: BigNumberish,
+      _kinkLevel: BigNumberish,
+      _maxScaleRate: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setLiquidityMiningAddress(
+      LMAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setPauser(
+      _pauser: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setStakingContractAddress(
+      _stakingContractAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setTransactionLimits(
+      addresses: string[],
+      limits: BigNumberish[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setupLoanParams(
+      loanParamsList: {
+        id: BytesLike;
+        active: boolean;
+        owner: string;
+        loanToken: string;
+        collateralToken: string;
+        minInitialMargin: BigNumberish;
+        maintenanceMargin: BigNumberish;
+        maxLoanTerm: BigNumberish;
+      }[],
+      areTorqueLoans: boolean,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    sovrynContractAddress(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    stakingContractAddress(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    stringToBytes32(
+      source: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    symbol(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    targetLevel(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    target_(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    toggleFunctionPause(
+      funcId: string,
+      isPaused: boolean,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    totalSupply(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    transactionLimit(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    withdrawRBTCTo(
+      _receiverAddress: string,
+      _amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    wrbtcTokenAddress(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+  };
+
+  TINY_AMOUNT(overrides?: CallOverrides): Promise<BigNumber>;
+  VERSION(overrides?: CallOverrides): Promise<BigNumber>;
+  admin(overrides?: CallOverrides): Promise<string>;
+  allowance(
+    _owner: string,
+    _spender: string,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  approve(
+    _spender: string,
+    _value: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  balanceOf(_owner: string, overrides?: CallOverrides): Promise<BigNumber>;
+  baseRate(overrides?: CallOverrides): Promise<BigNumber>;
+  changeLoanTokenNameAndSymbol(
+    _name: string,
+    _symbol: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  checkPause(funcId: string, overrides?: CallOverrides): Promise<boolean>;
+  checkpointSupply(overrides?: CallOverrides): Promise<BigNumber>;
+  decimals(overrides?: CallOverrides): Promise<number>;
+  disableLoanParams(
+    collateralTokens: string[],
+    isTorqueLoans: boolean[],
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  earlyAccessToken(overrides?: CallOverrides): Promise<string>;
+  getLiquidityMiningAddress(overrides?: CallOverrides): Promise<string>;
+  getListFunctionSignatures(
+    overrides?: CallOverrides,
+  ): Promise<
+    [string[], string] & { functionSignatures: string[]; moduleName: string }
+  >;
+  getStakingContractAddress(overrides?: CallOverrides): Promise<string>;
+  initialPrice(overrides?: CallOverrides): Promise<BigNumber>;
+  isOwner(overrides?: CallOverrides): Promise<boolean>;
+  kinkLevel(overrides?: CallOverrides): Promise<BigNumber>;
+  liquidityMiningAddress(overrides?: CallOverrides): Promise<string>;
+  loanParamsIds(arg0: BigNumberish, overrides?: CallOverrides): Promise<string>;
+  loanTokenAddress(overrides?: CallOverrides): Promise<string>;
+  lowUtilBaseRate(overrides?: CallOverrides): Promise<BigNumber>;
+  lowUtilRateMultiplier(overrides?: CallOverrides): Promise<BigNumber>;
+  maxScaleRate(overrides?: CallOverrides): Promise<BigNumber>;
+  name(overrides?: CallOverrides): Promise<string>;
+  owner(overrides?: CallOverrides): Promise<string>;
+  pauser(overrides?: CallOverrides): Promise<string>;
+  rateMultiplier(overrides?: CallOverrides): Promise<BigNumber>;
+  setAdmin(
+    _admin: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setDemandCurve(
+    _baseRate: BigNumberish,
+    _rateMultiplier: BigNumberish,
+    _lowUtilBaseRate: BigNumberish,
+    _lowUtilRateMultiplier: BigNumberish,
+    _targetLevel: BigNumberish,
+    _kinkLevel: BigNumberish,
+    _maxScaleRate: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setLiquidityMiningAddress(
+    LMAddress: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setPauser(
+    _pauser: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setStakingContractAddress(
+    _stakingContractAddress: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setTransactionLimits(
+    addresses: string[],
+    limits: BigNumberish[],
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setupLoanParams(
+    loanParamsList: {
+      id: BytesLike;
+      active: boolean;
+      owner: string;
+      loanToken: string;
+      collateralToken: string;
+      minInitialMargin: BigNumberish;
+      maintenanceMargin: BigNumberish;
+      maxLoanTerm: BigNumberish;
+    }[],
+    areTorqueLoans: boolean,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  sovrynContractAddress(overrides?: CallOverrides): Promise<string>;
+  stakingContractAddress(overrides?: CallOverrides): Promise<string>;
+  stringToBytes32(source: string, overrides?: CallOverrides): Promise<string>;
+  symbol(overrides?: CallOverrides): Promise<string>;
+  targetLevel(overrides?: CallOverrides): Promise<BigNumber>;
+  target_(overrides?: CallOverrides): Promise<string>;
+  toggleFunctionPause(
+    funcId: string,
+    isPaused: boolean,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  totalSupply(overrides?: CallOverrides): Promise<BigNumber>;
+  transactionLimit(arg0: string, overrides?: CallOverrides): Promise<BigNumber>;
+  transferOwnership(
+    newOwner: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  withdrawRBTCTo(
+    _receiverAddress: string,
+    _amount: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  wrbtcTokenAddress(overrides?: CallOverrides): Promise<string>;
+}
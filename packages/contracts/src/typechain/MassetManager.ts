@@ -0,0 +1,517 @@
+/* Autogenerated file. Do not edit manually. */
+
+/* eslint-disable */
+import type {
+  BigNumber,
+  BigNumberish,
+  BytesLike,
+  CallOverrides,
+  Contract,
+  ContractTransaction,
+  Overrides,
+  PayableOverrides,
+  PopulatedTransaction,
+} from 'ethers';
+
+export interface MassetManager extends Contract {
+  functions: {
+    admin(
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    changeAdmin(
+      newAdmin: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    implementation(
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    upgradeTo(
+      newImplementation: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    upgradeToAndCall(
+      newImplementation: string,
+      data: BytesLike,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    getBasketManager(overrides?: CallOverrides): Promise<[string]>;
+    getFeesManager(overrides?: CallOverrides): Promise<[string]>;
+    getFeesVault(overrides?: CallOverrides): Promise<[string]>;
+    getProxyImplementation(overrides?: CallOverrides): Promise<[string]>;
+    getToken(overrides?: CallOverrides): Promise<[string]>;
+    getVersion(overrides?: CallOverrides): Promise<[string]>;
+    initialize(
+      _basketManagerAddress: string,
+      _mAssetTokenAddress: string,
+      _registerAsERC777RecipientFlag: boolean,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    mint(
+      _bAsset: string,
+      _bAssetQuantity: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    mintTo(
+      _bAsset: string,
+      _bAssetQuantity: BigNumberish,
+      _recipient: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    onTokensMinted(
+      _orderAmount: BigNumberish,
+      _tokenAddress: string,
+      _userData: BytesLike,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    owner(overrides?: CallOverrides): Promise<[string]>;
+    redeem(
+      _bAsset: string,
+      _massetQuantity: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    redeemByBridge(
+      _basset: string,
+      _massetQuantity: BigNumberish,
+      _recipient: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    redeemTo(
+      _bAsset: string,
+      _massetQuantity: BigNumberish,
+      _recipient: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    'redeemToBridge(address,uint256,address,address)'(
+      _basset: string,
+      _massetQuantity: BigNumberish,
+      _recipient: string,
+      _bridgeAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    'redeemToBridge(address,uint256,address)'(
+      _basset: string,
+      _massetQuantity: BigNumberish,
+      _recipient: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    renounceOwnership(
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    tokensReceived(
+      _operator: string,
+      _from: string,
+      _to: string,
+      _amount: BigNumberish,
+      _userData: BytesLike,
+      _operatorData: BytesLike,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    upgradeToV3(
+      _basketManagerAddress: string,
+      _tokenAddress: string,
+      _feesVaultAddress: string,
+      _feesManagerAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+  };
+
+  callStatic: {
+    admin(overrides?: CallOverrides): Promise<string>;
+    changeAdmin(newAdmin: string, overrides?: CallOverrides): Promise<void>;
+    implementation(overrides?: CallOverrides): Promise<string>;
+    upgradeTo(
+      newImplementation: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    upgradeToAndCall(
+      newImplementation: string,
+      data: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    getBasketManager(overrides?: CallOverrides): Promise<string>;
+    getFeesManager(overrides?: CallOverrides): Promise<string>;
+    getFeesVault(overrides?: CallOverrides): Promise<string>;
+    getProxyImplementation(overrides?: CallOverrides): Promise<string>;
+    getToken(overrides?: CallOverrides): Promise<string>;
+    getVersion(overrides?: CallOverrides): Promise<string>;
+    initialize(
+      _basketManagerAddress: string,
+      _mAssetTokenAddress: string,
+      _registerAsERC777RecipientFlag: boolean,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    mint(
+      _bAsset: string,
+      _bAssetQuantity: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    mintTo(
+      _bAsset: string,
+      _bAssetQuantity: BigNumberish,
+      _recipient: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    onTokensMinted(
+      _orderAmount: BigNumberish,
+      _tokenAddress: string,
+      _userData: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    owner(overrides?: CallOverrides): Promise<string>;
+    redeem(
+      _bAsset: string,
+      _massetQuantity: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    redeemByBridge(
+      _basset: string,
+      _massetQuantity: BigNumberish,
+      _recipient: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    redeemTo(
+      _bAsset: string,
+      _massetQuantity: BigNumberish,
+      _recipient: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    'redeemToBridge(address,uint256,address,address)'(
+      _basset: string,
+      _massetQuantity: BigNumberish,
+      _recipient: string,
+      _bridgeAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    'redeemToBridge(address,uint256,address)'(
+      _basset: string,
+      _massetQuantity: BigNumberish,
+      _recipient: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    renounceOwnership(overrides?: CallOverrides): Promise<void>;
+    tokensReceived(
+      _operator: string,
+      _from: string,
+      _to: string,
+      _amount: BigNumberish,
+      _userData: BytesLike,
+      _operatorData: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    upgradeToV3(
+      _basketManagerAddress: string,
+      _tokenAddress: string,
+      _feesVaultAddress: string,
+      _feesManagerAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+  };
+
+  estimateGas: {
+    admin(overrides?: Overrides & { from?: string }): Promise<BigNumber>;
+    changeAdmin(
+      newAdmin: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    implementation(
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    upgradeTo(
+      newImplementation: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    upgradeToAndCall(
+      newImplementation: string,
+      data: BytesLike,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<BigNumber>;
+    getBasketManager(overrides?: CallOverrides): Promise<BigNumber>;
+    getFeesManager(overrides?: CallOverrides): Promise<BigNumber>;
+    getFeesVault(overrides?: CallOverrides): Promise<BigNumber>;
+    getProxyImplementation(overrides?: CallOverrides): Promise<BigNumber>;
+    getToken(overrides?: CallOverrides): Promise<BigNumber>;
+    getVersion(overrides?: CallOverrides): Promise<BigNumber>;
+    initialize(
+      _basketManagerAddress: string,
+      _mAssetTokenAddress: string,
+      _registerAsERC777RecipientFlag: boolean,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    mint(
+      _bAsset: string,
+      _bAssetQuantity: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    mintTo(
+      _bAsset: string,
+      _bAssetQuantity: BigNumberish,
+      _recipient: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    onTokensMinted(
+      _orderAmount: BigNumberish,
+      _tokenAddress: string,
+      _userData: BytesLike,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    owner(overrides?: CallOverrides): Promise<BigNumber>;
+    redeem(
+      _bAsset: string,
+      _massetQuantity: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    redeemByBridge(
+      _basset: string,
+      _massetQuantity: BigNumberish,
+      _recipient: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    redeemTo(
+      _bAsset: string,
+      _massetQuantity: BigNumberish,
+      _recipient: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    'redeemToBridge(address,uint256,address,address)'(
+      _basset: string,
+      _massetQuantity: BigNumberish,
+      _recipient: string,
+      _bridgeAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    'redeemToBridge(address,uint256,address)'(
+      _basset: string,
+      _massetQuantity: BigNumberish,
+      _recipient: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    renounceOwnership(
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    tokensReceived(
+      _operator: string,
+      _from: string,
+      _to: string,
+      _amount: BigNumberish,
+      _userData: BytesLike,
+      _operatorData: BytesLike,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    upgradeToV3(
+      _basketManagerAddress: string,
+      _tokenAddress: string,
+      _feesVaultAddress: string,
+      _feesManagerAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    admin(
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    changeAdmin(
+      newAdmin: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    implementation(
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    upgradeTo(
+      newImplementation: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    upgradeToAndCall(
+      newImplementation: string,
+      data: BytesLike,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    getBasketManager(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    getFeesManager(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    getFeesVault(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    getProxyImplementation(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getToken(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    getVersion(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    initialize(
+      _basketManagerAddress: string,
+      _mAssetTokenAddress: string,
+      _registerAsERC777RecipientFlag: boolean,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    mint(
+      _bAsset: string,
+      _bAssetQuantity: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    mintTo(
+      _bAsset: string,
+      _bAssetQuantity: BigNumberish,
+      _recipient: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    onTokensMinted(
+      _orderAmount: BigNumberish,
+      _tokenAddress: string,
+      _userData: BytesLike,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    owner(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    redeem(
+      _bAsset: string,
+      _massetQuantity: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    redeemByBridge(
+      _basset: string,
+      _massetQuantity: BigNumberish,
+      _recipient: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    redeemTo(
+      _bAsset: string,
+      _massetQuantity: BigNumberish,
+      _recipient: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    'redeemToBridge(address,uint256,address,address)'(
+      _basset: string,
+      _massetQuantity: BigNumberish,
+      _recipient: string,
+      _bridgeAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    'redeemToBridge(address,uint256,address)'(
+      _basset: string,
+      _massetQuantity: BigNumberish,
+      _recipient: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    renounceOwnership(
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    tokensReceived(
+      _operator: string,
+      _from: string,
+      _to: string,
+      _amount: BigNumberish,
+      _userData: BytesLike,
+      _operatorData: BytesLike,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    upgradeToV3(
+      _basketManagerAddress: string,
+      _tokenAddress: string,
+      _feesVaultAddress: string,
+      _feesManagerAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+  };
+
+  admin(
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  changeAdmin(
+    newAdmin: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  implementation(
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  upgradeTo(
+    newImplementation: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  upgradeToAndCall(
+    newImplementation: string,
+    data: BytesLike,
+    overrides?: PayableOverrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  getBasketManager(overrides?: CallOverrides): Promise<string>;
+  getFeesManager(overrides?: CallOverrides): Promise<string>;
+  getFeesVault(overrides?: CallOverrides): Promise<string>;
+  getProxyImplementation(overrides?: CallOverrides): Promise<string>;
+  getToken(overrides?: CallOverrides): Promise<string>;
+  getVersion(overrides?: CallOverrides): Promise<string>;
+  initialize(
+    _basketManagerAddress: string,
+    _mAssetTokenAddress: string,
+    _registerAsERC777RecipientFlag: boolean,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  mint(
+    _bAsset: string,
+    _bAssetQuantity: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  mintTo(
+    _bAsset: string,
+    _bAssetQuantity: BigNumberish,
+    _recipient: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  onTokensMinted(
+    _orderAmount: BigNumberish,
+    _tokenAddress: string,
+    _userData: BytesLike,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  owner(overrides?: CallOverrides): Promise<string>;
+  redeem(
+    _bAsset: string,
+    _massetQuantity: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  redeemByBridge(
+    _basset: string,
+    _massetQuantity: BigNumberish,
+    _recipient: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  redeemTo(
+    _bAsset: string,
+    _massetQuantity: BigNumberish,
+    _recipient: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  renounceOwnership(
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  tokensReceived(
+    _operator: string,
+    _from: string,
+    _to: string,
+    _amount: BigNumberish,
+    _userData: BytesLike,
+    _operatorData: BytesLike,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  transferOwnership(
+    newOwner: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  upgradeToV3(
+    _basketManagerAddress: string,
+    _tokenAddress: string,
+    _feesVaultAddress: string,
+    _feesManagerAddress: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+}
@@ -0,0 +1,108 @@
+/* Autogenerated file. Do not edit manually. */
+
+/* eslint-disable */
+import type {
+  BigNumber,
+  BigNumberish,
+  BytesLike,
+  CallOverrides,
+  Contract,
+  ContractTransaction,
+  Overrides,
+  PayableOverrides,
+  PopulatedTransaction,
+} from 'ethers';
+
+export interface MerkleDistributor extends Contract {
+  functions: {
+    claim(
+      indexes: BigNumberish[],
+      tokens: string[],
+      account: string,
+      amounts: BigNumberish[],
+      merkleProofs: BytesLike[][],
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    getUnclaimed(
+      indexes: BigNumberish[],
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber[]] & { unclaimedIndexes: BigNumber[] }>;
+    isClaimed(
+      index: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[boolean]>;
+    merkleRoot(overrides?: CallOverrides): Promise<[string]>;
+  };
+
+  callStatic: {
+    claim(
+      indexes: BigNumberish[],
+      tokens: string[],
+      account: string,
+      amounts: BigNumberish[],
+      merkleProofs: BytesLike[][],
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    getUnclaimed(
+      indexes: BigNumberish[],
+      overrides?: CallOverrides,
+    ): Promise<BigNumber[]>;
+    isClaimed(index: BigNumberish, overrides?: CallOverrides): Promise<boolean>;
+    merkleRoot(overrides?: CallOverrides): Promise<string>;
+  };
+
+  estimateGas: {
+    claim(
+      indexes: BigNumberish[],
+      tokens: string[],
+      account: string,
+      amounts: BigNumberish[],
+      merkleProofs: BytesLike[][],
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    getUnclaimed(
+      indexes: BigNumberish[],
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    isClaimed(
+      index: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    merkleRoot(overrides?: CallOverrides): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    claim(
+      indexes: BigNumberish[],
+      tokens: string[],
+      account: string,
+      amounts: BigNumberish[],
+      merkleProofs: BytesLike[][],
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    getUnclaimed(
+      indexes: BigNumberish[],
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    isClaimed(
+      index: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    merkleRoot(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+  };
+
+  claim(
+    indexes: BigNumberish[],
+    tokens: string[],
+    account: string,
+    amounts: BigNumberish[],
+    merkleProofs: BytesLike[][],
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  getUnclaimed(
+    indexes: BigNumberish[],
+    overrides?: CallOverrides,
+  ): Promise<BigNumber[]>;
+  isClaimed(index: BigNumberish, overrides?: CallOverrides): Promise<boolean>;
+  merkleRoot(overrides?: CallOverrides): Promise<string>;
+}
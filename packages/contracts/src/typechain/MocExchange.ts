@@ -0,0 +1,528 @@
+/* Autogenerated file. Do not edit manually. */
+
+/* eslint-disable */
+import type {
+  BigNumber,
+  BigNumberish,
+  BytesLike,
+  CallOverrides,
+  Contract,
+  ContractTransaction,
+  Overrides,
+  PayableOverrides,
+  PopulatedTransaction,
+} from 'ethers';
+
+export interface MocExchange extends Contract {
+  functions: {
+    BUCKET_C0(overrides?: CallOverrides): Promise<[string]>;
+    BUCKET_X2(overrides?: CallOverrides): Promise<[string]>;
+    burnBProxFor(
+      bucket: BytesLike,
+      account: string,
+      bproxAmount: BigNumberish,
+      bproxPrice: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    calculateCommissionsWithPrices(
+      params: {
+        account: string;
+        amount: BigNumberish;
+        txTypeFeesMOC: BigNumberish;
+        txTypeFeesRBTC: BigNumberish;
+        vendorAccount: string;
+      },
+      overrides?: CallOverrides,
+    ): Promise<
+      [
+        [BigNumber, BigNumber, BigNumber, BigNumber, BigNumber, BigNumber] & {
+          btcCommission: BigNumber;
+          mocCommission: BigNumber;
+          btcPrice: BigNumber;
+          mocPrice: BigNumber;
+          btcMarkup: BigNumber;
+          mocMarkup: BigNumber;
+        },
+      ] & {
+        ret: [
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+        ] & {
+          btcCommission: BigNumber;
+          mocCommission: BigNumber;
+          btcPrice: BigNumber;
+          mocPrice: BigNumber;
+          btcMarkup: BigNumber;
+          mocMarkup: BigNumber;
+        };
+      }
+    >;
+    connector(overrides?: CallOverrides): Promise<[string]>;
+    forceRedeemBProx(
+      bucket: BytesLike,
+      account: string,
+      bproxAmount: BigNumberish,
+      bproxPrice: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    getDayPrecision(overrides?: CallOverrides): Promise<[BigNumber]>;
+    getMoCTokenBalance(
+      owner: string,
+      spender: string,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, BigNumber] & {
+        mocBalance: BigNumber;
+        mocAllowance: BigNumber;
+      }
+    >;
+    getMocPrecision(overrides?: CallOverrides): Promise<[BigNumber]>;
+    getReservePrecision(overrides?: CallOverrides): Promise<[BigNumber]>;
+    initialize(
+      connectorAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    mintBPro(
+      account: string,
+      btcAmount: BigNumberish,
+      vendorAccount: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    mintBProx(
+      account: string,
+      bucket: BytesLike,
+      btcToMint: BigNumberish,
+      vendorAccount: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    mintDoc(
+      account: string,
+      btcToMint: BigNumberish,
+      vendorAccount: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    redeemAllDoc(
+      origin: string,
+      destination: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    redeemBPro(
+      account: string,
+      bproAmount: BigNumberish,
+      vendorAccount: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    redeemBProx(
+      account: string,
+      bucket: BytesLike,
+      bproxAmount: BigNumberish,
+      vendorAccount: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    redeemDocWithPrice(
+      userAddress: string,
+      amount: BigNumberish,
+      btcPrice: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    redeemFreeDoc(
+      account: string,
+      docAmount: BigNumberish,
+      vendorAccount: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+  };
+
+  callStatic: {
+    BUCKET_C0(overrides?: CallOverrides): Promise<string>;
+    BUCKET_X2(overrides?: CallOverrides): Promise<string>;
+    burnBProxFor(
+      bucket: BytesLike,
+      account: string,
+      bproxAmount: BigNumberish,
+      bproxPrice: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    calculateCommissionsWithPrices(
+      params: {
+        account: string;
+        amount: BigNumberish;
+        txTypeFeesMOC: BigNumberish;
+        txTypeFeesRBTC: BigNumberish;
+        vendorAccount: string;
+      },
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, BigNumber, BigNumber, BigNumber, BigNumber, BigNumber] & {
+        btcCommission: BigNumber;
+        mocCommission: BigNumber;
+        btcPrice: BigNumber;
+        mocPrice: BigNumber;
+        btcMarkup: BigNumber;
+        mocMarkup: BigNumber;
+      }
+    >;
+    connector(overrides?: CallOverrides): Promise<string>;
+    forceRedeemBProx(
+      bucket: BytesLike,
+      account: string,
+      bproxAmount: BigNumberish,
+      bproxPrice: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<boolean>;
+    getDayPrecision(overrides?: CallOverrides): Promise<BigNumber>;
+    getMoCTokenBalance(
+      owner: string,
+      spender: string,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, BigNumber] & {
+        mocBalance: BigNumber;
+        mocAllowance: BigNumber;
+      }
+    >;
+    getMocPrecision(overrides?: CallOverrides): Promise<BigNumber>;
+    getReservePrecision(overrides?: CallOverrides): Promise<BigNumber>;
+    initialize(
+      connectorAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    mintBPro(
+      account: string,
+      btcAmount: BigNumberish,
+      vendorAccount: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber, BigNumber, BigNumber, BigNumber, BigNumber]>;
+    mintBProx(
+      account: string,
+      bucket: BytesLike,
+      btcToMint: BigNumberish,
+      vendorAccount: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber, BigNumber, BigNumber, BigNumber, BigNumber]>;
+    mintDoc(
+      account: string,
+      btcToMint: BigNumberish,
+      vendorAccount: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber, BigNumber, BigNumber, BigNumber, BigNumber]>;
+    redeemAllDoc(
+      origin: string,
+      destination: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    redeemBPro(
+      account: string,
+      bproAmount: BigNumberish,
+      vendorAccount: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber, BigNumber, BigNumber, BigNumber, BigNumber]>;
+    redeemBProx(
+      account: string,
+      bucket: BytesLike,
+      bproxAmount: BigNumberish,
+      vendorAccount: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber, BigNumber, BigNumber, BigNumber, BigNumber]>;
+    redeemDocWithPrice(
+      userAddress: string,
+      amount: BigNumberish,
+      btcPrice: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[boolean, BigNumber]>;
+    redeemFreeDoc(
+      account: string,
+      docAmount: BigNumberish,
+      vendorAccount: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber, BigNumber, BigNumber, BigNumber, BigNumber]>;
+  };
+
+  estimateGas: {
+    BUCKET_C0(overrides?: CallOverrides): Promise<BigNumber>;
+    BUCKET_X2(overrides?: CallOverrides): Promise<BigNumber>;
+    burnBProxFor(
+      bucket: BytesLike,
+      account: string,
+      bproxAmount: BigNumberish,
+      bproxPrice: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    calculateCommissionsWithPrices(
+      params: {
+        account: string;
+        amount: BigNumberish;
+        txTypeFeesMOC: BigNumberish;
+        txTypeFeesRBTC: BigNumberish;
+        vendorAccount: string;
+      },
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    connector(overrides?: CallOverrides): Promise<BigNumber>;
+    forceRedeemBProx(
+      bucket: BytesLike,
+      account: string,
+      bproxAmount: BigNumberish,
+      bproxPrice: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    getDayPrecision(overrides?: CallOverrides): Promise<BigNumber>;
+    getMoCTokenBalance(
+      owner: string,
+      spender: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getMocPrecision(overrides?: CallOverrides): Promise<BigNumber>;
+    getReservePrecision(overrides?: CallOverrides): Promise<BigNumber>;
+    initialize(
+      connectorAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    mintBPro(
+      account: string,
+      btcAmount: BigNumberish,
+      vendorAccount: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    mintBProx(
+      account: string,
+      bucket: BytesLike,
+      btcToMint: BigNumberish,
+      vendorAccount: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    mintDoc(
+      account: string,
+      btcToMint: BigNumberish,
+      vendorAccount: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    redeemAllDoc(
+      origin: string,
+      destination: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    redeemBPro(
+      account: string,
+      bproAmount: BigNumberish,
+      vendorAccount: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    redeemBProx(
+      account: string,
+      bucket: BytesLike,
+      bproxAmount: BigNumberish,
+      vendorAccount: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    redeemDocWithPrice(
+      userAddress: string,
+      amount: BigNumberish,
+      btcPrice: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    redeemFreeDoc(
+      account: string,
+      docAmount: BigNumberish,
+      vendorAccount: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    BUCKET_C0(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    BUCKET_X2(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    burnBProxFor(
+      bucket: BytesLike,
+      account: string,
+      bproxAmount: BigNumberish,
+      bproxPrice: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    calculateCommissionsWithPrices(
+      params: {
+        account: string;
+        amount: BigNumberish;
+        txTypeFeesMOC: BigNumberish;
+        txTypeFeesRBTC: BigNumberish;
+        vendorAccount: string;
+      },
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    connector(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    forceRedeemBProx(
+      bucket: BytesLike,
+      account: string,
+      bproxAmount: BigNumberish,
+      bproxPrice: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    getDayPrecision(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    getMoCTokenBalance(
+      owner: string,
+      spender: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getMocPrecision(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    getReservePrecision(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    initialize(
+      connectorAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    mintBPro(
+      account: string,
+      btcAmount: BigNumberish,
+      vendorAccount: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    mintBProx(
+      account: string,
+      bucket: BytesLike,
+      btcToMint: BigNumberish,
+      vendorAccount: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    mintDoc(
+      account: string,
+      btcToMint: BigNumberish,
+      vendorAccount: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    redeemAllDoc(
+      origin: string,
+      destination: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    redeemBPro(
+      account: string,
+      bproAmount: BigNumberish,
+      vendorAccount: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    redeemBProx(
+      account: string,
+      bucket: BytesLike,
+      bproxAmount: BigNumberish,
+      vendorAccount: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    redeemDocWithPrice(
+      userAddress: string,
+      amount: BigNumberish,
+      btcPrice: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    redeemFreeDoc(
+      account: string,
+      docAmount: BigNumberish,
+      vendorAccount: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+  };
+
+  BUCKET_C0(overrides?: CallOverrides): Promise<string>;
+  BUCKET_X2(overrides?: CallOverrides): Promise<string>;
+  burnBProxFor(
+    bucket: BytesLike,
+    account: string,
+    bproxAmount: BigNumberish,
+    bproxPrice: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  calculateCommissionsWithPrices(
+    params: {
+      account: string;
+      amount: BigNumberish;
+      txTypeFeesMOC: BigNumberish;
+      txTypeFeesRBTC: BigNumberish;
+      vendorAccount: string;
+    },
+    overrides?: CallOverrides,
+  ): Promise<
+    [BigNumber, BigNumber, BigNumber, BigNumber, BigNumber, BigNumber] & {
+      btcCommission: BigNumber;
+      mocCommission: BigNumber;
+      btcPrice: BigNumber;
+      mocPrice: BigNumber;
+      btcMarkup: BigNumber;
+      mocMarkup: BigNumber;
+    }
+  >;
+  connector(overrides?: CallOverrides): Promise<string>;
+  forceRedeemBProx(
+    bucket: BytesLike,
+    account: string,
+    bproxAmount: BigNumberish,
+    bproxPrice: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  getDayPrecision(overrides?: CallOverrides): Promise<BigNumber>;
+  getMoCTokenBalance(
+    owner: string,
+    spender: string,
+    overrides?: CallOverrides,
+  ): Promise<
+    [BigNumber, BigNumber] & { mocBalance: BigNumber; mocAllowance: BigNumber }
+  >;
+  getMocPrecision(overrides?: CallOverrides): Promise<BigNumber>;
+  getReservePrecision(overrides?: CallOverrides): Promise<BigNumber>;
+  initialize(
+    connectorAddress: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  mintBPro(
+    account: string,
+    btcAmount: BigNumberish,
+    vendorAccount: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  mintBProx(
+    account: string,
+    bucket: BytesLike,
+    btcToMint: BigNumberish,
+    vendorAccount: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  mintDoc(
+    account: string,
+    btcToMint: BigNumberish,
+    vendorAccount: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  redeemAllDoc(
+    origin: string,
+    destination: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  redeemBPro(
+    account: string,
+    bproAmount: BigNumberish,
+    vendorAccount: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  redeemBProx(
+    account: string,
+    bucket: BytesLike,
+    bproxAmount: BigNumberish,
+    vendorAccount: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  redeemDocWithPrice(
+    userAddress: string,
+    amount: BigNumberish,
+    btcPrice: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  redeemFreeDoc(
+    account: string,
+    docAmount: BigNumberish,
+    vendorAccount: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+}
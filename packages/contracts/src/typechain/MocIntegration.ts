@@ -0,0 +1,259 @@
+/* Autogenerated file. Do not edit manually. */
+
+/* eslint-disable */
+import type {
+  BigNumber,
+  BigNumberish,
+  BytesLike,
+  CallOverrides,
+  Contract,
+  ContractTransaction,
+  Overrides,
+  PayableOverrides,
+  PopulatedTransaction,
+} from 'ethers';
+
+export interface MocIntegration extends Contract {
+  functions: {
+    dllr(overrides?: CallOverrides): Promise<[string]>;
+    doc(overrides?: CallOverrides): Promise<[string]>;
+    getDocFromDllrAndRedeemRBTC(
+      _dllrAmount: BigNumberish,
+      _permitParams: {
+        deadline: BigNumberish;
+        v: BigNumberish;
+        r: BytesLike;
+        s: BytesLike;
+      },
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    getDocFromDllrAndRedeemRbtcWithPermit2(
+      permit: {
+        permitted: { token: string; amount: BigNumberish };
+        nonce: BigNumberish;
+        deadline: BigNumberish;
+      },
+      signature: BytesLike,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    getPermit2Nonce(
+      _address: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    getProxyImplementation(overrides?: CallOverrides): Promise<[string]>;
+    initialize(
+      _mocVendorAccount: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    massetManager(overrides?: CallOverrides): Promise<[string]>;
+    moc(overrides?: CallOverrides): Promise<[string]>;
+    mocVendorAccount(overrides?: CallOverrides): Promise<[string]>;
+    owner(overrides?: CallOverrides): Promise<[string]>;
+    permit2(overrides?: CallOverrides): Promise<[string]>;
+    renounceOwnership(
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setMocVendorAccount(
+      newMocVedorAccount: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+  };
+
+  callStatic: {
+    dllr(overrides?: CallOverrides): Promise<string>;
+    doc(overrides?: CallOverrides): Promise<string>;
+    getDocFromDllrAndRedeemRBTC(
+      _dllrAmount: BigNumberish,
+      _permitParams: {
+        deadline: BigNumberish;
+        v: BigNumberish;
+        r: BytesLike;
+        s: BytesLike;
+      },
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    getDocFromDllrAndRedeemRbtcWithPermit2(
+      permit: {
+        permitted: { token: string; amount: BigNumberish };
+        nonce: BigNumberish;
+        deadline: BigNumberish;
+      },
+      signature: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    getPermit2Nonce(
+      _address: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getProxyImplementation(overrides?: CallOverrides): Promise<string>;
+    initialize(
+      _mocVendorAccount: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    massetManager(overrides?: CallOverrides): Promise<string>;
+    moc(overrides?: CallOverrides): Promise<string>;
+    mocVendorAccount(overrides?: CallOverrides): Promise<string>;
+    owner(overrides?: CallOverrides): Promise<string>;
+    permit2(overrides?: CallOverrides): Promise<string>;
+    renounceOwnership(overrides?: CallOverrides): Promise<void>;
+    setMocVendorAccount(
+      newMocVedorAccount: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+  };
+
+  estimateGas: {
+    dllr(overrides?: CallOverrides): Promise<BigNumber>;
+    doc(overrides?: CallOverrides): Promise<BigNumber>;
+    getDocFromDllrAndRedeemRBTC(
+      _dllrAmount: BigNumberish,
+      _permitParams: {
+        deadline: BigNumberish;
+        v: BigNumberish;
+        r: BytesLike;
+        s: BytesLike;
+      },
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    getDocFromDllrAndRedeemRbtcWithPermit2(
+      permit: {
+        permitted: { token: string; amount: BigNumberish };
+        nonce: BigNumberish;
+        deadline: BigNumberish;
+      },
+      signature: BytesLike,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    getPermit2Nonce(
+      _address: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getProxyImplementation(overrides?: CallOverrides): Promise<BigNumber>;
+    initialize(
+      _mocVendorAccount: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    massetManager(overrides?: CallOverrides): Promise<BigNumber>;
+    moc(overrides?: CallOverrides): Promise<BigNumber>;
+    mocVendorAccount(overrides?: CallOverrides): Promise<BigNumber>;
+    owner(overrides?: CallOverrides): Promise<BigNumber>;
+    permit2(overrides?: CallOverrides): Promise<BigNumber>;
+    renounceOwnership(
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setMocVendorAccount(
+      newMocVedorAccount: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    dllr(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    doc(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    getDocFromDllrAndRedeemRBTC(
+      _dllrAmount: BigNumberish,
+      _permitParams: {
+        deadline: BigNumberish;
+        v: BigNumberish;
+        r: BytesLike;
+        s: BytesLike;
+      },
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    getDocFromDllrAndRedeemRbtcWithPermit2(
+      permit: {
+        permitted: { token: string; amount: BigNumberish };
+        nonce: BigNumberish;
+        deadline: BigNumberish;
+      },
+      signature: BytesLike,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    getPermit2Nonce(
+      _address: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getProxyImplementation(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    initialize(
+      _mocVendorAccount: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    massetManager(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    moc(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    mocVendorAccount(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    owner(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    permit2(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    renounceOwnership(
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setMocVendorAccount(
+      newMocVedorAccount: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+  };
+
+  dllr(overrides?: CallOverrides): Promise<string>;
+  doc(overrides?: CallOverrides): Promise<string>;
+  getDocFromDllrAndRedeemRBTC(
+    _dllrAmount: BigNumberish,
+    _permitParams: {
+      deadline: BigNumberish;
+      v: BigNumberish;
+      r: BytesLike;
+      s: BytesLike;
+    },
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  getDocFromDllrAndRedeemRbtcWithPermit2(
+    permit: {
+      permitted: { token: string; amount: BigNumberish };
+      nonce: BigNumberish;
+      deadline: BigNumberish;
+    },
+    signature: BytesLike,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  getPermit2Nonce(
+    _address: string,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  getProxyImplementation(overrides?: CallOverrides): Promise<string>;
+  initialize(
+    _mocVendorAccount: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  massetManager(overrides?: CallOverrides): Promise<string>;
+  moc(overrides?: CallOverrides): Promise<string>;
+  mocVendorAccount(overrides?: CallOverrides): Promise<string>;
+  owner(overrides?: CallOverrides): Promise<string>;
+  permit2(overrides?: CallOverrides): Promise<string>;
+  renounceOwnership(
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setMocVendorAccount(
+    newMocVedorAccount: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  transferOwnership(
+    newOwner: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+}
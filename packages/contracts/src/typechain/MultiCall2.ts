@@ -0,0 +1,230 @@
+/* Autogenerated file. Do not edit manually. */
+
+/* eslint-disable */
+import type {
+  BigNumber,
+  BigNumberish,
+  BytesLike,
+  CallOverrides,
+  Contract,
+  ContractTransaction,
+  Overrides,
+  PayableOverrides,
+  PopulatedTransaction,
+} from 'ethers';
+
+export interface MultiCall2 extends Contract {
+  functions: {
+    aggregate(
+      calls: { target: string; callData: BytesLike }[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    blockAndAggregate(
+      calls: { target: string; callData: BytesLike }[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    getBlockHash(
+      blockNumber: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[string] & { blockHash: string }>;
+    getBlockNumber(
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber] & { blockNumber: BigNumber }>;
+    getCurrentBlockCoinbase(
+      overrides?: CallOverrides,
+    ): Promise<[string] & { coinbase: string }>;
+    getCurrentBlockDifficulty(
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber] & { difficulty: BigNumber }>;
+    getCurrentBlockGasLimit(
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber] & { gaslimit: BigNumber }>;
+    getCurrentBlockTimestamp(
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber] & { timestamp: BigNumber }>;
+    getEthBalance(
+      addr: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber] & { balance: BigNumber }>;
+    getLastBlockHash(
+      overrides?: CallOverrides,
+    ): Promise<[string] & { blockHash: string }>;
+    tryAggregate(
+      requireSuccess: boolean,
+      calls: { target: string; callData: BytesLike }[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    tryBlockAndAggregate(
+      requireSuccess: boolean,
+      calls: { target: string; callData: BytesLike }[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+  };
+
+  callStatic: {
+    aggregate(
+      calls: { target: string; callData: BytesLike }[],
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, string[]] & { blockNumber: BigNumber; returnData: string[] }
+    >;
+    blockAndAggregate(
+      calls: { target: string; callData: BytesLike }[],
+      overrides?: CallOverrides,
+    ): Promise<
+      [
+        BigNumber,
+        string,
+        ([boolean, string] & { success: boolean; returnData: string })[],
+      ] & {
+        blockNumber: BigNumber;
+        blockHash: string;
+        returnData: ([boolean, string] & {
+          success: boolean;
+          returnData: string;
+        })[];
+      }
+    >;
+    getBlockHash(
+      blockNumber: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<string>;
+    getBlockNumber(overrides?: CallOverrides): Promise<BigNumber>;
+    getCurrentBlockCoinbase(overrides?: CallOverrides): Promise<string>;
+    getCurrentBlockDifficulty(overrides?: CallOverrides): Promise<BigNumber>;
+    getCurrentBlockGasLimit(overrides?: CallOverrides): Promise<BigNumber>;
+    getCurrentBlockTimestamp(overrides?: CallOverrides): Promise<BigNumber>;
+    getEthBalance(addr: string, overrides?: CallOverrides): Promise<BigNumber>;
+    getLastBlockHash(overrides?: CallOverrides): Promise<string>;
+    tryAggregate(
+      requireSuccess: boolean,
+      calls: { target: string; callData: BytesLike }[],
+      overrides?: CallOverrides,
+    ): Promise<
+      ([boolean, string] & { success: boolean; returnData: string })[]
+    >;
+    tryBlockAndAggregate(
+      requireSuccess: boolean,
+      calls: { target: string; callData: BytesLike }[],
+      overrides?: CallOverrides,
+    ): Promise<
+      [
+        BigNumber,
+        string,
+        ([boolean, string] & { success: boolean; returnData: string })[],
+      ] & {
+        blockNumber: BigNumber;
+        blockHash: string;
+        returnData: ([boolean, string] & {
+          success: boolean;
+          returnData: string;
+        })[];
+      }
+    >;
+  };
+
+  estimateGas: {
+    aggregate(
+      calls: { target: string; callData: BytesLike }[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    blockAndAggregate(
+      calls: { target: string; callData: BytesLike }[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    getBlockHash(
+      blockNumber: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getBlockNumber(overrides?: CallOverrides): Promise<BigNumber>;
+    getCurrentBlockCoinbase(overrides?: CallOverrides): Promise<BigNumber>;
+    getCurrentBlockDifficulty(overrides?: CallOverrides): Promise<BigNumber>;
+    getCurrentBlockGasLimit(overrides?: CallOverrides): Promise<BigNumber>;
+    getCurrentBlockTimestamp(overrides?: CallOverrides): Promise<BigNumber>;
+    getEthBalance(addr: string, overrides?: CallOverrides): Promise<BigNumber>;
+    getLastBlockHash(overrides?: CallOverrides): Promise<BigNumber>;
+    tryAggregate(
+      requireSuccess: boolean,
+      calls: { target: string; callData: BytesLike }[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    tryBlockAndAggregate(
+      requireSuccess: boolean,
+      calls: { target: string; callData: BytesLike }[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    aggregate(
+      calls: { target: string; callData: BytesLike }[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    blockAndAggregate(
+      calls: { target: string; callData: BytesLike }[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    getBlockHash(
+      blockNumber: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getBlockNumber(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    getCurrentBlockCoinbase(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getCurrentBlockDifficulty(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getCurrentBlockGasLimit(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getCurrentBlockTimestamp(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getEthBalance(
+      addr: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getLastBlockHash(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    tryAggregate(
+      requireSuccess: boolean,
+      calls: { target: string; callData: BytesLike }[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    tryBlockAndAggregate(
+      requireSuccess: boolean,
+      calls: { target: string; callData: BytesLike }[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+  };
+
+  aggregate(
+    calls: { target: string; callData: BytesLike }[],
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  blockAndAggregate(
+    calls: { target: string; callData: BytesLike }[],
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  getBlockHash(
+    blockNumber: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<string>;
+  getBlockNumber(overrides?: CallOverrides): Promise<BigNumber>;
+  getCurrentBlockCoinbase(overrides?: CallOverrides): Promise<string>;
+  getCurrentBlockDifficulty(overrides?: CallOverrides): Promise<BigNumber>;
+  getCurrentBlockGasLimit(overrides?: CallOverrides): Promise<BigNumber>;
+  getCurrentBlockTimestamp(overrides?: CallOverrides): Promise<BigNumber>;
+  getEthBalance(addr: string, overrides?: CallOverrides): Promise<BigNumber>;
+  getLastBlockHash(overrides?: CallOverrides): Promise<string>;
+  tryAggregate(
+    requireSuccess: boolean,
+    calls: { target: string; callData: BytesLike }[],
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  tryBlockAndAggregate(
+    requireSuccess: boolean,
+    calls: { target: string; callData: BytesLike }[],
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+}
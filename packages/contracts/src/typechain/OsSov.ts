@@ -0,0 +1,581 @@
+/* Autogenerated file. Do not edit manually. */
+
+/* eslint-disable */
+import type {
+  BigNumber,
+  BigNumberish,
+  BytesLike,
+  CallOverrides,
+  Contract,
+  ContractTransaction,
+  Overrides,
+  PayableOverrides,
+  PopulatedTransaction,
+} from 'ethers';
+
+export interface OsSov extends Contract {
+  functions: {
+    admin(
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    changeAdmin(
+      newAdmin: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    implementation(
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    upgradeTo(
+      newImplementation: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    upgradeToAndCall(
+      newImplementation: string,
+      data: BytesLike,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    AUTHORISED_MINTER_ROLE(overrides?: CallOverrides): Promise<[string]>;
+    DEFAULT_ADMIN_ROLE(overrides?: CallOverrides): Promise<[string]>;
+    allowance(
+      owner: string,
+      spender: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    approve(
+      arg0: string,
+      arg1: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    balanceOf(account: string, overrides?: CallOverrides): Promise<[BigNumber]>;
+    cap(overrides?: CallOverrides): Promise<[BigNumber]>;
+    decimals(overrides?: CallOverrides): Promise<[number]>;
+    decreaseAllowance(
+      spender: string,
+      subtractedValue: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    getRoleAdmin(role: BytesLike, overrides?: CallOverrides): Promise<[string]>;
+    grantRole(
+      role: BytesLike,
+      account: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    hasRole(
+      role: BytesLike,
+      account: string,
+      overrides?: CallOverrides,
+    ): Promise<[boolean]>;
+    increaseAllowance(
+      spender: string,
+      addedValue: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    initialize(
+      _owner: string,
+      _defaultAdmin: string,
+      _authorizedMinter: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    mint(
+      _to: string,
+      _amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    name(overrides?: CallOverrides): Promise<[string]>;
+    owner(overrides?: CallOverrides): Promise<[string]>;
+    renounceOwnership(
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    renounceRole(
+      role: BytesLike,
+      account: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    revokeRole(
+      role: BytesLike,
+      account: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setAuthorisedMinterRole(
+      _authorizedMinter: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setDefaultAdminRole(
+      _adminRole: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    supportsInterface(
+      interfaceId: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<[boolean]>;
+    symbol(overrides?: CallOverrides): Promise<[string]>;
+    totalSupply(overrides?: CallOverrides): Promise<[BigNumber]>;
+    transfer(
+      arg0: string,
+      arg1: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[boolean]>;
+    transferFrom(
+      from: string,
+      to: string,
+      amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+  };
+
+  callStatic: {
+    admin(overrides?: CallOverrides): Promise<string>;
+    changeAdmin(newAdmin: string, overrides?: CallOverrides): Promise<void>;
+    implementation(overrides?: CallOverrides): Promise<string>;
+    upgradeTo(
+      newImplementation: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    upgradeToAndCall(
+      newImplementation: string,
+      data: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    AUTHORISED_MINTER_ROLE(overrides?: CallOverrides): Promise<string>;
+    DEFAULT_ADMIN_ROLE(overrides?: CallOverrides): Promise<string>;
+    allowance(
+      owner: string,
+      spender: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    approve(
+      arg0: string,
+      arg1: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<boolean>;
+    balanceOf(account: string, overrides?: CallOverrides): Promise<BigNumber>;
+    cap(overrides?: CallOverrides): Promise<BigNumber>;
+    decimals(overrides?: CallOverrides): Promise<number>;
+    decreaseAllowance(
+      spender: string,
+      subtractedValue: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<boolean>;
+    getRoleAdmin(role: BytesLike, overrides?: CallOverrides): Promise<string>;
+    grantRole(
+      role: BytesLike,
+      account: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    hasRole(
+      role: BytesLike,
+      account: string,
+      overrides?: CallOverrides,
+    ): Promise<boolean>;
+    increaseAllowance(
+      spender: string,
+      addedValue: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<boolean>;
+    initialize(
+      _owner: string,
+      _defaultAdmin: string,
+      _authorizedMinter: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    mint(
+      _to: string,
+      _amount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    name(overrides?: CallOverrides): Promise<string>;
+    owner(overrides?: CallOverrides): Promise<string>;
+    renounceOwnership(overrides?: CallOverrides): Promise<void>;
+    renounceRole(
+      role: BytesLike,
+      account: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    revokeRole(
+      role: BytesLike,
+      account: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setAuthorisedMinterRole(
+      _authorizedMinter: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setDefaultAdminRole(
+      _adminRole: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    supportsInterface(
+      interfaceId: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<boolean>;
+    symbol(overrides?: CallOverrides): Promise<string>;
+    totalSupply(overrides?: CallOverrides): Promise<BigNumber>;
+    transfer(
+      arg0: string,
+      arg1: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<boolean>;
+    transferFrom(
+      from: string,
+      to: string,
+      amount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<boolean>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+  };
+
+  estimateGas: {
+    admin(overrides?: Overrides & { from?: string }): Promise<BigNumber>;
+    changeAdmin(
+      newAdmin: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    implementation(
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    upgradeTo(
+      newImplementation: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    upgradeToAndCall(
+      newImplementation: string,
+      data: BytesLike,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<BigNumber>;
+    AUTHORISED_MINTER_ROLE(overrides?: CallOverrides): Promise<BigNumber>;
+    DEFAULT_ADMIN_ROLE(overrides?: CallOverrides): Promise<BigNumber>;
+    allowance(
+      owner: string,
+      spender: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    approve(
+      arg0: string,
+      arg1: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    balanceOf(account: string, overrides?: CallOverrides): Promise<BigNumber>;
+    cap(overrides?: CallOverrides): Promise<BigNumber>;
+    decimals(overrides?: CallOverrides): Promise<BigNumber>;
+    decreaseAllowance(
+      spender: string,
+      subtractedValue: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    getRoleAdmin(
+      role: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    grantRole(
+      role: BytesLike,
+      account: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    hasRole(
+      role: BytesLike,
+      account: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    increaseAllowance(
+      spender: string,
+      addedValue: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    initialize(
+      _owner: string,
+      _defaultAdmin: string,
+      _authorizedMinter: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    mint(
+      _to: string,
+      _amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    name(overrides?: CallOverrides): Promise<BigNumber>;
+    owner(overrides?: CallOverrides): Promise<BigNumber>;
+    renounceOwnership(
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    renounceRole(
+      role: BytesLike,
+      account: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    revokeRole(
+      role: BytesLike,
+      account: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setAuthorisedMinterRole(
+      _authorizedMinter: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setDefaultAdminRole(
+      _adminRole: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    supportsInterface(
+      interfaceId: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    symbol(overrides?: CallOverrides): Promise<BigNumber>;
+    totalSupply(overrides?: CallOverrides): Promise<BigNumber>;
+    transfer(
+      arg0: string,
+      arg1: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    transferFrom(
+      from: string,
+      to: string,
+      amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    admin(
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    changeAdmin(
+      newAdmin: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    implementation(
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    upgradeTo(
+      newImplementation: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    upgradeToAndCall(
+      newImplementation: string,
+      data: BytesLike,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    AUTHORISED_MINTER_ROLE(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    DEFAULT_ADMIN_ROLE(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    allowance(
+      owner: string,
+      spender: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    approve(
+      arg0: string,
+      arg1: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    balanceOf(
+      account: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    cap(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    decimals(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    decreaseAllowance(
+      spender: string,
+      subtractedValue: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    getRoleAdmin(
+      role: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    grantRole(
+      role: BytesLike,
+      account: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    hasRole(
+      role: BytesLike,
+      account: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    increaseAllowance(
+      spender: string,
+      addedValue: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    initialize(
+      _owner: string,
+      _defaultAdmin: string,
+      _authorizedMinter: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    mint(
+      _to: string,
+      _amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    name(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    owner(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    renounceOwnership(
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    renounceRole(
+      role: BytesLike,
+      account: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    revokeRole(
+      role: BytesLike,
+      account: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setAuthorisedMinterRole(
+      _authorizedMinter: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setDefaultAdminRole(
+      _adminRole: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    supportsInterface(
+      interfaceId: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    symbol(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    totalSupply(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    transfer(
+      arg0: string,
+      arg1: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    transferFrom(
+      from: string,
+      to: string,
+      amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+  };
+
+  admin(
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  changeAdmin(
+    newAdmin: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  implementation(
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  upgradeTo(
+    newImplementation: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  upgradeToAndCall(
+    newImplementation: string,
+    data: BytesLike,
+    overrides?: PayableOverrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  AUTHORISED_MINTER_ROLE(overrides?: CallOverrides): Promise<string>;
+  DEFAULT_ADMIN_ROLE(overrides?: CallOverrides): Promise<string>;
+  allowance(
+    owner: string,
+    spender: string,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  approve(
+    arg0: string,
+    arg1: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  balanceOf(account: string, overrides?: CallOverrides): Promise<BigNumber>;
+  cap(overrides?: CallOverrides): Promise<BigNumber>;
+  decimals(overrides?: CallOverrides): Promise<number>;
+  decreaseAllowance(
+    spender: string,
+    subtractedValue: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  getRoleAdmin(role: BytesLike, overrides?: CallOverrides): Promise<string>;
+  grantRole(
+    role: BytesLike,
+    account: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  hasRole(
+    role: BytesLike,
+    account: string,
+    overrides?: CallOverrides,
+  ): Promise<boolean>;
+  increaseAllowance(
+    spender: string,
+    addedValue: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  initialize(
+    _owner: string,
+    _defaultAdmin: string,
+    _authorizedMinter: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  mint(
+    _to: string,
+    _amount: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  name(overrides?: CallOverrides): Promise<string>;
+  owner(overrides?: CallOverrides): Promise<string>;
+  renounceOwnership(
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  renounceRole(
+    role: BytesLike,
+    account: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  revokeRole(
+    role: BytesLike,
+    account: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setAuthorisedMinterRole(
+    _authorizedMinter: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setDefaultAdminRole(
+    _adminRole: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  supportsInterface(
+    interfaceId: BytesLike,
+    overrides?: CallOverrides,
+  ): Promise<boolean>;
+  symbol(overrides?: CallOverrides): Promise<string>;
+  totalSupply(overrides?: CallOverrides): Promise<BigNumber>;
+  transfer(
+    arg0: string,
+    arg1: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<boolean>;
+  transferFrom(
+    from: string,
+    to: string,
+    amount: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  transferOwnership(
+    newOwner: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+}
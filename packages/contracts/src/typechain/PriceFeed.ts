@@ -0,0 +1,380 @@
+/* Autogenerated file. Do not edit manually. */
+
+/* eslint-disable */
+import type {
+  BigNumber,
+  BigNumberish,
+  BytesLike,
+  CallOverrides,
+  Contract,
+  ContractTransaction,
+  Overrides,
+  PayableOverrides,
+  PopulatedTransaction,
+} from 'ethers';
+
+export interface PriceFeed extends Contract {
+  functions: {
+    amountInEth(
+      Token: string,
+      amount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber] & { ethAmount: BigNumber }>;
+    checkPriceDisagreement(
+      sourceToken: string,
+      destToken: string,
+      sourceAmount: BigNumberish,
+      destAmount: BigNumberish,
+      maxSlippage: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber] & { sourceToDestSwapRate: BigNumber }>;
+    getCurrentMargin(
+      loanToken: string,
+      collateralToken: string,
+      loanAmount: BigNumberish,
+      collateralAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, BigNumber] & {
+        currentMargin: BigNumber;
+        collateralToLoanRate: BigNumber;
+      }
+    >;
+    getCurrentMarginAndCollateralSize(
+      loanToken: string,
+      collateralToken: string,
+      loanAmount: BigNumberish,
+      collateralAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, BigNumber] & {
+        currentMargin: BigNumber;
+        collateralInEthAmount: BigNumber;
+      }
+    >;
+    getFastGasPrice(
+      payToken: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    getMaxDrawdown(
+      loanToken: string,
+      collateralToken: string,
+      loanAmount: BigNumberish,
+      collateralAmount: BigNumberish,
+      maintenanceMargin: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    queryPrecision(
+      sourceToken: string,
+      destToken: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber] & { precision: BigNumber }>;
+    queryRate(
+      sourceToken: string,
+      destToken: string,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, BigNumber] & { rate: BigNumber; precision: BigNumber }
+    >;
+    queryReturn(
+      sourceToken: string,
+      destToken: string,
+      sourceAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber] & { destAmount: BigNumber }>;
+    shouldLiquidate(
+      loanToken: string,
+      collateralToken: string,
+      loanAmount: BigNumberish,
+      collateralAmount: BigNumberish,
+      maintenanceMargin: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[boolean]>;
+  };
+
+  callStatic: {
+    amountInEth(
+      Token: string,
+      amount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    checkPriceDisagreement(
+      sourceToken: string,
+      destToken: string,
+      sourceAmount: BigNumberish,
+      destAmount: BigNumberish,
+      maxSlippage: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getCurrentMargin(
+      loanToken: string,
+      collateralToken: string,
+      loanAmount: BigNumberish,
+      collateralAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, BigNumber] & {
+        currentMargin: BigNumber;
+        collateralToLoanRate: BigNumber;
+      }
+    >;
+    getCurrentMarginAndCollateralSize(
+      loanToken: string,
+      collateralToken: string,
+      loanAmount: BigNumberish,
+      collateralAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, BigNumber] & {
+        currentMargin: BigNumber;
+        collateralInEthAmount: BigNumber;
+      }
+    >;
+    getFastGasPrice(
+      payToken: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getMaxDrawdown(
+      loanToken: string,
+      collateralToken: string,
+      loanAmount: BigNumberish,
+      collateralAmount: BigNumberish,
+      maintenanceMargin: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    queryPrecision(
+      sourceToken: string,
+      destToken: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    queryRate(
+      sourceToken: string,
+      destToken: string,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, BigNumber] & { rate: BigNumber; precision: BigNumber }
+    >;
+    queryReturn(
+      sourceToken: string,
+      destToken: string,
+      sourceAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    shouldLiquidate(
+      loanToken: string,
+      collateralToken: string,
+      loanAmount: BigNumberish,
+      collateralAmount: BigNumberish,
+      maintenanceMargin: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<boolean>;
+  };
+
+  estimateGas: {
+    amountInEth(
+      Token: string,
+      amount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    checkPriceDisagreement(
+      sourceToken: string,
+      destToken: string,
+      sourceAmount: BigNumberish,
+      destAmount: BigNumberish,
+      maxSlippage: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getCurrentMargin(
+      loanToken: string,
+      collateralToken: string,
+      loanAmount: BigNumberish,
+      collateralAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getCurrentMarginAndCollateralSize(
+      loanToken: string,
+      collateralToken: string,
+      loanAmount: BigNumberish,
+      collateralAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getFastGasPrice(
+      payToken: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getMaxDrawdown(
+      loanToken: string,
+      collateralToken: string,
+      loanAmount: BigNumberish,
+      collateralAmount: BigNumberish,
+      maintenanceMargin: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    queryPrecision(
+      sourceToken: string,
+      destToken: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    queryRate(
+      sourceToken: string,
+      destToken: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    queryReturn(
+      sourceToken: string,
+      destToken: string,
+      sourceAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    shouldLiquidate(
+      loanToken: string,
+      collateralToken: string,
+      loanAmount: BigNumberish,
+      collateralAmount: BigNumberish,
+      maintenanceMargin: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    amountInEth(
+      Token: string,
+      amount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    checkPriceDisagreement(
+      sourceToken: string,
+      destToken: string,
+      sourceAmount: BigNumberish,
+      destAmount: BigNumberish,
+      maxSlippage: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getCurrentMargin(
+      loanToken: string,
+      collateralToken: string,
+      loanAmount: BigNumberish,
+      collateralAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getCurrentMarginAndCollateralSize(
+      loanToken: string,
+      collateralToken: string,
+      loanAmount: BigNumberish,
+      collateralAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getFastGasPrice(
+      payToken: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getMaxDrawdown(
+      loanToken: string,
+      collateralToken: string,
+      loanAmount: BigNumberish,
+      collateralAmount: BigNumberish,
+      maintenanceMargin: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    queryPrecision(
+      sourceToken: string,
+      destToken: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    queryRate(
+      sourceToken: string,
+      destToken: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    queryReturn(
+      sourceToken: string,
+      destToken: string,
+      sourceAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    shouldLiquidate(
+      loanToken: string,
+      collateralToken: string,
+      loanAmount: BigNumberish,
+      collateralAmount: BigNumberish,
+      maintenanceMargin: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+  };
+
+  amountInEth(
+    Token: string,
+    amount: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  checkPriceDisagreement(
+    sourceToken: string,
+    destToken: string,
+    sourceAmount: BigNumberish,
+    destAmount: BigNumberish,
+    maxSlippage: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  getCurrentMargin(
+    loanToken: string,
+    collateralToken: string,
+    loanAmount: BigNumberish,
+    collateralAmount: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<
+    [BigNumber, BigNumber] & {
+      currentMargin: BigNumber;
+      collateralToLoanRate: BigNumber;
+    }
+  >;
+  getCurrentMarginAndCollateralSize(
+    loanToken: string,
+    collateralToken: string,
+    loanAmount: BigNumberish,
+    collateralAmount: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<
+    [BigNumber, BigNumber] & {
+      currentMargin: BigNumber;
+      collateralInEthAmount: BigNumber;
+    }
+  >;
+  getFastGasPrice(
+    payToken: string,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  getMaxDrawdown(
+    loanToken: string,
+    collateralToken: string,
+    loanAmount: BigNumberish,
+    collateralAmount: BigNumberish,
+    maintenanceMargin: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  queryPrecision(
+    sourceToken: string,
+    destToken: string,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  queryRate(
+    sourceToken: string,
+    destToken: string,
+    overrides?: CallOverrides,
+  ): Promise<
+    [BigNumber, BigNumber] & { rate: BigNumber; precision: BigNumber }
+  >;
+  queryReturn(
+    sourceToken: string,
+    destToken: string,
+    sourceAmount: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  shouldLiquidate(
+    loanToken: string,
+    collateralToken: string,
+    loanAmount: BigNumberish,
+    collateralAmount: BigNumberish,
+    maintenanceMargin: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<boolean>;
+}
@@ -0,0 +1,4504 @@
+/* Autogenerated file. Do not edit manually. */
+
+/* eslint-disable */
+import type {
+  BigNumber,
+  BigNumberish,
+  BytesLike,
+  CallOverrides,
+  Contract,
+  ContractTransaction,
+  Overrides,
+  PayableOverrides,
+  PopulatedTransaction,
+} from 'ethers';
+
+export interface Protocol extends Contract {
+  functions: {
+    admin(overrides?: CallOverrides): Promise<[string]>;
+    affiliateFeePercent(overrides?: CallOverrides): Promise<[BigNumber]>;
+    affiliateRewardsHeld(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    affiliateTradingTokenFeePercent(
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    affiliatesReferrerBalances(
+      arg0: string,
+      arg1: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    affiliatesUserReferrer(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<[string]>;
+    borrowOrTradeFromPool(
+      loanParamsId: BytesLike,
+      loanId: BytesLike,
+      isTorqueLoan: boolean,
+      initialMargin: BigNumberish,
+      sentAddresses: {
+        lender: string;
+        borrower: string;
+        receiver: string;
+        manager: string;
+      },
+      sentValues: {
+        interestRate: BigNumberish;
+        newPrincipal: BigNumberish;
+        interestInitialAmount: BigNumberish;
+        loanTokenSent: BigNumberish;
+        collateralTokenSent: BigNumberish;
+        minEntryPrice: BigNumberish;
+        loanToCollateralSwapRate: BigNumberish;
+        interestDuration: BigNumberish;
+        entryLeverage: BigNumberish;
+      },
+      loanDataBytes: BytesLike,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    borrowerNonce(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    borrowerOrders(
+      arg0: string,
+      arg1: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, BigNumber, BigNumber, BigNumber, BigNumber, BigNumber] & {
+        lockedAmount: BigNumber;
+        interestRate: BigNumber;
+        minLoanTerm: BigNumber;
+        maxLoanTerm: BigNumber;
+        createdTimestamp: BigNumber;
+        expirationTimestamp: BigNumber;
+      }
+    >;
+    borrowingFeePercent(overrides?: CallOverrides): Promise<[BigNumber]>;
+    borrowingFeeTokensHeld(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    borrowingFeeTokensPaid(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    checkCloseWithDepositIsTinyPosition(
+      loanId: BytesLike,
+      depositAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<
+      [boolean, BigNumber] & {
+        isTinyPosition: boolean;
+        tinyPositionAmount: BigNumber;
+      }
+    >;
+    checkPriceDivergence(
+      sourceToken: string,
+      destToken: string,
+      sourceTokenAmount: BigNumberish,
+      minReturn: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[]>;
+    closeWithDeposit(
+      loanId: BytesLike,
+      receiver: string,
+      depositAmount: BigNumberish,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    closeWithSwap(
+      loanId: BytesLike,
+      receiver: string,
+      swapAmount: BigNumberish,
+      returnTokenIsCollateral: boolean,
+      loanDataBytes: BytesLike,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    delegatedManagers(
+      arg0: BytesLike,
+      arg1: string,
+      overrides?: CallOverrides,
+    ): Promise<[boolean]>;
+    depositCollateral(
+      loanId: BytesLike,
+      depositAmount: BigNumberish,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    depositProtocolToken(
+      amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    disableLoanParams(
+      loanParamsIdList: BytesLike[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    extendLoanByInterest(
+      loanId: BytesLike,
+      payer: string,
+      depositAmount: BigNumberish,
+      useCollateral: boolean,
+      loanDataBytes: BytesLike,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    extendLoanDuration(
+      loanId: BytesLike,
+      depositAmount: BigNumberish,
+      useCollateral: boolean,
+      arg3: BytesLike,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    feeRebatePercent(overrides?: CallOverrides): Promise<[BigNumber]>;
+    feesController(overrides?: CallOverrides): Promise<[string]>;
+    getActiveLoans(
+      start: BigNumberish,
+      count: BigNumberish,
+      unsafeOnly: boolean,
+      overrides?: CallOverrides,
+    ): Promise<
+      [
+        ([
+          string,
+          string,
+          string,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+        ] & {
+          loanId: string;
+          loanToken: string;
+          collateralToken: string;
+          principal: BigNumber;
+          collateral: BigNumber;
+          interestOwedPerDay: BigNumber;
+          interestDepositRemaining: BigNumber;
+          startRate: BigNumber;
+          startMargin: BigNumber;
+          maintenanceMargin: BigNumber;
+          currentMargin: BigNumber;
+          maxLoanTerm: BigNumber;
+          endTimestamp: BigNumber;
+          maxLiquidatable: BigNumber;
+          maxSeizable: BigNumber;
+        })[],
+      ] & {
+        loansData: ([
+          string,
+          string,
+          string,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+        ] & {
+          loanId: string;
+          loanToken: string;
+          collateralToken: string;
+          principal: BigNumber;
+          collateral: BigNumber;
+          interestOwedPerDay: BigNumber;
+          interestDepositRemaining: BigNumber;
+          startRate: BigNumber;
+          startMargin: BigNumber;
+          maintenanceMargin: BigNumber;
+          currentMargin: BigNumber;
+          maxLoanTerm: BigNumber;
+          endTimestamp: BigNumber;
+          maxLiquidatable: BigNumber;
+          maxSeizable: BigNumber;
+        })[];
+      }
+    >;
+    getActiveLoansV2(
+      start: BigNumberish,
+      count: BigNumberish,
+      unsafeOnly: boolean,
+      overrides?: CallOverrides,
+    ): Promise<
+      [
+        ([
+          string,
+          string,
+          string,
+          string,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+        ] & {
+          loanId: string;
+          loanToken: string;
+          collateralToken: string;
+          borrower: string;
+          principal: BigNumber;
+          collateral: BigNumber;
+          interestOwedPerDay: BigNumber;
+          interestDepositRemaining: BigNumber;
+          startRate: BigNumber;
+          startMargin: BigNumber;
+          maintenanceMargin: BigNumber;
+          currentMargin: BigNumber;
+          maxLoanTerm: BigNumber;
+          endTimestamp: BigNumber;
+          maxLiquidatable: BigNumber;
+          maxSeizable: BigNumber;
+          creationTimestamp: BigNumber;
+        })[],
+      ] & {
+        loansDataV2: ([
+          string,
+          string,
+          string,
+          string,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+        ] & {
+          loanId: string;
+          loanToken: string;
+          collateralToken: string;
+          borrower: string;
+          principal: BigNumber;
+          collateral: BigNumber;
+          interestOwedPerDay: BigNumber;
+          interestDepositRemaining: BigNumber;
+          startRate: BigNumber;
+          startMargin: BigNumber;
+          maintenanceMargin: BigNumber;
+          currentMargin: BigNumber;
+          maxLoanTerm: BigNumber;
+          endTimestamp: BigNumber;
+          maxLiquidatable: BigNumber;
+          maxSeizable: BigNumber;
+          creationTimestamp: BigNumber;
+        })[];
+      }
+    >;
+    getAdmin(overrides?: CallOverrides): Promise<[string]>;
+    getAffiliateRewardsHeld(
+      referrer: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    getAffiliateTradingTokenFeePercent(
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber] & { affiliateTradingTokenFeePercent: BigNumber }>;
+    getAffiliatesReferrerBalances(
+      referrer: string,
+      overrides?: CallOverrides,
+    ): Promise<
+      [string[], BigNumber[]] & {
+        referrerTokensList: string[];
+        referrerTokensBalances: BigNumber[];
+      }
+    >;
+    getAffiliatesReferrerTokenBalance(
+      referrer: string,
+      token: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    getAffiliatesReferrerTokensList(
+      referrer: string,
+      overrides?: CallOverrides,
+    ): Promise<[string[]] & { tokensList: string[] }>;
+    getAffiliatesTokenRewardsValueInRbtc(
+      referrer: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber] & { rbtcTotalAmount: BigNumber }>;
+    getAffiliatesUserReferrer(
+      user: string,
+      overrides?: CallOverrides,
+    ): Promise<[string] & { referrer: string }>;
+    getBorrowAmount(
+      loanToken: string,
+      collateralToken: string,
+      collateralTokenAmount: BigNumberish,
+      marginAmount: BigNumberish,
+      isTorqueLoan: boolean,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber] & { borrowAmount: BigNumber }>;
+    getDedicatedSOVRebate(overrides?: CallOverrides): Promise<[BigNumber]>;
+    getDefaultPathConversion(
+      sourceTokenAddress: string,
+      destTokenAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<[string[]]>;
+    getEstimatedMarginExposure(
+      loanToken: string,
+      collateralToken: string,
+      loanTokenSent: BigNumberish,
+      collateralTokenSent: BigNumberish,
+      interestRate: BigNumberish,
+      newPrincipal: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    getFeeRebatePercent(overrides?: CallOverrides): Promise<[BigNumber]>;
+    getLegacyOracle(ref: string, overrides?: CallOverrides): Promise<[string]>;
+    getLenderInterestData(
+      lender: string,
+      loanToken: string,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, BigNumber, BigNumber, BigNumber, BigNumber, BigNumber] & {
+        interestPaid: BigNumber;
+        interestPaidDate: BigNumber;
+        interestOwedPerDay: BigNumber;
+        interestUnPaid: BigNumber;
+        interestFeePercent: BigNumber;
+        principalTotal: BigNumber;
+      }
+    >;
+    getLoan(
+      loanId: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<
+      [
+        [
+          string,
+          string,
+          string,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+        ] & {
+          loanId: string;
+          loanToken: string;
+          collateralToken: string;
+          principal: BigNumber;
+          collateral: BigNumber;
+          interestOwedPerDay: BigNumber;
+          interestDepositRemaining: BigNumber;
+          startRate: BigNumber;
+          startMargin: BigNumber;
+          maintenanceMargin: BigNumber;
+          currentMargin: BigNumber;
+          maxLoanTerm: BigNumber;
+          endTimestamp: BigNumber;
+          maxLiquidatable: BigNumber;
+          maxSeizable: BigNumber;
+        },
+      ] & {
+        loanData: [
+          string,
+          string,
+          string,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+        ] & {
+          loanId: string;
+          loanToken: string;
+          collateralToken: string;
+          principal: BigNumber;
+          collateral: BigNumber;
+          interestOwedPerDay: BigNumber;
+          interestDepositRemaining: BigNumber;
+          startRate: BigNumber;
+          startMargin: BigNumber;
+          maintenanceMargin: BigNumber;
+          currentMargin: BigNumber;
+          maxLoanTerm: BigNumber;
+          endTimestamp: BigNumber;
+          maxLiquidatable: BigNumber;
+          maxSeizable: BigNumber;
+        };
+      }
+    >;
+    getLoanInterestData(
+      loanId: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<
+      [string, BigNumber, BigNumber, BigNumber] & {
+        loanToken: string;
+        interestOwedPerDay: BigNumber;
+        interestDepositTotal: BigNumber;
+        interestDepositRemaining: BigNumber;
+      }
+    >;
+    getLoanParams(
+      loanParamsIdList: BytesLike[],
+      overrides?: CallOverrides,
+    ): Promise<
+      [
+        ([
+          string,
+          boolean,
+          string,
+          string,
+          string,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+        ] & {
+          id: string;
+          active: boolean;
+          owner: string;
+          loanToken: string;
+          collateralToken: string;
+          minInitialMargin: BigNumber;
+          maintenanceMargin: BigNumber;
+          maxLoanTerm: BigNumber;
+        })[],
+      ] & {
+        loanParamsList: ([
+          string,
+          boolean,
+          string,
+          string,
+          string,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+        ] & {
+          id: string;
+          active: boolean;
+          owner: string;
+          loanToken: string;
+          collateralToken: string;
+          minInitialMargin: BigNumber;
+          maintenanceMargin: BigNumber;
+          maxLoanTerm: BigNumber;
+        })[];
+      }
+    >;
+    getLoanParamsList(
+      owner: string,
+      start: BigNumberish,
+      count: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[string[]] & { loanParamsList: string[] }>;
+    getLoanPoolsList(
+      start: BigNumberish,
+      count: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[string[]]>;
+    getLoanV2(
+      loanId: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<
+      [
+        [
+          string,
+          string,
+          string,
+          string,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+        ] & {
+          loanId: string;
+          loanToken: string;
+          collateralToken: string;
+          borrower: string;
+          principal: BigNumber;
+          collateral: BigNumber;
+          interestOwedPerDay: BigNumber;
+          interestDepositRemaining: BigNumber;
+          startRate: BigNumber;
+          startMargin: BigNumber;
+          maintenanceMargin: BigNumber;
+          currentMargin: BigNumber;
+          maxLoanTerm: BigNumber;
+          endTimestamp: BigNumber;
+          maxLiquidatable: BigNumber;
+          maxSeizable: BigNumber;
+          creationTimestamp: BigNumber;
+        },
+      ] & {
+        loanDataV2: [
+          string,
+          string,
+          string,
+          string,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+        ] & {
+          loanId: string;
+          loanToken: string;
+          collateralToken: string;
+          borrower: string;
+          principal: BigNumber;
+          collateral: BigNumber;
+          interestOwedPerDay: BigNumber;
+          interestDepositRemaining: BigNumber;
+          startRate: BigNumber;
+          startMargin: BigNumber;
+          maintenanceMargin: BigNumber;
+          currentMargin: BigNumber;
+          maxLoanTerm: BigNumber;
+          endTimestamp: BigNumber;
+          maxLiquidatable: BigNumber;
+          maxSeizable: BigNumber;
+          creationTimestamp: BigNumber;
+        };
+      }
+    >;
+    getLockedSOVAddress(overrides?: CallOverrides): Promise<[string]>;
+    getMinReferralsToPayout(overrides?: CallOverrides): Promise<[BigNumber]>;
+    getPauser(overrides?: CallOverrides): Promise<[string]>;
+    getProtocolAddress(overrides?: CallOverrides): Promise<[string]>;
+    getReferralsList(
+      referrer: string,
+      overrides?: CallOverrides,
+    ): Promise<[string[]] & { refList: string[] }>;
+    getRequiredCollateral(
+      loanToken: string,
+      collateralToken: string,
+      newPrincipal: BigNumberish,
+      marginAmount: BigNumberish,
+      isTorqueLoan: boolean,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber] & { collateralAmountRequired: BigNumber }>;
+    getSovTokenAddress(overrides?: CallOverrides): Promise<[string]>;
+    getSpecialRebates(
+      sourceToken: string,
+      destToken: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber] & { specialRebatesPercent: BigNumber }>;
+    getSwapExpectedReturn(
+      sourceToken: string,
+      destToken: string,
+      sourceTokenAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    getSwapExternalFeePercent(
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber] & { swapExternalFeePercent: BigNumber }>;
+    getTarget(sig: string, overrides?: CallOverrides): Promise<[string]>;
+    getTotalPrincipal(
+      lender: string,
+      loanToken: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    getTradingRebateRewardsBasisPoint(
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    getUserLoans(
+      user: string,
+      start: BigNumberish,
+      count: BigNumberish,
+      loanType: BigNumberish,
+      isLender: boolean,
+      unsafeOnly: boolean,
+      overrides?: CallOverrides,
+    ): Promise<
+      [
+        ([
+          string,
+          string,
+          string,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+        ] & {
+          loanId: string;
+          loanToken: string;
+          collateralToken: string;
+          principal: BigNumber;
+          collateral: BigNumber;
+          interestOwedPerDay: BigNumber;
+          interestDepositRemaining: BigNumber;
+          startRate: BigNumber;
+          startMargin: BigNumber;
+          maintenanceMargin: BigNumber;
+          currentMargin: BigNumber;
+          maxLoanTerm: BigNumber;
+          endTimestamp: BigNumber;
+          maxLiquidatable: BigNumber;
+          maxSeizable: BigNumber;
+        })[],
+      ] & {
+        loansData: ([
+          string,
+          string,
+          string,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+        ] & {
+          loanId: string;
+          loanToken: string;
+          collateralToken: string;
+          principal: BigNumber;
+          collateral: BigNumber;
+          interestOwedPerDay: BigNumber;
+          interestDepositRemaining: BigNumber;
+          startRate: BigNumber;
+          startMargin: BigNumber;
+          maintenanceMargin: BigNumber;
+          currentMargin: BigNumber;
+          maxLoanTerm: BigNumber;
+          endTimestamp: BigNumber;
+          maxLiquidatable: BigNumber;
+          maxSeizable: BigNumber;
+        })[];
+      }
+    >;
+    getUserLoansV2(
+      user: string,
+      start: BigNumberish,
+      count: BigNumberish,
+      loanType: BigNumberish,
+      isLender: boolean,
+      unsafeOnly: boolean,
+      overrides?: CallOverrides,
+    ): Promise<
+      [
+        ([
+          string,
+          string,
+          string,
+          string,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+        ] & {
+          loanId: string;
+          loanToken: string;
+          collateralToken: string;
+          borrower: string;
+          principal: BigNumber;
+          collateral: BigNumber;
+          interestOwedPerDay: BigNumber;
+          interestDepositRemaining: BigNumber;
+          startRate: BigNumber;
+          startMargin: BigNumber;
+          maintenanceMargin: BigNumber;
+          currentMargin: BigNumber;
+          maxLoanTerm: BigNumber;
+          endTimestamp: BigNumber;
+          maxLiquidatable: BigNumber;
+          maxSeizable: BigNumber;
+          creationTimestamp: BigNumber;
+        })[],
+      ] & {
+        loansDataV2: ([
+          string,
+          string,
+          string,
+          string,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+          BigNumber,
+        ] & {
+          loanId: string;
+          loanToken: string;
+          collateralToken: string;
+          borrower: string;
+          principal: BigNumber;
+          collateral: BigNumber;
+          interestOwedPerDay: BigNumber;
+          interestDepositRemaining: BigNumber;
+          startRate: BigNumber;
+          startMargin: BigNumber;
+          maintenanceMargin: BigNumber;
+          currentMargin: BigNumber;
+          maxLoanTerm: BigNumber;
+          endTimestamp: BigNumber;
+          maxLiquidatable: BigNumber;
+          maxSeizable: BigNumber;
+          creationTimestamp: BigNumber;
+        })[];
+      }
+    >;
+    getUserNotFirstTradeFlag(
+      user: string,
+      overrides?: CallOverrides,
+    ): Promise<[boolean]>;
+    isLoanPool(loanPool: string, overrides?: CallOverrides): Promise<[boolean]>;
+    isOwner(overrides?: CallOverrides): Promise<[boolean]>;
+    isProtocolPaused(overrides?: CallOverrides): Promise<[boolean]>;
+    lenderInterest(
+      arg0: string,
+      arg1: string,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, BigNumber, BigNumber, BigNumber, BigNumber] & {
+        principalTotal: BigNumber;
+        owedPerDay: BigNumber;
+        owedTotal: BigNumber;
+        paidTotal: BigNumber;
+        updatedTimestamp: BigNumber;
+      }
+    >;
+    lenderOrders(
+      arg0: string,
+      arg1: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, BigNumber, BigNumber, BigNumber, BigNumber, BigNumber] & {
+        lockedAmount: BigNumber;
+        interestRate: BigNumber;
+        minLoanTerm: BigNumber;
+        maxLoanTerm: BigNumber;
+        createdTimestamp: BigNumber;
+        expirationTimestamp: BigNumber;
+      }
+    >;
+    lendingFeePercent(overrides?: CallOverrides): Promise<[BigNumber]>;
+    lendingFeeTokensHeld(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    lendingFeeTokensPaid(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    liquidate(
+      loanId: BytesLike,
+      receiver: string,
+      closeAmount: BigNumberish,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    liquidationIncentivePercent(
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    loanInterest(
+      arg0: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, BigNumber, BigNumber] & {
+        owedPerDay: BigNumber;
+        depositTotal: BigNumber;
+        updatedTimestamp: BigNumber;
+      }
+    >;
+    loanParams(
+      arg0: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<
+      [
+        string,
+        boolean,
+        string,
+        string,
+        string,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+      ] & {
+        id: string;
+        active: boolean;
+        owner: string;
+        loanToken: string;
+        collateralToken: string;
+        minInitialMargin: BigNumber;
+        maintenanceMargin: BigNumber;
+        maxLoanTerm: BigNumber;
+      }
+    >;
+    loanPoolToUnderlying(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<[string]>;
+    loans(
+      arg0: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<
+      [
+        string,
+        string,
+        string,
+        boolean,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        string,
+        string,
+      ] & {
+        id: string;
+        loanParamsId: string;
+        pendingTradesId: string;
+        active: boolean;
+        principal: BigNumber;
+        collateral: BigNumber;
+        startTimestamp: BigNumber;
+        endTimestamp: BigNumber;
+        startMargin: BigNumber;
+        startRate: BigNumber;
+        borrower: string;
+        lender: string;
+      }
+    >;
+    lockedSOVAddress(overrides?: CallOverrides): Promise<[string]>;
+    logicTargets(arg0: BytesLike, overrides?: CallOverrides): Promise<[string]>;
+    maxDisagreement(overrides?: CallOverrides): Promise<[BigNumber]>;
+    maxSwapSize(overrides?: CallOverrides): Promise<[BigNumber]>;
+    minInitialMargin(
+      loanParamsId: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    minReferralsToPayout(overrides?: CallOverrides): Promise<[BigNumber]>;
+    owner(overrides?: CallOverrides): Promise<[string]>;
+    pause(overrides?: CallOverrides): Promise<[boolean]>;
+    payTradingFeeToAffiliatesReferrer(
+      referrer: string,
+      trader: string,
+      token: string,
+      tradingFeeTokenBaseAmount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    priceFeeds(overrides?: CallOverrides): Promise<[string]>;
+    protocolAddress(overrides?: CallOverrides): Promise<[string]>;
+    protocolTokenAddress(overrides?: CallOverrides): Promise<[string]>;
+    protocolTokenHeld(overrides?: CallOverrides): Promise<[BigNumber]>;
+    protocolTokenPaid(overrides?: CallOverrides): Promise<[BigNumber]>;
+    reduceLoanByInterest(
+      loanId: BytesLike,
+      receiver: string,
+      withdrawAmount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    reduceLoanDuration(
+      loanId: BytesLike,
+      receiver: string,
+      withdrawAmount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    removeDefaultPathConversion(
+      sourceTokenAddress: string,
+      destTokenAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    replaceContract(
+      target: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    rollover(
+      loanId: BytesLike,
+      loanDataBytes: BytesLike,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    rolloverBaseReward(overrides?: CallOverrides): Promise<[BigNumber]>;
+    rolloverFlexFeePercent(overrides?: CallOverrides): Promise<[BigNumber]>;
+    setAdmin(
+      newAdmin: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setAffiliateFeePercent(
+      newValue: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setAffiliateTradingTokenFeePercent(
+      newValue: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setAffiliatesReferrer(
+      user: string,
+      referrer: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setBorrowingFeePercent(
+      newValue: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setDefaultPathConversion(
+      defaultPath: string[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setDelegatedManager(
+      loanId: BytesLike,
+      delegated: string,
+      toggle: boolean,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setFeesController(
+      newController: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setLegacyOracles(
+      refs: string[],
+      oracles: string[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setLendingFeePercent(
+      newValue: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setLiquidationIncentivePercent(
+      newAmount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setLoanPool(
+      pools: string[],
+      assets: string[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setLockedSOVAddress(
+      newSOVLockedAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setMaxDisagreement(
+      newAmount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setMaxSwapSize(
+      newAmount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setMinReferralsToPayoutAffiliates(
+      newMinReferrals: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setPauser(
+      newPauser: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setPriceFeedContract(
+      newContract: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setProtocolTokenAddress(
+      _protocolTokenAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setRebatePercent(
+      rebatePercent: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setRolloverBaseReward(
+      transactionCost: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setRolloverFlexFeePercent(
+      newRolloverFlexFeePercent: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setSOVTokenAddress(
+      newSovTokenAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setSourceBuffer(
+      newAmount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setSovrynProtocolAddress(
+      newProtocolAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setSovrynSwapContractRegistryAddress(
+      registryAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setSpecialRebates(
+      sourceToken: string,
+      destToken: string,
+      specialRebatesPercent: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setSupportedTokens(
+      addrs: string[],
+      toggles: boolean[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setSwapExternalFeePercent(
+      newValue: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setSwapsImplContract(
+      newContract: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setTargets(
+      sigsArr: string[],
+      targetsArr: string[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setTradingFeePercent(
+      newValue: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setTradingRebateRewardsBasisPoint(
+      newBasisPoint: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setUserNotFirstTradeFlag(
+      user: string,
+      overrides?: CallOverrides,
+    ): Promise<[boolean]>;
+    setWrbtcToken(
+      wrbtcTokenAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setupLoanParams(
+      loanParamsList: {
+        id: BytesLike;
+        active: boolean;
+        owner: string;
+        loanToken: string;
+        collateralToken: string;
+        minInitialMargin: BigNumberish;
+        maintenanceMargin: BigNumberish;
+        maxLoanTerm: BigNumberish;
+      }[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    sourceBuffer(overrides?: CallOverrides): Promise<[BigNumber]>;
+    sovTokenAddress(overrides?: CallOverrides): Promise<[string]>;
+    sovrynSwapContractRegistryAddress(
+      overrides?: CallOverrides,
+    ): Promise<[string]>;
+    specialRebates(
+      arg0: string,
+      arg1: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    supportedTokens(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<[boolean]>;
+    swapExternal(
+      sourceToken: string,
+      destToken: string,
+      receiver: string,
+      returnToSender: string,
+      sourceTokenAmount: BigNumberish,
+      requiredDestTokenAmount: BigNumberish,
+      minReturn: BigNumberish,
+      swapData: BytesLike,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    swapsImpl(overrides?: CallOverrides): Promise<[string]>;
+    togglePaused(
+      paused: boolean,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    tradingFeePercent(overrides?: CallOverrides): Promise<[BigNumber]>;
+    tradingFeeTokensHeld(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    tradingFeeTokensPaid(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    underlyingToLoanPool(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<[string]>;
+    userNotFirstTradeFlag(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<[boolean]>;
+    withdrawAccruedInterest(
+      loanToken: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    withdrawAffiliatesReferrerTokenFees(
+      token: string,
+      receiver: string,
+      amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    withdrawAllAffiliatesReferrerTokenFees(
+      receiver: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    withdrawBorrowingFees(
+      token: string,
+      receiver: string,
+      amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    withdrawCollateral(
+      loanId: BytesLike,
+      receiver: string,
+      withdrawAmount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    withdrawLendingFees(
+      token: string,
+      receiver: string,
+      amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    withdrawProtocolToken(
+      receiver: string,
+      amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    withdrawTradingFees(
+      token: string,
+      receiver: string,
+      amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    wrbtcToken(overrides?: CallOverrides): Promise<[string]>;
+  };
+
+  callStatic: {
+    admin(overrides?: CallOverrides): Promise<string>;
+    affiliateFeePercent(overrides?: CallOverrides): Promise<BigNumber>;
+    affiliateRewardsHeld(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    affiliateTradingTokenFeePercent(
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    affiliatesReferrerBalances(
+      arg0: string,
+      arg1: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    affiliatesUserReferrer(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<string>;
+    borrowOrTradeFromPool(
+      loanParamsId: BytesLike,
+      loanId: BytesLike,
+      isTorqueLoan: boolean,
+      initialMargin: BigNumberish,
+      sentAddresses: {
+        lender: string;
+        borrower: string;
+        receiver: string;
+        manager: string;
+      },
+      sentValues: {
+        interestRate: BigNumberish;
+        newPrincipal: BigNumberish;
+        interestInitialAmount: BigNumberish;
+        loanTokenSent: BigNumberish;
+        collateralTokenSent: BigNumberish;
+        minEntryPrice: BigNumberish;
+        loanToCollateralSwapRate: BigNumberish;
+        interestDuration: BigNumberish;
+        entryLeverage: BigNumberish;
+      },
+      loanDataBytes: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    borrowerNonce(arg0: string, overrides?: CallOverrides): Promise<BigNumber>;
+    borrowerOrders(
+      arg0: string,
+      arg1: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, BigNumber, BigNumber, BigNumber, BigNumber, BigNumber] & {
+        lockedAmount: BigNumber;
+        interestRate: BigNumber;
+        minLoanTerm: BigNumber;
+        maxLoanTerm: BigNumber;
+        createdTimestamp: BigNumber;
+        expirationTimestamp: BigNumber;
+      }
+    >;
+    borrowingFeePercent(overrides?: CallOverrides): Promise<BigNumber>;
+    borrowingFeeTokensHeld(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    borrowingFeeTokensPaid(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    checkCloseWithDepositIsTinyPosition(
+      loanId: BytesLike,
+      depositAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<
+      [boolean, BigNumber] & {
+        isTinyPosition: boolean;
+        tinyPositionAmount: BigNumber;
+      }
+    >;
+    checkPriceDivergence(
+      sourceToken: string,
+      destToken: string,
+      sourceTokenAmount: BigNumberish,
+      minReturn: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    closeWithDeposit(
+      loanId: BytesLike,
+      receiver: string,
+      depositAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, BigNumber, string] & {
+        loanCloseAmount: BigNumber;
+        withdrawAmount: BigNumber;
+        withdrawToken: string;
+      }
+    >;
+    closeWithSwap(
+      loanId: BytesLike,
+      receiver: string,
+      swapAmount: BigNumberish,
+      returnTokenIsCollateral: boolean,
+      loanDataBytes: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, BigNumber, string] & {
+        loanCloseAmount: BigNumber;
+        withdrawAmount: BigNumber;
+        withdrawToken: string;
+      }
+    >;
+    delegatedManagers(
+      arg0: BytesLike,
+      arg1: string,
+      overrides?: CallOverrides,
+    ): Promise<boolean>;
+    depositCollateral(
+      loanId: BytesLike,
+      depositAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    depositProtocolToken(
+      amount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    disableLoanParams(
+      loanParamsIdList: BytesLike[],
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    extendLoanByInterest(
+      loanId: BytesLike,
+      payer: string,
+      depositAmount: BigNumberish,
+      useCollateral: boolean,
+      loanDataBytes: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    extendLoanDuration(
+      loanId: BytesLike,
+      depositAmount: BigNumberish,
+      useCollateral: boolean,
+      arg3: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    feeRebatePercent(overrides?: CallOverrides): Promise<BigNumber>;
+    feesController(overrides?: CallOverrides): Promise<string>;
+    getActiveLoans(
+      start: BigNumberish,
+      count: BigNumberish,
+      unsafeOnly: boolean,
+      overrides?: CallOverrides,
+    ): Promise<
+      ([
+        string,
+        string,
+        string,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+      ] & {
+        loanId: string;
+        loanToken: string;
+        collateralToken: string;
+        principal: BigNumber;
+        collateral: BigNumber;
+        interestOwedPerDay: BigNumber;
+        interestDepositRemaining: BigNumber;
+        startRate: BigNumber;
+        startMargin: BigNumber;
+        maintenanceMargin: BigNumber;
+        currentMargin: BigNumber;
+        maxLoanTerm: BigNumber;
+        endTimestamp: BigNumber;
+        maxLiquidatable: BigNumber;
+        maxSeizable: BigNumber;
+      })[]
+    >;
+    getActiveLoansV2(
+      start: BigNumberish,
+      count: BigNumberish,
+      unsafeOnly: boolean,
+      overrides?: CallOverrides,
+    ): Promise<
+      ([
+        string,
+        string,
+        string,
+        string,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+      ] & {
+        loanId: string;
+        loanToken: string;
+        collateralToken: string;
+        borrower: string;
+        principal: BigNumber;
+        collateral: BigNumber;
+        interestOwedPerDay: BigNumber;
+        interestDepositRemaining: BigNumber;
+        startRate: BigNumber;
+        startMargin: BigNumber;
+        maintenanceMargin: BigNumber;
+        currentMargin: BigNumber;
+        maxLoanTerm: BigNumber;
+        endTimestamp: BigNumber;
+        maxLiquidatable: BigNumber;
+        maxSeizable: BigNumber;
+        creationTimestamp: BigNumber;
+      })[]
+    >;
+    getAdmin(overrides?: CallOverrides): Promise<string>;
+    getAffiliateRewardsHeld(
+      referrer: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getAffiliateTradingTokenFeePercent(
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getAffiliatesReferrerBalances(
+      referrer: string,
+      overrides?: CallOverrides,
+    ): Promise<
+      [string[], BigNumber[]] & {
+        referrerTokensList: string[];
+        referrerTokensBalances: BigNumber[];
+      }
+    >;
+    getAffiliatesReferrerTokenBalance(
+      referrer: string,
+      token: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getAffiliatesReferrerTokensList(
+      referrer: string,
+      overrides?: CallOverrides,
+    ): Promise<string[]>;
+    getAffiliatesTokenRewardsValueInRbtc(
+      referrer: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getAffiliatesUserReferrer(
+      user: string,
+      overrides?: CallOverrides,
+    ): Promise<string>;
+    getBorrowAmount(
+      loanToken: string,
+      collateralToken: string,
+      collateralTokenAmount: BigNumberish,
+      marginAmount: BigNumberish,
+      isTorqueLoan: boolean,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getDedicatedSOVRebate(overrides?: CallOverrides): Promise<BigNumber>;
+    getDefaultPathConversion(
+      sourceTokenAddress: string,
+      destTokenAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<string[]>;
+    getEstimatedMarginExposure(
+      loanToken: string,
+      collateralToken: string,
+      loanTokenSent: BigNumberish,
+      collateralTokenSent: BigNumberish,
+      interestRate: BigNumberish,
+      newPrincipal: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getFeeRebatePercent(overrides?: CallOverrides): Promise<BigNumber>;
+    getLegacyOracle(ref: string, overrides?: CallOverrides): Promise<string>;
+    getLenderInterestData(
+      lender: string,
+      loanToken: string,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, BigNumber, BigNumber, BigNumber, BigNumber, BigNumber] & {
+        interestPaid: BigNumber;
+        interestPaidDate: BigNumber;
+        interestOwedPerDay: BigNumber;
+        interestUnPaid: BigNumber;
+        interestFeePercent: BigNumber;
+        principalTotal: BigNumber;
+      }
+    >;
+    getLoan(
+      loanId: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<
+      [
+        string,
+        string,
+        string,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+      ] & {
+        loanId: string;
+        loanToken: string;
+        collateralToken: string;
+        principal: BigNumber;
+        collateral: BigNumber;
+        interestOwedPerDay: BigNumber;
+        interestDepositRemaining: BigNumber;
+        startRate: BigNumber;
+        startMargin: BigNumber;
+        maintenanceMargin: BigNumber;
+        currentMargin: BigNumber;
+        maxLoanTerm: BigNumber;
+        endTimestamp: BigNumber;
+        maxLiquidatable: BigNumber;
+        maxSeizable: BigNumber;
+      }
+    >;
+    getLoanInterestData(
+      loanId: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<
+      [string, BigNumber, BigNumber, BigNumber] & {
+        loanToken: string;
+        interestOwedPerDay: BigNumber;
+        interestDepositTotal: BigNumber;
+        interestDepositRemaining: BigNumber;
+      }
+    >;
+    getLoanParams(
+      loanParamsIdList: BytesLike[],
+      overrides?: CallOverrides,
+    ): Promise<
+      ([
+        string,
+        boolean,
+        string,
+        string,
+        string,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+      ] & {
+        id: string;
+        active: boolean;
+        owner: string;
+        loanToken: string;
+        collateralToken: string;
+        minInitialMargin: BigNumber;
+        maintenanceMargin: BigNumber;
+        maxLoanTerm: BigNumber;
+      })[]
+    >;
+    getLoanParamsList(
+      owner: string,
+      start: BigNumberish,
+      count: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<string[]>;
+    getLoanPoolsList(
+      start: BigNumberish,
+      count: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<string[]>;
+    getLoanV2(
+      loanId: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<
+      [
+        string,
+        string,
+        string,
+        string,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+      ] & {
+        loanId: string;
+        loanToken: string;
+        collateralToken: string;
+        borrower: string;
+        principal: BigNumber;
+        collateral: BigNumber;
+        interestOwedPerDay: BigNumber;
+        interestDepositRemaining: BigNumber;
+        startRate: BigNumber;
+        startMargin: BigNumber;
+        maintenanceMargin: BigNumber;
+        currentMargin: BigNumber;
+        maxLoanTerm: BigNumber;
+        endTimestamp: BigNumber;
+        maxLiquidatable: BigNumber;
+        maxSeizable: BigNumber;
+        creationTimestamp: BigNumber;
+      }
+    >;
+    getLockedSOVAddress(overrides?: CallOverrides): Promise<string>;
+    getMinReferralsToPayout(overrides?: CallOverrides): Promise<BigNumber>;
+    getPauser(overrides?: CallOverrides): Promise<string>;
+    getProtocolAddress(overrides?: CallOverrides): Promise<string>;
+    getReferralsList(
+      referrer: string,
+      overrides?: CallOverrides,
+    ): Promise<string[]>;
+    getRequiredCollateral(
+      loanToken: string,
+      collateralToken: string,
+      newPrincipal: BigNumberish,
+      marginAmount: BigNumberish,
+      isTorqueLoan: boolean,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getSovTokenAddress(overrides?: CallOverrides): Promise<string>;
+    getSpecialRebates(
+      sourceToken: string,
+      destToken: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getSwapExpectedReturn(
+      sourceToken: string,
+      destToken: string,
+      sourceTokenAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getSwapExternalFeePercent(overrides?: CallOverrides): Promise<BigNumber>;
+    getTarget(sig: string, overrides?: CallOverrides): Promise<string>;
+    getTotalPrincipal(
+      lender: string,
+      loanToken: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getTradingRebateRewardsBasisPoint(
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getUserLoans(
+      user: string,
+      start: BigNumberish,
+      count: BigNumberish,
+      loanType: BigNumberish,
+      isLender: boolean,
+      unsafeOnly: boolean,
+      overrides?: CallOverrides,
+    ): Promise<
+      ([
+        string,
+        string,
+        string,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+      ] & {
+        loanId: string;
+        loanToken: string;
+        collateralToken: string;
+        principal: BigNumber;
+        collateral: BigNumber;
+        interestOwedPerDay: BigNumber;
+        interestDepositRemaining: BigNumber;
+        startRate: BigNumber;
+        startMargin: BigNumber;
+        maintenanceMargin: BigNumber;
+        currentMargin: BigNumber;
+        maxLoanTerm: BigNumber;
+        endTimestamp: BigNumber;
+        maxLiquidatable: BigNumber;
+        maxSeizable: BigNumber;
+      })[]
+    >;
+    getUserLoansV2(
+      user: string,
+      start: BigNumberish,
+      count: BigNumberish,
+      loanType: BigNumberish,
+      isLender: boolean,
+      unsafeOnly: boolean,
+      overrides?: CallOverrides,
+    ): Promise<
+      ([
+        string,
+        string,
+        string,
+        string,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+      ] & {
+        loanId: string;
+        loanToken: string;
+        collateralToken: string;
+        borrower: string;
+        principal: BigNumber;
+        collateral: BigNumber;
+        interestOwedPerDay: BigNumber;
+        interestDepositRemaining: BigNumber;
+        startRate: BigNumber;
+        startMargin: BigNumber;
+        maintenanceMargin: BigNumber;
+        currentMargin: BigNumber;
+        maxLoanTerm: BigNumber;
+        endTimestamp: BigNumber;
+        maxLiquidatable: BigNumber;
+        maxSeizable: BigNumber;
+        creationTimestamp: BigNumber;
+      })[]
+    >;
+    getUserNotFirstTradeFlag(
+      user: string,
+      overrides?: CallOverrides,
+    ): Promise<boolean>;
+    isLoanPool(loanPool: string, overrides?: CallOverrides): Promise<boolean>;
+    isOwner(overrides?: CallOverrides): Promise<boolean>;
+    isProtocolPaused(overrides?: CallOverrides): Promise<boolean>;
+    lenderInterest(
+      arg0: string,
+      arg1: string,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, BigNumber, BigNumber, BigNumber, BigNumber] & {
+        principalTotal: BigNumber;
+        owedPerDay: BigNumber;
+        owedTotal: BigNumber;
+        paidTotal: BigNumber;
+        updatedTimestamp: BigNumber;
+      }
+    >;
+    lenderOrders(
+      arg0: string,
+      arg1: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, BigNumber, BigNumber, BigNumber, BigNumber, BigNumber] & {
+        lockedAmount: BigNumber;
+        interestRate: BigNumber;
+        minLoanTerm: BigNumber;
+        maxLoanTerm: BigNumber;
+        createdTimestamp: BigNumber;
+        expirationTimestamp: BigNumber;
+      }
+    >;
+    lendingFeePercent(overrides?: CallOverrides): Promise<BigNumber>;
+    lendingFeeTokensHeld(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    lendingFeeTokensPaid(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    liquidate(
+      loanId: BytesLike,
+      receiver: string,
+      closeAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, BigNumber, string] & {
+        loanCloseAmount: BigNumber;
+        seizedAmount: BigNumber;
+        seizedToken: string;
+      }
+    >;
+    liquidationIncentivePercent(overrides?: CallOverrides): Promise<BigNumber>;
+    loanInterest(
+      arg0: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, BigNumber, BigNumber] & {
+        owedPerDay: BigNumber;
+        depositTotal: BigNumber;
+        updatedTimestamp: BigNumber;
+      }
+    >;
+    loanParams(
+      arg0: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<
+      [
+        string,
+        boolean,
+        string,
+        string,
+        string,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+      ] & {
+        id: string;
+        active: boolean;
+        owner: string;
+        loanToken: string;
+        collateralToken: string;
+        minInitialMargin: BigNumber;
+        maintenanceMargin: BigNumber;
+        maxLoanTerm: BigNumber;
+      }
+    >;
+    loanPoolToUnderlying(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<string>;
+    loans(
+      arg0: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<
+      [
+        string,
+        string,
+        string,
+        boolean,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        BigNumber,
+        string,
+        string,
+      ] & {
+        id: string;
+        loanParamsId: string;
+        pendingTradesId: string;
+        active: boolean;
+        principal: BigNumber;
+        collateral: BigNumber;
+        startTimestamp: BigNumber;
+        endTimestamp: BigNumber;
+        startMargin: BigNumber;
+        startRate: BigNumber;
+        borrower: string;
+        lender: string;
+      }
+    >;
+    lockedSOVAddress(overrides?: CallOverrides): Promise<string>;
+    logicTargets(arg0: BytesLike, overrides?: CallOverrides): Promise<string>;
+    maxDisagreement(overrides?: CallOverrides): Promise<BigNumber>;
+    maxSwapSize(overrides?: CallOverrides): Promise<BigNumber>;
+    minInitialMargin(
+      loanParamsId: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    minReferralsToPayout(overrides?: CallOverrides): Promise<BigNumber>;
+    owner(overrides?: CallOverrides): Promise<string>;
+    pause(overrides?: CallOverrides): Promise<boolean>;
+    payTradingFeeToAffiliatesReferrer(
+      referrer: string,
+      trader: string,
+      token: string,
+      tradingFeeTokenBaseAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, BigNumber] & {
+        affiliatesBonusSOVAmount: BigNumber;
+        affiliatesBonusTokenAmount: BigNumber;
+      }
+    >;
+    priceFeeds(overrides?: CallOverrides): Promise<string>;
+    protocolAddress(overrides?: CallOverrides): Promise<string>;
+    protocolTokenAddress(overrides?: CallOverrides): Promise<string>;
+    protocolTokenHeld(overrides?: CallOverrides): Promise<BigNumber>;
+    protocolTokenPaid(overrides?: CallOverrides): Promise<BigNumber>;
+    reduceLoanByInterest(
+      loanId: BytesLike,
+      receiver: string,
+      withdrawAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    reduceLoanDuration(
+      loanId: BytesLike,
+      receiver: string,
+      withdrawAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    removeDefaultPathConversion(
+      sourceTokenAddress: string,
+      destTokenAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    replaceContract(target: string, overrides?: CallOverrides): Promise<void>;
+    rollover(
+      loanId: BytesLike,
+      loanDataBytes: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    rolloverBaseReward(overrides?: CallOverrides): Promise<BigNumber>;
+    rolloverFlexFeePercent(overrides?: CallOverrides): Promise<BigNumber>;
+    setAdmin(newAdmin: string, overrides?: CallOverrides): Promise<void>;
+    setAffiliateFeePercent(
+      newValue: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setAffiliateTradingTokenFeePercent(
+      newValue: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setAffiliatesReferrer(
+      user: string,
+      referrer: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setBorrowingFeePercent(
+      newValue: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setDefaultPathConversion(
+      defaultPath: string[],
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setDelegatedManager(
+      loanId: BytesLike,
+      delegated: string,
+      toggle: boolean,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setFeesController(
+      newController: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setLegacyOracles(
+      refs: string[],
+      oracles: string[],
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setLendingFeePercent(
+      newValue: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setLiquidationIncentivePercent(
+      newAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setLoanPool(
+      pools: string[],
+      assets: string[],
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setLockedSOVAddress(
+      newSOVLockedAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setMaxDisagreement(
+      newAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setMaxSwapSize(
+      newAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setMinReferralsToPayoutAffiliates(
+      newMinReferrals: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setPauser(newPauser: string, overrides?: CallOverrides): Promise<void>;
+    setPriceFeedContract(
+      newContract: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setProtocolTokenAddress(
+      _protocolTokenAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setRebatePercent(
+      rebatePercent: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setRolloverBaseReward(
+      transactionCost: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setRolloverFlexFeePercent(
+      newRolloverFlexFeePercent: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setSOVTokenAddress(
+      newSovTokenAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setSourceBuffer(
+      newAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setSovrynProtocolAddress(
+      newProtocolAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setSovrynSwapContractRegistryAddress(
+      registryAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setSpecialRebates(
+      sourceToken: string,
+      destToken: string,
+      specialRebatesPercent: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setSupportedTokens(
+      addrs: string[],
+      toggles: boolean[],
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setSwapExternalFeePercent(
+      newValue: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setSwapsImplContract(
+      newContract: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setTargets(
+      sigsArr: string[],
+      targetsArr: string[],
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setTradingFeePercent(
+      newValue: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setTradingRebateRewardsBasisPoint(
+      newBasisPoint: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setUserNotFirstTradeFlag(
+      user: string,
+      overrides?: CallOverrides,
+    ): Promise<boolean>;
+    setWrbtcToken(
+      wrbtcTokenAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setupLoanParams(
+      loanParamsList: {
+        id: BytesLike;
+        active: boolean;
+        owner: string;
+        loanToken: string;
+        collateralToken: string;
+        minInitialMargin: BigNumberish;
+        maintenanceMargin: BigNumberish;
+        maxLoanTerm: BigNumberish;
+      }[],
+      overrides?: CallOverrides,
+    ): Promise<string[]>;
+    sourceBuffer(overrides?: CallOverrides): Promise<BigNumber>;
+    sovTokenAddress(overrides?: CallOverrides): Promise<string>;
+    sovrynSwapContractRegistryAddress(
+      overrides?: CallOverrides,
+    ): Promise<string>;
+    specialRebates(
+      arg0: string,
+      arg1: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    supportedTokens(arg0: string, overrides?: CallOverrides): Promise<boolean>;
+    swapExternal(
+      sourceToken: string,
+      destToken: string,
+      receiver: string,
+      returnToSender: string,
+      sourceTokenAmount: BigNumberish,
+      requiredDestTokenAmount: BigNumberish,
+      minReturn: BigNumberish,
+      swapData: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, BigNumber] & {
+        destTokenAmountReceived: BigNumber;
+        sourceTokenAmountUsed: BigNumber;
+      }
+    >;
+    swapsImpl(overrides?: CallOverrides): Promise<string>;
+    togglePaused(paused: boolean, overrides?: CallOverrides): Promise<void>;
+    tradingFeePercent(overrides?: CallOverrides): Promise<BigNumber>;
+    tradingFeeTokensHeld(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    tradingFeeTokensPaid(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    underlyingToLoanPool(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<string>;
+    userNotFirstTradeFlag(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<boolean>;
+    withdrawAccruedInterest(
+      loanToken: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    withdrawAffiliatesReferrerTokenFees(
+      token: string,
+      receiver: string,
+      amount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    withdrawAllAffiliatesReferrerTokenFees(
+      receiver: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    withdrawBorrowingFees(
+      token: string,
+      receiver: string,
+      amount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<boolean>;
+    withdrawCollateral(
+      loanId: BytesLike,
+      receiver: string,
+      withdrawAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    withdrawLendingFees(
+      token: string,
+      receiver: string,
+      amount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<boolean>;
+    withdrawProtocolToken(
+      receiver: string,
+      amount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[string, boolean]>;
+    withdrawTradingFees(
+      token: string,
+      receiver: string,
+      amount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<boolean>;
+    wrbtcToken(overrides?: CallOverrides): Promise<string>;
+  };
+
+  estimateGas: {
+    admin(overrides?: CallOverrides): Promise<BigNumber>;
+    affiliateFeePercent(overrides?: CallOverrides): Promise<BigNumber>;
+    affiliateRewardsHeld(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    affiliateTradingTokenFeePercent(
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    affiliatesReferrerBalances(
+      arg0: string,
+      arg1: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    affiliatesUserReferrer(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    borrowOrTradeFromPool(
+      loanParamsId: BytesLike,
+      loanId: BytesLike,
+      isTorqueLoan: boolean,
+      initialMargin: BigNumberish,
+      sentAddresses: {
+        lender: string;
+        borrower: string;
+        receiver: string;
+        manager: string;
+      },
+      sentValues: {
+        interestRate: BigNumberish;
+        newPrincipal: BigNumberish;
+        interestInitialAmount: BigNumberish;
+        loanTokenSent: BigNumberish;
+        collateralTokenSent: BigNumberish;
+        minEntryPrice: BigNumberish;
+        loanToCollateralSwapRate: BigNumberish;
+        interestDuration: BigNumberish;
+        entryLeverage: BigNumberish;
+      },
+      loanDataBytes: BytesLike,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<BigNumber>;
+    borrowerNonce(arg0: string, overrides?: CallOverrides): Promise<BigNumber>;
+    borrowerOrders(
+      arg0: string,
+      arg1: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    borrowingFeePercent(overrides?: CallOverrides): Promise<BigNumber>;
+    borrowingFeeTokensHeld(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    borrowingFeeTokensPaid(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    checkCloseWithDepositIsTinyPosition(
+      loanId: BytesLike,
+      depositAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    checkPriceDivergence(
+      sourceToken: string,
+      destToken: string,
+      sourceTokenAmount: BigNumberish,
+      minReturn: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    closeWithDeposit(
+      loanId: BytesLike,
+      receiver: string,
+      depositAmount: BigNumberish,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<BigNumber>;
+    closeWithSwap(
+      loanId: BytesLike,
+      receiver: string,
+      swapAmount: BigNumberish,
+      returnTokenIsCollateral: boolean,
+      loanDataBytes: BytesLike,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    delegatedManagers(
+      arg0: BytesLike,
+      arg1: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    depositCollateral(
+      loanId: BytesLike,
+      depositAmount: BigNumberish,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<BigNumber>;
+    depositProtocolToken(
+      amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    disableLoanParams(
+      loanParamsIdList: BytesLike[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    extendLoanByInterest(
+      loanId: BytesLike,
+      payer: string,
+      depositAmount: BigNumberish,
+      useCollateral: boolean,
+      loanDataBytes: BytesLike,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<BigNumber>;
+    extendLoanDuration(
+      loanId: BytesLike,
+      depositAmount: BigNumberish,
+      useCollateral: boolean,
+      arg3: BytesLike,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<BigNumber>;
+    feeRebatePercent(overrides?: CallOverrides): Promise<BigNumber>;
+    feesController(overrides?: CallOverrides): Promise<BigNumber>;
+    getActiveLoans(
+      start: BigNumberish,
+      count: BigNumberish,
+      unsafeOnly: boolean,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getActiveLoansV2(
+      start: BigNumberish,
+      count: BigNumberish,
+      unsafeOnly: boolean,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getAdmin(overrides?: CallOverrides): Promise<BigNumber>;
+    getAffiliateRewardsHeld(
+      referrer: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getAffiliateTradingTokenFeePercent(
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getAffiliatesReferrerBalances(
+      referrer: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getAffiliatesReferrerTokenBalance(
+      referrer: string,
+      token: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getAffiliatesReferrerTokensList(
+      referrer: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getAffiliatesTokenRewardsValueInRbtc(
+      referrer: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getAffiliatesUserReferrer(
+      user: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getBorrowAmount(
+      loanToken: string,
+      collateralToken: string,
+      collateralTokenAmount: BigNumberish,
+      marginAmount: BigNumberish,
+      isTorqueLoan: boolean,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getDedicatedSOVRebate(overrides?: CallOverrides): Promise<BigNumber>;
+    getDefaultPathConversion(
+      sourceTokenAddress: string,
+      destTokenAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getEstimatedMarginExposure(
+      loanToken: string,
+      collateralToken: string,
+      loanTokenSent: BigNumberish,
+      collateralTokenSent: BigNumberish,
+      interestRate: BigNumberish,
+      newPrincipal: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getFeeRebatePercent(overrides?: CallOverrides): Promise<BigNumber>;
+    getLegacyOracle(ref: string, overrides?: CallOverrides): Promise<BigNumber>;
+    getLenderInterestData(
+      lender: string,
+      loanToken: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getLoan(loanId: BytesLike, overrides?: CallOverrides): Promise<BigNumber>;
+    getLoanInterestData(
+      loanId: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getLoanParams(
+      loanParamsIdList: BytesLike[],
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getLoanParamsList(
+      owner: string,
+      start: BigNumberish,
+      count: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getLoanPoolsList(
+      start: BigNumberish,
+      count: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getLoanV2(loanId: BytesLike, overrides?: CallOverrides): Promise<BigNumber>;
+    getLockedSOVAddress(overrides?: CallOverrides): Promise<BigNumber>;
+    getMinReferralsToPayout(overrides?: CallOverrides): Promise<BigNumber>;
+    getPauser(overrides?: CallOverrides): Promise<BigNumber>;
+    getProtocolAddress(overrides?: CallOverrides): Promise<BigNumber>;
+    getReferralsList(
+      referrer: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getRequiredCollateral(
+      loanToken: string,
+      collateralToken: string,
+      newPrincipal: BigNumberish,
+      marginAmount: BigNumberish,
+      isTorqueLoan: boolean,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getSovTokenAddress(overrides?: CallOverrides): Promise<BigNumber>;
+    getSpecialRebates(
+      sourceToken: string,
+      destToken: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getSwapExpectedReturn(
+      sourceToken: string,
+      destToken: string,
+      sourceTokenAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getSwapExternalFeePercent(overrides?: CallOverrides): Promise<BigNumber>;
+    getTarget(sig: string, overrides?: CallOverrides): Promise<BigNumber>;
+    getTotalPrincipal(
+      lender: string,
+      loanToken: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getTradingRebateRewardsBasisPoint(
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getUserLoans(
+      user: string,
+      start: BigNumberish,
+      count: BigNumberish,
+      loanType: BigNumberish,
+      isLender: boolean,
+      unsafeOnly: boolean,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getUserLoansV2(
+      user: string,
+      start: BigNumberish,
+      count: BigNumberish,
+      loanType: BigNumberish,
+      isLender: boolean,
+      unsafeOnly: boolean,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getUserNotFirstTradeFlag(
+      user: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    isLoanPool(loanPool: string, overrides?: CallOverrides): Promise<BigNumber>;
+    isOwner(overrides?: CallOverrides): Promise<BigNumber>;
+    isProtocolPaused(overrides?: CallOverrides): Promise<BigNumber>;
+    lenderInterest(
+      arg0: string,
+      arg1: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    lenderOrders(
+      arg0: string,
+      arg1: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    lendingFeePercent(overrides?: CallOverrides): Promise<BigNumber>;
+    lendingFeeTokensHeld(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    lendingFeeTokensPaid(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    liquidate(
+      loanId: BytesLike,
+      receiver: string,
+      closeAmount: BigNumberish,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<BigNumber>;
+    liquidationIncentivePercent(overrides?: CallOverrides): Promise<BigNumber>;
+    loanInterest(
+      arg0: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    loanParams(arg0: BytesLike, overrides?: CallOverrides): Promise<BigNumber>;
+    loanPoolToUnderlying(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    loans(arg0: BytesLike, overrides?: CallOverrides): Promise<BigNumber>;
+    lockedSOVAddress(overrides?: CallOverrides): Promise<BigNumber>;
+    logicTargets(
+      arg0: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    maxDisagreement(overrides?: CallOverrides): Promise<BigNumber>;
+    maxSwapSize(overrides?: CallOverrides): Promise<BigNumber>;
+    minInitialMargin(
+      loanParamsId: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    minReferralsToPayout(overrides?: CallOverrides): Promise<BigNumber>;
+    owner(overrides?: CallOverrides): Promise<BigNumber>;
+    pause(overrides?: CallOverrides): Promise<BigNumber>;
+    payTradingFeeToAffiliatesReferrer(
+      referrer: string,
+      trader: string,
+      token: string,
+      tradingFeeTokenBaseAmount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    priceFeeds(overrides?: CallOverrides): Promise<BigNumber>;
+    protocolAddress(overrides?: CallOverrides): Promise<BigNumber>;
+    protocolTokenAddress(overrides?: CallOverrides): Promise<BigNumber>;
+    protocolTokenHeld(overrides?: CallOverrides): Promise<BigNumber>;
+    protocolTokenPaid(overrides?: CallOverrides): Promise<BigNumber>;
+    reduceLoanByInterest(
+      loanId: BytesLike,
+      receiver: string,
+      withdrawAmount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    reduceLoanDuration(
+      loanId: BytesLike,
+      receiver: string,
+      withdrawAmount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    removeDefaultPathConversion(
+      sourceTokenAddress: string,
+      destTokenAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    replaceContract(
+      target: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    rollover(
+      loanId: BytesLike,
+      loanDataBytes: BytesLike,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    rolloverBaseReward(overrides?: CallOverrides): Promise<BigNumber>;
+    rolloverFlexFeePercent(overrides?: CallOverrides): Promise<BigNumber>;
+    setAdmin(
+      newAdmin: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setAffiliateFeePercent(
+      newValue: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setAffiliateTradingTokenFeePercent(
+      newValue: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setAffiliatesReferrer(
+      user: string,
+      referrer: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setBorrowingFeePercent(
+      newValue: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setDefaultPathConversion(
+      defaultPath: string[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setDelegatedManager(
+      loanId: BytesLike,
+      delegated: string,
+      toggle: boolean,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setFeesController(
+      newController: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setLegacyOracles(
+      refs: string[],
+      oracles: string[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setLendingFeePercent(
+      newValue: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setLiquidationIncentivePercent(
+      newAmount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setLoanPool(
+      pools: string[],
+      assets: string[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setLockedSOVAddress(
+      newSOVLockedAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setMaxDisagreement(
+      newAmount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setMaxSwapSize(
+      newAmount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setMinReferralsToPayoutAffiliates(
+      newMinReferrals: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setPauser(
+      newPauser: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setPriceFeedContract(
+      newContract: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setProtocolTokenAddress(
+      _protocolTokenAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setRebatePercent(
+      rebatePercent: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setRolloverBaseReward(
+      transactionCost: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setRolloverFlexFeePercent(
+      newRolloverFlexFeePercent: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setSOVTokenAddress(
+      newSovTokenAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setSourceBuffer(
+      newAmount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setSovrynProtocolAddress(
+      newProtocolAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setSovrynSwapContractRegistryAddress(
+      registryAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setSpecialRebates(
+      sourceToken: string,
+      destToken: string,
+      specialRebatesPercent: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setSupportedTokens(
+      addrs: string[],
+      toggles: boolean[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setSwapExternalFeePercent(
+      newValue: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setSwapsImplContract(
+      newContract: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setTargets(
+      sigsArr: string[],
+      targetsArr: string[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setTradingFeePercent(
+      newValue: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setTradingRebateRewardsBasisPoint(
+      newBasisPoint: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setUserNotFirstTradeFlag(
+      user: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    setWrbtcToken(
+      wrbtcTokenAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setupLoanParams(
+      loanParamsList: {
+        id: BytesLike;
+        active: boolean;
+        owner: string;
+        loanToken: string;
+        collateralToken: string;
+        minInitialMargin: BigNumberish;
+        maintenanceMargin: BigNumberish;
+        maxLoanTerm: BigNumberish;
+      }[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    sourceBuffer(overrides?: CallOverrides): Promise<BigNumber>;
+    sovTokenAddress(overrides?: CallOverrides): Promise<BigNumber>;
+    sovrynSwapContractRegistryAddress(
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    specialRebates(
+      arg0: string,
+      arg1: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    supportedTokens(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    swapExternal(
+      sourceToken: string,
+      destToken: string,
+      receiver: string,
+      returnToSender: string,
+      sourceTokenAmount: BigNumberish,
+      requiredDestTokenAmount: BigNumberish,
+      minReturn: BigNumberish,
+      swapData: BytesLike,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    swapsImpl(overrides?: CallOverrides): Promise<BigNumber>;
+    togglePaused(
+      paused: boolean,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    tradingFeePercent(overrides?: CallOverrides): Promise<BigNumber>;
+    tradingFeeTokensHeld(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    tradingFeeTokensPaid(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    underlyingToLoanPool(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    userNotFirstTradeFlag(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    withdrawAccruedInterest(
+      loanToken: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    withdrawAffiliatesReferrerTokenFees(
+      token: string,
+      receiver: string,
+      amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    withdrawAllAffiliatesReferrerTokenFees(
+      receiver: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    withdrawBorrowingFees(
+      token: string,
+      receiver: string,
+      amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    withdrawCollateral(
+      loanId: BytesLike,
+      receiver: string,
+      withdrawAmount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    withdrawLendingFees(
+      token: string,
+      receiver: string,
+      amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    withdrawProtocolToken(
+      receiver: string,
+      amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    withdrawTradingFees(
+      token: string,
+      receiver: string,
+      amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    wrbtcToken(overrides?: CallOverrides): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    admin(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    affiliateFeePercent(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    affiliateRewardsHeld(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    affiliateTradingTokenFeePercent(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    affiliatesReferrerBalances(
+      arg0: string,
+      arg1: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    affiliatesUserReferrer(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    borrowOrTradeFromPool(
+      loanParamsId: BytesLike,
+      loanId: BytesLike,
+      isTorqueLoan: boolean,
+      initialMargin: BigNumberish,
+      sentAddresses: {
+        lender: string;
+        borrower: string;
+        receiver: string;
+        manager: string;
+      },
+      sentValues: {
+        interestRate: BigNumberish;
+        newPrincipal: BigNumberish;
+        interestInitialAmount: BigNumberish;
+        loanTokenSent: BigNumberish;
+        collateralTokenSent: BigNumberish;
+        minEntryPrice: BigNumberish;
+        loanToCollateralSwapRate: BigNumberish;
+        interestDuration: BigNumberish;
+        entryLeverage: BigNumberish;
+      },
+      loanDataBytes: BytesLike,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    borrowerNonce(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    borrowerOrders(
+      arg0: string,
+      arg1: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    borrowingFeePercent(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    borrowingFeeTokensHeld(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    borrowingFeeTokensPaid(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    checkCloseWithDepositIsTinyPosition(
+      loanId: BytesLike,
+      depositAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    checkPriceDivergence(
+      sourceToken: string,
+      destToken: string,
+      sourceTokenAmount: BigNumberish,
+      minReturn: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    closeWithDeposit(
+      loanId: BytesLike,
+      receiver: string,
+      depositAmount: BigNumberish,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    closeWithSwap(
+      loanId: BytesLike,
+      receiver: string,
+      swapAmount: BigNumberish,
+      returnTokenIsCollateral: boolean,
+      loanDataBytes: BytesLike,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    delegatedManagers(
+      arg0: BytesLike,
+      arg1: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    depositCollateral(
+      loanId: BytesLike,
+      depositAmount: BigNumberish,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    depositProtocolToken(
+      amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    disableLoanParams(
+      loanParamsIdList: BytesLike[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    extendLoanByInterest(
+      loanId: BytesLike,
+      payer: string,
+      depositAmount: BigNumberish,
+      useCollateral: boolean,
+      loanDataBytes: BytesLike,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    extendLoanDuration(
+      loanId: BytesLike,
+      depositAmount: BigNumberish,
+      useCollateral: boolean,
+      arg3: BytesLike,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    feeRebatePercent(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    feesController(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    getActiveLoans(
+      start: BigNumberish,
+      count: BigNumberish,
+      unsafeOnly: boolean,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getActiveLoansV2(
+      start: BigNumberish,
+      count: BigNumberish,
+      unsafeOnly: boolean,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getAdmin(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    getAffiliateRewardsHeld(
+      referrer: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getAffiliateTradingTokenFeePercent(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getAffiliatesReferrerBalances(
+      referrer: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getAffiliatesReferrerTokenBalance(
+      referrer: string,
+      token: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getAffiliatesReferrerTokensList(
+      referrer: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getAffiliatesTokenRewardsValueInRbtc(
+      referrer: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getAffiliatesUserReferrer(
+      user: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getBorrowAmount(
+      loanToken: string,
+      collateralToken: string,
+      collateralTokenAmount: BigNumberish,
+      marginAmount: BigNumberish,
+      isTorqueLoan: boolean,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getDedicatedSOVRebate(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getDefaultPathConversion(
+      sourceTokenAddress: string,
+      destTokenAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getEstimatedMarginExposure(
+      loanToken: string,
+      collateralToken: string,
+      loanTokenSent: BigNumberish,
+      collateralTokenSent: BigNumberish,
+      interestRate: BigNumberish,
+      newPrincipal: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getFeeRebatePercent(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getLegacyOracle(
+      ref: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getLenderInterestData(
+      lender: string,
+      loanToken: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getLoan(
+      loanId: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getLoanInterestData(
+      loanId: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getLoanParams(
+      loanParamsIdList: BytesLike[],
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getLoanParamsList(
+      owner: string,
+      start: BigNumberish,
+      count: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getLoanPoolsList(
+      start: BigNumberish,
+      count: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getLoanV2(
+      loanId: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getLockedSOVAddress(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getMinReferralsToPayout(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getPauser(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    getProtocolAddress(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getReferralsList(
+      referrer: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getRequiredCollateral(
+      loanToken: string,
+      collateralToken: string,
+      newPrincipal: BigNumberish,
+      marginAmount: BigNumberish,
+      isTorqueLoan: boolean,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getSovTokenAddress(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getSpecialRebates(
+      sourceToken: string,
+      destToken: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getSwapExpectedReturn(
+      sourceToken: string,
+      destToken: string,
+      sourceTokenAmount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getSwapExternalFeePercent(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getTarget(
+      sig: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getTotalPrincipal(
+      lender: string,
+      loanToken: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getTradingRebateRewardsBasisPoint(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getUserLoans(
+      user: string,
+      start: BigNumberish,
+      count: BigNumberish,
+      loanType: BigNumberish,
+      isLender: boolean,
+      unsafeOnly: boolean,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getUserLoansV2(
+      user: string,
+      start: BigNumberish,
+      count: BigNumberish,
+      loanType: BigNumberish,
+      isLender: boolean,
+      unsafeOnly: boolean,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getUserNotFirstTradeFlag(
+      user: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    isLoanPool(
+      loanPool: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    isOwner(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    isProtocolPaused(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    lenderInterest(
+      arg0: string,
+      arg1: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    lenderOrders(
+      arg0: string,
+      arg1: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    lendingFeePercent(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    lendingFeeTokensHeld(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    lendingFeeTokensPaid(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    liquidate(
+      loanId: BytesLike,
+      receiver: string,
+      closeAmount: BigNumberish,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    liquidationIncentivePercent(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    loanInterest(
+      arg0: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    loanParams(
+      arg0: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    loanPoolToUnderlying(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    loans(
+      arg0: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    lockedSOVAddress(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    logicTargets(
+      arg0: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    maxDisagreement(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    maxSwapSize(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    minInitialMargin(
+      loanParamsId: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    minReferralsToPayout(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    owner(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    pause(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    payTradingFeeToAffiliatesReferrer(
+      referrer: string,
+      trader: string,
+      token: string,
+      tradingFeeTokenBaseAmount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    priceFeeds(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    protocolAddress(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    protocolTokenAddress(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    protocolTokenHeld(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    protocolTokenPaid(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    reduceLoanByInterest(
+      loanId: BytesLike,
+      receiver: string,
+      withdrawAmount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    reduceLoanDuration(
+      loanId: BytesLike,
+      receiver: string,
+      withdrawAmount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    removeDefaultPathConversion(
+      sourceTokenAddress: string,
+      destTokenAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    replaceContract(
+      target: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    rollover(
+      loanId: BytesLike,
+      loanDataBytes: BytesLike,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    rolloverBaseReward(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    rolloverFlexFeePercent(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    setAdmin(
+      newAdmin: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setAffiliateFeePercent(
+      newValue: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setAffiliateTradingTokenFeePercent(
+      newValue: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setAffiliatesReferrer(
+      user: string,
+      referrer: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setBorrowingFeePercent(
+      newValue: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setDefaultPathConversion(
+      defaultPath: string[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setDelegatedManager(
+      loanId: BytesLike,
+      delegated: string,
+      toggle: boolean,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setFeesController(
+      newController: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setLegacyOracles(
+      refs: string[],
+      oracles: string[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setLendingFeePercent(
+      newValue: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setLiquidationIncentivePercent(
+      newAmount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setLoanPool(
+      pools: string[],
+      assets: string[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setLockedSOVAddress(
+      newSOVLockedAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setMaxDisagreement(
+      newAmount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setMaxSwapSize(
+      newAmount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setMinReferralsToPayoutAffiliates(
+      newMinReferrals: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setPauser(
+      newPauser: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setPriceFeedContract(
+      newContract: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setProtocolTokenAddress(
+      _protocolTokenAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setRebatePercent(
+      rebatePercent: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setRolloverBaseReward(
+      transactionCost: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setRolloverFlexFeePercent(
+      newRolloverFlexFeePercent: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setSOVTokenAddress(
+      newSovTokenAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setSourceBuffer(
+      newAmount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setSovrynProtocolAddress(
+      newProtocolAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setSovrynSwapContractRegistryAddress(
+      registryAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setSpecialRebates(
+      sourceToken: string,
+      destToken: string,
+      specialRebatesPercent: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setSupportedTokens(
+      addrs: string[],
+      toggles: boolean[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setSwapExternalFeePercent(
+      newValue: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setSwapsImplContract(
+      newContract: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setTargets(
+      sigsArr: string[],
+      targetsArr: string[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setTradingFeePercent(
+      newValue: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setTradingRebateRewardsBasisPoint(
+      newBasisPoint: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setUserNotFirstTradeFlag(
+      user: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    setWrbtcToken(
+      wrbtcTokenAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setupLoanParams(
+      loanParamsList: {
+        id: BytesLike;
+        active: boolean;
+        owner: string;
+        loanToken: string;
+        collateralToken: string;
+        minInitialMargin: BigNumberish;
+        maintenanceMargin: BigNumberish;
+        maxLoanTerm: BigNumberish;
+      }[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    sourceBuffer(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    sovTokenAddress(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    sovrynSwapContractRegistryAddress(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    specialRebates(
+      arg0: string,
+      arg1: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    supportedTokens(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    swapExternal(
+      sourceToken: string,
+      destToken: string,
+      receiver: string,
+      returnToSender: string,
+      sourceTokenAmount: BigNumberish,
+      requiredDestTokenAmount: BigNumberish,
+      minReturn: BigNumberish,
+      swapData: BytesLike,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    swapsImpl(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    togglePaused(
+      paused: boolean,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    tradingFeePercent(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    tradingFeeTokensHeld(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    tradingFeeTokensPaid(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    underlyingToLoanPool(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    userNotFirstTradeFlag(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    withdrawAccruedInterest(
+      loanToken: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    withdrawAffiliatesReferrerTokenFees(
+      token: string,
+      receiver: string,
+      amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    withdrawAllAffiliatesReferrerTokenFees(
+      receiver: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    withdrawBorrowingFees(
+      token: string,
+      receiver: string,
+      amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    withdrawCollateral(
+      loanId: BytesLike,
+      receiver: string,
+      withdrawAmount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    withdrawLendingFees(
+      token: string,
+      receiver: string,
+      amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    withdrawProtocolToken(
+      receiver: string,
+      amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    withdrawTradingFees(
+      token: string,
+      receiver: string,
+      amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    wrbtcToken(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+  };
+
+  admin(overrides?: CallOverrides): Promise<string>;
+  affiliateFeePercent(overrides?: CallOverrides): Promise<BigNumber>;
+  affiliateRewardsHeld(
+    arg0: string,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  affiliateTradingTokenFeePercent(
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  affiliatesReferrerBalances(
+    arg0: string,
+    arg1: string,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  affiliatesUserReferrer(
+    arg0: string,
+    overrides?: CallOverrides,
+  ): Promise<string>;
+  borrowOrTradeFromPool(
+    loanParamsId: BytesLike,
+    loanId: BytesLike,
+    isTorqueLoan: boolean,
+    initialMargin: BigNumberish,
+    sentAddresses: {
+      lender: string;
+      borrower: string;
+      receiver: string;
+      manager: string;
+    },
+    sentValues: {
+      interestRate: BigNumberish;
+      newPrincipal: BigNumberish;
+      interestInitialAmount: BigNumberish;
+      loanTokenSent: BigNumberish;
+      collateralTokenSent: BigNumberish;
+      minEntryPrice: BigNumberish;
+      loanToCollateralSwapRate: BigNumberish;
+      interestDuration: BigNumberish;
+      entryLeverage: BigNumberish;
+    },
+    loanDataBytes: BytesLike,
+    overrides?: PayableOverrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  borrowerNonce(arg0: string, overrides?: CallOverrides): Promise<BigNumber>;
+  borrowerOrders(
+    arg0: string,
+    arg1: BytesLike,
+    overrides?: CallOverrides,
+  ): Promise<
+    [BigNumber, BigNumber, BigNumber, BigNumber, BigNumber, BigNumber] & {
+      lockedAmount: BigNumber;
+      interestRate: BigNumber;
+      minLoanTerm: BigNumber;
+      maxLoanTerm: BigNumber;
+      createdTimestamp: BigNumber;
+      expirationTimestamp: BigNumber;
+    }
+  >;
+  borrowingFeePercent(overrides?: CallOverrides): Promise<BigNumber>;
+  borrowingFeeTokensHeld(
+    arg0: string,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  borrowingFeeTokensPaid(
+    arg0: string,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  checkCloseWithDepositIsTinyPosition(
+    loanId: BytesLike,
+    depositAmount: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<
+    [boolean, BigNumber] & {
+      isTinyPosition: boolean;
+      tinyPositionAmount: BigNumber;
+    }
+  >;
+  checkPriceDivergence(
+    sourceToken: string,
+    destToken: string,
+    sourceTokenAmount: BigNumberish,
+    minReturn: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<void>;
+  closeWithDeposit(
+    loanId: BytesLike,
+    receiver: string,
+    depositAmount: BigNumberish,
+    overrides?: PayableOverrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  closeWithSwap(
+    loanId: BytesLike,
+    receiver: string,
+    swapAmount: BigNumberish,
+    returnTokenIsCollateral: boolean,
+    loanDataBytes: BytesLike,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  delegatedManagers(
+    arg0: BytesLike,
+    arg1: string,
+    overrides?: CallOverrides,
+  ): Promise<boolean>;
+  depositCollateral(
+    loanId: BytesLike,
+    depositAmount: BigNumberish,
+    overrides?: PayableOverrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  depositProtocolToken(
+    amount: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  disableLoanParams(
+    loanParamsIdList: BytesLike[],
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  extendLoanByInterest(
+    loanId: BytesLike,
+    payer: string,
+    depositAmount: BigNumberish,
+    useCollateral: boolean,
+    loanDataBytes: BytesLike,
+    overrides?: PayableOverrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  extendLoanDuration(
+    loanId: BytesLike,
+    depositAmount: BigNumberish,
+    useCollateral: boolean,
+    arg3: BytesLike,
+    overrides?: PayableOverrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  feeRebatePercent(overrides?: CallOverrides): Promise<BigNumber>;
+  feesController(overrides?: CallOverrides): Promise<string>;
+  getActiveLoans(
+    start: BigNumberish,
+    count: BigNumberish,
+    unsafeOnly: boolean,
+    overrides?: CallOverrides,
+  ): Promise<
+    ([
+      string,
+      string,
+      string,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+    ] & {
+      loanId: string;
+      loanToken: string;
+      collateralToken: string;
+      principal: BigNumber;
+      collateral: BigNumber;
+      interestOwedPerDay: BigNumber;
+      interestDepositRemaining: BigNumber;
+      startRate: BigNumber;
+      startMargin: BigNumber;
+      maintenanceMargin: BigNumber;
+      currentMargin: BigNumber;
+      maxLoanTerm: BigNumber;
+      endTimestamp: BigNumber;
+      maxLiquidatable: BigNumber;
+      maxSeizable: BigNumber;
+    })[]
+  >;
+  getActiveLoansV2(
+    start: BigNumberish,
+    count: BigNumberish,
+    unsafeOnly: boolean,
+    overrides?: CallOverrides,
+  ): Promise<
+    ([
+      string,
+      string,
+      string,
+      string,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+    ] & {
+      loanId: string;
+      loanToken: string;
+      collateralToken: string;
+      borrower: string;
+      principal: BigNumber;
+      collateral: BigNumber;
+      interestOwedPerDay: BigNumber;
+      interestDepositRemaining: BigNumber;
+      startRate: BigNumber;
+      startMargin: BigNumber;
+      maintenanceMargin: BigNumber;
+      currentMargin: BigNumber;
+      maxLoanTerm: BigNumber;
+      endTimestamp: BigNumber;
+      maxLiquidatable: BigNumber;
+      maxSeizable: BigNumber;
+      creationTimestamp: BigNumber;
+    })[]
+  >;
+  getAdmin(overrides?: CallOverrides): Promise<string>;
+  getAffiliateRewardsHeld(
+    referrer: string,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  getAffiliateTradingTokenFeePercent(
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  getAffiliatesReferrerBalances(
+    referrer: string,
+    overrides?: CallOverrides,
+  ): Promise<
+    [string[], BigNumber[]] & {
+      referrerTokensList: string[];
+      referrerTokensBalances: BigNumber[];
+    }
+  >;
+  getAffiliatesReferrerTokenBalance(
+    referrer: string,
+    token: string,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  getAffiliatesReferrerTokensList(
+    referrer: string,
+    overrides?: CallOverrides,
+  ): Promise<string[]>;
+  getAffiliatesTokenRewardsValueInRbtc(
+    referrer: string,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  getAffiliatesUserReferrer(
+    user: string,
+    overrides?: CallOverrides,
+  ): Promise<string>;
+  getBorrowAmount(
+    loanToken: string,
+    collateralToken: string,
+    collateralTokenAmount: BigNumberish,
+    marginAmount: BigNumberish,
+    isTorqueLoan: boolean,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  getDedicatedSOVRebate(overrides?: CallOverrides): Promise<BigNumber>;
+  getDefaultPathConversion(
+    sourceTokenAddress: string,
+    destTokenAddress: string,
+    overrides?: CallOverrides,
+  ): Promise<string[]>;
+  getEstimatedMarginExposure(
+    loanToken: string,
+    collateralToken: string,
+    loanTokenSent: BigNumberish,
+    collateralTokenSent: BigNumberish,
+    interestRate: BigNumberish,
+    newPrincipal: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  getFeeRebatePercent(overrides?: CallOverrides): Promise<BigNumber>;
+  getLegacyOracle(ref: string, overrides?: CallOverrides): Promise<string>;
+  getLenderInterestData(
+    lender: string,
+    loanToken: string,
+    overrides?: CallOverrides,
+  ): Promise<
+    [BigNumber, BigNumber, BigNumber, BigNumber, BigNumber, BigNumber] & {
+      interestPaid: BigNumber;
+      interestPaidDate: BigNumber;
+      interestOwedPerDay: BigNumber;
+      interestUnPaid: BigNumber;
+      interestFeePercent: BigNumber;
+      principalTotal: BigNumber;
+    }
+  >;
+  getLoan(
+    loanId: BytesLike,
+    overrides?: CallOverrides,
+  ): Promise<
+    [
+      string,
+      string,
+      string,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+    ] & {
+      loanId: string;
+      loanToken: string;
+      collateralToken: string;
+      principal: BigNumber;
+      collateral: BigNumber;
+      interestOwedPerDay: BigNumber;
+      interestDepositRemaining: BigNumber;
+      startRate: BigNumber;
+      startMargin: BigNumber;
+      maintenanceMargin: BigNumber;
+      currentMargin: BigNumber;
+      maxLoanTerm: BigNumber;
+      endTimestamp: BigNumber;
+      maxLiquidatable: BigNumber;
+      maxSeizable: BigNumber;
+    }
+  >;
+  getLoanInterestData(
+    loanId: BytesLike,
+    overrides?: CallOverrides,
+  ): Promise<
+    [string, BigNumber, BigNumber, BigNumber] & {
+      loanToken: string;
+      interestOwedPerDay: BigNumber;
+      interestDepositTotal: BigNumber;
+      interestDepositRemaining: BigNumber;
+    }
+  >;
+  getLoanParams(
+    loanParamsIdList: BytesLike[],
+    overrides?: CallOverrides,
+  ): Promise<
+    ([
+      string,
+      boolean,
+      string,
+      string,
+      string,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+    ] & {
+      id: string;
+      active: boolean;
+      owner: string;
+      loanToken: string;
+      collateralToken: string;
+      minInitialMargin: BigNumber;
+      maintenanceMargin: BigNumber;
+      maxLoanTerm: BigNumber;
+    })[]
+  >;
+  getLoanParamsList(
+    owner: string,
+    start: BigNumberish,
+    count: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<string[]>;
+  getLoanPoolsList(
+    start: BigNumberish,
+    count: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<string[]>;
+  getLoanV2(
+    loanId: BytesLike,
+    overrides?: CallOverrides,
+  ): Promise<
+    [
+      string,
+      string,
+      string,
+      string,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+    ] & {
+      loanId: string;
+      loanToken: string;
+      collateralToken: string;
+      borrower: string;
+      principal: BigNumber;
+      collateral: BigNumber;
+      interestOwedPerDay: BigNumber;
+      interestDepositRemaining: BigNumber;
+      startRate: BigNumber;
+      startMargin: BigNumber;
+      maintenanceMargin: BigNumber;
+      currentMargin: BigNumber;
+      maxLoanTerm: BigNumber;
+      endTimestamp: BigNumber;
+      maxLiquidatable: BigNumber;
+      maxSeizable: BigNumber;
+      creationTimestamp: BigNumber;
+    }
+  >;
+  getLockedSOVAddress(overrides?: CallOverrides): Promise<string>;
+  getMinReferralsToPayout(overrides?: CallOverrides): Promise<BigNumber>;
+  getPauser(overrides?: CallOverrides): Promise<string>;
+  getProtocolAddress(overrides?: CallOverrides): Promise<string>;
+  getReferralsList(
+    referrer: string,
+    overrides?: CallOverrides,
+  ): Promise<string[]>;
+  getRequiredCollateral(
+    loanToken: string,
+    collateralToken: string,
+    newPrincipal: BigNumberish,
+    marginAmount: BigNumberish,
+    isTorqueLoan: boolean,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  getSovTokenAddress(overrides?: CallOverrides): Promise<string>;
+  getSpecialRebates(
+    sourceToken: string,
+    destToken: string,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  getSwapExpectedReturn(
+    sourceToken: string,
+    destToken: string,
+    sourceTokenAmount: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  getSwapExternalFeePercent(overrides?: CallOverrides): Promise<BigNumber>;
+  getTarget(sig: string, overrides?: CallOverrides): Promise<string>;
+  getTotalPrincipal(
+    lender: string,
+    loanToken: string,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  getTradingRebateRewardsBasisPoint(
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  getUserLoans(
+    user: string,
+    start: BigNumberish,
+    count: BigNumberish,
+    loanType: BigNumberish,
+    isLender: boolean,
+    unsafeOnly: boolean,
+    overrides?: CallOverrides,
+  ): Promise<
+    ([
+      string,
+      string,
+      string,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+    ] & {
+      loanId: string;
+      loanToken: string;
+      collateralToken: string;
+      principal: BigNumber;
+      collateral: BigNumber;
+      interestOwedPerDay: BigNumber;
+      interestDepositRemaining: BigNumber;
+      startRate: BigNumber;
+      startMargin: BigNumber;
+      maintenanceMargin: BigNumber;
+      currentMargin: BigNumber;
+      maxLoanTerm: BigNumber;
+      endTimestamp: BigNumber;
+      maxLiquidatable: BigNumber;
+      maxSeizable: BigNumber;
+    })[]
+  >;
+  getUserLoansV2(
+    user: string,
+    start: BigNumberish,
+    count: BigNumberish,
+    loanType: BigNumberish,
+    isLender: boolean,
+    unsafeOnly: boolean,
+    overrides?: CallOverrides,
+  ): Promise<
+    ([
+      string,
+      string,
+      string,
+      string,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+    ] & {
+      loanId: string;
+      loanToken: string;
+      collateralToken: string;
+      borrower: string;
+      principal: BigNumber;
+      collateral: BigNumber;
+      interestOwedPerDay: BigNumber;
+      interestDepositRemaining: BigNumber;
+      startRate: BigNumber;
+      startMargin: BigNumber;
+      maintenanceMargin: BigNumber;
+      currentMargin: BigNumber;
+      maxLoanTerm: BigNumber;
+      endTimestamp: BigNumber;
+      maxLiquidatable: BigNumber;
+      maxSeizable: BigNumber;
+      creationTimestamp: BigNumber;
+    })[]
+  >;
+  getUserNotFirstTradeFlag(
+    user: string,
+    overrides?: CallOverrides,
+  ): Promise<boolean>;
+  isLoanPool(loanPool: string, overrides?: CallOverrides): Promise<boolean>;
+  isOwner(overrides?: CallOverrides): Promise<boolean>;
+  isProtocolPaused(overrides?: CallOverrides): Promise<boolean>;
+  lenderInterest(
+    arg0: string,
+    arg1: string,
+    overrides?: CallOverrides,
+  ): Promise<
+    [BigNumber, BigNumber, BigNumber, BigNumber, BigNumber] & {
+      principalTotal: BigNumber;
+      owedPerDay: BigNumber;
+      owedTotal: BigNumber;
+      paidTotal: BigNumber;
+      updatedTimestamp: BigNumber;
+    }
+  >;
+  lenderOrders(
+    arg0: string,
+    arg1: BytesLike,
+    overrides?: CallOverrides,
+  ): Promise<
+    [BigNumber, BigNumber, BigNumber, BigNumber, BigNumber, BigNumber] & {
+      lockedAmount: BigNumber;
+      interestRate: BigNumber;
+      minLoanTerm: BigNumber;
+      maxLoanTerm: BigNumber;
+      createdTimestamp: BigNumber;
+      expirationTimestamp: BigNumber;
+    }
+  >;
+  lendingFeePercent(overrides?: CallOverrides): Promise<BigNumber>;
+  lendingFeeTokensHeld(
+    arg0: string,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  lendingFeeTokensPaid(
+    arg0: string,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  liquidate(
+    loanId: BytesLike,
+    receiver: string,
+    closeAmount: BigNumberish,
+    overrides?: PayableOverrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  liquidationIncentivePercent(overrides?: CallOverrides): Promise<BigNumber>;
+  loanInterest(
+    arg0: BytesLike,
+    overrides?: CallOverrides,
+  ): Promise<
+    [BigNumber, BigNumber, BigNumber] & {
+      owedPerDay: BigNumber;
+      depositTotal: BigNumber;
+      updatedTimestamp: BigNumber;
+    }
+  >;
+  loanParams(
+    arg0: BytesLike,
+    overrides?: CallOverrides,
+  ): Promise<
+    [
+      string,
+      boolean,
+      string,
+      string,
+      string,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+    ] & {
+      id: string;
+      active: boolean;
+      owner: string;
+      loanToken: string;
+      collateralToken: string;
+      minInitialMargin: BigNumber;
+      maintenanceMargin: BigNumber;
+      maxLoanTerm: BigNumber;
+    }
+  >;
+  loanPoolToUnderlying(
+    arg0: string,
+    overrides?: CallOverrides,
+  ): Promise<string>;
+  loans(
+    arg0: BytesLike,
+    overrides?: CallOverrides,
+  ): Promise<
+    [
+      string,
+      string,
+      string,
+      boolean,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      BigNumber,
+      string,
+      string,
+    ] & {
+      id: string;
+      loanParamsId: string;
+      pendingTradesId: string;
+      active: boolean;
+      principal: BigNumber;
+      collateral: BigNumber;
+      startTimestamp: BigNumber;
+      endTimestamp: BigNumber;
+      startMargin: BigNumber;
+      startRate: BigNumber;
+      borrower: string;
+      lender: string;
+    }
+  >;
+  lockedSOVAddress(overrides?: CallOverrides): Promise<string>;
+  logicTargets(arg0: BytesLike, overrides?: CallOverrides): Promise<string>;
+  maxDisagreement(overrides?: CallOverrides): Promise<BigNumber>;
+  maxSwapSize(overrides?: CallOverrides): Promise<BigNumber>;
+  minInitialMargin(
+    loanParamsId: BytesLike,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  minReferralsToPayout(overrides?: CallOverrides): Promise<BigNumber>;
+  owner(overrides?: CallOverrides): Promise<string>;
+  pause(overrides?: CallOverrides): Promise<boolean>;
+  payTradingFeeToAffiliatesReferrer(
+    referrer: string,
+    trader: string,
+    token: string,
+    tradingFeeTokenBaseAmount: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  priceFeeds(overrides?: CallOverrides): Promise<string>;
+  protocolAddress(overrides?: CallOverrides): Promise<string>;
+  protocolTokenAddress(overrides?: CallOverrides): Promise<string>;
+  protocolTokenHeld(overrides?: CallOverrides): Promise<BigNumber>;
+  protocolTokenPaid(overrides?: CallOverrides): Promise<BigNumber>;
+  reduceLoanByInterest(
+    loanId: BytesLike,
+    receiver: string,
+    withdrawAmount: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  reduceLoanDuration(
+    loanId: BytesLike,
+    receiver: string,
+    withdrawAmount: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  removeDefaultPathConversion(
+    sourceTokenAddress: string,
+    destTokenAddress: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  replaceContract(
+    target: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  rollover(
+    loanId: BytesLike,
+    loanDataBytes: BytesLike,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  rolloverBaseReward(overrides?: CallOverrides): Promise<BigNumber>;
+  rolloverFlexFeePercent(overrides?: CallOverrides): Promise<BigNumber>;
+  setAdmin(
+    newAdmin: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setAffiliateFeePercent(
+    newValue: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setAffiliateTradingTokenFeePercent(
+    newValue: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setAffiliatesReferrer(
+    user: string,
+    referrer: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setBorrowingFeePercent(
+    newValue: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setDefaultPathConversion(
+    defaultPath: string[],
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setDelegatedManager(
+    loanId: BytesLike,
+    delegated: string,
+    toggle: boolean,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setFeesController(
+    newController: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setLegacyOracles(
+    refs: string[],
+    oracles: string[],
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setLendingFeePercent(
+    newValue: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setLiquidationIncentivePercent(
+    newAmount: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setLoanPool(
+    pools: string[],
+    assets: string[],
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setLockedSOVAddress(
+    newSOVLockedAddress: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setMaxDisagreement(
+    newAmount: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setMaxSwapSize(
+    newAmount: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setMinReferralsToPayoutAffiliates(
+    newMinReferrals: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setPauser(
+    newPauser: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setPriceFeedContract(
+    newContract: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setProtocolTokenAddress(
+    _protocolTokenAddress: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setRebatePercent(
+    rebatePercent: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setRolloverBaseReward(
+    transactionCost: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setRolloverFlexFeePercent(
+    newRolloverFlexFeePercent: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setSOVTokenAddress(
+    newSovTokenAddress: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setSourceBuffer(
+    newAmount: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setSovrynProtocolAddress(
+    newProtocolAddress: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setSovrynSwapContractRegistryAddress(
+    registryAddress: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setSpecialRebates(
+    sourceToken: string,
+    destToken: string,
+    specialRebatesPercent: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setSupportedTokens(
+    addrs: string[],
+    toggles: boolean[],
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setSwapExternalFeePercent(
+    newValue: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setSwapsImplContract(
+    newContract: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setTargets(
+    sigsArr: string[],
+    targetsArr: string[],
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setTradingFeePercent(
+    newValue: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setTradingRebateRewardsBasisPoint(
+    newBasisPoint: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setUserNotFirstTradeFlag(
+    user: string,
+    overrides?: CallOverrides,
+  ): Promise<boolean>;
+  setWrbtcToken(
+    wrbtcTokenAddress: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setupLoanParams(
+    loanParamsList: {
+      id: BytesLike;
+      active: boolean;
+      owner: string;
+      loanToken: string;
+      collateralToken: string;
+      minInitialMargin: BigNumberish;
+      maintenanceMargin: BigNumberish;
+      maxLoanTerm: BigNumberish;
+    }[],
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  sourceBuffer(overrides?: CallOverrides): Promise<BigNumber>;
+  sovTokenAddress(overrides?: CallOverrides): Promise<string>;
+  sovrynSwapContractRegistryAddress(overrides?: CallOverrides): Promise<string>;
+  specialRebates(
+    arg0: string,
+    arg1: string,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  supportedTokens(arg0: string, overrides?: CallOverrides): Promise<boolean>;
+  swapExternal(
+    sourceToken: string,
+    destToken: string,
+    receiver: string,
+    returnToSender: string,
+    sourceTokenAmount: BigNumberish,
+    requiredDestTokenAmount: BigNumberish,
+    minReturn: BigNumberish,
+    swapData: BytesLike,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  swapsImpl(overrides?: CallOverrides): Promise<string>;
+  togglePaused(
+    paused: boolean,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  tradingFeePercent(overrides?: CallOverrides): Promise<BigNumber>;
+  tradingFeeTokensHeld(
+    arg0: string,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  tradingFeeTokensPaid(
+    arg0: string,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  transferOwnership(
+    newOwner: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  underlyingToLoanPool(
+    arg0: string,
+    overrides?: CallOverrides,
+  ): Promise<string>;
+  userNotFirstTradeFlag(
+    arg0: string,
+    overrides?: CallOverrides,
+  ): Promise<boolean>;
+  withdrawAccruedInterest(
+    loanToken: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  withdrawAffiliatesReferrerTokenFees(
+    token: string,
+    receiver: string,
+    amount: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  withdrawAllAffiliatesReferrerTokenFees(
+    receiver: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  withdrawBorrowingFees(
+    token: string,
+    receiver: string,
+    amount: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  withdrawCollateral(
+    loanId: BytesLike,
+    receiver: string,
+    withdrawAmount: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  withdrawLendingFees(
+    token: string,
+    receiver: string,
+    amount: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  withdrawProtocolToken(
+    receiver: string,
+    amount: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  withdrawTradingFees(
+    token: string,
+    receiver: string,
+    amount: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  wrbtcToken(overrides?: CallOverrides): Promise<string>;
+}
@@ -0,0 +1,60 @@
+/* Autogenerated file. Do not edit manually. */
+
+/* eslint-disable */
+import type { BtcWrapperProxy } from './BtcWrapperProxy';
+import type { Erc20 } from './Erc20';
+import type { FastBtcBridge } from './FastBtcBridge';
+import type { FastBtcMultisig } from './FastBtcMultisig';
+import type { FeeSharing } from './FeeSharing';
+import type { FixedRateConverter } from './FixedRateConverter';
+import type { Governor } from './Governor';
+import type { LiquidityMining } from './LiquidityMining';
+import type { LoanTokenLogicBeacon } from './LoanTokenLogicBeacon';
+import type { LoanTokenSettingsLowerAdmin } from './LoanTokenSettingsLowerAdmin';
+import type { MassetManager } from './MassetManager';
+import type { MerkleDistributor } from './MerkleDistributor';
+import type { MocExchange } from './MocExchange';
+import type { MocIntegration } from './MocIntegration';
+import type { MultiCall2 } from './MultiCall2';
+import type { PriceFeed } from './PriceFeed';
+import type { Protocol } from './Protocol';
+import type { RuneBridge } from './RuneBridge';
+import type { Staking } from './Staking';
+import type { StakingRewards } from './StakingRewards';
+import type { StakingRewardsOs } from './StakingRewardsOs';
+import type { SwapNetwork } from './SwapNetwork';
+import type { Vesting } from './Vesting';
+import type { VestingRegistry } from './VestingRegistry';
+
+// Bindings of protocol contracts by their registry key, generated from contracts/protocol.
+export type ProtocolContracts = {
+  babelfishAggregator: Erc20;
+  btcWrapperProxy: BtcWrapperProxy;
+  fastBtcBridge: FastBtcBridge;
+  fastBtcMultisig: FastBtcMultisig;
+  feeSharing: FeeSharing;
+  feeSharing_old: FeeSharing;
+  fixedRateMynt: FixedRateConverter;
+  governorAdmin: Governor;
+  governorOwner: Governor;
+  liquidityMiningProxy: LiquidityMining;
+  loanTokenLogicBeaconLM: LoanTokenLogicBeacon;
+  loanTokenLogicBeaconWrbtc: LoanTokenLogicBeacon;
+  loanTokenSettingsLowerAdmin: LoanTokenSettingsLowerAdmin;
+  massetManager: MassetManager;
+  merkleDistributor: MerkleDistributor;
+  mocExchangeProxy: MocExchange;
+  mocIntegrationProxy: MocIntegration;
+  multiCall: MultiCall2;
+  priceFeed: PriceFeed;
+  protocol: Protocol;
+  runeBridge: RuneBridge;
+  staking: Staking;
+  stakingFish: Staking;
+  stakingRewards: StakingRewards;
+  stakingRewardsOs: StakingRewardsOs;
+  swapNetwork: SwapNetwork;
+  vesting: Vesting;
+  vestingRegistry: VestingRegistry;
+  vestingRegistryFish: VestingRegistry;
+};
@@ -0,0 +1,620 @@
+/* Autogenerated file. Do not edit manually. */
+
+/* eslint-disable */
+import type {
+  BigNumber,
+  BigNumberish,
+  BytesLike,
+  CallOverrides,
+  Contract,
+  ContractTransaction,
+  Overrides,
+  PayableOverrides,
+  PopulatedTransaction,
+} from 'ethers';
+
+export interface RuneBridge extends Contract {
+  functions: {
+    DYNAMIC_FEE_DIVISOR(overrides?: CallOverrides): Promise<[BigNumber]>;
+    acceptTransferFromBtc(
+      to: string,
+      rune: BigNumberish,
+      runeAmount: BigNumberish,
+      btcTxId: BytesLike,
+      btcTxVout: BigNumberish,
+      signatures: BytesLike[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    accessControl(overrides?: CallOverrides): Promise<[string]>;
+    btcAddressValidator(overrides?: CallOverrides): Promise<[string]>;
+    evmToBtcTransferPoliciesByToken(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, BigNumber, BigNumber, BigNumber, BigNumber] & {
+        maxTokenAmount: BigNumber;
+        minTokenAmount: BigNumber;
+        flatFeeBaseCurrency: BigNumber;
+        flatFeeTokens: BigNumber;
+        dynamicFeeTokens: BigNumber;
+      }
+    >;
+    freeze(
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    frozen(overrides?: CallOverrides): Promise<[boolean]>;
+    getAcceptTransferFromBtcMessageHash(
+      to: string,
+      rune: BigNumberish,
+      runeAmount: BigNumberish,
+      btcTxId: BytesLike,
+      btcTxVout: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[string]>;
+    getEvmToBtcTransferPolicy(
+      token: string,
+      overrides?: CallOverrides,
+    ): Promise<
+      [
+        [BigNumber, BigNumber, BigNumber, BigNumber, BigNumber] & {
+          maxTokenAmount: BigNumber;
+          minTokenAmount: BigNumber;
+          flatFeeBaseCurrency: BigNumber;
+          flatFeeTokens: BigNumber;
+          dynamicFeeTokens: BigNumber;
+        },
+      ] & {
+        policy: [BigNumber, BigNumber, BigNumber, BigNumber, BigNumber] & {
+          maxTokenAmount: BigNumber;
+          minTokenAmount: BigNumber;
+          flatFeeBaseCurrency: BigNumber;
+          flatFeeTokens: BigNumber;
+          dynamicFeeTokens: BigNumber;
+        };
+      }
+    >;
+    getRuneByToken(
+      token: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber] & { rune: BigNumber }>;
+    getTokenByRune(
+      rune: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[string] & { token: string }>;
+    isRuneRegistered(
+      rune: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[boolean]>;
+    listTokens(overrides?: CallOverrides): Promise<[string[]]>;
+    numRequiredFederators(overrides?: CallOverrides): Promise<[BigNumber]>;
+    numRunesRegistered(overrides?: CallOverrides): Promise<[BigNumber]>;
+    numTransfersTotal(overrides?: CallOverrides): Promise<[BigNumber]>;
+    paginateTokens(
+      start: BigNumberish,
+      count: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[string[]]>;
+    pause(
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    paused(overrides?: CallOverrides): Promise<[boolean]>;
+    registerRune(
+      name: string,
+      symbol: string,
+      rune: BigNumberish,
+      runeDivisibility: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    runeTokens(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[string]>;
+    runesByToken(arg0: string, overrides?: CallOverrides): Promise<[BigNumber]>;
+    setEvmToBtcTransferPolicy(
+      token: string,
+      maxTokenAmount: BigNumberish,
+      minTokenAmount: BigNumberish,
+      flatFeeBaseCurrency: BigNumberish,
+      flatFeeTokens: BigNumberish,
+      dynamicFeeTokens: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    tokensByRune(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[string]>;
+    transferToBtc(
+      token: string,
+      tokenAmount: BigNumberish,
+      receiverBtcAddress: string,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    transferTokenBalanceToBtc(
+      token: string,
+      receiverBtcAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    unfreeze(
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    unpause(
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    withdrawBaseCurrency(
+      amount: BigNumberish,
+      receiver: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    withdrawTokens(
+      token: string,
+      amount: BigNumberish,
+      receiver: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+  };
+
+  callStatic: {
+    DYNAMIC_FEE_DIVISOR(overrides?: CallOverrides): Promise<BigNumber>;
+    acceptTransferFromBtc(
+      to: string,
+      rune: BigNumberish,
+      runeAmount: BigNumberish,
+      btcTxId: BytesLike,
+      btcTxVout: BigNumberish,
+      signatures: BytesLike[],
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    accessControl(overrides?: CallOverrides): Promise<string>;
+    btcAddressValidator(overrides?: CallOverrides): Promise<string>;
+    evmToBtcTransferPoliciesByToken(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, BigNumber, BigNumber, BigNumber, BigNumber] & {
+        maxTokenAmount: BigNumber;
+        minTokenAmount: BigNumber;
+        flatFeeBaseCurrency: BigNumber;
+        flatFeeTokens: BigNumber;
+        dynamicFeeTokens: BigNumber;
+      }
+    >;
+    freeze(overrides?: CallOverrides): Promise<void>;
+    frozen(overrides?: CallOverrides): Promise<boolean>;
+    getAcceptTransferFromBtcMessageHash(
+      to: string,
+      rune: BigNumberish,
+      runeAmount: BigNumberish,
+      btcTxId: BytesLike,
+      btcTxVout: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<string>;
+    getEvmToBtcTransferPolicy(
+      token: string,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, BigNumber, BigNumber, BigNumber, BigNumber] & {
+        maxTokenAmount: BigNumber;
+        minTokenAmount: BigNumber;
+        flatFeeBaseCurrency: BigNumber;
+        flatFeeTokens: BigNumber;
+        dynamicFeeTokens: BigNumber;
+      }
+    >;
+    getRuneByToken(
+      token: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getTokenByRune(
+      rune: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<string>;
+    isRuneRegistered(
+      rune: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<boolean>;
+    listTokens(overrides?: CallOverrides): Promise<string[]>;
+    numRequiredFederators(overrides?: CallOverrides): Promise<BigNumber>;
+    numRunesRegistered(overrides?: CallOverrides): Promise<BigNumber>;
+    numTransfersTotal(overrides?: CallOverrides): Promise<BigNumber>;
+    paginateTokens(
+      start: BigNumberish,
+      count: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<string[]>;
+    pause(overrides?: CallOverrides): Promise<void>;
+    paused(overrides?: CallOverrides): Promise<boolean>;
+    registerRune(
+      name: string,
+      symbol: string,
+      rune: BigNumberish,
+      runeDivisibility: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    runeTokens(arg0: BigNumberish, overrides?: CallOverrides): Promise<string>;
+    runesByToken(arg0: string, overrides?: CallOverrides): Promise<BigNumber>;
+    setEvmToBtcTransferPolicy(
+      token: string,
+      maxTokenAmount: BigNumberish,
+      minTokenAmount: BigNumberish,
+      flatFeeBaseCurrency: BigNumberish,
+      flatFeeTokens: BigNumberish,
+      dynamicFeeTokens: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    tokensByRune(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<string>;
+    transferToBtc(
+      token: string,
+      tokenAmount: BigNumberish,
+      receiverBtcAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    transferTokenBalanceToBtc(
+      token: string,
+      receiverBtcAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    unfreeze(overrides?: CallOverrides): Promise<void>;
+    unpause(overrides?: CallOverrides): Promise<void>;
+    withdrawBaseCurrency(
+      amount: BigNumberish,
+      receiver: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    withdrawTokens(
+      token: string,
+      amount: BigNumberish,
+      receiver: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+  };
+
+  estimateGas: {
+    DYNAMIC_FEE_DIVISOR(overrides?: CallOverrides): Promise<BigNumber>;
+    acceptTransferFromBtc(
+      to: string,
+      rune: BigNumberish,
+      runeAmount: BigNumberish,
+      btcTxId: BytesLike,
+      btcTxVout: BigNumberish,
+      signatures: BytesLike[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    accessControl(overrides?: CallOverrides): Promise<BigNumber>;
+    btcAddressValidator(overrides?: CallOverrides): Promise<BigNumber>;
+    evmToBtcTransferPoliciesByToken(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    freeze(overrides?: Overrides & { from?: string }): Promise<BigNumber>;
+    frozen(overrides?: CallOverrides): Promise<BigNumber>;
+    getAcceptTransferFromBtcMessageHash(
+      to: string,
+      rune: BigNumberish,
+      runeAmount: BigNumberish,
+      btcTxId: BytesLike,
+      btcTxVout: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getEvmToBtcTransferPolicy(
+      token: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getRuneByToken(
+      token: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getTokenByRune(
+      rune: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    isRuneRegistered(
+      rune: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    listTokens(overrides?: CallOverrides): Promise<BigNumber>;
+    numRequiredFederators(overrides?: CallOverrides): Promise<BigNumber>;
+    numRunesRegistered(overrides?: CallOverrides): Promise<BigNumber>;
+    numTransfersTotal(overrides?: CallOverrides): Promise<BigNumber>;
+    paginateTokens(
+      start: BigNumberish,
+      count: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    pause(overrides?: Overrides & { from?: string }): Promise<BigNumber>;
+    paused(overrides?: CallOverrides): Promise<BigNumber>;
+    registerRune(
+      name: string,
+      symbol: string,
+      rune: BigNumberish,
+      runeDivisibility: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    runeTokens(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    runesByToken(arg0: string, overrides?: CallOverrides): Promise<BigNumber>;
+    setEvmToBtcTransferPolicy(
+      token: string,
+      maxTokenAmount: BigNumberish,
+      minTokenAmount: BigNumberish,
+      flatFeeBaseCurrency: BigNumberish,
+      flatFeeTokens: BigNumberish,
+      dynamicFeeTokens: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    tokensByRune(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    transferToBtc(
+      token: string,
+      tokenAmount: BigNumberish,
+      receiverBtcAddress: string,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<BigNumber>;
+    transferTokenBalanceToBtc(
+      token: string,
+      receiverBtcAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    unfreeze(overrides?: Overrides & { from?: string }): Promise<BigNumber>;
+    unpause(overrides?: Overrides & { from?: string }): Promise<BigNumber>;
+    withdrawBaseCurrency(
+      amount: BigNumberish,
+      receiver: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    withdrawTokens(
+      token: string,
+      amount: BigNumberish,
+      receiver: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    DYNAMIC_FEE_DIVISOR(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    acceptTransferFromBtc(
+      to: string,
+      rune: BigNumberish,
+      runeAmount: BigNumberish,
+      btcTxId: BytesLike,
+      btcTxVout: BigNumberish,
+      signatures: BytesLike[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    accessControl(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    btcAddressValidator(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    evmToBtcTransferPoliciesByToken(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    freeze(
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    frozen(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    getAcceptTransferFromBtcMessageHash(
+      to: string,
+      rune: BigNumberish,
+      runeAmount: BigNumberish,
+      btcTxId: BytesLike,
+      btcTxVout: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getEvmToBtcTransferPolicy(
+      token: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getRuneByToken(
+      token: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getTokenByRune(
+      rune: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    isRuneRegistered(
+      rune: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    listTokens(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    numRequiredFederators(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    numRunesRegistered(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    numTransfersTotal(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    paginateTokens(
+      start: BigNumberish,
+      count: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    pause(
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    paused(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    registerRune(
+      name: string,
+      symbol: string,
+      rune: BigNumberish,
+      runeDivisibility: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    runeTokens(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    runesByToken(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    setEvmToBtcTransferPolicy(
+      token: string,
+      maxTokenAmount: BigNumberish,
+      minTokenAmount: BigNumberish,
+      flatFeeBaseCurrency: BigNumberish,
+      flatFeeTokens: BigNumberish,
+      dynamicFeeTokens: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    tokensByRune(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    transferToBtc(
+      token: string,
+      tokenAmount: BigNumberish,
+      receiverBtcAddress: string,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    transferTokenBalanceToBtc(
+      token: string,
+      receiverBtcAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    unfreeze(
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    unpause(
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    withdrawBaseCurrency(
+      amount: BigNumberish,
+      receiver: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    withdrawTokens(
+      token: string,
+      amount: BigNumberish,
+      receiver: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+  };
+
+  DYNAMIC_FEE_DIVISOR(overrides?: CallOverrides): Promise<BigNumber>;
+  acceptTransferFromBtc(
+    to: string,
+    rune: BigNumberish,
+    runeAmount: BigNumberish,
+    btcTxId: BytesLike,
+    btcTxVout: BigNumberish,
+    signatures: BytesLike[],
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  accessControl(overrides?: CallOverrides): Promise<string>;
+  btcAddressValidator(overrides?: CallOverrides): Promise<string>;
+  evmToBtcTransferPoliciesByToken(
+    arg0: string,
+    overrides?: CallOverrides,
+  ): Promise<
+    [BigNumber, BigNumber, BigNumber, BigNumber, BigNumber] & {
+      maxTokenAmount: BigNumber;
+      minTokenAmount: BigNumber;
+      flatFeeBaseCurrency: BigNumber;
+      flatFeeTokens: BigNumber;
+      dynamicFeeTokens: BigNumber;
+    }
+  >;
+  freeze(
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  frozen(overrides?: CallOverrides): Promise<boolean>;
+  getAcceptTransferFromBtcMessageHash(
+    to: string,
+    rune: BigNumberish,
+    runeAmount: BigNumberish,
+    btcTxId: BytesLike,
+    btcTxVout: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<string>;
+  getEvmToBtcTransferPolicy(
+    token: string,
+    overrides?: CallOverrides,
+  ): Promise<
+    [BigNumber, BigNumber, BigNumber, BigNumber, BigNumber] & {
+      maxTokenAmount: BigNumber;
+      minTokenAmount: BigNumber;
+      flatFeeBaseCurrency: BigNumber;
+      flatFeeTokens: BigNumber;
+      dynamicFeeTokens: BigNumber;
+    }
+  >;
+  getRuneByToken(token: string, overrides?: CallOverrides): Promise<BigNumber>;
+  getTokenByRune(
+    rune: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<string>;
+  isRuneRegistered(
+    rune: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<boolean>;
+  listTokens(overrides?: CallOverrides): Promise<string[]>;
+  numRequiredFederators(overrides?: CallOverrides): Promise<BigNumber>;
+  numRunesRegistered(overrides?: CallOverrides): Promise<BigNumber>;
+  numTransfersTotal(overrides?: CallOverrides): Promise<BigNumber>;
+  paginateTokens(
+    start: BigNumberish,
+    count: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<string[]>;
+  pause(
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  paused(overrides?: CallOverrides): Promise<boolean>;
+  registerRune(
+    name: string,
+    symbol: string,
+    rune: BigNumberish,
+    runeDivisibility: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  runeTokens(arg0: BigNumberish, overrides?: CallOverrides): Promise<string>;
+  runesByToken(arg0: string, overrides?: CallOverrides): Promise<BigNumber>;
+  setEvmToBtcTransferPolicy(
+    token: string,
+    maxTokenAmount: BigNumberish,
+    minTokenAmount: BigNumberish,
+    flatFeeBaseCurrency: BigNumberish,
+    flatFeeTokens: BigNumberish,
+    dynamicFeeTokens: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  tokensByRune(arg0: BigNumberish, overrides?: CallOverrides): Promise<string>;
+  transferToBtc(
+    token: string,
+    tokenAmount: BigNumberish,
+    receiverBtcAddress: string,
+    overrides?: PayableOverrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  transferTokenBalanceToBtc(
+    token: string,
+    receiverBtcAddress: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  unfreeze(
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  unpause(
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  withdrawBaseCurrency(
+    amount: BigNumberish,
+    receiver: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  withdrawTokens(
+    token: string,
+    amount: BigNumberish,
+    receiver: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+}
@@ -0,0 +1,1429 @@
+/* Autogenerated file. Do not edit manually. */
+
+/* eslint-disable */
+import type {
+  BigNumber,
+  BigNumberish,
+  BytesLike,
+  CallOverrides,
+  Contract,
+  ContractTransaction,
+  Overrides,
+  PayableOverrides,
+  PopulatedTransaction,
+} from 'ethers';
+
+export interface Staking extends Contract {
+  functions: {
+    DELEGATION_TYPEHASH(overrides?: CallOverrides): Promise<[string]>;
+    DOMAIN_TYPEHASH(overrides?: CallOverrides): Promise<[string]>;
+    MAX_DURATION(overrides?: CallOverrides): Promise<[BigNumber]>;
+    MAX_VOTING_WEIGHT(overrides?: CallOverrides): Promise<[BigNumber]>;
+    SOVToken(overrides?: CallOverrides): Promise<[string]>;
+    WEIGHT_FACTOR(overrides?: CallOverrides): Promise<[BigNumber]>;
+    addAdmin(
+      _admin: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    addContractCodeHash(
+      vesting: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    admins(arg0: string, overrides?: CallOverrides): Promise<[boolean]>;
+    allUnlocked(overrides?: CallOverrides): Promise<[boolean]>;
+    balanceOf(
+      account: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber] & { balance: BigNumber }>;
+    computeWeightByDate(
+      date: BigNumberish,
+      startDate: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber] & { weight: BigNumber }>;
+    delegate(
+      delegatee: string,
+      lockDate: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    delegateBySig(
+      delegatee: string,
+      lockDate: BigNumberish,
+      nonce: BigNumberish,
+      expiry: BigNumberish,
+      v: BigNumberish,
+      r: BytesLike,
+      s: BytesLike,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    delegateStakingCheckpoints(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[number, BigNumber] & { fromBlock: number; stake: BigNumber }>;
+    delegates(
+      arg0: string,
+      arg1: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[string]>;
+    extendStakingDuration(
+      previousLock: BigNumberish,
+      until: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    feeSharing(overrides?: CallOverrides): Promise<[string]>;
+    getCurrentStakedUntil(
+      lockedTS: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    getCurrentVotes(
+      account: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    getPriorStakeByDateForDelegatee(
+      account: string,
+      date: BigNumberish,
+      blockNumber: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    getPriorTotalStakesForDate(
+      date: BigNumberish,
+      blockNumber: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    getPriorTotalVotingPower(
+      blockNumber: BigNumberish,
+      time: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber] & { totalVotingPower: BigNumber }>;
+    getPriorUserStakeByDate(
+      account: string,
+      date: BigNumberish,
+      blockNumber: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    getPriorVestingStakeByDate(
+      date: BigNumberish,
+      blockNumber: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    getPriorVestingWeightedStake(
+      blockNumber: BigNumberish,
+      date: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber] & { votes: BigNumber }>;
+    getPriorVotes(
+      account: string,
+      blockNumber: BigNumberish,
+      date: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber] & { votes: BigNumber }>;
+    getPriorWeightedStake(
+      account: string,
+      blockNumber: BigNumberish,
+      date: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber] & { votes: BigNumber }>;
+    getStakes(
+      account: string,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber[], BigNumber[]] & { dates: BigNumber[]; stakes: BigNumber[] }
+    >;
+    getWithdrawAmounts(
+      amount: BigNumberish,
+      until: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber, BigNumber]>;
+    governanceWithdraw(
+      amount: BigNumberish,
+      until: BigNumberish,
+      receiver: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    governanceWithdrawVesting(
+      vesting: string,
+      receiver: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    isOwner(overrides?: CallOverrides): Promise<[boolean]>;
+    isVestingContract(
+      stakerAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<[boolean]>;
+    kickoffTS(overrides?: CallOverrides): Promise<[BigNumber]>;
+    migrateToNewStakingContract(
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    newStakingContract(overrides?: CallOverrides): Promise<[string]>;
+    nonces(arg0: string, overrides?: CallOverrides): Promise<[BigNumber]>;
+    numDelegateStakingCheckpoints(
+      arg0: string,
+      arg1: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[number]>;
+    numTotalStakingCheckpoints(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[number]>;
+    numUserStakingCheckpoints(
+      arg0: string,
+      arg1: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[number]>;
+    numVestingCheckpoints(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[number]>;
+    owner(overrides?: CallOverrides): Promise<[string]>;
+    receiveApproval(
+      _sender: string,
+      _amount: BigNumberish,
+      _token: string,
+      _data: BytesLike,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    removeAdmin(
+      _admin: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    removeContractCodeHash(
+      vesting: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setFeeSharing(
+      _feeSharing: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setNewStakingContract(
+      _newStakingContract: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setStakingRewards(
+      _stakingRewardsProxy: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setVestingRegistry(
+      _vestingRegistryProxy: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setVestingStakes(
+      lockedDates: BigNumberish[],
+      values: BigNumberish[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setWeightScaling(
+      _weightScaling: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    stake(
+      amount: BigNumberish,
+      until: BigNumberish,
+      stakeFor: string,
+      delegatee: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    stakeWithApproval(
+      sender: string,
+      amount: BigNumberish,
+      until: BigNumberish,
+      stakeFor: string,
+      delegatee: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    stakesBySchedule(
+      amount: BigNumberish,
+      cliff: BigNumberish,
+      duration: BigNumberish,
+      intervalLength: BigNumberish,
+      stakeFor: string,
+      delegatee: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    stakingRewards(overrides?: CallOverrides): Promise<[string]>;
+    timestampToLockDate(
+      timestamp: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber] & { lockDate: BigNumber }>;
+    totalStakingCheckpoints(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[number, BigNumber] & { fromBlock: number; stake: BigNumber }>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    unlockAllTokens(
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    userStakingCheckpoints(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[number, BigNumber] & { fromBlock: number; stake: BigNumber }>;
+    vestingCheckpoints(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[number, BigNumber] & { fromBlock: number; stake: BigNumber }>;
+    vestingCodeHashes(
+      arg0: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<[boolean]>;
+    vestingRegistryLogic(overrides?: CallOverrides): Promise<[string]>;
+    vestingWhitelist(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<[boolean]>;
+    weightScaling(overrides?: CallOverrides): Promise<[BigNumber]>;
+    weightedStakeByDate(
+      account: string,
+      date: BigNumberish,
+      startDate: BigNumberish,
+      blockNumber: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber] & { power: BigNumber }>;
+    weightedVestingStakeByDate(
+      date: BigNumberish,
+      startDate: BigNumberish,
+      blockNumber: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber] & { power: BigNumber }>;
+    withdraw(
+      amount: BigNumberish,
+      until: BigNumberish,
+      receiver: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    paused(overrides?: CallOverrides): Promise<[boolean]>;
+    frozen(overrides?: CallOverrides): Promise<[boolean]>;
+  };
+
+  callStatic: {
+    DELEGATION_TYPEHASH(overrides?: CallOverrides): Promise<string>;
+    DOMAIN_TYPEHASH(overrides?: CallOverrides): Promise<string>;
+    MAX_DURATION(overrides?: CallOverrides): Promise<BigNumber>;
+    MAX_VOTING_WEIGHT(overrides?: CallOverrides): Promise<BigNumber>;
+    SOVToken(overrides?: CallOverrides): Promise<string>;
+    WEIGHT_FACTOR(overrides?: CallOverrides): Promise<BigNumber>;
+    addAdmin(_admin: string, overrides?: CallOverrides): Promise<void>;
+    addContractCodeHash(
+      vesting: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    admins(arg0: string, overrides?: CallOverrides): Promise<boolean>;
+    allUnlocked(overrides?: CallOverrides): Promise<boolean>;
+    balanceOf(account: string, overrides?: CallOverrides): Promise<BigNumber>;
+    computeWeightByDate(
+      date: BigNumberish,
+      startDate: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    delegate(
+      delegatee: string,
+      lockDate: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    delegateBySig(
+      delegatee: string,
+      lockDate: BigNumberish,
+      nonce: BigNumberish,
+      expiry: BigNumberish,
+      v: BigNumberish,
+      r: BytesLike,
+      s: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    delegateStakingCheckpoints(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[number, BigNumber] & { fromBlock: number; stake: BigNumber }>;
+    delegates(
+      arg0: string,
+      arg1: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<string>;
+    extendStakingDuration(
+      previousLock: BigNumberish,
+      until: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    feeSharing(overrides?: CallOverrides): Promise<string>;
+    getCurrentStakedUntil(
+      lockedTS: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getCurrentVotes(
+      account: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getPriorStakeByDateForDelegatee(
+      account: string,
+      date: BigNumberish,
+      blockNumber: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getPriorTotalStakesForDate(
+      date: BigNumberish,
+      blockNumber: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getPriorTotalVotingPower(
+      blockNumber: BigNumberish,
+      time: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getPriorUserStakeByDate(
+      account: string,
+      date: BigNumberish,
+      blockNumber: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getPriorVestingStakeByDate(
+      date: BigNumberish,
+      blockNumber: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getPriorVestingWeightedStake(
+      blockNumber: BigNumberish,
+      date: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getPriorVotes(
+      account: string,
+      blockNumber: BigNumberish,
+      date: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getPriorWeightedStake(
+      account: string,
+      blockNumber: BigNumberish,
+      date: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getStakes(
+      account: string,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber[], BigNumber[]] & { dates: BigNumber[]; stakes: BigNumber[] }
+    >;
+    getWithdrawAmounts(
+      amount: BigNumberish,
+      until: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber, BigNumber]>;
+    governanceWithdraw(
+      amount: BigNumberish,
+      until: BigNumberish,
+      receiver: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    governanceWithdrawVesting(
+      vesting: string,
+      receiver: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    isOwner(overrides?: CallOverrides): Promise<boolean>;
+    isVestingContract(
+      stakerAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<boolean>;
+    kickoffTS(overrides?: CallOverrides): Promise<BigNumber>;
+    migrateToNewStakingContract(overrides?: CallOverrides): Promise<void>;
+    newStakingContract(overrides?: CallOverrides): Promise<string>;
+    nonces(arg0: string, overrides?: CallOverrides): Promise<BigNumber>;
+    numDelegateStakingCheckpoints(
+      arg0: string,
+      arg1: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<number>;
+    numTotalStakingCheckpoints(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<number>;
+    numUserStakingCheckpoints(
+      arg0: string,
+      arg1: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<number>;
+    numVestingCheckpoints(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<number>;
+    owner(overrides?: CallOverrides): Promise<string>;
+    receiveApproval(
+      _sender: string,
+      _amount: BigNumberish,
+      _token: string,
+      _data: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    removeAdmin(_admin: string, overrides?: CallOverrides): Promise<void>;
+    removeContractCodeHash(
+      vesting: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setFeeSharing(
+      _feeSharing: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setNewStakingContract(
+      _newStakingContract: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setStakingRewards(
+      _stakingRewardsProxy: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setVestingRegistry(
+      _vestingRegistryProxy: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setVestingStakes(
+      lockedDates: BigNumberish[],
+      values: BigNumberish[],
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setWeightScaling(
+      _weightScaling: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    stake(
+      amount: BigNumberish,
+      until: BigNumberish,
+      stakeFor: string,
+      delegatee: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    stakeWithApproval(
+      sender: string,
+      amount: BigNumberish,
+      until: BigNumberish,
+      stakeFor: string,
+      delegatee: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    stakesBySchedule(
+      amount: BigNumberish,
+      cliff: BigNumberish,
+      duration: BigNumberish,
+      intervalLength: BigNumberish,
+      stakeFor: string,
+      delegatee: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    stakingRewards(overrides?: CallOverrides): Promise<string>;
+    timestampToLockDate(
+      timestamp: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    totalStakingCheckpoints(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[number, BigNumber] & { fromBlock: number; stake: BigNumber }>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    unlockAllTokens(overrides?: CallOverrides): Promise<void>;
+    userStakingCheckpoints(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[number, BigNumber] & { fromBlock: number; stake: BigNumber }>;
+    vestingCheckpoints(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[number, BigNumber] & { fromBlock: number; stake: BigNumber }>;
+    vestingCodeHashes(
+      arg0: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<boolean>;
+    vestingRegistryLogic(overrides?: CallOverrides): Promise<string>;
+    vestingWhitelist(arg0: string, overrides?: CallOverrides): Promise<boolean>;
+    weightScaling(overrides?: CallOverrides): Promise<BigNumber>;
+    weightedStakeByDate(
+      account: string,
+      date: BigNumberish,
+      startDate: BigNumberish,
+      blockNumber: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    weightedVestingStakeByDate(
+      date: BigNumberish,
+      startDate: BigNumberish,
+      blockNumber: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    withdraw(
+      amount: BigNumberish,
+      until: BigNumberish,
+      receiver: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    paused(overrides?: CallOverrides): Promise<boolean>;
+    frozen(overrides?: CallOverrides): Promise<boolean>;
+  };
+
+  estimateGas: {
+    DELEGATION_TYPEHASH(overrides?: CallOverrides): Promise<BigNumber>;
+    DOMAIN_TYPEHASH(overrides?: CallOverrides): Promise<BigNumber>;
+    MAX_DURATION(overrides?: CallOverrides): Promise<BigNumber>;
+    MAX_VOTING_WEIGHT(overrides?: CallOverrides): Promise<BigNumber>;
+    SOVToken(overrides?: CallOverrides): Promise<BigNumber>;
+    WEIGHT_FACTOR(overrides?: CallOverrides): Promise<BigNumber>;
+    addAdmin(
+      _admin: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    addContractCodeHash(
+      vesting: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    admins(arg0: string, overrides?: CallOverrides): Promise<BigNumber>;
+    allUnlocked(overrides?: CallOverrides): Promise<BigNumber>;
+    balanceOf(account: string, overrides?: CallOverrides): Promise<BigNumber>;
+    computeWeightByDate(
+      date: BigNumberish,
+      startDate: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    delegate(
+      delegatee: string,
+      lockDate: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    delegateBySig(
+      delegatee: string,
+      lockDate: BigNumberish,
+      nonce: BigNumberish,
+      expiry: BigNumberish,
+      v: BigNumberish,
+      r: BytesLike,
+      s: BytesLike,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    delegateStakingCheckpoints(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    delegates(
+      arg0: string,
+      arg1: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    extendStakingDuration(
+      previousLock: BigNumberish,
+      until: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    feeSharing(overrides?: CallOverrides): Promise<BigNumber>;
+    getCurrentStakedUntil(
+      lockedTS: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getCurrentVotes(
+      account: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getPriorStakeByDateForDelegatee(
+      account: string,
+      date: BigNumberish,
+      blockNumber: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getPriorTotalStakesForDate(
+      date: BigNumberish,
+      blockNumber: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getPriorTotalVotingPower(
+      blockNumber: BigNumberish,
+      time: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getPriorUserStakeByDate(
+      account: string,
+      date: BigNumberish,
+      blockNumber: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getPriorVestingStakeByDate(
+      date: BigNumberish,
+      blockNumber: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getPriorVestingWeightedStake(
+      blockNumber: BigNumberish,
+      date: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getPriorVotes(
+      account: string,
+      blockNumber: BigNumberish,
+      date: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getPriorWeightedStake(
+      account: string,
+      blockNumber: BigNumberish,
+      date: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getStakes(account: string, overrides?: CallOverrides): Promise<BigNumber>;
+    getWithdrawAmounts(
+      amount: BigNumberish,
+      until: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    governanceWithdraw(
+      amount: BigNumberish,
+      until: BigNumberish,
+      receiver: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    governanceWithdrawVesting(
+      vesting: string,
+      receiver: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    isOwner(overrides?: CallOverrides): Promise<BigNumber>;
+    isVestingContract(
+      stakerAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    kickoffTS(overrides?: CallOverrides): Promise<BigNumber>;
+    migrateToNewStakingContract(
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    newStakingContract(overrides?: CallOverrides): Promise<BigNumber>;
+    nonces(arg0: string, overrides?: CallOverrides): Promise<BigNumber>;
+    numDelegateStakingCheckpoints(
+      arg0: string,
+      arg1: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    numTotalStakingCheckpoints(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    numUserStakingCheckpoints(
+      arg0: string,
+      arg1: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    numVestingCheckpoints(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    owner(overrides?: CallOverrides): Promise<BigNumber>;
+    receiveApproval(
+      _sender: string,
+      _amount: BigNumberish,
+      _token: string,
+      _data: BytesLike,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    removeAdmin(
+      _admin: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    removeContractCodeHash(
+      vesting: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setFeeSharing(
+      _feeSharing: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setNewStakingContract(
+      _newStakingContract: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setStakingRewards(
+      _stakingRewardsProxy: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setVestingRegistry(
+      _vestingRegistryProxy: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setVestingStakes(
+      lockedDates: BigNumberish[],
+      values: BigNumberish[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setWeightScaling(
+      _weightScaling: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    stake(
+      amount: BigNumberish,
+      until: BigNumberish,
+      stakeFor: string,
+      delegatee: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    stakeWithApproval(
+      sender: string,
+      amount: BigNumberish,
+      until: BigNumberish,
+      stakeFor: string,
+      delegatee: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    stakesBySchedule(
+      amount: BigNumberish,
+      cliff: BigNumberish,
+      duration: BigNumberish,
+      intervalLength: BigNumberish,
+      stakeFor: string,
+      delegatee: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    stakingRewards(overrides?: CallOverrides): Promise<BigNumber>;
+    timestampToLockDate(
+      timestamp: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    totalStakingCheckpoints(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    unlockAllTokens(
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    userStakingCheckpoints(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    vestingCheckpoints(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    vestingCodeHashes(
+      arg0: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    vestingRegistryLogic(overrides?: CallOverrides): Promise<BigNumber>;
+    vestingWhitelist(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    weightScaling(overrides?: CallOverrides): Promise<BigNumber>;
+    weightedStakeByDate(
+      account: string,
+      date: BigNumberish,
+      startDate: BigNumberish,
+      blockNumber: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    weightedVestingStakeByDate(
+      date: BigNumberish,
+      startDate: BigNumberish,
+      blockNumber: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    withdraw(
+      amount: BigNumberish,
+      until: BigNumberish,
+      receiver: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    paused(overrides?: CallOverrides): Promise<BigNumber>;
+    frozen(overrides?: CallOverrides): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    DELEGATION_TYPEHASH(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    DOMAIN_TYPEHASH(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    MAX_DURATION(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    MAX_VOTING_WEIGHT(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    SOVToken(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    WEIGHT_FACTOR(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    addAdmin(
+      _admin: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    addContractCodeHash(
+      vesting: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    admins(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    allUnlocked(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    balanceOf(
+      account: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    computeWeightByDate(
+      date: BigNumberish,
+      startDate: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    delegate(
+      delegatee: string,
+      lockDate: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    delegateBySig(
+      delegatee: string,
+      lockDate: BigNumberish,
+      nonce: BigNumberish,
+      expiry: BigNumberish,
+      v: BigNumberish,
+      r: BytesLike,
+      s: BytesLike,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    delegateStakingCheckpoints(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    delegates(
+      arg0: string,
+      arg1: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    extendStakingDuration(
+      previousLock: BigNumberish,
+      until: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    feeSharing(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    getCurrentStakedUntil(
+      lockedTS: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getCurrentVotes(
+      account: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getPriorStakeByDateForDelegatee(
+      account: string,
+      date: BigNumberish,
+      blockNumber: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getPriorTotalStakesForDate(
+      date: BigNumberish,
+      blockNumber: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getPriorTotalVotingPower(
+      blockNumber: BigNumberish,
+      time: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getPriorUserStakeByDate(
+      account: string,
+      date: BigNumberish,
+      blockNumber: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getPriorVestingStakeByDate(
+      date: BigNumberish,
+      blockNumber: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getPriorVestingWeightedStake(
+      blockNumber: BigNumberish,
+      date: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getPriorVotes(
+      account: string,
+      blockNumber: BigNumberish,
+      date: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getPriorWeightedStake(
+      account: string,
+      blockNumber: BigNumberish,
+      date: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getStakes(
+      account: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getWithdrawAmounts(
+      amount: BigNumberish,
+      until: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    governanceWithdraw(
+      amount: BigNumberish,
+      until: BigNumberish,
+      receiver: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    governanceWithdrawVesting(
+      vesting: string,
+      receiver: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    isOwner(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    isVestingContract(
+      stakerAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    kickoffTS(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    migrateToNewStakingContract(
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    newStakingContract(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    nonces(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    numDelegateStakingCheckpoints(
+      arg0: string,
+      arg1: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    numTotalStakingCheckpoints(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    numUserStakingCheckpoints(
+      arg0: string,
+      arg1: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    numVestingCheckpoints(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    owner(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    receiveApproval(
+      _sender: string,
+      _amount: BigNumberish,
+      _token: string,
+      _data: BytesLike,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    removeAdmin(
+      _admin: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    removeContractCodeHash(
+      vesting: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setFeeSharing(
+      _feeSharing: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setNewStakingContract(
+      _newStakingContract: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setStakingRewards(
+      _stakingRewardsProxy: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setVestingRegistry(
+      _vestingRegistryProxy: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setVestingStakes(
+      lockedDates: BigNumberish[],
+      values: BigNumberish[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setWeightScaling(
+      _weightScaling: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    stake(
+      amount: BigNumberish,
+      until: BigNumberish,
+      stakeFor: string,
+      delegatee: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    stakeWithApproval(
+      sender: string,
+      amount: BigNumberish,
+      until: BigNumberish,
+      stakeFor: string,
+      delegatee: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    stakesBySchedule(
+      amount: BigNumberish,
+      cliff: BigNumberish,
+      duration: BigNumberish,
+      intervalLength: BigNumberish,
+      stakeFor: string,
+      delegatee: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    stakingRewards(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    timestampToLockDate(
+      timestamp: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    totalStakingCheckpoints(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    unlockAllTokens(
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    userStakingCheckpoints(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    vestingCheckpoints(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    vestingCodeHashes(
+      arg0: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    vestingRegistryLogic(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    vestingWhitelist(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    weightScaling(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    weightedStakeByDate(
+      account: string,
+      date: BigNumberish,
+      startDate: BigNumberish,
+      blockNumber: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    weightedVestingStakeByDate(
+      date: BigNumberish,
+      startDate: BigNumberish,
+      blockNumber: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    withdraw(
+      amount: BigNumberish,
+      until: BigNumberish,
+      receiver: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    paused(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    frozen(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+  };
+
+  DELEGATION_TYPEHASH(overrides?: CallOverrides): Promise<string>;
+  DOMAIN_TYPEHASH(overrides?: CallOverrides): Promise<string>;
+  MAX_DURATION(overrides?: CallOverrides): Promise<BigNumber>;
+  MAX_VOTING_WEIGHT(overrides?: CallOverrides): Promise<BigNumber>;
+  SOVToken(overrides?: CallOverrides): Promise<string>;
+  WEIGHT_FACTOR(overrides?: CallOverrides): Promise<BigNumber>;
+  addAdmin(
+    _admin: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  addContractCodeHash(
+    vesting: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  admins(arg0: string, overrides?: CallOverrides): Promise<boolean>;
+  allUnlocked(overrides?: CallOverrides): Promise<boolean>;
+  balanceOf(account: string, overrides?: CallOverrides): Promise<BigNumber>;
+  computeWeightByDate(
+    date: BigNumberish,
+    startDate: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  delegate(
+    delegatee: string,
+    lockDate: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  delegateBySig(
+    delegatee: string,
+    lockDate: BigNumberish,
+    nonce: BigNumberish,
+    expiry: BigNumberish,
+    v: BigNumberish,
+    r: BytesLike,
+    s: BytesLike,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  delegateStakingCheckpoints(
+    arg0: string,
+    arg1: BigNumberish,
+    arg2: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<[number, BigNumber] & { fromBlock: number; stake: BigNumber }>;
+  delegates(
+    arg0: string,
+    arg1: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<string>;
+  extendStakingDuration(
+    previousLock: BigNumberish,
+    until: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  feeSharing(overrides?: CallOverrides): Promise<string>;
+  getCurrentStakedUntil(
+    lockedTS: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  getCurrentVotes(
+    account: string,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  getPriorStakeByDateForDelegatee(
+    account: string,
+    date: BigNumberish,
+    blockNumber: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  getPriorTotalStakesForDate(
+    date: BigNumberish,
+    blockNumber: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  getPriorTotalVotingPower(
+    blockNumber: BigNumberish,
+    time: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  getPriorUserStakeByDate(
+    account: string,
+    date: BigNumberish,
+    blockNumber: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  getPriorVestingStakeByDate(
+    date: BigNumberish,
+    blockNumber: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  getPriorVestingWeightedStake(
+    blockNumber: BigNumberish,
+    date: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  getPriorVotes(
+    account: string,
+    blockNumber: BigNumberish,
+    date: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  getPriorWeightedStake(
+    account: string,
+    blockNumber: BigNumberish,
+    date: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  getStakes(
+    account: string,
+    overrides?: CallOverrides,
+  ): Promise<
+    [BigNumber[], BigNumber[]] & { dates: BigNumber[]; stakes: BigNumber[] }
+  >;
+  getWithdrawAmounts(
+    amount: BigNumberish,
+    until: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<[BigNumber, BigNumber]>;
+  governanceWithdraw(
+    amount: BigNumberish,
+    until: BigNumberish,
+    receiver: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  governanceWithdrawVesting(
+    vesting: string,
+    receiver: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  isOwner(overrides?: CallOverrides): Promise<boolean>;
+  isVestingContract(
+    stakerAddress: string,
+    overrides?: CallOverrides,
+  ): Promise<boolean>;
+  kickoffTS(overrides?: CallOverrides): Promise<BigNumber>;
+  migrateToNewStakingContract(
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  newStakingContract(overrides?: CallOverrides): Promise<string>;
+  nonces(arg0: string, overrides?: CallOverrides): Promise<BigNumber>;
+  numDelegateStakingCheckpoints(
+    arg0: string,
+    arg1: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<number>;
+  numTotalStakingCheckpoints(
+    arg0: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<number>;
+  numUserStakingCheckpoints(
+    arg0: string,
+    arg1: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<number>;
+  numVestingCheckpoints(
+    arg0: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<number>;
+  owner(overrides?: CallOverrides): Promise<string>;
+  receiveApproval(
+    _sender: string,
+    _amount: BigNumberish,
+    _token: string,
+    _data: BytesLike,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  removeAdmin(
+    _admin: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  removeContractCodeHash(
+    vesting: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setFeeSharing(
+    _feeSharing: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setNewStakingContract(
+    _newStakingContract: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setStakingRewards(
+    _stakingRewardsProxy: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setVestingRegistry(
+    _vestingRegistryProxy: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setVestingStakes(
+    lockedDates: BigNumberish[],
+    values: BigNumberish[],
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setWeightScaling(
+    _weightScaling: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  stake(
+    amount: BigNumberish,
+    until: BigNumberish,
+    stakeFor: string,
+    delegatee: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  stakeWithApproval(
+    sender: string,
+    amount: BigNumberish,
+    until: BigNumberish,
+    stakeFor: string,
+    delegatee: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  stakesBySchedule(
+    amount: BigNumberish,
+    cliff: BigNumberish,
+    duration: BigNumberish,
+    intervalLength: BigNumberish,
+    stakeFor: string,
+    delegatee: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  stakingRewards(overrides?: CallOverrides): Promise<string>;
+  timestampToLockDate(
+    timestamp: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  totalStakingCheckpoints(
+    arg0: BigNumberish,
+    arg1: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<[number, BigNumber] & { fromBlock: number; stake: BigNumber }>;
+  transferOwnership(
+    newOwner: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  unlockAllTokens(
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  userStakingCheckpoints(
+    arg0: string,
+    arg1: BigNumberish,
+    arg2: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<[number, BigNumber] & { fromBlock: number; stake: BigNumber }>;
+  vestingCheckpoints(
+    arg0: BigNumberish,
+    arg1: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<[number, BigNumber] & { fromBlock: number; stake: BigNumber }>;
+  vestingCodeHashes(
+    arg0: BytesLike,
+    overrides?: CallOverrides,
+  ): Promise<boolean>;
+  vestingRegistryLogic(overrides?: CallOverrides): Promise<string>;
+  vestingWhitelist(arg0: string, overrides?: CallOverrides): Promise<boolean>;
+  weightScaling(overrides?: CallOverrides): Promise<BigNumber>;
+  weightedStakeByDate(
+    account: string,
+    date: BigNumberish,
+    startDate: BigNumberish,
+    blockNumber: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  weightedVestingStakeByDate(
+    date: BigNumberish,
+    startDate: BigNumberish,
+    blockNumber: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  withdraw(
+    amount: BigNumberish,
+    until: BigNumberish,
+    receiver: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  paused(overrides?: CallOverrides): Promise<boolean>;
+  frozen(overrides?: CallOverrides): Promise<boolean>;
+}
@@ -0,0 +1,339 @@
+/* Autogenerated file. Do not edit manually. */
+
+/* eslint-disable */
+import type {
+  BigNumber,
+  BigNumberish,
+  BytesLike,
+  CallOverrides,
+  Contract,
+  ContractTransaction,
+  Overrides,
+  PayableOverrides,
+  PopulatedTransaction,
+} from 'ethers';
+
+export interface StakingRewards extends Contract {
+  functions: {
+    BASE_RATE(overrides?: CallOverrides): Promise<[BigNumber]>;
+    DIVISOR(overrides?: CallOverrides): Promise<[BigNumber]>;
+    SOV(overrides?: CallOverrides): Promise<[string]>;
+    TWO_WEEKS(overrides?: CallOverrides): Promise<[BigNumber]>;
+    averageBlockTime(overrides?: CallOverrides): Promise<[BigNumber]>;
+    checkpointBlockDetails(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    claimedBalances(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    collectReward(
+      restartTime: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    deploymentBlock(overrides?: CallOverrides): Promise<[BigNumber]>;
+    getStakerCurrentReward(
+      considerMaxDuration: boolean,
+      restartTime: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, BigNumber] & {
+        lastWithdrawalInterval: BigNumber;
+        amount: BigNumber;
+      }
+    >;
+    initialize(
+      _SOV: string,
+      _staking: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    isOwner(overrides?: CallOverrides): Promise<[boolean]>;
+    maxDuration(overrides?: CallOverrides): Promise<[BigNumber]>;
+    owner(overrides?: CallOverrides): Promise<[string]>;
+    setAverageBlockTime(
+      _averageBlockTime: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setBlock(
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setHistoricalBlock(
+      _time: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setMaxDuration(
+      _duration: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    staking(overrides?: CallOverrides): Promise<[string]>;
+    startTime(overrides?: CallOverrides): Promise<[BigNumber]>;
+    stop(
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    stopBlock(overrides?: CallOverrides): Promise<[BigNumber]>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    withdrawTokensByOwner(
+      _receiverAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    withdrawals(arg0: string, overrides?: CallOverrides): Promise<[BigNumber]>;
+  };
+
+  callStatic: {
+    BASE_RATE(overrides?: CallOverrides): Promise<BigNumber>;
+    DIVISOR(overrides?: CallOverrides): Promise<BigNumber>;
+    SOV(overrides?: CallOverrides): Promise<string>;
+    TWO_WEEKS(overrides?: CallOverrides): Promise<BigNumber>;
+    averageBlockTime(overrides?: CallOverrides): Promise<BigNumber>;
+    checkpointBlockDetails(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    claimedBalances(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    collectReward(
+      restartTime: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    deploymentBlock(overrides?: CallOverrides): Promise<BigNumber>;
+    getStakerCurrentReward(
+      considerMaxDuration: boolean,
+      restartTime: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, BigNumber] & {
+        lastWithdrawalInterval: BigNumber;
+        amount: BigNumber;
+      }
+    >;
+    initialize(
+      _SOV: string,
+      _staking: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    isOwner(overrides?: CallOverrides): Promise<boolean>;
+    maxDuration(overrides?: CallOverrides): Promise<BigNumber>;
+    owner(overrides?: CallOverrides): Promise<string>;
+    setAverageBlockTime(
+      _averageBlockTime: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setBlock(overrides?: CallOverrides): Promise<void>;
+    setHistoricalBlock(
+      _time: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setMaxDuration(
+      _duration: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    staking(overrides?: CallOverrides): Promise<string>;
+    startTime(overrides?: CallOverrides): Promise<BigNumber>;
+    stop(overrides?: CallOverrides): Promise<void>;
+    stopBlock(overrides?: CallOverrides): Promise<BigNumber>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    withdrawTokensByOwner(
+      _receiverAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    withdrawals(arg0: string, overrides?: CallOverrides): Promise<BigNumber>;
+  };
+
+  estimateGas: {
+    BASE_RATE(overrides?: CallOverrides): Promise<BigNumber>;
+    DIVISOR(overrides?: CallOverrides): Promise<BigNumber>;
+    SOV(overrides?: CallOverrides): Promise<BigNumber>;
+    TWO_WEEKS(overrides?: CallOverrides): Promise<BigNumber>;
+    averageBlockTime(overrides?: CallOverrides): Promise<BigNumber>;
+    checkpointBlockDetails(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    claimedBalances(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    collectReward(
+      restartTime: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    deploymentBlock(overrides?: CallOverrides): Promise<BigNumber>;
+    getStakerCurrentReward(
+      considerMaxDuration: boolean,
+      restartTime: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    initialize(
+      _SOV: string,
+      _staking: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    isOwner(overrides?: CallOverrides): Promise<BigNumber>;
+    maxDuration(overrides?: CallOverrides): Promise<BigNumber>;
+    owner(overrides?: CallOverrides): Promise<BigNumber>;
+    setAverageBlockTime(
+      _averageBlockTime: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setBlock(overrides?: Overrides & { from?: string }): Promise<BigNumber>;
+    setHistoricalBlock(
+      _time: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setMaxDuration(
+      _duration: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    staking(overrides?: CallOverrides): Promise<BigNumber>;
+    startTime(overrides?: CallOverrides): Promise<BigNumber>;
+    stop(overrides?: Overrides & { from?: string }): Promise<BigNumber>;
+    stopBlock(overrides?: CallOverrides): Promise<BigNumber>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    withdrawTokensByOwner(
+      _receiverAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    withdrawals(arg0: string, overrides?: CallOverrides): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    BASE_RATE(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    DIVISOR(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    SOV(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    TWO_WEEKS(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    averageBlockTime(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    checkpointBlockDetails(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    claimedBalances(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    collectReward(
+      restartTime: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    deploymentBlock(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    getStakerCurrentReward(
+      considerMaxDuration: boolean,
+      restartTime: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    initialize(
+      _SOV: string,
+      _staking: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    isOwner(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    maxDuration(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    owner(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    setAverageBlockTime(
+      _averageBlockTime: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setBlock(
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setHistoricalBlock(
+      _time: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setMaxDuration(
+      _duration: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    staking(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    startTime(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    stop(
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    stopBlock(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    withdrawTokensByOwner(
+      _receiverAddress: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    withdrawals(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+  };
+
+  BASE_RATE(overrides?: CallOverrides): Promise<BigNumber>;
+  DIVISOR(overrides?: CallOverrides): Promise<BigNumber>;
+  SOV(overrides?: CallOverrides): Promise<string>;
+  TWO_WEEKS(overrides?: CallOverrides): Promise<BigNumber>;
+  averageBlockTime(overrides?: CallOverrides): Promise<BigNumber>;
+  checkpointBlockDetails(
+    arg0: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  claimedBalances(arg0: string, overrides?: CallOverrides): Promise<BigNumber>;
+  collectReward(
+    restartTime: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  deploymentBlock(overrides?: CallOverrides): Promise<BigNumber>;
+  getStakerCurrentReward(
+    considerMaxDuration: boolean,
+    restartTime: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<
+    [BigNumber, BigNumber] & {
+      lastWithdrawalInterval: BigNumber;
+      amount: BigNumber;
+    }
+  >;
+  initialize(
+    _SOV: string,
+    _staking: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  isOwner(overrides?: CallOverrides): Promise<boolean>;
+  maxDuration(overrides?: CallOverrides): Promise<BigNumber>;
+  owner(overrides?: CallOverrides): Promise<string>;
+  setAverageBlockTime(
+    _averageBlockTime: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setBlock(
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setHistoricalBlock(
+    _time: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setMaxDuration(
+    _duration: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  staking(overrides?: CallOverrides): Promise<string>;
+  startTime(overrides?: CallOverrides): Promise<BigNumber>;
+  stop(overrides?: Overrides & { from?: string }): Promise<ContractTransaction>;
+  stopBlock(overrides?: CallOverrides): Promise<BigNumber>;
+  transferOwnership(
+    newOwner: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  withdrawTokensByOwner(
+    _receiverAddress: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  withdrawals(arg0: string, overrides?: CallOverrides): Promise<BigNumber>;
+}
@@ -0,0 +1,397 @@
+/* Autogenerated file. Do not edit manually. */
+
+/* eslint-disable */
+import type {
+  BigNumber,
+  BigNumberish,
+  BytesLike,
+  CallOverrides,
+  Contract,
+  ContractTransaction,
+  Overrides,
+  PayableOverrides,
+  PopulatedTransaction,
+} from 'ethers';
+
+export interface StakingRewardsOs extends Contract {
+  functions: {
+    BASE_RATE(overrides?: CallOverrides): Promise<[BigNumber]>;
+    DIVISOR(overrides?: CallOverrides): Promise<[BigNumber]>;
+    TWO_WEEKS(overrides?: CallOverrides): Promise<[BigNumber]>;
+    collectReward(
+      _startTime: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    getArbitraryStakerCurrentReward(
+      _considerMaxDuration: boolean,
+      _startTime: BigNumberish,
+      _staker: string,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, BigNumber] & {
+        nextWithdrawTimestamp: BigNumber;
+        amount: BigNumber;
+      }
+    >;
+    getAverageBlockTime(overrides?: CallOverrides): Promise<[BigNumber]>;
+    getCheckpointBlockNumber(
+      _checkpointTimestamp: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    getClaimedBalances(
+      _staker: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    getDeploymentBlock(overrides?: CallOverrides): Promise<[BigNumber]>;
+    getMaxDuration(overrides?: CallOverrides): Promise<[BigNumber]>;
+    getOsSOV(overrides?: CallOverrides): Promise<[string]>;
+    getRewardsProgramStartTime(overrides?: CallOverrides): Promise<[BigNumber]>;
+    getStakerCurrentReward(
+      _considerMaxDuration: boolean,
+      _startTime: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, BigNumber] & {
+        nextWithdrawTimestamp: BigNumber;
+        amount: BigNumber;
+      }
+    >;
+    getStakerNextWithdrawTimestamp(
+      _staker: string,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    getStaking(overrides?: CallOverrides): Promise<[string]>;
+    getStopBlock(overrides?: CallOverrides): Promise<[BigNumber]>;
+    getStopRewardsTimestamp(overrides?: CallOverrides): Promise<[BigNumber]>;
+    initialize(
+      _osSOV: string,
+      _staking: string,
+      _averageBlockTime: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    isOwner(overrides?: CallOverrides): Promise<[boolean]>;
+    owner(overrides?: CallOverrides): Promise<[string]>;
+    setAverageBlockTime(
+      _averageBlockTime: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setBlock(
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setHistoricalBlock(
+      _time: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setMaxDuration(
+      _duration: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    stop(
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+  };
+
+  callStatic: {
+    BASE_RATE(overrides?: CallOverrides): Promise<BigNumber>;
+    DIVISOR(overrides?: CallOverrides): Promise<BigNumber>;
+    TWO_WEEKS(overrides?: CallOverrides): Promise<BigNumber>;
+    collectReward(
+      _startTime: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    getArbitraryStakerCurrentReward(
+      _considerMaxDuration: boolean,
+      _startTime: BigNumberish,
+      _staker: string,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, BigNumber] & {
+        nextWithdrawTimestamp: BigNumber;
+        amount: BigNumber;
+      }
+    >;
+    getAverageBlockTime(overrides?: CallOverrides): Promise<BigNumber>;
+    getCheckpointBlockNumber(
+      _checkpointTimestamp: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getClaimedBalances(
+      _staker: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getDeploymentBlock(overrides?: CallOverrides): Promise<BigNumber>;
+    getMaxDuration(overrides?: CallOverrides): Promise<BigNumber>;
+    getOsSOV(overrides?: CallOverrides): Promise<string>;
+    getRewardsProgramStartTime(overrides?: CallOverrides): Promise<BigNumber>;
+    getStakerCurrentReward(
+      _considerMaxDuration: boolean,
+      _startTime: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, BigNumber] & {
+        nextWithdrawTimestamp: BigNumber;
+        amount: BigNumber;
+      }
+    >;
+    getStakerNextWithdrawTimestamp(
+      _staker: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getStaking(overrides?: CallOverrides): Promise<string>;
+    getStopBlock(overrides?: CallOverrides): Promise<BigNumber>;
+    getStopRewardsTimestamp(overrides?: CallOverrides): Promise<BigNumber>;
+    initialize(
+      _osSOV: string,
+      _staking: string,
+      _averageBlockTime: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    isOwner(overrides?: CallOverrides): Promise<boolean>;
+    owner(overrides?: CallOverrides): Promise<string>;
+    setAverageBlockTime(
+      _averageBlockTime: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setBlock(overrides?: CallOverrides): Promise<void>;
+    setHistoricalBlock(
+      _time: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    setMaxDuration(
+      _duration: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    stop(overrides?: CallOverrides): Promise<void>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+  };
+
+  estimateGas: {
+    BASE_RATE(overrides?: CallOverrides): Promise<BigNumber>;
+    DIVISOR(overrides?: CallOverrides): Promise<BigNumber>;
+    TWO_WEEKS(overrides?: CallOverrides): Promise<BigNumber>;
+    collectReward(
+      _startTime: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    getArbitraryStakerCurrentReward(
+      _considerMaxDuration: boolean,
+      _startTime: BigNumberish,
+      _staker: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getAverageBlockTime(overrides?: CallOverrides): Promise<BigNumber>;
+    getCheckpointBlockNumber(
+      _checkpointTimestamp: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getClaimedBalances(
+      _staker: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getDeploymentBlock(overrides?: CallOverrides): Promise<BigNumber>;
+    getMaxDuration(overrides?: CallOverrides): Promise<BigNumber>;
+    getOsSOV(overrides?: CallOverrides): Promise<BigNumber>;
+    getRewardsProgramStartTime(overrides?: CallOverrides): Promise<BigNumber>;
+    getStakerCurrentReward(
+      _considerMaxDuration: boolean,
+      _startTime: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getStakerNextWithdrawTimestamp(
+      _staker: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getStaking(overrides?: CallOverrides): Promise<BigNumber>;
+    getStopBlock(overrides?: CallOverrides): Promise<BigNumber>;
+    getStopRewardsTimestamp(overrides?: CallOverrides): Promise<BigNumber>;
+    initialize(
+      _osSOV: string,
+      _staking: string,
+      _averageBlockTime: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    isOwner(overrides?: CallOverrides): Promise<BigNumber>;
+    owner(overrides?: CallOverrides): Promise<BigNumber>;
+    setAverageBlockTime(
+      _averageBlockTime: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setBlock(overrides?: Overrides & { from?: string }): Promise<BigNumber>;
+    setHistoricalBlock(
+      _time: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setMaxDuration(
+      _duration: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    stop(overrides?: Overrides & { from?: string }): Promise<BigNumber>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    BASE_RATE(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    DIVISOR(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    TWO_WEEKS(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    collectReward(
+      _startTime: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    getArbitraryStakerCurrentReward(
+      _considerMaxDuration: boolean,
+      _startTime: BigNumberish,
+      _staker: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getAverageBlockTime(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getCheckpointBlockNumber(
+      _checkpointTimestamp: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getClaimedBalances(
+      _staker: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getDeploymentBlock(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getMaxDuration(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    getOsSOV(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    getRewardsProgramStartTime(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getStakerCurrentReward(
+      _considerMaxDuration: boolean,
+      _startTime: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getStakerNextWithdrawTimestamp(
+      _staker: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getStaking(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    getStopBlock(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    getStopRewardsTimestamp(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    initialize(
+      _osSOV: string,
+      _staking: string,
+      _averageBlockTime: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    isOwner(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    owner(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    setAverageBlockTime(
+      _averageBlockTime: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setBlock(
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setHistoricalBlock(
+      _time: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setMaxDuration(
+      _duration: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    stop(
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+  };
+
+  BASE_RATE(overrides?: CallOverrides): Promise<BigNumber>;
+  DIVISOR(overrides?: CallOverrides): Promise<BigNumber>;
+  TWO_WEEKS(overrides?: CallOverrides): Promise<BigNumber>;
+  collectReward(
+    _startTime: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  getArbitraryStakerCurrentReward(
+    _considerMaxDuration: boolean,
+    _startTime: BigNumberish,
+    _staker: string,
+    overrides?: CallOverrides,
+  ): Promise<
+    [BigNumber, BigNumber] & {
+      nextWithdrawTimestamp: BigNumber;
+      amount: BigNumber;
+    }
+  >;
+  getAverageBlockTime(overrides?: CallOverrides): Promise<BigNumber>;
+  getCheckpointBlockNumber(
+    _checkpointTimestamp: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  getClaimedBalances(
+    _staker: string,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  getDeploymentBlock(overrides?: CallOverrides): Promise<BigNumber>;
+  getMaxDuration(overrides?: CallOverrides): Promise<BigNumber>;
+  getOsSOV(overrides?: CallOverrides): Promise<string>;
+  getRewardsProgramStartTime(overrides?: CallOverrides): Promise<BigNumber>;
+  getStakerCurrentReward(
+    _considerMaxDuration: boolean,
+    _startTime: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<
+    [BigNumber, BigNumber] & {
+      nextWithdrawTimestamp: BigNumber;
+      amount: BigNumber;
+    }
+  >;
+  getStakerNextWithdrawTimestamp(
+    _staker: string,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  getStaking(overrides?: CallOverrides): Promise<string>;
+  getStopBlock(overrides?: CallOverrides): Promise<BigNumber>;
+  getStopRewardsTimestamp(overrides?: CallOverrides): Promise<BigNumber>;
+  initialize(
+    _osSOV: string,
+    _staking: string,
+    _averageBlockTime: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  isOwner(overrides?: CallOverrides): Promise<boolean>;
+  owner(overrides?: CallOverrides): Promise<string>;
+  setAverageBlockTime(
+    _averageBlockTime: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setBlock(
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setHistoricalBlock(
+    _time: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setMaxDuration(
+    _duration: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  stop(overrides?: Overrides & { from?: string }): Promise<ContractTransaction>;
+  transferOwnership(
+    newOwner: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+}
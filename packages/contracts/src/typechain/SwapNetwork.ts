@@ -0,0 +1,783 @@
+/* Autogenerated file. Do not edit manually. */
+
+/* eslint-disable */
+import type {
+  BigNumber,
+  BigNumberish,
+  BytesLike,
+  CallOverrides,
+  Contract,
+  ContractTransaction,
+  Overrides,
+  PayableOverrides,
+  PopulatedTransaction,
+} from 'ethers';
+
+export interface SwapNetwork extends Contract {
+  functions: {
+    restrictRegistryUpdate(
+      _onlyOwnerCanUpdateRegistry: boolean,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    registerEtherToken(
+      _token: string,
+      _register: boolean,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    getReturnByPath(
+      _path: string[],
+      _amount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber, BigNumber]>;
+    claimAndConvertFor2(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      _beneficiary: string,
+      _affiliateAccount: string,
+      _affiliateFee: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    onlyOwnerCanUpdateRegistry(overrides?: CallOverrides): Promise<[boolean]>;
+    updateRegistry(
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    convert2(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      _affiliateAccount: string,
+      _affiliateFee: BigNumberish,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    maxAffiliateFee(overrides?: CallOverrides): Promise<[BigNumber]>;
+    withdrawTokens(
+      _token: string,
+      _to: string,
+      _amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    prevRegistry(overrides?: CallOverrides): Promise<[string]>;
+    acceptOwnership(
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    registry(overrides?: CallOverrides): Promise<[string]>;
+    rateByPath(
+      _path: string[],
+      _amount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+    etherTokens(arg0: string, overrides?: CallOverrides): Promise<[boolean]>;
+    completeXConversion(
+      _path: string[],
+      _sovrynSwapX: string,
+      _conversionId: BigNumberish,
+      _minReturn: BigNumberish,
+      _beneficiary: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    owner(overrides?: CallOverrides): Promise<[string]>;
+    convertFor2(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      _beneficiary: string,
+      _affiliateAccount: string,
+      _affiliateFee: BigNumberish,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    claimAndConvertFor(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      _beneficiary: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    restoreRegistry(
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    convertByPath(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      _beneficiary: string,
+      _affiliateAccount: string,
+      _affiliateFee: BigNumberish,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    xConvert(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      _targetBlockchain: BytesLike,
+      _targetAccount: BytesLike,
+      _conversionId: BigNumberish,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    claimAndConvert(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    convertFor(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      _beneficiary: string,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    xConvert2(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      _targetBlockchain: BytesLike,
+      _targetAccount: BytesLike,
+      _conversionId: BigNumberish,
+      _affiliateAccount: string,
+      _affiliateFee: BigNumberish,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    newOwner(overrides?: CallOverrides): Promise<[string]>;
+    conversionPath(
+      _sourceToken: string,
+      _targetToken: string,
+      overrides?: CallOverrides,
+    ): Promise<[string[]]>;
+    claimAndConvert2(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      _affiliateAccount: string,
+      _affiliateFee: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    transferOwnership(
+      _newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    convert(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setMaxAffiliateFee(
+      _maxAffiliateFee: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+  };
+
+  callStatic: {
+    restrictRegistryUpdate(
+      _onlyOwnerCanUpdateRegistry: boolean,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    registerEtherToken(
+      _token: string,
+      _register: boolean,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    getReturnByPath(
+      _path: string[],
+      _amount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber, BigNumber]>;
+    claimAndConvertFor2(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      _beneficiary: string,
+      _affiliateAccount: string,
+      _affiliateFee: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    onlyOwnerCanUpdateRegistry(overrides?: CallOverrides): Promise<boolean>;
+    updateRegistry(overrides?: CallOverrides): Promise<void>;
+    convert2(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      _affiliateAccount: string,
+      _affiliateFee: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    maxAffiliateFee(overrides?: CallOverrides): Promise<BigNumber>;
+    withdrawTokens(
+      _token: string,
+      _to: string,
+      _amount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    prevRegistry(overrides?: CallOverrides): Promise<string>;
+    acceptOwnership(overrides?: CallOverrides): Promise<void>;
+    registry(overrides?: CallOverrides): Promise<string>;
+    rateByPath(
+      _path: string[],
+      _amount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    etherTokens(arg0: string, overrides?: CallOverrides): Promise<boolean>;
+    completeXConversion(
+      _path: string[],
+      _sovrynSwapX: string,
+      _conversionId: BigNumberish,
+      _minReturn: BigNumberish,
+      _beneficiary: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    owner(overrides?: CallOverrides): Promise<string>;
+    convertFor2(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      _beneficiary: string,
+      _affiliateAccount: string,
+      _affiliateFee: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    claimAndConvertFor(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      _beneficiary: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    restoreRegistry(overrides?: CallOverrides): Promise<void>;
+    convertByPath(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      _beneficiary: string,
+      _affiliateAccount: string,
+      _affiliateFee: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    xConvert(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      _targetBlockchain: BytesLike,
+      _targetAccount: BytesLike,
+      _conversionId: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    claimAndConvert(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    convertFor(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      _beneficiary: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    xConvert2(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      _targetBlockchain: BytesLike,
+      _targetAccount: BytesLike,
+      _conversionId: BigNumberish,
+      _affiliateAccount: string,
+      _affiliateFee: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    newOwner(overrides?: CallOverrides): Promise<string>;
+    conversionPath(
+      _sourceToken: string,
+      _targetToken: string,
+      overrides?: CallOverrides,
+    ): Promise<string[]>;
+    claimAndConvert2(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      _affiliateAccount: string,
+      _affiliateFee: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    transferOwnership(
+      _newOwner: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    convert(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    setMaxAffiliateFee(
+      _maxAffiliateFee: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+  };
+
+  estimateGas: {
+    restrictRegistryUpdate(
+      _onlyOwnerCanUpdateRegistry: boolean,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    registerEtherToken(
+      _token: string,
+      _register: boolean,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    getReturnByPath(
+      _path: string[],
+      _amount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    claimAndConvertFor2(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      _beneficiary: string,
+      _affiliateAccount: string,
+      _affiliateFee: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    onlyOwnerCanUpdateRegistry(overrides?: CallOverrides): Promise<BigNumber>;
+    updateRegistry(
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    convert2(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      _affiliateAccount: string,
+      _affiliateFee: BigNumberish,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<BigNumber>;
+    maxAffiliateFee(overrides?: CallOverrides): Promise<BigNumber>;
+    withdrawTokens(
+      _token: string,
+      _to: string,
+      _amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    prevRegistry(overrides?: CallOverrides): Promise<BigNumber>;
+    acceptOwnership(
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    registry(overrides?: CallOverrides): Promise<BigNumber>;
+    rateByPath(
+      _path: string[],
+      _amount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    etherTokens(arg0: string, overrides?: CallOverrides): Promise<BigNumber>;
+    completeXConversion(
+      _path: string[],
+      _sovrynSwapX: string,
+      _conversionId: BigNumberish,
+      _minReturn: BigNumberish,
+      _beneficiary: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    owner(overrides?: CallOverrides): Promise<BigNumber>;
+    convertFor2(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      _beneficiary: string,
+      _affiliateAccount: string,
+      _affiliateFee: BigNumberish,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<BigNumber>;
+    claimAndConvertFor(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      _beneficiary: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    restoreRegistry(
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    convertByPath(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      _beneficiary: string,
+      _affiliateAccount: string,
+      _affiliateFee: BigNumberish,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<BigNumber>;
+    xConvert(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      _targetBlockchain: BytesLike,
+      _targetAccount: BytesLike,
+      _conversionId: BigNumberish,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<BigNumber>;
+    claimAndConvert(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    convertFor(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      _beneficiary: string,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<BigNumber>;
+    xConvert2(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      _targetBlockchain: BytesLike,
+      _targetAccount: BytesLike,
+      _conversionId: BigNumberish,
+      _affiliateAccount: string,
+      _affiliateFee: BigNumberish,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<BigNumber>;
+    newOwner(overrides?: CallOverrides): Promise<BigNumber>;
+    conversionPath(
+      _sourceToken: string,
+      _targetToken: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    claimAndConvert2(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      _affiliateAccount: string,
+      _affiliateFee: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    transferOwnership(
+      _newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    convert(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<BigNumber>;
+    setMaxAffiliateFee(
+      _maxAffiliateFee: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    restrictRegistryUpdate(
+      _onlyOwnerCanUpdateRegistry: boolean,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    registerEtherToken(
+      _token: string,
+      _register: boolean,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    getReturnByPath(
+      _path: string[],
+      _amount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    claimAndConvertFor2(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      _beneficiary: string,
+      _affiliateAccount: string,
+      _affiliateFee: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    onlyOwnerCanUpdateRegistry(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    updateRegistry(
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    convert2(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      _affiliateAccount: string,
+      _affiliateFee: BigNumberish,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    maxAffiliateFee(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    withdrawTokens(
+      _token: string,
+      _to: string,
+      _amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    prevRegistry(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    acceptOwnership(
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    registry(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    rateByPath(
+      _path: string[],
+      _amount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    etherTokens(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    completeXConversion(
+      _path: string[],
+      _sovrynSwapX: string,
+      _conversionId: BigNumberish,
+      _minReturn: BigNumberish,
+      _beneficiary: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    owner(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    convertFor2(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      _beneficiary: string,
+      _affiliateAccount: string,
+      _affiliateFee: BigNumberish,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    claimAndConvertFor(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      _beneficiary: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    restoreRegistry(
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    convertByPath(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      _beneficiary: string,
+      _affiliateAccount: string,
+      _affiliateFee: BigNumberish,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    xConvert(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      _targetBlockchain: BytesLike,
+      _targetAccount: BytesLike,
+      _conversionId: BigNumberish,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    claimAndConvert(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    convertFor(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      _beneficiary: string,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    xConvert2(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      _targetBlockchain: BytesLike,
+      _targetAccount: BytesLike,
+      _conversionId: BigNumberish,
+      _affiliateAccount: string,
+      _affiliateFee: BigNumberish,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    newOwner(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    conversionPath(
+      _sourceToken: string,
+      _targetToken: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    claimAndConvert2(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      _affiliateAccount: string,
+      _affiliateFee: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    transferOwnership(
+      _newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    convert(
+      _path: string[],
+      _amount: BigNumberish,
+      _minReturn: BigNumberish,
+      overrides?: PayableOverrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setMaxAffiliateFee(
+      _maxAffiliateFee: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+  };
+
+  restrictRegistryUpdate(
+    _onlyOwnerCanUpdateRegistry: boolean,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  registerEtherToken(
+    _token: string,
+    _register: boolean,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  getReturnByPath(
+    _path: string[],
+    _amount: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<[BigNumber, BigNumber]>;
+  claimAndConvertFor2(
+    _path: string[],
+    _amount: BigNumberish,
+    _minReturn: BigNumberish,
+    _beneficiary: string,
+    _affiliateAccount: string,
+    _affiliateFee: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  onlyOwnerCanUpdateRegistry(overrides?: CallOverrides): Promise<boolean>;
+  updateRegistry(
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  convert2(
+    _path: string[],
+    _amount: BigNumberish,
+    _minReturn: BigNumberish,
+    _affiliateAccount: string,
+    _affiliateFee: BigNumberish,
+    overrides?: PayableOverrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  maxAffiliateFee(overrides?: CallOverrides): Promise<BigNumber>;
+  withdrawTokens(
+    _token: string,
+    _to: string,
+    _amount: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  prevRegistry(overrides?: CallOverrides): Promise<string>;
+  acceptOwnership(
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  registry(overrides?: CallOverrides): Promise<string>;
+  rateByPath(
+    _path: string[],
+    _amount: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+  etherTokens(arg0: string, overrides?: CallOverrides): Promise<boolean>;
+  completeXConversion(
+    _path: string[],
+    _sovrynSwapX: string,
+    _conversionId: BigNumberish,
+    _minReturn: BigNumberish,
+    _beneficiary: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  owner(overrides?: CallOverrides): Promise<string>;
+  convertFor2(
+    _path: string[],
+    _amount: BigNumberish,
+    _minReturn: BigNumberish,
+    _beneficiary: string,
+    _affiliateAccount: string,
+    _affiliateFee: BigNumberish,
+    overrides?: PayableOverrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  claimAndConvertFor(
+    _path: string[],
+    _amount: BigNumberish,
+    _minReturn: BigNumberish,
+    _beneficiary: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  restoreRegistry(
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  convertByPath(
+    _path: string[],
+    _amount: BigNumberish,
+    _minReturn: BigNumberish,
+    _beneficiary: string,
+    _affiliateAccount: string,
+    _affiliateFee: BigNumberish,
+    overrides?: PayableOverrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  xConvert(
+    _path: string[],
+    _amount: BigNumberish,
+    _minReturn: BigNumberish,
+    _targetBlockchain: BytesLike,
+    _targetAccount: BytesLike,
+    _conversionId: BigNumberish,
+    overrides?: PayableOverrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  claimAndConvert(
+    _path: string[],
+    _amount: BigNumberish,
+    _minReturn: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  convertFor(
+    _path: string[],
+    _amount: BigNumberish,
+    _minReturn: BigNumberish,
+    _beneficiary: string,
+    overrides?: PayableOverrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  xConvert2(
+    _path: string[],
+    _amount: BigNumberish,
+    _minReturn: BigNumberish,
+    _targetBlockchain: BytesLike,
+    _targetAccount: BytesLike,
+    _conversionId: BigNumberish,
+    _affiliateAccount: string,
+    _affiliateFee: BigNumberish,
+    overrides?: PayableOverrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  newOwner(overrides?: CallOverrides): Promise<string>;
+  conversionPath(
+    _sourceToken: string,
+    _targetToken: string,
+    overrides?: CallOverrides,
+  ): Promise<string[]>;
+  claimAndConvert2(
+    _path: string[],
+    _amount: BigNumberish,
+    _minReturn: BigNumberish,
+    _affiliateAccount: string,
+    _affiliateFee: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  transferOwnership(
+    _newOwner: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  convert(
+    _path: string[],
+    _amount: BigNumberish,
+    _minReturn: BigNumberish,
+    overrides?: PayableOverrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setMaxAffiliateFee(
+    _maxAffiliateFee: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+}
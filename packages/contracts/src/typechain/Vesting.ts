@@ -0,0 +1,276 @@
+/* Autogenerated file. Do not edit manually. */
+
+/* eslint-disable */
+import type {
+  BigNumber,
+  BigNumberish,
+  BytesLike,
+  CallOverrides,
+  Contract,
+  ContractTransaction,
+  Overrides,
+  PayableOverrides,
+  PopulatedTransaction,
+} from 'ethers';
+
+export interface Vesting extends Contract {
+  functions: {
+    SOV(overrides?: CallOverrides): Promise<[string]>;
+    cliff(overrides?: CallOverrides): Promise<[BigNumber]>;
+    collectDividends(
+      _loanPoolToken: string,
+      _maxCheckpoints: BigNumberish,
+      _receiver: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    delegate(
+      _delegatee: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    duration(overrides?: CallOverrides): Promise<[BigNumber]>;
+    endDate(overrides?: CallOverrides): Promise<[BigNumber]>;
+    feeSharingProxy(overrides?: CallOverrides): Promise<[string]>;
+    governanceWithdrawTokens(
+      receiver: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    isOwner(overrides?: CallOverrides): Promise<[boolean]>;
+    migrateToNewStakingContract(
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    owner(overrides?: CallOverrides): Promise<[string]>;
+    receiveApproval(
+      _sender: string,
+      _amount: BigNumberish,
+      _token: string,
+      _data: BytesLike,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    stakeTokens(
+      _amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    stakeTokensWithApproval(
+      _sender: string,
+      _amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    staking(overrides?: CallOverrides): Promise<[string]>;
+    startDate(overrides?: CallOverrides): Promise<[BigNumber]>;
+    tokenOwner(overrides?: CallOverrides): Promise<[string]>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    withdrawTokens(
+      receiver: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+  };
+
+  callStatic: {
+    SOV(overrides?: CallOverrides): Promise<string>;
+    cliff(overrides?: CallOverrides): Promise<BigNumber>;
+    collectDividends(
+      _loanPoolToken: string,
+      _maxCheckpoints: BigNumberish,
+      _receiver: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    delegate(_delegatee: string, overrides?: CallOverrides): Promise<void>;
+    duration(overrides?: CallOverrides): Promise<BigNumber>;
+    endDate(overrides?: CallOverrides): Promise<BigNumber>;
+    feeSharingProxy(overrides?: CallOverrides): Promise<string>;
+    governanceWithdrawTokens(
+      receiver: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    isOwner(overrides?: CallOverrides): Promise<boolean>;
+    migrateToNewStakingContract(overrides?: CallOverrides): Promise<void>;
+    owner(overrides?: CallOverrides): Promise<string>;
+    receiveApproval(
+      _sender: string,
+      _amount: BigNumberish,
+      _token: string,
+      _data: BytesLike,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    stakeTokens(
+      _amount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    stakeTokensWithApproval(
+      _sender: string,
+      _amount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    staking(overrides?: CallOverrides): Promise<string>;
+    startDate(overrides?: CallOverrides): Promise<BigNumber>;
+    tokenOwner(overrides?: CallOverrides): Promise<string>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    withdrawTokens(receiver: string, overrides?: CallOverrides): Promise<void>;
+  };
+
+  estimateGas: {
+    SOV(overrides?: CallOverrides): Promise<BigNumber>;
+    cliff(overrides?: CallOverrides): Promise<BigNumber>;
+    collectDividends(
+      _loanPoolToken: string,
+      _maxCheckpoints: BigNumberish,
+      _receiver: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    delegate(
+      _delegatee: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    duration(overrides?: CallOverrides): Promise<BigNumber>;
+    endDate(overrides?: CallOverrides): Promise<BigNumber>;
+    feeSharingProxy(overrides?: CallOverrides): Promise<BigNumber>;
+    governanceWithdrawTokens(
+      receiver: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    isOwner(overrides?: CallOverrides): Promise<BigNumber>;
+    migrateToNewStakingContract(
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    owner(overrides?: CallOverrides): Promise<BigNumber>;
+    receiveApproval(
+      _sender: string,
+      _amount: BigNumberish,
+      _token: string,
+      _data: BytesLike,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    stakeTokens(
+      _amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    stakeTokensWithApproval(
+      _sender: string,
+      _amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    staking(overrides?: CallOverrides): Promise<BigNumber>;
+    startDate(overrides?: CallOverrides): Promise<BigNumber>;
+    tokenOwner(overrides?: CallOverrides): Promise<BigNumber>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    withdrawTokens(
+      receiver: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    SOV(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    cliff(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    collectDividends(
+      _loanPoolToken: string,
+      _maxCheckpoints: BigNumberish,
+      _receiver: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    delegate(
+      _delegatee: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    duration(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    endDate(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    feeSharingProxy(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    governanceWithdrawTokens(
+      receiver: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    isOwner(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    migrateToNewStakingContract(
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    owner(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    receiveApproval(
+      _sender: string,
+      _amount: BigNumberish,
+      _token: string,
+      _data: BytesLike,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    stakeTokens(
+      _amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    stakeTokensWithApproval(
+      _sender: string,
+      _amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    staking(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    startDate(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    tokenOwner(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    withdrawTokens(
+      receiver: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+  };
+
+  SOV(overrides?: CallOverrides): Promise<string>;
+  cliff(overrides?: CallOverrides): Promise<BigNumber>;
+  collectDividends(
+    _loanPoolToken: string,
+    _maxCheckpoints: BigNumberish,
+    _receiver: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  delegate(
+    _delegatee: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  duration(overrides?: CallOverrides): Promise<BigNumber>;
+  endDate(overrides?: CallOverrides): Promise<BigNumber>;
+  feeSharingProxy(overrides?: CallOverrides): Promise<string>;
+  governanceWithdrawTokens(
+    receiver: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  isOwner(overrides?: CallOverrides): Promise<boolean>;
+  migrateToNewStakingContract(
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  owner(overrides?: CallOverrides): Promise<string>;
+  receiveApproval(
+    _sender: string,
+    _amount: BigNumberish,
+    _token: string,
+    _data: BytesLike,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  stakeTokens(
+    _amount: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  stakeTokensWithApproval(
+    _sender: string,
+    _amount: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  staking(overrides?: CallOverrides): Promise<string>;
+  startDate(overrides?: CallOverrides): Promise<BigNumber>;
+  tokenOwner(overrides?: CallOverrides): Promise<string>;
+  transferOwnership(
+    newOwner: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  withdrawTokens(
+    receiver: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+}
@@ -0,0 +1,799 @@
+/* Autogenerated file. Do not edit manually. */
+
+/* eslint-disable */
+import type {
+  BigNumber,
+  BigNumberish,
+  BytesLike,
+  CallOverrides,
+  Contract,
+  ContractTransaction,
+  Overrides,
+  PayableOverrides,
+  PopulatedTransaction,
+} from 'ethers';
+
+export interface VestingRegistry extends Contract {
+  functions: {
+    SOV(overrides?: CallOverrides): Promise<[string]>;
+    addAdmin(
+      _admin: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    addDeployedVestings(
+      _tokenOwners: string[],
+      _vestingCreationTypes: BigNumberish[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    addFourYearVestings(
+      _tokenOwners: string[],
+      _vestingAddresses: string[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    admins(arg0: string, overrides?: CallOverrides): Promise<[boolean]>;
+    createTeamVesting(
+      _tokenOwner: string,
+      _amount: BigNumberish,
+      _cliff: BigNumberish,
+      _duration: BigNumberish,
+      _vestingCreationType: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    createVesting(
+      _tokenOwner: string,
+      _amount: BigNumberish,
+      _cliff: BigNumberish,
+      _duration: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    createVestingAddr(
+      _tokenOwner: string,
+      _amount: BigNumberish,
+      _cliff: BigNumberish,
+      _duration: BigNumberish,
+      _vestingCreationType: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    feeSharingCollector(overrides?: CallOverrides): Promise<[string]>;
+    getTeamVesting(
+      _tokenOwner: string,
+      _cliff: BigNumberish,
+      _duration: BigNumberish,
+      _vestingCreationType: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[string]>;
+    getVesting(
+      _tokenOwner: string,
+      overrides?: CallOverrides,
+    ): Promise<[string]>;
+    getVestingAddr(
+      _tokenOwner: string,
+      _cliff: BigNumberish,
+      _duration: BigNumberish,
+      _vestingCreationType: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[string]>;
+    getVestingDetails(
+      _vestingAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, BigNumber] & { cliff: BigNumber; duration: BigNumber }
+    >;
+    getVestingsOf(
+      _tokenOwner: string,
+      overrides?: CallOverrides,
+    ): Promise<
+      [
+        ([BigNumber, BigNumber, string] & {
+          vestingType: BigNumber;
+          vestingCreationType: BigNumber;
+          vestingAddress: string;
+        })[],
+      ]
+    >;
+    initialize(
+      _vestingFactory: string,
+      _SOV: string,
+      _staking: string,
+      _feeSharingCollector: string,
+      _vestingOwner: string,
+      _lockedSOV: string,
+      _vestingRegistries: string[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    isOwner(overrides?: CallOverrides): Promise<[boolean]>;
+    isTeamVesting(
+      _vestingAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<[boolean]>;
+    isVesting(arg0: string, overrides?: CallOverrides): Promise<[boolean]>;
+    isVestingAddress(
+      _vestingAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<[boolean] & { isVestingAddr: boolean }>;
+    isVestingAdress(
+      _vestingAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<[boolean] & { isVestingAddr: boolean }>;
+    lockedSOV(overrides?: CallOverrides): Promise<[string]>;
+    owner(overrides?: CallOverrides): Promise<[string]>;
+    registerVestingToVestingCreationAndTypes(
+      _vestingAddresses: string[],
+      _vestingCreationAndTypes: {
+        isSet: boolean;
+        vestingType: BigNumberish;
+        vestingCreationType: BigNumberish;
+      }[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    removeAdmin(
+      _admin: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    setVestingFactory(
+      _vestingFactory: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    stakeTokens(
+      _vesting: string,
+      _amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    staking(overrides?: CallOverrides): Promise<[string]>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    transferSOV(
+      _receiver: string,
+      _amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<ContractTransaction>;
+    vestingCreationAndTypes(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<
+      [boolean, number, BigNumber] & {
+        isSet: boolean;
+        vestingType: number;
+        vestingCreationType: BigNumber;
+      }
+    >;
+    vestingFactory(overrides?: CallOverrides): Promise<[string]>;
+    vestingOwner(overrides?: CallOverrides): Promise<[string]>;
+    vestingRegistries(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[string]>;
+    vestings(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, BigNumber, string] & {
+        vestingType: BigNumber;
+        vestingCreationType: BigNumber;
+        vestingAddress: string;
+      }
+    >;
+    vestingsOf(
+      arg0: string,
+      arg1: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<[BigNumber]>;
+  };
+
+  callStatic: {
+    SOV(overrides?: CallOverrides): Promise<string>;
+    addAdmin(_admin: string, overrides?: CallOverrides): Promise<void>;
+    addDeployedVestings(
+      _tokenOwners: string[],
+      _vestingCreationTypes: BigNumberish[],
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    addFourYearVestings(
+      _tokenOwners: string[],
+      _vestingAddresses: string[],
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    admins(arg0: string, overrides?: CallOverrides): Promise<boolean>;
+    createTeamVesting(
+      _tokenOwner: string,
+      _amount: BigNumberish,
+      _cliff: BigNumberish,
+      _duration: BigNumberish,
+      _vestingCreationType: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    createVesting(
+      _tokenOwner: string,
+      _amount: BigNumberish,
+      _cliff: BigNumberish,
+      _duration: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    createVestingAddr(
+      _tokenOwner: string,
+      _amount: BigNumberish,
+      _cliff: BigNumberish,
+      _duration: BigNumberish,
+      _vestingCreationType: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    feeSharingCollector(overrides?: CallOverrides): Promise<string>;
+    getTeamVesting(
+      _tokenOwner: string,
+      _cliff: BigNumberish,
+      _duration: BigNumberish,
+      _vestingCreationType: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<string>;
+    getVesting(_tokenOwner: string, overrides?: CallOverrides): Promise<string>;
+    getVestingAddr(
+      _tokenOwner: string,
+      _cliff: BigNumberish,
+      _duration: BigNumberish,
+      _vestingCreationType: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<string>;
+    getVestingDetails(
+      _vestingAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, BigNumber] & { cliff: BigNumber; duration: BigNumber }
+    >;
+    getVestingsOf(
+      _tokenOwner: string,
+      overrides?: CallOverrides,
+    ): Promise<
+      ([BigNumber, BigNumber, string] & {
+        vestingType: BigNumber;
+        vestingCreationType: BigNumber;
+        vestingAddress: string;
+      })[]
+    >;
+    initialize(
+      _vestingFactory: string,
+      _SOV: string,
+      _staking: string,
+      _feeSharingCollector: string,
+      _vestingOwner: string,
+      _lockedSOV: string,
+      _vestingRegistries: string[],
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    isOwner(overrides?: CallOverrides): Promise<boolean>;
+    isTeamVesting(
+      _vestingAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<boolean>;
+    isVesting(arg0: string, overrides?: CallOverrides): Promise<boolean>;
+    isVestingAddress(
+      _vestingAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<boolean>;
+    isVestingAdress(
+      _vestingAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<boolean>;
+    lockedSOV(overrides?: CallOverrides): Promise<string>;
+    owner(overrides?: CallOverrides): Promise<string>;
+    registerVestingToVestingCreationAndTypes(
+      _vestingAddresses: string[],
+      _vestingCreationAndTypes: {
+        isSet: boolean;
+        vestingType: BigNumberish;
+        vestingCreationType: BigNumberish;
+      }[],
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    removeAdmin(_admin: string, overrides?: CallOverrides): Promise<void>;
+    setVestingFactory(
+      _vestingFactory: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    stakeTokens(
+      _vesting: string,
+      _amount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    staking(overrides?: CallOverrides): Promise<string>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    transferSOV(
+      _receiver: string,
+      _amount: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<void>;
+    vestingCreationAndTypes(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<
+      [boolean, number, BigNumber] & {
+        isSet: boolean;
+        vestingType: number;
+        vestingCreationType: BigNumber;
+      }
+    >;
+    vestingFactory(overrides?: CallOverrides): Promise<string>;
+    vestingOwner(overrides?: CallOverrides): Promise<string>;
+    vestingRegistries(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<string>;
+    vestings(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<
+      [BigNumber, BigNumber, string] & {
+        vestingType: BigNumber;
+        vestingCreationType: BigNumber;
+        vestingAddress: string;
+      }
+    >;
+    vestingsOf(
+      arg0: string,
+      arg1: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+  };
+
+  estimateGas: {
+    SOV(overrides?: CallOverrides): Promise<BigNumber>;
+    addAdmin(
+      _admin: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    addDeployedVestings(
+      _tokenOwners: string[],
+      _vestingCreationTypes: BigNumberish[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    addFourYearVestings(
+      _tokenOwners: string[],
+      _vestingAddresses: string[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    admins(arg0: string, overrides?: CallOverrides): Promise<BigNumber>;
+    createTeamVesting(
+      _tokenOwner: string,
+      _amount: BigNumberish,
+      _cliff: BigNumberish,
+      _duration: BigNumberish,
+      _vestingCreationType: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    createVesting(
+      _tokenOwner: string,
+      _amount: BigNumberish,
+      _cliff: BigNumberish,
+      _duration: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    createVestingAddr(
+      _tokenOwner: string,
+      _amount: BigNumberish,
+      _cliff: BigNumberish,
+      _duration: BigNumberish,
+      _vestingCreationType: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    feeSharingCollector(overrides?: CallOverrides): Promise<BigNumber>;
+    getTeamVesting(
+      _tokenOwner: string,
+      _cliff: BigNumberish,
+      _duration: BigNumberish,
+      _vestingCreationType: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getVesting(
+      _tokenOwner: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getVestingAddr(
+      _tokenOwner: string,
+      _cliff: BigNumberish,
+      _duration: BigNumberish,
+      _vestingCreationType: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getVestingDetails(
+      _vestingAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    getVestingsOf(
+      _tokenOwner: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    initialize(
+      _vestingFactory: string,
+      _SOV: string,
+      _staking: string,
+      _feeSharingCollector: string,
+      _vestingOwner: string,
+      _lockedSOV: string,
+      _vestingRegistries: string[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    isOwner(overrides?: CallOverrides): Promise<BigNumber>;
+    isTeamVesting(
+      _vestingAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    isVesting(arg0: string, overrides?: CallOverrides): Promise<BigNumber>;
+    isVestingAddress(
+      _vestingAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    isVestingAdress(
+      _vestingAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    lockedSOV(overrides?: CallOverrides): Promise<BigNumber>;
+    owner(overrides?: CallOverrides): Promise<BigNumber>;
+    registerVestingToVestingCreationAndTypes(
+      _vestingAddresses: string[],
+      _vestingCreationAndTypes: {
+        isSet: boolean;
+        vestingType: BigNumberish;
+        vestingCreationType: BigNumberish;
+      }[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    removeAdmin(
+      _admin: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    setVestingFactory(
+      _vestingFactory: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    stakeTokens(
+      _vesting: string,
+      _amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    staking(overrides?: CallOverrides): Promise<BigNumber>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    transferSOV(
+      _receiver: string,
+      _amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<BigNumber>;
+    vestingCreationAndTypes(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    vestingFactory(overrides?: CallOverrides): Promise<BigNumber>;
+    vestingOwner(overrides?: CallOverrides): Promise<BigNumber>;
+    vestingRegistries(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+    vestings(arg0: BigNumberish, overrides?: CallOverrides): Promise<BigNumber>;
+    vestingsOf(
+      arg0: string,
+      arg1: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    SOV(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    addAdmin(
+      _admin: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    addDeployedVestings(
+      _tokenOwners: string[],
+      _vestingCreationTypes: BigNumberish[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    addFourYearVestings(
+      _tokenOwners: string[],
+      _vestingAddresses: string[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    admins(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    createTeamVesting(
+      _tokenOwner: string,
+      _amount: BigNumberish,
+      _cliff: BigNumberish,
+      _duration: BigNumberish,
+      _vestingCreationType: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    createVesting(
+      _tokenOwner: string,
+      _amount: BigNumberish,
+      _cliff: BigNumberish,
+      _duration: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    createVestingAddr(
+      _tokenOwner: string,
+      _amount: BigNumberish,
+      _cliff: BigNumberish,
+      _duration: BigNumberish,
+      _vestingCreationType: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    feeSharingCollector(
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getTeamVesting(
+      _tokenOwner: string,
+      _cliff: BigNumberish,
+      _duration: BigNumberish,
+      _vestingCreationType: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getVesting(
+      _tokenOwner: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getVestingAddr(
+      _tokenOwner: string,
+      _cliff: BigNumberish,
+      _duration: BigNumberish,
+      _vestingCreationType: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getVestingDetails(
+      _vestingAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    getVestingsOf(
+      _tokenOwner: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    initialize(
+      _vestingFactory: string,
+      _SOV: string,
+      _staking: string,
+      _feeSharingCollector: string,
+      _vestingOwner: string,
+      _lockedSOV: string,
+      _vestingRegistries: string[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    isOwner(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    isTeamVesting(
+      _vestingAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    isVesting(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    isVestingAddress(
+      _vestingAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    isVestingAdress(
+      _vestingAddress: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    lockedSOV(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    owner(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    registerVestingToVestingCreationAndTypes(
+      _vestingAddresses: string[],
+      _vestingCreationAndTypes: {
+        isSet: boolean;
+        vestingType: BigNumberish;
+        vestingCreationType: BigNumberish;
+      }[],
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    removeAdmin(
+      _admin: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    setVestingFactory(
+      _vestingFactory: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    stakeTokens(
+      _vesting: string,
+      _amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    staking(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    transferSOV(
+      _receiver: string,
+      _amount: BigNumberish,
+      overrides?: Overrides & { from?: string },
+    ): Promise<PopulatedTransaction>;
+    vestingCreationAndTypes(
+      arg0: string,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    vestingFactory(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    vestingOwner(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    vestingRegistries(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    vestings(
+      arg0: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+    vestingsOf(
+      arg0: string,
+      arg1: BigNumberish,
+      overrides?: CallOverrides,
+    ): Promise<PopulatedTransaction>;
+  };
+
+  SOV(overrides?: CallOverrides): Promise<string>;
+  addAdmin(
+    _admin: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  addDeployedVestings(
+    _tokenOwners: string[],
+    _vestingCreationTypes: BigNumberish[],
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  addFourYearVestings(
+    _tokenOwners: string[],
+    _vestingAddresses: string[],
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  admins(arg0: string, overrides?: CallOverrides): Promise<boolean>;
+  createTeamVesting(
+    _tokenOwner: string,
+    _amount: BigNumberish,
+    _cliff: BigNumberish,
+    _duration: BigNumberish,
+    _vestingCreationType: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  createVesting(
+    _tokenOwner: string,
+    _amount: BigNumberish,
+    _cliff: BigNumberish,
+    _duration: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  createVestingAddr(
+    _tokenOwner: string,
+    _amount: BigNumberish,
+    _cliff: BigNumberish,
+    _duration: BigNumberish,
+    _vestingCreationType: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  feeSharingCollector(overrides?: CallOverrides): Promise<string>;
+  getTeamVesting(
+    _tokenOwner: string,
+    _cliff: BigNumberish,
+    _duration: BigNumberish,
+    _vestingCreationType: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<string>;
+  getVesting(_tokenOwner: string, overrides?: CallOverrides): Promise<string>;
+  getVestingAddr(
+    _tokenOwner: string,
+    _cliff: BigNumberish,
+    _duration: BigNumberish,
+    _vestingCreationType: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<string>;
+  getVestingDetails(
+    _vestingAddress: string,
+    overrides?: CallOverrides,
+  ): Promise<
+    [BigNumber, BigNumber] & { cliff: BigNumber; duration: BigNumber }
+  >;
+  getVestingsOf(
+    _tokenOwner: string,
+    overrides?: CallOverrides,
+  ): Promise<
+    ([BigNumber, BigNumber, string] & {
+      vestingType: BigNumber;
+      vestingCreationType: BigNumber;
+      vestingAddress: string;
+    })[]
+  >;
+  initialize(
+    _vestingFactory: string,
+    _SOV: string,
+    _staking: string,
+    _feeSharingCollector: string,
+    _vestingOwner: string,
+    _lockedSOV: string,
+    _vestingRegistries: string[],
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  isOwner(overrides?: CallOverrides): Promise<boolean>;
+  isTeamVesting(
+    _vestingAddress: string,
+    overrides?: CallOverrides,
+  ): Promise<boolean>;
+  isVesting(arg0: string, overrides?: CallOverrides): Promise<boolean>;
+  isVestingAddress(
+    _vestingAddress: string,
+    overrides?: CallOverrides,
+  ): Promise<boolean>;
+  isVestingAdress(
+    _vestingAddress: string,
+    overrides?: CallOverrides,
+  ): Promise<boolean>;
+  lockedSOV(overrides?: CallOverrides): Promise<string>;
+  owner(overrides?: CallOverrides): Promise<string>;
+  registerVestingToVestingCreationAndTypes(
+    _vestingAddresses: string[],
+    _vestingCreationAndTypes: {
+      isSet: boolean;
+      vestingType: BigNumberish;
+      vestingCreationType: BigNumberish;
+    }[],
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  removeAdmin(
+    _admin: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  setVestingFactory(
+    _vestingFactory: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  stakeTokens(
+    _vesting: string,
+    _amount: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  staking(overrides?: CallOverrides): Promise<string>;
+  transferOwnership(
+    newOwner: string,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  transferSOV(
+    _receiver: string,
+    _amount: BigNumberish,
+    overrides?: Overrides & { from?: string },
+  ): Promise<ContractTransaction>;
+  vestingCreationAndTypes(
+    arg0: string,
+    overrides?: CallOverrides,
+  ): Promise<
+    [boolean, number, BigNumber] & {
+      isSet: boolean;
+      vestingType: number;
+      vestingCreationType: BigNumber;
+    }
+  >;
+  vestingFactory(overrides?: CallOverrides): Promise<string>;
+  vestingOwner(overrides?: CallOverrides): Promise<string>;
+  vestingRegistries(
+    arg0: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<string>;
+  vestings(
+    arg0: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<
+    [BigNumber, BigNumber, string] & {
+      vestingType: BigNumber;
+      vestingCreationType: BigNumber;
+      vestingAddress: string;
+    }
+  >;
+  vestingsOf(
+    arg0: string,
+    arg1: BigNumberish,
+    overrides?: CallOverrides,
+  ): Promise<BigNumber>;
+}
@@ -0,0 +1,31 @@
+/* Autogenerated file. Do not edit manually. */
+/* eslint-disable */
+export type { LoanTokenSettingsLowerAdmin } from './LoanTokenSettingsLowerAdmin';
+export type { OsSov } from './OsSov';
+export type { RuneBridge } from './RuneBridge';
+export type { StakingRewardsOs } from './StakingRewardsOs';
+export type { BtcWrapperProxy } from './BtcWrapperProxy';
+export type { Erc20 } from './Erc20';
+export type { FastBtcBridge } from './FastBtcBridge';
+export type { FastBtcMultisig } from './FastBtcMultisig';
+export type { FeeSharing } from './FeeSharing';
+export type { FixedRateConverter } from './FixedRateConverter';
+export type { Governor } from './Governor';
+export type { LiquidityMining } from './LiquidityMining';
+export type { LoanToken } from './LoanToken';
+export type { LoanTokenLogicBeacon } from './LoanTokenLogicBeacon';
+export type { LoanTokenLogicStandard } from './LoanTokenLogicStandard';
+export type { LoanTokenLogicWRBTC } from './LoanTokenLogicWRBTC';
+export type { MassetManager } from './MassetManager';
+export type { MerkleDistributor } from './MerkleDistributor';
+export type { MocExchange } from './MocExchange';
+export type { MocIntegration } from './MocIntegration';
+export type { MultiCall2 } from './MultiCall2';
+export type { PriceFeed } from './PriceFeed';
+export type { Protocol } from './Protocol';
+export type { Staking } from './Staking';
+export type { StakingRewards } from './StakingRewards';
+export type { SwapNetwork } from './SwapNetwork';
+export type { Vesting } from './Vesting';
+export type { VestingRegistry } from './VestingRegistry';
+export type { ProtocolContracts } from './ProtocolContracts';
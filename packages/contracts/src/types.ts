@@ -5,6 +5,7 @@ import type { Contract, ContractInterface, Signer } from 'ethers';
 import type { ChainId } from '@sovryn/ethers-provider';
 
 import { contracts } from './contracts';
+import type { ProtocolContracts } from './typechain';
 
 export type ContractGroup = keyof typeof contracts;
 export type ContractNetworkName = keyof typeof contracts[ContractGroup];
@@ -12,17 +13,25 @@ export type ContractNetworkName = keyof typeof contracts[ContractGroup];
 /** @deprecated */
 export type SupportedTokens = string;
 
-export type ContractConfigData = {
+export type ContractConfigData<T extends Contract = Contract> = {
   address: string;
   abi: ContractInterface;
-  contract: (signerOrProvider?: Signer | Provider) => Contract;
+  contract: (signerOrProvider?: Signer | Provider) => T;
 };
 
+export type ProtocolContractName = keyof ProtocolContracts;
+
 export type AsyncContractConfigData = {
   address: string;
   getAbi: () => Promise<ContractInterface>;
 };
 
+// Overridden contract addresses by chainId, group and contract name (or symbol for assets).
+export type ContractOverridesConfig = Record<
+  string,
+  Partial<Record<ContractGroup, Record<string, string>>>
+>;
+
 export type ContractData = {
   address: string;
   abi: ContractInterface;
@@ -46,3 +55,24 @@ export type AssetDetailsData = Omit<AssetDetails, 'getIcon'> & {
   abi: ContractInterface;
   contract: (signerOrProvider?: Signer | Provider) => Contract;
 };
+
+// Token list in Uniswap format, see https://github.com/Uniswap/token-lists
+export type TokenListToken = {
+  chainId: number;
+  address: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+  logoURI?: string;
+  tags?: string[];
+  extensions?: Record<string, unknown>;
+};
+
+export type TokenList = {
+  name: string;
+  timestamp: string;
+  version: { major: number; minor: number; patch: number };
+  tokens: TokenListToken[];
+  logoURI?: string;
+  keywords?: string[];
+};
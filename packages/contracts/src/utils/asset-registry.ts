@@ -0,0 +1,100 @@
+import { ChainId, getNetworkByChainId, Network } from '@sovryn/ethers-provider';
+
+import { assets } from '../contracts/assets';
+import { AssetDetails } from '../types';
+import { getContractOverrides } from './contract-overrides';
+
+type AssetSource = 'custom' | 'list';
+
+type AssetsChangeListener = (chainId: ChainId) => void;
+
+// Assets added at runtime by network, built-in assets of the package are kept in contracts/assets.
+const importedAssets: Record<
+  AssetSource,
+  Partial<Record<Network, AssetDetails[]>>
+> = {
+  custom: {},
+  list: {},
+};
+
+const listeners = new Set<AssetsChangeListener>();
+
+const notify = (chainId: ChainId) =>
+  listeners.forEach(listener => listener(chainId));
+
+const isSameAsset = (a: AssetDetails, b: AssetDetails) =>
+  a.address.toLowerCase() === b.address.toLowerCase() ||
+  a.symbol.toLowerCase() === b.symbol.toLowerCase();
+
+// Built-in assets of the network with overridden addresses, assets overridden only on this chain
+// are defined by the same symbol on other networks.
+const listBuiltInAssets = (chainId: ChainId, network: Network) => {
+  const overridden = getContractOverrides(chainId, 'assets');
+  const items = (assets[network] || []).map(asset => {
+    const address = overridden[asset.symbol.toLowerCase()];
+    return address ? { ...asset, address } : asset;
+  });
+
+  Object.keys(overridden)
+    .filter(symbol => !items.some(item => item.symbol.toLowerCase() === symbol))
+    .forEach(symbol => {
+      const asset = Object.values(assets)
+        .flatMap(item => item || [])
+        .find(item => item.symbol.toLowerCase() === symbol);
+      if (asset) {
+        items.push({ ...asset, address: overridden[symbol] });
+      }
+    });
+
+  return items;
+};
+
+// Built-in assets, then custom and token list assets which don't collide with them by address or symbol.
+export const listAssets = (chainId: ChainId): AssetDetails[] => {
+  const network = getNetworkByChainId(chainId);
+
+  return [
+    ...(importedAssets.custom[network] || []),
+    ...(importedAssets.list[network] || []),
+  ].reduce(
+    (acc, asset) =>
+      acc.some(item => isSameAsset(item, asset)) ? acc : [...acc, asset],
+    listBuiltInAssets(chainId, network),
+  );
+};
+
+// Replace assets of the chain loaded from token lists.
+export const setListedAssets = (chainId: ChainId, items: AssetDetails[]) => {
+  importedAssets.list[getNetworkByChainId(chainId)] = items;
+  notify(chainId);
+};
+
+export const addCustomAsset = (chainId: ChainId, asset: AssetDetails) => {
+  const network = getNetworkByChainId(chainId);
+  importedAssets.custom[network] = [
+    ...(importedAssets.custom[network] || []).filter(
+      item => !isSameAsset(item, asset),
+    ),
+    asset,
+  ];
+  notify(chainId);
+};
+
+export const removeCustomAsset = (chainId: ChainId, address: string) => {
+  const network = getNetworkByChainId(chainId);
+  importedAssets.custom[network] = (
+    importedAssets.custom[network] || []
+  ).filter(item => item.address.toLowerCase() !== address.toLowerCase());
+  notify(chainId);
+};
+
+export const listCustomAssets = (chainId: ChainId): AssetDetails[] =>
+  importedAssets.custom[getNetworkByChainId(chainId)] || [];
+
+// Called when imported assets of the chain change, returns function to stop listening.
+export const onAssetsChange = (listener: AssetsChangeListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
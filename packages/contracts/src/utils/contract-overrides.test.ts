@@ -0,0 +1,111 @@
+import { ChainIds } from '@sovryn/ethers-provider';
+
+import swapNetwork from '../abis/swapNetwork.json';
+import { contracts } from '../contracts';
+import {
+  clearContractOverrides,
+  getContractOverride,
+  loadContractOverrides,
+  registerContractOverrides,
+} from './contract-overrides';
+import { findContract, getAssetData, getContract } from './global';
+
+const FORK_SWAP_NETWORK = '0x00000000000000000000000000000000000000a1';
+const FORK_XUSD = '0x00000000000000000000000000000000000000a2';
+const RSK_SWAP_NETWORK = contracts.protocol.rsk?.swapNetwork.address!;
+
+describe('utils/contract-overrides.ts', () => {
+  afterEach(() => {
+    clearContractOverrides();
+  });
+
+  it('resolves contract overridden on chain without its deployment', async () => {
+    registerContractOverrides(ChainIds.FORK, 'protocol', {
+      swapNetwork: FORK_SWAP_NETWORK,
+    });
+
+    const contract = await getContract(
+      'swapNetwork',
+      'protocol',
+      ChainIds.FORK,
+    );
+    expect(contract.address).toBe(FORK_SWAP_NETWORK);
+    expect(contract.abi).toBe(swapNetwork);
+
+    const found = await findContract(FORK_SWAP_NETWORK, ChainIds.FORK);
+    expect(found.group).toBe('protocol');
+    expect(found.name).toBe('swapNetwork');
+  });
+
+  it('replaces cached address of registered contract', async () => {
+    const before = await getContract(
+      'swapNetwork',
+      'protocol',
+      ChainIds.RSK_MAINNET,
+    );
+    expect(before.address).toBe(RSK_SWAP_NETWORK.toLowerCase());
+
+    registerContractOverrides(ChainIds.RSK_MAINNET, 'protocol', {
+      swapNetwork: FORK_SWAP_NETWORK,
+    });
+
+    const after = await getContract(
+      'swapNetwork',
+      'protocol',
+      ChainIds.RSK_MAINNET,
+    );
+    expect(after.address).toBe(FORK_SWAP_NETWORK);
+    await expect(
+      findContract(RSK_SWAP_NETWORK, ChainIds.RSK_MAINNET),
+    ).rejects.toThrow();
+  });
+
+  it('overrides asset address by symbol', async () => {
+    registerContractOverrides(ChainIds.FORK, 'assets', { xusd: FORK_XUSD });
+
+    const asset = await getAssetData('XUSD', ChainIds.FORK);
+    expect(asset.address).toBe(FORK_XUSD);
+    expect(asset.decimals).toBe(18);
+  });
+
+  it('loads overrides from json with decimal chain ids', () => {
+    loadContractOverrides(
+      JSON.stringify({
+        112233: { protocol: { swapNetwork: FORK_SWAP_NETWORK } },
+      }),
+    );
+
+    expect(getContractOverride(ChainIds.FORK, 'protocol', 'swapNetwork')).toBe(
+      FORK_SWAP_NETWORK,
+    );
+  });
+
+  it('restores registry addresses when overrides are cleared', async () => {
+    registerContractOverrides(ChainIds.RSK_MAINNET, 'protocol', {
+      swapNetwork: FORK_SWAP_NETWORK,
+    });
+    clearContractOverrides(ChainIds.RSK_MAINNET);
+
+    const contract = await getContract(
+      'swapNetwork',
+      'protocol',
+      ChainIds.RSK_MAINNET,
+    );
+    expect(contract.address).toBe(RSK_SWAP_NETWORK.toLowerCase());
+  });
+
+  it('throws for unknown contract or invalid address', () => {
+    expect(() =>
+      registerContractOverrides(ChainIds.FORK, 'protocol', {
+        unknown: FORK_SWAP_NETWORK,
+      }),
+    ).toThrow('registerContractOverrides: Unknown contract: protocol.unknown');
+    expect(() =>
+      registerContractOverrides(ChainIds.FORK, 'protocol', {
+        swapNetwork: '0x1234',
+      }),
+    ).toThrow(
+      'registerContractOverrides: Invalid address of protocol.swapNetwork: 0x1234',
+    );
+  });
+});
@@ -0,0 +1,118 @@
+import { utils } from 'ethers';
+
+import { ChainId, numberToChainId } from '@sovryn/ethers-provider';
+
+import { contracts } from '../contracts';
+import { ContractGroup, ContractOverridesConfig } from '../types';
+
+type ContractOverridesChangeListener = (chainId: ChainId) => void;
+
+// Overridden addresses by chainId, group and contract name (lowercased symbol for assets).
+const overrides: Record<
+  ChainId,
+  Partial<Record<ContractGroup, Record<string, string>>>
+> = {};
+
+const listeners = new Set<ContractOverridesChangeListener>();
+
+const notify = (chainId: ChainId) =>
+  listeners.forEach(listener => listener(chainId));
+
+const normalizeChainId = (chainId: ChainId | number): ChainId =>
+  typeof chainId === 'number' || !chainId.startsWith('0x')
+    ? numberToChainId(Number(chainId))
+    : chainId.toLowerCase();
+
+const normalizeName = (group: ContractGroup, name: string) =>
+  group === 'assets' ? name.toLowerCase() : name;
+
+// Contract must be registered on some network, so its abi is known.
+const isKnownContract = (group: ContractGroup, name: string) =>
+  Object.values(contracts[group]).some(items =>
+    Array.isArray(items)
+      ? items.some(item => item.symbol.toLowerCase() === name)
+      : !!items?.[name],
+  );
+
+// Point contracts of the group to other addresses on the chain, e.g. to local fork deployment.
+// Contracts are found by registry key, or by symbol for assets.
+export const registerContractOverrides = (
+  chainId: ChainId | number,
+  group: ContractGroup,
+  map: Record<string, string>,
+) => {
+  const id = normalizeChainId(chainId);
+  const items = Object.entries(map).reduce((acc, [name, address]) => {
+    const key = normalizeName(group, name);
+
+    if (!isKnownContract(group, key)) {
+      throw new Error(
+        `registerContractOverrides: Unknown contract: ${group}.${name}`,
+      );
+    }
+
+    if (!utils.isAddress(address)) {
+      throw new Error(
+        `registerContractOverrides: Invalid address of ${group}.${name}: ${address}`,
+      );
+    }
+
+    acc[key] = address.toLowerCase();
+    return acc;
+  }, {} as Record<string, string>);
+
+  overrides[id] = {
+    ...overrides[id],
+    [group]: { ...overrides[id]?.[group], ...items },
+  };
+  notify(id);
+};
+
+// Register overrides of all chains, e.g. from environment variable with JSON of { [chainId]: { [group]: { [name]: address } } }.
+export const loadContractOverrides = (
+  config: string | ContractOverridesConfig,
+) => {
+  const items: ContractOverridesConfig =
+    typeof config === 'string' ? JSON.parse(config) : config;
+
+  Object.entries(items).forEach(([chainId, groups]) =>
+    Object.entries(groups).forEach(([group, map]) =>
+      registerContractOverrides(chainId, group as ContractGroup, map!),
+    ),
+  );
+};
+
+export const clearContractOverrides = (chainId?: ChainId | number) => {
+  const ids =
+    chainId === undefined
+      ? Object.keys(overrides)
+      : [normalizeChainId(chainId)];
+
+  ids.forEach(id => {
+    delete overrides[id];
+    notify(id);
+  });
+};
+
+export const getContractOverrides = (
+  chainId: ChainId,
+  group: ContractGroup,
+): Record<string, string> =>
+  overrides[normalizeChainId(chainId)]?.[group] || {};
+
+export const getContractOverride = (
+  chainId: ChainId,
+  group: ContractGroup,
+  name: string,
+): string | undefined =>
+  getContractOverrides(chainId, group)[normalizeName(group, name)];
+
+// Called when overrides of the chain change, returns function to stop listening.
+export const onContractOverridesChange = (
+  listener: ContractOverridesChangeListener,
+) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
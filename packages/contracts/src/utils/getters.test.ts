@@ -52,6 +52,16 @@ describe('utils/contracts/getters.ts', () => {
         contracts.protocol.rsk?.swapNetwork.address.toLowerCase(),
       );
     });
+
+    it('creates contract with functions of its typed binding', async () => {
+      const { contract } = await getProtocolContract('multiCall');
+      const multiCall = contract();
+      expect(multiCall.address).toBe(
+        contracts.protocol.rsk?.multiCall.address.toLowerCase(),
+      );
+      expect(typeof multiCall.callStatic.aggregate).toBe('function');
+      expect(typeof multiCall.getBlockNumber).toBe('function');
+    });
   });
 
   describe('getZeroContract', () => {
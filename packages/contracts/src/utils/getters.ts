@@ -1,22 +1,36 @@
 import { ChainId, ChainIds } from '@sovryn/ethers-provider';
 
-import { ContractConfigData } from '../types';
+import type { Erc20, ProtocolContracts } from '../typechain';
+import { ContractConfigData, ProtocolContractName } from '../types';
 import { getContract } from './global';
 
 export const getAssetContract = async (
   token: string,
   chain: ChainId = ChainIds.RSK_MAINNET,
-): Promise<ContractConfigData> => getContract(token, 'assets', chain);
+): Promise<ContractConfigData<Erc20>> =>
+  getContract(token, 'assets', chain) as Promise<ContractConfigData<Erc20>>;
 
 export const getLoanTokenContract = async (
   token: string,
   chain: ChainId = ChainIds.RSK_MAINNET,
 ): Promise<ContractConfigData> => getContract(token, 'loanTokens', chain);
 
-export const getProtocolContract = async (
+export function getProtocolContract<T extends ProtocolContractName>(
+  token: T,
+  chain?: ChainId,
+): Promise<ContractConfigData<ProtocolContracts[T]>>;
+export function getProtocolContract(
+  token: string,
+  chain?: ChainId,
+): Promise<ContractConfigData>;
+
+// Known registry keys resolve to typed contract bindings, see ProtocolContracts.
+export function getProtocolContract(
   token: string,
   chain: ChainId = ChainIds.RSK_MAINNET,
-): Promise<ContractConfigData> => getContract(token, 'protocol', chain);
+): Promise<ContractConfigData> {
+  return getContract(token, 'protocol', chain);
+}
 
 export const getZeroContract = async (
   token: string,
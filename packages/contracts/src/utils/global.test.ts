@@ -3,12 +3,19 @@ import { ChainIds } from '@sovryn/ethers-provider';
 import erc20 from '../abis/erc20.json';
 import loanToken from '../abis/loanToken.json';
 import { contracts } from '../contracts';
-import { findContract, getContract, getContractGroupAbi } from './global';
+import {
+  findContract,
+  findContracts,
+  getContract,
+  getContractGroupAbi,
+} from './global';
 
 const RSK_XUSD_ADDRESS = contracts.assets.rsk?.find(
   item => item.symbol === 'XUSD',
 )?.address!;
 const RSK_SWAP_NETWORK = contracts.protocol.rsk?.swapNetwork.address!;
+// registered on both rsk testnet and sepolia
+const SHARED_ADDRESS = contracts.protocol.sepolia?.staking.address!;
 
 describe('utils/contracts/global.ts', () => {
   describe('findContract', () => {
@@ -34,6 +41,27 @@ describe('utils/contracts/global.ts', () => {
       expect(token1).toBe(token2);
     });
 
+    it('finds contract of given chain when address is used on multiple chains', async () => {
+      const testnet = await findContract(SHARED_ADDRESS, ChainIds.RSK_TESTNET);
+      expect(testnet.chainId).toBe(ChainIds.RSK_TESTNET);
+      expect(testnet.name).toBe('mocIntegrationProxy');
+
+      const sepolia = await findContract(SHARED_ADDRESS, ChainIds.SEPOLIA);
+      expect(sepolia.chainId).toBe(ChainIds.SEPOLIA);
+      expect(sepolia.name).toBe('staking');
+    });
+
+    it('throws error if contract is not registered on given chain', async () => {
+      expect.assertions(1);
+      try {
+        await findContract(RSK_SWAP_NETWORK, ChainIds.BOB_MAINNET);
+      } catch (e) {
+        expect(e.message).toBe(
+          `findContract: Unknown contract: ${RSK_SWAP_NETWORK.toLowerCase()}`,
+        );
+      }
+    });
+
     it('throws error if contract is unknown', async () => {
       expect.assertions(1);
       try {
@@ -46,6 +74,33 @@ describe('utils/contracts/global.ts', () => {
     });
   });
 
+  describe('findContracts', () => {
+    it('finds contracts of given chain by address', async () => {
+      const result = await findContracts(
+        [RSK_XUSD_ADDRESS, RSK_SWAP_NETWORK, SHARED_ADDRESS],
+        ChainIds.RSK_MAINNET,
+      );
+
+      expect(Object.keys(result)).toEqual([
+        RSK_XUSD_ADDRESS.toLowerCase(),
+        RSK_SWAP_NETWORK.toLowerCase(),
+      ]);
+      expect(result[RSK_SWAP_NETWORK.toLowerCase()].name).toBe('swapNetwork');
+    });
+
+    it('shares cache with findContract', async () => {
+      const contract = await findContract(
+        RSK_SWAP_NETWORK,
+        ChainIds.RSK_MAINNET,
+      );
+      const result = await findContracts(
+        [RSK_SWAP_NETWORK],
+        ChainIds.RSK_MAINNET,
+      );
+      expect(result[RSK_SWAP_NETWORK.toLowerCase()]).toBe(contract);
+    });
+  });
+
   describe('getContract', () => {
     it('gets xusd contract', async () => {
       const token = await getContract('xusd', 'assets', ChainIds.RSK_MAINNET);
@@ -19,7 +19,24 @@ import {
   ContractData,
   ContractGroup,
 } from '../types';
+import { listAssets, onAssetsChange } from './asset-registry';
+import {
+  getContractOverrides,
+  onContractOverridesChange,
+} from './contract-overrides';
+
+type ContractIndexEntry = {
+  group: ContractGroup;
+  name: string;
+  getAbi: () => Promise<ContractInterface>;
+};
 
+// Contracts of the network by lowercased address, built once per network.
+const contractIndex = new Map<
+  Network,
+  Promise<Map<string, ContractIndexEntry>>
+>();
+// Resolved contract data by chainId and lowercased address.
 const cacheByAddress = new Map<string, ContractData>();
 const cacheByKey: Record<
   ChainId,
@@ -27,51 +44,158 @@ const cacheByKey: Record<
 > = {};
 const iconCache = new Map<string, string>();
 
+// Imported assets and overrides change the contracts of the chain, so its resolved data is dropped.
+const clearChainCache = (chainId: ChainId) => {
+  contractIndex.delete(getNetworkByChainId(chainId));
+  Array.from(cacheByAddress.keys())
+    .filter(key => key.startsWith(`${chainId}:`))
+    .forEach(key => cacheByAddress.delete(key));
+  delete cacheByKey[chainId];
+};
+
+onAssetsChange(clearChainCache);
+onContractOverridesChange(clearChainCache);
+
+// Contracts of the group registered for the chain with overridden addresses applied. Contracts overridden
+// only on this chain use the abi of the contract with the same name on other networks.
+const listGroupContracts = async (
+  group: Exclude<ContractGroup, 'assets'>,
+  chainId: ChainId,
+): Promise<Record<string, AsyncContractConfigData>> => {
+  const contracts = await import('../contracts').then(m => m.contracts[group]);
+  const items = { ...contracts[getNetworkByChainId(chainId)] };
+  const overridden = getContractOverrides(chainId, group);
+
+  Object.keys(overridden).forEach(name => {
+    const contract =
+      items[name] ||
+      Object.values(contracts).find(item => item?.[name])?.[name];
+    if (contract) {
+      items[name] = { ...contract, address: overridden[name] };
+    }
+  });
+
+  return items;
+};
+
+const buildContractIndex = async (
+  network: Network,
+): Promise<Map<string, ContractIndexEntry>> => {
+  const contracts = await import('../contracts').then(m => m.contracts);
+  const index = new Map<string, ContractIndexEntry>();
+
+  for (const group of Object.keys(contracts) as ContractGroup[]) {
+    const obj =
+      group === 'assets'
+        ? listAssets(getChainIdByNetwork(network))
+        : await listGroupContracts(group, getChainIdByNetwork(network));
+
+    for (const key of Object.keys(obj)) {
+      const address = obj[key].address.toLowerCase();
+      // first contract wins if address is registered more than once
+      if (index.has(address)) {
+        continue;
+      }
+
+      index.set(address, {
+        group,
+        name: group === 'assets' ? obj[key].symbol : key,
+        getAbi:
+          group === 'assets'
+            ? () => getContractGroupAbi(group)
+            : () => obj[key].getAbi(),
+      });
+    }
+  }
+
+  return index;
+};
+
+const getContractIndex = (
+  network: Network,
+): Promise<Map<string, ContractIndexEntry>> => {
+  if (!contractIndex.has(network)) {
+    contractIndex.set(network, buildContractIndex(network));
+  }
+  return contractIndex.get(network)!;
+};
+
+const getContractNetworks = async (): Promise<Network[]> => {
+  const contracts = await import('../contracts').then(m => m.contracts);
+  const networks = Object.values(contracts).flatMap(group =>
+    Object.keys(group),
+  ) as Network[];
+  return networks.filter((item, index) => networks.indexOf(item) === index);
+};
+
+const resolveContract = async (
+  address: string,
+  network: Network,
+): Promise<ContractData | undefined> => {
+  const chainId = getChainIdByNetwork(network);
+  const cacheKey = `${chainId}:${address}`;
+
+  if (cacheByAddress.has(cacheKey)) {
+    return cacheByAddress.get(cacheKey)!;
+  }
+
+  const entry = (await getContractIndex(network)).get(address);
+  if (!entry) {
+    return undefined;
+  }
+
+  const contractData: ContractData = {
+    address,
+    group: entry.group,
+    name: entry.name,
+    chainId,
+    abi: await entry.getAbi(),
+  };
+
+  cacheByAddress.set(cacheKey, contractData);
+  return contractData;
+};
+
+// Finds registered contract by its address. Without chainId, networks are searched in order of the registry.
 export const findContract = async (
   address: string,
-  chainId?: ChainId, // todo: search by chainId if provided
+  chainId?: ChainId,
 ): Promise<ContractData> => {
   address = address.toLowerCase();
-  if (cacheByAddress.has(address)) {
-    return cacheByAddress.get(address)!;
-  }
 
-  const contracts = await import('../contracts').then(m => m.contracts);
+  const networks =
+    chainId !== undefined
+      ? [getNetworkByChainId(chainId)]
+      : await getContractNetworks();
 
-  const groups = Object.keys(contracts);
-  let contractData: ContractData | undefined;
-
-  loop: for (const group of groups) {
-    const networks = Object.keys(contracts[group]);
-    for (const network of networks) {
-      const obj = contracts[group][network];
-      let key = Object.keys(obj).find(
-        k => obj[k].address.toLowerCase() === address,
-      );
-      if (key) {
-        contractData = {
-          address,
-          group: group as ContractGroup,
-          name: group === 'assets' ? obj[key].symbol : key,
-          chainId: getChainIdByNetwork(network as Network),
-          abi:
-            group === 'assets'
-              ? await getContractGroupAbi(group as ContractGroup)
-              : await obj[key].getAbi(),
-        };
-        break loop;
-      }
+  for (const network of networks) {
+    const contractData = await resolveContract(address, network);
+    if (contractData) {
+      return contractData;
     }
   }
 
-  if (contractData) {
-    cacheByAddress.set(address, contractData);
-    return contractData;
-  }
-
   throw new Error(`findContract: Unknown contract: ${address}`);
 };
 
+// Finds registered contracts of the chain, unknown addresses are left out of the result.
+export const findContracts = async (
+  addresses: string[],
+  chainId: ChainId,
+): Promise<Record<string, ContractData>> => {
+  const network = getNetworkByChainId(chainId);
+  const items = await Promise.all(
+    addresses.map(address => resolveContract(address.toLowerCase(), network)),
+  );
+
+  return items.reduce((acc, item) => {
+    if (item) {
+      acc[item.address] = item;
+    }
+    return acc;
+  }, {} as Record<string, ContractData>);
+};
+
 export const getContract = async (
   name: string,
   group: ContractGroup,
@@ -82,9 +206,10 @@ export const getContract = async (
     return cached;
   }
 
-  const contracts = await import('../contracts').then(m =>
-    get(m.contracts, [group, getNetworkByChainId(chainId)]),
-  );
+  const contracts =
+    group === 'assets'
+      ? listAssets(chainId)
+      : await listGroupContracts(group, chainId);
 
   let contractData: Omit<ContractConfigData, 'contract'>;
 
@@ -162,9 +287,7 @@ export const getAsset = async (
   symbol: string,
   chainId: ChainId,
 ): Promise<AssetDetails> => {
-  const items: AssetDetails[] = await import('../contracts').then(m =>
-    get(m.contracts, ['assets', getNetworkByChainId(chainId)]),
-  );
+  const items = listAssets(chainId);
 
   const tokenBaseInfo = items.find(
     item => item.symbol.toLowerCase() === symbol.toLowerCase(),
@@ -202,9 +325,7 @@ export const getAssetDataByAddress = async (
   address: string,
   chainId: ChainId,
 ): Promise<AssetDetailsData> => {
-  const items: AssetDetails[] = await import('../contracts').then(m =>
-    get(m.contracts, ['assets', getNetworkByChainId(chainId)]),
-  );
+  const items = listAssets(chainId);
 
   const tokenBaseInfo = items.find(
     item => item.address.toLowerCase() === address.toLowerCase(),
@@ -220,7 +341,7 @@ export const getAssetDataByAddress = async (
 
   const icon = await resolveIcon(tokenBaseInfo);
 
-  const { abi } = await findContract(address);
+  const { abi } = await findContract(address, chainId);
 
   if (!abi) {
     throw new Error(
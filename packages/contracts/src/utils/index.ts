@@ -1,2 +1,5 @@
 export * from './global';
 export * from './getters';
+export * from './asset-registry';
+export * from './token-list';
+export * from './contract-overrides';
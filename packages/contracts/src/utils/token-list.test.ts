@@ -0,0 +1,171 @@
+import { utils } from 'ethers';
+
+import { ChainIds } from '@sovryn/ethers-provider';
+
+import { TokenList } from '../types';
+import tokenList from './_fixtures/token-list.json';
+import { removeCustomAsset, setListedAssets } from './asset-registry';
+import { findContract, getAssetData, getAssetDataByAddress } from './global';
+import {
+  importCustomToken,
+  loadTokenList,
+  parseTokenList,
+  validateToken,
+} from './token-list';
+
+const list = tokenList as TokenList;
+const NEWT = list.tokens[0];
+const CUSTOM = {
+  chainId: 60808,
+  address: '0x176D3b2E904cd5e697f931A8611e8ecd9983200E',
+  name: 'Custom Token',
+  symbol: 'CUST',
+  decimals: 6,
+};
+
+describe('utils/token-list.ts', () => {
+  afterEach(() => {
+    setListedAssets(ChainIds.BOB_MAINNET, []);
+    removeCustomAsset(ChainIds.BOB_MAINNET, CUSTOM.address);
+  });
+
+  describe('validateToken', () => {
+    it('accepts checksummed token', () => {
+      expect(validateToken(NEWT)).toBeUndefined();
+    });
+
+    it('rejects invalid tokens', () => {
+      expect(validateToken({ ...NEWT, address: '0x1234' })).toBe(
+        'invalid address',
+      );
+      expect(validateToken({ ...NEWT, decimals: 1.5 })).toBe(
+        'invalid decimals',
+      );
+      expect(validateToken({ ...NEWT, symbol: '' })).toBe('invalid symbol');
+      expect(validateToken({ ...NEWT, chainId: 0 })).toBe('invalid chainId');
+    });
+  });
+
+  describe('parseTokenList', () => {
+    it('returns valid tokens of the chain and reasons for invalid ones', () => {
+      const result = parseTokenList(list, ChainIds.BOB_MAINNET);
+
+      expect(result.assets.map(item => item.symbol)).toEqual(['NEWT', 'SOV']);
+      expect(result.assets[0].address).toBe(NEWT.address.toLowerCase());
+      expect(
+        result.invalid.map(({ token, reason }) => [token.symbol, reason]),
+      ).toEqual([
+        ['BADC', 'invalid address'],
+        ['LOWER', 'address is not checksummed'],
+        ['BADD', 'invalid decimals'],
+      ]);
+    });
+
+    it('ignores tokens of other chains', () => {
+      const result = parseTokenList(list, ChainIds.RSK_MAINNET);
+      expect(result.assets.map(item => item.symbol)).toEqual(['RTOK']);
+    });
+  });
+
+  describe('loadTokenList', () => {
+    it('merges tokens with built-in assets', async () => {
+      await loadTokenList(list, ChainIds.BOB_MAINNET);
+
+      const asset = await getAssetData('NEWT', ChainIds.BOB_MAINNET);
+      expect(asset.address).toBe(NEWT.address.toLowerCase());
+      expect(asset.decimals).toBe(18);
+      expect(asset.icon).toBe(
+        '<img src="https://example.com/newt.png" alt="" width="20" height="20" />',
+      );
+
+      const contract = await findContract(NEWT.address, ChainIds.BOB_MAINNET);
+      expect(contract.group).toBe('assets');
+      expect(contract.name).toBe('NEWT');
+    });
+
+    it('keeps built-in asset when listed token has the same symbol', async () => {
+      await loadTokenList(list, ChainIds.BOB_MAINNET);
+
+      const asset = await getAssetData('SOV', ChainIds.BOB_MAINNET);
+      expect(asset.address).toBe(
+        '0xba20a5e63eeEFfFA6fD365E7e540628F8fC61474'.toLowerCase(),
+      );
+    });
+
+    it('loads token list from url', async () => {
+      const fetchJson = jest
+        .spyOn(utils, 'fetchJson')
+        .mockResolvedValue(tokenList);
+
+      const result = await loadTokenList(
+        'https://tokens.example.com/list.json',
+        ChainIds.BOB_MAINNET,
+      );
+
+      expect(fetchJson).toHaveBeenCalledWith(
+        'https://tokens.example.com/list.json',
+      );
+      expect(result.assets).toHaveLength(2);
+
+      fetchJson.mockRestore();
+    });
+
+    it('throws if url does not return token list', async () => {
+      const fetchJson = jest
+        .spyOn(utils, 'fetchJson')
+        .mockResolvedValue({ name: 'not a list' });
+
+      await expect(
+        loadTokenList(
+          'https://tokens.example.com/bad.json',
+          ChainIds.BOB_MAINNET,
+        ),
+      ).rejects.toThrow(
+        'fetchTokenList: Invalid token list: https://tokens.example.com/bad.json',
+      );
+
+      fetchJson.mockRestore();
+    });
+
+    it('replaces previously loaded tokens of the chain', async () => {
+      await loadTokenList(list, ChainIds.BOB_MAINNET);
+      await loadTokenList({ ...list, tokens: [] }, ChainIds.BOB_MAINNET);
+
+      await expect(getAssetData('NEWT', ChainIds.BOB_MAINNET)).rejects.toThrow(
+        'getAssetDetails: Unsupported asset: NEWT',
+      );
+    });
+  });
+
+  describe('importCustomToken', () => {
+    it('exposes imported token via getAssetData', async () => {
+      importCustomToken(CUSTOM);
+
+      const asset = await getAssetDataByAddress(
+        CUSTOM.address,
+        ChainIds.BOB_MAINNET,
+      );
+      expect(asset.symbol).toBe('CUST');
+      expect(asset.decimals).toBe(6);
+      expect((await getAssetData('CUST', ChainIds.BOB_MAINNET)).address).toBe(
+        CUSTOM.address.toLowerCase(),
+      );
+    });
+
+    it('removes imported token', async () => {
+      importCustomToken(CUSTOM);
+      await getAssetData('CUST', ChainIds.BOB_MAINNET);
+      removeCustomAsset(ChainIds.BOB_MAINNET, CUSTOM.address);
+
+      await expect(getAssetData('CUST', ChainIds.BOB_MAINNET)).rejects.toThrow(
+        'getAssetDetails: Unsupported asset: CUST',
+      );
+    });
+
+    it('throws for invalid token', () => {
+      expect(() => importCustomToken({ ...CUSTOM, decimals: -1 })).toThrow(
+        `importCustomToken: Invalid token ${CUSTOM.address}: invalid decimals`,
+      );
+    });
+  });
+});
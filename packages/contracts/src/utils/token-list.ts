@@ -0,0 +1,135 @@
+import { utils } from 'ethers';
+
+import { ChainId, numberToChainId } from '@sovryn/ethers-provider';
+
+import { AssetDetails, TokenList, TokenListToken } from '../types';
+import { addCustomAsset, setListedAssets } from './asset-registry';
+
+export type TokenListResult = {
+  assets: AssetDetails[];
+  invalid: Array<{ token: TokenListToken; reason: string }>;
+};
+
+const IPFS_GATEWAY = 'https://ipfs.io/ipfs/';
+
+const escapeAttribute = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+// Icons are rendered as html, so logo of the token is wrapped in img tag.
+const getTokenIcon = async (logoURI?: string): Promise<string> => {
+  const url = logoURI?.startsWith('ipfs://')
+    ? `${IPFS_GATEWAY}${logoURI.slice('ipfs://'.length)}`
+    : logoURI;
+
+  if (!url || !url.startsWith('https://')) {
+    return (await import('../contracts/assets/icons/unknown')).default;
+  }
+
+  return `<img src="${escapeAttribute(url)}" alt="" width="20" height="20" />`;
+};
+
+// Returns reason why token can't be added to the registry, or undefined if it's valid.
+export const validateToken = (token: TokenListToken): string | undefined => {
+  if (!Number.isInteger(token.chainId) || token.chainId <= 0) {
+    return 'invalid chainId';
+  }
+
+  try {
+    if (utils.getAddress(token.address) !== token.address) {
+      return 'address is not checksummed';
+    }
+  } catch (error) {
+    return 'invalid address';
+  }
+
+  if (
+    !Number.isInteger(token.decimals) ||
+    token.decimals < 0 ||
+    token.decimals > 255
+  ) {
+    return 'invalid decimals';
+  }
+
+  if (!token.symbol || token.symbol.length > 20) {
+    return 'invalid symbol';
+  }
+
+  if (!token.name || token.name.length > 40) {
+    return 'invalid name';
+  }
+
+  return undefined;
+};
+
+export const toAssetDetails = (token: TokenListToken): AssetDetails => ({
+  symbol: token.symbol,
+  address: token.address.toLowerCase(),
+  name: token.name,
+  decimals: token.decimals,
+  getIcon: () => getTokenIcon(token.logoURI),
+});
+
+// Valid tokens of the chain from the list, other chains are ignored.
+export const parseTokenList = (
+  list: TokenList,
+  chainId: ChainId,
+): TokenListResult =>
+  list.tokens
+    .filter(token => numberToChainId(token.chainId) === chainId.toLowerCase())
+    .reduce(
+      (result, token) => {
+        const reason = validateToken(token);
+        if (reason) {
+          result.invalid.push({ token, reason });
+        } else if (
+          !result.assets.some(
+            item => item.address === token.address.toLowerCase(),
+          )
+        ) {
+          result.assets.push(toAssetDetails(token));
+        }
+        return result;
+      },
+      { assets: [], invalid: [] } as TokenListResult,
+    );
+
+export const fetchTokenList = async (url: string): Promise<TokenList> => {
+  const list = await utils.fetchJson(url);
+
+  if (!list || !Array.isArray(list.tokens)) {
+    throw new Error(`fetchTokenList: Invalid token list: ${url}`);
+  }
+
+  return list;
+};
+
+// Loads token list from url or bundled json and merges its tokens of the chain with built-in assets.
+// Assets of previously loaded list of the chain are replaced.
+export const loadTokenList = async (
+  source: string | TokenList,
+  chainId: ChainId,
+): Promise<TokenListResult> => {
+  const list =
+    typeof source === 'string' ? await fetchTokenList(source) : source;
+  const result = parseTokenList(list, chainId);
+
+  setListedAssets(chainId, result.assets);
+
+  return result;
+};
+
+// Adds token imported by the user, so it can be used with getAssetData.
+export const importCustomToken = (token: TokenListToken): AssetDetails => {
+  const reason = validateToken(token);
+
+  if (reason) {
+    throw new Error(
+      `importCustomToken: Invalid token ${token.address}: ${reason}`,
+    );
+  }
+
+  const asset = toAssetDetails(token);
+  addCustomAsset(numberToChainId(token.chainId), asset);
+
+  return asset;
+};
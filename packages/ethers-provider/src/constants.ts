@@ -2,4 +2,5 @@ import type { AppState } from './types';
 
 export const APP_INITIAL_STATE: AppState = {
   chains: [],
+  health: {},
 };
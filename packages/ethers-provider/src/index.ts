@@ -1,7 +1,11 @@
-import { getProvider } from './provider';
+import {
+  getProvider,
+  getSubscriptionProvider,
+  observeProvider,
+} from './provider';
 import { state } from './store';
 import { addChains, updateChain } from './store/actions';
-import { Chain } from './types';
+import { Chain, ChainId } from './types';
 
 export * from './chains';
 export * from './types';
@@ -9,10 +13,14 @@ export * from './utils';
 
 const API = {
   getProvider,
+  getSubscriptionProvider,
   addChains,
   updateChain,
   chains: () => state.get().chains,
   observe: state.select('chains'),
+  health: (chainId: ChainId) => state.get().health[chainId.toLowerCase()],
+  observeHealth: state.select('health'),
+  observeProvider,
 };
 
 export type SovrynEthersProvider = typeof API;
@@ -23,4 +31,8 @@ function init(initialChains: Chain[]): SovrynEthersProvider {
 }
 
 export default init;
-export { getProvider };
+export { getProvider, getSubscriptionProvider, observeProvider };
+export { BatchJsonRpcProvider } from './lib/batch-provider';
+export { FallbackProvider } from './lib/fallback-provider';
+export type { FallbackProviderOptions } from './lib/fallback-provider';
+export { SubscriptionProvider } from './lib/subscription-provider';
@@ -0,0 +1,202 @@
+import { providers, utils } from 'ethers';
+
+import { BatchJsonRpcProvider } from './batch-provider';
+
+const network = { name: 'rsk', chainId: 30 };
+const multicall = '0x6c62bf5440de2cb157205b15c424bceb5c3368f5';
+const tokenA = '0x0000000000000000000000000000000000000001';
+const tokenB = '0x0000000000000000000000000000000000000002';
+
+const MulticallInterface = new utils.Interface([
+  'function tryAggregate(bool requireSuccess, tuple(address target, bytes callData)[] calls) returns (tuple(bool success, bytes returnData)[] returnData)',
+]);
+
+const encodeResults = (results: [boolean, string][]) =>
+  MulticallInterface.encodeFunctionResult('tryAggregate', [results]);
+
+describe('BatchJsonRpcProvider', () => {
+  let send: jest.SpyInstance;
+
+  beforeEach(() => {
+    send = jest.spyOn(providers.JsonRpcProvider.prototype, 'send');
+  });
+
+  afterEach(() => {
+    send.mockRestore();
+  });
+
+  it('should send requests directly when batching is disabled', async () => {
+    send.mockResolvedValue('0x01');
+    const provider = new BatchJsonRpcProvider('http://rpc', {}, network);
+
+    await Promise.all([
+      provider.send('eth_getBalance', [tokenA, 'latest']),
+      provider.send('eth_getBalance', [tokenA, 'latest']),
+    ]);
+
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('should deduplicate identical requests in flight', async () => {
+    send.mockResolvedValue('0x01');
+    const provider = new BatchJsonRpcProvider(
+      'http://rpc',
+      { dedupe: true },
+      network,
+    );
+
+    const results = await Promise.all([
+      provider.send('eth_getBalance', [tokenA, 'latest']),
+      provider.send('eth_getBalance', [tokenA, 'latest']),
+      provider.send('eth_getBalance', [tokenB, 'latest']),
+    ]);
+
+    expect(results).toEqual(['0x01', '0x01', '0x01']);
+    expect(send).toHaveBeenCalledTimes(2);
+
+    await provider.send('eth_getBalance', [tokenA, 'latest']);
+    expect(send).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not deduplicate transactions', async () => {
+    send.mockResolvedValue('0xhash');
+    const provider = new BatchJsonRpcProvider(
+      'http://rpc',
+      { dedupe: true },
+      network,
+    );
+
+    await Promise.all([
+      provider.send('eth_sendRawTransaction', ['0x1234']),
+      provider.send('eth_sendRawTransaction', ['0x1234']),
+    ]);
+
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('should aggregate calls for the same block into multicall', async () => {
+    send.mockResolvedValue(
+      encodeResults([
+        [true, '0xaa'],
+        [true, '0xbb'],
+      ]),
+    );
+    const provider = new BatchJsonRpcProvider(
+      'http://rpc',
+      { multicall },
+      network,
+    );
+
+    const results = await Promise.all([
+      provider.send('eth_call', [{ to: tokenA, data: '0x01' }, 'latest']),
+      provider.send('eth_call', [{ to: tokenB, data: '0x02' }, 'latest']),
+    ]);
+
+    expect(results).toEqual(['0xaa', '0xbb']);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send).toHaveBeenCalledWith('eth_call', [
+      expect.objectContaining({ to: multicall }),
+      'latest',
+    ]);
+  });
+
+  it('should repeat failed aggregated call alone', async () => {
+    const revert = Object.assign(new Error('execution reverted'), {
+      code: 3,
+    });
+    send
+      .mockResolvedValueOnce(
+        encodeResults([
+          [true, '0xaa'],
+          [false, '0x'],
+        ]),
+      )
+      .mockRejectedValueOnce(revert);
+
+    const provider = new BatchJsonRpcProvider(
+      'http://rpc',
+      { multicall },
+      network,
+    );
+
+    const results = await Promise.allSettled([
+      provider.send('eth_call', [{ to: tokenA, data: '0x01' }, 'latest']),
+      provider.send('eth_call', [{ to: tokenB, data: '0x02' }, 'latest']),
+    ]);
+
+    expect(results).toEqual([
+      { status: 'fulfilled', value: '0xaa' },
+      { status: 'rejected', reason: revert },
+    ]);
+    expect(send).toHaveBeenLastCalledWith('eth_call', [
+      { to: tokenB, data: '0x02' },
+      'latest',
+    ]);
+  });
+
+  it('should not aggregate calls with sender or of different blocks', async () => {
+    send.mockResolvedValue('0x01');
+    const provider = new BatchJsonRpcProvider(
+      'http://rpc',
+      { multicall },
+      network,
+    );
+
+    await Promise.all([
+      provider.send('eth_call', [
+        { from: tokenB, to: tokenA, data: '0x01' },
+        'latest',
+      ]),
+      provider.send('eth_call', [{ to: tokenA, data: '0x01' }, '0x10']),
+      provider.send('eth_call', [{ to: tokenA, data: '0x01' }, '0x11']),
+    ]);
+
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(send).not.toHaveBeenCalledWith('eth_call', [
+      expect.objectContaining({ to: multicall }),
+      expect.anything(),
+    ]);
+  });
+
+  it('should send requests as JSON-RPC batch', async () => {
+    const fetchJson = jest
+      .spyOn(utils, 'fetchJson')
+      .mockImplementation(async (_, json) =>
+        JSON.parse(json!)
+          .reverse()
+          .map((request: { id: number; method: string }) =>
+            request.method === 'eth_getCode'
+              ? {
+                  id: request.id,
+                  error: { code: -32000, message: 'not found' },
+                }
+              : { id: request.id, result: request.method },
+          ),
+      );
+
+    const provider = new BatchJsonRpcProvider(
+      'http://rpc',
+      { batch: true },
+      network,
+    );
+
+    const results = await Promise.allSettled([
+      provider.send('eth_gasPrice', []),
+      provider.send('eth_blockNumber', []),
+      provider.send('eth_getCode', [tokenA, 'latest']),
+    ]);
+
+    expect(fetchJson).toHaveBeenCalledTimes(1);
+    expect(send).not.toHaveBeenCalled();
+    expect(results).toEqual([
+      { status: 'fulfilled', value: 'eth_gasPrice' },
+      { status: 'fulfilled', value: 'eth_blockNumber' },
+      {
+        status: 'rejected',
+        reason: expect.objectContaining({ code: -32000, message: 'not found' }),
+      },
+    ]);
+
+    fetchJson.mockRestore();
+  });
+});
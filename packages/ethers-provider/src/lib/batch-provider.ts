@@ -0,0 +1,274 @@
+import { providers, utils } from 'ethers';
+import type { ConnectionInfo } from 'ethers/lib/utils';
+
+import type { BatchingOptions } from '../types';
+
+type JsonRpcRequest = {
+  method: string;
+  params: Array<any>;
+  id: number;
+  jsonrpc: '2.0';
+};
+
+type InflightRequest<T> = {
+  request: T;
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+};
+
+type CallRequest = { to: string; data: string };
+
+export const DEFAULT_BATCHING_OPTIONS: Required<
+  Omit<BatchingOptions, 'multicall'>
+> = {
+  batch: false,
+  batchSize: 50,
+  dedupe: false,
+  multicallSize: 50,
+  wait: 10,
+};
+
+// Methods without side effects, so concurrent identical requests can share the response.
+const DEDUPE_METHODS = [
+  'eth_blockNumber',
+  'eth_call',
+  'eth_chainId',
+  'eth_estimateGas',
+  'eth_gasPrice',
+  'eth_getBalance',
+  'eth_getBlockByHash',
+  'eth_getBlockByNumber',
+  'eth_getCode',
+  'eth_getLogs',
+  'eth_getStorageAt',
+  'eth_getTransactionByHash',
+  'eth_getTransactionCount',
+  'eth_getTransactionReceipt',
+  'net_version',
+];
+
+const MulticallInterface = new utils.Interface([
+  'function tryAggregate(bool requireSuccess, tuple(address target, bytes callData)[] calls) returns (tuple(bool success, bytes returnData)[] returnData)',
+]);
+
+// Calls with sender, value or gas limit depend on the caller, so they can't be made by the multicall contract.
+const canAggregate = (transaction: Record<string, any>) =>
+  Object.keys(transaction).every(key => key === 'to' || key === 'data') &&
+  !!transaction.to &&
+  !!transaction.data;
+
+const toRpcError = (payload: {
+  message: string;
+  code: number;
+  data?: any;
+}): Error =>
+  Object.assign(new Error(payload.message), {
+    code: payload.code,
+    data: payload.data,
+  });
+
+// JsonRpcProvider which can batch, deduplicate and aggregate requests depending on the options.
+export class BatchJsonRpcProvider extends providers.StaticJsonRpcProvider {
+  readonly batching: Required<Omit<BatchingOptions, 'multicall'>> &
+    Pick<BatchingOptions, 'multicall'>;
+
+  private inflight = new Map<string, Promise<any>>();
+  private pendingBatch: InflightRequest<JsonRpcRequest>[] = [];
+  private pendingBatchTimer?: ReturnType<typeof setTimeout>;
+  private pendingCalls: Record<string, InflightRequest<CallRequest>[]> = {};
+  private pendingCallsTimer?: ReturnType<typeof setTimeout>;
+
+  constructor(
+    url: string | ConnectionInfo,
+    options: BatchingOptions = {},
+    network?: providers.Networkish,
+  ) {
+    super(url, network);
+    this.batching = { ...DEFAULT_BATCHING_OPTIONS, ...options };
+  }
+
+  send(method: string, params: Array<any>): Promise<any> {
+    if (!this.batching.dedupe || !DEDUPE_METHODS.includes(method)) {
+      return this.sendAggregated(method, params);
+    }
+
+    const key = `${method}:${JSON.stringify(params)}`;
+    const inflight = this.inflight.get(key);
+    if (inflight) {
+      return inflight;
+    }
+
+    const promise = this.sendAggregated(method, params).finally(() =>
+      this.inflight.delete(key),
+    );
+    this.inflight.set(key, promise);
+    return promise;
+  }
+
+  private sendAggregated(method: string, params: Array<any>): Promise<any> {
+    if (
+      method === 'eth_call' &&
+      this.batching.multicall &&
+      canAggregate(params[0])
+    ) {
+      return this.queueCall(params[0], params[1] ?? 'latest');
+    }
+    return this.sendBatched(method, params);
+  }
+
+  private sendBatched(method: string, params: Array<any>): Promise<any> {
+    if (!this.batching.batch) {
+      return super.send(method, params);
+    }
+
+    return new Promise((resolve, reject) => {
+      this.pendingBatch.push({
+        request: { method, params, id: this._nextId++, jsonrpc: '2.0' },
+        resolve,
+        reject,
+      });
+
+      if (this.pendingBatch.length >= this.batching.batchSize) {
+        this.flushBatch();
+      } else if (!this.pendingBatchTimer) {
+        this.pendingBatchTimer = setTimeout(
+          () => this.flushBatch(),
+          this.batching.wait,
+        );
+      }
+    });
+  }
+
+  private flushBatch() {
+    const batch = this.pendingBatch;
+    this.pendingBatch = [];
+    clearTimeout(this.pendingBatchTimer);
+    this.pendingBatchTimer = undefined;
+
+    if (batch.length === 1) {
+      const [{ request, resolve, reject }] = batch;
+      super.send(request.method, request.params).then(resolve, reject);
+      return;
+    }
+
+    const request = batch.map(inflight => inflight.request);
+
+    this.emit('debug', {
+      action: 'requestBatch',
+      request: utils.deepCopy(request),
+      provider: this,
+    });
+
+    utils.fetchJson(this.connection, JSON.stringify(request)).then(
+      result => {
+        this.emit('debug', {
+          action: 'response',
+          request,
+          response: result,
+          provider: this,
+        });
+
+        batch.forEach(inflight => {
+          const payload = Array.isArray(result)
+            ? result.find(item => item.id === inflight.request.id)
+            : undefined;
+
+          if (!payload) {
+            inflight.reject(
+              new Error(`missing response for ${inflight.request.method}`),
+            );
+          } else if (payload.error) {
+            inflight.reject(toRpcError(payload.error));
+          } else {
+            inflight.resolve(payload.result);
+          }
+        });
+      },
+      error => {
+        this.emit('debug', {
+          action: 'response',
+          error,
+          request,
+          provider: this,
+        });
+
+        batch.forEach(inflight => inflight.reject(error));
+      },
+    );
+  }
+
+  private queueCall(transaction: CallRequest, blockTag: string): Promise<any> {
+    return new Promise((resolve, reject) => {
+      const calls = (this.pendingCalls[blockTag] =
+        this.pendingCalls[blockTag] ?? []);
+      calls.push({ request: transaction, resolve, reject });
+
+      if (calls.length >= this.batching.multicallSize) {
+        delete this.pendingCalls[blockTag];
+        this.aggregate(calls, blockTag);
+      } else if (!this.pendingCallsTimer) {
+        this.pendingCallsTimer = setTimeout(
+          () => this.flushCalls(),
+          this.batching.wait,
+        );
+      }
+    });
+  }
+
+  private flushCalls() {
+    const pending = this.pendingCalls;
+    this.pendingCalls = {};
+    clearTimeout(this.pendingCallsTimer);
+    this.pendingCallsTimer = undefined;
+
+    Object.keys(pending).forEach(blockTag =>
+      this.aggregate(pending[blockTag], blockTag),
+    );
+  }
+
+  private async aggregate(
+    calls: InflightRequest<CallRequest>[],
+    blockTag: string,
+  ) {
+    const sendSingle = ({ request, resolve, reject }: typeof calls[0]) =>
+      this.sendBatched('eth_call', [request, blockTag]).then(resolve, reject);
+
+    if (calls.length === 1) {
+      return sendSingle(calls[0]);
+    }
+
+    try {
+      const data = await this.sendBatched('eth_call', [
+        {
+          to: this.batching.multicall,
+          data: MulticallInterface.encodeFunctionData('tryAggregate', [
+            false,
+            calls.map(({ request }) => ({
+              target: request.to,
+              callData: request.data,
+            })),
+          ]),
+        },
+        blockTag,
+      ]);
+
+      const [results] = MulticallInterface.decodeFunctionResult(
+        'tryAggregate',
+        data,
+      );
+
+      calls.forEach((call, index) => {
+        const { success, returnData } = results[index];
+        if (success) {
+          call.resolve(returnData);
+        } else {
+          // repeat failed call alone, so caller gets the original revert error
+          sendSingle(call);
+        }
+      });
+    } catch (error) {
+      // multicall itself failed (e.g. out of gas), fall back to separate calls
+      calls.forEach(sendSingle);
+    }
+  }
+}
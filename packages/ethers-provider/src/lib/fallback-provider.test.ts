@@ -0,0 +1,127 @@
+import { providers } from 'ethers';
+
+import { FallbackProvider } from './fallback-provider';
+
+const network = { name: 'rsk', chainId: 30 };
+
+class MockProvider extends providers.BaseProvider {
+  calls = 0;
+
+  constructor(
+    readonly url: string,
+    readonly result: (method: string) => Promise<any>,
+  ) {
+    super(network);
+  }
+
+  get connection() {
+    return { url: this.url };
+  }
+
+  async detectNetwork() {
+    return network;
+  }
+
+  perform(method: string) {
+    this.calls++;
+    return this.result(method);
+  }
+}
+
+const responding = (url: string, blockNumber = 100) =>
+  new MockProvider(url, async method =>
+    method === 'getBlockNumber' ? blockNumber : '0x01',
+  );
+
+const failing = (url: string) =>
+  new MockProvider(url, async () => {
+    throw Object.assign(new Error('bad gateway'), { code: 'SERVER_ERROR' });
+  });
+
+const call = (provider: FallbackProvider) =>
+  provider.call({ to: '0x0000000000000000000000000000000000000001' });
+
+describe('FallbackProvider', () => {
+  it('should record health of providers', async () => {
+    const onHealthChange = jest.fn();
+    const provider = new FallbackProvider(
+      [responding('https://a.rpc'), responding('https://b.rpc')],
+      1,
+      { onHealthChange },
+    );
+
+    await expect(call(provider)).resolves.toBe('0x01');
+    expect(onHealthChange).toHaveBeenCalledWith([
+      expect.objectContaining({ url: 'https://a.rpc', status: 'healthy' }),
+      expect.objectContaining({ url: 'https://b.rpc', status: 'healthy' }),
+    ]);
+  });
+
+  it('should stop asking quarantined provider first', async () => {
+    const bad = failing('https://bad.rpc');
+    const good = responding('https://good.rpc');
+    const provider = new FallbackProvider(
+      [
+        { provider: bad, priority: 1 },
+        { provider: good, priority: 1 },
+      ],
+      1,
+      { health: { minSamples: 1, maxErrorRate: 0 } },
+    );
+
+    provider.health.recordError(0);
+    expect(provider.health.isQuarantined(0)).toBe(true);
+
+    await call(provider);
+    await call(provider);
+    await call(provider);
+
+    expect(bad.calls).toBe(0);
+    expect(good.calls).toBeGreaterThanOrEqual(3);
+  });
+
+  it('should fall back to quarantined provider when no other responds', async () => {
+    const bad = failing('https://bad.rpc');
+    const quarantined = responding('https://slow.rpc');
+    const provider = new FallbackProvider([bad, quarantined], 1, {
+      health: { minSamples: 1, maxErrorRate: 0 },
+    });
+
+    provider.health.recordError(1);
+
+    await expect(call(provider)).resolves.toBe('0x01');
+  });
+
+  it('should use separate quorum for reads and writes', async () => {
+    const sendTransaction = jest.fn();
+    const a = responding('https://a.rpc');
+    const b = failing('https://b.rpc');
+    a.sendTransaction = sendTransaction.mockResolvedValue({ hash: '0xaa' });
+    b.sendTransaction = jest
+      .fn()
+      .mockRejectedValue(
+        Object.assign(new Error('bad gateway'), { code: 'SERVER_ERROR' }),
+      );
+
+    const provider = new FallbackProvider([a, b], { read: 1, write: 2 });
+    expect(provider.quorums).toEqual({ read: 1, write: 2 });
+
+    await expect(call(provider)).resolves.toBe('0x01');
+    await expect(provider.perform('sendTransaction', {})).rejects.toThrow(
+      'bad gateway',
+    );
+
+    const single = new FallbackProvider([a, b], { read: 1 });
+    await expect(single.perform('sendTransaction', {})).resolves.toBe('0xaa');
+  });
+
+  it('should reject quorum larger than total weight', () => {
+    expect(
+      () =>
+        new FallbackProvider([responding('https://a.rpc')], {
+          read: 1,
+          write: 2,
+        }),
+    ).toThrow('quorum will always fail');
+  });
+});
@@ -22,6 +22,13 @@ import { poll } from '@ethersproject/web';
 
 import { Logger } from '@ethersproject/logger';
 
+import type {
+  MethodClass,
+  ProviderHealth,
+  ProviderHealthOptions,
+} from '../types';
+import { ProviderHealthTracker } from './provider-health';
+
 const logger = new Logger(version);
 
 function now() {
@@ -138,6 +145,25 @@ export interface FallbackProviderConfig {
   weight?: number;
 }
 
+export interface FallbackProviderOptions {
+  // Options of endpoint health tracking used to rank the providers
+  health?: ProviderHealthOptions;
+
+  // Called with the health of all providers after it changes
+  onHealthChange?: (health: Array<ProviderHealth>) => void;
+}
+
+// Health snapshots are reported at most this often unless the status of an endpoint changes
+const HEALTH_REPORT_INTERVAL = 5000;
+
+function getProviderUrl(provider: Provider, index: number): string {
+  return provider.connection?.url ?? `provider-${index}`;
+}
+
+function getMethodClass(method: string): MethodClass {
+  return method === 'sendTransaction' ? 'write' : 'read';
+}
+
 // A Staller is used to provide a delay to give a Provider a chance to response
 // before asking the next Provider to try.
 type Staller = {
@@ -193,6 +219,7 @@ const ForwardProperties = [
 
 // @TODO: Make this an object with staller and cancel built-in
 interface RunningConfig extends FallbackProviderConfig {
+  index?: number;
   start?: number;
   done?: boolean;
   cancelled?: boolean;
@@ -255,6 +282,7 @@ function getProcessFunc(
   provider: FallbackProvider,
   method: string,
   params: { [key: string]: any },
+  quorum: number,
 ): (configs: Array<RunningConfig>) => any {
   let normalize = serialize;
 
@@ -365,7 +393,7 @@ function getProcessFunc(
 
   // Return the result if and only if the expected quorum is
   // satisfied and agreed upon for the final result.
-  return normalizedTally(normalize, provider.quorum);
+  return normalizedTally(normalize, quorum);
 }
 
 // If we are doing a blockTag query, we need to make sure the backend is
@@ -483,6 +511,12 @@ async function getRunner(
 export class FallbackProvider extends BaseProvider {
   readonly providerConfigs: ReadonlyArray<FallbackProviderConfig>;
   readonly quorum: number;
+  readonly quorums: Readonly<Record<MethodClass, number>>;
+  readonly health: ProviderHealthTracker;
+  readonly onHealthChange?: (health: Array<ProviderHealth>) => void;
+
+  _lastHealthReport: number;
+  _lastHealthStatus: string;
 
   // Due to the highly asyncronous nature of the blockchain, we need
   // to make sure we never unroll the blockNumber due to our random
@@ -491,7 +525,8 @@ export class FallbackProvider extends BaseProvider {
 
   constructor(
     providers: Array<Provider | FallbackProviderConfig>,
-    quorum?: number,
+    quorum?: number | Partial<Record<MethodClass, number>>,
+    options: FallbackProviderOptions = {},
   ) {
     if (providers.length === 0) {
       logger.throwArgumentError('missing providers', 'providers', providers);
@@ -541,16 +576,25 @@ export class FallbackProvider extends BaseProvider {
 
     const total = providerConfigs.reduce((accum, c) => accum + c.weight, 0);
 
-    if (quorum == null) {
-      quorum = total / 2;
-    } else if (quorum > total) {
-      logger.throwArgumentError(
-        'quorum will always fail; larger than total weight',
-        'quorum',
-        quorum,
-      );
+    const quorums: Record<MethodClass, number> =
+      typeof quorum === 'object'
+        ? { read: quorum.read, write: quorum.write ?? 1 }
+        : { read: quorum, write: 1 };
+
+    if (quorums.read == null) {
+      quorums.read = total / 2;
     }
 
+    Object.keys(quorums).forEach((methodClass: MethodClass) => {
+      if (quorums[methodClass] > total) {
+        logger.throwArgumentError(
+          'quorum will always fail; larger than total weight',
+          'quorum',
+          quorum,
+        );
+      }
+    });
+
     // Are all providers' networks are known
     let networkOrReady: Network | Promise<Network> = checkNetworks(
       providerConfigs.map(c => c.provider.network),
@@ -569,9 +613,44 @@ export class FallbackProvider extends BaseProvider {
 
     // Preserve a copy, so we do not get mutated
     defineReadOnly(this, 'providerConfigs', Object.freeze(providerConfigs));
-    defineReadOnly(this, 'quorum', quorum);
+    defineReadOnly(this, 'quorum', quorums.read);
+    defineReadOnly(this, 'quorums', Object.freeze(quorums));
+    defineReadOnly(
+      this,
+      'health',
+      new ProviderHealthTracker(
+        providerConfigs.map((c, index) => getProviderUrl(c.provider, index)),
+        options.health,
+      ),
+    );
+    defineReadOnly(this, 'onHealthChange', options.onHealthChange);
 
     this._highestBlockNumber = -1;
+    this._lastHealthReport = 0;
+    this._lastHealthStatus = '';
+  }
+
+  // Reports health when any endpoint changed its status or the active one, and periodically for the stats
+  _reportHealth(): void {
+    if (!this.onHealthChange) {
+      return;
+    }
+
+    const health = this.health.snapshot();
+    const status = health
+      .map(item => `${item.status}:${item.active}`)
+      .join(',');
+
+    if (
+      status === this._lastHealthStatus &&
+      now() - this._lastHealthReport < HEALTH_REPORT_INTERVAL
+    ) {
+      return;
+    }
+
+    this._lastHealthStatus = status;
+    this._lastHealthReport = now();
+    this.onHealthChange(health);
   }
 
   async detectNetwork(): Promise<Network> {
@@ -586,6 +665,8 @@ export class FallbackProvider extends BaseProvider {
           // Make failing provider less likely to be chosen again
           this.providerConfigs[index].priority = 512;
           this.providerConfigs[index].weight = 0;
+          this.health.recordError(index);
+          this._reportHealth();
           return null;
         }
       }),
@@ -597,28 +678,43 @@ export class FallbackProvider extends BaseProvider {
     // Sending transactions is special; always broadcast it to all backends
     if (method === 'sendTransaction') {
       const results: Array<string | Error> = await Promise.all(
-        this.providerConfigs.map(c => {
+        this.providerConfigs.map((c, index) => {
+          const start = now();
           return c.provider.sendTransaction(params.signedTransaction).then(
             result => {
+              this.health.recordSuccess(index, now() - start);
               return result.hash;
             },
             error => {
+              // rejected transactions are not a sign of unhealthy node
+              if (ForwardErrors.indexOf(error.code) < 0) {
+                this.health.recordError(index, now() - start);
+              }
               return error;
             },
           );
         }),
       );
 
-      // Any success is good enough (other errors are likely "already seen" errors
+      this._reportHealth();
+
+      // Successes with enough weight are good enough (other errors are likely "already seen" errors
+      let weight = 0;
+      let hash: string = null;
       for (let i = 0; i < results.length; i++) {
         const result = results[i];
         if (typeof result === 'string') {
-          return result;
+          weight += this.providerConfigs[i].weight;
+          hash = hash ?? result;
         }
       }
 
+      if (hash !== null && weight >= this.quorums.write) {
+        return hash;
+      }
+
       // They were all an error; pick the first error
-      throw results[0];
+      throw results.find(result => typeof result !== 'string') ?? results[0];
     }
 
     // We need to make sure we are in sync with our backends, so we need
@@ -627,14 +723,22 @@ export class FallbackProvider extends BaseProvider {
       await this.getBlockNumber();
     }
 
-    const processFunc = getProcessFunc(this, method, params);
+    const quorum = this.quorums[getMethodClass(method)];
+    const processFunc = getProcessFunc(this, method, params, quorum);
 
-    // Shuffle the providers and then sort them by their priority; we
-    // shallowCopy them since we will store the result in them too
+    // Shuffle the providers and then sort them by their priority and health;
+    // we shallowCopy them since we will store the result in them too
     const configs: Array<RunningConfig> = shuffled(
-      this.providerConfigs.map(shallowCopy),
+      this.providerConfigs.map((c, index) =>
+        Object.assign(shallowCopy(c), { index }),
+      ),
+    );
+    const ranks = this.health.rank(configs.map(c => c.index));
+    configs.sort(
+      (a, b) =>
+        a.priority - b.priority ||
+        ranks.indexOf(a.index) - ranks.indexOf(b.index),
     );
-    configs.sort((a, b) => a.priority - b.priority);
 
     const currentBlockNumber = this._highestBlockNumber;
 
@@ -649,7 +753,7 @@ export class FallbackProvider extends BaseProvider {
         .reduce((accum, c) => accum + c.weight, 0);
 
       // Start running enough to meet quorum
-      while (inflightWeight < this.quorum && i < configs.length) {
+      while (inflightWeight < quorum && i < configs.length) {
         const config = configs[i++];
 
         const rid = nextRid++;
@@ -670,6 +774,11 @@ export class FallbackProvider extends BaseProvider {
             config.done = true;
             config.result = result;
 
+            this.health.recordSuccess(config.index, now() - config.start);
+            if (method === 'getBlockNumber') {
+              this.health.recordBlockNumber(config.index, result);
+            }
+
             if (this.listenerCount('debug')) {
               this.emit('debug', {
                 action: 'request',
@@ -684,6 +793,11 @@ export class FallbackProvider extends BaseProvider {
             config.done = true;
             config.error = error;
 
+            // reverts and rejected transactions are not a sign of unhealthy node
+            if (ForwardErrors.indexOf(error.code) < 0) {
+              this.health.recordError(config.index, now() - config.start);
+            }
+
             if (this.listenerCount('debug')) {
               this.emit('debug', {
                 action: 'request',
@@ -728,7 +842,7 @@ export class FallbackProvider extends BaseProvider {
       // Check the quorum and process the results; the process function
       // may additionally decide the quorum is not met
       const results = configs.filter(c => c.done && c.error == null);
-      if (results.length >= this.quorum) {
+      if (results.length >= quorum) {
         const result = processFunc(results);
         if (result !== undefined) {
           // Shut down any stallers
@@ -738,6 +852,7 @@ export class FallbackProvider extends BaseProvider {
             }
             c.cancelled = true;
           });
+          this._reportHealth();
           return result;
         }
         if (!first) {
@@ -765,7 +880,7 @@ export class FallbackProvider extends BaseProvider {
 
       Object.keys(errors).forEach((errorCode: string) => {
         const tally = errors[errorCode];
-        if (tally.weight < this.quorum) {
+        if (tally.weight < quorum) {
           return;
         }
 
@@ -804,6 +919,8 @@ export class FallbackProvider extends BaseProvider {
       c.cancelled = true;
     });
 
+    this._reportHealth();
+
     return logger.throwError(
       'failed to meet quorum',
       Logger.errors.SERVER_ERROR,
@@ -0,0 +1,103 @@
+import { ProviderHealthTracker } from './provider-health';
+
+describe('ProviderHealthTracker', () => {
+  let time: number;
+  let tracker: ProviderHealthTracker;
+
+  beforeEach(() => {
+    time = 1000;
+    tracker = new ProviderHealthTracker(
+      ['https://a.rpc', 'https://b.rpc', 'https://c.rpc'],
+      { minSamples: 3, maxBlockLag: 2, quarantineTime: 10_000 },
+      () => time,
+    );
+  });
+
+  it('should report new endpoints as healthy', () => {
+    expect(tracker.snapshot()).toEqual([
+      expect.objectContaining({
+        url: 'https://a.rpc',
+        status: 'healthy',
+        active: true,
+        score: 1,
+      }),
+      expect.objectContaining({ url: 'https://b.rpc', active: false }),
+      expect.objectContaining({ url: 'https://c.rpc', active: false }),
+    ]);
+  });
+
+  it('should calculate error rate and latency percentile', () => {
+    [100, 200, 300, 400, 500, 600, 700, 800, 900, 1000].forEach(latency =>
+      tracker.recordSuccess(0, latency),
+    );
+    tracker.recordError(0, 5000);
+    tracker.recordError(0, 5000);
+
+    expect(tracker.errorRate(0)).toBeCloseTo(2 / 12);
+    expect(tracker.latency(0)).toBe(900);
+    expect(tracker.status(0)).toBe('degraded');
+  });
+
+  it('should rank faster and more reliable endpoints first', () => {
+    tracker.recordSuccess(0, 800);
+    tracker.recordSuccess(1, 100);
+    tracker.recordSuccess(2, 100);
+    tracker.recordError(2);
+
+    expect(tracker.rank()).toEqual([1, 0, 2]);
+    expect(tracker.snapshot()[1].active).toBe(true);
+  });
+
+  it('should quarantine endpoint with too many errors', () => {
+    tracker.recordSuccess(0, 100);
+    tracker.recordError(0);
+    expect(tracker.isQuarantined(0)).toBe(false);
+
+    tracker.recordError(0);
+    expect(tracker.isQuarantined(0)).toBe(true);
+    expect(tracker.score(0)).toBe(0);
+    expect(tracker.rank()).toEqual([1, 2, 0]);
+    expect(tracker.snapshot()[0]).toEqual(
+      expect.objectContaining({
+        status: 'quarantined',
+        quarantinedUntil: 11_000,
+      }),
+    );
+  });
+
+  it('should quarantine endpoint lagging behind other endpoints', () => {
+    tracker.recordBlockNumber(0, 100);
+    tracker.recordBlockNumber(1, 98);
+    expect(tracker.blockLag(1)).toBe(2);
+    expect(tracker.isQuarantined(1)).toBe(false);
+
+    tracker.recordBlockNumber(2, 97);
+    expect(tracker.isQuarantined(2)).toBe(true);
+  });
+
+  it('should give endpoint a clean slate after quarantine', () => {
+    tracker.recordError(0);
+    tracker.recordError(0);
+    tracker.recordError(0);
+    expect(tracker.isQuarantined(0)).toBe(true);
+
+    time += 10_000;
+    expect(tracker.isQuarantined(0)).toBe(false);
+    expect(tracker.status(0)).toBe('degraded');
+
+    tracker.recordSuccess(0, 100);
+    expect(tracker.errorRate(0)).toBe(0);
+    expect(tracker.status(0)).toBe('healthy');
+  });
+
+  it('should keep only recent samples', () => {
+    const small = new ProviderHealthTracker(['https://a.rpc'], {
+      sampleSize: 2,
+    });
+    small.recordError(0);
+    small.recordSuccess(0, 100);
+    small.recordSuccess(0, 100);
+
+    expect(small.errorRate(0)).toBe(0);
+  });
+});
@@ -0,0 +1,183 @@
+import type {
+  ProviderHealth,
+  ProviderHealthOptions,
+  ProviderHealthStatus,
+} from '../types';
+
+type Sample = {
+  latency: number;
+  failed: boolean;
+};
+
+type EndpointState = {
+  samples: Sample[];
+  blockNumber?: number;
+  quarantinedUntil?: number;
+};
+
+export const DEFAULT_HEALTH_OPTIONS: Required<ProviderHealthOptions> = {
+  sampleSize: 20,
+  minSamples: 5,
+  maxErrorRate: 0.5,
+  maxBlockLag: 5,
+  latencyPercentile: 90,
+  quarantineTime: 30_000,
+};
+
+const percentile = (values: number[], p: number) => {
+  if (!values.length) {
+    return 0;
+  }
+  const sorted = values.slice().sort((a, b) => a - b);
+  const index = Math.min(
+    sorted.length - 1,
+    Math.ceil((p / 100) * sorted.length) - 1,
+  );
+  return sorted[Math.max(0, index)];
+};
+
+// Keeps rolling stats of every RPC endpoint of a FallbackProvider and decides which of them are worth asking first.
+export class ProviderHealthTracker {
+  readonly options: Required<ProviderHealthOptions>;
+  private readonly endpoints: EndpointState[];
+  private highestBlockNumber = -1;
+
+  constructor(
+    readonly urls: string[],
+    options: ProviderHealthOptions = {},
+    private readonly now: () => number = Date.now,
+  ) {
+    this.options = { ...DEFAULT_HEALTH_OPTIONS, ...options };
+    this.endpoints = urls.map(() => ({ samples: [] }));
+  }
+
+  recordSuccess(index: number, latency: number) {
+    this.addSample(index, { latency, failed: false });
+  }
+
+  recordError(index: number, latency = 0) {
+    this.addSample(index, { latency, failed: true });
+  }
+
+  recordBlockNumber(index: number, blockNumber: number) {
+    this.endpoints[index].blockNumber = blockNumber;
+    this.highestBlockNumber = Math.max(this.highestBlockNumber, blockNumber);
+
+    if (this.blockLag(index) > this.options.maxBlockLag) {
+      this.quarantine(index);
+    }
+  }
+
+  isQuarantined(index: number) {
+    const { quarantinedUntil } = this.endpoints[index];
+    return quarantinedUntil !== undefined && quarantinedUntil > this.now();
+  }
+
+  errorRate(index: number) {
+    const { samples } = this.endpoints[index];
+    if (!samples.length) {
+      return 0;
+    }
+    return samples.filter(sample => sample.failed).length / samples.length;
+  }
+
+  latency(index: number) {
+    return percentile(
+      this.endpoints[index].samples
+        .filter(sample => !sample.failed)
+        .map(sample => sample.latency),
+      this.options.latencyPercentile,
+    );
+  }
+
+  blockLag(index: number) {
+    const { blockNumber } = this.endpoints[index];
+    return blockNumber === undefined
+      ? 0
+      : Math.max(0, this.highestBlockNumber - blockNumber);
+  }
+
+  // 0 for unusable endpoints, 1 for error free endpoints which respond instantly and are synced.
+  score(index: number) {
+    if (this.isQuarantined(index)) {
+      return 0;
+    }
+
+    const reliability = 1 - this.errorRate(index);
+    const speed = 1000 / (1000 + this.latency(index));
+    const sync = Math.max(
+      0,
+      1 - this.blockLag(index) / (this.options.maxBlockLag + 1),
+    );
+
+    return reliability * speed * sync;
+  }
+
+  // Endpoint indexes ordered from the healthiest, quarantined endpoints go last.
+  rank(indexes: number[] = this.urls.map((_, index) => index)) {
+    const scores = indexes.map(index => this.score(index));
+    return indexes
+      .map((index, i) => ({ index, score: scores[i] }))
+      .sort((a, b) => b.score - a.score)
+      .map(({ index }) => index);
+  }
+
+  status(index: number): ProviderHealthStatus {
+    if (this.isQuarantined(index)) {
+      return 'quarantined';
+    }
+    if (
+      this.errorRate(index) > 0 ||
+      this.blockLag(index) > 0 ||
+      this.endpoints[index].quarantinedUntil !== undefined
+    ) {
+      return 'degraded';
+    }
+    return 'healthy';
+  }
+
+  snapshot(): ProviderHealth[] {
+    const active = this.rank()[0];
+    return this.urls.map((url, index) => ({
+      url,
+      status: this.status(index),
+      active: index === active,
+      score: this.score(index),
+      errorRate: this.errorRate(index),
+      latency: this.latency(index),
+      blockNumber: this.endpoints[index].blockNumber,
+      blockLag: this.blockLag(index),
+      quarantinedUntil: this.isQuarantined(index)
+        ? this.endpoints[index].quarantinedUntil
+        : undefined,
+    }));
+  }
+
+  private addSample(index: number, sample: Sample) {
+    const endpoint = this.endpoints[index];
+
+    // endpoint is given a clean slate once its quarantine is over
+    if (endpoint.quarantinedUntil !== undefined && !this.isQuarantined(index)) {
+      endpoint.samples = [];
+      endpoint.blockNumber = undefined;
+      endpoint.quarantinedUntil = undefined;
+    }
+
+    endpoint.samples.push(sample);
+    if (endpoint.samples.length > this.options.sampleSize) {
+      endpoint.samples.shift();
+    }
+
+    if (
+      endpoint.samples.length >= this.options.minSamples &&
+      this.errorRate(index) > this.options.maxErrorRate
+    ) {
+      this.quarantine(index);
+    }
+  }
+
+  private quarantine(index: number) {
+    this.endpoints[index].quarantinedUntil =
+      this.now() + this.options.quarantineTime;
+  }
+}
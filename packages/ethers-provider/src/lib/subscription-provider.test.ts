@@ -0,0 +1,190 @@
+import { providers } from 'ethers';
+
+import { SubscriptionProvider } from './subscription-provider';
+
+type Listener = (...args: Array<any>) => void;
+
+class FakeProvider {
+  listeners: Array<{ eventName: any; listener: Listener }> = [];
+
+  on(eventName: any, listener: Listener) {
+    this.listeners.push({ eventName, listener });
+    return this;
+  }
+
+  off(eventName: any, listener: Listener) {
+    this.listeners = this.listeners.filter(
+      item => item.eventName !== eventName || item.listener !== listener,
+    );
+    return this;
+  }
+
+  removeAllListeners() {
+    this.listeners = [];
+    return this;
+  }
+
+  emit(eventName: any, ...args: Array<any>) {
+    this.listeners
+      .filter(item => item.eventName === eventName)
+      .forEach(item => item.listener(...args));
+  }
+}
+
+class FakeWebSocketProvider extends FakeProvider {
+  _websocket: { onclose: any; onerror: any } = {
+    onclose: null,
+    onerror: null,
+  };
+  destroyed = false;
+  open!: () => void;
+  fail!: () => void;
+  ready = new Promise<void>((resolve, reject) => {
+    this.open = resolve;
+    this.fail = reject;
+  });
+
+  constructor(readonly url: string) {
+    super();
+  }
+
+  _ready() {
+    return this.ready;
+  }
+
+  close() {
+    this._websocket.onclose?.();
+  }
+
+  async destroy() {
+    this.destroyed = true;
+  }
+}
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('SubscriptionProvider', () => {
+  let polling: FakeProvider;
+  let sockets: FakeWebSocketProvider[];
+
+  const create = (wsUrl?: string) =>
+    new SubscriptionProvider(
+      wsUrl,
+      polling as unknown as providers.Provider,
+      { reconnectDelay: 100, maxReconnectDelay: 300 },
+      url => {
+        const socket = new FakeWebSocketProvider(url);
+        sockets.push(socket);
+        return socket as unknown as providers.WebSocketProvider;
+      },
+    );
+
+  beforeEach(() => {
+    jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+    polling = new FakeProvider();
+    sockets = [];
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should poll when chain has no websocket url', () => {
+    const provider = create();
+    const listener = jest.fn();
+    provider.on('block', listener);
+
+    polling.emit('block', 10);
+
+    expect(sockets).toHaveLength(0);
+    expect(provider.connected).toBe(false);
+    expect(listener).toHaveBeenCalledWith(10);
+  });
+
+  it('should move listeners to websocket once connected', async () => {
+    const provider = create('wss://rpc');
+    const listener = jest.fn();
+    provider.on('block', listener);
+    expect(polling.listeners).toHaveLength(1);
+
+    sockets[0].open();
+    await flush();
+
+    expect(provider.connected).toBe(true);
+    expect(polling.listeners).toHaveLength(0);
+    expect(sockets[0].listeners).toHaveLength(1);
+
+    sockets[0].emit('block', 11);
+    expect(listener).toHaveBeenCalledWith(11);
+  });
+
+  it('should fall back to polling and reconnect with backoff when socket drops', async () => {
+    const provider = create('wss://rpc');
+    const listener = jest.fn();
+    provider.on('block', listener);
+    sockets[0].open();
+    await flush();
+
+    sockets[0].close();
+    expect(provider.connected).toBe(false);
+    expect(sockets[0].destroyed).toBe(true);
+    expect(polling.listeners).toHaveLength(1);
+
+    jest.advanceTimersByTime(100);
+    expect(sockets).toHaveLength(2);
+
+    sockets[1].fail();
+    await flush();
+
+    jest.advanceTimersByTime(199);
+    expect(sockets).toHaveLength(2);
+    jest.advanceTimersByTime(1);
+    expect(sockets).toHaveLength(3);
+
+    sockets[2].open();
+    await flush();
+    expect(provider.connected).toBe(true);
+    expect(polling.listeners).toHaveLength(0);
+    expect(sockets[2].listeners).toHaveLength(1);
+  });
+
+  it('should cap reconnect delay', async () => {
+    create('wss://rpc');
+
+    for (let i = 0; i < 4; i++) {
+      sockets[i].fail();
+      await flush();
+      jest.advanceTimersByTime(300);
+    }
+
+    expect(sockets).toHaveLength(5);
+  });
+
+  it('should keep listeners when polling provider is replaced', () => {
+    const provider = create();
+    const listener = jest.fn();
+    provider.on('block', listener);
+
+    const replacement = new FakeProvider();
+    provider.setPollingProvider(replacement as unknown as providers.Provider);
+
+    expect(polling.listeners).toHaveLength(0);
+    replacement.emit('block', 12);
+    expect(listener).toHaveBeenCalledWith(12);
+  });
+
+  it('should remove listeners and stop reconnecting when destroyed', async () => {
+    const provider = create('wss://rpc');
+    provider.on('block', jest.fn());
+    provider.once('block', jest.fn());
+
+    provider.destroy();
+    sockets[0].fail();
+    await flush();
+    jest.advanceTimersByTime(1000);
+
+    expect(polling.listeners).toHaveLength(0);
+    expect(sockets).toHaveLength(1);
+    expect(sockets[0].destroyed).toBe(true);
+  });
+});
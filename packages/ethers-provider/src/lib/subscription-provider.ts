@@ -0,0 +1,200 @@
+import { providers } from 'ethers';
+
+import type { SubscriptionOptions } from '../types';
+
+type Listener = (...args: Array<any>) => void;
+
+type Subscription = {
+  eventName: providers.EventType;
+  listener: Listener;
+};
+
+export const DEFAULT_SUBSCRIPTION_OPTIONS: Required<SubscriptionOptions> = {
+  reconnectDelay: 1000,
+  maxReconnectDelay: 30_000,
+};
+
+// Provides real time events of the chain over WebSocket. While the socket is down, listeners are moved
+// to the polling provider and the socket is reconnected with exponential backoff.
+export class SubscriptionProvider {
+  readonly options: Required<SubscriptionOptions>;
+
+  private subscriptions: Subscription[] = [];
+  private websocket?: providers.WebSocketProvider;
+  private active: providers.Provider;
+  private attempt = 0;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+  private destroyed = false;
+
+  constructor(
+    private wsUrl: string | undefined,
+    private pollingProvider: providers.Provider,
+    options: SubscriptionOptions = {},
+    private readonly createWebSocket: (
+      url: string,
+    ) => providers.WebSocketProvider = url =>
+      new providers.WebSocketProvider(url),
+  ) {
+    this.options = { ...DEFAULT_SUBSCRIPTION_OPTIONS, ...options };
+    this.active = pollingProvider;
+    this.connect();
+  }
+
+  // Provider currently delivering the events.
+  get provider(): providers.Provider {
+    return this.active;
+  }
+
+  get connected(): boolean {
+    return this.active === this.websocket;
+  }
+
+  on(eventName: providers.EventType, listener: Listener): this {
+    this.subscriptions.push({ eventName, listener });
+    this.active.on(eventName, listener);
+    return this;
+  }
+
+  once(eventName: providers.EventType, listener: Listener): this {
+    const wrapped: Listener = (...args) => {
+      this.off(eventName, wrapped);
+      listener(...args);
+    };
+    return this.on(eventName, wrapped);
+  }
+
+  off(eventName: providers.EventType, listener?: Listener): this {
+    this.subscriptions = this.subscriptions.filter(subscription => {
+      const matches =
+        subscription.eventName === eventName &&
+        (!listener || subscription.listener === listener);
+      if (matches) {
+        this.active.off(subscription.eventName, subscription.listener);
+      }
+      return !matches;
+    });
+    return this;
+  }
+
+  removeAllListeners(): this {
+    this.subscriptions.forEach(({ eventName, listener }) =>
+      this.active.off(eventName, listener),
+    );
+    this.subscriptions = [];
+    return this;
+  }
+
+  // Reconnect to new WebSocket url, or keep polling if url is not given.
+  setWsUrl(wsUrl: string | undefined) {
+    if (wsUrl === this.wsUrl) {
+      return;
+    }
+
+    this.wsUrl = wsUrl;
+    this.attempt = 0;
+    clearTimeout(this.reconnectTimer);
+    this.switchTo(this.pollingProvider);
+    this.closeWebSocket();
+    this.connect();
+  }
+
+  // Replace provider used while WebSocket is not connected (e.g. after RPC of the chain changed).
+  setPollingProvider(provider: providers.Provider) {
+    const polling = this.active === this.pollingProvider;
+    this.pollingProvider = provider;
+    if (polling) {
+      this.switchTo(provider);
+    }
+  }
+
+  destroy() {
+    this.destroyed = true;
+    clearTimeout(this.reconnectTimer);
+    this.removeAllListeners();
+    this.closeWebSocket();
+  }
+
+  private connect() {
+    if (!this.wsUrl || this.destroyed) {
+      return;
+    }
+
+    let websocket: providers.WebSocketProvider;
+    try {
+      websocket = this.createWebSocket(this.wsUrl);
+    } catch (error) {
+      this.scheduleReconnect();
+      return;
+    }
+
+    this.websocket = websocket;
+
+    const socket = websocket._websocket;
+    socket.onclose = () => this.handleDisconnect(websocket);
+    socket.onerror = () => this.handleDisconnect(websocket);
+
+    websocket._ready().then(
+      () => {
+        if (this.websocket !== websocket || this.destroyed) {
+          return;
+        }
+        this.attempt = 0;
+        this.switchTo(websocket);
+      },
+      () => this.handleDisconnect(websocket),
+    );
+  }
+
+  private handleDisconnect(websocket: providers.WebSocketProvider) {
+    // already handled, or event of previous socket
+    if (this.websocket !== websocket) {
+      return;
+    }
+
+    this.switchTo(this.pollingProvider);
+    this.closeWebSocket();
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect() {
+    if (this.destroyed) {
+      return;
+    }
+
+    const delay = Math.min(
+      this.options.reconnectDelay * 2 ** this.attempt,
+      this.options.maxReconnectDelay,
+    );
+    this.attempt++;
+
+    clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = setTimeout(() => this.connect(), delay);
+  }
+
+  private switchTo(provider: providers.Provider) {
+    if (this.active === provider) {
+      return;
+    }
+
+    this.subscriptions.forEach(({ eventName, listener }) => {
+      this.active.off(eventName, listener);
+      provider.on(eventName, listener);
+    });
+    this.active = provider;
+  }
+
+  private closeWebSocket() {
+    const websocket = this.websocket;
+    this.websocket = undefined;
+
+    if (!websocket) {
+      return;
+    }
+
+    websocket.removeAllListeners();
+    websocket._websocket.onclose = null;
+    websocket._websocket.onerror = null;
+    // socket which never opened can't be closed gracefully
+    websocket.destroy().catch(() => undefined);
+  }
+}
@@ -3,8 +3,12 @@ import { ethers } from 'ethers';
 import init from '.';
 import { chains } from './__utils__/test-utils';
 import { ChainIds } from './chains';
-import { getProvider } from './provider';
-import { resetStore } from './store/actions';
+import {
+  getProvider,
+  getSubscriptionProvider,
+  observeProvider,
+} from './provider';
+import { resetStore, updateChain } from './store/actions';
 
 describe('#getProvider', () => {
   beforeEach(() => {
@@ -42,6 +46,71 @@ describe('#getProvider', () => {
     );
   });
 
+  it('should return the same provider while chain is unchanged', () => {
+    init(chains);
+    expect(getProvider(ChainIds.RSK_TESTNET)).toBe(
+      getProvider(ChainIds.RSK_TESTNET),
+    );
+  });
+
+  it('should rebuild provider after chain rpc is updated', () => {
+    init(chains);
+    const provider = getProvider(ChainIds.RSK_TESTNET);
+    const listener = jest.fn();
+    provider.on('block', listener);
+
+    const changes: Array<ethers.providers.Provider | undefined> = [];
+    const sub = observeProvider(ChainIds.RSK_TESTNET).subscribe(change =>
+      changes.push(change),
+    );
+
+    updateChain({
+      ...chains[1],
+      rpcUrl: 'https://custom-rpc.example',
+      providerConnectionInfo: undefined,
+    });
+
+    const updated = getProvider(ChainIds.RSK_TESTNET);
+    expect(updated).not.toBe(provider);
+    expect(
+      (updated as ethers.providers.JsonRpcProvider).connection.url,
+    ).toEqual('https://custom-rpc.example');
+    expect(changes).toEqual([updated]);
+    expect(provider.listenerCount()).toEqual(0);
+
+    sub.unsubscribe();
+  });
+
+  it('should not rebuild provider when other chain is updated', () => {
+    init(chains);
+    const provider = getProvider(ChainIds.RSK_TESTNET);
+    updateChain({ ...chains[0], rpcUrl: 'https://custom-rpc.example' });
+    expect(getProvider(ChainIds.RSK_TESTNET)).toBe(provider);
+  });
+
+  it('should dispose providers of registered chains after reseting store', () => {
+    init(chains);
+    getProvider(ChainIds.RSK_TESTNET);
+
+    const changes: Array<ethers.providers.Provider | undefined> = [];
+    const sub = observeProvider(ChainIds.RSK_TESTNET).subscribe(change =>
+      changes.push(change),
+    );
+
+    resetStore();
+    expect(changes).toEqual([undefined]);
+
+    sub.unsubscribe();
+  });
+
+  it('should return polling subscription provider for chain without websocket', () => {
+    init(chains);
+    const provider = getSubscriptionProvider(ChainIds.RSK_TESTNET);
+    expect(provider).toBe(getSubscriptionProvider(ChainIds.RSK_TESTNET));
+    expect(provider.connected).toBe(false);
+    expect(provider.provider).toBe(getProvider(ChainIds.RSK_TESTNET));
+  });
+
   it('should return network chain using rpc url', async () => {
     const provider = getProvider(chains[0]);
     const result = await provider.getNetwork();
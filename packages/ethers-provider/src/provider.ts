@@ -1,19 +1,122 @@
 import { providers } from 'ethers';
+import type { ConnectionInfo } from 'ethers/lib/utils';
+import { filter, map, Observable, Subject } from 'rxjs';
 
+import { BatchJsonRpcProvider } from './lib/batch-provider';
 import { FallbackProvider } from './lib/fallback-provider';
+import { SubscriptionProvider } from './lib/subscription-provider';
 import { state } from './store';
+import { updateHealth } from './store/actions';
 import type { Chain, ChainId } from './types';
 
+type ProviderEntry = {
+  // serialized connection options the provider was built with
+  config: string;
+  provider: providers.Provider;
+  // provider of chain registered in the store, disposed when chain is removed from it
+  registered: boolean;
+};
+
+type ProviderChange = {
+  chainId: ChainId;
+  provider?: providers.Provider;
+};
+
 export const ethersProviders: {
-  [key: string]: providers.Provider;
+  [chainId: string]: ProviderEntry;
 } = {};
 
-export function getProvider(): providers.Provider;
-export function getProvider(chain: ChainId | Chain): providers.Provider;
+export const subscriptionProviders: {
+  [chainId: string]: SubscriptionProvider;
+} = {};
 
-export function getProvider(
-  chainOrChainId?: ChainId | Chain,
-): providers.Provider {
+const providerChanges = new Subject<ProviderChange>();
+
+const getProviderConfig = (chain: Chain) =>
+  JSON.stringify({
+    rpcUrl: chain.rpcUrl,
+    providerConnectionInfo: chain.providerConnectionInfo,
+    quorum: chain.quorum,
+    health: chain.health,
+    batching: chain.batching,
+  });
+
+const isRegistered = (chain: Chain) =>
+  state.get().chains.some(item => item.id === chain.id.toLowerCase());
+
+const createJsonRpcProvider = (chain: Chain, url: string | ConnectionInfo) =>
+  chain.batching
+    ? new BatchJsonRpcProvider(url, chain.batching)
+    : new providers.StaticJsonRpcProvider(url);
+
+const createProvider = (chain: Chain): providers.Provider => {
+  if (Array.isArray(chain.rpcUrl)) {
+    const rpcs = chain.rpcUrl.map(url => createJsonRpcProvider(chain, url));
+    return new FallbackProvider(
+      rpcs,
+      { read: 1, write: 1, ...chain.quorum },
+      {
+        health: chain.health,
+        onHealthChange: health => updateHealth(chain.id, health),
+      },
+    );
+  }
+
+  return createJsonRpcProvider(
+    chain,
+    chain.providerConnectionInfo && chain.providerConnectionInfo.url
+      ? chain.providerConnectionInfo
+      : chain.rpcUrl,
+  );
+};
+
+// Stop polling and listeners of provider which is no longer used.
+export const disposeProvider = (provider: providers.Provider) => {
+  if (provider instanceof FallbackProvider) {
+    provider.providerConfigs.forEach(config =>
+      disposeProvider(config.provider),
+    );
+  }
+
+  provider.removeAllListeners();
+
+  if (provider instanceof providers.BaseProvider) {
+    provider.polling = false;
+  }
+};
+
+// Dispose current provider of the chain and build new one if chain is given, consumers are notified about the change.
+const replaceProvider = (chainId: string, chain?: Chain) => {
+  const entry = ethersProviders[chainId];
+
+  if (entry) {
+    disposeProvider(entry.provider);
+    delete ethersProviders[chainId];
+  }
+
+  if (chain) {
+    ethersProviders[chainId] = {
+      config: getProviderConfig(chain),
+      provider: createProvider(chain),
+      registered: entry?.registered || isRegistered(chain),
+    };
+  }
+
+  if (entry && ethersProviders[chainId]) {
+    subscriptionProviders[chainId]?.setPollingProvider(
+      ethersProviders[chainId].provider,
+    );
+  }
+
+  if (entry) {
+    providerChanges.next({
+      chainId,
+      provider: ethersProviders[chainId]?.provider,
+    });
+  }
+};
+
+const getChain = (chainOrChainId?: ChainId | Chain): Chain => {
   let chain: Chain | undefined;
 
   if (chainOrChainId === undefined) {
@@ -32,22 +135,83 @@ export function getProvider(
     throw new Error('No chain found');
   }
 
-  const rpc = typeof chain.rpcUrl === 'string' ? chain.rpcUrl : chain.rpcUrl[0];
-
-  if (!ethersProviders[rpc]) {
-    if (Array.isArray(chain.rpcUrl)) {
-      const rpcs = chain.rpcUrl.map(
-        url => new providers.StaticJsonRpcProvider(url),
-      );
-      ethersProviders[rpc] = new FallbackProvider(rpcs, 1);
-    } else {
-      ethersProviders[rpc] = new providers.StaticJsonRpcProvider(
-        chain.providerConnectionInfo && chain.providerConnectionInfo.url
-          ? chain.providerConnectionInfo
-          : rpc,
-      );
-    }
+  return chain;
+};
+
+export function getProvider(): providers.Provider;
+export function getProvider(chain: ChainId | Chain): providers.Provider;
+
+export function getProvider(
+  chainOrChainId?: ChainId | Chain,
+): providers.Provider {
+  const chain = getChain(chainOrChainId);
+  const chainId = chain.id.toLowerCase();
+
+  if (ethersProviders[chainId]?.config !== getProviderConfig(chain)) {
+    replaceProvider(chainId, chain);
+  }
+
+  return ethersProviders[chainId].provider;
+}
+
+export function getSubscriptionProvider(): SubscriptionProvider;
+export function getSubscriptionProvider(
+  chain: ChainId | Chain,
+): SubscriptionProvider;
+
+// Provider for listening to blocks and events of the chain, over WebSocket if chain has wsUrl and by polling otherwise.
+export function getSubscriptionProvider(
+  chainOrChainId?: ChainId | Chain,
+): SubscriptionProvider {
+  const chain = getChain(chainOrChainId);
+  const chainId = chain.id.toLowerCase();
+  const pollingProvider = getProvider(chain);
+
+  if (!subscriptionProviders[chainId]) {
+    subscriptionProviders[chainId] = new SubscriptionProvider(
+      chain.wsUrl,
+      pollingProvider,
+      chain.subscription,
+    );
+  } else {
+    // listeners are kept when chain is reconfigured
+    subscriptionProviders[chainId].setWsUrl(chain.wsUrl);
+    subscriptionProviders[chainId].setPollingProvider(pollingProvider);
   }
 
-  return ethersProviders[rpc];
+  return subscriptionProviders[chainId];
 }
+
+// Emits new provider of the chain after its connection options change, or undefined when the chain is removed.
+export const observeProvider = (
+  chainId: ChainId,
+): Observable<providers.Provider | undefined> =>
+  providerChanges.asObservable().pipe(
+    filter(change => change.chainId === chainId.toLowerCase()),
+    map(change => change.provider),
+  );
+
+// Rebuild providers of registered chains when they are updated or removed from the store.
+state.select('chains').subscribe(chains => {
+  Object.keys(subscriptionProviders).forEach(chainId => {
+    const chain = chains.find(item => item.id === chainId);
+
+    if (chain) {
+      subscriptionProviders[chainId].setWsUrl(chain.wsUrl);
+    } else if (ethersProviders[chainId]?.registered) {
+      subscriptionProviders[chainId].destroy();
+      delete subscriptionProviders[chainId];
+    }
+  });
+
+  Object.keys(ethersProviders).forEach(chainId => {
+    const entry = ethersProviders[chainId];
+    const chain = chains.find(item => item.id === chainId);
+
+    if (chain && entry.config !== getProviderConfig(chain)) {
+      replaceProvider(chainId, chain);
+    } else if (!chain && entry.registered) {
+      replaceProvider(chainId);
+    }
+  });
+});
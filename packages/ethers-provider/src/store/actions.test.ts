@@ -3,7 +3,7 @@ import { take } from 'rxjs';
 import { state, dispatch } from '.';
 import { chains } from '../__utils__/test-utils';
 import { ChainIds } from '../chains';
-import { addChains, resetStore, updateChain } from './actions';
+import { addChains, resetStore, updateChain, updateHealth } from './actions';
 
 describe('actions and state', () => {
   beforeEach(() => {
@@ -35,6 +35,22 @@ describe('actions and state', () => {
     expect(state.get().chains).toEqual([...chains, newChain]);
   });
 
+  it('should update provider health of chain', () => {
+    const health = [
+      {
+        url: 'https://public-node.rsk.co',
+        status: 'healthy' as const,
+        active: true,
+        score: 1,
+        errorRate: 0,
+        latency: 100,
+        blockLag: 0,
+      },
+    ];
+    updateHealth(ChainIds.RSK_MAINNET, health);
+    expect(state.get().health).toEqual({ [ChainIds.RSK_MAINNET]: health });
+  });
+
   it('should reset store', () => {
     addChains(chains);
     resetStore();
@@ -46,7 +62,7 @@ describe('actions and state', () => {
       .select()
       .pipe(take(1))
       .subscribe(value => {
-        expect(value).toEqual({ chains: chains });
+        expect(value).toEqual({ chains: chains, health: {} });
         done();
       });
     addChains(chains);
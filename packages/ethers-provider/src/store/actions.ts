@@ -2,10 +2,18 @@ import { dispatch } from '.';
 import type {
   AddChainsAction,
   Chain,
+  ChainId,
+  ProviderHealth,
   ResetStoreAction,
   UpdateChainAction,
+  UpdateHealthAction,
 } from '../types';
-import { ADD_CHAINS, RESET_STORE, UPDATE_CHAIN } from './constants';
+import {
+  ADD_CHAINS,
+  RESET_STORE,
+  UPDATE_CHAIN,
+  UPDATE_HEALTH,
+} from './constants';
 
 export const addChains = (chains: Chain[]) => {
   const action = {
@@ -29,6 +37,17 @@ export const updateChain = (chain: Chain) => {
   dispatch(action as UpdateChainAction);
 };
 
+export const updateHealth = (chainId: ChainId, health: ProviderHealth[]) => {
+  const action = {
+    type: UPDATE_HEALTH,
+    payload: {
+      chainId: chainId.toLowerCase(),
+      health,
+    },
+  };
+  dispatch(action as UpdateHealthAction);
+};
+
 export const resetStore = () => {
   const action = {
     type: RESET_STORE,
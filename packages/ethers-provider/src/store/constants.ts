@@ -1,3 +1,4 @@
 export const ADD_CHAINS = 'add_chains';
 export const UPDATE_CHAIN = 'update_chain';
+export const UPDATE_HEALTH = 'update_health';
 export const RESET_STORE = 'reset_store';
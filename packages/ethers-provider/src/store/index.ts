@@ -8,8 +8,13 @@ import {
 } from 'rxjs';
 
 import { APP_INITIAL_STATE } from '../constants';
-import { Action, AppState, Chain } from '../types';
-import { ADD_CHAINS, RESET_STORE, UPDATE_CHAIN } from './constants';
+import { Action, AppState, Chain, UpdateHealthAction } from '../types';
+import {
+  ADD_CHAINS,
+  RESET_STORE,
+  UPDATE_CHAIN,
+  UPDATE_HEALTH,
+} from './constants';
 
 const store = new BehaviorSubject<AppState>(APP_INITIAL_STATE);
 const stateUpdates = new Subject<AppState>();
@@ -27,18 +32,24 @@ function reducer(state: AppState, action: Action): AppState {
       };
 
     case UPDATE_CHAIN:
-      const chains = state.chains;
-      const current = chains.findIndex(({ id }) => id === payload.id);
+      const current = state.chains.findIndex(({ id }) => id === payload.id);
 
-      if (current !== -1) {
-        chains[current] = payload as Chain;
-      } else {
-        chains.push(payload as Chain);
-      }
+      // chains are replaced with new list, so subscribers of the store notice the change
+      return {
+        ...state,
+        chains:
+          current !== -1
+            ? state.chains.map((chain, index) =>
+                index === current ? (payload as Chain) : chain,
+              )
+            : [...state.chains, payload as Chain],
+      };
 
+    case UPDATE_HEALTH:
+      const { chainId, health } = payload as UpdateHealthAction['payload'];
       return {
         ...state,
-        chains,
+        health: { ...state.health, [chainId]: health },
       };
 
     case RESET_STORE:
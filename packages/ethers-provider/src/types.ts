@@ -13,19 +13,90 @@ export interface Chain {
   token: string;
   blockExplorerUrl?: string;
   providerConnectionInfo?: ConnectionInfo;
+  // how many RPCs of rpcUrl list must agree on the result, 1 by default
+  quorum?: Partial<Record<MethodClass, number>>;
+  health?: ProviderHealthOptions;
+  // opt-in batching of requests sent to rpcUrl, disabled by default
+  batching?: BatchingOptions;
+  // WebSocket RPC used for real time events, rpcUrl is polled when not set or disconnected
+  wsUrl?: string;
+  subscription?: SubscriptionOptions;
 }
 
+export type SubscriptionOptions = {
+  // milliseconds before first reconnect attempt, doubled after each failed attempt
+  reconnectDelay?: number;
+  maxReconnectDelay?: number;
+};
+
+export type BatchingOptions = {
+  // send requests collected during `wait` as single JSON-RPC batch
+  batch?: boolean;
+  // maximum number of requests in single JSON-RPC batch
+  batchSize?: number;
+  // share response of identical read requests which are still in flight
+  dedupe?: boolean;
+  // address of Multicall2 contract used to aggregate eth_calls made for the same block
+  multicall?: string;
+  // maximum number of eth_calls aggregated into single multicall
+  multicallSize?: number;
+  // milliseconds to collect requests before sending them
+  wait?: number;
+};
+
+// reads are all calls querying the chain, writes are broadcasts of signed transactions
+export type MethodClass = 'read' | 'write';
+
+export type ProviderHealthOptions = {
+  // number of recent requests used to calculate error rate and latency
+  sampleSize?: number;
+  // number of requests needed before endpoint can be quarantined for errors
+  minSamples?: number;
+  // error rate (0 - 1) above which endpoint is quarantined
+  maxErrorRate?: number;
+  // blocks endpoint can be behind the highest seen block before it is quarantined
+  maxBlockLag?: number;
+  // percentile of response times reported as endpoint latency
+  latencyPercentile?: number;
+  // milliseconds quarantined endpoint is asked only as a last resort
+  quarantineTime?: number;
+};
+
+export type ProviderHealthStatus = 'healthy' | 'degraded' | 'quarantined';
+
+export type ProviderHealth = {
+  url: string;
+  status: ProviderHealthStatus;
+  // endpoint currently asked first
+  active: boolean;
+  score: number;
+  errorRate: number;
+  latency: number;
+  blockNumber?: number;
+  blockLag: number;
+  quarantinedUntil?: number;
+};
+
 export type Network = typeof networkMap[keyof typeof networkMap];
 
 export type AppState = {
   chains: Chain[];
+  health: Record<ChainId, ProviderHealth[]>;
 };
 
 // Actions
-export type Action = AddChainsAction | UpdateChainAction | ResetStoreAction;
+export type Action =
+  | AddChainsAction
+  | UpdateChainAction
+  | UpdateHealthAction
+  | ResetStoreAction;
 
 export type AddChainsAction = { type: 'add_chains'; payload: Chain[] };
 export type UpdateChainAction = { type: 'update_chain'; payload: Chain };
+export type UpdateHealthAction = {
+  type: 'update_health';
+  payload: { chainId: ChainId; health: ProviderHealth[] };
+};
 export type ResetStoreAction = {
   type: 'reset_store';
   payload: unknown;
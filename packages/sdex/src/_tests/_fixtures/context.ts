@@ -0,0 +1,38 @@
+import { BigNumber, Contract } from 'ethers';
+
+import { CROC_ABI } from '../../abis';
+import { CHAIN_SPECS } from '../../constants';
+import { CrocContext } from '../../context';
+
+export const DEX_ADDRESS = '0x8fa3fd7c8e6f2dc5a5aa1ca0d5f3e37bf7c0c2a1';
+
+/* Q64.64 square root of price 1. */
+const PRICE_ONE = BigNumber.from(2).pow(64);
+
+/* Context of the BOB chain which doesn't need a node. The dex contract only encodes calldata,
+ * tokens have 18 decimals and pools are at price 1 and swap one to one. */
+export function makeContext(): Promise<CrocContext> {
+  const token = { decimals: async () => 18 };
+
+  return Promise.resolve({
+    dex: new Contract(DEX_ADDRESS, CROC_ABI),
+    query: { queryPrice: async () => PRICE_ONE },
+    slipQuery: {
+      calcImpact: async (
+        base: string,
+        quote: string,
+        poolIdx: number,
+        isBuy: boolean,
+        inBaseQty: boolean,
+        qty: BigNumber,
+      ) => ({
+        baseFlow: isBuy ? qty : qty.mul(-1),
+        quoteFlow: isBuy ? qty.mul(-1) : qty,
+        finalPrice: PRICE_ONE,
+      }),
+    },
+    erc20Read: { attach: () => token },
+    erc20Write: { attach: () => token },
+    chain: CHAIN_SPECS.bob,
+  } as unknown as CrocContext);
+}
@@ -0,0 +1,187 @@
+import { BigNumber } from 'ethers';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import { CrocCurveSimulator } from '../../simulator/curve';
+import {
+  CrocCurveSnapshot,
+  lotsToLiquidity,
+  parseCurveSnapshot,
+} from '../../simulator/snapshot';
+import { tickToPrice } from '../../utils';
+
+// pool at price 1 with 1e21 ambient liquidity and 1.024e21 range liquidity between ticks -100 and 100
+const snapshot = parseCurveSnapshot(
+  readFileSync(
+    join(__dirname, '../_fixtures/synthetic-curve-snapshot.json'),
+    'utf8',
+  ),
+);
+
+const AMBIENT_LIQ = 1e21;
+const CONC_LIQ = 1.024e21;
+const LIQ = AMBIENT_LIQ + CONC_LIQ;
+
+const noFees: CrocCurveSnapshot = { ...snapshot, feeRate: 0 };
+
+const toFloat = (value: BigNumber) => parseFloat(value.toString());
+
+// floating point math is compared by relative error
+const expectClose = (value: number, expected: number) =>
+  expect(value / expected).toBeCloseTo(1, 9);
+
+describe('CrocCurveSimulator', () => {
+  it('loads liquidity of the snapshot', () => {
+    const simulator = new CrocCurveSimulator(snapshot);
+
+    expect(simulator.spotPrice).toBe(1);
+    expect(simulator.state.tick).toBe(0);
+    expect(simulator.activeLiquidity).toBe(LIQ);
+  });
+
+  it('swaps base for quote along the constant product curve', () => {
+    const simulator = new CrocCurveSimulator(noFees);
+    const qty = 1e18;
+
+    const result = simulator.calcImpact(true, true, BigNumber.from(10).pow(18));
+
+    const priceRoot = 1 + qty / LIQ;
+    expect(result.baseFlow.toString()).toBe('1000000000000000000');
+    expectClose(toFloat(result.quoteFlow), -LIQ * (1 - 1 / priceRoot));
+    expect(result.crossedTicks).toEqual([]);
+    expect(result.finalTick).toBe(
+      Math.floor(Math.log(priceRoot ** 2) / Math.log(1.0001)),
+    );
+  });
+
+  it('swaps for a fixed output of base', () => {
+    const simulator = new CrocCurveSimulator(noFees);
+    const qty = 1e18;
+
+    const result = simulator.calcImpact(
+      false,
+      true,
+      BigNumber.from(10).pow(18),
+    );
+
+    const priceRoot = 1 - qty / LIQ;
+    expect(result.baseFlow.toString()).toBe('-1000000000000000000');
+    expectClose(toFloat(result.quoteFlow), LIQ * (1 / priceRoot - 1));
+  });
+
+  it('charges the fee on the counter side', () => {
+    const withoutFee = new CrocCurveSimulator(noFees).calcImpact(
+      true,
+      true,
+      BigNumber.from(10).pow(18),
+    );
+    const result = new CrocCurveSimulator(snapshot).calcImpact(
+      true,
+      true,
+      BigNumber.from(10).pow(18),
+    );
+
+    const output = -toFloat(withoutFee.quoteFlow);
+    const fee = output * 0.0005;
+
+    expect(result.feesInBase).toBe(false);
+    expectClose(toFloat(result.liqFee) + toFloat(result.protocolFee), fee);
+    expectClose(toFloat(result.protocolFee), fee / 4);
+    // assimilated fees deepen the curve a bit, so the output isn't exactly reduced by the fee
+    expect(-toFloat(result.quoteFlow)).toBeLessThan(output - fee * 0.99);
+    expect(-toFloat(result.quoteFlow)).toBeGreaterThan(output - fee * 1.01);
+  });
+
+  it('accrues liquidity fees to the curve', () => {
+    const simulator = new CrocCurveSimulator(snapshot);
+
+    simulator.swap(true, true, BigNumber.from(10).pow(19));
+
+    const state = simulator.state;
+    expect(state.seedDeflator).toBeGreaterThan(1);
+    expect(state.concGrowth).toBeGreaterThan(0);
+    expect(simulator.activeLiquidity).toBeGreaterThan(LIQ);
+  });
+
+  it('crosses ticks and drops range liquidity', () => {
+    const simulator = new CrocCurveSimulator(noFees);
+    const upperRoot = Math.sqrt(tickToPrice(100));
+    // enough to reach tick 100 and continue on ambient liquidity
+    const toTick = LIQ * (upperRoot - 1);
+    const qty = toTick + 1e18;
+
+    const result = simulator.swap(
+      true,
+      true,
+      BigNumber.from(BigInt(Math.round(qty)).toString()),
+    );
+
+    const finalRoot = upperRoot + 1e18 / AMBIENT_LIQ;
+    const output =
+      LIQ * (1 - 1 / upperRoot) + AMBIENT_LIQ * (1 / upperRoot - 1 / finalRoot);
+
+    expect(result.crossedTicks).toEqual([100]);
+    expect(result.finalTick).toBeGreaterThanOrEqual(100);
+    expect(simulator.state.concLiq).toBe(0);
+    expectClose(toFloat(result.quoteFlow), -output);
+  });
+
+  it('crosses ticks back down', () => {
+    const simulator = new CrocCurveSimulator(noFees);
+    const lowerRoot = Math.sqrt(tickToPrice(-100));
+    const qty = LIQ * (1 - lowerRoot) + 1e18;
+
+    const result = simulator.swap(
+      false,
+      true,
+      BigNumber.from(BigInt(Math.round(qty)).toString()),
+    );
+
+    expect(result.crossedTicks).toEqual([-100]);
+    expect(result.finalTick).toBeLessThan(-100);
+    expect(simulator.state.concLiq).toBe(0);
+
+    simulator.swap(true, true, BigNumber.from(10).pow(19));
+    expect(simulator.state.concLiq).toBe(CONC_LIQ);
+  });
+
+  it('stops at the limit price', () => {
+    const simulator = new CrocCurveSimulator(noFees);
+    const limitPrice = tickToPrice(50);
+
+    const result = simulator.swap(
+      true,
+      true,
+      BigNumber.from(10).pow(21),
+      limitPrice,
+    );
+
+    expect(simulator.spotPrice).toBeCloseTo(limitPrice, 12);
+    expectClose(toFloat(result.baseFlow), LIQ * (Math.sqrt(limitPrice) - 1));
+    expect(result.crossedTicks).toEqual([]);
+  });
+
+  it('only changes the curve when swapping', () => {
+    const simulator = new CrocCurveSimulator(snapshot);
+    const state = simulator.state;
+
+    simulator.calcImpact(true, true, BigNumber.from(10).pow(18));
+    expect(simulator.state).toEqual(state);
+
+    simulator.swap(true, true, BigNumber.from(10).pow(18));
+    expect(simulator.spotPrice).toBeGreaterThan(1);
+  });
+});
+
+describe('curve snapshots', () => {
+  it('converts lots to liquidity without the knockout flag', () => {
+    expect(lotsToLiquidity(3).toString()).toBe('2048');
+    expect(lotsToLiquidity(4).toString()).toBe('4096');
+  });
+
+  it('rejects snapshots with missing curve fields', () => {
+    expect(() => parseCurveSnapshot('{"priceRoot": "1"}')).toThrow(
+      'Curve snapshot is missing ambientSeeds',
+    );
+  });
+});
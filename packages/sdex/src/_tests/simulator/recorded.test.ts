@@ -0,0 +1,57 @@
+import { BigNumber } from 'ethers';
+import { existsSync, readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+
+import { CrocCurveSimulator } from '../../simulator/curve';
+import {
+  CrocCurveRecording,
+  parseCurveSnapshot,
+} from '../../simulator/snapshot';
+
+// pools recorded on-chain with src/examples/recordCurve.ts
+const RECORDED_DIR = join(__dirname, '../_fixtures/recorded');
+
+const recordings = existsSync(RECORDED_DIR)
+  ? readdirSync(RECORDED_DIR)
+      .filter(file => file.endsWith('.json'))
+      .map(file => {
+        const json = readFileSync(join(RECORDED_DIR, file), 'utf8');
+        const recording: CrocCurveRecording = JSON.parse(json);
+        return {
+          file,
+          ...recording,
+          snapshot: parseCurveSnapshot(JSON.stringify(recording.snapshot)),
+        };
+      })
+  : [];
+
+const toFloat = (value: string | BigNumber) => parseFloat(value.toString());
+
+// the simulator is floating point, flows can differ from the contract by a few wei
+const expectClose = (value: BigNumber, expected: string) =>
+  expect(toFloat(value) / toFloat(expected)).toBeCloseTo(1, 9);
+
+describe('CrocCurveSimulator against recorded pools', () => {
+  if (recordings.length === 0) {
+    it.todo('record a pool with src/examples/recordCurve.ts');
+  }
+
+  recordings.forEach(({ file, block, snapshot, swaps }) => {
+    describe(`${file} at block ${block}`, () => {
+      it.each(swaps)(
+        'quotes isBuy $isBuy, inBaseQty $inBaseQty, qty $qty like calcImpact',
+        swap => {
+          const result = new CrocCurveSimulator(snapshot).calcImpact(
+            swap.isBuy,
+            swap.inBaseQty,
+            BigNumber.from(swap.qty),
+          );
+
+          expectClose(result.baseFlow, swap.baseFlow);
+          expectClose(result.quoteFlow, swap.quoteFlow);
+          expectClose(result.finalPrice, swap.finalPrice);
+        },
+      );
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import { AddressZero } from '@ethersproject/constants';
+
+import { BigNumber, BytesLike, utils } from 'ethers';
+
+import { CrocSwapPlan, CrocSwapPlanOpts, CrocSwapSettlement } from '../swap';
+import { CrocTokenView } from '../tokens';
+import { DEX_ADDRESS, makeContext } from './_fixtures/context';
+
+const BASE = '0x1000000000000000000000000000000000000001';
+const QUOTE = '0x2000000000000000000000000000000000000002';
+const MID = '0x3000000000000000000000000000000000000003';
+const RECV = '0x4000000000000000000000000000000000000004';
+const POOL_INDEX = 36000;
+
+const context = makeContext();
+
+const makePlan = (sellToken: string, opts?: CrocSwapPlanOpts) =>
+  new CrocSwapPlan(
+    new CrocTokenView(context, sellToken),
+    new CrocTokenView(context, sellToken === BASE ? QUOTE : BASE),
+    1,
+    false,
+    POOL_INDEX,
+    context,
+    opts,
+  );
+
+const makeMultiHopPlan = (opts?: CrocSwapPlanOpts) =>
+  new CrocSwapPlan(
+    new CrocTokenView(context, BASE),
+    new CrocTokenView(context, QUOTE),
+    1,
+    false,
+    POOL_INDEX,
+    context,
+    {
+      ...opts,
+      path: [
+        { token: MID, poolIndex: POOL_INDEX },
+        { token: QUOTE, poolIndex: POOL_INDEX },
+      ],
+    },
+  );
+
+const decodeUserCmd = async (data: BytesLike) =>
+  (await context).dex.interface.decodeFunctionData('userCmd', data);
+
+/* Surplus flags of the hot path swap command sent through the proxy. */
+const swapSurplusFlags = async (
+  plan: CrocSwapPlan,
+  settlement?: CrocSwapSettlement,
+) => {
+  const { data } = await plan.forceProxy().generateTxData({ settlement });
+  const [, cmd] = await decodeUserCmd(data);
+  const decoded = utils.defaultAbiCoder.decode(
+    [
+      'address',
+      'address',
+      'uint256',
+      'bool',
+      'bool',
+      'uint128',
+      'uint16',
+      'uint128',
+      'uint128',
+      'uint8',
+    ],
+    cmd,
+  );
+  return decoded[9];
+};
+
+/* Surplus flags of the long form order, for the sold token of the opening settlement and the
+ * bought token of the last hop's settlement. The hop ends with its settlement (token, limit,
+ * dust, surplus flag) followed by the two improve words. */
+const longFormSurplusFlags = async (
+  plan: CrocSwapPlan,
+  settlement?: CrocSwapSettlement,
+) => {
+  const { data } = await plan.generateTxData({ settlement });
+  const [, calldata] = await decodeUserCmd(data);
+  const words = utils.hexDataLength(calldata) / 32;
+  const word = (index: number) =>
+    BigNumber.from(utils.hexDataSlice(calldata, index * 32, (index + 1) * 32));
+
+  return [word(4).eq(1), word(words - 3).eq(1)];
+};
+
+describe('CrocSwapPlan surplus settlement', () => {
+  it('encodes surplus of the plan in the swap', async () => {
+    expect(await swapSurplusFlags(makePlan(BASE))).toBe(0);
+    expect(await swapSurplusFlags(makePlan(BASE, { surplus: true }))).toBe(3);
+  });
+
+  it('prefers settlement given at execution over the plan', async () => {
+    const plan = makePlan(BASE, { surplus: true });
+
+    expect(await swapSurplusFlags(plan, false)).toBe(0);
+    expect(
+      await swapSurplusFlags(plan, {
+        sellDexSurplus: false,
+        buyDexSurplus: true,
+      }),
+    ).toBe(2);
+  });
+
+  it('orders flags of the sold and bought token by base and quote', async () => {
+    const surplus = { sellDexSurplus: true, buyDexSurplus: false };
+
+    expect(await swapSurplusFlags(makePlan(BASE, { surplus }))).toBe(1);
+    expect(await swapSurplusFlags(makePlan(QUOTE, { surplus }))).toBe(2);
+  });
+
+  it('encodes surplus of the plan in multi-hop swaps', async () => {
+    expect(await longFormSurplusFlags(makeMultiHopPlan())).toEqual([
+      false,
+      false,
+    ]);
+    expect(
+      await longFormSurplusFlags(
+        makeMultiHopPlan({
+          surplus: { sellDexSurplus: true, buyDexSurplus: false },
+        }),
+      ),
+    ).toEqual([true, false]);
+  });
+
+  it('prefers settlement given at execution in multi-hop swaps', async () => {
+    const plan = makeMultiHopPlan({ surplus: true });
+
+    expect(await longFormSurplusFlags(plan)).toEqual([true, true]);
+    expect(
+      await longFormSurplusFlags(plan, {
+        sellDexSurplus: false,
+        buyDexSurplus: true,
+      }),
+    ).toEqual([false, true]);
+  });
+});
+
+describe('CrocTokenView surplus collateral', () => {
+  const qty = BigNumber.from(10).pow(18);
+
+  const decodeCmd = (calldata: string) =>
+    utils.defaultAbiCoder.decode(
+      ['uint8', 'address', 'uint128', 'address'],
+      calldata,
+    );
+
+  it.each([
+    ['deposit', 73],
+    ['withdraw', 74],
+    ['transfer', 75],
+  ] as const)('encodes %s as subcode %d', async (op, subCode) => {
+    const token = new CrocTokenView(context, BASE);
+    const params = await token[`${op}Params`](1, RECV);
+
+    expect(params.contract.address).toBe(DEX_ADDRESS);
+    expect(params.path).toBe((await context).chain.proxyPaths.cold);
+
+    const [code, recv, weiQty, tokenAddr] = decodeCmd(params.calldata);
+    expect(code).toBe(subCode);
+    expect(recv).toBe(RECV);
+    expect(weiQty.toString()).toBe(qty.toString());
+    expect(tokenAddr).toBe(BASE);
+    expect(params.txArgs).toEqual({});
+  });
+
+  it('sends native token with deposits only', async () => {
+    const eth = new CrocTokenView(context, AddressZero);
+
+    const deposit = await eth.depositParams(1, RECV);
+    expect(deposit.txArgs?.value?.toString()).toBe(qty.toString());
+
+    expect((await eth.withdrawParams(1, RECV)).txArgs).toEqual({});
+    expect((await eth.transferParams(1, RECV)).txArgs).toEqual({});
+  });
+});
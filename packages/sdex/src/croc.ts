@@ -52,6 +52,10 @@ export class CrocEnv {
    * Example of generating a swap plan for selling 100 USDC to swap into DAI:
    *    crocEnv.sell(USDC, 100).for(DAI)
    *
+   * Swapping across multiple pools with an explicit or discovered path:
+   *    crocEnv.sell(USDC, 100, poolIndex).for(SOV, { path: [{ token: USDT, poolIndex }, ...] })
+   *    crocEnv.sell(USDC, 100, poolIndex).for(SOV, { pools })
+   *
    * @param token The address of the token to sell.
    * @param qty The fixed quantity of the token to sell. */
   sell(token: string, qty: TokenQty, poolIndex: number): SellPrefix {
@@ -179,6 +183,7 @@ class BuyPrefix {
       this.qty,
       false,
       tick,
+      this.poolIndex,
       this.context,
     );
   }
@@ -227,6 +232,7 @@ class SellPrefix {
       this.qty,
       true,
       tick,
+      this.poolIndex,
       this.context,
     );
   }
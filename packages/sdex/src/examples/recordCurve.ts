@@ -0,0 +1,69 @@
+import { writeFileSync } from 'fs';
+
+import { CrocEnv } from '../croc';
+import { CrocCurveSimulator } from '../simulator/curve';
+import { queryCurveSnapshot, recordCurveSwaps } from '../simulator/snapshot';
+
+/* Records a pool's curve snapshot and calcImpact() quotes at the same block, as a fixture for
+ * the simulator tests:
+ *
+ *   ts-node src/examples/recordCurve.ts bob <base> <quote> <poolIdx> <tickSize> \
+ *     src/_tests/_fixtures/recorded/<name>.json */
+
+// ticks on each side of the price to snapshot, wide enough for the largest recorded swap
+const TICK_WINDOW = 2000;
+
+// swap sizes as shares of the active reserves, the largest ones cross ticks
+const SWAP_SHARES = [0.0001, 0.01, 0.2];
+
+async function record() {
+  const [chain, base, quote, poolIdx, tickSize, out] = process.argv.slice(2);
+
+  const croc = new CrocEnv(chain);
+  const pool = croc.pool(quote, base, parseInt(poolIdx));
+  const provider = (await croc.context).provider;
+  const block = await provider.getBlockNumber();
+
+  const tick = await pool.spotTick(block);
+  const step = parseInt(tickSize);
+  const ticks: number[] = [];
+  for (
+    let level = Math.floor((tick - TICK_WINDOW) / step) * step;
+    level <= tick + TICK_WINDOW;
+    level += step
+  ) {
+    ticks.push(level);
+  }
+
+  const snapshot = await queryCurveSnapshot(pool, ticks, block);
+  snapshot.levels = snapshot.levels.filter(
+    level => level.bidLots !== '0' || level.askLots !== '0',
+  );
+
+  const simulator = new CrocCurveSimulator(snapshot);
+  const priceRoot = Math.sqrt(simulator.spotPrice);
+  const swaps = SWAP_SHARES.flatMap(share =>
+    [true, false].flatMap(isBuy =>
+      [true, false].map(inBaseQty => {
+        const reserves = inBaseQty
+          ? simulator.activeLiquidity * priceRoot
+          : simulator.activeLiquidity / priceRoot;
+        return {
+          isBuy,
+          inBaseQty,
+          qty: BigInt(Math.floor(reserves * share)).toString(),
+        };
+      }),
+    ),
+  );
+
+  const recording = {
+    block,
+    snapshot,
+    swaps: await recordCurveSwaps(pool, swaps, block),
+  };
+  writeFileSync(out, JSON.stringify(recording, null, 2) + '\n');
+  console.log(`Recorded ${swaps.length} swaps at block ${block} to ${out}`);
+}
+
+record();
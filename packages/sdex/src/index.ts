@@ -5,7 +5,11 @@ export * from "./pool";
 export * from "./position";
 export * from "./swap";
 export * from "./croc";
+export * from "./knockout";
 
 export * from "./encoding/liquidity";
 
 export * from "./recipes/reposition";
+
+export * from "./simulator/curve";
+export * from "./simulator/snapshot";
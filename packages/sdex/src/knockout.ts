@@ -1,7 +1,7 @@
 import { AddressZero } from '@ethersproject/constants';
 import { TransactionResponse } from '@ethersproject/providers';
 
-import { BigNumber, BigNumberish } from 'ethers';
+import { BigNumber, BigNumberish, Contract } from 'ethers';
 
 import { ChainSpec } from './constants';
 import { CrocContext } from './context';
@@ -33,6 +33,7 @@ export class CrocKnockoutHandle {
     qty: TokenQty,
     inSellQty: boolean,
     knockoutTick: number,
+    poolIndex: number,
     context: Promise<CrocContext>,
   ) {
     [this.baseToken, this.quoteToken] = sortBaseQuoteViews(sellToken, buyToken);
@@ -47,17 +48,37 @@ export class CrocKnockoutHandle {
       : calcSellQty(specQty, !this.sellBase, knockoutTick, context);
 
     this.knockoutTick = knockoutTick;
+    this.poolIndex = poolIndex;
     this.context = context;
   }
 
   async mint(opts?: CrocKnockoutOpts): Promise<TransactionResponse> {
-    const chain = (await this.context).chain;
-    const encoder = new KnockoutEncoder(
-      this.baseToken.tokenAddr,
-      this.quoteToken.tokenAddr,
-      chain.poolIndex,
-    );
-    const [lowerTick, upperTick] = this.tickRange(chain);
+    const { calldata, txArgs } = await this.mintParams(opts);
+    return this.sendCmd(calldata, txArgs);
+  }
+
+  async burn(opts?: CrocKnockoutOpts): Promise<TransactionResponse> {
+    return this.sendCmd((await this.burnParams(opts)).calldata);
+  }
+
+  async burnLiq(
+    liq: BigNumber,
+    opts?: CrocKnockoutOpts,
+  ): Promise<TransactionResponse> {
+    return this.sendCmd((await this.burnLiqParams(liq, opts)).calldata);
+  }
+
+  async recoverPost(
+    pivotTime: number,
+    opts?: CrocKnockoutOpts,
+  ): Promise<TransactionResponse> {
+    return this.sendCmd((await this.recoverPostParams(pivotTime, opts)).calldata);
+  }
+
+  /* Params of the commands below are sent by the caller through userCmd of the dex contract,
+   * so the transactions can be signed by the wallet of the app. */
+  async mintParams(opts?: CrocKnockoutOpts): Promise<CrocKnockoutParams> {
+    const [encoder, lowerTick, upperTick] = await this.makeEncoder();
     const surplus = this.maskSurplusFlags(opts);
 
     const cmd = encoder.encodeKnockoutMint(
@@ -67,73 +88,57 @@ export class CrocKnockoutHandle {
       this.sellBase,
       surplus,
     );
-    return this.sendCmd(cmd, { value: await this.msgVal(surplus) });
+    return this.constructParams(cmd, { value: await this.msgVal(surplus) });
   }
 
-  async burn(opts?: CrocKnockoutOpts): Promise<TransactionResponse> {
-    const chain = (await this.context).chain;
-    const encoder = new KnockoutEncoder(
-      this.baseToken.tokenAddr,
-      this.quoteToken.tokenAddr,
-      chain.poolIndex,
-    );
-    const [lowerTick, upperTick] = this.tickRange(chain);
-    const surplus = this.maskSurplusFlags(opts);
+  async burnParams(opts?: CrocKnockoutOpts): Promise<CrocKnockoutParams> {
+    const [encoder, lowerTick, upperTick] = await this.makeEncoder();
 
     const cmd = encoder.encodeKnockoutBurnQty(
       await this.qty,
       lowerTick,
       upperTick,
       this.sellBase,
-      surplus,
+      this.maskSurplusFlags(opts),
     );
-    return this.sendCmd(cmd);
+    return this.constructParams(cmd);
   }
 
-  async burnLiq(
+  async burnLiqParams(
     liq: BigNumber,
     opts?: CrocKnockoutOpts,
-  ): Promise<TransactionResponse> {
-    const chain = (await this.context).chain;
-    const encoder = new KnockoutEncoder(
-      this.baseToken.tokenAddr,
-      this.quoteToken.tokenAddr,
-      chain.poolIndex,
-    );
-    const [lowerTick, upperTick] = this.tickRange(chain);
-    const surplus = this.maskSurplusFlags(opts);
+  ): Promise<CrocKnockoutParams> {
+    const [encoder, lowerTick, upperTick] = await this.makeEncoder();
 
     const cmd = encoder.encodeKnockoutBurnLiq(
       roundForConcLiq(liq),
       lowerTick,
       upperTick,
       this.sellBase,
-      surplus,
+      this.maskSurplusFlags(opts),
     );
-    return this.sendCmd(cmd);
+    return this.constructParams(cmd);
   }
 
-  async recoverPost(
+  async recoverPostParams(
     pivotTime: number,
     opts?: CrocKnockoutOpts,
-  ): Promise<TransactionResponse> {
-    const chain = (await this.context).chain;
-    const encoder = new KnockoutEncoder(
-      this.baseToken.tokenAddr,
-      this.quoteToken.tokenAddr,
-      chain.poolIndex,
-    );
-    const [lowerTick, upperTick] = this.tickRange(chain);
-    const surplus = this.maskSurplusFlags(opts);
+  ): Promise<CrocKnockoutParams> {
+    const [encoder, lowerTick, upperTick] = await this.makeEncoder();
 
     const cmd = encoder.encodeKnockoutRecover(
       pivotTime,
       lowerTick,
       upperTick,
       this.sellBase,
-      surplus,
+      this.maskSurplusFlags(opts),
     );
-    return this.sendCmd(cmd);
+    return this.constructParams(cmd);
+  }
+
+  /* Lower and upper tick of the knockout range. */
+  async ticks(): Promise<[number, number]> {
+    return this.tickRange((await this.context).chain);
   }
 
   async willMintFail(): Promise<boolean> {
@@ -142,7 +147,7 @@ export class CrocKnockoutHandle {
       c.query.queryCurveTick(
         this.baseToken.tokenAddr,
         this.quoteToken.tokenAddr,
-        c.chain.poolIndex,
+        this.poolIndex,
       ),
     );
     return this.sellBase
@@ -150,6 +155,30 @@ export class CrocKnockoutHandle {
       : this.knockoutTick - (await gridSize) <= (await marketTick);
   }
 
+  private async makeEncoder(): Promise<[KnockoutEncoder, number, number]> {
+    const chain = (await this.context).chain;
+    const encoder = new KnockoutEncoder(
+      this.baseToken.tokenAddr,
+      this.quoteToken.tokenAddr,
+      this.poolIndex,
+    );
+    const [lowerTick, upperTick] = this.tickRange(chain);
+    return [encoder, lowerTick, upperTick];
+  }
+
+  private async constructParams(
+    calldata: string,
+    txArgs?: { value?: BigNumberish },
+  ): Promise<CrocKnockoutParams> {
+    const cntx = await this.context;
+    return {
+      contract: cntx.dex,
+      path: KNOCKOUT_PATH,
+      calldata,
+      txArgs,
+    };
+  }
+
   private async sendCmd(
     calldata: string,
     txArgs?: { value?: BigNumberish },
@@ -198,6 +227,7 @@ export class CrocKnockoutHandle {
   readonly sellBase: boolean;
   readonly qtyInBase: boolean;
   readonly knockoutTick: number;
+  readonly poolIndex: number;
   readonly context: Promise<CrocContext>;
 }
 
@@ -205,6 +235,13 @@ export interface CrocKnockoutOpts {
   surplus?: CrocSurplusFlags;
 }
 
+export interface CrocKnockoutParams {
+  contract: Contract;
+  path: number;
+  calldata: string;
+  txArgs?: { value?: BigNumberish };
+}
+
 const KNOCKOUT_PATH = 7;
 
 async function calcSellQty(
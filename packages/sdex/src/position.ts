@@ -56,17 +56,19 @@ export class CrocPositionView {
     );
   }
 
-  async queryKnockoutLivePos(
+  /* Pivot time of the knockout range the position is in, it's needed to claim the position
+   * after the range was knocked out. */
+  async queryKnockoutPivot(
     isBid: boolean,
     lowerTick: number,
     upperTick: number,
     block?: BlockTag,
-  ) {
+  ): Promise<number> {
     const blockArg = toCallArg(block);
     const context = await this.context;
     const pivotTick = isBid ? lowerTick : upperTick;
 
-    const pivotTime = (
+    return (
       await context.query.queryKnockoutPivot(
         this.baseToken.tokenAddr,
         this.quoteToken.tokenAddr,
@@ -76,6 +78,22 @@ export class CrocPositionView {
         blockArg,
       )
     ).pivot;
+  }
+
+  async queryKnockoutLivePos(
+    isBid: boolean,
+    lowerTick: number,
+    upperTick: number,
+    block?: BlockTag,
+  ) {
+    const blockArg = toCallArg(block);
+    const context = await this.context;
+    const pivotTime = await this.queryKnockoutPivot(
+      isBid,
+      lowerTick,
+      upperTick,
+      block,
+    );
 
     return context.query.queryKnockoutTokens(
       this.owner,
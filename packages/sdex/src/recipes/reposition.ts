@@ -1,6 +1,6 @@
 import { TransactionResponse } from '@ethersproject/abstract-provider';
 
-import { BigNumber, BigNumberish } from 'ethers';
+import { BigNumber, BigNumberish, BytesLike, Contract } from 'ethers';
 
 import { OrderDirective, PoolDirective } from '../encoding/longform';
 import { CrocPoolView } from '../pool';
@@ -26,6 +26,12 @@ export interface CrocRepositionOpts {
   impact?: number;
 }
 
+export interface CrocRepositionParams {
+  contract: Contract;
+  path: number;
+  calldata: BytesLike;
+}
+
 export class CrocReposition {
   constructor(
     pool: CrocPoolView,
@@ -42,18 +48,25 @@ export class CrocReposition {
   }
 
   async rebal(): Promise<TransactionResponse> {
-    const directive = await this.formatDirective();
-    const cntx = await this.pool.context;
-    const path = cntx.chain.proxyPaths.long;
-    const gasEst = await cntx.dex.estimateGas.userCmd(
-      path,
-      directive.encodeBytes(),
-    );
-    return cntx.dex.userCmd(path, directive.encodeBytes(), {
+    const { contract, path, calldata } = await this.rebalParams();
+    const gasEst = await contract.estimateGas.userCmd(path, calldata);
+    return contract.userCmd(path, calldata, {
       gasLimit: gasEst.add(GAS_PADDING),
     });
   }
 
+  /* Burn, swap and mint of the rebalance as a single userCmd, sent by the caller
+   * so the transaction can be signed by the wallet of the app. */
+  async rebalParams(): Promise<CrocRepositionParams> {
+    const directive = await this.formatDirective();
+    const cntx = await this.pool.context;
+    return {
+      contract: cntx.dex,
+      path: cntx.chain.proxyPaths.long,
+      calldata: directive.encodeBytes(),
+    };
+  }
+
   async simStatic() {
     const directive = await this.formatDirective();
     const path = (await this.pool.context).chain.proxyPaths.long;
@@ -114,6 +127,11 @@ export class CrocReposition {
       : pool.quoteToken.toDisplay(collat);
   }
 
+  async swapInput(): Promise<string> {
+    const [sellToken] = await this.pivotTokens();
+    return sellToken.toDisplay(await this.convertCollateral());
+  }
+
   async swapOutput(): Promise<string> {
     const [sellToken, buyToken] = await this.pivotTokens();
 
@@ -122,8 +140,8 @@ export class CrocReposition {
       buyToken,
       await this.convertCollateral(),
       false,
-      (await this.pool.context).chain.poolIndex,
-      (await this.pool).context,
+      this.pool.poolIndex,
+      this.pool.context,
       { slippage: this.impact },
     );
     const impact = await swap.calcImpact();
@@ -152,9 +170,7 @@ export class CrocReposition {
 
     const directive = new OrderDirective(openToken.tokenAddr);
     directive.appendHop(closeToken.tokenAddr);
-    const pool = directive.appendPool(
-      (await this.pool.context).chain.poolIndex,
-    );
+    const pool = directive.appendPool(this.pool.poolIndex);
 
     directive.appendRangeBurn(
       this.burnRange[0],
@@ -163,7 +179,7 @@ export class CrocReposition {
     );
     await this.setupSwap(pool);
 
-    directive.appendPool((await this.pool.context).chain.poolIndex);
+    directive.appendPool(this.pool.poolIndex);
 
     if (this.mintRange === 'ambient') {
       const mint = directive.appendAmbientMint(0);
@@ -0,0 +1,333 @@
+import { BigNumber } from 'ethers';
+
+import { MAX_TICK, MIN_TICK } from '../constants';
+import {
+  bigNumToFloat,
+  encodeCrocPrice,
+  floatToBigNum,
+  fromFixedGrowth,
+  priceToTick,
+  tickToPrice,
+} from '../utils';
+import { CrocCurveSnapshot, lotsToLiquidity } from './snapshot';
+
+/* Curve state stepped through by the simulator. Values are floating point, the same
+ * precision the rest of the sdex liquidity math works with.
+ *
+ * priceRoot is the square root of the (non-display) price, seedDeflator is the cumulative
+ * growth multiplier of ambient seeds and concGrowth the cumulative rewards of concentrated
+ * liquidity, in ambient seeds per unit of liquidity. */
+export interface CrocCurveState {
+  priceRoot: number;
+  tick: number;
+  ambientSeeds: number;
+  seedDeflator: number;
+  concLiq: number;
+  concGrowth: number;
+}
+
+/* Outcome of a simulated swap, in the same shape as the slipQuery calcImpact() call. Flows
+ * are positive when paid by the swapper to the pool and negative when paid out, finalPrice
+ * is the Q64.64 square root price after the swap. */
+export interface CrocSimulatedSwap {
+  baseFlow: BigNumber;
+  quoteFlow: BigNumber;
+  finalPrice: BigNumber;
+  finalTick: number;
+  crossedTicks: number[];
+  liqFee: BigNumber;
+  protocolFee: BigNumber;
+  feesInBase: boolean;
+}
+
+interface CrocLevel {
+  bidLiq: number;
+  askLiq: number;
+}
+
+interface SegmentFlows {
+  priceRoot: number;
+  base: number;
+  quote: number;
+  consumed: number;
+}
+
+/* Fee rates are in hundredths of basis points and the protocol take in 1/256ths. */
+const FEE_RATE_PRECISION = 1_000_000;
+const PROTOCOL_TAKE_PRECISION = 256;
+
+/* Offline model of a pool's constant product curve, used to quote swaps and to test the
+ * sdex math without an RPC node.
+ *
+ * The swap is stepped tick by tick, the same way the CrocSwap contract sweeps liquidity:
+ * each segment ends at the next tick with liquidity (or at the limit price), where the
+ * concentrated liquidity of the crossed tick is added or removed. Within each segment the
+ * fee is charged on the counter side of the fixed quantity and assimilated into ambient
+ * liquidity before the swap is applied, minus the protocol's share.
+ *
+ * The model doesn't track knockout positions: knockout liquidity at a tick is treated
+ * like regular range liquidity. Results are rounded in the pool's favour, but because the
+ * math is floating point they can differ from the contract by a few wei. */
+export class CrocCurveSimulator {
+  constructor(snapshot: CrocCurveSnapshot) {
+    const priceRoot =
+      bigNumToFloat(BigNumber.from(snapshot.priceRoot)) / 2 ** 64;
+
+    this.curve = {
+      priceRoot,
+      tick: priceToTick(priceRoot * priceRoot),
+      ambientSeeds: bigNumToFloat(BigNumber.from(snapshot.ambientSeeds)),
+      seedDeflator: fromFixedGrowth(BigNumber.from(snapshot.seedDeflator)),
+      concLiq: bigNumToFloat(BigNumber.from(snapshot.concLiq)),
+      concGrowth: fromFixedGrowth(BigNumber.from(snapshot.concGrowth)) - 1,
+    };
+    this.feeRate = snapshot.feeRate / FEE_RATE_PRECISION;
+    this.protocolTake = snapshot.protocolTake / PROTOCOL_TAKE_PRECISION;
+
+    this.levels = new Map(
+      snapshot.levels.map(level => [
+        level.tick,
+        {
+          bidLiq: bigNumToFloat(lotsToLiquidity(level.bidLots)),
+          askLiq: bigNumToFloat(lotsToLiquidity(level.askLots)),
+        },
+      ]),
+    );
+    this.ticks = Array.from(this.levels.keys()).sort((a, b) => a - b);
+  }
+
+  get state(): CrocCurveState {
+    return { ...this.curve };
+  }
+
+  /* Total liquidity active at the current price, ambient and concentrated. */
+  get activeLiquidity(): number {
+    return (
+      this.curve.ambientSeeds * this.curve.seedDeflator + this.curve.concLiq
+    );
+  }
+
+  /* The current (non-display) price of the curve. */
+  get spotPrice(): number {
+    return this.curve.priceRoot * this.curve.priceRoot;
+  }
+
+  /* Simulates the swap without changing the curve, the offline equivalent of the slipQuery
+   * calcImpact() call. */
+  calcImpact(
+    isBuy: boolean,
+    inBaseQty: boolean,
+    qty: BigNumber,
+    limitPrice?: number,
+  ): CrocSimulatedSwap {
+    const curve = this.state;
+    try {
+      return this.swap(isBuy, inBaseQty, qty, limitPrice);
+    } finally {
+      this.curve = curve;
+    }
+  }
+
+  /* Applies the swap to the curve, so that consecutive swaps can be replayed.
+   *
+   * @param isBuy True if the swapper pays base token and receives quote token.
+   * @param inBaseQty True if the fixed quantity is denominated in base token.
+   * @param qty The fixed quantity of the swap (in non-display wei).
+   * @param limitPrice Optional (non-display) price the swap stops at, defaults to the
+   *                   price bound of the pool. */
+  swap(
+    isBuy: boolean,
+    inBaseQty: boolean,
+    qty: BigNumber,
+    limitPrice?: number,
+  ): CrocSimulatedSwap {
+    const curve = this.curve;
+    const limitRoot = Math.sqrt(
+      limitPrice ?? tickToPrice(isBuy ? MAX_TICK : MIN_TICK),
+    );
+    const feesInBase = !inBaseQty;
+
+    let remaining = bigNumToFloat(qty);
+    let baseFlow = 0;
+    let quoteFlow = 0;
+    let liqFees = 0;
+    let protocolFees = 0;
+    const crossedTicks: number[] = [];
+
+    while (
+      remaining > 0 &&
+      (isBuy ? curve.priceRoot < limitRoot : curve.priceRoot > limitRoot)
+    ) {
+      const bumpTick = this.nextBump(isBuy);
+      const bumpRoot =
+        bumpTick === undefined ? limitRoot : Math.sqrt(tickToPrice(bumpTick));
+      const segmentRoot = isBuy
+        ? Math.min(bumpRoot, limitRoot)
+        : Math.max(bumpRoot, limitRoot);
+
+      // fee is charged on the counter flow the segment would have before the fee is paid
+      const estimate = swapOverSegment(
+        this.activeLiquidity,
+        curve.priceRoot,
+        segmentRoot,
+        isBuy,
+        inBaseQty,
+        remaining,
+      );
+      const fee = (inBaseQty ? estimate.quote : estimate.base) * this.feeRate;
+      const protocolFee = fee * this.protocolTake;
+      this.assimilateFees(fee - protocolFee, feesInBase, segmentRoot, isBuy);
+
+      const flows = swapOverSegment(
+        this.activeLiquidity,
+        curve.priceRoot,
+        segmentRoot,
+        isBuy,
+        inBaseQty,
+        remaining,
+      );
+
+      baseFlow += isBuy ? flows.base : -flows.base;
+      quoteFlow += isBuy ? -flows.quote : flows.quote;
+      if (feesInBase) {
+        baseFlow += fee;
+      } else {
+        quoteFlow += fee;
+      }
+      liqFees += fee - protocolFee;
+      protocolFees += protocolFee;
+      remaining -= flows.consumed;
+
+      const startTick = curve.tick;
+      curve.priceRoot = flows.priceRoot;
+
+      if (bumpTick !== undefined && flows.priceRoot === bumpRoot) {
+        this.crossTick(bumpTick, isBuy);
+        crossedTicks.push(bumpTick);
+      } else {
+        const tick = priceToTick(this.spotPrice);
+        curve.tick = isBuy
+          ? Math.max(startTick, Math.min(tick, (bumpTick ?? MAX_TICK) - 1))
+          : Math.min(startTick, Math.max(tick, bumpTick ?? MIN_TICK));
+      }
+    }
+
+    return {
+      baseFlow: roundFlow(baseFlow),
+      quoteFlow: roundFlow(quoteFlow),
+      finalPrice: encodeCrocPrice(this.spotPrice),
+      finalTick: curve.tick,
+      crossedTicks,
+      liqFee: floatToBigNum(liqFees),
+      protocolFee: floatToBigNum(protocolFees),
+      feesInBase,
+    };
+  }
+
+  /* The next tick with liquidity in the direction of the swap. Moving up the curve that's
+   * the first tick above the current one, moving down it's the lower edge of the current
+   * tick. */
+  private nextBump(isBuy: boolean): number | undefined {
+    const tick = this.curve.tick;
+    if (isBuy) {
+      return this.ticks.find(level => level > tick);
+    }
+    return [...this.ticks].reverse().find(level => level <= tick);
+  }
+
+  /* Ranges with the lower bound at the tick become active when the price moves above it and
+   * ranges with the upper bound at the tick become inactive, and the other way around. */
+  private crossTick(tick: number, isBuy: boolean) {
+    const level = this.levels.get(tick) as CrocLevel;
+    const delta = isBuy
+      ? level.bidLiq - level.askLiq
+      : level.askLiq - level.bidLiq;
+
+    this.curve.concLiq = Math.max(this.curve.concLiq + delta, 0);
+    this.curve.tick = isBuy ? tick : tick - 1;
+  }
+
+  /* Converts the liquidity fees paid in one token into ambient liquidity. Adding collateral
+   * on one side inflates the liquidity by sqrt(1 + fees / reserves) and moves the price by
+   * the same factor, keeping the reserves of the other token unchanged. The share earned by
+   * concentrated liquidity is paid out as ambient seeds and tracked in concGrowth. */
+  private assimilateFees(
+    fees: number,
+    inBase: boolean,
+    segmentRoot: number,
+    isBuy: boolean,
+  ) {
+    const curve = this.curve;
+    const liq = this.activeLiquidity;
+    if (fees <= 0 || liq <= 0) {
+      return;
+    }
+
+    const reserves = inBase ? liq * curve.priceRoot : liq / curve.priceRoot;
+    const inflator = Math.sqrt(1 + fees / reserves);
+
+    const priceRoot = inBase
+      ? curve.priceRoot * inflator
+      : curve.priceRoot / inflator;
+    curve.priceRoot = isBuy
+      ? Math.min(priceRoot, segmentRoot)
+      : Math.max(priceRoot, segmentRoot);
+
+    const seedDeflator = curve.seedDeflator * inflator;
+    const concRewards = (inflator - 1) / seedDeflator;
+    curve.ambientSeeds += curve.concLiq * concRewards;
+    curve.concGrowth += concRewards;
+    curve.seedDeflator = seedDeflator;
+  }
+
+  private curve: CrocCurveState;
+  private readonly feeRate: number;
+  private readonly protocolTake: number;
+  private readonly levels: Map<number, CrocLevel>;
+  private readonly ticks: number[];
+}
+
+/* Swaps the fixed quantity over constant liquidity, stopping at the segment's end price.
+ * Base reserves of the curve are liq * priceRoot and quote reserves liq / priceRoot. */
+function swapOverSegment(
+  liq: number,
+  priceRoot: number,
+  limitRoot: number,
+  isBuy: boolean,
+  inBaseQty: boolean,
+  qty: number,
+): SegmentFlows {
+  if (liq <= 0) {
+    return { priceRoot: limitRoot, base: 0, quote: 0, consumed: 0 };
+  }
+
+  const capacity = inBaseQty
+    ? liq * Math.abs(limitRoot - priceRoot)
+    : liq * Math.abs(1 / priceRoot - 1 / limitRoot);
+
+  let endRoot = limitRoot;
+  if (qty < capacity) {
+    if (inBaseQty) {
+      endRoot = isBuy ? priceRoot + qty / liq : priceRoot - qty / liq;
+    } else {
+      endRoot =
+        1 / (isBuy ? 1 / priceRoot - qty / liq : 1 / priceRoot + qty / liq);
+    }
+  }
+
+  // the fixed side is taken as is, to not lose precision on the price round trip
+  const consumed = Math.min(qty, capacity);
+  return {
+    priceRoot: endRoot,
+    base: inBaseQty ? consumed : liq * Math.abs(endRoot - priceRoot),
+    quote: inBaseQty ? liq * Math.abs(1 / priceRoot - 1 / endRoot) : consumed,
+    consumed,
+  };
+}
+
+/* Rounds flows paid to the pool up and flows paid out down. */
+function roundFlow(flow: number): BigNumber {
+  return flow > 0
+    ? floatToBigNum(Math.ceil(flow))
+    : floatToBigNum(Math.floor(-flow)).mul(-1);
+}
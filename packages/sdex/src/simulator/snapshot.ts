@@ -0,0 +1,172 @@
+import { BigNumber, BigNumberish, Contract } from 'ethers';
+
+import { MAX_SQRT_PRICE, MIN_SQRT_PRICE } from '../constants';
+import { CrocPoolView } from '../pool';
+
+type BlockTag = number | string;
+
+/* Liquidity resting at a single tick, as returned by the queryLevel() call. Lots are kept
+ * as decimal strings so snapshots can be stored as JSON fixtures. */
+export interface CrocLevelSnapshot {
+  tick: number;
+  bidLots: string;
+  askLots: string;
+}
+
+/* Offline copy of a pool's curve and the tick liquidity around it. Curve fields are the raw
+ * values returned by queryCurve(): priceRoot is the Q64.64 square root price, seedDeflator and
+ * concGrowth are Q16.48 growth rates. The fee rate is in hundredths of basis points and the
+ * protocol take is the protocol's share of the fee in 1/256ths. */
+export interface CrocCurveSnapshot {
+  priceRoot: string;
+  ambientSeeds: string;
+  concLiq: string;
+  seedDeflator: string;
+  concGrowth: string;
+  feeRate: number;
+  protocolTake: number;
+  levels: CrocLevelSnapshot[];
+}
+
+/* A swap quoted on-chain by the slipQuery calcImpact() call, with the same arguments and
+ * results as CrocCurveSimulator.calcImpact(). Quantities are kept as decimal strings. */
+export interface CrocRecordedSwap {
+  isBuy: boolean;
+  inBaseQty: boolean;
+  qty: string;
+  baseFlow: string;
+  quoteFlow: string;
+  finalPrice: string;
+}
+
+/* Snapshot of a pool together with swaps quoted on-chain at the same block, used to verify
+ * the simulator against the contract. */
+export interface CrocCurveRecording {
+  block: number;
+  snapshot: CrocCurveSnapshot;
+  swaps: CrocRecordedSwap[];
+}
+
+const POOL_PARAMS_ABI = [
+  'function queryPoolParams(address base, address quote, uint256 poolIdx) view returns (tuple(uint8 schema_, uint16 feeRate_, uint8 protocolTake_, uint16 tickSize_, uint8 jitThresh_, uint8 knockoutBits_, uint8 oracleFlags_))',
+];
+
+/* Liquidity at a tick is stored in lots of 1024 units. The lowest bit of the lots is a flag
+ * marking knockout liquidity and is not part of the amount. */
+const LOT_SIZE_BITS = 10;
+
+export function lotsToLiquidity(lots: BigNumberish): BigNumber {
+  return BigNumber.from(lots).shr(1).shl(1).shl(LOT_SIZE_BITS);
+}
+
+/* Reads the curve state, fee parameters and the liquidity at the given ticks of the pool.
+ *
+ * @param pool The pool to snapshot.
+ * @param ticks The ticks with liquidity the simulated swaps may cross. Swaps crossing ticks
+ *              which are not part of the snapshot will see stale concentrated liquidity.
+ * @param block Optional block to take the snapshot at, defaults to the latest block. */
+export async function queryCurveSnapshot(
+  pool: CrocPoolView,
+  ticks: number[],
+  block?: BlockTag,
+): Promise<CrocCurveSnapshot> {
+  const context = await pool.context;
+  const txArgs = block ? { blockTag: block } : {};
+  const base = pool.baseToken.tokenAddr;
+  const quote = pool.quoteToken.tokenAddr;
+
+  const query = new Contract(
+    context.query.address,
+    POOL_PARAMS_ABI,
+    context.provider,
+  );
+
+  const [curve, params, levels] = await Promise.all([
+    pool.curveState(block),
+    query.queryPoolParams(base, quote, pool.poolIndex, txArgs),
+    Promise.all(
+      ticks.map(async tick => {
+        const level = await context.query.queryLevel(
+          base,
+          quote,
+          pool.poolIndex,
+          tick,
+          txArgs,
+        );
+        return {
+          tick,
+          bidLots: level.bidLots.toString(),
+          askLots: level.askLots.toString(),
+        };
+      }),
+    ),
+  ]);
+
+  return {
+    priceRoot: curve.priceRoot_.toString(),
+    ambientSeeds: curve.ambientSeeds_.toString(),
+    concLiq: curve.concLiq_.toString(),
+    seedDeflator: curve.seedDeflator_.toString(),
+    concGrowth: curve.concGrowth_.toString(),
+    feeRate: params.feeRate_,
+    protocolTake: params.protocolTake_,
+    levels,
+  };
+}
+
+/* Quotes the swaps with the slipQuery calcImpact() call, without a price limit.
+ *
+ * @param pool The pool to quote the swaps in.
+ * @param swaps The direction and fixed quantity of each swap.
+ * @param block The block to quote at, should be the block the snapshot was taken at. */
+export async function recordCurveSwaps(
+  pool: CrocPoolView,
+  swaps: Pick<CrocRecordedSwap, 'isBuy' | 'inBaseQty' | 'qty'>[],
+  block: BlockTag,
+): Promise<CrocRecordedSwap[]> {
+  const context = await pool.context;
+  const TIP = 0;
+
+  return Promise.all(
+    swaps.map(async swap => {
+      const impact = await context.slipQuery.calcImpact(
+        pool.baseToken.tokenAddr,
+        pool.quoteToken.tokenAddr,
+        pool.poolIndex,
+        swap.isBuy,
+        swap.inBaseQty,
+        swap.qty,
+        TIP,
+        swap.isBuy ? MAX_SQRT_PRICE : MIN_SQRT_PRICE,
+        { blockTag: block },
+      );
+      return {
+        ...swap,
+        baseFlow: impact.baseFlow.toString(),
+        quoteFlow: impact.quoteFlow.toString(),
+        finalPrice: impact.finalPrice.toString(),
+      };
+    }),
+  );
+}
+
+/* Parses a snapshot stored as JSON, e.g. a fixture recorded with queryCurveSnapshot(). */
+export function parseCurveSnapshot(json: string): CrocCurveSnapshot {
+  const snapshot = JSON.parse(json);
+  const fields = [
+    'priceRoot',
+    'ambientSeeds',
+    'concLiq',
+    'seedDeflator',
+    'concGrowth',
+    'feeRate',
+    'protocolTake',
+  ];
+
+  const missing = fields.filter(field => snapshot[field] === undefined);
+  if (missing.length > 0) {
+    throw new Error(`Curve snapshot is missing ${missing.join(', ')}`);
+  }
+
+  return { ...snapshot, levels: snapshot.levels ?? [] };
+}
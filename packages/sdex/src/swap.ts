@@ -11,6 +11,7 @@ import {
   decodeSurplusFlag,
   encodeSurplusArg,
 } from './encoding/flags';
+import { OrderDirective } from './encoding/longform';
 import { CrocPoolView } from './pool';
 import { CrocSlotReader } from './slots';
 import {
@@ -46,15 +47,91 @@ export interface CrocTransactionData {
   value: BigNumber;
 }
 
+/* Whether the swap is settled with the dex surplus collateral instead of the wallet, either
+ * for both sides or separately for the sold and bought token. */
+export type CrocSwapSettlement =
+  | boolean
+  | { buyDexSurplus: boolean; sellDexSurplus: boolean };
+
 /* Options for the */
 export interface CrocSwapExecOpts {
-  settlement?: boolean | { buyDexSurplus: boolean; sellDexSurplus: boolean };
+  settlement?: CrocSwapSettlement;
   gasEst?: BigNumber;
   from?: string;
 }
 
+/* Describes one hop of a multi-hop swap path.
+ * @property token The address of the token bought in the hop.
+ * @property poolIndex The index of the pool the hop is swapped in. */
+export interface CrocSwapHop {
+  token: string;
+  poolIndex: number;
+}
+
+/* Describes a pool which can be used when discovering a multi-hop swap path. */
+export interface CrocSwapPool {
+  base: string;
+  quote: string;
+  poolIndex: number;
+}
+
+/* Options for the swap plan.
+ * @property slippage The maximum slippage tolerance of the swap.
+ * @property path Explicit path of the swap, ending with the bought token. Swaps
+ *                across multiple hops are settled once as a single long-form order.
+ * @property pools Pools to discover the shortest swap path through, when no explicit
+ *                 path is provided.
+ * @property surplus Settlement of the swap with the dex surplus collateral, used when the
+ *                   swap is executed without an explicit settlement. */
 export interface CrocSwapPlanOpts {
   slippage?: number;
+  path?: CrocSwapHop[];
+  pools?: CrocSwapPool[];
+  surplus?: CrocSwapSettlement;
+}
+
+/* Finds the path through the fewest pools between two tokens.
+ * @param pools The pools which can be used by the path.
+ * @param sellToken The address of the token to sell.
+ * @param buyToken The address of the token to buy.
+ * @returns The hops of the path, or undefined if the tokens are not connected. */
+export function findSwapPath(
+  pools: CrocSwapPool[],
+  sellToken: string,
+  buyToken: string,
+): CrocSwapHop[] | undefined {
+  const start = sellToken.toLowerCase();
+  const end = buyToken.toLowerCase();
+
+  const paths = new Map<string, CrocSwapHop[]>([[start, []]]);
+  const queue = [start];
+
+  while (queue.length > 0) {
+    const token = queue.shift() as string;
+    const path = paths.get(token) as CrocSwapHop[];
+
+    if (token === end) {
+      return path;
+    }
+
+    for (const pool of pools) {
+      const [base, quote] = [pool.base.toLowerCase(), pool.quote.toLowerCase()];
+      const next = base === token ? quote : quote === token ? base : undefined;
+
+      if (next !== undefined && !paths.has(next)) {
+        paths.set(next, [...path, { token: next, poolIndex: pool.poolIndex }]);
+        queue.push(next);
+      }
+    }
+  }
+
+  return undefined;
+}
+
+interface SwapLeg {
+  sellToken: CrocTokenView;
+  buyToken: CrocTokenView;
+  poolIndex: number;
 }
 
 export class CrocSwapPlan {
@@ -68,7 +145,12 @@ export class CrocSwapPlan {
     context: Promise<CrocContext>,
     opts: CrocSwapPlanOpts = DFLT_SWAP_ARGS,
   ) {
-    this.poolIndex = poolIndex;
+    this.legs = this.resolveLegs(sellToken, buyToken, poolIndex, context, opts);
+    if (this.legs.length > 1 && qtyIsBuy) {
+      throw new Error('Multi-hop swaps require a fixed sell quantity');
+    }
+
+    this.poolIndex = this.legs[0].poolIndex;
 
     [this.baseToken, this.quoteToken] = sortBaseQuoteViews(sellToken, buyToken);
     this.sellBase = this.baseToken === sellToken;
@@ -84,6 +166,7 @@ export class CrocSwapPlan {
     this.qty = tokenView.normQty(qty);
 
     this.slippage = opts.slippage || DFLT_SWAP_ARGS.slippage;
+    this.surplus = opts.surplus;
     this.priceSlippage = this.slippage * PRICE_SLIP_MULT;
     this.context = context;
 
@@ -134,6 +217,10 @@ export class CrocSwapPlan {
   private async buildTxData(
     args: CrocSwapExecOpts,
   ): Promise<CrocTransactionData> {
+    if (this.isMultiHop) {
+      return this.longFormBuildTxData(args);
+    }
+
     const { to, data, value } = await this.hotPathBuildTxData(
       await this.txBase(),
       args,
@@ -259,7 +346,9 @@ export class CrocSwapPlan {
   }
 
   async txBase() {
-    if (this.callType === 'router') {
+    if (this.isMultiHop) {
+      return (await this.context).dex;
+    } else if (this.callType === 'router') {
       const router = (await this.context).router;
       if (!router) {
         throw new Error('Router not available on network');
@@ -284,7 +373,9 @@ export class CrocSwapPlan {
     args: CrocSwapExecOpts,
   ) {
     const reader = new CrocSlotReader(this.context);
-    if (this.callType === 'router') {
+    if (this.isMultiHop) {
+      return this.longFormCall(base, args);
+    } else if (this.callType === 'router') {
       return this.swapCall(base, args);
     } else if (this.callType === 'bypass') {
       return this.swapCall(base, args);
@@ -399,6 +490,10 @@ export class CrocSwapPlan {
   }
 
   async calcImpact(): Promise<CrocImpact> {
+    if (this.isMultiHop) {
+      return this.calcMultiHopImpact();
+    }
+
     const TIP = 0;
     const limitPrice = this.sellBase ? MAX_SQRT_PRICE : MIN_SQRT_PRICE;
 
@@ -431,22 +526,215 @@ export class CrocSwapPlan {
     };
   }
 
+  /* Output of each hop is the input of the next one. Prices are the products of the
+   * display prices of the hops, in the bought token per sold token. */
+  private async calcMultiHopImpact(): Promise<CrocImpact> {
+    const TIP = 0;
+    const cntx = await this.context;
+
+    let qty = await this.qty;
+    let startPrice = 1;
+    let finalPrice = 1;
+
+    for (const leg of this.legs) {
+      const [base, quote] = sortBaseQuoteViews(leg.sellToken, leg.buyToken);
+      const sellBase = base === leg.sellToken;
+
+      const impact = await cntx.slipQuery.calcImpact(
+        base.tokenAddr,
+        quote.tokenAddr,
+        leg.poolIndex,
+        sellBase,
+        sellBase,
+        qty,
+        TIP,
+        sellBase ? MAX_SQRT_PRICE : MIN_SQRT_PRICE,
+      );
+
+      const pool = new CrocPoolView(
+        leg.sellToken,
+        leg.buyToken,
+        leg.poolIndex,
+        this.context,
+      );
+      startPrice *= await pool.displayPrice();
+      finalPrice *= await pool.toDisplayPrice(
+        decodeCrocPrice(impact.finalPrice),
+      );
+
+      qty = (sellBase ? impact.quoteFlow : impact.baseFlow).abs();
+    }
+
+    const lastLeg = this.legs[this.legs.length - 1];
+
+    return {
+      sellQty: await this.legs[0].sellToken.toDisplay(await this.qty),
+      buyQty: await lastLeg.buyToken.toDisplay(qty),
+      finalPrice,
+      percentChange: (finalPrice - startPrice) / startPrice,
+    };
+  }
+
+  /* Sold token is paid when the order opens and the bought token is paid out by the
+   * settlement of the last hop, tokens in between are rolled over from hop to hop. */
+  private async formatDirective(
+    args: CrocSwapExecOpts,
+  ): Promise<OrderDirective> {
+    const [sellSurplus, buySurplus] = this.maskMultiHopSurplusFlags(args);
+    const directive = new OrderDirective(this.legs[0].sellToken.tokenAddr);
+    directive.open.limitQty = await this.qty;
+    directive.open.useSurplus = sellSurplus;
+
+    for (const [index, leg] of this.legs.entries()) {
+      const hop = directive.appendHop(leg.buyToken.tokenAddr);
+      const pool = directive.appendPool(leg.poolIndex);
+
+      const sellBase =
+        sortBaseQuoteViews(leg.sellToken, leg.buyToken)[0] === leg.sellToken;
+      pool.swap.isBuy = sellBase;
+      pool.swap.inBaseQty = sellBase;
+      pool.swap.limitPrice = sellBase ? MAX_SQRT_PRICE : MIN_SQRT_PRICE;
+
+      if (index === 0) {
+        pool.swap.qty = await this.qty;
+      } else {
+        pool.swap.rollType = ROLL_FRAC_TYPE;
+        pool.swap.qty = BigNumber.from(ROLL_FRAC_FULL);
+      }
+
+      if (index === this.legs.length - 1) {
+        hop.settlement.limitQty = (await this.calcSlipQty()).mul(-1);
+        hop.settlement.useSurplus = buySurplus;
+      }
+    }
+
+    return directive;
+  }
+
+  private async longFormArgs(args: CrocSwapExecOpts) {
+    const directive = await this.formatDirective(args);
+    const cntx = await this.context;
+    const [sellSurplus] = this.maskMultiHopSurplusFlags(args);
+
+    // Only need msg.val if native ETH is sold, part of it may be covered by the surplus
+    let value = BigNumber.from(0);
+    if (this.legs[0].sellToken.tokenAddr === AddressZero) {
+      value = sellSurplus
+        ? await new CrocEthView(this.context).msgValOverSurplus(await this.qty)
+        : await this.qty;
+    }
+
+    return {
+      path: cntx.chain.proxyPaths.long,
+      calldata: directive.encodeBytes(),
+      value,
+    };
+  }
+
+  private async longFormBuildTxData(
+    args: CrocSwapExecOpts,
+  ): Promise<CrocTransactionData> {
+    const contract = (await this.context).dex;
+    const { path, calldata, value } = await this.longFormArgs(args);
+
+    return {
+      to: contract.address,
+      data: contract.interface.encodeFunctionData('userCmd', [path, calldata]),
+      value,
+    };
+  }
+
+  private async longFormCall<T>(
+    base: { [name: string]: ContractFunction<T> },
+    args: CrocSwapExecOpts,
+  ) {
+    const { path, calldata, value } = await this.longFormArgs(args);
+
+    return base.userCmd(path, calldata, {
+      gasLimit: args.gasEst?.add(GAS_PADDING),
+      value,
+    });
+  }
+
+  private maskMultiHopSurplusFlags(
+    args?: CrocSwapExecOpts,
+  ): [boolean, boolean] {
+    const settlement = this.resolveSettlement(args);
+    if (!settlement) {
+      return [false, false];
+    } else if (typeof settlement === 'boolean') {
+      return [settlement, settlement];
+    } else {
+      return [settlement.sellDexSurplus, settlement.buyDexSurplus];
+    }
+  }
+
+  private resolveLegs(
+    sellToken: CrocTokenView,
+    buyToken: CrocTokenView,
+    poolIndex: number,
+    context: Promise<CrocContext>,
+    opts: CrocSwapPlanOpts,
+  ): SwapLeg[] {
+    const path =
+      opts.path ??
+      (opts.pools
+        ? findSwapPath(opts.pools, sellToken.tokenAddr, buyToken.tokenAddr)
+        : [{ token: buyToken.tokenAddr, poolIndex }]);
+
+    if (!path || path.length === 0) {
+      throw new Error('No swap path found between the tokens');
+    }
+
+    const lastHop = path[path.length - 1];
+    if (lastHop.token.toLowerCase() !== buyToken.tokenAddr.toLowerCase()) {
+      throw new Error('Swap path must end with the bought token');
+    }
+
+    let prevToken = sellToken;
+    return path.map((hop, index) => {
+      const token =
+        index === path.length - 1
+          ? buyToken
+          : new CrocTokenView(context, hop.token);
+      const leg = {
+        sellToken: prevToken,
+        buyToken: token,
+        poolIndex: hop.poolIndex,
+      };
+      prevToken = token;
+      return leg;
+    });
+  }
+
+  get isMultiHop(): boolean {
+    return this.legs.length > 1;
+  }
+
   public maskSurplusArgs(args?: CrocSwapExecOpts): number {
     return encodeSurplusArg(this.maskSurplusFlags(args));
   }
 
   private maskSurplusFlags(args?: CrocSwapExecOpts): CrocSurplusFlags {
-    if (!args || !args.settlement) {
+    const settlement = this.resolveSettlement(args);
+    if (!settlement) {
       return [false, false];
-    } else if (typeof args.settlement === 'boolean') {
-      return [args.settlement, args.settlement];
+    } else if (typeof settlement === 'boolean') {
+      return [settlement, settlement];
     } else {
       return this.sellBase
-        ? [args.settlement.sellDexSurplus, args.settlement.buyDexSurplus]
-        : [args.settlement.buyDexSurplus, args.settlement.sellDexSurplus];
+        ? [settlement.sellDexSurplus, settlement.buyDexSurplus]
+        : [settlement.buyDexSurplus, settlement.sellDexSurplus];
     }
   }
 
+  /* Settlement given at execution takes precedence over the one of the plan. */
+  private resolveSettlement(
+    args?: CrocSwapExecOpts,
+  ): CrocSwapSettlement | undefined {
+    return args?.settlement ?? this.surplus;
+  }
+
   public async buildTxArgs(surplusArg: number, gasEst?: BigNumber) {
     const txArgs = await this.attachEthMsg(surplusArg);
 
@@ -518,12 +806,18 @@ export class CrocSwapPlan {
   readonly qtyInBase: boolean;
   readonly slippage: number;
   readonly priceSlippage: number;
+  readonly surplus?: CrocSwapSettlement;
   readonly poolView: CrocPoolView;
   readonly context: Promise<CrocContext>;
   readonly impact: Promise<CrocImpact>;
+  private readonly legs: SwapLeg[];
   protected callType: string;
 }
 
+// Rolls the given fraction (in basis points) of the flow of the previous hop
+const ROLL_FRAC_TYPE = 4;
+const ROLL_FRAC_FULL = 10000;
+
 // Price slippage limit multiplies normal slippage tolerance by the amount that should
 // be reasonable (300%)
 const PRICE_SLIP_MULT = 3.0;
@@ -1,7 +1,7 @@
 import { AddressZero, MaxUint256 } from '@ethersproject/constants';
 import { TransactionResponse } from '@ethersproject/providers';
 
-import { Contract, BigNumber, ethers } from 'ethers';
+import { Contract, BigNumber, BigNumberish, ethers } from 'ethers';
 
 import { MAX_LIQ } from './constants';
 import { CrocContext } from './context';
@@ -20,6 +20,15 @@ type ApproveParams = {
   gasLimit: BigNumber;
 };
 
+/* Params of a surplus collateral command. Sent by the caller through userCmd of the dex
+ * contract, so the transaction can be signed by the wallet of the app. */
+export interface CrocSurplusParams {
+  contract: Contract;
+  path: number;
+  calldata: string;
+  txArgs?: { value?: BigNumberish };
+}
+
 /* General top-level class for interacting with specific ERC20 tokens. Handles functionality for
  * approval, getting token balances both in wallet and on dex, and display/decimalization. */
 export class CrocTokenView {
@@ -208,24 +217,47 @@ export class CrocTokenView {
     return (await this.context).erc20Write.attach(this.tokenAddr);
   }
 
+  /* Deposits tokens from the wallet of the sender to the dex surplus collateral of the
+   * receiver. */
   async deposit(qty: TokenQty, recv: string): Promise<TransactionResponse> {
-    return this.surplusOp(73, qty, recv, this.isNativeEth);
+    return this.surplusOp(await this.depositParams(qty, recv));
   }
 
+  /* Withdraws tokens from the dex surplus collateral of the sender to the receiver's wallet. */
   async withdraw(qty: TokenQty, recv: string): Promise<TransactionResponse> {
-    return this.surplusOp(74, qty, recv);
+    return this.surplusOp(await this.withdrawParams(qty, recv));
   }
 
+  /* Transfers dex surplus collateral of the sender to the surplus collateral of the
+   * receiver, without leaving the dex. */
   async transfer(qty: TokenQty, recv: string): Promise<TransactionResponse> {
-    return this.surplusOp(75, qty, recv);
+    return this.surplusOp(await this.transferParams(qty, recv));
+  }
+
+  async depositParams(qty: TokenQty, recv: string): Promise<CrocSurplusParams> {
+    return this.surplusParams(73, qty, recv, this.isNativeEth);
+  }
+
+  async withdrawParams(
+    qty: TokenQty,
+    recv: string,
+  ): Promise<CrocSurplusParams> {
+    return this.surplusParams(74, qty, recv);
+  }
+
+  async transferParams(
+    qty: TokenQty,
+    recv: string,
+  ): Promise<CrocSurplusParams> {
+    return this.surplusParams(75, qty, recv);
   }
 
-  private async surplusOp(
+  private async surplusParams(
     subCode: number,
     qty: TokenQty,
     recv: string,
     useMsgVal: boolean = false,
-  ): Promise<TransactionResponse> {
+  ): Promise<CrocSurplusParams> {
     const abiCoder = new ethers.utils.AbiCoder();
     const weiQty = this.normQty(qty);
     const cmd = abiCoder.encode(
@@ -233,15 +265,26 @@ export class CrocTokenView {
       [subCode, recv, await weiQty, this.tokenAddr],
     );
 
-    const txArgs = useMsgVal ? { value: await weiQty } : {};
     const cntx = await this.context;
-    const gasEst = await cntx.dex.estimateGas.userCmd(
-      cntx.chain.proxyPaths.cold,
-      cmd,
-      txArgs,
-    );
-    Object.assign(txArgs, { gasLimit: gasEst.add(GAS_PADDING) });
-    return cntx.dex.userCmd(cntx.chain.proxyPaths.cold, cmd, txArgs);
+    return {
+      contract: cntx.dex,
+      path: cntx.chain.proxyPaths.cold,
+      calldata: cmd,
+      txArgs: useMsgVal ? { value: await weiQty } : {},
+    };
+  }
+
+  private async surplusOp({
+    contract,
+    path,
+    calldata,
+    txArgs,
+  }: CrocSurplusParams): Promise<TransactionResponse> {
+    const gasEst = await contract.estimateGas.userCmd(path, calldata, txArgs);
+    return contract.userCmd(path, calldata, {
+      ...txArgs,
+      gasLimit: gasEst.add(GAS_PADDING),
+    });
   }
 
   readonly tokenAddr: string;
@@ -1,4 +1,5 @@
 import { BigNumber } from "ethers";
+import { Price, TokenAmountAsset } from "@sovryn/utils";
 import { MIN_TICK, MAX_TICK } from "../constants";
 
 type Tick = number;
@@ -47,6 +48,28 @@ export function fromDisplayPrice(
   return scaled * Math.pow(10, baseDecimals - quoteDecimals)
 }
 
+/* Same as toDisplayPrice, but returns Price of the quote token denominated in the base
+ * token, which keeps both tokens and can quote token amounts. */
+export function toPrice(
+  price: number,
+  baseToken: TokenAmountAsset,
+  quoteToken: TokenAmountAsset,
+  isInverted = false
+): Price {
+  const display = Price.fromRaw(quoteToken, baseToken, price)
+  return isInverted ? display.invert() : display
+}
+
+/* Returns Price of the tick, see toPrice */
+export function tickToDisplayPrice(
+  tick: Tick,
+  baseToken: TokenAmountAsset,
+  quoteToken: TokenAmountAsset,
+  isInverted = false
+): Price {
+  return toPrice(tickToPrice(tick), baseToken, quoteToken, isInverted)
+}
+
 export function pinTickLower(
   price: number,
   nTicksGrid: number): Tick {
@@ -0,0 +1,43 @@
+import { BigNumber, constants, providers } from 'ethers';
+
+import { ChainIds } from '@sovryn/ethers-provider';
+import { Decimal } from '@sovryn/utils';
+
+import { SwapQuote, SwapRoute } from '../../swaps/smart-router/types';
+
+// route stub for the SmartRouter tests, available on the chains the tests use
+export const makeRoute = (
+  name: string,
+  pairs: [string, string[]][],
+  overrides: Partial<SwapRoute> = {},
+): SwapRoute =>
+  ({
+    name,
+    chains: [ChainIds.RSK_MAINNET, ChainIds.BOB_MAINNET],
+    pairs: async () => new Map(pairs),
+    ...overrides,
+  } as unknown as SwapRoute);
+
+// quote details without fees, price impact and gas
+export const makeQuoteDetails = (
+  amountOut: BigNumber,
+  minimumOut: BigNumber = amountOut,
+): SwapQuote => ({
+  amountOut,
+  minimumOut,
+  protocolFee: constants.Zero,
+  lpFee: constants.Zero,
+  spotPrice: Decimal.ONE,
+  priceImpact: Decimal.ZERO,
+  gasEstimate: constants.Zero,
+});
+
+// provider stub at block 1 with zero gas price
+export const makeProvider = (
+  overrides: Partial<Record<keyof providers.Provider, unknown>> = {},
+): providers.Provider =>
+  ({
+    getBlockNumber: async () => 1,
+    getGasPrice: async () => constants.Zero,
+    ...overrides,
+  } as unknown as providers.Provider);
@@ -0,0 +1,95 @@
+import { utils } from 'ethers';
+
+import { SovrynErrorCode, makeError } from '../../errors/errors';
+import {
+  decodeRevertError,
+  decodeRevertReason,
+} from '../../errors/revert-decoder';
+
+const encodeErrorString = (reason: string) =>
+  utils.hexConcat([
+    '0x08c379a0',
+    utils.defaultAbiCoder.encode(['string'], [reason]),
+  ]);
+
+describe('errors/revert-decoder', () => {
+  describe('decodeRevertReason', () => {
+    it.each([
+      ['Pausable: paused', SovrynErrorCode.CONTRACT_PAUSED],
+      ['ERR_INVALID_PATH', SovrynErrorCode.SWAP_PAIR_NOT_AVAILABLE],
+      ['ERR_RETURN_TOO_LOW', SovrynErrorCode.SWAP_SLIPPAGE_EXCEEDED],
+      ['Fee exceeded provided maximum', SovrynErrorCode.SWAP_SLIPPAGE_EXCEEDED],
+      ['ERC20Permit: expired deadline', SovrynErrorCode.SWAP_PERMIT_EXPIRED],
+      ['ERC20: insufficient allowance', SovrynErrorCode.SWAP_ALLOWANCE_MISSING],
+      [
+        'ERC20: transfer amount exceeds balance',
+        SovrynErrorCode.SWAP_LOW_BALANCE,
+      ],
+      [
+        'Not enough DOC in the system',
+        SovrynErrorCode.SWAP_INSUFFICIENT_LIQUIDITY,
+      ],
+      ['basket out of balance', SovrynErrorCode.MYNT_CAP_REACHED],
+      [
+        'TroveManager: Cannot redeem when TCR < MCR',
+        SovrynErrorCode.ZERO_RECOVERY_MODE,
+      ],
+      [
+        'TroveManager: Unable to redeem any amount',
+        SovrynErrorCode.ZERO_REDEMPTION_NOT_AVAILABLE,
+      ],
+    ])('maps "%s" to %s', (reason, code) => {
+      expect(decodeRevertReason(reason)).toBe(code);
+    });
+
+    it('returns undefined for unknown reasons', () => {
+      expect(decodeRevertReason('something went wrong')).toBeUndefined();
+    });
+  });
+
+  describe('decodeRevertError', () => {
+    it('returns sovryn errors unchanged', () => {
+      const error = makeError('low', SovrynErrorCode.SWAP_LOW_BALANCE);
+      expect(decodeRevertError(error)).toBe(error);
+    });
+
+    it('decodes Error(string) revert data of nested errors', () => {
+      const cause = Object.assign(new Error('call revert exception'), {
+        code: 'CALL_EXCEPTION',
+        error: { data: encodeErrorString('ERR_RETURN_TOO_LOW') },
+      });
+
+      const error = decodeRevertError(cause);
+      expect(error.code).toBe(SovrynErrorCode.SWAP_SLIPPAGE_EXCEEDED);
+      expect(error.message).toBe('call revert exception');
+      expect(error.error).toBe(cause);
+    });
+
+    it('decodes Permit2 custom errors', () => {
+      const data = utils.hexConcat([
+        utils.id('SignatureExpired(uint256)').slice(0, 10),
+        utils.defaultAbiCoder.encode(['uint256'], [1]),
+      ]);
+
+      expect(decodeRevertError({ data }).code).toBe(
+        SovrynErrorCode.SWAP_PERMIT_EXPIRED,
+      );
+    });
+
+    it('decodes reason of ethers errors', () => {
+      expect(
+        decodeRevertError({ reason: 'Pausable: paused', message: 'reverted' })
+          .code,
+      ).toBe(SovrynErrorCode.CONTRACT_PAUSED);
+    });
+
+    it('falls back to call exception and unknown error', () => {
+      expect(
+        decodeRevertError({ code: 'CALL_EXCEPTION', message: 'reverted' }).code,
+      ).toBe(SovrynErrorCode.ETHERS_CALL_EXCEPTION);
+      expect(decodeRevertError(new Error('oops')).code).toBe(
+        SovrynErrorCode.UNKNOWN_ERROR,
+      );
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { BigNumber, constants } from 'ethers';
+
+import { feeFromRate, getMaxInput, makeSwapQuote } from '../../internal/utils';
+
+describe('internal/utils', () => {
+  describe('makeSwapQuote', () => {
+    it('applies slippage to minimum output', () => {
+      const quote = makeSwapQuote({
+        amount: constants.WeiPerEther,
+        amountOut: constants.WeiPerEther,
+        spotPrice: 1,
+        gasEstimate: 100_000,
+        slippage: 100,
+      });
+      expect(quote.minimumOut.toString()).toBe('990000000000000000');
+    });
+
+    it('does not apply slippage to fixed rate quotes', () => {
+      const quote = makeSwapQuote({
+        amount: constants.WeiPerEther,
+        amountOut: constants.WeiPerEther,
+        spotPrice: 1,
+        gasEstimate: 100_000,
+        slippage: 100,
+        fixedRate: true,
+      });
+      expect(quote.minimumOut).toEqual(constants.WeiPerEther);
+    });
+
+    it('excludes fees from price impact', () => {
+      const quote = makeSwapQuote({
+        amount: constants.WeiPerEther.mul(10),
+        amountOut: constants.WeiPerEther.mul(17),
+        spotPrice: 2,
+        lpFee: constants.WeiPerEther,
+        protocolFee: constants.WeiPerEther,
+        gasEstimate: 100_000,
+      });
+      expect(quote.priceImpact.toString()).toBe('5');
+    });
+
+    it('returns zero price impact if output is above spot price', () => {
+      const quote = makeSwapQuote({
+        amount: constants.WeiPerEther,
+        amountOut: constants.WeiPerEther.mul(2),
+        spotPrice: 1,
+        gasEstimate: 100_000,
+      });
+      expect(quote.priceImpact.isZero()).toBe(true);
+    });
+  });
+
+  describe('feeFromRate', () => {
+    it('returns fee taken before the output', () => {
+      expect(
+        feeFromRate(BigNumber.from('997000000000000000'), 0.003).toString(),
+      ).toBe('3000000000000000');
+    });
+  });
+
+  describe('getMaxInput', () => {
+    it('adds slippage to the input', () => {
+      expect(getMaxInput(constants.WeiPerEther, 100).toString()).toBe(
+        '1010000000000000000',
+      );
+    });
+  });
+});
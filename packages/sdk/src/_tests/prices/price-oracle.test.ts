@@ -0,0 +1,155 @@
+import { providers } from 'ethers';
+
+import { ChainIds } from '@sovryn/ethers-provider';
+import { Decimal } from '@sovryn/utils';
+
+import { SovrynErrorCode } from '../../errors/errors';
+import { BTC_PRICE_ASSETS, DEFAULT_PRICE_SOURCES } from '../../prices/config';
+import { PriceOracle } from '../../prices/price-oracle';
+import { PriceSourceFunction } from '../../prices/types';
+
+const chainId = ChainIds.BOB_MAINNET;
+
+const makeSource =
+  (
+    name: string,
+    prices: Record<string, string>,
+    calls: string[] = [],
+  ): PriceSourceFunction =>
+  () => ({
+    name,
+    chains: [chainId],
+    usdPrice: async token => {
+      calls.push(token);
+      return prices[token] ? Decimal.from(prices[token]) : undefined;
+    },
+  });
+
+// prices "token" by the price of "other" token
+const relativeSource =
+  (token: string, other: string, rate: string): PriceSourceFunction =>
+  () => ({
+    name: 'Relative',
+    chains: [chainId],
+    usdPrice: async (asset, { usdPrice }) =>
+      asset === token ? (await usdPrice(other))?.mul(rate) : undefined,
+  });
+
+describe('PriceOracle', () => {
+  let block: number;
+  const provider = {
+    getBlockNumber: async () => block,
+  } as unknown as providers.Provider;
+
+  beforeEach(() => {
+    block = 1;
+  });
+
+  it('uses the first source which can price the token', async () => {
+    const oracle = new PriceOracle(provider, {
+      [chainId]: [
+        makeSource('A', { sov: '0.5' }),
+        makeSource('B', { sov: '0.6', eth: '3000' }),
+      ],
+    });
+
+    await expect(
+      oracle.getUsdPrice(chainId, 'sov').then(price => price.toString()),
+    ).resolves.toBe('0.5');
+    await expect(
+      oracle.getUsdPrice(chainId, 'eth').then(price => price.toString()),
+    ).resolves.toBe('3000');
+  });
+
+  it('skips sources which fail', async () => {
+    const oracle = new PriceOracle(provider, {
+      [chainId]: [
+        () => ({
+          name: 'Failing',
+          chains: [chainId],
+          usdPrice: async () => {
+            throw new Error('call exception');
+          },
+        }),
+        makeSource('B', { sov: '0.6' }),
+      ],
+    });
+
+    await expect(
+      oracle.getUsdPrice(chainId, 'sov').then(price => price.toString()),
+    ).resolves.toBe('0.6');
+  });
+
+  it('caches prices until the next block', async () => {
+    const calls: string[] = [];
+    const oracle = new PriceOracle(provider, {
+      [chainId]: [makeSource('A', { sov: '0.5' }, calls)],
+    });
+
+    await oracle.getUsdPrice(chainId, 'sov');
+    await oracle.getUsdPrice(chainId, 'sov');
+    expect(calls).toHaveLength(1);
+
+    block = 2;
+    await oracle.getUsdPrice(chainId, 'sov');
+    expect(calls).toHaveLength(2);
+  });
+
+  it('prices tokens through other tokens', async () => {
+    const oracle = new PriceOracle(provider, {
+      [chainId]: [
+        makeSource('A', { sov: '0.5' }),
+        relativeSource('mynt', 'sov', '0.01'),
+      ],
+    });
+
+    await expect(
+      oracle.getUsdPrice(chainId, 'mynt').then(price => price.toString()),
+    ).resolves.toBe('0.005');
+  });
+
+  it('does not loop when tokens are priced through each other', async () => {
+    const oracle = new PriceOracle(provider, {
+      [chainId]: [
+        relativeSource('a', 'b', '2'),
+        relativeSource('b', 'a', '0.5'),
+      ],
+    });
+
+    await expect(oracle.getUsdPrice(chainId, 'a')).rejects.toMatchObject({
+      code: SovrynErrorCode.PRICE_NOT_AVAILABLE,
+    });
+  });
+
+  it('resolves concurrent queries of tokens priced through each other', async () => {
+    const oracle = new PriceOracle(provider, {
+      [chainId]: [
+        makeSource('A', { b: '3' }),
+        relativeSource('a', 'b', '2'),
+        relativeSource('b', 'a', '0.5'),
+      ],
+    });
+
+    const prices = await Promise.all([
+      oracle.getUsdPrice(chainId, 'a'),
+      oracle.getUsdPrice(chainId, 'b'),
+    ]);
+    expect(prices.map(price => price.toString())).toEqual(['6', '3']);
+  });
+
+  it('throws if chain has no sources', async () => {
+    const oracle = new PriceOracle(provider, {});
+
+    await expect(
+      oracle.getUsdPrice(ChainIds.RSK_MAINNET, 'sov'),
+    ).rejects.toMatchObject({
+      code: SovrynErrorCode.PRICE_NOT_AVAILABLE,
+    });
+  });
+
+  it('has BTC price asset on every chain with default sources', () => {
+    expect(Object.keys(BTC_PRICE_ASSETS).sort()).toEqual(
+      Object.keys(DEFAULT_PRICE_SOURCES).sort(),
+    );
+  });
+});
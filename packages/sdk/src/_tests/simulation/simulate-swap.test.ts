@@ -0,0 +1,249 @@
+import { BigNumber, constants, providers, utils } from 'ethers';
+
+import { ChainIds } from '@sovryn/ethers-provider';
+
+import { SovrynErrorCode } from '../../errors/errors';
+import { localSimulator } from '../../simulation/local-simulator';
+import {
+  decodeBalanceChanges,
+  simulateSwap,
+} from '../../simulation/simulate-swap';
+import {
+  SimulatedTransaction,
+  SimulationLog,
+  TransactionSimulator,
+} from '../../simulation/types';
+import { SwapRoute } from '../../swaps/smart-router/types';
+
+const user = '0x1000000000000000000000000000000000000001';
+const pool = '0x2000000000000000000000000000000000000002';
+const entry = '0x3000000000000000000000000000000000000003';
+const destination = '0x4000000000000000000000000000000000000004';
+
+const events = new utils.Interface([
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+  'event Withdrawal(address indexed src, uint256 wad)',
+]);
+
+const makeLog = (
+  address: string,
+  name: string,
+  args: unknown[],
+): SimulationLog => ({
+  address,
+  ...events.encodeEventLog(events.getEvent(name), args),
+});
+
+const provider = {
+  getNetwork: async () => ({ chainId: Number(ChainIds.RSK_MAINNET) }),
+} as unknown as providers.Provider;
+
+const makeRoute = (overrides: Partial<SwapRoute> = {}): SwapRoute =>
+  ({
+    name: 'Test',
+    chains: [ChainIds.RSK_MAINNET],
+    permit: async () => undefined,
+    approve: async () => ({ to: entry, data: '0x01' }),
+    swap: async () => ({ to: pool, data: '0x02', value: '0' }),
+    ...overrides,
+  } as SwapRoute);
+
+const makeSimulator = (
+  results: Partial<SimulatedTransaction>[],
+  calls: unknown[][] = [],
+) =>
+  (async (chainId, transactions) => {
+    calls.push(transactions);
+    return results.map(result => ({
+      simulated: true,
+      status: true,
+      gasUsed: BigNumber.from(100),
+      logs: [],
+      ...result,
+    }));
+  }) as TransactionSimulator;
+
+describe('simulation', () => {
+  describe('decodeBalanceChanges', () => {
+    it('sums transfers from and to the account', () => {
+      const changes = decodeBalanceChanges(
+        [
+          makeLog(entry, 'Transfer', [user, pool, 100]),
+          makeLog(destination, 'Transfer', [pool, user, 40]),
+          makeLog(destination, 'Transfer', [pool, user, 10]),
+          makeLog(destination, 'Transfer', [pool, entry, 999]),
+        ],
+        user,
+      );
+
+      expect(changes[entry].toString()).toBe('-100');
+      expect(changes[destination].toString()).toBe('50');
+    });
+
+    it('counts unwrapped native token as received', () => {
+      const changes = decodeBalanceChanges(
+        [makeLog(destination, 'Withdrawal', [pool, 25])],
+        user,
+      );
+      expect(changes[constants.AddressZero].toString()).toBe('25');
+    });
+  });
+
+  describe('simulateSwap', () => {
+    it('simulates approval and swap and returns received amount', async () => {
+      const calls: unknown[][] = [];
+      const result = await simulateSwap(
+        provider,
+        makeRoute(),
+        entry,
+        destination,
+        100,
+        user,
+        undefined,
+        makeSimulator(
+          [
+            {},
+            {
+              logs: [
+                makeLog(entry, 'Transfer', [user, pool, 100]),
+                makeLog(destination, 'Transfer', [pool, user, 42]),
+              ],
+            },
+          ],
+          calls,
+        ),
+      );
+
+      expect(calls[0]).toHaveLength(2);
+      expect(result.success).toBe(true);
+      expect(result.simulated).toBe(true);
+      expect(result.amountIn?.toString()).toBe('100');
+      expect(result.amountOut?.toString()).toBe('42');
+      expect(result.gasUsed.toString()).toBe('200');
+    });
+
+    it('returns decoded revert reason of the failed transaction', async () => {
+      const result = await simulateSwap(
+        provider,
+        makeRoute({ approve: async () => undefined }),
+        entry,
+        destination,
+        100,
+        user,
+        undefined,
+        makeSimulator([{ status: false, error: 'ERR_RETURN_TOO_LOW' }]),
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(SovrynErrorCode.SWAP_SLIPPAGE_EXCEEDED);
+    });
+
+    it('returns error if swap can not be built', async () => {
+      const result = await simulateSwap(
+        provider,
+        makeRoute({
+          swap: async () => {
+            throw new Error('Pausable: paused');
+          },
+        }),
+        entry,
+        destination,
+        100,
+        user,
+        undefined,
+        makeSimulator([]),
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(SovrynErrorCode.CONTRACT_PAUSED);
+    });
+
+    it('does not block the swap if simulator fails', async () => {
+      const result = await simulateSwap(
+        provider,
+        makeRoute(),
+        entry,
+        destination,
+        100,
+        user,
+        undefined,
+        async () => {
+          throw new Error('Request failed');
+        },
+      );
+
+      expect(result.simulated).toBe(false);
+      expect(result.success).toBe(true);
+    });
+
+    it('skips routes waiting for a signed permit', async () => {
+      const calls: unknown[][] = [];
+      const result = await simulateSwap(
+        provider,
+        makeRoute({
+          permit: async () => ({
+            approvalRequired: false,
+            typedData: { domain: {}, types: {}, values: {} },
+          }),
+        }),
+        entry,
+        destination,
+        100,
+        user,
+        undefined,
+        makeSimulator([], calls),
+      );
+
+      expect(calls).toHaveLength(0);
+      expect(result.simulated).toBe(false);
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe('localSimulator', () => {
+    it('does not fail transactions depending on previous approval', async () => {
+      const simulator = localSimulator({
+        call: async (tx: { data: string }) => {
+          if (tx.data === '0x02') {
+            // ambient transfer failure, not decoded as missing allowance
+            throw Object.assign(new Error('reverted'), {
+              code: 'CALL_EXCEPTION',
+              reason: 'TF',
+            });
+          }
+          return '0x';
+        },
+        estimateGas: async () => BigNumber.from(50),
+      } as unknown as providers.Provider);
+
+      const [approve, swap] = await simulator(ChainIds.RSK_MAINNET, [
+        { from: user, to: entry, data: '0x01', value: constants.Zero },
+        { from: user, to: pool, data: '0x02', value: constants.Zero },
+      ]);
+
+      expect(approve).toMatchObject({ simulated: true, status: true });
+      expect(swap).toMatchObject({ simulated: false, status: true });
+    });
+
+    it('returns revert reason of the failed transaction', async () => {
+      const simulator = localSimulator({
+        call: async () => {
+          throw Object.assign(new Error('reverted'), {
+            code: 'CALL_EXCEPTION',
+            reason: 'ERR_RETURN_TOO_LOW',
+          });
+        },
+      } as unknown as providers.Provider);
+
+      const [swap] = await simulator(ChainIds.RSK_MAINNET, [
+        { from: user, to: pool, data: '0x02', value: constants.Zero },
+      ]);
+
+      expect(swap).toMatchObject({
+        simulated: true,
+        status: false,
+        error: 'ERR_RETURN_TOO_LOW',
+      });
+    });
+  });
+});
@@ -1,12 +1,17 @@
-import { BigNumber, constants } from 'ethers';
+import { BigNumber, constants, utils } from 'ethers';
 import { parseUnits } from 'ethers/lib/utils';
 
+import { SovrynErrorCode } from '../../../errors/errors';
 import { ammSwapRoute } from '../../../swaps/smart-router/routes/amm-swap-route';
 import { SwapRoute } from '../../../swaps/smart-router/types';
 import { makeChainFixture } from '../../_fixtures/chain';
 import { makeTokenAddress } from '../../_fixtures/tokens';
 import { TEST_TIMEOUT } from '../../config';
 
+const ConverterIFace = new utils.Interface([
+  'function convertByPath(address[] _path, uint256 _amount, uint256 _minReturn)',
+]);
+
 describe('AMM Route', () => {
   jest.setTimeout(TEST_TIMEOUT);
 
@@ -72,6 +77,23 @@ describe('AMM Route', () => {
     });
   });
 
+  describe('quoteDetails', () => {
+    it('returns quote with fees, price impact and gas estimate', async () => {
+      const details = await route.quoteDetails(
+        dllr,
+        sov,
+        constants.WeiPerEther,
+      );
+      expect(details.amountOut).toEqual(
+        await route.quote(dllr, sov, constants.WeiPerEther),
+      );
+      expect(details.minimumOut.lt(details.amountOut)).toBe(true);
+      expect(details.lpFee.gt(0)).toBe(true);
+      expect(details.spotPrice.gt(0)).toBe(true);
+      expect(details.gasEstimate.gt(0)).toBe(true);
+    });
+  });
+
   describe('approve', () => {
     it('returns transaction request data for approval for ERC-20 tokens', async () => {
       await expect(
@@ -140,4 +162,42 @@ describe('AMM Route', () => {
       });
     });
   });
+
+  describe('swapForOutput', () => {
+    it('spends quoted input and requires the output for RBTC -> SOV', async () => {
+      const amountOut = parseUnits('100');
+      const maxAmountIn = parseUnits('0.01');
+      const amountIn = await route.quoteForOutput!(rbtc, sov, amountOut);
+
+      const tx = await route.swapForOutput!(
+        rbtc,
+        sov,
+        amountOut,
+        maxAmountIn,
+        constants.AddressZero,
+      );
+
+      const [, amount, minReturn] = ConverterIFace.decodeFunctionData(
+        'convertByPath',
+        tx.data!,
+      );
+      expect(tx.value).toBe(amountIn.toString());
+      expect(amount.toString()).toBe(amountIn.toString());
+      expect(minReturn.toString()).toBe(amountOut.toString());
+    });
+
+    it('fails if output needs more than maximum input', async () => {
+      await expect(
+        route.swapForOutput!(
+          rbtc,
+          sov,
+          parseUnits('100'),
+          1,
+          constants.AddressZero,
+        ),
+      ).rejects.toMatchObject({
+        code: SovrynErrorCode.SWAP_SLIPPAGE_EXCEEDED,
+      });
+    });
+  });
 });
@@ -3,6 +3,7 @@ import { parseUnits } from 'ethers/lib/utils';
 
 import { getAssetContract, getProtocolContract } from '@sovryn/contracts';
 
+import { SovrynErrorCode } from '../../../errors/errors';
 import { mocIntegrationSwapRoute } from '../../../swaps/smart-router/routes/moc-integration-swap-route';
 import { SwapRoute } from '../../../swaps/smart-router/types';
 import { makeChainFixture } from '../../_fixtures/chain';
@@ -133,4 +134,20 @@ describe('Moc Integration Route', () => {
       ).rejects.toThrowError(/Cannot swap /);
     });
   });
+
+  describe('swapForOutput', () => {
+    it('throws for exact output swaps', async () => {
+      await expect(
+        route.swapForOutput!(
+          dllr,
+          rbtc,
+          parseUnits('0.001'),
+          parseUnits('20'),
+          constants.AddressZero,
+        ),
+      ).rejects.toMatchObject({
+        code: SovrynErrorCode.NOT_IMPLEMENTED,
+      });
+    });
+  });
 });
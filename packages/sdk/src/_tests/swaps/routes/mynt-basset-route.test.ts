@@ -1,6 +1,7 @@
 import { constants } from 'ethers';
 import { parseUnits } from 'ethers/lib/utils';
 
+import { SovrynErrorCode } from '../../../errors/errors';
 import { myntBassetRoute } from '../../../swaps/smart-router/routes/mynt-basset-route';
 import { SwapRoute } from '../../../swaps/smart-router/types';
 import { makeChainFixture } from '../../_fixtures/chain';
@@ -52,6 +53,61 @@ describe('Mynt bAsset Route', () => {
     });
   });
 
+  describe('quoteDetails', () => {
+    it('returns fixed rate quote without fees and price impact', async () => {
+      const details = await route.quoteDetails(
+        dllr,
+        zusd,
+        constants.WeiPerEther,
+      );
+      expect(details.amountOut).toEqual(constants.WeiPerEther);
+      expect(details.minimumOut).toEqual(constants.WeiPerEther);
+      expect(details.lpFee.isZero()).toBe(true);
+      expect(details.protocolFee.isZero()).toBe(true);
+      expect(details.priceImpact.isZero()).toBe(true);
+    });
+  });
+
+  describe('quoteForOutput', () => {
+    it('returns the same input as requested output', async () => {
+      await expect(
+        route.quoteForOutput!(dllr, zusd, constants.WeiPerEther),
+      ).resolves.toEqual(constants.WeiPerEther);
+    });
+  });
+
+  describe('swapForOutput', () => {
+    it('builds swap tx data for exact ZUSD output', async () => {
+      await expect(
+        route.swapForOutput!(
+          dllr,
+          zusd,
+          parseUnits('20'),
+          parseUnits('20'),
+          constants.AddressZero,
+        ),
+      ).resolves.toMatchObject({
+        to: expect.any(String),
+        data: expect.any(String),
+        value: '0',
+      });
+    });
+
+    it('fails if output needs more than maximum input', async () => {
+      await expect(
+        route.swapForOutput!(
+          dllr,
+          zusd,
+          parseUnits('20'),
+          parseUnits('19'),
+          constants.AddressZero,
+        ),
+      ).rejects.toMatchObject({
+        code: SovrynErrorCode.SWAP_SLIPPAGE_EXCEEDED,
+      });
+    });
+  });
+
   describe('approve', () => {
     it('returns transaction request data for approval for ERC-20 tokens', async () => {
       await expect(
@@ -0,0 +1,84 @@
+import { BigNumber, BigNumberish } from 'ethers';
+
+import { ChainIds } from '@sovryn/ethers-provider';
+
+import { SmartRouter } from '../../swaps/smart-router/smart-router';
+import { Options } from '../../swaps/smart-router/types';
+import {
+  makeProvider,
+  makeQuoteDetails,
+  makeRoute as makeRouteFixture,
+} from '../_fixtures/router';
+
+const chainId = ChainIds.BOB_MAINNET;
+
+const amountAt = (amount: BigNumberish, options?: Partial<Options>) =>
+  BigNumber.from(amount).mul(options?.blockTag === 100 ? 2 : 1);
+
+// route quoting twice the amount at block 100 and the amount itself at later blocks
+const makeRoute = () =>
+  makeRouteFixture('A', [['a', ['b']]], {
+    quote: jest.fn(
+      async (
+        entry: string,
+        destination: string,
+        amount: BigNumberish,
+        options?: Partial<Options>,
+      ) => amountAt(amount, options),
+    ),
+    quoteDetails: jest.fn(
+      async (
+        entry: string,
+        destination: string,
+        amount: BigNumberish,
+        options?: Partial<Options>,
+      ) => makeQuoteDetails(amountAt(amount, options)),
+    ),
+  });
+
+describe('SmartRouter quotes at block', () => {
+  const provider = makeProvider({ getBlockNumber: async () => 200 });
+
+  it('passes block tag to the route', async () => {
+    const route = makeRoute();
+    const router = new SmartRouter(provider, [() => route]);
+
+    const quote = await router.getBestQuote(chainId, 'a', 'b', 10, {
+      blockTag: 100,
+    });
+
+    expect(quote.quote.toString()).toBe('20');
+    expect(route.quoteDetails).toHaveBeenCalledWith('a', 'b', 10, {
+      blockTag: 100,
+    });
+  });
+
+  it('memoizes quotes of each block separately', async () => {
+    const route = makeRoute();
+    const router = new SmartRouter(provider, [() => route]);
+
+    const past = await router.getBestQuote(chainId, 'a', 'b', 10, {
+      blockTag: 100,
+    });
+    const latest = await router.getBestQuote(chainId, 'a', 'b', 10);
+    await router.getBestQuote(chainId, 'a', 'b', 10, { blockTag: 100 });
+
+    expect(past.quote.toString()).toBe('20');
+    expect(latest.quote.toString()).toBe('10');
+    expect(route.quoteDetails).toHaveBeenCalledTimes(2);
+  });
+
+  it('quotes path legs at block', async () => {
+    const route = makeRoute();
+    const router = new SmartRouter(provider, [() => route]);
+
+    const path = await router.getBestPathQuote(chainId, 'a', 'b', 10, {
+      blockTag: 100,
+    });
+
+    expect(path.quote.toString()).toBe('20');
+    expect(route.quote).toHaveBeenCalledWith('a', 'b', BigNumber.from(10), {
+      blockTag: 100,
+    });
+  });
+});
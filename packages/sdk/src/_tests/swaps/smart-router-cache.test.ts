@@ -0,0 +1,143 @@
+import { BigNumber, BigNumberish, constants } from 'ethers';
+
+import { ChainIds } from '@sovryn/ethers-provider';
+
+import { SmartRouter } from '../../swaps/smart-router/smart-router';
+import { makeProvider, makeQuoteDetails, makeRoute } from '../_fixtures/router';
+
+const chainId = ChainIds.RSK_MAINNET;
+
+const makeCountingRoute = (calls: { pairs: number; quote: number }) =>
+  makeRoute('Test', [['dllr', ['sov']]], {
+    pairs: async () => {
+      calls.pairs++;
+      return new Map([['dllr', ['sov']]]);
+    },
+    quote: async (entry, destination, amount) => {
+      calls.quote++;
+      return BigNumber.from(amount).mul(2);
+    },
+  });
+
+describe('SmartRouter cache', () => {
+  let block: number;
+  let blockListeners: ((block: number) => void)[];
+  let calls: { pairs: number; quote: number };
+  let router: SmartRouter;
+
+  const provider = makeProvider({
+    getBlockNumber: async () => block,
+    on: (event: string, listener: (block: number) => void) =>
+      blockListeners.push(listener),
+    off: (event: string, listener: (block: number) => void) =>
+      (blockListeners = blockListeners.filter(item => item !== listener)),
+  });
+
+  const emitBlock = (value: number) => {
+    block = value;
+    blockListeners.forEach(listener => listener(value));
+  };
+
+  beforeEach(() => {
+    block = 1;
+    blockListeners = [];
+    calls = { pairs: 0, quote: 0 };
+    router = new SmartRouter(provider, [() => makeCountingRoute(calls)], {
+      pairsTtl: 60_000,
+      blockNumberTtl: 0,
+    });
+  });
+
+  it('caches pairs of the routes', async () => {
+    await router.getAvailableRoutesForAssets(chainId, 'dllr', 'sov');
+    await router.getAvailableRoutesForAssets(chainId, 'dllr', 'sov');
+    await router.getPairs(chainId);
+    expect(calls.pairs).toBe(1);
+  });
+
+  it('refreshes pairs after TTL expires', async () => {
+    router = new SmartRouter(provider, [() => makeCountingRoute(calls)], {
+      pairsTtl: 0,
+    });
+    await router.getPairs(chainId);
+    await router.getPairs(chainId);
+    expect(calls.pairs).toBe(2);
+  });
+
+  it('memoizes quotes within the same block', async () => {
+    await router.getPathQuotes(chainId, 'dllr', 'sov', 100);
+    await router.getPathQuotes(chainId, 'dllr', 'sov', 100);
+    expect(calls.quote).toBe(1);
+
+    await router.getPathQuotes(chainId, 'dllr', 'sov', 200);
+    expect(calls.quote).toBe(2);
+  });
+
+  it('quotes again when block changes', async () => {
+    await router.getPathQuotes(chainId, 'dllr', 'sov', 100);
+    block = 2;
+    await router.getPathQuotes(chainId, 'dllr', 'sov', 100);
+    expect(calls.quote).toBe(2);
+  });
+
+  it('drops cached pairs and quotes on invalidate', async () => {
+    await router.getPathQuotes(chainId, 'dllr', 'sov', 100);
+    router.invalidate();
+    await router.getPathQuotes(chainId, 'dllr', 'sov', 100);
+    expect(calls.pairs).toBe(2);
+    expect(calls.quote).toBe(2);
+  });
+
+  it('notifies block subscribers and uses their block for quotes', async () => {
+    const blocks: number[] = [];
+    const unsubscribe = router.onBlock(value => blocks.push(value));
+
+    emitBlock(2);
+    await router.getPathQuotes(chainId, 'dllr', 'sov', 100);
+    emitBlock(3);
+    await router.getPathQuotes(chainId, 'dllr', 'sov', 100);
+
+    expect(blocks).toEqual([2, 3]);
+    expect(calls.quote).toBe(2);
+
+    unsubscribe();
+    expect(blockListeners).toHaveLength(0);
+  });
+
+  it('prices gas once per block', async () => {
+    const getGasPrice = jest.fn(async () => BigNumber.from(10));
+    const quote = jest.fn(
+      async (entry: string, destination: string, amount: BigNumberish) =>
+        BigNumber.from(amount).mul(2),
+    );
+    const route = makeRoute(
+      'Gas',
+      [
+        ['dllr', ['sov']],
+        [constants.AddressZero, ['sov']],
+      ],
+      {
+        quote,
+        quoteDetails: async (entry, destination, amount) => ({
+          ...makeQuoteDetails(BigNumber.from(amount).mul(2)),
+          gasEstimate: BigNumber.from(100_000),
+        }),
+      },
+    );
+    router = new SmartRouter(
+      makeProvider({ getBlockNumber: async () => block, getGasPrice }),
+      [() => route],
+      { blockNumberTtl: 0 },
+    );
+
+    await router.getBestQuote(chainId, 'dllr', 'sov', 100);
+    await router.getBestQuote(chainId, 'dllr', 'sov', 200);
+    expect(getGasPrice).toHaveBeenCalledTimes(1);
+    expect(quote).toHaveBeenCalledTimes(1);
+
+    block = 2;
+    await router.getBestQuote(chainId, 'dllr', 'sov', 100);
+    expect(getGasPrice).toHaveBeenCalledTimes(2);
+    expect(quote).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,108 @@
+import { BigNumber, BigNumberish, constants } from 'ethers';
+
+import { ChainIds } from '@sovryn/ethers-provider';
+
+import { SovrynErrorCode } from '../../errors/errors';
+import { SmartRouter } from '../../swaps/smart-router/smart-router';
+import {
+  makeProvider,
+  makeRoute as makeRouteFixture,
+} from '../_fixtures/router';
+
+const chainId = ChainIds.RSK_MAINNET;
+
+// route needing `rate` entry tokens for one destination token
+const makeRoute = (name: string, rate?: number) =>
+  makeRouteFixture(name, [['dllr', ['sov']]], {
+    quote: async (entry, destination, amount) => BigNumber.from(amount),
+    ...(rate !== undefined && {
+      quoteForOutput: async (entry, destination, amountOut) =>
+        BigNumber.from(amountOut).mul(rate),
+      swapForOutput: async (
+        entry: string,
+        destination: string,
+        amountOut: BigNumberish,
+        maxAmountIn: BigNumberish,
+      ) => ({
+        to: name,
+        data: BigNumber.from(maxAmountIn).toHexString(),
+      }),
+    }),
+  });
+
+describe('SmartRouter exact output', () => {
+  const provider = makeProvider();
+
+  it('returns route needing the smallest input', async () => {
+    const router = new SmartRouter(provider, [
+      () => makeRoute('A', 3),
+      () => makeRoute('B', 2),
+      () => makeRoute('C'),
+    ]);
+
+    const quote = await router.getBestQuoteForOutput(
+      chainId,
+      'dllr',
+      'sov',
+      100,
+      { slippage: 100 },
+    );
+
+    expect(quote.route.name).toBe('B');
+    expect(quote.quote.toString()).toBe('200');
+    expect(quote.maxAmountIn.toString()).toBe('202');
+  });
+
+  it('skips routes without exact output support', async () => {
+    const router = new SmartRouter(provider, [
+      () => makeRoute('A', 3),
+      () => makeRoute('C'),
+    ]);
+
+    const quotes = await router.getQuotesForOutput(chainId, 'dllr', 'sov', 100);
+    expect(quotes.map(quote => quote.route.name)).toEqual(['A']);
+  });
+
+  it('throws error of the failed route', async () => {
+    const router = new SmartRouter(provider, [
+      () => ({
+        ...makeRoute('A', 1),
+        quoteForOutput: async () => {
+          throw new Error('Not enough DOC in the system');
+        },
+      }),
+    ]);
+
+    await expect(
+      router.getBestQuoteForOutput(chainId, 'dllr', 'sov', 100),
+    ).rejects.toMatchObject({
+      code: SovrynErrorCode.SWAP_INSUFFICIENT_LIQUIDITY,
+    });
+  });
+
+  it('throws if there are no routes for exact output', async () => {
+    const router = new SmartRouter(provider, [() => makeRoute('C')]);
+
+    await expect(
+      router.getBestQuoteForOutput(chainId, 'dllr', 'sov', 100),
+    ).rejects.toMatchObject({
+      code: SovrynErrorCode.SWAP_NO_ROUTES_AVAILABLE,
+    });
+  });
+
+  it('builds swap with maximum input of the quote', async () => {
+    const router = new SmartRouter(provider, [() => makeRoute('A', 2)]);
+
+    const quote = await router.getBestQuoteForOutput(
+      chainId,
+      'dllr',
+      'sov',
+      100,
+      { slippage: 500 },
+    );
+
+    await expect(
+      router.buildSwapForOutput(quote, constants.AddressZero),
+    ).resolves.toEqual({ to: 'A', data: BigNumber.from(210).toHexString() });
+  });
+});
@@ -0,0 +1,77 @@
+import { BigNumber, BigNumberish } from 'ethers';
+
+import { AssetDetailsData } from '@sovryn/contracts';
+import { ChainIds } from '@sovryn/ethers-provider';
+import { TokenAmount } from '@sovryn/utils';
+
+import { SovrynErrorCode } from '../../errors/errors';
+import { SmartRouter } from '../../swaps/smart-router/smart-router';
+import {
+  makeProvider,
+  makeQuoteDetails,
+  makeRoute as makeRouteFixture,
+} from '../_fixtures/router';
+
+const chainId = ChainIds.BOB_MAINNET;
+
+const WBTC = { symbol: 'WBTC', decimals: 8, address: 'wbtc' };
+const USDT = { symbol: 'USDT', decimals: 6, address: 'usdt' };
+
+// amounts the route was quoted with
+const quotedAmounts: string[] = [];
+
+// route swapping one WBTC for 30000 USDT, minus 1% slippage.
+// Like the real routes, it takes and returns amounts with 18 decimals.
+const makeRoute = (name: string) =>
+  makeRouteFixture(name, [['wbtc', ['usdt']]], {
+    quoteDetails: async (
+      entry: string,
+      destination: string,
+      amount: BigNumberish,
+    ) => {
+      quotedAmounts.push(BigNumber.from(amount).toString());
+      const amountOut = BigNumber.from(amount).mul(30000);
+      return makeQuoteDetails(amountOut, amountOut.mul(99).div(100));
+    },
+  });
+
+describe('SmartRouter token amount quotes', () => {
+  const router = new SmartRouter(makeProvider(), [() => makeRoute('A')]);
+
+  beforeEach(() => {
+    quotedAmounts.length = 0;
+    jest
+      .spyOn(router, 'getTokenDetails')
+      .mockResolvedValue(USDT as AssetDetailsData);
+  });
+
+  it('quotes amount of 8 decimal token in 6 decimal token', async () => {
+    const quote = await router.getBestTokenAmountQuote(
+      chainId,
+      TokenAmount.from(WBTC, '0.5'),
+      'usdt',
+      { slippage: 100 },
+    );
+
+    expect(quote.route.name).toBe('A');
+    expect(quotedAmounts).toEqual(['500000000000000000']);
+    expect(quote.quote.toString()).toBe('15000000000000000000000');
+    expect(quote.amountIn.toWei().toString()).toBe('50000000');
+    expect(quote.amountOut.asset).toBe(USDT);
+    expect(quote.amountOut.toString()).toBe('15000');
+    expect(quote.amountOut.toWei().toString()).toBe('15000000000');
+    expect(quote.minimumOut.toString()).toBe('14850');
+  });
+
+  it('throws if token amount has no address', async () => {
+    await expect(
+      router.getBestTokenAmountQuote(
+        chainId,
+        TokenAmount.from({ symbol: 'WBTC', decimals: 8 }, 1),
+        'usdt',
+      ),
+    ).rejects.toMatchObject({
+      code: SovrynErrorCode.SWAP_PAIR_NOT_AVAILABLE,
+    });
+  });
+});
@@ -3,6 +3,7 @@ import { BigNumber, ethers, providers } from 'ethers';
 import { getAssetContract } from '@sovryn/contracts';
 import { ChainIds } from '@sovryn/ethers-provider';
 
+import { SovrynErrorCode } from '../../errors/errors';
 import { smartRoutes } from '../../swaps/smart-router';
 import { SmartRouter } from '../../swaps/smart-router/smart-router';
 import { makeChainFixture } from '../_fixtures/chain';
@@ -67,6 +68,13 @@ describe('SmartRouter', () => {
         router.getQuotes(chainId, dllr, zusd, amount),
       ).resolves.toHaveLength(1);
     });
+
+    it('includes quote details of each route', async () => {
+      const amount = ethers.utils.parseEther('20');
+      const [quote] = await router.getQuotes(chainId, dllr, sov, amount);
+      expect(quote.details.amountOut).toEqual(quote.quote);
+      expect(quote.details.gasEstimate.gt(0)).toBe(true);
+    });
   });
 
   describe('getBestQuote', () => {
@@ -111,6 +119,87 @@ describe('SmartRouter', () => {
     });
   });
 
+  describe('getPathQuotes', () => {
+    it('composes multi-hop path for ZUSD -> SOV swap', async () => {
+      const amount = ethers.utils.parseEther('20');
+      const paths = await router.getPathQuotes(chainId, zusd, sov, amount);
+      expect(paths.length).toBeGreaterThan(0);
+      expect(paths[0].legs.length).toBeGreaterThan(1);
+      expect(paths[0].quote).toEqual(
+        paths[0].legs[paths[0].legs.length - 1].quote,
+      );
+    });
+  });
+
+  describe('getBestPathQuote', () => {
+    it('get cheapest path for DLLR -> SOV', async () => {
+      const amount = ethers.utils.parseEther('20');
+      await expect(
+        router.getBestPathQuote(chainId, dllr, sov, amount),
+      ).resolves.toMatchObject({
+        quote: expect.any(BigNumber),
+        legs: expect.any(Array),
+      });
+    });
+  });
+
+  describe('buildPathTransactions', () => {
+    it('returns swap transaction for every leg of the path', async () => {
+      const amount = ethers.utils.parseEther('20');
+      const path = await router.getBestPathQuote(chainId, zusd, sov, amount);
+      const transactions = await router.buildPathTransactions(
+        path,
+        ethers.constants.AddressZero,
+      );
+      expect(transactions.filter(tx => tx.type === 'swap')).toHaveLength(
+        path.legs.length,
+      );
+    });
+  });
+
+  describe('getBestSplit', () => {
+    it('splits DLLR -> BTC swap between available routes', async () => {
+      const amount = ethers.utils.parseEther('100');
+      const split = await router.getBestSplit(chainId, dllr, btc, amount, {
+        maxParts: 4,
+      });
+      expect(
+        split.parts.reduce(
+          (total, part) => total.add(part.amount),
+          BigNumber.from(0),
+        ),
+      ).toEqual(amount);
+      expect(split.parts.reduce((total, part) => total + part.share, 0)).toBe(
+        100,
+      );
+    });
+
+    it.each([0, -1, 1.5])('throws if maxParts is %d', async maxParts => {
+      await expect(
+        router.getBestSplit(chainId, dllr, btc, 100, { maxParts }),
+      ).rejects.toMatchObject({
+        code: SovrynErrorCode.INVALID_ARGUMENT,
+        argument: 'maxParts',
+      });
+    });
+  });
+
+  describe('buildSplitTransactions', () => {
+    it('returns swap transaction for every route of the split', async () => {
+      const amount = ethers.utils.parseEther('100');
+      const split = await router.getBestSplit(chainId, dllr, btc, amount, {
+        maxParts: 4,
+      });
+      const transactions = await router.buildSplitTransactions(
+        split,
+        ethers.constants.AddressZero,
+      );
+      expect(transactions.filter(tx => tx.type === 'swap')).toHaveLength(
+        split.parts.length,
+      );
+    });
+  });
+
   describe('helpers', () => {
     it('returns all available pairs on enabled routes', async () => {
       await expect(router.getPairs(chainId)).resolves.toBeInstanceOf(Map);
@@ -126,6 +215,11 @@ describe('SmartRouter', () => {
       );
     });
 
+    it('returns destinations reachable by multi-hop paths', async () => {
+      const destinations = await router.getPathDestinations(chainId, zusd);
+      expect(destinations).toContain(sov.toLowerCase());
+    });
+
     it('returns data about token', async () => {
       await expect(router.getTokenDetails(btc, chainId)).resolves.toMatchObject(
         {
@@ -0,0 +1,86 @@
+import { BigNumber, constants } from 'ethers';
+
+import { SovrynErrorCode } from '../../../errors/errors';
+import {
+  assertMaxInput,
+  findInputForOutput,
+} from '../../../swaps/smart-router/utils/output-utils';
+
+// constant product pool with 0.3% fee
+const makePoolQuote =
+  (reserveIn: BigNumber, reserveOut: BigNumber, calls: BigNumber[] = []) =>
+  async (amount: BigNumber) => {
+    calls.push(amount);
+    const amountWithFee = amount.mul(997);
+    return amountWithFee
+      .mul(reserveOut)
+      .div(reserveIn.mul(1000).add(amountWithFee));
+  };
+
+describe('output-utils', () => {
+  describe('findInputForOutput', () => {
+    it('finds input for linear quotes', async () => {
+      await expect(
+        findInputForOutput(
+          async amount => amount.mul(2),
+          constants.WeiPerEther.mul(10),
+        ).then(value => value.toString()),
+      ).resolves.toBe(constants.WeiPerEther.mul(5).add(1).toString());
+    });
+
+    it('finds input returning at least the requested output', async () => {
+      const quote = makePoolQuote(
+        constants.WeiPerEther.mul(1_000),
+        constants.WeiPerEther.mul(2_000),
+      );
+      const amountOut = constants.WeiPerEther.mul(100);
+
+      const amountIn = await findInputForOutput(quote, amountOut);
+      const out = await quote(amountIn);
+
+      expect(out.gte(amountOut)).toBe(true);
+      // overshoot stays within the search tolerance of 0.01%
+      expect(out.sub(amountOut).mul(10_000).lte(amountOut)).toBe(true);
+    });
+
+    it('uses the estimate as the first guess', async () => {
+      const calls: BigNumber[] = [];
+      const estimate = constants.WeiPerEther.mul(3);
+      await findInputForOutput(
+        makePoolQuote(
+          constants.WeiPerEther.mul(1_000),
+          constants.WeiPerEther.mul(1_000),
+          calls,
+        ),
+        constants.WeiPerEther,
+        estimate,
+      );
+      expect(calls[0]).toEqual(estimate);
+    });
+
+    it('throws if output is above available liquidity', async () => {
+      await expect(
+        findInputForOutput(
+          makePoolQuote(
+            constants.WeiPerEther.mul(1_000),
+            constants.WeiPerEther.mul(10),
+          ),
+          constants.WeiPerEther.mul(10),
+        ),
+      ).rejects.toMatchObject({
+        code: SovrynErrorCode.SWAP_INSUFFICIENT_LIQUIDITY,
+      });
+    });
+  });
+
+  describe('assertMaxInput', () => {
+    it('throws if input exceeds the maximum', () => {
+      expect(() => assertMaxInput(101, 100)).toThrow(
+        expect.objectContaining({
+          code: SovrynErrorCode.SWAP_SLIPPAGE_EXCEEDED,
+        }),
+      );
+      expect(() => assertMaxInput(100, 100)).not.toThrow();
+    });
+  });
+});
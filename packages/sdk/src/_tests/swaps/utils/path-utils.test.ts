@@ -0,0 +1,76 @@
+import {
+  RouteGraph,
+  constructRouteGraph,
+  findReachableTokens,
+  findRoutePaths,
+} from '../../../swaps/smart-router/utils/path-utils';
+import { makeRoute } from '../../_fixtures/router';
+
+describe('path-utils', () => {
+  let graph: RouteGraph;
+
+  beforeAll(async () => {
+    graph = await constructRouteGraph([
+      makeRoute('AMM', [
+        ['sov', ['dllr', 'btc']],
+        ['dllr', ['sov', 'btc']],
+        ['btc', ['sov', 'dllr']],
+      ]),
+      makeRoute('Basset', [
+        ['dllr', ['zusd']],
+        ['zusd', ['dllr']],
+      ]),
+      makeRoute('Moc', [['DLLR', ['BTC']]]),
+    ]);
+  });
+
+  describe('constructRouteGraph', () => {
+    it('lowercases token addresses', () => {
+      expect(graph.get('dllr')?.map(edge => edge.destination)).toEqual([
+        'sov',
+        'btc',
+        'zusd',
+        'btc',
+      ]);
+    });
+  });
+
+  describe('findRoutePaths', () => {
+    it('returns direct paths first', () => {
+      const paths = findRoutePaths(graph, 'dllr', 'btc', 3);
+      expect(paths[0]).toHaveLength(1);
+      expect(paths[1]).toHaveLength(1);
+    });
+
+    it('composes paths across different routes', () => {
+      const paths = findRoutePaths(graph, 'zusd', 'sov', 3);
+      expect(paths.map(path => path.map(edge => edge.route.name))).toEqual([
+        ['Basset', 'AMM'],
+        ['Basset', 'Moc', 'AMM'],
+      ]);
+    });
+
+    it('does not use the same route for consecutive legs', () => {
+      const paths = findRoutePaths(graph, 'sov', 'btc', 3);
+      paths.forEach(path =>
+        path.forEach((edge, index) =>
+          expect(edge.route).not.toBe(path[index - 1]?.route),
+        ),
+      );
+    });
+
+    it('respects maximum number of hops', () => {
+      expect(findRoutePaths(graph, 'zusd', 'sov', 1)).toHaveLength(0);
+    });
+  });
+
+  describe('findReachableTokens', () => {
+    it('returns tokens reachable through multiple routes', () => {
+      expect(findReachableTokens(graph, 'zusd', 3).sort()).toEqual([
+        'btc',
+        'dllr',
+        'sov',
+      ]);
+    });
+  });
+});
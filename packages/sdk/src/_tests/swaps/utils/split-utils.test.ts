@@ -0,0 +1,57 @@
+import { BigNumber } from 'ethers';
+
+import { findBestAllocation } from '../../../swaps/smart-router/utils/split-utils';
+
+const makeQuotes = (values: (number | undefined)[]) =>
+  values.map(value =>
+    value === undefined ? undefined : BigNumber.from(value),
+  );
+
+describe('split-utils', () => {
+  describe('findBestAllocation', () => {
+    it('allocates whole amount to a single route if it is the best', () => {
+      expect(
+        findBestAllocation(
+          [makeQuotes([0, 10, 20, 30, 40]), makeQuotes([0, 9, 18, 27, 36])],
+          4,
+        ),
+      ).toEqual([4, 0]);
+    });
+
+    it('splits amount between routes with price impact', () => {
+      expect(
+        findBestAllocation(
+          [makeQuotes([0, 10, 18, 24, 28]), makeQuotes([0, 9, 17, 24, 30])],
+          4,
+        ),
+      ).toEqual([2, 2]);
+    });
+
+    it('skips allocations route can not quote', () => {
+      expect(
+        findBestAllocation(
+          [
+            makeQuotes([0, 10, 20, undefined, undefined]),
+            makeQuotes([0, 5, 10, 15, 20]),
+          ],
+          4,
+        ),
+      ).toEqual([2, 2]);
+    });
+
+    it('splits amount if no route can swap it alone', () => {
+      expect(
+        findBestAllocation(
+          [makeQuotes([0, 10, undefined]), makeQuotes([0, 8, undefined])],
+          2,
+        ),
+      ).toEqual([1, 1]);
+    });
+
+    it('returns undefined if amount can not be swapped', () => {
+      expect(
+        findBestAllocation([makeQuotes([0, 10, undefined, undefined])], 3),
+      ).toBeUndefined();
+    });
+  });
+});
@@ -1,3 +1,5 @@
+import { ChainIds } from '@sovryn/ethers-provider';
+
 // Default slippage for swap, 10_000 = 100%.
 export const DEFAULT_SWAP_SLIPPAGE = 100; // 1%
 
@@ -8,3 +10,16 @@ export const RSK_STABLECOINS: string[] = [
   'DOC',
   'RUSDT',
 ];
+
+// Assets pegged to USD, first one is used as a reference for pricing other assets.
+export const STABLECOINS: Partial<Record<ChainIds, string[]>> = {
+  [ChainIds.MAINNET]: ['USDT', 'USDC', 'DAI'],
+  [ChainIds.BOB_MAINNET]: ['DLLR', 'USDT', 'USDC', 'DAI'],
+  [ChainIds.BOB_TESTNET]: ['DLLR', 'USDT', 'USDC', 'DAI'],
+  [ChainIds.SEPOLIA]: ['USDT', 'USDC'],
+  [ChainIds.RSK_MAINNET]: ['DLLR', ...RSK_STABLECOINS],
+  [ChainIds.RSK_TESTNET]: ['DLLR', ...RSK_STABLECOINS],
+};
+
+// MYNT to SOV conversion rate of the fixed rate converter.
+export const MYNT_FIXED_RATE = '0.004723550439442834';
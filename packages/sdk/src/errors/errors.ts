@@ -4,13 +4,33 @@ export enum SovrynErrorCode {
   // General errors
   UNKNOWN_ERROR = 'UNKNOWN_ERROR',
   NOT_IMPLEMENTED = 'NOT_IMPLEMENTED',
+  INVALID_ARGUMENT = 'INVALID_ARGUMENT',
 
   // Ethers errors
   ETHERS_CALL_EXCEPTION = 'ETHERS_CALL_EXCEPTION',
 
+  // Contract errors
+  CONTRACT_PAUSED = 'CONTRACT_PAUSED',
+
   // Swap errors
   SWAP_PAIR_NOT_AVAILABLE = 'SWAP_PAIR_NOT_AVAILABLE',
+  SWAP_NO_ROUTES_AVAILABLE = 'SWAP_NO_ROUTES_AVAILABLE',
   SWAP_LOW_BALANCE = 'SWAP_LOW_BALANCE',
+  SWAP_INSUFFICIENT_LIQUIDITY = 'SWAP_INSUFFICIENT_LIQUIDITY',
+  SWAP_SLIPPAGE_EXCEEDED = 'SWAP_SLIPPAGE_EXCEEDED',
+  SWAP_PERMIT_REQUIRED = 'SWAP_PERMIT_REQUIRED',
+  SWAP_PERMIT_EXPIRED = 'SWAP_PERMIT_EXPIRED',
+  SWAP_ALLOWANCE_MISSING = 'SWAP_ALLOWANCE_MISSING',
+
+  // Mynt errors
+  MYNT_CAP_REACHED = 'MYNT_CAP_REACHED',
+
+  // Zero errors
+  ZERO_RECOVERY_MODE = 'ZERO_RECOVERY_MODE',
+  ZERO_REDEMPTION_NOT_AVAILABLE = 'ZERO_REDEMPTION_NOT_AVAILABLE',
+
+  // Price errors
+  PRICE_NOT_AVAILABLE = 'PRICE_NOT_AVAILABLE',
 }
 
 export interface SovrynError<T extends SovrynErrorCode = SovrynErrorCode>
@@ -30,24 +50,115 @@ export interface NotImplemented
   operation: string;
 }
 
+export interface InvalidArgument
+  extends SovrynError<SovrynErrorCode.INVALID_ARGUMENT> {
+  argument: string;
+}
+
 export interface CallExceptionError
   extends SovrynError<SovrynErrorCode.ETHERS_CALL_EXCEPTION> {
   reason: string;
 }
 
+export interface ContractPaused
+  extends SovrynError<SovrynErrorCode.CONTRACT_PAUSED> {
+  reason: string;
+}
+
 export interface SwapPairNotAvailable
   extends SovrynError<SovrynErrorCode.SWAP_PAIR_NOT_AVAILABLE> {
   reason: string;
 }
 
+export interface SwapNoRoutesAvailable
+  extends SovrynError<SovrynErrorCode.SWAP_NO_ROUTES_AVAILABLE> {
+  reason: string;
+}
+
+export interface SwapLowBalance
+  extends SovrynError<SovrynErrorCode.SWAP_LOW_BALANCE> {
+  reason: string;
+}
+
+export interface SwapInsufficientLiquidity
+  extends SovrynError<SovrynErrorCode.SWAP_INSUFFICIENT_LIQUIDITY> {
+  reason: string;
+}
+
+export interface SwapSlippageExceeded
+  extends SovrynError<SovrynErrorCode.SWAP_SLIPPAGE_EXCEEDED> {
+  reason: string;
+}
+
+export interface SwapPermitRequired
+  extends SovrynError<SovrynErrorCode.SWAP_PERMIT_REQUIRED> {
+  reason: string;
+}
+
+export interface SwapPermitExpired
+  extends SovrynError<SovrynErrorCode.SWAP_PERMIT_EXPIRED> {
+  reason: string;
+}
+
+export interface SwapAllowanceMissing
+  extends SovrynError<SovrynErrorCode.SWAP_ALLOWANCE_MISSING> {
+  reason: string;
+}
+
+export interface MyntCapReached
+  extends SovrynError<SovrynErrorCode.MYNT_CAP_REACHED> {
+  reason: string;
+}
+
+export interface ZeroRecoveryMode
+  extends SovrynError<SovrynErrorCode.ZERO_RECOVERY_MODE> {
+  reason: string;
+}
+
+export interface ZeroRedemptionNotAvailable
+  extends SovrynError<SovrynErrorCode.ZERO_REDEMPTION_NOT_AVAILABLE> {
+  reason: string;
+}
+
+export interface PriceNotAvailable
+  extends SovrynError<SovrynErrorCode.PRICE_NOT_AVAILABLE> {
+  reason: string;
+}
+
 export type CodedSovrynError<T> = T extends SovrynErrorCode.UNKNOWN_ERROR
   ? UnknownError
   : T extends SovrynErrorCode.NOT_IMPLEMENTED
   ? NotImplemented
+  : T extends SovrynErrorCode.INVALID_ARGUMENT
+  ? InvalidArgument
   : T extends SovrynErrorCode.ETHERS_CALL_EXCEPTION
   ? CallExceptionError
+  : T extends SovrynErrorCode.CONTRACT_PAUSED
+  ? ContractPaused
   : T extends SovrynErrorCode.SWAP_PAIR_NOT_AVAILABLE
   ? SwapPairNotAvailable
+  : T extends SovrynErrorCode.SWAP_NO_ROUTES_AVAILABLE
+  ? SwapNoRoutesAvailable
+  : T extends SovrynErrorCode.SWAP_LOW_BALANCE
+  ? SwapLowBalance
+  : T extends SovrynErrorCode.SWAP_INSUFFICIENT_LIQUIDITY
+  ? SwapInsufficientLiquidity
+  : T extends SovrynErrorCode.SWAP_SLIPPAGE_EXCEEDED
+  ? SwapSlippageExceeded
+  : T extends SovrynErrorCode.SWAP_PERMIT_REQUIRED
+  ? SwapPermitRequired
+  : T extends SovrynErrorCode.SWAP_PERMIT_EXPIRED
+  ? SwapPermitExpired
+  : T extends SovrynErrorCode.SWAP_ALLOWANCE_MISSING
+  ? SwapAllowanceMissing
+  : T extends SovrynErrorCode.MYNT_CAP_REACHED
+  ? MyntCapReached
+  : T extends SovrynErrorCode.ZERO_RECOVERY_MODE
+  ? ZeroRecoveryMode
+  : T extends SovrynErrorCode.ZERO_REDEMPTION_NOT_AVAILABLE
+  ? ZeroRedemptionNotAvailable
+  : T extends SovrynErrorCode.PRICE_NOT_AVAILABLE
+  ? PriceNotAvailable
   : never;
 
 export const isSovrynError = <
@@ -64,11 +175,15 @@ export const makeError = <
 >(
   message: string,
   code: K,
+  cause?: Error,
 ): T => {
   const error = new Error(message);
   error.name = 'SovrynError';
 
   defineProperties<SovrynError>(error as SovrynError, { code });
+  if (cause) {
+    defineProperties<SovrynError>(error as SovrynError, { error: cause });
+  }
 
   return error as T;
 };
@@ -0,0 +1,129 @@
+import { utils } from 'ethers';
+
+import { SovrynError, SovrynErrorCode, makeError } from './errors';
+
+// selector of the solidity Error(string) revert
+const ERROR_STRING_SELECTOR = '0x08c379a0';
+
+// custom errors of the contracts used by routes (Permit2), keyed by selector
+const CUSTOM_ERRORS: Record<string, SovrynErrorCode> = [
+  ['SignatureExpired(uint256)', SovrynErrorCode.SWAP_PERMIT_EXPIRED],
+  ['AllowanceExpired(uint256)', SovrynErrorCode.SWAP_PERMIT_EXPIRED],
+  ['InsufficientAllowance(uint256)', SovrynErrorCode.SWAP_ALLOWANCE_MISSING],
+].reduce(
+  (errors, [signature, code]) => ({
+    ...errors,
+    [utils.id(signature).slice(0, 10)]: code,
+  }),
+  {},
+);
+
+// revert strings of the contracts used by routes, first matching pattern wins
+const REVERT_REASONS: [RegExp, SovrynErrorCode][] = [
+  [/paused/i, SovrynErrorCode.CONTRACT_PAUSED],
+  [
+    /ERR_INVALID_PATH|invalid path|pair not available/i,
+    SovrynErrorCode.SWAP_PAIR_NOT_AVAILABLE,
+  ],
+  [
+    /ERR_RETURN_TOO_LOW|return too low|too little received|slippage|Fee exceeded provided maximum/i,
+    SovrynErrorCode.SWAP_SLIPPAGE_EXCEEDED,
+  ],
+  [
+    /expired deadline|permit expired|signature expired/i,
+    SovrynErrorCode.SWAP_PERMIT_EXPIRED,
+  ],
+  [
+    /insufficient allowance|exceeds allowance|TRANSFER_FROM_FAILED/i,
+    SovrynErrorCode.SWAP_ALLOWANCE_MISSING,
+  ],
+  [/exceeds balance|insufficient balance/i, SovrynErrorCode.SWAP_LOW_BALANCE],
+  [
+    /insufficient liquidity|not enough liquidity|Not enough DOC/i,
+    SovrynErrorCode.SWAP_INSUFFICIENT_LIQUIDITY,
+  ],
+  [
+    /basket out of balance|maximum convertible MYNT|max(imum)? (cap|limit)/i,
+    SovrynErrorCode.MYNT_CAP_REACHED,
+  ],
+  [
+    /Cannot redeem when TCR < MCR|recovery mode/i,
+    SovrynErrorCode.ZERO_RECOVERY_MODE,
+  ],
+  [
+    /not allowed during bootstrap phase|Unable to redeem any amount/i,
+    SovrynErrorCode.ZERO_REDEMPTION_NOT_AVAILABLE,
+  ],
+];
+
+const decodeRevertData = (data: unknown): string | undefined => {
+  if (typeof data !== 'string' || !utils.isHexString(data)) {
+    return undefined;
+  }
+
+  const selector = data.slice(0, 10);
+
+  if (selector === ERROR_STRING_SELECTOR) {
+    try {
+      return utils.defaultAbiCoder.decode(
+        ['string'],
+        utils.hexDataSlice(data, 4),
+      )[0];
+    } catch {
+      return undefined;
+    }
+  }
+
+  if (CUSTOM_ERRORS[selector]) {
+    return CUSTOM_ERRORS[selector];
+  }
+
+  return undefined;
+};
+
+// Find revert reason in ethers errors, which may be nested in provider and RPC errors.
+export const extractRevertReason = (error: any): string | undefined => {
+  const errors: any[] = [];
+  for (let item = error; item && errors.length < 5; item = item.error) {
+    errors.push(item);
+  }
+
+  for (const item of errors) {
+    const reason = decodeRevertData(item.data) ?? item.reason;
+    if (reason) {
+      return reason;
+    }
+  }
+
+  return errors.find(item => item.message)?.message;
+};
+
+// Map revert reason to the error code, or undefined if reason is not known.
+export const decodeRevertReason = (
+  reason: string,
+): SovrynErrorCode | undefined => {
+  if (Object.values(SovrynErrorCode).includes(reason as SovrynErrorCode)) {
+    return reason as SovrynErrorCode;
+  }
+
+  return REVERT_REASONS.find(([pattern]) => pattern.test(reason))?.[1];
+};
+
+// Convert any error thrown by the contracts or provider to SovrynError with matching code.
+export const decodeRevertError = (error: any): SovrynError => {
+  if (error?.name === 'SovrynError') {
+    return error;
+  }
+
+  const message: string = error?.message ?? String(error);
+  const reason = extractRevertReason(error);
+
+  const code =
+    (reason ? decodeRevertReason(reason) : undefined) ??
+    decodeRevertReason(message) ??
+    (error?.code === 'CALL_EXCEPTION'
+      ? SovrynErrorCode.ETHERS_CALL_EXCEPTION
+      : SovrynErrorCode.UNKNOWN_ERROR);
+
+  return makeError(message, code, error instanceof Error ? error : undefined);
+};
@@ -1,4 +1,9 @@
 export * from './constants';
 export * from './errors/errors';
+export * from './errors/revert-decoder';
 
 export * from './swaps/smart-router';
+export * from './prices';
+export * from './simulation';
+
+export { getCallOverrides } from './internal/utils';
@@ -1,7 +1,15 @@
-import { BigNumber, BigNumberish, ethers, providers } from 'ethers';
+import {
+  BigNumber,
+  BigNumberish,
+  CallOverrides,
+  ethers,
+  providers,
+} from 'ethers';
+
+import { Decimal, Decimalish } from '@sovryn/utils';
 
 import { DEFAULT_SWAP_SLIPPAGE } from '../constants';
-import { SwapPairs } from '../swaps/smart-router/types';
+import { Options, SwapPairs, SwapQuote } from '../swaps/smart-router/types';
 
 export function defineProperties<T>(
   target: T,
@@ -18,6 +26,12 @@ export function defineProperties<T>(
   }
 }
 
+// overrides of view calls reading state at block of the options, latest block if not set
+export const getCallOverrides = (
+  options?: Partial<Pick<Options, 'blockTag'>>,
+): CallOverrides =>
+  options?.blockTag !== undefined ? { blockTag: options.blockTag } : {};
+
 // slippage 100% = 10000, 1% = 100
 export const getMinReturn = (
   amount: BigNumberish,
@@ -25,6 +39,66 @@ export const getMinReturn = (
 ) =>
   BigNumber.from(amount).sub(BigNumber.from(amount).mul(slippage).div(10000));
 
+// slippage 100% = 10000, 1% = 100
+export const getMaxInput = (
+  amount: BigNumberish,
+  slippage: BigNumberish = DEFAULT_SWAP_SLIPPAGE,
+) =>
+  BigNumber.from(amount).add(BigNumber.from(amount).mul(slippage).div(10000));
+
+type SwapQuoteParams = {
+  amount: BigNumberish;
+  amountOut: BigNumber;
+  // amount of destination token for one entry token, before fees and price impact
+  spotPrice: Decimalish;
+  protocolFee?: BigNumber;
+  lpFee?: BigNumber;
+  gasEstimate: BigNumberish;
+  slippage?: BigNumberish;
+  // fixed rate swaps are always executed at the quoted amount
+  fixedRate?: boolean;
+};
+
+export const makeSwapQuote = ({
+  amount,
+  amountOut,
+  spotPrice,
+  protocolFee = BigNumber.from(0),
+  lpFee = BigNumber.from(0),
+  gasEstimate,
+  slippage,
+  fixedRate = false,
+}: SwapQuoteParams): SwapQuote => {
+  const expected = Decimal.fromBigNumberString(
+    BigNumber.from(amount).toString(),
+  ).mul(spotPrice);
+  const received = Decimal.fromBigNumberString(
+    amountOut.add(protocolFee).add(lpFee).toString(),
+  );
+
+  const priceImpact =
+    expected.isZero() || received.gte(expected)
+      ? Decimal.ZERO
+      : Decimal.ONE.sub(received.div(expected)).mul(100);
+
+  return {
+    amountOut,
+    minimumOut: fixedRate ? amountOut : getMinReturn(amountOut, slippage),
+    protocolFee,
+    lpFee,
+    spotPrice: Decimal.from(spotPrice),
+    priceImpact,
+    gasEstimate: BigNumber.from(gasEstimate),
+  };
+};
+
+// fee taken from the swap with given rate, if amountOut is what is left after the fee
+export const feeFromRate = (amountOut: BigNumberish, rate: Decimalish) =>
+  Decimal.fromBigNumberString(BigNumber.from(amountOut).toString())
+    .mul(rate)
+    .div(Decimal.ONE.sub(rate))
+    .toBigNumber();
+
 const Erc20IFace = new ethers.utils.Interface([
   'function transfer(address to, uint256 amount) public',
   'function approve(address spender, uint256 amount) public',
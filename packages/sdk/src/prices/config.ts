@@ -0,0 +1,37 @@
+import { ChainIds } from '@sovryn/ethers-provider';
+
+import { ambientPoolSource } from './sources/ambient-pool-source';
+import { myntFixedRateSource } from './sources/mynt-fixed-rate-source';
+import { priceFeedSource } from './sources/price-feed-source';
+import { stablecoinPegSource } from './sources/stablecoin-peg-source';
+import { PriceSourceFunction } from './types';
+
+// Price sources used for each chain, in order of priority.
+export const DEFAULT_PRICE_SOURCES: Partial<
+  Record<ChainIds, PriceSourceFunction[]>
+> = {
+  [ChainIds.RSK_MAINNET]: [
+    stablecoinPegSource,
+    myntFixedRateSource,
+    priceFeedSource,
+  ],
+  [ChainIds.RSK_TESTNET]: [
+    stablecoinPegSource,
+    myntFixedRateSource,
+    priceFeedSource,
+  ],
+  [ChainIds.BOB_MAINNET]: [stablecoinPegSource, ambientPoolSource],
+  [ChainIds.BOB_TESTNET]: [stablecoinPegSource, ambientPoolSource],
+  [ChainIds.SEPOLIA]: [stablecoinPegSource, ambientPoolSource],
+  [ChainIds.MAINNET]: [stablecoinPegSource],
+};
+
+// Asset used as a reference for BTC prices on each chain.
+export const BTC_PRICE_ASSETS: Partial<Record<ChainIds, string>> = {
+  [ChainIds.RSK_MAINNET]: 'BTC',
+  [ChainIds.RSK_TESTNET]: 'BTC',
+  [ChainIds.BOB_MAINNET]: 'WBTC',
+  [ChainIds.BOB_TESTNET]: 'WBTC',
+  [ChainIds.SEPOLIA]: 'WBTC',
+  [ChainIds.MAINNET]: 'WBTC',
+};
@@ -0,0 +1,16 @@
+import { ambientPoolSource } from './sources/ambient-pool-source';
+import { myntFixedRateSource } from './sources/mynt-fixed-rate-source';
+import { priceFeedSource } from './sources/price-feed-source';
+import { stablecoinPegSource } from './sources/stablecoin-peg-source';
+
+export * from './types';
+export * from './config';
+
+export * from './price-oracle';
+
+export const priceSources = {
+  stablecoinPegSource,
+  priceFeedSource,
+  myntFixedRateSource,
+  ambientPoolSource,
+};
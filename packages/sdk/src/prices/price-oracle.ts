@@ -0,0 +1,152 @@
+import { providers } from 'ethers';
+
+import { getAssetContract } from '@sovryn/contracts';
+import { ChainId } from '@sovryn/ethers-provider';
+import { Decimal } from '@sovryn/utils';
+
+import { SovrynErrorCode, makeError } from '../errors/errors';
+import { BTC_PRICE_ASSETS, DEFAULT_PRICE_SOURCES } from './config';
+import {
+  AssetPrice,
+  PriceSource,
+  PriceSourceContext,
+  PriceSourceFunction,
+} from './types';
+
+type CachedPrice = {
+  block: number;
+  price: Promise<Decimal | undefined>;
+  settled: boolean;
+};
+
+export class PriceOracle {
+  protected sources = new Map<ChainId, PriceSource[]>();
+  protected cache = new Map<string, CachedPrice>();
+
+  constructor(
+    protected provider: providers.Provider,
+    protected availableSources: Partial<
+      Record<ChainId, PriceSourceFunction[]>
+    > = DEFAULT_PRICE_SOURCES,
+  ) {}
+
+  // return price sources configured for the chain, in order of priority
+  public getSources(chain: ChainId): PriceSource[] {
+    if (!this.sources.has(chain)) {
+      this.sources.set(
+        chain,
+        (this.availableSources[chain] ?? [])
+          .map(source => source(this.provider))
+          .filter(source => source.chains.includes(chain)),
+      );
+    }
+    return this.sources.get(chain)!;
+  }
+
+  // return USD price of one token, prices are cached until the next block
+  public async getUsdPrice(chain: ChainId, token: string): Promise<Decimal> {
+    const block = await this.provider.getBlockNumber();
+    const price = await this.resolveUsdPrice(chain, token, block, []);
+
+    if (!price) {
+      throw makeError(
+        `No price available for ${token}`,
+        SovrynErrorCode.PRICE_NOT_AVAILABLE,
+      );
+    }
+
+    return price;
+  }
+
+  // return BTC price of one token
+  public async getBtcPrice(chain: ChainId, token: string): Promise<Decimal> {
+    return (await this.getPrices(chain, token)).btc;
+  }
+
+  // return USD and BTC prices of one token
+  public async getPrices(chain: ChainId, token: string): Promise<AssetPrice> {
+    const btcAsset = BTC_PRICE_ASSETS[chain];
+
+    if (!btcAsset) {
+      throw makeError(
+        `No BTC price asset configured for chain ${chain}`,
+        SovrynErrorCode.PRICE_NOT_AVAILABLE,
+      );
+    }
+
+    const btc = await getAssetContract(btcAsset, chain);
+    const [usd, btcUsd] = await Promise.all([
+      this.getUsdPrice(chain, token),
+      this.getUsdPrice(chain, btc.address),
+    ]);
+
+    return { usd, btc: usd.div(btcUsd) };
+  }
+
+  // drop cached prices, so they are queried again even within the same block
+  public clearCache() {
+    this.cache.clear();
+  }
+
+  // Sources may price a token through other tokens, visited tokens prevent endless loops.
+  // Only prices of top level queries are cached, since nested ones may be missing a loop path.
+  // Nested queries reuse only settled prices, so concurrent queries can't wait for each other.
+  protected resolveUsdPrice(
+    chain: ChainId,
+    token: string,
+    block: number,
+    visited: string[],
+  ): Promise<Decimal | undefined> {
+    if (visited.includes(token.toLowerCase())) {
+      return Promise.resolve(undefined);
+    }
+
+    const key = `${chain}:${token.toLowerCase()}`;
+
+    const cached = this.cache.get(key);
+    if (
+      cached &&
+      cached.block === block &&
+      (cached.settled || visited.length === 0)
+    ) {
+      return cached.price;
+    }
+
+    const price = this.queryUsdPrice(chain, token, block, [
+      ...visited,
+      token.toLowerCase(),
+    ]);
+
+    if (visited.length === 0) {
+      const entry: CachedPrice = { block, price, settled: false };
+      price.then(() => (entry.settled = true));
+      this.cache.set(key, entry);
+    }
+
+    return price;
+  }
+
+  protected async queryUsdPrice(
+    chain: ChainId,
+    token: string,
+    block: number,
+    visited: string[],
+  ): Promise<Decimal | undefined> {
+    const context: PriceSourceContext = {
+      chainId: chain,
+      usdPrice: asset => this.resolveUsdPrice(chain, asset, block, visited),
+    };
+
+    for (const source of this.getSources(chain)) {
+      const price = await source
+        .usdPrice(token, context)
+        .catch(() => undefined);
+
+      if (price && price.gt(0)) {
+        return price;
+      }
+    }
+
+    return undefined;
+  }
+}
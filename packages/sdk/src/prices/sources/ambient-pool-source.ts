@@ -0,0 +1,91 @@
+import { providers } from 'ethers';
+
+import { getAssetContract } from '@sovryn/contracts';
+import { ChainId, ChainIds } from '@sovryn/ethers-provider';
+import { CrocEnv } from '@sovryn/sdex';
+import { Decimal } from '@sovryn/utils';
+
+import { STABLECOINS } from '../../constants';
+import {
+  PoolWithIndex,
+  bfsShortestPath,
+  constructGraph,
+  fetchPools,
+  groupItemsInPairs,
+} from '../../swaps/smart-router/utils/ambient-utils';
+import { PriceSourceFunction } from '../types';
+
+// Prices assets by spot prices of Ambient pools along the shortest path to a stablecoin.
+export const ambientPoolSource: PriceSourceFunction = (
+  provider: providers.Provider,
+) => {
+  const poolCache: Partial<Record<ChainId, PoolWithIndex[]>> = {};
+  const loadPools = async (chainId: ChainId) => {
+    if (!poolCache[chainId]) {
+      poolCache[chainId] = (await fetchPools(chainId)).map(
+        ([base, quote, index]) =>
+          [base.toLowerCase(), quote.toLowerCase(), index] as PoolWithIndex,
+      );
+    }
+    return poolCache[chainId]!;
+  };
+
+  const findStablecoinPath = async (chainId: ChainId, token: string) => {
+    const pools = await loadPools(chainId);
+    const graph = constructGraph(pools.map(pool => [pool[0], pool[1]]));
+
+    const stablecoins = await Promise.all(
+      (STABLECOINS[chainId] ?? []).map(symbol =>
+        getAssetContract(symbol, chainId)
+          .then(asset => asset.address.toLowerCase())
+          .catch(() => undefined),
+      ),
+    );
+
+    return stablecoins
+      .map(stablecoin =>
+        stablecoin ? bfsShortestPath(graph, token, stablecoin) : undefined,
+      )
+      .reduce<string[] | undefined>(
+        (shortest, path) =>
+          path && (!shortest || path.length < shortest.length)
+            ? path
+            : shortest,
+        undefined,
+      );
+  };
+
+  return {
+    name: 'AmbientPool',
+    chains: [ChainIds.BOB_MAINNET, ChainIds.BOB_TESTNET, ChainIds.SEPOLIA],
+    usdPrice: async (token, { chainId, usdPrice }) => {
+      const path = await findStablecoinPath(chainId, token.toLowerCase());
+
+      if (!path) {
+        return undefined;
+      }
+
+      const pools = await loadPools(chainId);
+      const env = new CrocEnv(provider);
+
+      // display price of the pool is the amount of the second token for one first token
+      const prices = await Promise.all(
+        groupItemsInPairs(path).map(([tokenIn, tokenOut]) => {
+          const pool = pools.find(
+            ([base, quote]) =>
+              (base === tokenIn && quote === tokenOut) ||
+              (base === tokenOut && quote === tokenIn),
+          )!;
+          return env.pool(tokenIn, tokenOut, pool[2]).displayPrice();
+        }),
+      );
+
+      const stablecoinPrice = await usdPrice(path[path.length - 1]);
+
+      return prices.reduce(
+        (value, price) => value?.mul(price),
+        stablecoinPrice,
+      );
+    },
+  };
+};
@@ -0,0 +1,31 @@
+import { providers } from 'ethers';
+
+import { getAssetContract } from '@sovryn/contracts';
+import { ChainIds } from '@sovryn/ethers-provider';
+
+import { MYNT_FIXED_RATE } from '../../constants';
+import { areAddressesEqual } from '../../internal/utils';
+import { PriceSourceFunction } from '../types';
+
+// Prices MYNT by the rate of the fixed rate converter to SOV.
+export const myntFixedRateSource: PriceSourceFunction = (
+  provider: providers.Provider,
+) => ({
+  name: 'MyntFixedRate',
+  chains: [ChainIds.RSK_MAINNET, ChainIds.RSK_TESTNET],
+  usdPrice: async (token, { chainId, usdPrice }) => {
+    const mynt = await getAssetContract('MYNT', chainId);
+
+    if (!areAddressesEqual(token, mynt.address)) {
+      return undefined;
+    }
+
+    const sovPrice = await usdPrice(
+      (
+        await getAssetContract('SOV', chainId)
+      ).address,
+    );
+
+    return sovPrice?.mul(MYNT_FIXED_RATE);
+  },
+});
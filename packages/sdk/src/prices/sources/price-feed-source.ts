@@ -0,0 +1,59 @@
+import { BigNumber, Contract, constants, providers } from 'ethers';
+
+import { getAssetContract, getProtocolContract } from '@sovryn/contracts';
+import { ChainId, ChainIds } from '@sovryn/ethers-provider';
+import { Decimal } from '@sovryn/utils';
+
+import { areAddressesEqual } from '../../internal/utils';
+import { PriceSourceFunction } from '../types';
+
+// Prices assets using the priceFeed protocol contract on RSK, which quotes rates against rUSDT.
+export const priceFeedSource: PriceSourceFunction = (
+  provider: providers.Provider,
+) => {
+  const priceFeedContracts: Partial<Record<ChainId, Contract>> = {};
+
+  const getPriceFeedContract = async (chainId: ChainId) => {
+    if (!priceFeedContracts[chainId]) {
+      const { address, abi } = await getProtocolContract('priceFeed', chainId);
+      priceFeedContracts[chainId] = new Contract(address, abi, provider);
+    }
+    return priceFeedContracts[chainId]!;
+  };
+
+  return {
+    name: 'PriceFeed',
+    chains: [ChainIds.RSK_MAINNET, ChainIds.RSK_TESTNET],
+    usdPrice: async (token, { chainId }) => {
+      const [feed, wrbtc, rusdt] = await Promise.all([
+        getPriceFeedContract(chainId),
+        getAssetContract('WBTC', chainId),
+        getAssetContract('RUSDT', chainId),
+      ]);
+
+      // price feed knows native token only by its wrapped version
+      const asset = areAddressesEqual(token, constants.AddressZero)
+        ? wrbtc.address
+        : token;
+
+      const price: { rate: BigNumber; precision: BigNumber } | undefined =
+        await feed
+          .queryRate(
+            asset,
+            // price feed uses old rUSDT address for testnet
+            chainId === ChainIds.RSK_TESTNET
+              ? '0x4D5a316D23eBE168d8f887b4447bf8DbFA4901CC'.toLowerCase()
+              : rusdt.address,
+          )
+          .catch(() => undefined);
+
+      if (!price || price.precision.isZero()) {
+        return undefined;
+      }
+
+      return Decimal.fromBigNumberString(
+        price.rate.mul(constants.WeiPerEther).div(price.precision).toString(),
+      );
+    },
+  };
+};
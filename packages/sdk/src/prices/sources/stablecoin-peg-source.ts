@@ -0,0 +1,32 @@
+import { providers } from 'ethers';
+
+import { getAssetDataByAddress } from '@sovryn/contracts';
+import { ChainIds } from '@sovryn/ethers-provider';
+import { Decimal } from '@sovryn/utils';
+
+import { STABLECOINS } from '../../constants';
+import { PriceSourceFunction } from '../types';
+
+// Prices stablecoins at 1 USD.
+export const stablecoinPegSource: PriceSourceFunction = (
+  provider: providers.Provider,
+) => ({
+  name: 'StablecoinPeg',
+  chains: Object.keys(STABLECOINS) as ChainIds[],
+  usdPrice: async (token, { chainId }) => {
+    const asset = await getAssetDataByAddress(token, chainId).catch(
+      () => undefined,
+    );
+
+    if (
+      asset &&
+      STABLECOINS[chainId]?.find(
+        symbol => symbol.toLowerCase() === asset.symbol.toLowerCase(),
+      )
+    ) {
+      return Decimal.ONE;
+    }
+
+    return undefined;
+  },
+});
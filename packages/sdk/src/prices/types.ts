@@ -0,0 +1,31 @@
+import type { providers } from 'ethers';
+
+import type { ChainId } from '@sovryn/ethers-provider';
+import type { Decimal } from '@sovryn/utils';
+
+export type AssetPrice = {
+  // Price of one token in USD.
+  usd: Decimal;
+  // Price of one token in BTC.
+  btc: Decimal;
+};
+
+export type PriceSourceContext = {
+  chainId: ChainId;
+  // Get USD price of another token using all sources configured for the chain.
+  usdPrice: (token: string) => Promise<Decimal | undefined>;
+};
+
+export type PriceSource = {
+  // Name of the source.
+  name: string;
+  // Chains supported by the source.
+  chains: ChainId[];
+  // Get USD price of the token, or undefined if the source can't price it.
+  usdPrice: (
+    token: string,
+    context: PriceSourceContext,
+  ) => Promise<Decimal | undefined>;
+};
+
+export type PriceSourceFunction = (provider: providers.Provider) => PriceSource;
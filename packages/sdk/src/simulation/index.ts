@@ -0,0 +1,4 @@
+export * from './types';
+
+export * from './local-simulator';
+export * from './simulate-swap';
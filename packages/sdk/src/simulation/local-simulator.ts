@@ -0,0 +1,45 @@
+import { constants, providers } from 'ethers';
+
+import {
+  decodeRevertError,
+  extractRevertReason,
+} from '../errors/revert-decoder';
+import { SimulatedTransaction, TransactionSimulator } from './types';
+
+// Stand-in for the external simulator, calling every transaction against the latest block.
+// State changes of previous transactions are not applied and calls don't return logs,
+// so only reverts and gas usage are known. A revert of a transaction sent after another one,
+// e.g. swap after its approval, may be caused by the missing state and is not reported as failure.
+export const localSimulator =
+  (provider: providers.Provider): TransactionSimulator =>
+  async (chainId, transactions) => {
+    const results: SimulatedTransaction[] = [];
+
+    for (const [index, transaction] of transactions.entries()) {
+      try {
+        const returnData = await provider.call(transaction);
+        const gasUsed = await provider.estimateGas(transaction);
+        results.push({
+          simulated: true,
+          status: true,
+          gasUsed,
+          logs: [],
+          returnData,
+        });
+      } catch (e) {
+        const dependsOnPrevious = index > 0;
+
+        results.push({
+          simulated: !dependsOnPrevious,
+          status: dependsOnPrevious,
+          gasUsed: constants.Zero,
+          logs: [],
+          error: dependsOnPrevious
+            ? undefined
+            : extractRevertReason(e) ?? decodeRevertError(e).message,
+        });
+      }
+    }
+
+    return results;
+  };
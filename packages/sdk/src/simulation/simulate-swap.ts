@@ -0,0 +1,210 @@
+import type { TransactionRequest } from '@ethersproject/abstract-provider';
+
+import { BigNumber, BigNumberish, constants, providers, utils } from 'ethers';
+
+import { getAssetDataByAddress } from '@sovryn/contracts';
+import { ChainId, numberToChainId } from '@sovryn/ethers-provider';
+
+import { SovrynError } from '../errors/errors';
+import { decodeRevertError } from '../errors/revert-decoder';
+import { SwapOptions, SwapRoute } from '../swaps/smart-router/types';
+import { localSimulator } from './local-simulator';
+import {
+  SimulatedTransaction,
+  SimulationLog,
+  SimulationTransaction,
+  SwapSimulation,
+  TransactionSimulator,
+} from './types';
+
+const TokenEventsIFace = new utils.Interface([
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+  'event Withdrawal(address indexed src, uint256 wad)',
+]);
+
+const TRANSFER_TOPIC = TokenEventsIFace.getEventTopic('Transfer');
+const WITHDRAWAL_TOPIC = TokenEventsIFace.getEventTopic('Withdrawal');
+
+// Sum token transfers from and to the account. Wrapped native token unwrapped during the swap
+// is counted as native token (zero address) received by the account.
+export const decodeBalanceChanges = (
+  logs: SimulationLog[],
+  account: string,
+): Record<string, BigNumber> => {
+  const changes: Record<string, BigNumber> = {};
+  const add = (token: string, value: BigNumber) => {
+    changes[token] = (changes[token] ?? constants.Zero).add(value);
+  };
+
+  account = account.toLowerCase();
+
+  for (const log of logs) {
+    const token = log.address.toLowerCase();
+
+    if (log.topics[0] === TRANSFER_TOPIC && log.topics.length === 3) {
+      const { from, to, value } = TokenEventsIFace.decodeEventLog(
+        'Transfer',
+        log.data,
+        log.topics,
+      );
+
+      if (from.toLowerCase() === account) {
+        add(token, BigNumber.from(value).mul(-1));
+      }
+      if (to.toLowerCase() === account) {
+        add(token, BigNumber.from(value));
+      }
+    } else if (log.topics[0] === WITHDRAWAL_TOPIC) {
+      const { wad } = TokenEventsIFace.decodeEventLog(
+        'Withdrawal',
+        log.data,
+        log.topics,
+      );
+      add(constants.AddressZero, BigNumber.from(wad));
+    }
+  }
+
+  return changes;
+};
+
+const normalizeAmount = async (
+  token: string,
+  amount: BigNumber,
+  chainId: ChainId,
+) => {
+  const decimals =
+    token === constants.AddressZero
+      ? 18
+      : await getAssetDataByAddress(token, chainId)
+          .then(asset => asset.decimals)
+          .catch(() => 18);
+
+  return amount.mul(BigNumber.from(10).pow(18 - decimals));
+};
+
+const toSimulationTransaction = (
+  request: TransactionRequest,
+  from: string,
+): SimulationTransaction => ({
+  from,
+  to: request.to!,
+  data: request.data?.toString() ?? '0x',
+  value: BigNumber.from(request.value ?? 0),
+  gasLimit: request.gasLimit ? BigNumber.from(request.gasLimit) : undefined,
+});
+
+const failedSimulation = (
+  error: SovrynError,
+  transactions: SimulatedTransaction[] = [],
+): SwapSimulation => ({
+  simulated: true,
+  success: false,
+  balanceChanges: {},
+  gasUsed: constants.Zero,
+  error,
+  transactions,
+});
+
+const skippedSimulation = (): SwapSimulation => ({
+  simulated: false,
+  success: true,
+  balanceChanges: {},
+  gasUsed: constants.Zero,
+  transactions: [],
+});
+
+// Simulate approval and swap of the route together, before asking user to sign them.
+// Routes using permits can be simulated only when the signed permit is passed in options.
+export const simulateSwap = async (
+  provider: providers.Provider,
+  route: SwapRoute,
+  entry: string,
+  destination: string,
+  amount: BigNumberish,
+  from: string,
+  options?: Partial<SwapOptions>,
+  simulator: TransactionSimulator = localSimulator(provider),
+): Promise<SwapSimulation> => {
+  let chainId: ChainId;
+  const requests: TransactionRequest[] = [];
+
+  try {
+    chainId = numberToChainId((await provider.getNetwork()).chainId);
+
+    const permit = await route.permit(entry, destination, amount, from);
+
+    // swap can't be built before the permit is signed, so there is nothing to simulate yet
+    if (permit && !options?.typedDataSignature) {
+      return skippedSimulation();
+    }
+
+    if (!permit || permit.approvalRequired) {
+      const approve = await route.approve(entry, destination, amount, from);
+      if (approve) {
+        requests.push(approve);
+      }
+    }
+
+    requests.push(await route.swap(entry, destination, amount, from, options));
+  } catch (e) {
+    return failedSimulation(decodeRevertError(e));
+  }
+
+  let transactions: SimulatedTransaction[];
+  try {
+    transactions = await simulator(
+      chainId,
+      requests.map(request => toSimulationTransaction(request, from)),
+    );
+  } catch {
+    // simulator can't be reached, the swap is not blocked by it
+    return skippedSimulation();
+  }
+
+  const gasUsed = transactions.reduce(
+    (total, transaction) => total.add(transaction.gasUsed),
+    constants.Zero,
+  );
+
+  const failed = transactions.find(transaction => !transaction.status);
+  if (failed) {
+    return {
+      ...failedSimulation(
+        decodeRevertError(
+          Object.assign(new Error(failed.error ?? 'Transaction reverted'), {
+            code: 'CALL_EXCEPTION',
+            data: failed.returnData,
+          }),
+        ),
+        transactions,
+      ),
+      gasUsed,
+    };
+  }
+
+  const simulated = transactions.every(transaction => transaction.simulated);
+  const swap = transactions[transactions.length - 1];
+  const balanceChanges = decodeBalanceChanges(swap.logs, from);
+
+  const entryChange =
+    entry === constants.AddressZero
+      ? BigNumber.from(requests[requests.length - 1].value ?? 0).mul(-1)
+      : balanceChanges[entry.toLowerCase()];
+  const destinationChange = balanceChanges[destination.toLowerCase()];
+
+  return {
+    simulated,
+    success: true,
+    amountIn:
+      simulated && entryChange?.lt(0)
+        ? await normalizeAmount(entry, entryChange.mul(-1), chainId)
+        : undefined,
+    amountOut:
+      simulated && destinationChange?.gt(0)
+        ? await normalizeAmount(destination, destinationChange, chainId)
+        : undefined,
+    balanceChanges,
+    gasUsed,
+    transactions,
+  };
+};
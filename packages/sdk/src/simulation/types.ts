@@ -0,0 +1,54 @@
+import type { BigNumber } from 'ethers';
+
+import type { ChainId } from '@sovryn/ethers-provider';
+
+import type { SovrynError } from '../errors/errors';
+
+export type SimulationTransaction = {
+  from: string;
+  to: string;
+  data: string;
+  value: BigNumber;
+  gasLimit?: BigNumber;
+};
+
+export type SimulationLog = {
+  address: string;
+  data: string;
+  topics: string[];
+};
+
+export type SimulatedTransaction = {
+  // False if the simulator couldn't run the transaction, e.g. it depends on state of the previous one.
+  simulated: boolean;
+  // False if the transaction reverted.
+  status: boolean;
+  gasUsed: BigNumber;
+  logs: SimulationLog[];
+  returnData?: string;
+  // Revert reason or error message of the failed transaction.
+  error?: string;
+};
+
+// Runs transactions in order on top of the current chain state, without sending them.
+export type TransactionSimulator = (
+  chainId: ChainId,
+  transactions: SimulationTransaction[],
+) => Promise<SimulatedTransaction[]>;
+
+export type SwapSimulation = {
+  // False if some of the transactions couldn't be simulated.
+  simulated: boolean;
+  // False if some of the transactions reverted.
+  success: boolean;
+  // Amount of entry token spent, normalized to 18 decimals. Undefined if simulator returned no logs.
+  amountIn?: BigNumber;
+  // Amount of destination token received, normalized to 18 decimals. Undefined if simulator returned no logs.
+  amountOut?: BigNumber;
+  // Change of the sender balance for every token transferred by the swap, in token units.
+  balanceChanges: Record<string, BigNumber>;
+  gasUsed: BigNumber;
+  // Decoded revert of the failed transaction.
+  error?: SovrynError;
+  transactions: SimulatedTransaction[];
+};
@@ -2,7 +2,12 @@ import { ammSwapRoute } from './routes/amm-swap-route';
 import { mocIntegrationSwapRoute } from './routes/moc-integration-swap-route';
 import { myntBassetRoute } from './routes/mynt-basset-route';
 import { myntFixedRateRoute } from './routes/mynt-fixed-rate-route';
-import { SwapRouteFunction } from './types';
+import {
+  SmartRouterCacheOptions,
+  SwapPathOptions,
+  SwapRouteFunction,
+  SwapSplitOptions,
+} from './types';
 
 export const DEFAULT_SWAP_ROUTES: SwapRouteFunction[] = [
   ammSwapRoute,
@@ -10,3 +15,17 @@ export const DEFAULT_SWAP_ROUTES: SwapRouteFunction[] = [
   myntFixedRateRoute,
   mocIntegrationSwapRoute,
 ];
+
+export const DEFAULT_SMART_ROUTER_CACHE_OPTIONS: SmartRouterCacheOptions = {
+  pairsTtl: 5 * 60 * 1000, // 5 minutes
+  blockNumberTtl: 2_000,
+};
+
+export const DEFAULT_SWAP_PATH_OPTIONS: SwapPathOptions = {
+  maxHops: 3,
+  maxPaths: 24,
+};
+
+export const DEFAULT_SWAP_SPLIT_OPTIONS: SwapSplitOptions = {
+  maxParts: 10,
+};
@@ -20,3 +20,5 @@ export const smartRoutes = {
 };
 
 export { prepareERC2612Permit } from './utils/permit';
+export type { RouteEdge, RouteGraph } from './utils/path-utils';
+export type { AmbientRouteOptions } from './routes/ambient';
@@ -1,17 +1,35 @@
-import { BigNumber, utils, providers, constants, BigNumberish } from 'ethers';
+import {
+  BigNumber,
+  utils,
+  providers,
+  constants,
+  BigNumberish,
+  CallOverrides,
+  VoidSigner,
+} from 'ethers';
 
 import { ChainIds } from '@sovryn/ethers-provider';
 import { numberToChainId } from '@sovryn/ethers-provider';
-import { CrocEnv, CrocPoolView } from '@sovryn/sdex';
+import {
+  CrocCurveSimulator,
+  CrocCurveSnapshot,
+  CrocEnv,
+  CrocPoolView,
+  CrocSwapSettlement,
+} from '@sovryn/sdex';
 import { OrderDirective } from '@sovryn/sdex/dist/encoding/longform';
+import { CrocEthView } from '@sovryn/sdex/dist/tokens';
 import { Decimal } from '@sovryn/utils';
 
 import { SovrynErrorCode, makeError } from '../../../errors/errors';
 import {
+  feeFromRate,
+  getCallOverrides,
   hasEnoughAllowance,
   makeApproveRequest,
+  makeSwapQuote,
 } from '../../../internal/utils';
-import { SwapRouteFunction } from '../types';
+import { SwapOptions, SwapRoute } from '../types';
 import {
   PoolWithIndex,
   bfsShortestPath,
@@ -19,22 +37,50 @@ import {
   constructGraph,
   fetchPools,
   groupItemsInPairs,
+  queryPoolFeeRate,
 } from '../utils/ambient-utils';
+import { assertMaxInput } from '../utils/output-utils';
+
+const SWAP_GAS_ESTIMATE = 200_000;
+const HOP_GAS_ESTIMATE = 120_000;
+
+// smallest slippage of exact output plans, as a fraction
+const MIN_BUY_SLIPPAGE = 0.000001;
+
+export type AmbientRouteOptions = {
+  // loads curve snapshot of the pool to quote it offline, pools without a snapshot are quoted on chain.
+  // Offline quotes are not verified against the contract until a pool is recorded with sdex recordCurve.ts.
+  loadCurveSnapshot?: (
+    pool: CrocPoolView,
+    overrides: CallOverrides,
+  ) => Promise<CrocCurveSnapshot | undefined>;
+  // settlement of swaps with the dex balance (surplus collateral) of the user, when swap options don't set it
+  surplus?: CrocSwapSettlement;
+};
 
-export const ambientRoute: SwapRouteFunction = (
+export const ambientRoute = (
   provider: providers.Provider,
-) => {
+  routeOptions: AmbientRouteOptions = {},
+): SwapRoute => {
   const getChainId = async () =>
     numberToChainId((await provider.getNetwork()).chainId);
 
+  const getSettlement = (options?: Partial<SwapOptions>) =>
+    options?.surplus ?? routeOptions.surplus;
+
+  // env knows the swapper when given, so native token covered by the dex balance isn't sent with the swap
+  const makeEnv = (from?: string) =>
+    new CrocEnv(provider, from ? new VoidSigner(from, provider) : undefined);
+
   const makePlan = async (
     entry: string,
     destination: string,
     poolIndex: number,
     _amount: BigNumber,
     slippage?: number,
+    from?: string,
   ) => {
-    const env = new CrocEnv(provider);
+    const env = makeEnv(from);
 
     const amount = await parseAmount(env, entry, _amount);
 
@@ -43,6 +89,28 @@ export const ambientRoute: SwapRouteFunction = (
       .for(destination, { slippage });
   };
 
+  // plan buying exact amount of destination, only direct pools can be used
+  const makeBuyPlan = async (
+    entry: string,
+    destination: string,
+    _amountOut: BigNumberish,
+    slippage?: number,
+    from?: string,
+  ) => {
+    const pair = findPair(await getChainId(), entry, destination);
+    if (!pair) {
+      throw makeError(
+        `Cannot buy exact amount of ${destination} with ${entry}, there is no direct pool`,
+        SovrynErrorCode.SWAP_PAIR_NOT_AVAILABLE,
+      );
+    }
+
+    const env = makeEnv(from);
+    const amountOut = await parseAmount(env, destination, _amountOut);
+
+    return env.buy(destination, amountOut, pair[2]).with(entry, { slippage });
+  };
+
   const poolCache: Record<string, PoolWithIndex[]> = {};
   const loadPools = async () => {
     const chainId = await getChainId();
@@ -65,6 +133,25 @@ export const ambientRoute: SwapRouteFunction = (
     );
   };
 
+  // returns pools the swap goes through, either the direct pool or shortest multi-hop path
+  const findPoolPath = async (entry: string, destination: string) => {
+    const chainId = await getChainId();
+    const pools = await loadPools();
+
+    const pair = findPair(chainId, entry, destination);
+    if (pair) {
+      return [[entry, destination, pair[2]] as PoolWithIndex];
+    }
+
+    const graph = constructGraph(pools.map(p => [p[0], p[1]]));
+    const path = bfsShortestPath(graph, entry, destination);
+
+    return groupItemsInPairs(path ?? []).map(item => {
+      const index = findPair(chainId, item[0], item[1])?.[2]!;
+      return [item[0], item[1], index] as PoolWithIndex;
+    });
+  };
+
   return {
     name: 'Ambient',
     chains: [ChainIds.BOB_MAINNET, ChainIds.BOB_TESTNET, ChainIds.SEPOLIA],
@@ -96,13 +183,19 @@ export const ambientRoute: SwapRouteFunction = (
 
       return pairs;
     },
-    quote: async (entry, destination, amount) => {
+    quote: async (entry, destination, amount, options) => {
       const chainId = await getChainId();
       const pools = await loadPools();
 
       const pair = findPair(chainId, entry, destination);
+      const overrides = getCallOverrides(options);
 
-      if (pair) {
+      // swap plans read the latest block only, past blocks and snapshots are quoted pool by pool
+      if (
+        pair &&
+        overrides.blockTag === undefined &&
+        !routeOptions.loadCurveSnapshot
+      ) {
         const plan = await makePlan(
           entry,
           destination,
@@ -159,6 +252,8 @@ export const ambientRoute: SwapRouteFunction = (
           ambientPools[0].poolIndex,
           entry,
           entryAmount,
+          overrides,
+          routeOptions.loadCurveSnapshot,
         ).catch(e => {
           console.error('Error calculating impact (init)', e, [
             ambientPools[0],
@@ -180,6 +275,8 @@ export const ambientRoute: SwapRouteFunction = (
             pool.poolIndex,
             poolPath[0],
             prev.amount,
+            overrides,
+            routeOptions.loadCurveSnapshot,
           ).catch(e => {
             console.warn('Error calculating impact', i, e, [
               pool,
@@ -197,6 +294,111 @@ export const ambientRoute: SwapRouteFunction = (
         );
       }
     },
+    async quoteDetails(entry, destination, amount, options) {
+      const path = await findPoolPath(entry, destination);
+
+      if (path.length === 0) {
+        throw makeError(
+          `Cannot swap ${entry} to ${destination}`,
+          SovrynErrorCode.SWAP_PAIR_NOT_AVAILABLE,
+        );
+      }
+
+      const env = new CrocEnv(provider);
+      const overrides = getCallOverrides(options);
+
+      const hops = await Promise.all(
+        path.map(async ([tokenIn, tokenOut, poolIndex]) => {
+          // display price of the pool is the amount of tokenOut for one tokenIn
+          const pool = env.pool(tokenIn, tokenOut, poolIndex);
+          const [price, feeRate] = await Promise.all([
+            pool.displayPrice(options?.blockTag),
+            queryPoolFeeRate(
+              env,
+              pool.baseToken.tokenAddr,
+              pool.quoteToken.tokenAddr,
+              poolIndex,
+              overrides,
+            ),
+          ]);
+
+          return { price, feeRate };
+        }),
+      );
+
+      const spotPrice = hops.reduce(
+        (value, hop) => value.mul(hop.price),
+        Decimal.ONE,
+      );
+      // each pool takes its fee from what is left after the previous ones
+      const feeRate = hops.reduce(
+        (rate, hop) => rate.add(Decimal.ONE.sub(rate).mul(hop.feeRate)),
+        Decimal.ZERO,
+      );
+
+      const amountOut = await this.quote(entry, destination, amount, options);
+
+      return makeSwapQuote({
+        amount,
+        amountOut,
+        spotPrice,
+        lpFee: feeFromRate(amountOut, feeRate),
+        gasEstimate: SWAP_GAS_ESTIMATE + HOP_GAS_ESTIMATE * (path.length - 1),
+        slippage: options?.slippage,
+      });
+    },
+    quoteForOutput: async (entry, destination, amountOut) => {
+      await loadPools();
+      const plan = await makeBuyPlan(entry, destination, amountOut);
+      return utils.parseEther((await plan.impact).sellQty);
+    },
+    swapForOutput: async (
+      entry,
+      destination,
+      amountOut,
+      maxAmountIn,
+      from,
+      options,
+      overrides,
+    ) => {
+      await loadPools();
+      const amountIn = utils.parseEther(
+        (await (await makeBuyPlan(entry, destination, amountOut)).impact)
+          .sellQty,
+      );
+      assertMaxInput(amountIn, maxAmountIn);
+
+      // plan limits the input by its slippage, which is derived from the allowed maximum.
+      // Zero slippage would make the plan fall back to its default, so it is kept just above zero.
+      const slippage = amountIn.isZero()
+        ? undefined
+        : Math.max(
+            Decimal.fromBigNumberString(BigNumber.from(maxAmountIn).toString())
+              .div(Decimal.fromBigNumberString(amountIn.toString()))
+              .sub(1)
+              .toNumber(),
+            MIN_BUY_SLIPPAGE,
+          );
+
+      const plan = await makeBuyPlan(
+        entry,
+        destination,
+        amountOut,
+        slippage,
+        from,
+      );
+      const txData = await plan.generateSwapData({
+        from,
+        settlement: getSettlement(options),
+      });
+
+      return {
+        to: txData.to,
+        data: txData.data,
+        value: txData.value,
+        ...overrides,
+      };
+    },
     approve: async (entry, destination, amount, from, overrides) => {
       if (entry === constants.AddressZero) {
         return undefined;
@@ -245,8 +447,12 @@ export const ambientRoute: SwapRouteFunction = (
           pair[2],
           BigNumber.from(amount),
           slippage,
+          from,
         );
-        const txData = await plan.generateSwapData({ from: from });
+        const txData = await plan.generateSwapData({
+          from,
+          settlement: getSettlement(options),
+        });
 
         return {
           to: txData.to,
@@ -269,10 +475,11 @@ export const ambientRoute: SwapRouteFunction = (
           );
         }
 
-        const env = new CrocEnv(provider);
+        const env = makeEnv(from);
         const context = await env.context;
 
         const entryAmount = await parseAmount(env, entry, amount);
+        const [sellSurplus, buySurplus] = surplusFlags(getSettlement(options));
 
         const proxyPath = context.chain.proxyPaths.long;
 
@@ -313,6 +520,10 @@ export const ambientRoute: SwapRouteFunction = (
         // order.open.useSurplus = !lastOut.orderPool.swap.inBaseQty;
         // entryHop.settlement.useSurplus = lastOut.orderPool.swap.inBaseQty;
 
+        const baseIsEntry =
+          entry.toLowerCase() ===
+          ambientPools[0].baseToken.tokenAddr.toLowerCase();
+
         // if it's single pool, entry and exit direct
         if (ambientPools.length === 1) {
           order.open.useSurplus = false;
@@ -320,16 +531,23 @@ export const ambientRoute: SwapRouteFunction = (
         } else {
           // if it's multi pool, entry direct, exit surplus
 
-          const baseIsEntry =
-            entry.toLowerCase() ===
-            ambientPools[0].baseToken.tokenAddr.toLowerCase();
-
           // setting both true would also work, but would force user to always use surplus first
           // we may not want that atm.
           order.open.useSurplus = !baseIsEntry;
           entryHop.settlement.useSurplus = baseIsEntry;
         }
 
+        // tokens paid from and to the dex balance of the user, exit of multi pool swaps is set with the last pool
+        const [entrySettlement, exitSettlement] = baseIsEntry
+          ? [order.open, entryHop.settlement]
+          : [entryHop.settlement, order.open];
+        if (sellSurplus) {
+          entrySettlement.useSurplus = true;
+        }
+        if (buySurplus && ambientPools.length === 1) {
+          exitSettlement.useSurplus = true;
+        }
+
         for (let i = 1; i < ambientPools.length; i++) {
           const pool = ambientPools[i];
           const poolPath = groupedPath[i];
@@ -361,13 +579,13 @@ export const ambientRoute: SwapRouteFunction = (
               baseHop.settlement.useSurplus = true;
               quoteHop.settlement.useSurplus = true;
               const ethHop = order.appendHop(constants.AddressZero);
-              ethHop.settlement.useSurplus = false;
+              ethHop.settlement.useSurplus = buySurplus;
             } else {
               const isBaseDestination =
                 destination.toLowerCase() ===
                 pool.baseToken.tokenAddr.toLowerCase();
-              baseHop.settlement.useSurplus = !isBaseDestination;
-              quoteHop.settlement.useSurplus = isBaseDestination;
+              baseHop.settlement.useSurplus = !isBaseDestination || buySurplus;
+              quoteHop.settlement.useSurplus = isBaseDestination || buySurplus;
             }
           }
         }
@@ -377,10 +595,19 @@ export const ambientRoute: SwapRouteFunction = (
           order.encodeBytes(),
         ]);
 
+        let value = BigNumber.from(0);
+        if (entry === constants.AddressZero) {
+          value = sellSurplus
+            ? await new CrocEthView(env.context).msgValOverSurplus(
+                BigNumber.from(entryAmount),
+              )
+            : BigNumber.from(entryAmount);
+        }
+
         return {
           to: context.dex.address,
           data,
-          value: entry === constants.AddressZero ? entryAmount : 0,
+          value,
           ...overrides,
         };
       }
@@ -394,18 +621,24 @@ const calculateImpact = async (
   poolIndex: number,
   entry: string,
   amount: BigNumber,
+  overrides: CallOverrides = {},
+  loadCurveSnapshot?: AmbientRouteOptions['loadCurveSnapshot'],
 ): Promise<{ amount: BigNumber; isBuy: boolean; impact: any }> => {
   const isBuy = pool.baseToken.tokenAddr.toLowerCase() === entry.toLowerCase();
 
-  const impact = await calcImpact(
-    env,
-    pool.baseToken.tokenAddr,
-    pool.quoteToken.tokenAddr,
-    poolIndex,
-    isBuy,
-    isBuy,
-    amount,
-  );
+  const snapshot = await loadCurveSnapshot?.(pool, overrides);
+  const impact = snapshot
+    ? new CrocCurveSimulator(snapshot).calcImpact(isBuy, isBuy, amount)
+    : await calcImpact(
+        env,
+        pool.baseToken.tokenAddr,
+        pool.quoteToken.tokenAddr,
+        poolIndex,
+        isBuy,
+        isBuy,
+        amount,
+        overrides,
+      );
 
   const entryOut = Decimal.fromBigNumberString(
     isBuy ? impact.quoteFlow : impact.baseFlow,
@@ -475,3 +708,13 @@ const parseAmount = async (
 
   return utils.parseUnits(utils.formatEther(amount), entryTokenDecimals);
 };
+
+// flags of the sold and bought token settled with the dex balance
+const surplusFlags = (settlement?: CrocSwapSettlement): [boolean, boolean] => {
+  if (!settlement) {
+    return [false, false];
+  } else if (typeof settlement === 'boolean') {
+    return [settlement, settlement];
+  }
+  return [settlement.sellDexSurplus, settlement.buyDexSurplus];
+};
@@ -1,17 +1,46 @@
-import { Contract, constants, providers } from 'ethers';
+import type { TransactionRequest } from '@ethersproject/abstract-provider';
+
+import {
+  BigNumber,
+  BigNumberish,
+  Contract,
+  constants,
+  providers,
+  utils,
+} from 'ethers';
 
 import { getAssetContract, getProtocolContract } from '@sovryn/contracts';
 import { ChainId, ChainIds, numberToChainId } from '@sovryn/ethers-provider';
+import { Decimal } from '@sovryn/utils';
 
 import { RSK_STABLECOINS } from '../../../constants';
 import { SovrynErrorCode, makeError } from '../../../errors/errors';
+import { decodeRevertError } from '../../../errors/revert-decoder';
 import {
   canSwapPair,
+  feeFromRate,
+  getCallOverrides,
   getMinReturn,
   makeApproveRequest,
   hasEnoughAllowance,
+  makeSwapQuote,
 } from '../../../internal/utils';
-import { SwapPairs, SwapRouteFunction } from '../types';
+import { Options, SwapPairs, SwapRouteFunction } from '../types';
+import { assertMaxInput, findInputForOutput } from '../utils/output-utils';
+
+const SWAP_GAS_ESTIMATE = 250_000;
+const HOP_GAS_ESTIMATE = 150_000;
+
+// spot price is approximated by quoting this fraction of the swapped amount
+const SPOT_PRICE_DIVIDER = 10_000;
+
+// converter fees are in parts per million
+const CONVERSION_FEE_PRECISION = 1_000_000;
+
+const ConverterIFace = new utils.Interface([
+  'function owner() view returns (address)',
+  'function conversionFee() view returns (uint32)',
+]);
 
 export const ammSwapRoute: SwapRouteFunction = (
   provider: providers.Provider,
@@ -68,6 +97,32 @@ export const ammSwapRoute: SwapRouteFunction = (
     return protocolContract;
   };
 
+  // fee rate taken by liquidity pool converters along the conversion path
+  const getPathFeeRate = async (path: string[], options?: Partial<Options>) => {
+    // path consists of [token, anchor, token, anchor, token, ...]
+    const anchors = path.filter((_, index) => index % 2 === 1);
+
+    const fees: number[] = await Promise.all(
+      anchors.map(async anchor => {
+        const converter = await new Contract(
+          anchor,
+          ConverterIFace,
+          provider,
+        ).owner(getCallOverrides(options));
+        return new Contract(converter, ConverterIFace, provider).conversionFee(
+          getCallOverrides(options),
+        );
+      }),
+    );
+
+    // each converter takes its fee from what is left after the previous ones
+    return fees.reduce(
+      (rate, fee) =>
+        rate.add(Decimal.ONE.sub(rate).mul(fee / CONVERSION_FEE_PRECISION)),
+      Decimal.ZERO,
+    );
+  };
+
   const isNativeToken = async (token: string) =>
     token === constants.AddressZero ||
     token ===
@@ -89,6 +144,46 @@ export const ammSwapRoute: SwapRouteFunction = (
     return token;
   };
 
+  const buildConvertByPath = async (
+    entry: string,
+    destination: string,
+    amount: BigNumberish,
+    minReturn: BigNumberish,
+    overrides?: Partial<TransactionRequest>,
+  ): Promise<TransactionRequest> => {
+    const baseToken = await validatedTokenAddress(entry);
+    const quoteToken = await validatedTokenAddress(destination);
+
+    const entryIsNative = await isNativeToken(entry);
+    const destinationIsNative = await isNativeToken(destination);
+
+    const path = await (
+      await getSwapNetworkContract()
+    ).conversionPath(baseToken, quoteToken);
+
+    const converter = await getConverterContract(entry, destination);
+
+    let args = [path, amount, minReturn];
+
+    if (!entryIsNative && !destinationIsNative) {
+      args = [
+        path,
+        amount,
+        minReturn,
+        constants.AddressZero,
+        constants.AddressZero,
+        '0',
+      ];
+    }
+
+    return {
+      to: converter.address,
+      data: converter.interface.encodeFunctionData('convertByPath', args),
+      value: entryIsNative ? amount.toString() : '0',
+      ...overrides,
+    };
+  };
+
   return {
     name: 'AMM',
     chains: [ChainIds.RSK_MAINNET, ChainIds.RSK_TESTNET],
@@ -146,15 +241,63 @@ export const ammSwapRoute: SwapRouteFunction = (
 
       return pairCache;
     },
-    quote: async (entry, destination, amount) => {
+    quote: async (entry, destination, amount, options) => {
       const baseToken = await validatedTokenAddress(entry);
       const quoteToken = await validatedTokenAddress(destination);
       return (await getSwapQuoteContract())
-        .getSwapExpectedReturn(baseToken, quoteToken, amount)
+        .getSwapExpectedReturn(
+          baseToken,
+          quoteToken,
+          amount,
+          getCallOverrides(options),
+        )
         .catch(e => {
-          throw makeError(e.message, SovrynErrorCode.ETHERS_CALL_EXCEPTION);
+          throw decodeRevertError(e);
         });
     },
+    async quoteDetails(entry, destination, amount, options) {
+      const baseToken = await validatedTokenAddress(entry);
+      const quoteToken = await validatedTokenAddress(destination);
+
+      const swapNetwork = await getSwapNetworkContract();
+      const path: string[] = await swapNetwork.conversionPath(
+        baseToken,
+        quoteToken,
+        getCallOverrides(options),
+      );
+
+      const spotAmount = BigNumber.from(amount).div(SPOT_PRICE_DIVIDER).gt(0)
+        ? BigNumber.from(amount).div(SPOT_PRICE_DIVIDER)
+        : BigNumber.from(amount);
+
+      const [amountOut, spotOut, feeRate] = await Promise.all([
+        this.quote(entry, destination, amount, options),
+        swapNetwork.rateByPath(
+          path,
+          spotAmount,
+          getCallOverrides(options),
+        ) as Promise<BigNumber>,
+        getPathFeeRate(path, options),
+      ]).catch(e => {
+        throw decodeRevertError(e);
+      });
+
+      // even the tiny swap pays converter fees, so they are added back to get the spot price
+      const spotPrice = Decimal.fromBigNumberString(spotOut.toString())
+        .div(Decimal.fromBigNumberString(spotAmount.toString()))
+        .div(Decimal.ONE.sub(feeRate));
+
+      const hops = Math.floor(path.length / 2);
+
+      return makeSwapQuote({
+        amount,
+        amountOut,
+        spotPrice,
+        lpFee: feeFromRate(amountOut, feeRate),
+        gasEstimate: SWAP_GAS_ESTIMATE + HOP_GAS_ESTIMATE * (hops - 1),
+        slippage: options?.slippage,
+      });
+    },
     approve: async (entry, destination, amount, from, overrides) => {
       // native token is always approved
       if (await isNativeToken(entry)) {
@@ -185,6 +328,20 @@ export const ammSwapRoute: SwapRouteFunction = (
       };
     },
     permit: async () => Promise.resolve(undefined),
+    async quoteForOutput(entry, destination, amountOut, options) {
+      // reverse swap is a close estimate, it only pays fees in the other token
+      const estimate = await this.quote(
+        destination,
+        entry,
+        amountOut,
+        options,
+      ).catch(() => undefined);
+      return findInputForOutput(
+        amount => this.quote(entry, destination, amount, options),
+        amountOut,
+        estimate,
+      );
+    },
     async swap(entry, destination, amount, from, options, overrides) {
       const pairs = await this.pairs();
       if (!canSwapPair(entry, destination, pairs)) {
@@ -194,18 +351,6 @@ export const ammSwapRoute: SwapRouteFunction = (
         );
       }
 
-      const baseToken = await validatedTokenAddress(entry);
-      const quoteToken = await validatedTokenAddress(destination);
-
-      const entryIsNative = await isNativeToken(entry);
-      const destinationIsNative = await isNativeToken(destination);
-
-      const path = await (
-        await getSwapNetworkContract()
-      ).conversionPath(baseToken, quoteToken);
-
-      const converter = await getConverterContract(entry, destination);
-
       const expectedReturn = await this.quote(
         entry,
         destination,
@@ -213,27 +358,48 @@ export const ammSwapRoute: SwapRouteFunction = (
         options,
       );
 
-      const minReturn = getMinReturn(expectedReturn, options?.slippage);
-
-      let args = [path, amount, minReturn];
-
-      if (!entryIsNative && !destinationIsNative) {
-        args = [
-          path,
-          amount,
-          minReturn,
-          constants.AddressZero,
-          constants.AddressZero,
-          '0',
-        ];
+      return buildConvertByPath(
+        entry,
+        destination,
+        amount,
+        getMinReturn(expectedReturn, options?.slippage),
+        overrides,
+      );
+    },
+    // swap network only converts exact input, so the quoted input is sent with the requested output
+    // as minReturn. The swap reverts instead of returning less, any output above amountOut is received as well.
+    async swapForOutput(
+      entry,
+      destination,
+      amountOut,
+      maxAmountIn,
+      from,
+      options,
+      overrides,
+    ) {
+      const pairs = await this.pairs();
+      if (!canSwapPair(entry, destination, pairs)) {
+        throw makeError(
+          `Cannot swap ${entry} to ${destination}`,
+          SovrynErrorCode.SWAP_PAIR_NOT_AVAILABLE,
+        );
       }
 
-      return {
-        to: converter.address,
-        data: converter.interface.encodeFunctionData('convertByPath', args),
-        value: entryIsNative ? amount.toString() : '0',
-        ...overrides,
-      };
+      const amountIn = await this.quoteForOutput!(
+        entry,
+        destination,
+        amountOut,
+        options,
+      );
+      assertMaxInput(amountIn, maxAmountIn);
+
+      return buildConvertByPath(
+        entry,
+        destination,
+        amountIn,
+        amountOut,
+        overrides,
+      );
     },
   };
 };
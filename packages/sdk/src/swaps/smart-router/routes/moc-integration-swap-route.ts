@@ -1,20 +1,33 @@
-import { BigNumber, Contract, constants, providers } from 'ethers';
+import {
+  PERMIT2_ADDRESS,
+  PermitTransferFrom,
+  SignatureTransfer,
+} from '@uniswap/permit2-sdk';
+
+import {
+  BigNumber,
+  BigNumberish,
+  Contract,
+  constants,
+  providers,
+} from 'ethers';
 
 import { getAssetContract, getProtocolContract } from '@sovryn/contracts';
 import { ChainId, ChainIds, numberToChainId } from '@sovryn/ethers-provider';
+import { Decimal } from '@sovryn/utils';
 
 import { SovrynErrorCode, makeError } from '../../../errors/errors';
+import { decodeRevertError } from '../../../errors/revert-decoder';
 import {
   areAddressesEqual,
+  getCallOverrides,
   hasEnoughAllowance,
   makeApproveRequest,
+  makeSwapQuote,
 } from '../../../internal/utils';
-import { SwapPairs, SwapRouteFunction } from '../types';
-import {
-  PERMIT2_ADDRESS,
-  PermitTransferFrom,
-  SignatureTransfer,
-} from '@uniswap/permit2-sdk';
+import { Options, SwapPairs, SwapRouteFunction } from '../types';
+
+const SWAP_GAS_LIMIT = 800_000;
 
 // Supports converting DLLR to RBTC via getDocFromDllrAndRedeemRBTC function on the MoCIntegration contract.
 export const mocIntegrationSwapRoute: SwapRouteFunction = (
@@ -121,6 +134,39 @@ export const mocIntegrationSwapRoute: SwapRouteFunction = (
     return docContract;
   };
 
+  const redeemFreeDoc = async (
+    amount: BigNumberish,
+    options?: Partial<Options>,
+  ) => {
+    const callOverrides = getCallOverrides(options);
+    const bag = await getDocBagAddress();
+    const exchange = await getMocExchangeContract();
+    const moc = await getMocAddress();
+    const doc = await getDocContract();
+    const masset = await getMassetManagerAddress();
+
+    const maxDoc = await doc.balanceOf(masset, callOverrides);
+
+    if (maxDoc.lt(amount)) {
+      throw makeError(
+        `Not enough DOC in the system. Max: ${maxDoc.toString()} wei`,
+        SovrynErrorCode.SWAP_INSUFFICIENT_LIQUIDITY,
+      );
+    }
+
+    // @see https://github.com/money-on-chain/main-RBTC-contract/blob/c6410b867de8e5de5df763bf8416a10ab8ae3d36/contracts/MoCExchange.sol#L371
+    // result[0] is the amount of RBTC
+    // result[1] - result[4] commision spent
+    return exchange.callStatic
+      .redeemFreeDoc(bag, amount, constants.AddressZero, {
+        ...callOverrides,
+        from: moc,
+      })
+      .catch(e => {
+        throw decodeRevertError(e);
+      });
+  };
+
   return {
     name: 'MocIntegration',
     chains: [ChainIds.RSK_MAINNET, ChainIds.RSK_TESTNET],
@@ -142,34 +188,36 @@ export const mocIntegrationSwapRoute: SwapRouteFunction = (
     },
     async quote(entry, destination, amount, options?, overrides?) {
       if (await isValidPair(entry, destination)) {
-        const bag = await getDocBagAddress();
-        const exchange = await getMocExchangeContract();
-        const moc = await getMocAddress();
-        const doc = await getDocContract();
-        const masset = await getMassetManagerAddress();
+        const result = await redeemFreeDoc(amount, options);
+        return result[0];
+      }
 
-        const maxDoc = await doc.balanceOf(masset);
+      throw makeError(
+        `Cannot swap ${entry} to ${destination}`,
+        SovrynErrorCode.SWAP_PAIR_NOT_AVAILABLE,
+      );
+    },
+    async quoteDetails(entry, destination, amount, options) {
+      if (await isValidPair(entry, destination)) {
+        const result = await redeemFreeDoc(amount, options);
 
-        if (maxDoc.lt(amount)) {
-          throw makeError(
-            `Not enough DOC in the system. Max: ${maxDoc.toString()} wei`,
-            SovrynErrorCode.SWAP_LOW_BALANCE,
-          );
-        }
+        // result[1] is RBTC commission and result[3] is RBTC markup,
+        // the others are paid in MoC tokens
+        const protocolFee = BigNumber.from(result[1]).add(result[3]);
 
-        // @see https://github.com/money-on-chain/main-RBTC-contract/blob/c6410b867de8e5de5df763bf8416a10ab8ae3d36/contracts/MoCExchange.sol#L371
-        // result[0] is the amount of RBTC
-        // result[1] - result[4] commision spent
-        const result = await exchange.callStatic.redeemFreeDoc(
-          bag,
-          amount,
-          constants.AddressZero,
-          {
-            from: moc,
-          },
-        );
+        // DOC is redeemed at the oracle price, so there is no price impact
+        const spotPrice = Decimal.fromBigNumberString(
+          BigNumber.from(result[0]).add(protocolFee).toString(),
+        ).div(Decimal.fromBigNumberString(BigNumber.from(amount).toString()));
 
-        return result[0];
+        return makeSwapQuote({
+          amount,
+          amountOut: result[0],
+          spotPrice,
+          protocolFee,
+          gasEstimate: SWAP_GAS_LIMIT,
+          slippage: options?.slippage,
+        });
       }
 
       throw makeError(
@@ -177,12 +225,20 @@ export const mocIntegrationSwapRoute: SwapRouteFunction = (
         SovrynErrorCode.SWAP_PAIR_NOT_AVAILABLE,
       );
     },
+    // getDocFromDllrAndRedeemRbtcWithPermit2 redeems the whole permitted amount and has no minimum RBTC return,
+    // so the output can't be enforced on-chain. The route isn't quoted for exact output.
+    async swapForOutput(entry, destination) {
+      throw makeError(
+        `Exact output swaps of ${entry} to ${destination} are unsupported by MocIntegration`,
+        SovrynErrorCode.NOT_IMPLEMENTED,
+      );
+    },
     async swap(entry, destination, amount, from, options, overrides) {
       if (await isValidPair(entry, destination)) {
         if (!options?.typedDataValue || !options?.typedDataSignature) {
           throw makeError(
             `Permit2 is required for swap.`,
-            SovrynErrorCode.UNKNOWN_ERROR,
+            SovrynErrorCode.SWAP_PERMIT_REQUIRED,
           );
         }
 
@@ -195,7 +251,7 @@ export const mocIntegrationSwapRoute: SwapRouteFunction = (
             [options?.typedDataValue, options?.typedDataSignature],
           ),
           value: '0',
-          gasLimit: 800_000,
+          gasLimit: SWAP_GAS_LIMIT,
           ...overrides,
         };
       }
@@ -9,8 +9,12 @@ import {
   canSwapPair,
   makeApproveRequest,
   hasEnoughAllowance,
+  makeSwapQuote,
 } from '../../../internal/utils';
 import { SwapPairs, SwapRouteFunction } from '../types';
+import { assertMaxInput } from '../utils/output-utils';
+
+const SWAP_GAS_ESTIMATE = 250_000;
 
 export const myntBassetRoute: SwapRouteFunction = (
   provider: providers.Provider,
@@ -84,6 +88,31 @@ export const myntBassetRoute: SwapRouteFunction = (
         SovrynErrorCode.SWAP_PAIR_NOT_AVAILABLE,
       );
     },
+    async quoteDetails(entry, destination, amount) {
+      return makeSwapQuote({
+        amount,
+        amountOut: await this.quote(entry, destination, amount),
+        spotPrice: 1,
+        gasEstimate: SWAP_GAS_ESTIMATE,
+        fixedRate: true,
+      });
+    },
+    // bAssets are converted 1:1, so the input is the same as the requested output
+    async quoteForOutput(entry, destination, amountOut) {
+      return this.quote(entry, destination, amountOut);
+    },
+    async swapForOutput(
+      entry,
+      destination,
+      amountOut,
+      maxAmountIn,
+      from,
+      options,
+      overrides,
+    ) {
+      assertMaxInput(amountOut, maxAmountIn);
+      return this.swap(entry, destination, amountOut, from, options, overrides);
+    },
     async swap(entry, destination, amount, from, options, overrides) {
       const pairs = await this.pairs();
       if (!canSwapPair(entry, destination, pairs)) {
@@ -3,15 +3,18 @@ import { BigNumber, Contract, constants, providers, utils } from 'ethers';
 import { getAsset, getProtocolContract } from '@sovryn/contracts';
 import { ChainId, ChainIds, numberToChainId } from '@sovryn/ethers-provider';
 
+import { MYNT_FIXED_RATE } from '../../../constants';
 import { SovrynErrorCode, makeError } from '../../../errors/errors';
 import {
   canSwapPair,
+  getCallOverrides,
   makeApproveRequest,
   hasEnoughAllowance,
+  makeSwapQuote,
 } from '../../../internal/utils';
 import { SwapPairs, SwapRouteFunction } from '../types';
 
-const FIXED_RATE_AMOUNT = '0.004723550439442834';
+const SWAP_GAS_ESTIMATE = 150_000;
 
 export const myntFixedRateRoute: SwapRouteFunction = (
   provider: providers.Provider,
@@ -55,15 +58,27 @@ export const myntFixedRateRoute: SwapRouteFunction = (
       }
       return pairCache;
     },
-    quote: async (entry, destination, amount) => {
+    quote: async (entry, destination, amount, options) => {
       const converter = await getConverterContract();
-      const maxAmount = await converter.convertMax();
-      const rate = utils.parseEther(FIXED_RATE_AMOUNT);
+      const maxAmount = await converter.convertMax(getCallOverrides(options));
+      const rate = utils.parseEther(MYNT_FIXED_RATE);
       if (BigNumber.from(amount).gt(maxAmount)) {
-        throw new Error('Amount exceeds the maximum convertible MYNT limit.');
+        throw makeError(
+          'Amount exceeds the maximum convertible MYNT limit.',
+          SovrynErrorCode.MYNT_CAP_REACHED,
+        );
       }
       return BigNumber.from(amount).mul(rate).div(constants.WeiPerEther);
     },
+    async quoteDetails(entry, destination, amount, options) {
+      return makeSwapQuote({
+        amount,
+        amountOut: await this.quote(entry, destination, amount, options),
+        spotPrice: MYNT_FIXED_RATE,
+        gasEstimate: SWAP_GAS_ESTIMATE,
+        fixedRate: true,
+      });
+    },
     approve: async (entry, destination, amount, from, overrides) => {
       const converter = await getConverterContract();
 
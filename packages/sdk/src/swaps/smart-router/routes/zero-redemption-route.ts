@@ -1,4 +1,10 @@
-import { BigNumber, Contract, constants, providers } from 'ethers';
+import {
+  BigNumber,
+  BigNumberish,
+  Contract,
+  constants,
+  providers,
+} from 'ethers';
 
 import { Decimal } from '@sovryn-zero/lib-base';
 import {
@@ -17,12 +23,17 @@ import { SovrynErrorCode, makeError } from '../../../errors/errors';
 import {
   areAddressesEqual,
   canSwapPair,
+  getCallOverrides,
   makeApproveRequest,
   hasEnoughAllowance,
+  makeSwapQuote,
 } from '../../../internal/utils';
-import { SwapPairs, SwapRouteFunction } from '../types';
+import { Options, SwapPairs, SwapRouteFunction } from '../types';
 import { prepareERC2612Permit, preparePermitResponse } from '../utils/permit';
 
+const DLLR_REDEMPTION_GAS_LIMIT = 1_500_000;
+const ZUSD_REDEMPTION_GAS_LIMIT = 800_000;
+
 export const zeroRedemptionSwapRoute: SwapRouteFunction = (
   provider: providers.Provider,
 ) => {
@@ -61,6 +72,58 @@ export const zeroRedemptionSwapRoute: SwapRouteFunction = (
     return priceFeedContract;
   };
 
+  // returns amount of RBTC before and after redemption fee
+  const getRedemptionQuote = async (
+    amount: BigNumberish,
+    options?: Partial<Options>,
+  ) => {
+    const callOverrides = getCallOverrides(options);
+    const readable = await ReadableEthersLiquity.connect(provider, {
+      useStore: 'blockPolled',
+    });
+    const ethers = new EthersLiquity(readable);
+
+    const [fees, total, zeroPrice, feed, wrbtc, rusdt] = await Promise.all([
+      ethers.getFees(callOverrides),
+      ethers.getTotal(callOverrides),
+      ethers.getPrice(callOverrides),
+      getPriceFeedContract(),
+      getAssetContract('WBTC', chainId),
+      getAssetContract('RUSDT', chainId),
+    ]);
+
+    if (total.collateralRatioIsBelowCritical(zeroPrice)) {
+      throw makeError(
+        'Redemptions are not available while Zero is in recovery mode.',
+        SovrynErrorCode.ZERO_RECOVERY_MODE,
+      );
+    }
+
+    const maxRedemptionRate = fees
+      .redemptionRate(
+        Decimal.fromBigNumberString(amount.toString()).div(total.debt),
+      )
+      .add(Decimal.from(0.001));
+
+    const price = await feed.queryRate(
+      wrbtc.address,
+      // price feed uses old rUSDT address for testnet
+      chainId === ChainIds.RSK_TESTNET
+        ? '0x4D5a316D23eBE168d8f887b4447bf8DbFA4901CC'.toLowerCase()
+        : rusdt.address,
+      callOverrides,
+    );
+
+    const btcUsd: BigNumber = BigNumber.from(amount)
+      .mul(price.precision)
+      .div(price.rate);
+
+    const fee = Decimal.from(1).sub(maxRedemptionRate);
+    const quote = btcUsd.mul(fee.bigNumber).div(constants.WeiPerEther);
+
+    return { btcUsd, quote };
+  };
+
   return {
     name: 'ZeroRedemption',
     chains: [ChainIds.RSK_MAINNET, ChainIds.RSK_TESTNET],
@@ -95,41 +158,37 @@ export const zeroRedemptionSwapRoute: SwapRouteFunction = (
         );
       }
 
-      const readable = await ReadableEthersLiquity.connect(provider, {
-        useStore: 'blockPolled',
-      });
-      const ethers = new EthersLiquity(readable);
-
-      const [fees, total, feed, wrbtc, rusdt] = await Promise.all([
-        ethers.getFees(),
-        ethers.getTotal(),
-        getPriceFeedContract(),
-        getAssetContract('WBTC', chainId),
-        getAssetContract('RUSDT', chainId),
-      ]);
+      const { quote } = await getRedemptionQuote(amount, options);
 
-      const maxRedemptionRate = fees
-        .redemptionRate(
-          Decimal.fromBigNumberString(amount.toString()).div(total.debt),
-        )
-        .add(Decimal.from(0.001));
-
-      const price = await feed.queryRate(
-        wrbtc.address,
-        // price feed uses old rUSDT address for testnet
-        chainId === ChainIds.RSK_TESTNET
-          ? '0x4D5a316D23eBE168d8f887b4447bf8DbFA4901CC'.toLowerCase()
-          : rusdt.address,
-      );
-
-      const btcUsd = BigNumber.from(amount)
-        .mul(price.precision)
-        .div(price.rate);
+      return quote;
+    },
+    async quoteDetails(entry, destination, amount, options) {
+      const pairs = await this.pairs();
+      if (!canSwapPair(entry, destination, pairs)) {
+        throw makeError(
+          `Cannot swap ${entry} to ${destination}`,
+          SovrynErrorCode.SWAP_PAIR_NOT_AVAILABLE,
+        );
+      }
 
-      const fee = Decimal.from(1).sub(maxRedemptionRate);
-      const quote = btcUsd.mul(fee.bigNumber).div(constants.WeiPerEther);
+      const { btcUsd, quote } = await getRedemptionQuote(amount, options);
 
-      return quote;
+      // collateral is redeemed at the price feed rate, so there is no price impact
+      return makeSwapQuote({
+        amount,
+        amountOut: quote,
+        spotPrice: Decimal.fromBigNumberString(btcUsd.toString())
+          .div(Decimal.fromBigNumberString(amount.toString()))
+          .toString(),
+        protocolFee: btcUsd.sub(quote),
+        gasEstimate: areAddressesEqual(
+          entry,
+          (await getAssetContract('DLLR', chainId)).address,
+        )
+          ? DLLR_REDEMPTION_GAS_LIMIT
+          : ZUSD_REDEMPTION_GAS_LIMIT,
+        slippage: options?.slippage,
+      });
     },
     async swap(entry, destination, amount, from, options, overrides) {
       const readable = await ReadableEthersLiquity.connect(provider, {
@@ -146,7 +205,7 @@ export const zeroRedemptionSwapRoute: SwapRouteFunction = (
         if (!options?.typedDataValue || !options?.typedDataSignature) {
           throw makeError(
             `Permit is required for swap.`,
-            SovrynErrorCode.UNKNOWN_ERROR,
+            SovrynErrorCode.SWAP_PERMIT_REQUIRED,
           );
         }
 
@@ -161,8 +220,10 @@ export const zeroRedemptionSwapRoute: SwapRouteFunction = (
             permit,
           );
 
-        const gasLimit = rawPopulatedTransaction.gasLimit?.lt(1_500_000)
-          ? 1_500_000
+        const gasLimit = rawPopulatedTransaction.gasLimit?.lt(
+          DLLR_REDEMPTION_GAS_LIMIT,
+        )
+          ? DLLR_REDEMPTION_GAS_LIMIT
           : rawPopulatedTransaction.gasLimit;
 
         return {
@@ -184,8 +245,10 @@ export const zeroRedemptionSwapRoute: SwapRouteFunction = (
           Decimal.fromBigNumberString(amount.toString()),
         );
 
-        const gasLimit = rawPopulatedTransaction.gasLimit?.lt(800_000)
-          ? 800_000
+        const gasLimit = rawPopulatedTransaction.gasLimit?.lt(
+          ZUSD_REDEMPTION_GAS_LIMIT,
+        )
+          ? ZUSD_REDEMPTION_GAS_LIMIT
           : rawPopulatedTransaction.gasLimit;
 
         return {
@@ -1,23 +1,134 @@
-import { BigNumber, BigNumberish, providers } from 'ethers';
+import type { TransactionRequest } from '@ethersproject/abstract-provider';
+
+import { BigNumber, BigNumberish, constants, providers } from 'ethers';
 
 import { AssetDetailsData, getAssetDataByAddress } from '@sovryn/contracts';
 import { ChainId } from '@sovryn/ethers-provider';
+import { Decimal, TokenAmount } from '@sovryn/utils';
 
-import { DEFAULT_SWAP_ROUTES } from './config';
-import { SwapRoute, SwapRouteFunction } from './types';
+import { SovrynError, SovrynErrorCode, makeError } from '../../errors/errors';
+import { decodeRevertError } from '../../errors/revert-decoder';
+import {
+  defineProperties,
+  getMaxInput,
+  getMinReturn,
+} from '../../internal/utils';
+import {
+  DEFAULT_SMART_ROUTER_CACHE_OPTIONS,
+  DEFAULT_SWAP_PATH_OPTIONS,
+  DEFAULT_SWAP_ROUTES,
+  DEFAULT_SWAP_SPLIT_OPTIONS,
+} from './config';
+import {
+  Options,
+  SmartRouterCacheOptions,
+  SwapPairs,
+  SwapPathLeg,
+  SwapPathOptions,
+  SwapPathQuote,
+  SwapOptions,
+  SwapOutputQuote,
+  SwapPathTransaction,
+  SwapQuote,
+  SwapRoute,
+  SwapRouteFunction,
+  SwapSplitOptions,
+  SwapSplitPart,
+  SwapSplitQuote,
+} from './types';
+import {
+  RouteEdge,
+  RouteGraph,
+  constructRouteGraph,
+  findReachableTokens,
+  findRoutePaths,
+} from './utils/path-utils';
+import { RoutePartQuotes, findBestAllocation } from './utils/split-utils';
 
 export type BestRouteQuote = {
   route: SwapRoute;
   quote: BigNumber;
+  details: SwapQuote;
+};
+
+export type TokenAmountRouteQuote = BestRouteQuote & {
+  amountIn: TokenAmount;
+  // Expected amount of destination token.
+  amountOut: TokenAmount;
+  // Minimum amount of destination token received after slippage.
+  minimumOut: TokenAmount;
+};
+
+// amount of native token quoted to price gas costs in destination token
+const NATIVE_PRICE_AMOUNT = constants.WeiPerEther.div(100);
+
+const noRoutesError = (entry: string, destination: string) =>
+  makeError(
+    `No routes available to swap ${entry} to ${destination}`,
+    SovrynErrorCode.SWAP_NO_ROUTES_AVAILABLE,
+  );
+
+type CachedPairs = {
+  pairs: Promise<SwapPairs>;
+  expiresAt: number;
+};
+
+type CachedBlockNumber = {
+  block: Promise<number>;
+  expiresAt: number;
 };
 
 export class SmartRouter {
   protected routes: SwapRoute[] = [];
+  protected cacheOptions: SmartRouterCacheOptions;
+
+  protected pairsCache = new Map<SwapRoute, CachedPairs>();
+  protected quoteCache = new Map<string, Promise<unknown>>();
+  protected quoteCacheBlock?: number;
+
+  // latest block received while there are block subscribers
+  protected latestBlock?: number;
+  protected blockSubscribers = 0;
+  protected blockNumberCache?: CachedBlockNumber;
+
   constructor(
     protected provider: providers.Provider,
     availableRoutes: SwapRouteFunction[] = DEFAULT_SWAP_ROUTES,
+    cacheOptions: Partial<SmartRouterCacheOptions> = {},
   ) {
     this.routes = availableRoutes.map(route => route(provider));
+    this.cacheOptions = {
+      ...DEFAULT_SMART_ROUTER_CACHE_OPTIONS,
+      ...cacheOptions,
+    };
+  }
+
+  // drop cached pairs and quotes
+  public invalidate() {
+    this.pairsCache.clear();
+    this.quoteCache.clear();
+    this.quoteCacheBlock = undefined;
+    this.blockNumberCache = undefined;
+  }
+
+  // call listener on every new block. Quotes are cached per block, so listener can be used
+  // to refresh quotes. Returns function to unsubscribe.
+  public onBlock(listener: (block: number) => void): () => void {
+    const handler = (block: number) => {
+      this.latestBlock = block;
+      listener(block);
+    };
+
+    this.blockSubscribers++;
+    this.provider.on('block', handler);
+
+    return () => {
+      this.provider.off('block', handler);
+      this.blockSubscribers--;
+      if (this.blockSubscribers === 0) {
+        this.latestBlock = undefined;
+      }
+    };
   }
 
   // return all available routes
@@ -33,7 +144,7 @@ export class SmartRouter {
   ): Promise<SwapRoute[]> {
     const routes = await Promise.all(
       this.getAvailableRoutes(chain).map(async route => {
-        const pairs = await route.pairs();
+        const pairs = await this.getRoutePairs(route);
         if (pairs.has(base)) {
           const quoteTokens = pairs.get(base);
           if (quoteTokens?.includes(quote)) {
@@ -45,60 +156,387 @@ export class SmartRouter {
     return routes.filter(route => route !== undefined) as SwapRoute[];
   }
 
-  // get list of quotes for available routes sorted by best quote
+  // get list of quotes for available routes sorted by best output after gas costs
   public async getQuotes(
     chain: ChainId,
     entry: string,
     destination: string,
     amount: BigNumberish,
+    options?: Partial<Options>,
   ): Promise<BestRouteQuote[]> {
-    const routes = await this.getAvailableRoutesForAssets(
+    const { quotes } = await this.getRouteQuotes(
       chain,
       entry,
       destination,
+      amount,
+      options,
     );
 
-    const quotes = await Promise.allSettled(
-      routes.map(route =>
-        route
-          .quote(entry, destination, amount)
-          .then(quote => ({ route, quote })),
+    return this.sortByNetOutput(chain, destination, quotes);
+  }
+
+  // return best quote and route for given assets and amount.
+  // If every route failed to quote, error of the first failed route is thrown.
+  public async getBestQuote(
+    chain: ChainId,
+    base: string,
+    quote: string,
+    amount: BigNumberish,
+    options?: Partial<Options>,
+  ): Promise<BestRouteQuote> {
+    const { quotes, errors } = await this.getRouteQuotes(
+      chain,
+      base,
+      quote,
+      amount,
+      options,
+    );
+
+    if (quotes.length === 0) {
+      throw errors[0] ?? noRoutesError(base, quote);
+    }
+
+    return (await this.sortByNetOutput(chain, quote, quotes))[0];
+  }
+
+  // return best quote for token amount. Routes take and return amounts with 18 decimals regardless of the token,
+  // so amounts are converted from and to token amounts with decimals of the tokens.
+  public async getBestTokenAmountQuote(
+    chain: ChainId,
+    amount: TokenAmount,
+    destination: string,
+    options?: Partial<Options>,
+  ): Promise<TokenAmountRouteQuote> {
+    const entry = amount.asset.address;
+
+    if (!entry) {
+      throw makeError(
+        `Address of ${amount.asset.symbol} is not known`,
+        SovrynErrorCode.SWAP_PAIR_NOT_AVAILABLE,
+      );
+    }
+
+    const [best, destinationAsset] = await Promise.all([
+      this.getBestQuote(
+        chain,
+        entry,
+        destination,
+        amount.toDecimal().toBigNumber(),
+        options,
       ),
+      this.getTokenDetails(destination, chain),
+    ]);
+
+    return {
+      ...best,
+      amountIn: amount,
+      amountOut: TokenAmount.from(
+        destinationAsset,
+        Decimal.fromBigNumberString(best.quote.toString()),
+      ),
+      minimumOut: TokenAmount.from(
+        destinationAsset,
+        Decimal.fromBigNumberString(best.details.minimumOut.toString()),
+      ),
+    };
+  }
+
+  // get list of quotes for receiving exact amount of destination token, sorted by the smallest input.
+  // Only routes implementing exact output swaps are quoted.
+  public async getQuotesForOutput(
+    chain: ChainId,
+    entry: string,
+    destination: string,
+    amountOut: BigNumberish,
+    options?: Partial<Options>,
+  ): Promise<SwapOutputQuote[]> {
+    const { quotes } = await this.getRouteOutputQuotes(
+      chain,
+      entry,
+      destination,
+      amountOut,
+      options,
+    );
+    return quotes;
+  }
+
+  // return route needing the smallest input to receive exact amount of destination token.
+  // If every route failed to quote, error of the first failed route is thrown.
+  public async getBestQuoteForOutput(
+    chain: ChainId,
+    entry: string,
+    destination: string,
+    amountOut: BigNumberish,
+    options?: Partial<Options>,
+  ): Promise<SwapOutputQuote> {
+    const { quotes, errors } = await this.getRouteOutputQuotes(
+      chain,
+      entry,
+      destination,
+      amountOut,
+      options,
+    );
+
+    if (quotes.length === 0) {
+      throw errors[0] ?? noRoutesError(entry, destination);
+    }
+
+    return quotes[0];
+  }
+
+  // build swap tx data for exact output quote, the swap can't spend more than maxAmountIn of the quote
+  public async buildSwapForOutput(
+    quote: SwapOutputQuote,
+    from: string,
+    options?: Partial<SwapOptions>,
+    overrides?: Partial<TransactionRequest>,
+  ): Promise<TransactionRequest> {
+    const { route, entry, destination, amountOut, maxAmountIn } = quote;
+
+    if (!route.swapForOutput) {
+      throw makeError(
+        `Route ${route.name} can't swap for exact output`,
+        SovrynErrorCode.NOT_IMPLEMENTED,
+      );
+    }
+
+    return route.swapForOutput(
+      entry,
+      destination,
+      amountOut,
+      maxAmountIn,
+      from,
+      options,
+      overrides,
+    );
+  }
+
+  // return graph of tokens connected by available routes
+  public async getRouteGraph(chain: ChainId): Promise<RouteGraph> {
+    return constructRouteGraph(this.getAvailableRoutes(chain), route =>
+      this.getRoutePairs(route),
+    );
+  }
+
+  // get list of quotes for direct and multi-hop paths sorted by best quote
+  public async getPathQuotes(
+    chain: ChainId,
+    entry: string,
+    destination: string,
+    amount: BigNumberish,
+    options: Partial<SwapPathOptions> = {},
+  ): Promise<SwapPathQuote[]> {
+    const { maxHops, maxPaths, blockTag } = {
+      ...DEFAULT_SWAP_PATH_OPTIONS,
+      ...options,
+    };
+
+    const graph = await this.getRouteGraph(chain);
+    const paths = findRoutePaths(graph, entry, destination, maxHops).slice(
+      0,
+      maxPaths,
+    );
+
+    // paths often share first legs, quotes are memoized so each leg is quoted only once
+    const quoteLeg = (edge: RouteEdge, amount: BigNumber) =>
+      this.quoteRoute(chain, edge.route, edge.entry, edge.destination, amount, {
+        blockTag,
+      });
+
+    const quotes = await Promise.allSettled(
+      paths.map(async path => {
+        const legs: SwapPathLeg[] = [];
+        let legAmount = BigNumber.from(amount);
+
+        for (const edge of path) {
+          const quote = await quoteLeg(edge, legAmount);
+          legs.push({ ...edge, amount: legAmount, quote });
+          legAmount = quote;
+        }
+
+        return { legs, quote: legAmount };
+      }),
     ).then(results =>
       results
         .filter(result => result.status === 'fulfilled')
-        .map(
-          result =>
-            (
-              result as PromiseFulfilledResult<{
-                route: SwapRoute;
-                quote: BigNumber;
-              }>
-            ).value,
-        ),
+        .map(result => (result as PromiseFulfilledResult<SwapPathQuote>).value),
     );
 
-    const sortedQuotes = quotes.sort((a, b) =>
-      b.quote.toBigInt() > a.quote.toBigInt() ? 0 : -1,
+    return quotes
+      .filter(quote => quote.quote.gt(0))
+      .sort((a, b) => (b.quote.gt(a.quote) ? 1 : b.quote.lt(a.quote) ? -1 : 0));
+  }
+
+  // return best direct or multi-hop path for given assets and amount
+  public async getBestPathQuote(
+    chain: ChainId,
+    entry: string,
+    destination: string,
+    amount: BigNumberish,
+    options?: Partial<SwapPathOptions>,
+  ): Promise<SwapPathQuote> {
+    const paths = await this.getPathQuotes(
+      chain,
+      entry,
+      destination,
+      amount,
+      options,
     );
 
-    return sortedQuotes.filter(quote => quote.quote.gt(0));
+    if (paths.length === 0) {
+      throw noRoutesError(entry, destination);
+    }
+
+    return paths[0];
   }
 
-  // return best quote and route for given assets and amount
-  public async getBestQuote(
+  // build ordered list of permit, approval and swap transactions for every leg of the path.
+  // Legs after the first one swap the minimum return of the previous leg, so the swap can't fail
+  // because the previous leg returned less than quoted.
+  public async buildPathTransactions(
+    path: SwapPathQuote,
+    from: string,
+    options?: Partial<Options>,
+  ): Promise<SwapPathTransaction[]> {
+    const transactions: SwapPathTransaction[] = [];
+
+    for (let i = 0; i < path.legs.length; i++) {
+      const leg = path.legs[i];
+      const amount =
+        i === 0
+          ? leg.amount
+          : getMinReturn(path.legs[i - 1].quote, options?.slippage);
+
+      transactions.push(
+        ...(await this.buildLegTransactions(leg, amount, from, options)),
+      );
+    }
+
+    return transactions;
+  }
+
+  // return best allocation of the amount between routes available for given assets
+  public async getBestSplit(
     chain: ChainId,
-    base: string,
-    quote: string,
+    entry: string,
+    destination: string,
     amount: BigNumberish,
-  ): Promise<BestRouteQuote> {
-    const routes = await this.getQuotes(chain, base, quote, amount);
+    options: Partial<SwapSplitOptions> = {},
+  ): Promise<SwapSplitQuote> {
+    const { maxParts, blockTag } = {
+      ...DEFAULT_SWAP_SPLIT_OPTIONS,
+      ...options,
+    };
 
-    if (routes.length === 0) {
-      throw new Error('No routes available');
+    if (!Number.isInteger(maxParts) || maxParts < 1) {
+      const error = makeError(
+        `maxParts must be a positive integer, got ${maxParts}`,
+        SovrynErrorCode.INVALID_ARGUMENT,
+      );
+      defineProperties(error, { argument: 'maxParts' });
+      throw error;
     }
 
-    return routes[0];
+    const total = BigNumber.from(amount);
+
+    const routes = await this.getAvailableRoutesForAssets(
+      chain,
+      entry,
+      destination,
+    );
+
+    const partsAmount = (parts: number) => total.mul(parts).div(maxParts);
+
+    const quotes: RoutePartQuotes[] = await Promise.all(
+      routes.map(route =>
+        Promise.all(
+          Array.from({ length: maxParts + 1 }, (_, parts) =>
+            parts === 0
+              ? constants.Zero
+              : this.quoteRoute(
+                  chain,
+                  route,
+                  entry,
+                  destination,
+                  partsAmount(parts),
+                  { blockTag },
+                )
+                  .then(quote => (quote.gt(0) ? quote : undefined))
+                  .catch(() => undefined),
+          ),
+        ),
+      ),
+    );
+
+    const allocation = findBestAllocation(quotes, maxParts);
+
+    if (!allocation) {
+      throw noRoutesError(entry, destination);
+    }
+
+    const parts: SwapSplitPart[] = routes
+      .map((route, index) => ({
+        route,
+        entry,
+        destination,
+        amount: partsAmount(allocation[index]),
+        quote: quotes[index][allocation[index]]!,
+        share: (allocation[index] * 100) / maxParts,
+      }))
+      .filter((_, index) => allocation[index] > 0);
+
+    // amount may not be divisible by number of parts, so the last route swaps the remainder too
+    const remainder = parts.reduce(
+      (value, part) => value.sub(part.amount),
+      total,
+    );
+
+    if (remainder.gt(0)) {
+      const last = parts[parts.length - 1];
+      last.amount = last.amount.add(remainder);
+      last.quote = await this.quoteRoute(
+        chain,
+        last.route,
+        entry,
+        destination,
+        last.amount,
+        { blockTag },
+      );
+    }
+
+    return {
+      parts,
+      quote: parts.reduce(
+        (value, part) => value.add(part.quote),
+        constants.Zero,
+      ),
+    };
+  }
+
+  // build ordered list of permit, approval and swap transactions for every route of the split
+  public async buildSplitTransactions(
+    split: SwapSplitQuote,
+    from: string,
+    options?: Partial<Options>,
+  ): Promise<SwapPathTransaction[]> {
+    const transactions: SwapPathTransaction[] = [];
+
+    for (const part of split.parts) {
+      transactions.push(
+        ...(await this.buildLegTransactions(part, part.amount, from, options)),
+      );
+    }
+
+    return transactions;
+  }
+
+  // return all tokens reachable from entry token by direct or multi-hop paths
+  public async getPathDestinations(
+    chain: ChainId,
+    entry: string,
+    maxHops: number = DEFAULT_SWAP_PATH_OPTIONS.maxHops,
+  ): Promise<string[]> {
+    return findReachableTokens(await this.getRouteGraph(chain), entry, maxHops);
   }
 
   // return all available pairs on enabled routes
@@ -106,7 +544,7 @@ export class SmartRouter {
     const pairs = new Map<string, string[]>();
     await Promise.all(
       this.getAvailableRoutes(chain).map(async route => {
-        const routePairs = await route.pairs();
+        const routePairs = await this.getRoutePairs(route);
         routePairs.forEach((quoteTokens, baseToken) => {
           const existingQuoteTokens = pairs.get(baseToken);
           if (existingQuoteTokens) {
@@ -140,6 +578,346 @@ export class SmartRouter {
     return (await this.getPairs(chain)).get(entry) ?? [];
   }
 
+  // convert gas estimates to amounts of destination token, so quotes of different routes can be compared.
+  // Costs are zero if gas price or native token price is not available.
+  // Gas is always priced at the latest block, also for quotes of past blocks.
+  // Gas price and native token price are memoized with the quotes, so they're queried once per block.
+  protected async getGasCosts(
+    chain: ChainId,
+    destination: string,
+    gasEstimates: BigNumber[],
+  ): Promise<BigNumber[]> {
+    const gasPrice = await this.memoizeQuote([chain, 'gasPrice'], () =>
+      this.provider.getGasPrice(),
+    ).catch(() => constants.Zero);
+
+    const costs = gasEstimates.map(gas => gas.mul(gasPrice));
+
+    if (
+      costs.every(cost => cost.isZero()) ||
+      destination === constants.AddressZero
+    ) {
+      return costs;
+    }
+
+    const nativeQuote = await this.memoizeQuote(
+      [chain, 'nativePrice', destination],
+      () => this.quoteNativePrice(chain, destination),
+    );
+
+    return costs.map(cost => cost.mul(nativeQuote).div(NATIVE_PRICE_AMOUNT));
+  }
+
+  // best quote of the native price amount on the routes, zero if no route can quote it
+  protected async quoteNativePrice(
+    chain: ChainId,
+    destination: string,
+  ): Promise<BigNumber> {
+    const routes = await this.getAvailableRoutesForAssets(
+      chain,
+      constants.AddressZero,
+      destination,
+    );
+    const quotes = await Promise.all(
+      routes.map(route =>
+        this.quoteRoute(
+          chain,
+          route,
+          constants.AddressZero,
+          destination,
+          NATIVE_PRICE_AMOUNT,
+        ).catch(() => constants.Zero),
+      ),
+    );
+
+    return quotes.reduce(
+      (max, quote) => (quote.gt(max) ? quote : max),
+      constants.Zero,
+    );
+  }
+
+  // quote every route available for the assets, errors of failed routes are kept in order of the routes
+  protected async getRouteQuotes(
+    chain: ChainId,
+    entry: string,
+    destination: string,
+    amount: BigNumberish,
+    options?: Partial<Options>,
+  ): Promise<{ quotes: BestRouteQuote[]; errors: SovrynError[] }> {
+    const routes = await this.getAvailableRoutesForAssets(
+      chain,
+      entry,
+      destination,
+    );
+
+    const results = await Promise.allSettled(
+      routes.map(route =>
+        this.quoteRouteDetails(
+          chain,
+          route,
+          entry,
+          destination,
+          amount,
+          options,
+        ).then(details => ({ route, quote: details.amountOut, details })),
+      ),
+    );
+
+    return {
+      quotes: results
+        .filter(result => result.status === 'fulfilled')
+        .map(result => (result as PromiseFulfilledResult<BestRouteQuote>).value)
+        .filter(quote => quote.quote.gt(0)),
+      errors: results
+        .filter(result => result.status === 'rejected')
+        .map(result => (result as PromiseRejectedResult).reason),
+    };
+  }
+
+  // quote every route which can swap for exact output, sorted by the smallest input
+  protected async getRouteOutputQuotes(
+    chain: ChainId,
+    entry: string,
+    destination: string,
+    amountOut: BigNumberish,
+    options?: Partial<Options>,
+  ): Promise<{ quotes: SwapOutputQuote[]; errors: SovrynError[] }> {
+    const routes = (
+      await this.getAvailableRoutesForAssets(chain, entry, destination)
+    ).filter(route => route.quoteForOutput && route.swapForOutput);
+
+    const results = await Promise.allSettled(
+      routes.map(route =>
+        this.quoteRouteForOutput(
+          chain,
+          route,
+          entry,
+          destination,
+          amountOut,
+          options,
+        ).then(quote => ({
+          route,
+          entry,
+          destination,
+          amountOut: BigNumber.from(amountOut),
+          quote,
+          maxAmountIn: getMaxInput(quote, options?.slippage),
+        })),
+      ),
+    );
+
+    return {
+      quotes: results
+        .filter(result => result.status === 'fulfilled')
+        .map(
+          result => (result as PromiseFulfilledResult<SwapOutputQuote>).value,
+        )
+        .filter(quote => quote.quote.gt(0))
+        .sort((a, b) =>
+          a.quote.gt(b.quote) ? 1 : a.quote.lt(b.quote) ? -1 : 0,
+        ),
+      errors: results
+        .filter(result => result.status === 'rejected')
+        .map(result => (result as PromiseRejectedResult).reason),
+    };
+  }
+
+  protected async sortByNetOutput(
+    chain: ChainId,
+    destination: string,
+    quotes: BestRouteQuote[],
+  ): Promise<BestRouteQuote[]> {
+    const gasCosts = await this.getGasCosts(
+      chain,
+      destination,
+      quotes.map(quote => quote.details.gasEstimate),
+    );
+
+    const netOutputs = new Map(
+      quotes.map((quote, index) => [quote, quote.quote.sub(gasCosts[index])]),
+    );
+
+    return quotes.sort((a, b) => {
+      const netA = netOutputs.get(a)!;
+      const netB = netOutputs.get(b)!;
+      return netB.gt(netA) ? 1 : netB.lt(netA) ? -1 : 0;
+    });
+  }
+
+  // return pairs of the route, cached for the configured time
+  protected getRoutePairs(route: SwapRoute): Promise<SwapPairs> {
+    const cached = this.pairsCache.get(route);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.pairs;
+    }
+
+    const pairs = route.pairs();
+    this.pairsCache.set(route, {
+      pairs,
+      expiresAt: Date.now() + this.cacheOptions.pairsTtl,
+    });
+    pairs.catch(() => this.pairsCache.delete(route));
+
+    return pairs;
+  }
+
+  protected quoteRoute(
+    chain: ChainId,
+    route: SwapRoute,
+    entry: string,
+    destination: string,
+    amount: BigNumberish,
+    options?: Partial<Options>,
+  ): Promise<BigNumber> {
+    return this.memoizeQuote(
+      [
+        chain,
+        route.name,
+        'quote',
+        entry,
+        destination,
+        amount.toString(),
+        options?.blockTag?.toString() ?? '',
+      ],
+      () =>
+        route.quote(entry, destination, amount, options).catch(e => {
+          throw decodeRevertError(e);
+        }),
+    );
+  }
+
+  protected quoteRouteForOutput(
+    chain: ChainId,
+    route: SwapRoute,
+    entry: string,
+    destination: string,
+    amountOut: BigNumberish,
+    options?: Partial<Options>,
+  ): Promise<BigNumber> {
+    return this.memoizeQuote(
+      [
+        chain,
+        route.name,
+        'quoteForOutput',
+        entry,
+        destination,
+        amountOut.toString(),
+        options?.blockTag?.toString() ?? '',
+      ],
+      () =>
+        route.quoteForOutput!(entry, destination, amountOut, options).catch(
+          e => {
+            throw decodeRevertError(e);
+          },
+        ),
+    );
+  }
+
+  protected quoteRouteDetails(
+    chain: ChainId,
+    route: SwapRoute,
+    entry: string,
+    destination: string,
+    amount: BigNumberish,
+    options?: Partial<Options>,
+  ): Promise<SwapQuote> {
+    return this.memoizeQuote(
+      [
+        chain,
+        route.name,
+        'quoteDetails',
+        entry,
+        destination,
+        amount.toString(),
+        options?.slippage?.toString() ?? '',
+        options?.blockTag?.toString() ?? '',
+      ],
+      () =>
+        route.quoteDetails(entry, destination, amount, options).catch(e => {
+          throw decodeRevertError(e);
+        }),
+    );
+  }
+
+  protected getBlockNumber(): Promise<number> {
+    if (this.latestBlock !== undefined) {
+      return Promise.resolve(this.latestBlock);
+    }
+
+    if (
+      !this.blockNumberCache ||
+      this.blockNumberCache.expiresAt <= Date.now()
+    ) {
+      this.blockNumberCache = {
+        block: this.provider.getBlockNumber(),
+        expiresAt: Date.now() + this.cacheOptions.blockNumberTtl,
+      };
+    }
+
+    return this.blockNumberCache.block;
+  }
+
+  // quotes are memoized until the next block, failed quotes are not memoized
+  protected async memoizeQuote<T>(
+    key: string[],
+    query: () => Promise<T>,
+  ): Promise<T> {
+    const block = await this.getBlockNumber();
+
+    if (block !== this.quoteCacheBlock) {
+      this.quoteCache.clear();
+      this.quoteCacheBlock = block;
+    }
+
+    const cacheKey = key.join(':').toLowerCase();
+    if (!this.quoteCache.has(cacheKey)) {
+      const result = query();
+      this.quoteCache.set(cacheKey, result);
+      result.catch(() => {
+        if (this.quoteCache.get(cacheKey) === result) {
+          this.quoteCache.delete(cacheKey);
+        }
+      });
+    }
+
+    return this.quoteCache.get(cacheKey) as Promise<T>;
+  }
+
+  protected async buildLegTransactions(
+    leg: SwapPathLeg,
+    amount: BigNumber,
+    from: string,
+    options?: Partial<Options>,
+  ): Promise<SwapPathTransaction[]> {
+    const { route, entry, destination } = leg;
+    const transactions: SwapPathTransaction[] = [];
+
+    const permit = await route.permit(entry, destination, amount, from);
+    if (permit) {
+      transactions.push({ type: 'permit', leg, request: permit });
+    }
+
+    if (!permit || permit.approvalRequired) {
+      const approve = await route.approve(entry, destination, amount, from);
+      if (approve) {
+        transactions.push({ type: 'approve', leg, request: approve });
+      }
+    }
+
+    transactions.push({
+      type: 'swap',
+      leg,
+      amount,
+      build: swapOptions =>
+        route.swap(entry, destination, amount, from, {
+          ...options,
+          ...swapOptions,
+        }),
+    });
+
+    return transactions;
+  }
+
   public async getTokenDetails(
     token: string,
     chain: ChainId,
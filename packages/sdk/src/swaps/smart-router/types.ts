@@ -1,5 +1,7 @@
-import type { TransactionRequest } from '@ethersproject/abstract-provider';
-import type { ChainId } from '@sovryn/ethers-provider';
+import type {
+  BlockTag,
+  TransactionRequest,
+} from '@ethersproject/abstract-provider';
 
 import type {
   BigNumber,
@@ -9,15 +11,40 @@ import type {
   providers,
 } from 'ethers';
 
+import type { ChainId } from '@sovryn/ethers-provider';
+import type { Decimal } from '@sovryn/utils';
+
 export type SwapPairs = Map<string, string[]>;
 
 export type Options = {
   slippage: BigNumberish;
+  // Block to read quote state at, e.g. to value a position in the past. Latest block if not set.
+  blockTag: BlockTag;
+};
+
+export type SwapQuote = {
+  // Expected amount of destination token.
+  amountOut: BigNumber;
+  // Minimum amount of destination token received after slippage.
+  minimumOut: BigNumber;
+  // Fee taken by the protocol, in destination token.
+  protocolFee: BigNumber;
+  // Fee paid to liquidity providers, in destination token.
+  lpFee: BigNumber;
+  // Amount of destination token for one entry token, before fees and price impact.
+  spotPrice: Decimal;
+  // Difference between spot price and execution price excluding fees, in percents.
+  priceImpact: Decimal;
+  // Estimated gas units of the swap transaction.
+  gasEstimate: BigNumber;
 };
 
 export type SwapOptions = {
   typedDataValue?: TypedDataTransactionRequest['typedData']['values'];
   typedDataSignature?: string;
+  // Pay and receive tokens with the dex balance (surplus collateral) of the user instead of the wallet.
+  // Only supported by the Ambient route, other routes settle with the wallet.
+  surplus?: boolean;
 } & Options;
 
 export type SwapRoute = {
@@ -37,6 +64,15 @@ export type SwapRoute = {
     overrides?: Partial<TransactionRequest>,
   ) => Promise<BigNumber>;
 
+  // Get expected amount for swap together with fees, price impact and gas estimate.
+  quoteDetails: (
+    entry: string,
+    destination: string,
+    amount: BigNumberish,
+    options?: Partial<Options>,
+    overrides?: Partial<TransactionRequest>,
+  ) => Promise<SwapQuote>;
+
   // Build swap tx data.
   swap: (
     entry: string,
@@ -47,6 +83,28 @@ export type SwapRoute = {
     overrides?: Partial<TransactionRequest>,
   ) => Promise<TransactionRequest>;
 
+  // Get amount of entry token needed to receive exact amount of destination token.
+  // Routes which can't swap for exact output don't implement it.
+  quoteForOutput?: (
+    entry: string,
+    destination: string,
+    amountOut: BigNumberish,
+    options?: Partial<Options>,
+    overrides?: Partial<TransactionRequest>,
+  ) => Promise<BigNumber>;
+
+  // Build swap tx data receiving exact amount of destination token.
+  // Swap must not spend more than maxAmountIn of entry token.
+  swapForOutput?: (
+    entry: string,
+    destination: string,
+    amountOut: BigNumberish,
+    maxAmountIn: BigNumberish,
+    from: string,
+    options?: Partial<SwapOptions>,
+    overrides?: Partial<TransactionRequest>,
+  ) => Promise<TransactionRequest>;
+
   // Build approval tx data.
   // If undefined is returned, token doesn't need to be approved.
   approve: (
@@ -73,6 +131,84 @@ export type SwapRoute = {
 
 export type SwapRouteFunction = (provider: providers.Provider) => SwapRoute;
 
+export type SmartRouterCacheOptions = {
+  // How long pairs of the routes are cached, in milliseconds.
+  pairsTtl: number;
+  // How long block number is reused for quote memoization when there are no block subscribers, in milliseconds.
+  blockNumberTtl: number;
+};
+
+export type SwapPathOptions = {
+  // Maximum number of legs in a path.
+  maxHops: number;
+  // Maximum number of paths to quote.
+  maxPaths: number;
+} & Partial<Pick<Options, 'blockTag'>>;
+
+export type SwapPathLeg = {
+  route: SwapRoute;
+  entry: string;
+  destination: string;
+  // Amount of entry token sent to the route.
+  amount: BigNumber;
+  // Expected amount of destination token received from the route.
+  quote: BigNumber;
+};
+
+export type SwapPathQuote = {
+  legs: SwapPathLeg[];
+  // Expected amount of destination token received after the last leg.
+  quote: BigNumber;
+};
+
+export type SwapOutputQuote = {
+  route: SwapRoute;
+  entry: string;
+  destination: string;
+  // Exact amount of destination token to receive.
+  amountOut: BigNumber;
+  // Expected amount of entry token to spend.
+  quote: BigNumber;
+  // Maximum amount of entry token the swap can spend after slippage.
+  maxAmountIn: BigNumber;
+};
+
+export type SwapSplitOptions = {
+  // Number of equal parts the amount is divided to, when searching for the best allocation between routes.
+  maxParts: number;
+} & Partial<Pick<Options, 'blockTag'>>;
+
+export type SwapSplitPart = SwapPathLeg & {
+  // Share of the amount swapped by the route, in percents.
+  share: number;
+};
+
+export type SwapSplitQuote = {
+  parts: SwapSplitPart[];
+  // Expected amount of destination token received from all the routes.
+  quote: BigNumber;
+};
+
+// Ordered steps user needs to sign to execute a swap path.
+export type SwapPathTransaction =
+  | {
+      type: 'permit';
+      leg: SwapPathLeg;
+      request: TypedDataTransactionRequest;
+    }
+  | {
+      type: 'approve';
+      leg: SwapPathLeg;
+      request: TransactionRequest;
+    }
+  | {
+      type: 'swap';
+      leg: SwapPathLeg;
+      amount: BigNumber;
+      // Swap tx data is built lazily, because it may depend on signed permit of the same leg.
+      build: (options?: Partial<SwapOptions>) => Promise<TransactionRequest>;
+    };
+
 export type TypedDataTransactionRequest = {
   approvalRequired: boolean;
   typedData: {
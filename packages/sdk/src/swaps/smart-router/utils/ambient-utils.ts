@@ -1,4 +1,4 @@
-import { BigNumber } from 'ethers';
+import { BigNumber, CallOverrides, Contract, utils } from 'ethers';
 
 import { getAssetContract, getAssetDataByAddress } from '@sovryn/contracts';
 import { ChainId, ChainIds } from '@sovryn/ethers-provider';
@@ -72,6 +72,7 @@ export const calcImpact = async (
   isBuy: boolean,
   inBaseQty: boolean,
   qty: BigNumber,
+  overrides: CallOverrides = {},
 ) => {
   const context = await env.context;
   return await context.slipQuery.calcImpact(
@@ -83,9 +84,37 @@ export const calcImpact = async (
     qty,
     0,
     initialLimitPrice(isBuy),
+    overrides,
   );
 };
 
+// fee rates of the pools are in hundredths of basis points
+const POOL_FEE_PRECISION = 1_000_000;
+
+const PoolParamsIFace = new utils.Interface([
+  'function queryPoolParams(address base, address quote, uint256 poolIdx) view returns (tuple(uint8 schema_, uint16 feeRate_, uint8 protocolTake_, uint16 tickSize_, uint8 jitThresh_, uint8 knockoutBits_, uint8 oracleFlags_))',
+]);
+
+// Returns swap fee rate of the pool as a fraction, or 0 if it can't be queried
+export const queryPoolFeeRate = async (
+  env: CrocEnv,
+  base: string,
+  quote: string,
+  poolIdx: number,
+  overrides: CallOverrides = {},
+) => {
+  const context = await env.context;
+  const query = new Contract(
+    context.query.address,
+    PoolParamsIFace,
+    context.provider,
+  );
+  return query
+    .queryPoolParams(base, quote, poolIdx, overrides)
+    .then(params => params.feeRate_ / POOL_FEE_PRECISION)
+    .catch(() => 0);
+};
+
 const INDEXER = {
   [ChainIds.BOB_MAINNET]:
     'https://bob-ambient-graphcache.sovryn.app/gcgo/pool_list',
@@ -0,0 +1,70 @@
+import { BigNumber, BigNumberish, constants } from 'ethers';
+
+import { SovrynErrorCode, makeError } from '../../../errors/errors';
+
+// how much more than the requested output the found input may return, in basis points
+const SEARCH_TOLERANCE = 1;
+const SEARCH_ITERATIONS = 8;
+
+// Find the smallest input for which quote returns at least amountOut, for routes which can only quote exact input.
+// Quotes are concave (bigger swaps get worse price), so scaling the input by the missing output ratio
+// approaches the result from below and a small overshoot keeps the next guess above the target.
+export const findInputForOutput = async (
+  quote: (amount: BigNumber) => Promise<BigNumber>,
+  amountOut: BigNumberish,
+  estimate: BigNumberish = constants.WeiPerEther,
+): Promise<BigNumber> => {
+  const target = BigNumber.from(amountOut);
+  let amountIn = BigNumber.from(estimate).gt(0)
+    ? BigNumber.from(estimate)
+    : constants.WeiPerEther;
+  let best: BigNumber | undefined;
+
+  for (let i = 0; i < SEARCH_ITERATIONS; i++) {
+    const out = await quote(amountIn);
+
+    if (out.lte(0)) {
+      break;
+    }
+
+    if (out.gte(target)) {
+      if (!best || amountIn.lt(best)) {
+        best = amountIn;
+      }
+
+      if (out.sub(target).mul(10_000).lte(target.mul(SEARCH_TOLERANCE))) {
+        break;
+      }
+
+      amountIn = amountIn.mul(target).div(out).add(1);
+    } else {
+      amountIn = amountIn
+        .mul(target)
+        .mul(10_000 + SEARCH_TOLERANCE)
+        .div(out.mul(10_000))
+        .add(1);
+    }
+  }
+
+  if (!best) {
+    throw makeError(
+      `Not enough liquidity to receive ${target.toString()} wei`,
+      SovrynErrorCode.SWAP_INSUFFICIENT_LIQUIDITY,
+    );
+  }
+
+  return best;
+};
+
+// Throw if swap would need to spend more than the allowed maximum input.
+export const assertMaxInput = (
+  amountIn: BigNumberish,
+  maxAmountIn: BigNumberish,
+) => {
+  if (BigNumber.from(amountIn).gt(maxAmountIn)) {
+    throw makeError(
+      `Swap requires ${amountIn.toString()} wei, more than the maximum input of ${maxAmountIn.toString()} wei`,
+      SovrynErrorCode.SWAP_SLIPPAGE_EXCEEDED,
+    );
+  }
+};
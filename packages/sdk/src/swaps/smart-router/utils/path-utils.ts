@@ -0,0 +1,105 @@
+import { SwapPairs, SwapRoute } from '../types';
+
+export type RouteEdge = {
+  route: SwapRoute;
+  entry: string;
+  destination: string;
+};
+
+export type RouteGraph = Map<string, RouteEdge[]>;
+
+// Construct a directed graph of tokens, where each edge is a pair swappable by a single route
+export const constructRouteGraph = async (
+  routes: SwapRoute[],
+  getPairs: (route: SwapRoute) => Promise<SwapPairs> = route => route.pairs(),
+): Promise<RouteGraph> => {
+  const graph: RouteGraph = new Map();
+
+  const routePairs = await Promise.all(
+    routes.map(async route => ({ route, pairs: await getPairs(route) })),
+  );
+
+  routePairs.forEach(({ route, pairs }) => {
+    pairs.forEach((quoteTokens, baseToken) => {
+      const entry = baseToken.toLowerCase();
+      if (!graph.has(entry)) graph.set(entry, []);
+
+      quoteTokens.forEach(quoteToken =>
+        graph.get(entry)?.push({
+          route,
+          entry,
+          destination: quoteToken.toLowerCase(),
+        }),
+      );
+    });
+  });
+
+  return graph;
+};
+
+// Depth-first walk over all paths starting at entry token, limited to maxHops legs.
+// Paths never visit the same token twice and never use the same route for two consecutive legs,
+// because each route already finds the best way between its own pairs.
+export const traverseRouteGraph = (
+  graph: RouteGraph,
+  entry: string,
+  maxHops: number,
+  visit: (path: RouteEdge[]) => void,
+) => {
+  const walk = (token: string, path: RouteEdge[], visited: Set<string>) => {
+    if (path.length >= maxHops) {
+      return;
+    }
+
+    graph.get(token)?.forEach(edge => {
+      if (visited.has(edge.destination)) {
+        return;
+      }
+
+      if (path.length > 0 && path[path.length - 1].route === edge.route) {
+        return;
+      }
+
+      const next = [...path, edge];
+      visit(next);
+      walk(edge.destination, next, new Set([...visited, edge.destination]));
+    });
+  };
+
+  const start = entry.toLowerCase();
+  walk(start, [], new Set([start]));
+};
+
+// Find all paths from entry to destination token, shortest paths first
+export const findRoutePaths = (
+  graph: RouteGraph,
+  entry: string,
+  destination: string,
+  maxHops: number,
+): RouteEdge[][] => {
+  const paths: RouteEdge[][] = [];
+  const goal = destination.toLowerCase();
+
+  traverseRouteGraph(graph, entry, maxHops, path => {
+    if (path[path.length - 1].destination === goal) {
+      paths.push(path);
+    }
+  });
+
+  return paths.sort((a, b) => a.length - b.length);
+};
+
+// Find all tokens reachable from entry token within maxHops legs
+export const findReachableTokens = (
+  graph: RouteGraph,
+  entry: string,
+  maxHops: number,
+): string[] => {
+  const tokens = new Set<string>();
+
+  traverseRouteGraph(graph, entry, maxHops, path =>
+    tokens.add(path[path.length - 1].destination),
+  );
+
+  return Array.from(tokens);
+};
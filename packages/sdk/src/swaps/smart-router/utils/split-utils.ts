@@ -0,0 +1,41 @@
+import { BigNumber } from 'ethers';
+
+// Quotes of a single route, where item at index k is the output for k parts of the amount.
+// Item is undefined if route can't swap that many parts.
+export type RoutePartQuotes = (BigNumber | undefined)[];
+
+// Find how many parts of the amount each route should swap to get the highest total output.
+// Returns list of part counts in the same order as routes, or undefined if amount can't be swapped.
+export const findBestAllocation = (
+  quotes: RoutePartQuotes[],
+  parts: number,
+): number[] | undefined => {
+  // best output and allocation for k parts, using routes processed so far
+  let best: ({ output: BigNumber; allocation: number[] } | undefined)[] = [
+    { output: BigNumber.from(0), allocation: [] },
+  ];
+
+  quotes.forEach(routeQuotes => {
+    const next: typeof best = [];
+
+    for (let k = 0; k <= parts; k++) {
+      for (let j = 0; j <= k; j++) {
+        const previous = best[k - j];
+        const quote = j === 0 ? BigNumber.from(0) : routeQuotes[j];
+
+        if (!previous || !quote) {
+          continue;
+        }
+
+        const output = previous.output.add(quote);
+        if (!next[k] || output.gt(next[k]!.output)) {
+          next[k] = { output, allocation: [...previous.allocation, j] };
+        }
+      }
+    }
+
+    best = next;
+  });
+
+  return best[parts]?.allocation;
+};
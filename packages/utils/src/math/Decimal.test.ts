@@ -1,4 +1,4 @@
-import { Decimal } from './Decimal';
+import { Decimal, RoundingMode } from './Decimal';
 
 describe('math/Decimal.ts', () => {
   it('creates a Decimal from a number', () => {
@@ -94,4 +94,216 @@ describe('math/Decimal.ts', () => {
       expect(d.toString(14)).toBe('-0.00000000000001');
     });
   });
+
+  describe('rounding modes', () => {
+    const modes: RoundingMode[] = [
+      'half-up',
+      'half-even',
+      'floor',
+      'ceil',
+      'down',
+    ];
+
+    // value, then expected result for each of the modes above
+    const table: [string, string[]][] = [
+      ['5.5', ['6', '6', '5', '6', '5']],
+      ['2.5', ['3', '2', '2', '3', '2']],
+      ['1.6', ['2', '2', '1', '2', '1']],
+      ['1.1', ['1', '1', '1', '2', '1']],
+      ['1.0', ['1', '1', '1', '1', '1']],
+      ['0.5', ['1', '0', '0', '1', '0']],
+      ['0', ['0', '0', '0', '0', '0']],
+      ['-0.5', ['-1', '0', '-1', '0', '0']],
+      ['-1.0', ['-1', '-1', '-1', '-1', '-1']],
+      ['-1.1', ['-1', '-1', '-2', '-1', '-1']],
+      ['-1.6', ['-2', '-2', '-2', '-1', '-1']],
+      ['-2.5', ['-3', '-2', '-3', '-2', '-2']],
+      ['-5.5', ['-6', '-6', '-6', '-5', '-5']],
+    ];
+
+    describe.each(modes.map((mode, index) => [mode, index] as const))(
+      '%s',
+      (mode, index) => {
+        it.each(table)('rounds %s to integer', (value, expected) => {
+          expect(Decimal.from(value).toString(0, mode)).toBe(expected[index]);
+        });
+
+        it.each(table)('rounds %s / 10 to one decimal', (value, expected) => {
+          expect(Decimal.from(value).div(10).toString(1, mode)).toBe(
+            Decimal.from(expected[index]).div(10).toString(1),
+          );
+        });
+      },
+    );
+
+    it('rounds half-up by default in toString', () => {
+      expect(Decimal.from('1.25').toString(1)).toBe('1.3');
+      expect(Decimal.from('-1.25').toString(1)).toBe('-1.3');
+      expect(Decimal.from('1.24').toString(1)).toBe('1.2');
+    });
+
+    it('keeps value when precision is not lower than 18 digits', () => {
+      const d = Decimal.fromBigNumberString('15');
+      expect(d.toString(18, 'floor')).toBe('0.000000000000000015');
+      expect(d.toString(20, 'ceil')).toBe('0.000000000000000015');
+    });
+
+    it('does not render negative zero', () => {
+      expect(Decimal.from('-0.4').toString(0)).toBe('0');
+      expect(Decimal.from('-0.04').toString(1)).toBe('0.0');
+      expect(Decimal.from('-0.04').toString(1, 'floor')).toBe('-0.1');
+    });
+
+    it('rejects negative precision', () => {
+      expect(() => Decimal.from(1).toString(-1)).toThrow(
+        'precision must not be negative',
+      );
+    });
+
+    it.each([
+      ['half-up', '0.666666666666666667', '-0.666666666666666667'],
+      ['half-even', '0.666666666666666667', '-0.666666666666666667'],
+      ['floor', '0.666666666666666666', '-0.666666666666666667'],
+      ['ceil', '0.666666666666666667', '-0.666666666666666666'],
+      ['down', '0.666666666666666666', '-0.666666666666666666'],
+    ] as [RoundingMode, string, string][])(
+      'divides with %s rounding',
+      (mode, positive, negative) => {
+        expect(Decimal.from(2).div(3, mode).toString()).toBe(positive);
+        expect(Decimal.from(-2).div(3, mode).toString()).toBe(negative);
+        expect(Decimal.from(2).div(-3, mode).toString()).toBe(negative);
+      },
+    );
+
+    it('truncates division by default', () => {
+      expect(Decimal.from(2).div(3).toString()).toBe('0.666666666666666666');
+      expect(Decimal.from(1).div(0)).toBe(Decimal.INFINITY);
+    });
+
+    it.each([
+      ['half-up', '3'],
+      ['half-even', '2'],
+      ['floor', '2'],
+      ['ceil', '3'],
+      ['down', '2'],
+    ] as [RoundingMode, string][])(
+      'multiplies and divides with %s rounding',
+      (mode, expected) => {
+        // 5 wei * 1 / 2 = 2.5 wei
+        const d = Decimal.fromBigNumberString('5');
+        expect(d.mulDiv(1, 2, mode).toBigNumber().toString()).toBe(expected);
+      },
+    );
+
+    it.each([
+      ['half-up', '0.000000000000000003'],
+      ['half-even', '0.000000000000000002'],
+      ['floor', '0.000000000000000002'],
+      ['ceil', '0.000000000000000003'],
+      ['down', '0.000000000000000002'],
+    ] as [RoundingMode, string][])(
+      'converts to units with %s rounding',
+      (mode, expected) => {
+        const d = Decimal.fromBigNumberString('25');
+        expect(d.toUnits(1, mode).toString()).toBe(expected);
+      },
+    );
+
+    it('converts to units', () => {
+      expect(Decimal.from('1500000').toUnits(6).toString()).toBe('1.5');
+      expect(Decimal.from('1').toUnits().toString()).toBe(
+        '0.000000000000000001',
+      );
+    });
+  });
+
+  describe('format', () => {
+    it('formats with grouping of the locale', () => {
+      const d = Decimal.from('1234567.891');
+      expect(d.format({ locale: 'en-US' })).toBe('1,234,567.89');
+      expect(d.format({ locale: 'de-DE' })).toBe('1.234.567,89');
+      expect(d.format({ locale: 'fr-FR' })).toBe('1\u202f234\u202f567,89');
+      expect(d.format({ locale: 'en-IN' })).toBe('12,34,567.89');
+    });
+
+    it('follows minimum grouping digits of the locale', () => {
+      expect(Decimal.from('1234.5').format({ locale: 'es' })).toBe('1234,5');
+      expect(Decimal.from('12345.5').format({ locale: 'es' })).toBe('12.345,5');
+    });
+
+    it('formats without grouping', () => {
+      expect(
+        Decimal.from('1234567.891').format({ locale: 'en', grouping: false }),
+      ).toBe('1234567.89');
+    });
+
+    it('formats with precision and rounding mode', () => {
+      const d = Decimal.from('2.345');
+      expect(d.format({ locale: 'en', precision: 2 })).toBe('2.35');
+      expect(d.format({ locale: 'en', precision: 2, rounding: 'down' })).toBe(
+        '2.34',
+      );
+      expect(
+        d.format({ locale: 'en', precision: 2, rounding: 'half-even' }),
+      ).toBe('2.34');
+      expect(d.format({ locale: 'en', precision: 0, rounding: 'ceil' })).toBe(
+        '3',
+      );
+    });
+
+    it('trims trailing zeros up to minimum precision', () => {
+      const d = Decimal.from('1.5');
+      expect(d.format({ locale: 'en', precision: 4 })).toBe('1.5');
+      expect(d.format({ locale: 'en', precision: 4, minPrecision: 3 })).toBe(
+        '1.500',
+      );
+      expect(
+        Decimal.from(1).format({ locale: 'en', precision: 1, minPrecision: 3 }),
+      ).toBe('1.0');
+    });
+
+    it('formats negative values', () => {
+      expect(Decimal.from('-1234.5').format({ locale: 'en' })).toBe('-1,234.5');
+      expect(Decimal.from('-0.001').format({ locale: 'en' })).toBe('0');
+      expect(
+        Decimal.from('-0.001').format({ locale: 'en', rounding: 'floor' }),
+      ).toBe('-0.01');
+    });
+
+    it('formats large values without loss of precision', () => {
+      expect(
+        Decimal.from('123456789012345678901234.123456789012345678').format({
+          locale: 'en',
+          precision: 18,
+        }),
+      ).toBe('123,456,789,012,345,678,901,234.123456789012345678');
+    });
+
+    it('formats in compact notation', () => {
+      expect(
+        Decimal.from('1234567').format({ locale: 'en', notation: 'compact' }),
+      ).toBe('1.23M');
+      expect(
+        Decimal.from('1500').format({
+          locale: 'en',
+          notation: 'compact',
+          precision: 0,
+        }),
+      ).toBe('2K');
+      expect(
+        Decimal.from('1500').format({
+          locale: 'en',
+          notation: 'compact',
+          precision: 0,
+          rounding: 'down',
+        }),
+      ).toBe('2K');
+      expect(
+        Decimal.from('1234567').format({
+          locale: 'de-DE',
+          notation: 'compact',
+        }),
+      ).toBe('1,23\u00a0Mio.');
+    });
+  });
 });
@@ -20,6 +20,66 @@ const roundedMul = (x: BigNumber, y: BigNumber) =>
 
 export type Decimalish = Decimal | number | string;
 
+// half-up rounds ties away from zero, down truncates towards zero
+export type RoundingMode = 'half-up' | 'half-even' | 'floor' | 'ceil' | 'down';
+
+export type DecimalFormatOptions = {
+  // BCP 47 language tag, runtime default locale is used if not set
+  locale?: string;
+  // maximum number of fraction digits
+  precision?: number;
+  // minimum number of fraction digits, padded with zeros
+  minPrecision?: number;
+  rounding?: RoundingMode;
+  grouping?: boolean;
+  notation?: 'standard' | 'compact';
+};
+
+// Integer division with rounding of the remainder by given mode.
+const divRound = (
+  numerator: BigNumber,
+  denominator: BigNumber,
+  mode: RoundingMode,
+): BigNumber => {
+  const quotient = numerator.div(denominator);
+  const remainder = numerator.sub(quotient.mul(denominator));
+
+  if (remainder.isZero() || mode === 'down') {
+    return quotient;
+  }
+
+  const negative = numerator.isNegative() !== denominator.isNegative();
+  const awayFromZero = negative ? quotient.sub(ONE) : quotient.add(ONE);
+
+  switch (mode) {
+    case 'floor':
+      return negative ? awayFromZero : quotient;
+    case 'ceil':
+      return negative ? quotient : awayFromZero;
+    default: {
+      const doubled = remainder.abs().mul(2);
+      const divisor = denominator.abs();
+      if (doubled.gt(divisor)) {
+        return awayFromZero;
+      }
+      if (doubled.lt(divisor)) {
+        return quotient;
+      }
+      return mode === 'half-up' || quotient.mod(2).eq(ONE)
+        ? awayFromZero
+        : quotient;
+    }
+  }
+};
+
+const getLocaleSymbols = (locale?: string) => {
+  const parts = new Intl.NumberFormat(locale).formatToParts(-1.5);
+  return {
+    decimal: parts.find(part => part.type === 'decimal')?.value || '.',
+    minus: parts.find(part => part.type === 'minusSign')?.value || '-',
+  };
+};
+
 export class Decimal {
   static readonly INFINITY = Decimal.fromBigNumberString(MAX_UINT_256);
   static readonly ZERO = Decimal.from(0);
@@ -45,6 +105,12 @@ export class Decimal {
       throw new Error(`bad decimal format: "${representation}"`);
     }
 
+    if (representation.startsWith('-')) {
+      return new Decimal(
+        Decimal._fromString(representation.substr(1))._bigNumber.mul(-1),
+      );
+    }
+
     if (representation.includes('e')) {
       // eslint-disable-next-line prefer-const
       let [coefficient, exponent] = representation.split('e');
@@ -119,34 +185,33 @@ export class Decimal {
     }
   }
 
-  private _roundUp(precision: number) {
-    const halfDigit = getDigits(PRECISION - 1 - precision).mul(5);
-    if (this._bigNumber.isNegative()) {
-      return this._bigNumber.sub(halfDigit);
-    }
-    return this._bigNumber.add(halfDigit);
-  }
-
-  private _toStringWithPrecision(precision: number) {
+  private _toStringWithPrecision(precision: number, rounding: RoundingMode) {
     if (precision < 0) {
       throw new Error('precision must not be negative');
     }
 
     const value =
-      precision < PRECISION ? this._roundUp(precision) : this._bigNumber;
-    const characteristic = value.div(DIGITS);
+      precision < PRECISION
+        ? this._round(precision, rounding)._bigNumber
+        : this._bigNumber;
+    const characteristic = value.abs().div(DIGITS);
     const mantissa = value.abs().mod(DIGITS);
+    const symbol = value.isNegative() ? '-' : '';
 
     if (precision === 0) {
-      return characteristic.toString();
+      return symbol + characteristic.toString();
     } else {
-      const symbol = this._bigNumber.isNegative() ? '-' : '';
       const paddedMantissa = mantissa.toString().padStart(PRECISION, '0');
       const trimmedMantissa = paddedMantissa.substr(0, precision);
-      return symbol + characteristic.abs().toString() + '.' + trimmedMantissa;
+      return symbol + characteristic.toString() + '.' + trimmedMantissa;
     }
   }
 
+  private _round(precision: number, rounding: RoundingMode): Decimal {
+    const unit = getDigits(PRECISION - precision);
+    return new Decimal(divRound(this._bigNumber, unit, rounding).mul(unit));
+  }
+
   toNumber(): number {
     return parseFloat(this.toString());
   }
@@ -159,11 +224,11 @@ export class Decimal {
     return this._bigNumber.toHexString();
   }
 
-  toString(precision?: number): string {
+  toString(precision?: number, rounding: RoundingMode = 'half-up'): string {
     if (this.infinite) {
       return '0';
     } else if (precision !== undefined) {
-      return this._toStringWithPrecision(precision);
+      return this._toStringWithPrecision(precision, rounding);
     } else {
       return this._toStringWithAutomaticPrecision();
     }
@@ -198,6 +263,48 @@ export class Decimal {
     return normalized.prettify(precision) + magnitudes[magnitude];
   }
 
+  // Formats the value for given locale without loss of precision (except compact notation).
+  format({
+    locale,
+    precision = 2,
+    minPrecision = 0,
+    rounding = 'half-up',
+    grouping = true,
+    notation = 'standard',
+  }: DecimalFormatOptions = {}): string {
+    if (notation === 'compact') {
+      return new Intl.NumberFormat(locale, {
+        notation: 'compact',
+        maximumFractionDigits: precision,
+        minimumFractionDigits: Math.min(minPrecision, precision),
+        useGrouping: grouping ? undefined : false,
+      }).format(
+        Number(this.toString(Math.min(precision + 3, PRECISION), rounding)),
+      );
+    }
+
+    const [characteristic, mantissa = ''] = this.toString(
+      Math.min(precision, PRECISION),
+      rounding,
+    ).split('.');
+    const fraction = mantissa
+      .replace(trailingZeros, '')
+      .padEnd(Math.min(minPrecision, precision), '0');
+    const symbols = getLocaleSymbols(locale);
+    // undefined keeps minimum grouping digits of the locale, true would always group
+    const integer = new Intl.NumberFormat(locale, {
+      useGrouping: grouping ? undefined : false,
+    }).format(BigInt(characteristic.replace('-', '')));
+    const negative =
+      characteristic.startsWith('-') && (integer !== '0' || !!fraction);
+
+    return (
+      (negative ? symbols.minus : '') +
+      integer +
+      (fraction ? symbols.decimal + fraction : '')
+    );
+  }
+
   add(addend: Decimalish): Decimal {
     return new Decimal(this._bigNumber.add(Decimal.from(addend)._bigNumber));
   }
@@ -214,14 +321,16 @@ export class Decimal {
     );
   }
 
-  div(divider: Decimalish): Decimal {
+  div(divider: Decimalish, rounding: RoundingMode = 'down'): Decimal {
     divider = Decimal.from(divider);
 
     if (divider.isZero()) {
       return Decimal.INFINITY;
     }
 
-    return new Decimal(this._bigNumber.mul(DIGITS).div(divider._bigNumber));
+    return new Decimal(
+      divRound(this._bigNumber.mul(DIGITS), divider._bigNumber, rounding),
+    );
   }
 
   /** @internal */
@@ -240,7 +349,11 @@ export class Decimal {
     );
   }
 
-  mulDiv(multiplier: Decimalish, divider: Decimalish): Decimal {
+  mulDiv(
+    multiplier: Decimalish,
+    divider: Decimalish,
+    rounding: RoundingMode = 'down',
+  ): Decimal {
     multiplier = Decimal.from(multiplier);
     divider = Decimal.from(divider);
 
@@ -249,7 +362,11 @@ export class Decimal {
     }
 
     return new Decimal(
-      this._bigNumber.mul(multiplier._bigNumber).div(divider._bigNumber),
+      divRound(
+        this._bigNumber.mul(multiplier._bigNumber),
+        divider._bigNumber,
+        rounding,
+      ),
     );
   }
 
@@ -296,8 +413,8 @@ export class Decimal {
     return this;
   }
 
-  toUnits(unit: number = PRECISION): Decimal {
-    return this.div(Math.pow(10, unit));
+  toUnits(unit: number = PRECISION, rounding: RoundingMode = 'down'): Decimal {
+    return this.div(new Decimal(getDigits(PRECISION + unit)), rounding);
   }
 
   asUnits(unit: number = 0): Decimal {
@@ -0,0 +1,103 @@
+import { Decimal } from './Decimal';
+import { Percent } from './Percent';
+
+describe('math/Percent.ts', () => {
+  describe('conversions', () => {
+    it('creates percent from ratio, percents and basis points', () => {
+      expect(new Percent('0.25').toPercent().toString()).toBe('25');
+      expect(Percent.fromRatio(Decimal.from('0.25')).toString(2)).toBe(
+        '25.00%',
+      );
+      expect(Percent.fromPercent(25).toRatio().toString()).toBe('0.25');
+      expect(Percent.fromBasisPoints(2500).toRatio().toString()).toBe('0.25');
+    });
+
+    it('converts to basis points', () => {
+      expect(Percent.fromPercent('0.3').toBasisPoints().toString()).toBe('30');
+      expect(Percent.fromBasisPoints(1).toPercent().toString()).toBe('0.01');
+    });
+  });
+
+  describe('arithmetic', () => {
+    it('returns part of the amount', () => {
+      expect(Percent.fromPercent(25).of(200).toString()).toBe('50');
+      expect(Percent.fromBasisPoints(30).of('1000').toString()).toBe('3');
+    });
+
+    it('adds, subtracts and scales percents', () => {
+      const a = Percent.fromPercent(10);
+      const b = Percent.fromPercent(2.5);
+      expect(a.add(b).toPercent().toString()).toBe('12.5');
+      expect(a.sub(b).toPercent().toString()).toBe('7.5');
+      expect(a.mul(3).toPercent().toString()).toBe('30');
+    });
+
+    it('compares percents', () => {
+      expect(Percent.fromPercent(10).eq(Percent.fromBasisPoints(1000))).toBe(
+        true,
+      );
+      expect(Percent.fromPercent(10).gt(Percent.fromPercent(9))).toBe(true);
+      expect(Percent.fromPercent(10).lt(Percent.ONE_HUNDRED)).toBe(true);
+      expect(Percent.ZERO.isZero()).toBe(true);
+    });
+  });
+
+  describe('APR and APY', () => {
+    it('compounds APR to APY', () => {
+      expect(Percent.fromPercent(10).toApy(1).toPercent().toString()).toBe(
+        '10',
+      );
+      expect(Percent.fromPercent(12).toApy(12).toPercent().toString(6)).toBe(
+        '12.682503',
+      );
+      expect(Percent.fromPercent(10).toApy().toPercent().toString(4)).toBe(
+        '10.5156',
+      );
+    });
+
+    it('converts APY back to APR', () => {
+      const apy = Percent.fromPercent(12).toApy(12);
+      expect(Percent.aprFromApy(apy, 12).toPercent().toString(8)).toBe(
+        '12.00000000',
+      );
+      expect(
+        Percent.aprFromApy(Percent.fromPercent('10.5156'))
+          .toPercent()
+          .toString(2),
+      ).toBe('10.00');
+    });
+
+    it('rejects invalid number of periods', () => {
+      expect(() => Percent.fromPercent(10).toApy(0)).toThrow(
+        'Percent: invalid number of periods: 0',
+      );
+      expect(() => Percent.aprFromApy(Percent.ZERO, 1.5)).toThrow(
+        'Percent: invalid number of periods: 1.5',
+      );
+    });
+  });
+
+  describe('formatting', () => {
+    it('renders percent with precision', () => {
+      expect(Percent.fromPercent('12.345').toString(1)).toBe('12.3%');
+      expect(new Percent(Decimal.INFINITY).toString(2)).toBe('∞');
+    });
+
+    it('prettifies by magnitude', () => {
+      expect(Percent.fromPercent('1234.5').prettify()).toBe('1235%');
+      expect(Percent.fromPercent('12.34').prettify()).toBe('12.3%');
+      expect(Percent.fromPercent('1.234').prettify()).toBe('1.23%');
+    });
+
+    it('returns percent only if not rounded to zero', () => {
+      expect(Percent.fromPercent('0.004').nonZeroish(2)).toBeUndefined();
+      expect(Percent.fromPercent('0.005').nonZeroish(2)).toBeDefined();
+    });
+
+    it('formats with locale', () => {
+      expect(Percent.fromPercent('1234.5').format({ locale: 'de-DE' })).toBe(
+        '1.234,5%',
+      );
+    });
+  });
+});
@@ -1,42 +1,129 @@
-export class Percent<
-  T extends {
-    infinite?: T | undefined;
-    absoluteValue?: A | undefined;
-    mul?(hundred: 100): T;
-    toString(precision?: number): string;
-  },
-  A extends {
-    gte(n: string): boolean;
-  },
-> {
-  private _percent: T;
-
-  public constructor(ratio: T) {
-    this._percent = ratio.infinite || (ratio.mul && ratio.mul(100)) || ratio;
+import { Decimal, DecimalFormatOptions, Decimalish } from './Decimal';
+
+const HUNDRED = 100;
+const BASIS_POINTS = 10000;
+const DAYS_PER_YEAR = 365;
+
+const assertPeriods = (periods: number) => {
+  if (!Number.isInteger(periods) || periods <= 0) {
+    throw new Error(`Percent: invalid number of periods: ${periods}`);
+  }
+};
+
+// Percentage stored as a ratio, so 0.25 is 25%.
+export class Percent {
+  static readonly ZERO = new Percent(0);
+  static readonly ONE_HUNDRED = new Percent(1);
+
+  private _ratio: Decimal;
+
+  public constructor(ratio: Decimalish) {
+    this._ratio = Decimal.from(ratio);
+  }
+
+  static fromRatio(ratio: Decimalish): Percent {
+    return new Percent(ratio);
+  }
+
+  // 25 is 25%
+  static fromPercent(percent: Decimalish): Percent {
+    return new Percent(Decimal.from(percent).div(HUNDRED));
+  }
+
+  // 2500 is 25%
+  static fromBasisPoints(basisPoints: Decimalish): Percent {
+    return new Percent(Decimal.from(basisPoints).div(BASIS_POINTS));
+  }
+
+  // Yearly rate compounded `periods` times a year from annual percentage yield.
+  static aprFromApy(apy: Percent, periods: number = DAYS_PER_YEAR): Percent {
+    assertPeriods(periods);
+    // fractional root isn't supported by Decimal, precision of a number is enough for rates
+    const growth = Math.pow(1 + apy.toRatio().toNumber(), 1 / periods);
+    return new Percent(Decimal.from(((growth - 1) * periods).toFixed(18)));
+  }
+
+  toRatio(): Decimal {
+    return this._ratio;
+  }
+
+  toPercent(): Decimal {
+    return this._ratio.mul(HUNDRED);
+  }
+
+  toBasisPoints(): Decimal {
+    return this._ratio.mul(BASIS_POINTS);
+  }
+
+  // Annual percentage yield of this yearly rate compounded `periods` times a year.
+  toApy(periods: number = DAYS_PER_YEAR): Percent {
+    assertPeriods(periods);
+    return new Percent(
+      Decimal.ONE.add(this._ratio.div(periods)).pow(periods).sub(Decimal.ONE),
+    );
+  }
+
+  // Part of the amount, e.g. 25% of 200 is 50.
+  of(amount: Decimalish): Decimal {
+    return Decimal.from(amount).mul(this._ratio);
+  }
+
+  add(other: Percent): Percent {
+    return new Percent(this._ratio.add(other._ratio));
+  }
+
+  sub(other: Percent): Percent {
+    return new Percent(this._ratio.sub(other._ratio));
+  }
+
+  mul(multiplier: Decimalish): Percent {
+    return new Percent(this._ratio.mul(multiplier));
+  }
+
+  eq(other: Percent): boolean {
+    return this._ratio.eq(other._ratio);
+  }
+
+  gt(other: Percent): boolean {
+    return this._ratio.gt(other._ratio);
+  }
+
+  lt(other: Percent): boolean {
+    return this._ratio.lt(other._ratio);
+  }
+
+  isZero(): boolean {
+    return this._ratio.isZero();
   }
 
   nonZeroish(precision: number): this | undefined {
     const zeroish = `0.${'0'.repeat(precision)}5`;
 
-    if (this._percent.absoluteValue?.gte(zeroish)) {
+    if (this.toPercent().abs().gte(zeroish)) {
       return this;
     }
   }
 
   toString(precision: number): string {
-    return (
-      this._percent.toString(precision) +
-      (this._percent.absoluteValue && !this._percent.infinite ? '%' : '')
-    );
+    if (this._ratio.infinite) {
+      return '∞';
+    }
+    return this.toPercent().toString(precision) + '%';
   }
 
   prettify(): string {
-    if (this._percent.absoluteValue?.gte('1000')) {
+    const value = this.toPercent().abs();
+
+    if (value.gte('1000')) {
       return this.toString(0);
-    } else if (this._percent.absoluteValue?.gte('10')) {
+    } else if (value.gte('10')) {
       return this.toString(1);
     } else {
       return this.toString(2);
     }
   }
+
+  format(options: DecimalFormatOptions = {}): string {
+    return this.toPercent().format(options) + '%';
+  }
 }
@@ -0,0 +1,79 @@
+import { Price } from './Price';
+import { TokenAmount } from './TokenAmount';
+
+const WBTC = { symbol: 'WBTC', decimals: 8, address: '0x01' };
+const USDT = { symbol: 'USDT', decimals: 6, address: '0x02' };
+const DLLR = { symbol: 'DLLR', decimals: 18, address: '0x03' };
+
+describe('math/Price.ts', () => {
+  it('creates price from amounts', () => {
+    const price = Price.fromAmounts(
+      TokenAmount.from(WBTC, '0.5'),
+      TokenAmount.from(USDT, '15000'),
+    );
+    expect(price.base).toBe(WBTC);
+    expect(price.quote).toBe(USDT);
+    expect(price.toString()).toBe('30000');
+  });
+
+  it('inverts price', () => {
+    const price = new Price(WBTC, USDT, 40000).invert();
+    expect(price.base).toBe(USDT);
+    expect(price.quote).toBe(WBTC);
+    expect(price.toString()).toBe('0.000025');
+  });
+
+  it('quotes amount of base token', () => {
+    const amount = new Price(WBTC, USDT, '30000.123456789').quoteAmount(
+      TokenAmount.from(WBTC, '0.1'),
+    );
+    expect(amount.asset).toBe(USDT);
+    expect(amount.toString()).toBe('3000.012345');
+  });
+
+  it('throws when quoting amount of other token', () => {
+    expect(() =>
+      new Price(WBTC, USDT, 30000).quoteAmount(TokenAmount.from(USDT, 1)),
+    ).toThrow("Price: can't quote USDT with price of WBTC");
+  });
+
+  it('chains prices sharing an asset', () => {
+    const price = new Price(WBTC, USDT, 30000).mul(
+      new Price(USDT, DLLR, '1.01'),
+    );
+    expect(price.base).toBe(WBTC);
+    expect(price.quote).toBe(DLLR);
+    expect(price.toString()).toBe('30300');
+    expect(() =>
+      new Price(WBTC, USDT, 1).mul(new Price(WBTC, DLLR, 1)),
+    ).toThrow("Price: can't multiply price in USDT with price of WBTC");
+  });
+
+  it('converts raw price of wei', () => {
+    // 30000 USDT (6 decimals) for 1 WBTC (8 decimals)
+    const price = Price.fromRaw(WBTC, USDT, 300);
+    expect(price.toString()).toBe('30000');
+    expect(price.toRaw()).toBe(300);
+  });
+
+  it('converts ticks', () => {
+    expect(Price.fromTick(DLLR, DLLR, 0).toString()).toBe('1');
+    expect(Price.fromTick(DLLR, DLLR, 10000).toString(4)).toBe('2.7181');
+    expect(Price.fromTick(WBTC, USDT, 57040).toString(0)).toBe('29998');
+    expect(new Price(WBTC, USDT, 30000).toTick()).toBe(57040);
+    expect(new Price(DLLR, DLLR, '0.5').toTick()).toBe(-6932);
+  });
+
+  it('compares prices', () => {
+    expect(new Price(WBTC, USDT, 1).eq(new Price(WBTC, USDT, '1.0'))).toBe(
+      true,
+    );
+    expect(new Price(WBTC, USDT, 1).eq(new Price(USDT, WBTC, 1))).toBe(false);
+  });
+
+  it('formats with locale', () => {
+    expect(new Price(WBTC, USDT, '30000.5').format({ locale: 'en' })).toBe(
+      '30,000.5',
+    );
+  });
+});
@@ -0,0 +1,109 @@
+import { Decimal, DecimalFormatOptions, Decimalish } from './Decimal';
+import { TokenAmount, TokenAmountAsset, isSameAsset } from './TokenAmount';
+
+// Each tick of a concentrated liquidity pool moves the price by one basis point.
+const TICK_BASE = 1.0001;
+
+// Amount of quote token for one base token, in token units (e.g. 30000 USDT for 1 WBTC).
+export class Price {
+  readonly base: TokenAmountAsset;
+  readonly quote: TokenAmountAsset;
+
+  private _value: Decimal;
+
+  public constructor(
+    base: TokenAmountAsset,
+    quote: TokenAmountAsset,
+    value: Decimalish,
+  ) {
+    this.base = base;
+    this.quote = quote;
+    this._value = Decimal.from(value);
+  }
+
+  // Price of the base amount paid by the quote amount.
+  static fromAmounts(base: TokenAmount, quote: TokenAmount): Price {
+    return new Price(base.asset, quote.asset, quote.amount.div(base.amount));
+  }
+
+  // Price from ratio of quote wei to base wei, as used by pool contracts.
+  static fromRaw(
+    base: TokenAmountAsset,
+    quote: TokenAmountAsset,
+    raw: number,
+  ): Price {
+    return new Price(
+      base,
+      quote,
+      raw * Math.pow(10, base.decimals - quote.decimals),
+    );
+  }
+
+  // Price of the pool tick, for CrocSwap pools the base of the price is the quote token of the pool.
+  static fromTick(
+    base: TokenAmountAsset,
+    quote: TokenAmountAsset,
+    tick: number,
+  ): Price {
+    return Price.fromRaw(base, quote, Math.pow(TICK_BASE, tick));
+  }
+
+  toDecimal(): Decimal {
+    return this._value;
+  }
+
+  // Ratio of quote wei to base wei.
+  toRaw(): number {
+    return (
+      this._value.toNumber() *
+      Math.pow(10, this.quote.decimals - this.base.decimals)
+    );
+  }
+
+  // Closest tick at or below the price.
+  toTick(): number {
+    return Math.floor(Math.log(this.toRaw()) / Math.log(TICK_BASE));
+  }
+
+  invert(): Price {
+    return new Price(this.quote, this.base, Decimal.ONE.div(this._value));
+  }
+
+  // Amount of quote token for the amount of base token.
+  quoteAmount(amount: TokenAmount): TokenAmount {
+    if (!amount.isSameAsset(this.base)) {
+      throw new Error(
+        `Price: can't quote ${amount.asset.symbol} with price of ${this.base.symbol}`,
+      );
+    }
+
+    return TokenAmount.from(this.quote, amount.amount.mul(this._value));
+  }
+
+  // Chains prices sharing an asset, e.g. BTC/USDT and USDT/DLLR to BTC/DLLR.
+  mul(other: Price): Price {
+    if (!isSameAsset(this.quote, other.base)) {
+      throw new Error(
+        `Price: can't multiply price in ${this.quote.symbol} with price of ${other.base.symbol}`,
+      );
+    }
+
+    return new Price(this.base, other.quote, this._value.mul(other._value));
+  }
+
+  eq(other: Price): boolean {
+    return (
+      isSameAsset(this.base, other.base) &&
+      isSameAsset(this.quote, other.quote) &&
+      this._value.eq(other._value)
+    );
+  }
+
+  toString(precision?: number): string {
+    return this._value.toString(precision);
+  }
+
+  format(options: DecimalFormatOptions = {}): string {
+    return this._value.format(options);
+  }
+}
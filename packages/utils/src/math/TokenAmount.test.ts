@@ -0,0 +1,164 @@
+import { BigNumber } from '@ethersproject/bignumber';
+
+import { Decimal } from './Decimal';
+import { TokenAmount } from './TokenAmount';
+
+const WBTC = {
+  symbol: 'WBTC',
+  decimals: 8,
+  address: '0x03C7054BCB39f7b2e5B2c7AcB37583e32D70Cfa3',
+};
+const USDT = {
+  symbol: 'USDT',
+  decimals: 6,
+  address: '0x05D032ac25d322df992303dCa074EE7392C117b9',
+};
+const ETH = { symbol: 'ETH', decimals: 18 };
+const BIG = { symbol: 'BIG', decimals: 24 };
+
+describe('math/TokenAmount.ts', () => {
+  describe('from', () => {
+    it('creates amount in token units', () => {
+      const amount = TokenAmount.from(WBTC, '1.5');
+      expect(amount.toString()).toBe('1.5');
+      expect(amount.toWei().toString()).toBe('150000000');
+      expect(amount.asset).toBe(WBTC);
+    });
+
+    it('truncates digits beyond decimals of the asset', () => {
+      expect(TokenAmount.from(WBTC, '0.123456789').toString()).toBe(
+        '0.12345678',
+      );
+      expect(TokenAmount.from(USDT, '0.0000009').isZero()).toBe(true);
+    });
+
+    it('rounds digits beyond decimals of the asset by given mode', () => {
+      expect(TokenAmount.from(WBTC, '0.123456789', 'ceil').toString()).toBe(
+        '0.12345679',
+      );
+      expect(
+        TokenAmount.from(USDT, '-1.0000005', 'half-up').toWei().toString(),
+      ).toBe('-1000001');
+    });
+
+    it('keeps all digits of 18 decimal asset', () => {
+      expect(TokenAmount.from(ETH, '0.000000000000000001').toString()).toBe(
+        '0.000000000000000001',
+      );
+    });
+
+    it('rejects infinite amount and invalid decimals', () => {
+      expect(() => TokenAmount.from(ETH, Decimal.INFINITY)).toThrow(
+        'TokenAmount: infinite amount of ETH',
+      );
+      expect(() => TokenAmount.from({ ...WBTC, decimals: -1 }, 1)).toThrow(
+        'TokenAmount: invalid decimals of WBTC: -1',
+      );
+    });
+  });
+
+  describe('fromWei', () => {
+    it('converts wei of 8 and 6 decimal tokens', () => {
+      expect(TokenAmount.fromWei(WBTC, 12345678).toString()).toBe('0.12345678');
+      expect(TokenAmount.fromWei(USDT, '2500000').toString()).toBe('2.5');
+    });
+
+    it('converts wei of 18 decimal tokens', () => {
+      const wei = BigNumber.from('1234500000000000000');
+      expect(TokenAmount.fromWei(ETH, wei).toString()).toBe('1.2345');
+      expect(TokenAmount.fromWei(ETH, wei).toWei().eq(wei)).toBe(true);
+    });
+
+    it('truncates tokens with more than 18 decimals', () => {
+      const amount = TokenAmount.fromWei(BIG, '1500000000000000000000123');
+      expect(amount.toString()).toBe('1.5');
+      expect(amount.toWei().toString()).toBe('1500000000000000000000000');
+    });
+
+    it('round trips wei', () => {
+      ['0', '1', '99999999', '2100000000000000'].forEach(wei =>
+        expect(TokenAmount.fromWei(WBTC, wei).toWei().toString()).toBe(wei),
+      );
+    });
+  });
+
+  describe('arithmetic', () => {
+    it('adds and subtracts amounts of the same asset', () => {
+      const a = TokenAmount.from(WBTC, '1.5');
+      const b = TokenAmount.fromWei(WBTC, 1);
+      expect(a.add(b).toWei().toString()).toBe('150000001');
+      expect(a.sub(b).toWei().toString()).toBe('149999999');
+      expect(b.sub(a).isNegative()).toBe(true);
+    });
+
+    it('matches assets by address regardless of case', () => {
+      const a = TokenAmount.from(WBTC, 1);
+      const b = TokenAmount.from(
+        { ...WBTC, address: WBTC.address.toLowerCase() },
+        1,
+      );
+      expect(a.add(b).toString()).toBe('2');
+    });
+
+    it('matches assets without address by symbol and decimals', () => {
+      expect(TokenAmount.from(ETH, 1).isSameAsset({ ...ETH })).toBe(true);
+      expect(
+        TokenAmount.from(ETH, 1).isSameAsset({ ...ETH, decimals: 8 }),
+      ).toBe(false);
+    });
+
+    it('throws when combining different assets', () => {
+      const a = TokenAmount.from(WBTC, 1);
+      const b = TokenAmount.from(USDT, 1);
+      expect(() => a.add(b)).toThrow(
+        "TokenAmount: can't combine WBTC with USDT",
+      );
+      expect(() => a.sub(b)).toThrow();
+      expect(() => a.gt(b)).toThrow();
+      expect(() => a.ratio(b)).toThrow();
+    });
+
+    it('multiplies and divides within decimals of the asset', () => {
+      const amount = TokenAmount.from(USDT, '10');
+      expect(amount.div(3).toString()).toBe('3.333333');
+      expect(amount.div(3, 'ceil').toString()).toBe('3.333334');
+      expect(amount.mul('0.0000001').toString()).toBe('0.000001');
+      expect(amount.mul('0.00000001').isZero()).toBe(true);
+      expect(amount.mul('0.00000001', 'ceil').toWei().toString()).toBe('1');
+    });
+
+    it('returns ratio of amounts', () => {
+      expect(
+        TokenAmount.from(WBTC, 1).ratio(TokenAmount.from(WBTC, 4)).toString(),
+      ).toBe('0.25');
+    });
+
+    it('converts to another asset', () => {
+      const amount = TokenAmount.from(ETH, '1.123456789').withAsset(USDT);
+      expect(amount.asset).toBe(USDT);
+      expect(amount.toWei().toString()).toBe('1123456');
+    });
+
+    it('compares amounts', () => {
+      const a = TokenAmount.from(WBTC, 1);
+      const b = TokenAmount.from(WBTC, 2);
+      expect(a.lt(b)).toBe(true);
+      expect(a.lte(a)).toBe(true);
+      expect(b.gt(a)).toBe(true);
+      expect(b.gte(a)).toBe(true);
+      expect(a.eq(TokenAmount.fromWei(WBTC, 100000000))).toBe(true);
+    });
+  });
+
+  describe('formatting', () => {
+    it('limits precision to decimals of the asset', () => {
+      const amount = TokenAmount.fromWei(USDT, 1234567891);
+      expect(amount.toString(8)).toBe('1234.567891');
+      expect(amount.toString(2)).toBe('1234.57');
+      expect(amount.format({ locale: 'en', precision: 10 })).toBe(
+        '1,234.567891',
+      );
+      expect(amount.format({ locale: 'de-DE' })).toBe('1.234,57');
+    });
+  });
+});
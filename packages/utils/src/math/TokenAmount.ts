@@ -0,0 +1,206 @@
+import { BigNumber, BigNumberish } from '@ethersproject/bignumber';
+
+import {
+  Decimal,
+  DecimalFormatOptions,
+  Decimalish,
+  RoundingMode,
+} from './Decimal';
+
+const PRECISION = 18;
+const TEN = BigNumber.from(10);
+
+// Structurally compatible with AssetDetails of @sovryn/contracts.
+export type TokenAmountAsset = {
+  symbol: string;
+  decimals: number;
+  address?: string;
+};
+
+// Factor between 18 digit Decimal and wei of the asset.
+const getScale = (decimals: number) => TEN.pow(Math.abs(PRECISION - decimals));
+
+// Assets are matched by address, or by symbol and decimals if address of either is unknown.
+export const isSameAsset = (a: TokenAmountAsset, b: TokenAmountAsset) =>
+  a.address && b.address
+    ? a.address.toLowerCase() === b.address.toLowerCase()
+    : a.symbol.toLowerCase() === b.symbol.toLowerCase() &&
+      a.decimals === b.decimals;
+
+const assertDecimals = (asset: TokenAmountAsset) => {
+  if (!Number.isInteger(asset.decimals) || asset.decimals < 0) {
+    throw new Error(
+      `TokenAmount: invalid decimals of ${asset.symbol}: ${asset.decimals}`,
+    );
+  }
+};
+
+export class TokenAmount {
+  readonly asset: TokenAmountAsset;
+  readonly amount: Decimal;
+
+  private constructor(asset: TokenAmountAsset, amount: Decimal) {
+    this.asset = asset;
+    this.amount = amount;
+  }
+
+  // Amount in token units, e.g. 1.5 WBTC. Digits beyond decimals of the asset are rounded.
+  static from(
+    asset: TokenAmountAsset,
+    amount: Decimalish,
+    rounding: RoundingMode = 'down',
+  ): TokenAmount {
+    assertDecimals(asset);
+    const value = Decimal.from(amount);
+
+    if (value.infinite) {
+      throw new Error(`TokenAmount: infinite amount of ${asset.symbol}`);
+    }
+
+    return new TokenAmount(
+      asset,
+      asset.decimals < PRECISION
+        ? Decimal.from(value.toString(asset.decimals, rounding))
+        : value,
+    );
+  }
+
+  // Amount in the smallest units of the token, as returned by contracts.
+  // Tokens with more than 18 decimals are truncated to 18 digits.
+  static fromWei(asset: TokenAmountAsset, wei: BigNumberish): TokenAmount {
+    assertDecimals(asset);
+    const value = BigNumber.from(wei);
+    const scale = getScale(asset.decimals);
+
+    return new TokenAmount(
+      asset,
+      Decimal.fromBigNumberString(
+        (asset.decimals <= PRECISION
+          ? value.mul(scale)
+          : value.div(scale)
+        ).toString(),
+      ),
+    );
+  }
+
+  static zero(asset: TokenAmountAsset): TokenAmount {
+    return TokenAmount.from(asset, 0);
+  }
+
+  toWei(): BigNumber {
+    const value = this.amount.toBigNumber();
+    const scale = getScale(this.asset.decimals);
+
+    return this.asset.decimals <= PRECISION
+      ? value.div(scale)
+      : value.mul(scale);
+  }
+
+  toDecimal(): Decimal {
+    return this.amount;
+  }
+
+  isSameAsset(other: TokenAmount | TokenAmountAsset): boolean {
+    return isSameAsset(
+      this.asset,
+      other instanceof TokenAmount ? other.asset : other,
+    );
+  }
+
+  private _assertSameAsset(other: TokenAmount) {
+    if (!this.isSameAsset(other)) {
+      throw new Error(
+        `TokenAmount: can't combine ${this.asset.symbol} with ${other.asset.symbol}`,
+      );
+    }
+  }
+
+  add(other: TokenAmount): TokenAmount {
+    this._assertSameAsset(other);
+    return new TokenAmount(this.asset, this.amount.add(other.amount));
+  }
+
+  sub(other: TokenAmount): TokenAmount {
+    this._assertSameAsset(other);
+    return new TokenAmount(this.asset, this.amount.sub(other.amount));
+  }
+
+  mul(multiplier: Decimalish, rounding: RoundingMode = 'down'): TokenAmount {
+    return TokenAmount.from(
+      this.asset,
+      this.amount.mulDiv(multiplier, 1, rounding),
+      rounding,
+    );
+  }
+
+  div(divider: Decimalish, rounding: RoundingMode = 'down'): TokenAmount {
+    return TokenAmount.from(
+      this.asset,
+      this.amount.div(divider, rounding),
+      rounding,
+    );
+  }
+
+  // Ratio of two amounts of the same asset.
+  ratio(other: TokenAmount, rounding: RoundingMode = 'down'): Decimal {
+    this._assertSameAsset(other);
+    return this.amount.div(other.amount, rounding);
+  }
+
+  // Same amount of another asset, e.g. when swapping 1:1 between bridged tokens.
+  withAsset(
+    asset: TokenAmountAsset,
+    rounding: RoundingMode = 'down',
+  ): TokenAmount {
+    return TokenAmount.from(asset, this.amount, rounding);
+  }
+
+  eq(other: TokenAmount): boolean {
+    this._assertSameAsset(other);
+    return this.amount.eq(other.amount);
+  }
+
+  gt(other: TokenAmount): boolean {
+    this._assertSameAsset(other);
+    return this.amount.gt(other.amount);
+  }
+
+  gte(other: TokenAmount): boolean {
+    this._assertSameAsset(other);
+    return this.amount.gte(other.amount);
+  }
+
+  lt(other: TokenAmount): boolean {
+    this._assertSameAsset(other);
+    return this.amount.lt(other.amount);
+  }
+
+  lte(other: TokenAmount): boolean {
+    this._assertSameAsset(other);
+    return this.amount.lte(other.amount);
+  }
+
+  isZero(): boolean {
+    return this.amount.isZero();
+  }
+
+  isNegative(): boolean {
+    return this.amount.isNegative();
+  }
+
+  toString(precision?: number, rounding?: RoundingMode): string {
+    return this.amount.toString(
+      precision === undefined
+        ? undefined
+        : Math.min(precision, this.asset.decimals),
+      rounding,
+    );
+  }
+
+  format(options: DecimalFormatOptions = {}): string {
+    return this.amount.format({
+      ...options,
+      precision: Math.min(options.precision ?? 2, this.asset.decimals),
+    });
+  }
+}
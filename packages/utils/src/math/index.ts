@@ -1,2 +1,4 @@
 export * from './Decimal';
 export * from './Percent';
+export * from './TokenAmount';
+export * from './Price';